@@ -15,6 +15,9 @@ import NotFound from "@/pages/not-found";
 import Dashboard from "@/pages/dashboard";
 import Leads from "@/pages/leads";
 import LeadDetail from "@/pages/lead-detail";
+import LeadDuplicates from "@/pages/lead-duplicates";
+import Companies from "@/pages/companies";
+import CompanyDetail from "@/pages/company-detail";
 import Conversations from "@/pages/conversations";
 import Pipeline from "@/pages/pipeline";
 import DealDetail from "@/pages/deal-detail";
@@ -22,11 +25,20 @@ import Tasks from "@/pages/tasks";
 import Team from "@/pages/team";
 import Automation from "@/pages/automation";
 import Analytics from "@/pages/analytics";
+import Quotas from "@/pages/quotas";
 import Settings from "@/pages/settings";
 import SettingsAdvanced from "@/pages/settings-advanced";
+import SettingsJobs from "@/pages/settings-jobs";
+import SettingsProducts from "@/pages/settings-products";
+import SettingsCurrency from "@/pages/settings-currency";
+import SettingsRoles from "@/pages/settings-roles";
+import SettingsSecurity from "@/pages/settings-security";
 import LinkedInOutreach from "@/pages/linkedin-outreach";
 import Login from "@/pages/Login";
 import Register from "@/pages/Register";
+import ForgotPassword from "@/pages/ForgotPassword";
+import ResetPassword from "@/pages/ResetPassword";
+import AcceptInvite from "@/pages/AcceptInvite";
 
 function Router() {
   return (
@@ -34,6 +46,9 @@ function Router() {
       {/* Public routes - no sidebar */}
       <Route path="/login" component={Login} />
       <Route path="/register" component={Register} />
+      <Route path="/forgot-password" component={ForgotPassword} />
+      <Route path="/reset-password" component={ResetPassword} />
+      <Route path="/accept-invite" component={AcceptInvite} />
 
       {/* Protected routes - with sidebar and header */}
       <Route path="/">
@@ -54,6 +69,15 @@ function Router() {
           </ProtectedRoute>
         )}
       </Route>
+      <Route path="/leads/duplicates">
+        {() => (
+          <ProtectedRoute>
+            <AppLayout>
+              <LeadDuplicates />
+            </AppLayout>
+          </ProtectedRoute>
+        )}
+      </Route>
       <Route path="/leads/:id">
         {() => (
           <ProtectedRoute>
@@ -63,6 +87,24 @@ function Router() {
           </ProtectedRoute>
         )}
       </Route>
+      <Route path="/companies">
+        {() => (
+          <ProtectedRoute>
+            <AppLayout>
+              <Companies />
+            </AppLayout>
+          </ProtectedRoute>
+        )}
+      </Route>
+      <Route path="/companies/:id">
+        {() => (
+          <ProtectedRoute>
+            <AppLayout>
+              <CompanyDetail />
+            </AppLayout>
+          </ProtectedRoute>
+        )}
+      </Route>
       <Route path="/conversations">
         {() => (
           <ProtectedRoute>
@@ -117,6 +159,15 @@ function Router() {
           </ProtectedRoute>
         )}
       </Route>
+      <Route path="/quotas">
+        {() => (
+          <ProtectedRoute>
+            <AppLayout>
+              <Quotas />
+            </AppLayout>
+          </ProtectedRoute>
+        )}
+      </Route>
       <Route path="/analytics">
         {() => (
           <ProtectedRoute>
@@ -153,6 +204,51 @@ function Router() {
           </ProtectedRoute>
         )}
       </Route>
+      <Route path="/settings/products">
+        {() => (
+          <ProtectedRoute>
+            <AppLayout>
+              <SettingsProducts />
+            </AppLayout>
+          </ProtectedRoute>
+        )}
+      </Route>
+      <Route path="/settings/currency">
+        {() => (
+          <ProtectedRoute>
+            <AppLayout>
+              <SettingsCurrency />
+            </AppLayout>
+          </ProtectedRoute>
+        )}
+      </Route>
+      <Route path="/settings/roles">
+        {() => (
+          <ProtectedRoute>
+            <AppLayout>
+              <SettingsRoles />
+            </AppLayout>
+          </ProtectedRoute>
+        )}
+      </Route>
+      <Route path="/settings/security">
+        {() => (
+          <ProtectedRoute>
+            <AppLayout>
+              <SettingsSecurity />
+            </AppLayout>
+          </ProtectedRoute>
+        )}
+      </Route>
+      <Route path="/settings/jobs">
+        {() => (
+          <ProtectedRoute>
+            <AppLayout>
+              <SettingsJobs />
+            </AppLayout>
+          </ProtectedRoute>
+        )}
+      </Route>
       <Route component={NotFound} />
     </Switch>
   );
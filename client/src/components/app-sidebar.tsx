@@ -1,4 +1,5 @@
-import { Home, Users, MessageSquare, Settings, TrendingUp, CheckSquare, UserCog, ChevronUp, LogOut, User as UserIcon, Kanban, Zap, BarChart3, Linkedin } from "lucide-react";
+import { Home, Users, MessageSquare, Settings, TrendingUp, CheckSquare, UserCog, ChevronUp, LogOut, User as UserIcon, Kanban, Zap, BarChart3, Linkedin, Bookmark, Building2, Target } from "lucide-react";
+import { useQuery } from "@tanstack/react-query";
 import {
   Sidebar,
   SidebarContent,
@@ -6,6 +7,7 @@ import {
   SidebarGroupContent,
   SidebarGroupLabel,
   SidebarMenu,
+  SidebarMenuBadge,
   SidebarMenuButton,
   SidebarMenuItem,
   SidebarHeader,
@@ -22,6 +24,7 @@ import { Avatar, AvatarFallback } from "@/components/ui/avatar";
 import { Badge } from "@/components/ui/badge";
 import { Link, useLocation } from "wouter";
 import { useAuth } from "@/contexts/AuthContext";
+import type { SavedView } from "@shared/schema";
 
 const menuItems = [
   {
@@ -34,6 +37,11 @@ const menuItems = [
     url: "/leads",
     icon: Users,
   },
+  {
+    title: "Companies",
+    url: "/companies",
+    icon: Building2,
+  },
   {
     title: "Conversations",
     url: "/conversations",
@@ -64,6 +72,11 @@ const menuItems = [
     url: "/analytics",
     icon: BarChart3,
   },
+  {
+    title: "Quotas",
+    url: "/quotas",
+    icon: Target,
+  },
   {
     title: "LinkedIn Outreach",
     url: "/linkedin-outreach",
@@ -80,6 +93,17 @@ export function AppSidebar() {
   const [location] = useLocation();
   const { logout, user: currentUser } = useAuth();
 
+  const { data: savedViews = [] } = useQuery<SavedView[]>({
+    queryKey: ["/api/saved-views"],
+    enabled: !!currentUser,
+  });
+  // Counts refresh every minute so the sidebar tracks new and changed records
+  const { data: viewCounts = {} } = useQuery<Record<string, number | null>>({
+    queryKey: ["/api/saved-views", "counts"],
+    enabled: !!currentUser && savedViews.length > 0,
+    refetchInterval: 60_000,
+  });
+
   const getInitials = (name: string | undefined) => {
     if (!name) return "??";
     return name
@@ -151,6 +175,28 @@ export function AppSidebar() {
             </SidebarMenu>
           </SidebarGroupContent>
         </SidebarGroup>
+        {savedViews.length > 0 && (
+          <SidebarGroup>
+            <SidebarGroupLabel>Saved Views</SidebarGroupLabel>
+            <SidebarGroupContent>
+              <SidebarMenu>
+                {savedViews.map((view) => (
+                  <SidebarMenuItem key={view.id}>
+                    <SidebarMenuButton asChild data-testid={`link-saved-view-${view.id}`}>
+                      <Link href={`${view.entityType === "deal" ? "/pipeline" : "/leads"}?view=${view.id}`}>
+                        {view.entityType === "deal" ? <Kanban className="h-4 w-4" /> : <Bookmark className="h-4 w-4" />}
+                        <span>{view.name}</span>
+                      </Link>
+                    </SidebarMenuButton>
+                    {typeof viewCounts[view.id] === "number" && (
+                      <SidebarMenuBadge data-testid={`badge-saved-view-${view.id}`}>{viewCounts[view.id]}</SidebarMenuBadge>
+                    )}
+                  </SidebarMenuItem>
+                ))}
+              </SidebarMenu>
+            </SidebarGroupContent>
+          </SidebarGroup>
+        )}
       </SidebarContent>
       {currentUser && (
         <SidebarFooter className="p-3 border-t border-sidebar-border">
@@ -0,0 +1,280 @@
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Plus, Trash2, FolderPlus } from "lucide-react";
+import {
+  conditionFields,
+  type ConditionFieldType,
+  type ConditionGroup,
+  type ConditionGroupOperator,
+  type ConditionNode,
+  type ConditionOperator,
+  type LeafCondition,
+} from "@shared/automation-rules";
+
+const operatorLabels: Record<ConditionOperator, string> = {
+  equals: "equals",
+  not_equals: "does not equal",
+  contains: "contains",
+  not_contains: "does not contain",
+  in: "is one of",
+  not_in: "is not one of",
+  gt: "greater than",
+  gte: "at least",
+  lt: "less than",
+  lte: "at most",
+  between: "between",
+  is_empty: "is empty",
+  is_not_empty: "is not empty",
+  changed_to: "changed to",
+  changed_from: "changed from",
+};
+
+const operatorsByType: Record<ConditionFieldType, ConditionOperator[]> = {
+  string: ["equals", "not_equals", "contains", "not_contains", "in", "not_in", "is_empty", "is_not_empty", "changed_to", "changed_from"],
+  number: ["equals", "not_equals", "gt", "gte", "lt", "lte", "between", "in", "not_in", "is_empty", "is_not_empty", "changed_to", "changed_from"],
+  date: ["gt", "gte", "lt", "lte", "between", "is_empty", "is_not_empty"],
+  boolean: ["equals"],
+  array: ["contains", "not_contains", "is_empty", "is_not_empty"],
+};
+
+const groupLabels: Record<ConditionGroupOperator, string> = {
+  and: "All of",
+  or: "Any of",
+  not: "None of",
+};
+
+export const emptyConditionGroup = (): ConditionGroup => ({ type: "group", operator: "and", conditions: [] });
+
+const newCondition = (): LeafCondition => ({ type: "condition", field: "lead.score", operator: "gte", value: "" });
+
+const fieldType = (field: string): ConditionFieldType =>
+  conditionFields.find((f) => f.field === field)?.type || "string";
+
+/**
+ * Convert what the user typed into the value the API expects for the field type
+ */
+function parseValue(raw: string, type: ConditionFieldType): unknown {
+  if (type === "number") return raw === "" ? "" : Number(raw);
+  if (type === "boolean") return raw === "true";
+  return raw;
+}
+
+interface ConditionGroupEditorProps {
+  group: ConditionGroup;
+  onChange: (group: ConditionGroup) => void;
+  onRemove?: () => void;
+  depth?: number;
+}
+
+export function ConditionGroupEditor({ group, onChange, onRemove, depth = 0 }: ConditionGroupEditorProps) {
+  const updateChild = (index: number, node: ConditionNode) => {
+    const conditions = [...group.conditions];
+    conditions[index] = node;
+    onChange({ ...group, conditions });
+  };
+
+  const removeChild = (index: number) => {
+    onChange({ ...group, conditions: group.conditions.filter((_, i) => i !== index) });
+  };
+
+  return (
+    <div className={`space-y-2 rounded-lg border p-3 ${depth > 0 ? "bg-muted/40" : ""}`}>
+      <div className="flex items-center gap-2">
+        <Select
+          value={group.operator}
+          onValueChange={(operator) => onChange({ ...group, operator: operator as ConditionGroupOperator })}
+        >
+          <SelectTrigger className="w-32" data-testid={`select-group-operator-${depth}`}>
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {(Object.keys(groupLabels) as ConditionGroupOperator[]).map((op) => (
+              <SelectItem key={op} value={op}>{groupLabels[op]}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <span className="text-sm text-muted-foreground flex-1">the following conditions</span>
+        {onRemove && (
+          <Button type="button" variant="ghost" size="icon" onClick={onRemove}>
+            <Trash2 className="h-4 w-4 text-destructive" />
+          </Button>
+        )}
+      </div>
+
+      {group.conditions.map((child, index) =>
+        child.type === "group" ? (
+          <ConditionGroupEditor
+            key={index}
+            group={child}
+            depth={depth + 1}
+            onChange={(node) => updateChild(index, node)}
+            onRemove={() => removeChild(index)}
+          />
+        ) : (
+          <ConditionRow
+            key={index}
+            condition={child}
+            onChange={(node) => updateChild(index, node)}
+            onRemove={() => removeChild(index)}
+          />
+        )
+      )}
+
+      <div className="flex gap-2">
+        <Button
+          type="button"
+          variant="outline"
+          size="sm"
+          onClick={() => onChange({ ...group, conditions: [...group.conditions, newCondition()] })}
+          data-testid={`button-add-condition-${depth}`}
+        >
+          <Plus className="h-3 w-3 mr-1" />
+          Condition
+        </Button>
+        <Button
+          type="button"
+          variant="outline"
+          size="sm"
+          onClick={() => onChange({ ...group, conditions: [...group.conditions, emptyConditionGroup()] })}
+          data-testid={`button-add-group-${depth}`}
+        >
+          <FolderPlus className="h-3 w-3 mr-1" />
+          Group
+        </Button>
+      </div>
+    </div>
+  );
+}
+
+interface ConditionRowProps {
+  condition: LeafCondition;
+  onChange: (condition: LeafCondition) => void;
+  onRemove: () => void;
+}
+
+function ConditionRow({ condition, onChange, onRemove }: ConditionRowProps) {
+  const type = fieldType(condition.field);
+  const operators = operatorsByType[type];
+  const inputType = type === "number" ? "number" : type === "date" ? "date" : "text";
+
+  const changeField = (field: string) => {
+    const nextType = fieldType(field);
+    const operator = operatorsByType[nextType].includes(condition.operator)
+      ? condition.operator
+      : operatorsByType[nextType][0];
+    onChange({ ...condition, field, operator, value: nextType === "boolean" ? true : "" });
+  };
+
+  const changeOperator = (operator: ConditionOperator) => {
+    let value: unknown = "";
+    if (operator === "between") value = ["", ""];
+    if (operator === "in" || operator === "not_in") value = [];
+    if (operator === "is_empty" || operator === "is_not_empty") value = undefined;
+    if (type === "boolean") value = true;
+    onChange({ ...condition, operator, value });
+  };
+
+  const renderValue = () => {
+    if (condition.operator === "is_empty" || condition.operator === "is_not_empty") {
+      return null;
+    }
+
+    if (type === "boolean") {
+      return (
+        <Select
+          value={String(condition.value ?? true)}
+          onValueChange={(v) => onChange({ ...condition, value: v === "true" })}
+        >
+          <SelectTrigger className="w-28">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="true">Yes</SelectItem>
+            <SelectItem value="false">No</SelectItem>
+          </SelectContent>
+        </Select>
+      );
+    }
+
+    if (condition.operator === "between") {
+      const [min, max] = Array.isArray(condition.value) ? condition.value : ["", ""];
+      return (
+        <div className="flex items-center gap-1">
+          <Input
+            type={inputType}
+            className="w-28"
+            value={String(min ?? "")}
+            onChange={(e) => onChange({ ...condition, value: [parseValue(e.target.value, type), max] })}
+          />
+          <span className="text-xs text-muted-foreground">and</span>
+          <Input
+            type={inputType}
+            className="w-28"
+            value={String(max ?? "")}
+            onChange={(e) => onChange({ ...condition, value: [min, parseValue(e.target.value, type)] })}
+          />
+        </div>
+      );
+    }
+
+    if (condition.operator === "in" || condition.operator === "not_in") {
+      const list = Array.isArray(condition.value) ? condition.value : [];
+      return (
+        <Input
+          className="flex-1 min-w-32"
+          placeholder="Comma separated"
+          defaultValue={list.join(", ")}
+          onBlur={(e) =>
+            onChange({
+              ...condition,
+              value: e.target.value
+                .split(",")
+                .map((item) => item.trim())
+                .filter(Boolean)
+                .map((item) => parseValue(item, type)),
+            })
+          }
+        />
+      );
+    }
+
+    return (
+      <Input
+        type={inputType}
+        className="flex-1 min-w-32"
+        value={String(condition.value ?? "")}
+        onChange={(e) => onChange({ ...condition, value: parseValue(e.target.value, type) })}
+      />
+    );
+  };
+
+  return (
+    <div className="flex flex-wrap items-center gap-2" data-testid="condition-row">
+      <Select value={condition.field} onValueChange={changeField}>
+        <SelectTrigger className="w-48">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          {conditionFields.map((f) => (
+            <SelectItem key={f.field} value={f.field}>{f.label}</SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+      <Select value={condition.operator} onValueChange={(op) => changeOperator(op as ConditionOperator)}>
+        <SelectTrigger className="w-40">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          {operators.map((op) => (
+            <SelectItem key={op} value={op}>{operatorLabels[op]}</SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+      {renderValue()}
+      <Button type="button" variant="ghost" size="icon" onClick={onRemove}>
+        <Trash2 className="h-4 w-4 text-destructive" />
+      </Button>
+    </div>
+  );
+}
@@ -0,0 +1,428 @@
+import { useEffect, useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { ArrowDown, ArrowUp, Plus, Trash2 } from "lucide-react";
+import { ConditionGroupEditor, emptyConditionGroup } from "@/components/automation-condition-builder";
+import type { AutomationRule, EmailTemplate, SavedView, User } from "@shared/schema";
+import {
+  automationActionTypes,
+  type AutomationAction,
+  type AutomationActionType,
+  type ConditionGroup,
+  type RuleFrequency,
+} from "@shared/automation-rules";
+
+const triggerOptions = [
+  { value: "score_changed", label: "Lead score changes" },
+  { value: "conversation_received", label: "Email received" },
+  { value: "deal_stage_change", label: "Deal stage changes" },
+  { value: "time_based", label: "On a schedule" },
+];
+
+const timeBasedOptions = [
+  { value: "lead_not_contacted", label: "Lead not contacted for N days" },
+  { value: "deal_idle_in_stage", label: "Deal idle in stage for N days" },
+  { value: "task_overdue", label: "Task overdue by N days" },
+  { value: "close_date_passed", label: "Expected close date passed by N days" },
+];
+
+// The saved view type each event trigger can use as its audience
+const triggerViewTypes: Record<string, string> = {
+  score_changed: "lead",
+  conversation_received: "lead",
+  deal_stage_change: "deal",
+};
+
+const frequencyOptions: Array<{ value: RuleFrequency; label: string }> = [
+  { value: "every_time", label: "Every time it matches" },
+  { value: "once_per_entity", label: "Once per lead or deal" },
+  { value: "cooldown", label: "At most once per cooldown" },
+];
+
+export const actionLabels: Record<AutomationActionType, string> = {
+  convert_to_deal: "Create Deal",
+  create_task: "Create Task",
+  advance_stage: "Advance Stage",
+  assign_lead: "Assign Lead",
+  send_email: "Send Email",
+};
+
+interface AutomationRuleDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  rule?: AutomationRule | null;
+}
+
+export function AutomationRuleDialog({ open, onOpenChange, rule }: AutomationRuleDialogProps) {
+  const { toast } = useToast();
+  const [name, setName] = useState("");
+  const [description, setDescription] = useState("");
+  const [triggerType, setTriggerType] = useState("score_changed");
+  const [schedule, setSchedule] = useState({ condition: "lead_not_contacted", days: 7 });
+  const [conditions, setConditions] = useState<ConditionGroup>(emptyConditionGroup());
+  const [actions, setActions] = useState<AutomationAction[]>([{ type: "create_task", config: {} }]);
+  const [frequency, setFrequency] = useState<RuleFrequency>("every_time");
+  const [cooldownHours, setCooldownHours] = useState<number | undefined>(undefined);
+  const [savedViewId, setSavedViewId] = useState<string>("none");
+
+  const { data: users = [] } = useQuery<User[]>({ queryKey: ["/api/users"], enabled: open });
+  const { data: templates = [] } = useQuery<EmailTemplate[]>({ queryKey: ["/api/email-templates"], enabled: open });
+  const { data: savedViews = [], isSuccess: viewsLoaded } = useQuery<SavedView[]>({ queryKey: ["/api/saved-views"], enabled: open });
+
+  const audienceViews = savedViews.filter(
+    (view) => !triggerViewTypes[triggerType] || view.entityType === triggerViewTypes[triggerType]
+  );
+  // A view that no longer fits the trigger is dropped rather than saved
+  const audienceViewId = savedViewId !== "none" && (!viewsLoaded || audienceViews.some((view) => view.id === savedViewId))
+    ? savedViewId
+    : null;
+
+  // Load the rule being edited (or reset for a new one) whenever the dialog opens
+  useEffect(() => {
+    if (!open) return;
+
+    setName(rule?.name || "");
+    setDescription(rule?.description || "");
+    setTriggerType(rule?.triggerType || "score_changed");
+    setFrequency((rule?.frequency as RuleFrequency) || "every_time");
+    setCooldownHours(rule?.cooldownHours ?? undefined);
+    setSavedViewId(rule?.savedViewId || "none");
+
+    const triggerConditions = (rule?.triggerConditions || {}) as any;
+    setSchedule({
+      condition: triggerConditions.condition || "lead_not_contacted",
+      days: triggerConditions.days ?? 7,
+    });
+
+    const tree = rule?.conditions as ConditionGroup | null | undefined;
+    setConditions(tree && tree.type === "group" ? tree : emptyConditionGroup());
+
+    const ruleActions = rule?.actions as AutomationAction[] | null | undefined;
+    setActions(
+      ruleActions && ruleActions.length > 0
+        ? ruleActions
+        : rule
+          ? [{ type: rule.actionType as AutomationActionType, config: (rule.actionConfig as any) || {} }]
+          : [{ type: "create_task", config: {} }]
+    );
+  }, [open, rule]);
+
+  const saveMutation = useMutation({
+    mutationFn: async () => {
+      const triggerConditions = triggerType === "time_based"
+        ? { ...((rule?.triggerConditions as any) || {}), ...schedule }
+        : rule?.triggerType === triggerType ? rule.triggerConditions : {};
+
+      const body = {
+        name,
+        description,
+        triggerType,
+        triggerConditions,
+        conditions: conditions.conditions.length > 0 ? conditions : null,
+        actions,
+        frequency,
+        cooldownHours: frequency === "cooldown" ? cooldownHours : null,
+        savedViewId: audienceViewId,
+      };
+
+      return rule
+        ? apiRequest("PATCH", `/api/automation-rules/${rule.id}`, body)
+        : apiRequest("POST", "/api/automation-rules", body);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/automation-rules"] });
+      toast({
+        title: rule ? "Rule updated" : "Rule created",
+        description: `"${name}" has been saved.`,
+      });
+      onOpenChange(false);
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Failed to save rule",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const updateAction = (index: number, action: AutomationAction) => {
+    setActions(actions.map((a, i) => (i === index ? action : a)));
+  };
+
+  const moveAction = (index: number, offset: number) => {
+    const target = index + offset;
+    if (target < 0 || target >= actions.length) return;
+    const next = [...actions];
+    [next[index], next[target]] = [next[target], next[index]];
+    setActions(next);
+  };
+
+  const handleSave = () => {
+    if (!name.trim()) {
+      toast({ title: "Missing name", description: "Please name the rule", variant: "destructive" });
+      return;
+    }
+    if (actions.length === 0) {
+      toast({ title: "No actions", description: "Add at least one action", variant: "destructive" });
+      return;
+    }
+    if (frequency === "cooldown" && !cooldownHours) {
+      toast({ title: "Missing cooldown", description: "Enter how many hours to wait between runs", variant: "destructive" });
+      return;
+    }
+    saveMutation.mutate();
+  };
+
+  const renderActionConfig = (action: AutomationAction, index: number) => {
+    const config = action.config as Record<string, any>;
+    const setConfig = (key: string, value: unknown) =>
+      updateAction(index, { ...action, config: { ...config, [key]: value } });
+
+    switch (action.type) {
+      case "convert_to_deal":
+        return (
+          <div className="grid gap-2 sm:grid-cols-2">
+            <Input placeholder="Deal name (optional)" value={config.dealName || ""} onChange={(e) => setConfig("dealName", e.target.value)} />
+            <Input type="number" placeholder="Amount" value={config.amount ?? ""} onChange={(e) => setConfig("amount", e.target.value === "" ? undefined : Number(e.target.value))} />
+          </div>
+        );
+      case "create_task":
+        return (
+          <div className="grid gap-2 sm:grid-cols-3">
+            <Input className="sm:col-span-3" placeholder="Task title" value={config.title || ""} onChange={(e) => setConfig("title", e.target.value)} />
+            <Input type="number" placeholder="Due in days" value={config.daysFromNow ?? ""} onChange={(e) => setConfig("daysFromNow", e.target.value === "" ? undefined : Number(e.target.value))} />
+            <Select value={config.priority || "medium"} onValueChange={(v) => setConfig("priority", v)}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="low">Low</SelectItem>
+                <SelectItem value="medium">Medium</SelectItem>
+                <SelectItem value="high">High</SelectItem>
+                <SelectItem value="urgent">Urgent</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+        );
+      case "assign_lead":
+        return (
+          <Select value={config.userId || ""} onValueChange={(v) => setConfig("userId", v)}>
+            <SelectTrigger>
+              <SelectValue placeholder="Assign to..." />
+            </SelectTrigger>
+            <SelectContent>
+              {users.map((user) => (
+                <SelectItem key={user.id} value={user.id}>{user.name}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        );
+      case "send_email":
+        return (
+          <div className="grid gap-2 sm:grid-cols-2">
+            <Select value={config.templateId || ""} onValueChange={(v) => setConfig("templateId", v)}>
+              <SelectTrigger>
+                <SelectValue placeholder="Email template" />
+              </SelectTrigger>
+              <SelectContent>
+                {templates.map((template) => (
+                  <SelectItem key={template.id} value={template.id}>{template.name}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Input type="number" placeholder="Min hours between emails (24)" value={config.throttleHours ?? ""} onChange={(e) => setConfig("throttleHours", e.target.value === "" ? undefined : Number(e.target.value))} />
+          </div>
+        );
+      default:
+        return <p className="text-xs text-muted-foreground">Moves the deal to the next stage in its pipeline.</p>;
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-3xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>{rule ? "Edit Rule" : "Create Rule"}</DialogTitle>
+          <DialogDescription>
+            Choose when the rule runs, the conditions that must match, and the actions to take in order.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-6">
+          <div className="grid gap-4 sm:grid-cols-2">
+            <div className="space-y-2">
+              <Label htmlFor="rule-name">Name</Label>
+              <Input id="rule-name" value={name} onChange={(e) => setName(e.target.value)} data-testid="input-rule-name" />
+            </div>
+            <div className="space-y-2">
+              <Label>Trigger</Label>
+              <Select value={triggerType} onValueChange={setTriggerType}>
+                <SelectTrigger data-testid="select-rule-trigger">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {triggerOptions.map((option) => (
+                    <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2 sm:col-span-2">
+              <Label htmlFor="rule-description">Description</Label>
+              <Textarea id="rule-description" rows={2} value={description} onChange={(e) => setDescription(e.target.value)} />
+            </div>
+          </div>
+
+          {triggerType === "time_based" && (
+            <div className="grid gap-4 sm:grid-cols-3">
+              <div className="space-y-2 sm:col-span-2">
+                <Label>Schedule</Label>
+                <Select value={schedule.condition} onValueChange={(condition) => setSchedule({ ...schedule, condition })}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {timeBasedOptions.map((option) => (
+                      <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="rule-days">Days</Label>
+                <Input
+                  id="rule-days"
+                  type="number"
+                  min={0}
+                  value={schedule.days}
+                  onChange={(e) => setSchedule({ ...schedule, days: Number(e.target.value) })}
+                />
+              </div>
+            </div>
+          )}
+
+          <div className="grid gap-4 sm:grid-cols-3">
+            <div className="space-y-2 sm:col-span-2">
+              <Label>Frequency</Label>
+              <Select value={frequency} onValueChange={(value) => setFrequency(value as RuleFrequency)}>
+                <SelectTrigger data-testid="select-rule-frequency">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {frequencyOptions.map((option) => (
+                    <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            {frequency === "cooldown" && (
+              <div className="space-y-2">
+                <Label htmlFor="rule-cooldown">Cooldown (hours)</Label>
+                <Input
+                  id="rule-cooldown"
+                  type="number"
+                  min={1}
+                  value={cooldownHours ?? ""}
+                  onChange={(e) => setCooldownHours(e.target.value === "" ? undefined : Number(e.target.value))}
+                  data-testid="input-rule-cooldown"
+                />
+              </div>
+            )}
+          </div>
+
+          <div className="space-y-2">
+            <Label>Audience</Label>
+            <Select value={audienceViewId || "none"} onValueChange={setSavedViewId}>
+              <SelectTrigger data-testid="select-rule-audience">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="none">All records</SelectItem>
+                {audienceViews.map((view) => (
+                  <SelectItem key={view.id} value={view.id}>
+                    {view.name} ({view.entityType === "lead" ? "leads" : "deals"})
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <p className="text-xs text-muted-foreground">
+              Only records currently in this saved view trigger the rule.
+            </p>
+          </div>
+
+          <div className="space-y-2">
+            <Label>Conditions</Label>
+            <p className="text-xs text-muted-foreground">
+              Leave empty to run on every trigger.
+            </p>
+            <ConditionGroupEditor group={conditions} onChange={setConditions} />
+          </div>
+
+          <div className="space-y-2">
+            <Label>Actions</Label>
+            <div className="space-y-2">
+              {actions.map((action, index) => (
+                <div key={index} className="space-y-2 rounded-lg border p-3" data-testid={`action-${index}`}>
+                  <div className="flex items-center gap-2">
+                    <span className="text-sm font-medium text-muted-foreground w-6">{index + 1}.</span>
+                    <Select
+                      value={action.type}
+                      onValueChange={(type) => updateAction(index, { type: type as AutomationActionType, config: {} })}
+                    >
+                      <SelectTrigger className="w-48">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {automationActionTypes.map((type) => (
+                          <SelectItem key={type} value={type}>{actionLabels[type]}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <div className="flex-1" />
+                    <Button type="button" variant="ghost" size="icon" onClick={() => moveAction(index, -1)} disabled={index === 0}>
+                      <ArrowUp className="h-4 w-4" />
+                    </Button>
+                    <Button type="button" variant="ghost" size="icon" onClick={() => moveAction(index, 1)} disabled={index === actions.length - 1}>
+                      <ArrowDown className="h-4 w-4" />
+                    </Button>
+                    <Button type="button" variant="ghost" size="icon" onClick={() => setActions(actions.filter((_, i) => i !== index))}>
+                      <Trash2 className="h-4 w-4 text-destructive" />
+                    </Button>
+                  </div>
+                  {renderActionConfig(action, index)}
+                </div>
+              ))}
+            </div>
+            <Button
+              type="button"
+              variant="outline"
+              size="sm"
+              onClick={() => setActions([...actions, { type: "create_task", config: {} }])}
+              data-testid="button-add-action"
+            >
+              <Plus className="h-3 w-3 mr-1" />
+              Action
+            </Button>
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button onClick={handleSave} disabled={saveMutation.isPending} data-testid="button-save-rule">
+            {saveMutation.isPending ? "Saving..." : "Save Rule"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
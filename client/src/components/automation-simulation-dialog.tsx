@@ -0,0 +1,156 @@
+import { useEffect, useState } from "react";
+import { useMutation } from "@tanstack/react-query";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import { FlaskConical } from "lucide-react";
+import { actionLabels } from "@/components/automation-rule-dialog";
+import type { AutomationRule } from "@shared/schema";
+import type { RuleSimulation, SimulatedActionOutcome } from "@shared/automation-rules";
+
+const outcomeStyles: Record<SimulatedActionOutcome, { label: string; variant: "default" | "secondary" | "destructive" | "outline" }> = {
+  would_run: { label: "Would run", variant: "default" },
+  would_skip: { label: "Would skip", variant: "secondary" },
+  would_fail: { label: "Would fail", variant: "destructive" },
+  not_reached: { label: "Not reached", variant: "outline" },
+};
+
+const toDateInput = (date: Date) => date.toISOString().slice(0, 10);
+
+interface AutomationSimulationDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  rule: AutomationRule | null;
+}
+
+export function AutomationSimulationDialog({ open, onOpenChange, rule }: AutomationSimulationDialogProps) {
+  const { toast } = useToast();
+  const [from, setFrom] = useState(() => toDateInput(new Date(Date.now() - 30 * 24 * 60 * 60 * 1000)));
+  const [to, setTo] = useState(() => toDateInput(new Date()));
+  const [result, setResult] = useState<RuleSimulation | null>(null);
+
+  useEffect(() => {
+    if (open) setResult(null);
+  }, [open, rule?.id]);
+
+  const simulateMutation = useMutation({
+    mutationFn: async () => {
+      // Include the whole end day
+      const end = new Date(`${to}T23:59:59.999`);
+      const res = await apiRequest("POST", `/api/automation-rules/${rule!.id}/simulate`, {
+        from: new Date(`${from}T00:00:00`).toISOString(),
+        to: end.toISOString(),
+      });
+      return (await res.json()) as RuleSimulation;
+    },
+    onSuccess: (data) => setResult(data),
+    onError: (error: Error) => {
+      toast({ title: "Simulation failed", description: error.message, variant: "destructive" });
+    },
+  });
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-3xl max-h-[85vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Simulate "{rule?.name}"</DialogTitle>
+          <DialogDescription>
+            Replay past activity to see which records this rule would have matched. Nothing is changed.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="flex flex-wrap items-end gap-3">
+          <div className="space-y-1">
+            <Label htmlFor="simulate-from">From</Label>
+            <Input
+              id="simulate-from"
+              type="date"
+              value={from}
+              onChange={(e) => setFrom(e.target.value)}
+              data-testid="input-simulate-from"
+            />
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="simulate-to">To</Label>
+            <Input
+              id="simulate-to"
+              type="date"
+              value={to}
+              onChange={(e) => setTo(e.target.value)}
+              data-testid="input-simulate-to"
+            />
+          </div>
+          <Button
+            onClick={() => simulateMutation.mutate()}
+            disabled={!rule || !from || !to || simulateMutation.isPending}
+            data-testid="button-run-simulation"
+          >
+            <FlaskConical className="h-4 w-4 mr-2" />
+            {simulateMutation.isPending ? "Simulating..." : "Run Simulation"}
+          </Button>
+        </div>
+
+        {result && (
+          <div className="space-y-4">
+            <div className="grid grid-cols-2 gap-3">
+              <div className="p-3 border rounded-lg">
+                <div className="text-xs text-muted-foreground">Events replayed</div>
+                <div className="text-2xl font-bold" data-testid="text-simulation-evaluated">{result.evaluated}</div>
+              </div>
+              <div className="p-3 border rounded-lg">
+                <div className="text-xs text-muted-foreground">Would have matched</div>
+                <div className="text-2xl font-bold" data-testid="text-simulation-matched">{result.matched}</div>
+              </div>
+            </div>
+
+            {result.notes.map((note, i) => (
+              <p key={i} className="text-xs text-muted-foreground">{note}</p>
+            ))}
+            {result.truncated && (
+              <p className="text-xs text-muted-foreground">
+                Showing the first {result.matches.length} of {result.matched} matches.
+              </p>
+            )}
+
+            {result.matches.length === 0 ? (
+              <p className="text-sm text-muted-foreground text-center py-6">
+                The rule would not have matched anything in this range.
+              </p>
+            ) : (
+              <div className="space-y-2">
+                {result.matches.map((match, i) => (
+                  <div key={i} className="p-3 border rounded-lg space-y-2" data-testid={`simulation-match-${i}`}>
+                    <div className="flex items-center justify-between gap-2">
+                      <div className="flex items-center gap-2">
+                        <Badge variant="outline" className="capitalize">{match.entityType}</Badge>
+                        <span className="font-medium">{match.name}</span>
+                      </div>
+                      <span className="text-xs text-muted-foreground">
+                        {new Date(match.at).toLocaleString()}
+                      </span>
+                    </div>
+                    <div className="space-y-1">
+                      {match.actions.map((action, j) => (
+                        <div key={j} className="flex items-center gap-2 text-sm">
+                          <Badge variant={outcomeStyles[action.outcome].variant}>
+                            {outcomeStyles[action.outcome].label}
+                          </Badge>
+                          <span className="font-medium">{actionLabels[action.type] || action.type}</span>
+                          <span className="text-muted-foreground">{action.detail}</span>
+                        </div>
+                      ))}
+                    </div>
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -28,23 +28,31 @@ export function Breadcrumbs() {
     // Map routes to breadcrumb labels
     const routeMap: Record<string, string> = {
       leads: "Leads",
+      duplicates: "Duplicates",
+      companies: "Companies",
       conversations: "Conversations",
       pipeline: "Pipeline",
       tasks: "Tasks",
       team: "Team",
       automation: "Automation",
       analytics: "Analytics",
+      quotas: "Quotas",
       settings: "Settings",
       advanced: "Advanced Settings",
+      jobs: "Background Jobs",
+      products: "Products",
+      currency: "Currencies",
+      roles: "Roles & Permissions",
+      security: "Security",
     };
 
     let currentPath = "";
     paths.forEach((path, index) => {
       currentPath += `/${path}`;
       
-      // Check if it's a UUID (lead detail page)
+      // Check if it's a UUID (lead or company detail page)
       if (path.match(/^[a-f0-9-]{36}$/i)) {
-        breadcrumbs.push({ label: "Lead Details" });
+        breadcrumbs.push({ label: paths[index - 1] === "companies" ? "Company Details" : "Lead Details" });
       } else {
         const label = routeMap[path] || path.charAt(0).toUpperCase() + path.slice(1);
         breadcrumbs.push({ 
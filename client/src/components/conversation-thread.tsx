@@ -0,0 +1,83 @@
+import type { ReactNode } from "react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Paperclip } from "lucide-react";
+import { formatDistanceToNow } from "date-fns";
+import type { Conversation } from "@shared/schema";
+import type { ConversationAttachment, ConversationThread } from "@shared/email-threads";
+
+// Deeper replies stay at this indent so long threads remain readable
+const MAX_INDENT = 4;
+
+const formatSentAt = (sentAt: Date | string) => {
+  const date = new Date(sentAt);
+  return isNaN(date.getTime()) ? "Date unknown" : formatDistanceToNow(date, { addSuffix: true });
+};
+
+const formatSize = (size?: number) => {
+  if (!size) return "";
+  if (size < 1024) return `${size} B`;
+  if (size < 1024 * 1024) return `${Math.round(size / 1024)} KB`;
+  return `${(size / (1024 * 1024)).toFixed(1)} MB`;
+};
+
+interface ConversationThreadCardProps<T extends Conversation> {
+  thread: ConversationThread<T>;
+  header?: ReactNode; // Shown above the subject, e.g. the lead on the all-conversations page
+}
+
+export function ConversationThreadCard<T extends Conversation>({ thread, header }: ConversationThreadCardProps<T>) {
+  return (
+    <Card data-testid={`card-thread-${thread.key}`}>
+      <CardHeader>
+        {header}
+        <div className="flex items-start justify-between gap-4">
+          <CardTitle className="text-base truncate">{thread.subject}</CardTitle>
+          <div className="flex items-center gap-2 shrink-0">
+            {thread.messages.length > 1 && (
+              <Badge variant="outline">{thread.messages.length} messages</Badge>
+            )}
+            <span className="text-xs text-muted-foreground">{formatSentAt(thread.lastMessageAt)}</span>
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        {thread.messages.map(({ message, depth }) => {
+          const attachments = (message.attachments as ConversationAttachment[] | null) || [];
+          return (
+            <div
+              key={message.id}
+              className={`rounded-md border p-3 ${depth > 0 ? "border-l-4" : ""}`}
+              style={{ marginLeft: `${Math.min(depth, MAX_INDENT) * 1.5}rem` }}
+              data-testid={`card-conversation-${message.id}`}
+            >
+              <div className="flex items-center gap-2 flex-wrap text-sm">
+                <Badge variant={message.isFromLead ? "default" : "secondary"}>
+                  {message.isFromLead ? "Received" : "Sent"}
+                </Badge>
+                <span className="font-medium">{message.fromEmail}</span>
+                <span className="text-muted-foreground">to {message.toEmail}</span>
+                <span className="text-xs text-muted-foreground ml-auto">{formatSentAt(message.sentAt)}</span>
+              </div>
+              {message.ccEmails && message.ccEmails.length > 0 && (
+                <p className="text-xs text-muted-foreground mt-1">Cc: {message.ccEmails.join(", ")}</p>
+              )}
+              <p className="text-sm whitespace-pre-wrap line-clamp-4 mt-2">{message.body}</p>
+              {attachments.length > 0 && (
+                <div className="flex flex-wrap gap-2 mt-2">
+                  {attachments.map((attachment, i) => (
+                    <Badge key={attachment.id || i} variant="outline" className="font-normal">
+                      <Paperclip className="h-3 w-3 mr-1" />
+                      {attachment.name}
+                      {attachment.size ? ` (${formatSize(attachment.size)})` : ""}
+                    </Badge>
+                  ))}
+                </div>
+              )}
+            </div>
+          );
+        })}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,276 @@
+import { useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { Link } from "wouter";
+import { Plus, Users, X } from "lucide-react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Dialog, DialogContent, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import type { Deal, Lead } from "@shared/schema";
+import type { LeadPage } from "@shared/lead-search";
+import {
+  dealContactInfluences,
+  dealContactRoleLabels,
+  dealContactRoles,
+  type DealContactInfluence,
+  type DealContactRole,
+  type DealContactWithLead,
+} from "@shared/deal-contacts";
+
+const influenceVariants: Record<DealContactInfluence, "default" | "secondary" | "outline"> = {
+  high: "default",
+  medium: "secondary",
+  low: "outline",
+};
+
+export function DealContactsCard({ deal }: { deal: Deal }) {
+  const { toast } = useToast();
+  const [addOpen, setAddOpen] = useState(false);
+  const contactsKey = [`/api/deals/${deal.id}/contacts`];
+
+  const { data: contacts = [] } = useQuery<DealContactWithLead[]>({ queryKey: contactsKey });
+  const { data: primaryLead } = useQuery<Lead>({
+    queryKey: ["/api/leads", deal.leadId],
+    enabled: !!deal.leadId,
+  });
+
+  const invalidate = () => {
+    queryClient.invalidateQueries({ queryKey: contactsKey });
+    queryClient.invalidateQueries({ queryKey: [`/api/deals/${deal.id}/forecast`] });
+  };
+
+  const updateMutation = useMutation({
+    mutationFn: async ({ id, updates }: { id: string; updates: { role?: DealContactRole; influence?: DealContactInfluence } }) =>
+      apiRequest("PATCH", `/api/deals/${deal.id}/contacts/${id}`, updates),
+    onSuccess: invalidate,
+    onError: (error: Error) => {
+      toast({ title: "Failed to update contact", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const removeMutation = useMutation({
+    mutationFn: async (id: string) => apiRequest("DELETE", `/api/deals/${deal.id}/contacts/${id}`),
+    onSuccess: invalidate,
+    onError: (error: Error) => {
+      toast({ title: "Failed to remove contact", description: error.message, variant: "destructive" });
+    },
+  });
+
+  return (
+    <Card data-testid="card-deal-contacts">
+      <CardHeader className="flex flex-row items-center justify-between space-y-0">
+        <CardTitle className="flex items-center gap-2">
+          <Users className="h-5 w-5" />
+          Buying Committee
+        </CardTitle>
+        <Button variant="outline" size="sm" onClick={() => setAddOpen(true)} data-testid="button-add-deal-contact">
+          <Plus className="h-4 w-4 mr-1" />
+          Add
+        </Button>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        {primaryLead && (
+          <div className="flex items-center justify-between text-sm">
+            <Link href={`/leads/${primaryLead.id}`} className="font-medium hover:underline">{primaryLead.name}</Link>
+            <Badge variant="secondary">Primary</Badge>
+          </div>
+        )}
+        {contacts.length === 0 && !primaryLead && (
+          <div className="text-center py-4 text-muted-foreground text-sm">
+            No contacts on this deal yet
+          </div>
+        )}
+        {contacts.map((contact) => (
+          <div key={contact.id} className="space-y-2 border-t pt-3" data-testid={`deal-contact-${contact.id}`}>
+            <div className="flex items-center justify-between gap-2">
+              <div className="min-w-0">
+                <Link href={`/leads/${contact.leadId}`} className="font-medium text-sm hover:underline">{contact.lead.name}</Link>
+                {contact.lead.position && (
+                  <div className="text-xs text-muted-foreground truncate">{contact.lead.position}</div>
+                )}
+              </div>
+              <div className="flex items-center gap-1">
+                <Badge variant={influenceVariants[contact.influence as DealContactInfluence]}>{contact.influence}</Badge>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  className="h-7 w-7"
+                  onClick={() => removeMutation.mutate(contact.id)}
+                  data-testid={`button-remove-deal-contact-${contact.id}`}
+                >
+                  <X className="h-4 w-4" />
+                </Button>
+              </div>
+            </div>
+            <div className="grid grid-cols-2 gap-2">
+              <Select
+                value={contact.role}
+                onValueChange={(role) => updateMutation.mutate({ id: contact.id, updates: { role: role as DealContactRole } })}
+              >
+                <SelectTrigger className="h-8 text-xs">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {dealContactRoles.map((role) => (
+                    <SelectItem key={role} value={role}>{dealContactRoleLabels[role]}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Select
+                value={contact.influence}
+                onValueChange={(influence) => updateMutation.mutate({ id: contact.id, updates: { influence: influence as DealContactInfluence } })}
+              >
+                <SelectTrigger className="h-8 text-xs">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {dealContactInfluences.map((influence) => (
+                    <SelectItem key={influence} value={influence}>{influence} influence</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+        ))}
+      </CardContent>
+
+      <AddDealContactDialog
+        deal={deal}
+        excludeIds={[...(deal.leadId ? [deal.leadId] : []), ...contacts.map((contact) => contact.leadId)]}
+        open={addOpen}
+        onOpenChange={setAddOpen}
+        onAdded={invalidate}
+      />
+    </Card>
+  );
+}
+
+function AddDealContactDialog({ deal, excludeIds, open, onOpenChange, onAdded }: {
+  deal: Deal;
+  excludeIds: string[];
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onAdded: () => void;
+}) {
+  const { toast } = useToast();
+  const [search, setSearch] = useState("");
+  const [selected, setSelected] = useState<Lead | null>(null);
+  const [role, setRole] = useState<DealContactRole>("champion");
+  const [influence, setInfluence] = useState<DealContactInfluence>("medium");
+
+  const { data: results } = useQuery<LeadPage<Lead>>({
+    queryKey: ["/api/leads", "search", `q=${search}&limit=8`],
+    queryFn: async () => {
+      const res = await apiRequest("GET", `/api/leads?q=${encodeURIComponent(search)}&limit=8`);
+      return res.json();
+    },
+    enabled: open && search.trim().length >= 2,
+  });
+  const candidates = (results?.leads || []).filter((lead) => !excludeIds.includes(lead.id));
+
+  const reset = () => {
+    setSearch("");
+    setSelected(null);
+    setRole("champion");
+    setInfluence("medium");
+  };
+
+  const addMutation = useMutation({
+    mutationFn: async () => apiRequest("POST", `/api/deals/${deal.id}/contacts`, { leadId: selected!.id, role, influence }),
+    onSuccess: () => {
+      onAdded();
+      toast({ title: "Contact added", description: `${selected!.name} is now on "${deal.name}".` });
+      reset();
+      onOpenChange(false);
+    },
+    onError: (error: Error) => {
+      toast({ title: "Failed to add contact", description: error.message, variant: "destructive" });
+    },
+  });
+
+  return (
+    <Dialog open={open} onOpenChange={(next) => { if (!next) reset(); onOpenChange(next); }}>
+      <DialogContent className="max-w-md">
+        <DialogHeader>
+          <DialogTitle>Add Contact to Deal</DialogTitle>
+        </DialogHeader>
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label>Lead</Label>
+            {selected ? (
+              <div className="flex items-center justify-between rounded-md border px-3 py-2 text-sm">
+                <span>{selected.name}{selected.company ? ` · ${selected.company}` : ""}</span>
+                <Button variant="ghost" size="icon" className="h-6 w-6" onClick={() => setSelected(null)}>
+                  <X className="h-3 w-3" />
+                </Button>
+              </div>
+            ) : (
+              <>
+                <Input
+                  placeholder="Search leads by name, email or company..."
+                  value={search}
+                  onChange={(e) => setSearch(e.target.value)}
+                  data-testid="input-search-deal-contact"
+                />
+                {candidates.length > 0 && (
+                  <div className="rounded-md border divide-y max-h-48 overflow-y-auto">
+                    {candidates.map((lead) => (
+                      <button
+                        key={lead.id}
+                        type="button"
+                        className="w-full text-left px-3 py-2 text-sm hover-elevate"
+                        onClick={() => setSelected(lead)}
+                      >
+                        <div className="font-medium">{lead.name}</div>
+                        <div className="text-xs text-muted-foreground">{[lead.position, lead.company].filter(Boolean).join(" · ")}</div>
+                      </button>
+                    ))}
+                  </div>
+                )}
+              </>
+            )}
+          </div>
+          <div className="grid grid-cols-2 gap-3">
+            <div className="space-y-2">
+              <Label>Role</Label>
+              <Select value={role} onValueChange={(value) => setRole(value as DealContactRole)}>
+                <SelectTrigger data-testid="select-deal-contact-role">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {dealContactRoles.map((value) => (
+                    <SelectItem key={value} value={value}>{dealContactRoleLabels[value]}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label>Influence</Label>
+              <Select value={influence} onValueChange={(value) => setInfluence(value as DealContactInfluence)}>
+                <SelectTrigger data-testid="select-deal-contact-influence">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {dealContactInfluences.map((value) => (
+                    <SelectItem key={value} value={value}>{value.charAt(0).toUpperCase() + value.slice(1)}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+        </div>
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>Cancel</Button>
+          <Button onClick={() => addMutation.mutate()} disabled={!selected || addMutation.isPending} data-testid="button-save-deal-contact">
+            {addMutation.isPending ? "Adding..." : "Add Contact"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,237 @@
+import { useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { Package, Plus, X } from "lucide-react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Dialog, DialogContent, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import type { Deal, DealLineItem, Product } from "@shared/schema";
+import { lineItemTotal, revenueBreakdown } from "@shared/deal-products";
+import { formatMoney } from "@shared/currency";
+
+const billingLabel = (item: Pick<DealLineItem, "billingType" | "billingPeriod">) =>
+  item.billingType === "recurring" ? (item.billingPeriod === "monthly" ? "/ month" : "/ year") : "one-time";
+
+// Prices come back as null when the user's role hides deal amounts
+export function DealLineItemsCard({ deal, amountHidden }: { deal: Deal; amountHidden: boolean }) {
+  const { toast } = useToast();
+  const [addOpen, setAddOpen] = useState(false);
+  const itemsKey = [`/api/deals/${deal.id}/line-items`];
+
+  const { data: items = [] } = useQuery<DealLineItem[]>({ queryKey: itemsKey });
+
+  // The deal amount is recalculated on the server whenever line items change
+  const invalidate = () => {
+    queryClient.invalidateQueries({ queryKey: itemsKey });
+    queryClient.invalidateQueries({ queryKey: ["/api/deals", deal.id] });
+    queryClient.invalidateQueries({ queryKey: ["/api/deals"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/forecast"] });
+  };
+
+  const updateMutation = useMutation({
+    mutationFn: async ({ id, updates }: { id: string; updates: { quantity?: number; discountPercent?: number } }) =>
+      apiRequest("PATCH", `/api/deals/${deal.id}/line-items/${id}`, updates),
+    onSuccess: invalidate,
+    onError: (error: Error) => {
+      toast({ title: "Failed to update line item", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const removeMutation = useMutation({
+    mutationFn: async (id: string) => apiRequest("DELETE", `/api/deals/${deal.id}/line-items/${id}`),
+    onSuccess: invalidate,
+    onError: (error: Error) => {
+      toast({ title: "Failed to remove line item", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const breakdown = revenueBreakdown(items);
+
+  return (
+    <Card data-testid="card-deal-line-items">
+      <CardHeader className="flex flex-row items-center justify-between space-y-0">
+        <CardTitle className="flex items-center gap-2">
+          <Package className="h-5 w-5" />
+          Products
+        </CardTitle>
+        <Button variant="outline" size="sm" onClick={() => setAddOpen(true)} data-testid="button-add-line-item">
+          <Plus className="h-4 w-4 mr-1" />
+          Add
+        </Button>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {items.length === 0 ? (
+          <p className="text-sm text-muted-foreground">
+            No products on this deal. Adding products calculates the deal amount from them.
+          </p>
+        ) : (
+          <>
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Product</TableHead>
+                  <TableHead className="w-20">Qty</TableHead>
+                  <TableHead className="w-24">Discount %</TableHead>
+                  <TableHead className="text-right">Total</TableHead>
+                  <TableHead className="w-10" />
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {items.map((item) => (
+                  <TableRow key={item.id} data-testid={`row-line-item-${item.id}`}>
+                    <TableCell>
+                      <div className="font-medium">{item.name}</div>
+                      <div className="text-xs text-muted-foreground">
+                        {amountHidden ? "Hidden" : formatMoney(item.unitPrice, deal.currency)} {billingLabel(item)}
+                      </div>
+                    </TableCell>
+                    <TableCell>
+                      <Input
+                        type="number"
+                        min={1}
+                        defaultValue={item.quantity}
+                        className="h-8"
+                        onBlur={(e) => {
+                          const quantity = parseInt(e.target.value, 10);
+                          if (quantity >= 1 && quantity !== item.quantity) {
+                            updateMutation.mutate({ id: item.id, updates: { quantity } });
+                          }
+                        }}
+                      />
+                    </TableCell>
+                    <TableCell>
+                      <Input
+                        type="number"
+                        min={0}
+                        max={100}
+                        defaultValue={item.discountPercent}
+                        className="h-8"
+                        onBlur={(e) => {
+                          const discountPercent = parseInt(e.target.value, 10);
+                          if (discountPercent >= 0 && discountPercent <= 100 && discountPercent !== item.discountPercent) {
+                            updateMutation.mutate({ id: item.id, updates: { discountPercent } });
+                          }
+                        }}
+                      />
+                    </TableCell>
+                    <TableCell className="text-right">
+                      {amountHidden ? "Hidden" : formatMoney(lineItemTotal(item), deal.currency)}
+                      {item.billingType === "recurring" && (
+                        <span className="text-xs text-muted-foreground"> {billingLabel(item)}</span>
+                      )}
+                    </TableCell>
+                    <TableCell>
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        className="h-8 w-8"
+                        onClick={() => removeMutation.mutate(item.id)}
+                        data-testid={`button-remove-line-item-${item.id}`}
+                      >
+                        <X className="h-4 w-4" />
+                      </Button>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+
+            {!amountHidden && (
+              <div className="grid grid-cols-3 gap-4 text-sm">
+                <div>
+                  <p className="text-muted-foreground">One-time</p>
+                  <p className="font-medium">{formatMoney(breakdown.oneTime, deal.currency)}</p>
+                </div>
+                <div>
+                  <p className="text-muted-foreground">MRR</p>
+                  <p className="font-medium">{formatMoney(breakdown.mrr, deal.currency)}</p>
+                </div>
+                <div>
+                  <p className="text-muted-foreground">ARR</p>
+                  <p className="font-medium">{formatMoney(breakdown.arr, deal.currency)}</p>
+                </div>
+              </div>
+            )}
+          </>
+        )}
+      </CardContent>
+
+      {addOpen && <AddLineItemDialog deal={deal} onClose={() => setAddOpen(false)} onAdded={invalidate} />}
+    </Card>
+  );
+}
+
+function AddLineItemDialog({ deal, onClose, onAdded }: { deal: Deal; onClose: () => void; onAdded: () => void }) {
+  const { toast } = useToast();
+  const [productId, setProductId] = useState("");
+  const [quantity, setQuantity] = useState("1");
+  const [discountPercent, setDiscountPercent] = useState("0");
+
+  const { data: products = [] } = useQuery<Product[]>({ queryKey: ["/api/products"] });
+  // Line items must be in the deal's currency
+  const available = products.filter((product) => product.currency === deal.currency);
+
+  const addMutation = useMutation({
+    mutationFn: async () =>
+      apiRequest("POST", `/api/deals/${deal.id}/line-items`, {
+        productId,
+        quantity: parseInt(quantity, 10) || 1,
+        discountPercent: parseInt(discountPercent, 10) || 0,
+      }),
+    onSuccess: () => {
+      onAdded();
+      onClose();
+    },
+    onError: (error: Error) => {
+      toast({ title: "Failed to add product", description: error.message, variant: "destructive" });
+    },
+  });
+
+  return (
+    <Dialog open onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="max-w-md">
+        <DialogHeader>
+          <DialogTitle>Add Product</DialogTitle>
+        </DialogHeader>
+        <div className="space-y-3">
+          <div className="space-y-1">
+            <Label>Product</Label>
+            <Select value={productId} onValueChange={setProductId}>
+              <SelectTrigger data-testid="select-line-item-product">
+                <SelectValue placeholder={available.length ? "Choose a product" : `No products priced in ${deal.currency}`} />
+              </SelectTrigger>
+              <SelectContent>
+                {available.map((product) => (
+                  <SelectItem key={product.id} value={product.id}>
+                    {product.name} — {formatMoney(product.unitPrice, product.currency)} {billingLabel(product)}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="grid grid-cols-2 gap-3">
+            <div className="space-y-1">
+              <Label htmlFor="line-item-quantity">Quantity</Label>
+              <Input id="line-item-quantity" type="number" min={1} value={quantity} onChange={(e) => setQuantity(e.target.value)} />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="line-item-discount">Discount %</Label>
+              <Input id="line-item-discount" type="number" min={0} max={100} value={discountPercent} onChange={(e) => setDiscountPercent(e.target.value)} />
+            </div>
+          </div>
+        </div>
+        <DialogFooter>
+          <Button variant="outline" onClick={onClose}>Cancel</Button>
+          <Button onClick={() => addMutation.mutate()} disabled={!productId || addMutation.isPending} data-testid="button-save-line-item">
+            {addMutation.isPending ? "Adding..." : "Add"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,102 @@
+import { useEffect, useState } from "react";
+import { Upload } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Label } from "@/components/ui/label";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { exportColumns, exportFormats, type ExportEntity, type ExportFormat } from "@shared/export";
+
+const formatLabels: Record<ExportFormat, string> = {
+  csv: "CSV",
+  xlsx: "Excel (.xlsx)",
+  json: "JSON",
+};
+
+interface ExportButtonProps {
+  entity: ExportEntity;
+  filters?: Record<string, string>; // The page's current filters, in list query parameter form
+}
+
+/**
+ * Export button plus dialog: pick a format and columns, then download
+ * what the page currently shows (filters included) from /api/exports.
+ */
+export function ExportButton({ entity, filters = {} }: ExportButtonProps) {
+  const [open, setOpen] = useState(false);
+  const [format, setFormat] = useState<ExportFormat>("csv");
+  const [columns, setColumns] = useState<string[]>([]);
+  const available = exportColumns[entity];
+
+  useEffect(() => {
+    if (!open) return;
+    setColumns(available.filter((c) => c.default).map((c) => c.key));
+  }, [open, entity]);
+
+  const toggle = (key: string, checked: boolean) =>
+    setColumns((current) => (checked ? [...current, key] : current.filter((c) => c !== key)));
+
+  const download = () => {
+    // Keep the listed column order rather than click order
+    const ordered = available.map((c) => c.key).filter((key) => columns.includes(key));
+    const params = new URLSearchParams({ ...filters, format, columns: ordered.join(",") });
+    window.location.href = `/api/exports/${entity}?${params.toString()}`;
+    setOpen(false);
+  };
+
+  return (
+    <>
+      <Button variant="outline" onClick={() => setOpen(true)} data-testid={`button-export-${entity}`}>
+        <Upload className="h-4 w-4 mr-2" />
+        Export
+      </Button>
+
+      <Dialog open={open} onOpenChange={setOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Export {entity}</DialogTitle>
+            <DialogDescription>
+              Exports every {entity.replace(/s$/, "")} matching the current filters that you have access to.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label>Format</Label>
+              <Select value={format} onValueChange={(value) => setFormat(value as ExportFormat)}>
+                <SelectTrigger data-testid="select-export-format">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {exportFormats.map((f) => (
+                    <SelectItem key={f} value={f}>{formatLabels[f]}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label>Columns</Label>
+              <div className="grid grid-cols-2 gap-2 max-h-64 overflow-y-auto">
+                {available.map((column) => (
+                  <label key={column.key} className="flex items-center gap-2 text-sm">
+                    <Checkbox
+                      checked={columns.includes(column.key)}
+                      onCheckedChange={(checked) => toggle(column.key, checked === true)}
+                      data-testid={`checkbox-export-column-${column.key}`}
+                    />
+                    {column.label}
+                  </label>
+                ))}
+              </div>
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setOpen(false)}>Cancel</Button>
+            <Button onClick={download} disabled={columns.length === 0} data-testid="button-confirm-export">
+              Download
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+}
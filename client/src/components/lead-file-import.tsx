@@ -0,0 +1,330 @@
+import { useEffect, useRef, useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { FileSpreadsheet, RotateCcw, Upload } from "lucide-react";
+import { formatDistanceToNow } from "date-fns";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Card } from "@/components/ui/card";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import type { LeadImport } from "@shared/schema";
+import {
+  customFieldTarget,
+  dedupeFields,
+  dedupeStrategies,
+  type DedupeField,
+  type DedupeStrategy,
+  type ImportField,
+  type ImportMapping,
+  type LeadImportPreview,
+} from "@shared/lead-import";
+
+type ImportSummary = Omit<LeadImport, "rows"> & { rowCount?: number; sampleRows?: string[][] };
+
+const IGNORE = "__ignore";
+
+const strategyLabels: Record<DedupeStrategy, string> = {
+  skip: "Skip duplicates",
+  update: "Update existing leads",
+  create: "Create anyway",
+};
+
+const dedupeFieldLabels: Record<DedupeField, string> = {
+  email: "Email",
+  linkedinUrl: "LinkedIn URL",
+};
+
+const readAsBase64 = (file: File) =>
+  new Promise<string>((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(String(reader.result).split(",")[1] || "");
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(file);
+  });
+
+const invalidateImports = () => queryClient.invalidateQueries({ queryKey: ["/api/lead-imports"] });
+
+/**
+ * "File" tab of the import dialog: upload a CSV or XLSX file, map its
+ * columns, preview validation and duplicates, run it as a batch, and roll
+ * back earlier batches.
+ */
+export function LeadFileImportTab() {
+  const { toast } = useToast();
+  const [draft, setDraft] = useState<ImportSummary | null>(null);
+  const [mapping, setMapping] = useState<ImportMapping>([]);
+  const [dedupeStrategy, setDedupeStrategy] = useState<DedupeStrategy>("skip");
+  const [dedupeField, setDedupeField] = useState<DedupeField>("email");
+  const [preview, setPreview] = useState<LeadImportPreview | null>(null);
+
+  const { data } = useQuery<{ imports: ImportSummary[]; fields: ImportField[] }>({
+    queryKey: ["/api/lead-imports"],
+    refetchInterval: (query) =>
+      query.state.data?.imports.some((i) => i.status === "queued" || i.status === "running") ? 3000 : false,
+  });
+  const imports = data?.imports || [];
+  const fields = data?.fields || [];
+
+  // Refresh the lead list once a running batch finishes
+  const activeCount = imports.filter((i) => i.status === "queued" || i.status === "running").length;
+  const previousActiveCount = useRef(activeCount);
+  useEffect(() => {
+    if (activeCount < previousActiveCount.current) {
+      queryClient.invalidateQueries({ queryKey: ["/api/leads"] });
+    }
+    previousActiveCount.current = activeCount;
+  }, [activeCount]);
+
+  const options = () => ({ mapping, dedupeStrategy, dedupeField });
+
+  const uploadMutation = useMutation({
+    mutationFn: async (file: File) => {
+      const res = await apiRequest("POST", "/api/lead-imports", { fileName: file.name, content: await readAsBase64(file) });
+      return (await res.json()) as ImportSummary;
+    },
+    onSuccess: (uploaded) => {
+      setDraft(uploaded);
+      setMapping((uploaded.mapping as ImportMapping) || []);
+      setPreview(null);
+    },
+    onError: (error: Error) => {
+      toast({ title: "Upload failed", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const previewMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", `/api/lead-imports/${draft!.id}/preview`, options());
+      return (await res.json()) as LeadImportPreview;
+    },
+    onSuccess: setPreview,
+    onError: (error: Error) => {
+      toast({ title: "Preview failed", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const runMutation = useMutation({
+    mutationFn: async () => apiRequest("POST", `/api/lead-imports/${draft!.id}/run`, options()),
+    onSuccess: () => {
+      invalidateImports();
+      setDraft(null);
+      setPreview(null);
+      toast({ title: "Import started", description: "Leads are being imported in the background." });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Import failed", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const rollbackMutation = useMutation({
+    mutationFn: async (id: string) => {
+      const res = await apiRequest("POST", `/api/lead-imports/${id}/rollback`);
+      return (await res.json()) as { deleted: number; restored: number };
+    },
+    onSuccess: (result) => {
+      invalidateImports();
+      queryClient.invalidateQueries({ queryKey: ["/api/leads"] });
+      toast({
+        title: "Import rolled back",
+        description: `Removed ${result.deleted} leads and restored ${result.restored}.`,
+      });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Rollback failed", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const setTarget = (index: number, target: string) => {
+    setMapping((current) => current.map((value, i) => (i === index ? (target === IGNORE ? null : target) : value)));
+    setPreview(null);
+  };
+
+  const mappedTargets = mapping.filter(Boolean);
+  const hasRequired = mappedTargets.includes("email") &&
+    ["name", "firstName", "lastName"].some((field) => mappedTargets.includes(field));
+
+  return (
+    <div className="space-y-6">
+      {!draft ? (
+        <Card className="p-6 space-y-3">
+          <div className="flex items-center gap-3">
+            <FileSpreadsheet className="h-8 w-8 text-muted-foreground" />
+            <div>
+              <p className="font-medium">Upload a CSV or Excel file</p>
+              <p className="text-sm text-muted-foreground">
+                The first row must hold column names. Up to 5,000 rows per file.
+              </p>
+            </div>
+          </div>
+          <Input
+            type="file"
+            accept=".csv,.xlsx"
+            disabled={uploadMutation.isPending}
+            onChange={(e) => {
+              const file = e.target.files?.[0];
+              if (file) uploadMutation.mutate(file);
+              e.target.value = "";
+            }}
+            data-testid="input-import-file"
+          />
+          {uploadMutation.isPending && <p className="text-sm text-muted-foreground">Reading file...</p>}
+        </Card>
+      ) : (
+        <div className="space-y-4">
+          <div className="flex items-center justify-between">
+            <p className="text-sm">
+              <span className="font-medium">{draft.fileName}</span> · {draft.rowCount} rows
+            </p>
+            <Button variant="ghost" size="sm" onClick={() => setDraft(null)}>Choose another file</Button>
+          </div>
+
+          <div className="border rounded-md divide-y">
+            {draft.headers.map((header, index) => {
+              const customTarget = customFieldTarget(header);
+              return (
+                <div key={index} className="grid grid-cols-3 gap-3 items-center p-2">
+                  <div className="min-w-0">
+                    <p className="text-sm font-medium truncate">{header || `Column ${index + 1}`}</p>
+                    <p className="text-xs text-muted-foreground truncate">
+                      {draft.sampleRows?.map((row) => row[index]).filter(Boolean).slice(0, 2).join(", ")}
+                    </p>
+                  </div>
+                  <div className="col-span-2">
+                    <Select value={mapping[index] || IGNORE} onValueChange={(value) => setTarget(index, value)}>
+                      <SelectTrigger data-testid={`select-import-mapping-${index}`}>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value={IGNORE}>Don't import</SelectItem>
+                        {fields.map((field) => (
+                          <SelectItem key={field.field} value={field.field}>{field.label}</SelectItem>
+                        ))}
+                        {customTarget && (
+                          <SelectItem value={customTarget}>Custom field "{customTarget.slice("customFields.".length)}"</SelectItem>
+                        )}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label>Find duplicates by</Label>
+              <Select value={dedupeField} onValueChange={(value) => { setDedupeField(value as DedupeField); setPreview(null); }}>
+                <SelectTrigger data-testid="select-import-dedupe-field">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {dedupeFields.map((field) => (
+                    <SelectItem key={field} value={field}>{dedupeFieldLabels[field]}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label>When a duplicate is found</Label>
+              <Select value={dedupeStrategy} onValueChange={(value) => { setDedupeStrategy(value as DedupeStrategy); setPreview(null); }}>
+                <SelectTrigger data-testid="select-import-dedupe-strategy">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {dedupeStrategies.map((strategy) => (
+                    <SelectItem key={strategy} value={strategy}>{strategyLabels[strategy]}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          {!hasRequired && (
+            <p className="text-sm text-destructive">Map an email column and a name column to create leads.</p>
+          )}
+
+          {preview && (
+            <Card className="p-4 space-y-3" data-testid="import-preview">
+              <div className="flex flex-wrap gap-2">
+                <Badge>{preview.create} to create</Badge>
+                <Badge variant="secondary">{preview.update} to update</Badge>
+                <Badge variant="outline">{preview.skip} to skip</Badge>
+                <Badge variant={preview.invalid ? "destructive" : "outline"}>{preview.invalid} invalid</Badge>
+              </div>
+              {preview.rows.length > 0 && (
+                <div className="max-h-48 overflow-y-auto text-sm space-y-1">
+                  {preview.rows.map((row) => (
+                    <p key={row.row}>
+                      <span className="font-medium">Row {row.row}</span>{" "}
+                      <span className="text-muted-foreground">
+                        {row.action === "invalid"
+                          ? row.errors.join("; ")
+                          : `${row.action} (duplicate of ${row.duplicateOf?.startsWith("row") ? row.duplicateOf : "an existing lead"})`}
+                      </span>
+                    </p>
+                  ))}
+                </div>
+              )}
+            </Card>
+          )}
+
+          <div className="flex justify-end gap-2">
+            <Button
+              variant="outline"
+              onClick={() => previewMutation.mutate()}
+              disabled={previewMutation.isPending}
+              data-testid="button-import-preview"
+            >
+              {previewMutation.isPending ? "Checking..." : "Preview"}
+            </Button>
+            <Button
+              onClick={() => runMutation.mutate()}
+              disabled={!preview || runMutation.isPending}
+              data-testid="button-import-run"
+            >
+              <Upload className="h-4 w-4 mr-2" />
+              {runMutation.isPending ? "Starting..." : `Import ${preview ? preview.create + preview.update : ""} leads`}
+            </Button>
+          </div>
+        </div>
+      )}
+
+      {imports.length > 0 && (
+        <div className="space-y-2">
+          <h4 className="text-sm font-medium">Recent imports</h4>
+          {imports.map((item) => (
+            <div key={item.id} className="flex items-center justify-between border rounded-md p-2 text-sm" data-testid={`lead-import-${item.id}`}>
+              <div className="min-w-0">
+                <p className="font-medium truncate">{item.fileName}</p>
+                <p className="text-xs text-muted-foreground">
+                  {formatDistanceToNow(new Date(item.createdAt), { addSuffix: true })} · {item.createdCount} created,{" "}
+                  {item.updatedCount} updated, {item.skippedCount} skipped, {item.failedCount} failed
+                </p>
+              </div>
+              <div className="flex items-center gap-2">
+                <Badge variant={item.status === "failed" ? "destructive" : "outline"} className="capitalize">
+                  {item.status.replace("_", " ")}
+                </Badge>
+                {(item.status === "completed" || item.status === "failed") && (
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => rollbackMutation.mutate(item.id)}
+                    disabled={rollbackMutation.isPending}
+                    data-testid={`button-rollback-import-${item.id}`}
+                  >
+                    <RotateCcw className="h-4 w-4 mr-1" />
+                    Roll back
+                  </Button>
+                )}
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -27,6 +27,7 @@ import { apiRequest, queryClient } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
 import { useState, useEffect } from "react";
 import { Plus, X, Sparkles, Loader2 } from "lucide-react";
+import { builtInRoleNames, type BuiltInRole } from "@shared/roles";
 
 interface LeadFormDialogProps {
   open: boolean;
@@ -41,7 +42,7 @@ export function LeadFormDialog({ open, onOpenChange, lead }: LeadFormDialogProps
     queryKey: ["/api/users"],
   });
 
-  const salesUsers = users.filter(u => u.role === "sales_rep" || u.role === "sales_manager");
+  const salesUsers = users.filter(u => u.role !== "admin");
 
   // Custom fields state management
   const [customFieldKey, setCustomFieldKey] = useState("");
@@ -831,7 +832,7 @@ export function LeadFormDialog({ open, onOpenChange, lead }: LeadFormDialogProps
                             <SelectItem value="unassigned">Unassigned</SelectItem>
                             {salesUsers.map((user) => (
                               <SelectItem key={user.id} value={user.id}>
-                                {user.name} ({user.role === "sales_manager" ? "Manager" : "Sales Rep"})
+                                {user.name} ({builtInRoleNames[user.role as BuiltInRole] || user.role})
                               </SelectItem>
                             ))}
                           </SelectContent>
@@ -0,0 +1,203 @@
+import { useEffect, useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import type { PipelineStage, SavedView, User } from "@shared/schema";
+import {
+  bulkActionEntityTypes,
+  dealStatuses,
+  type SavedViewBulkAction,
+  type SavedViewBulkResult,
+  type SavedViewEntityType,
+} from "@shared/saved-views";
+
+const actionLabels: Record<SavedViewBulkAction["type"], string> = {
+  set_lead_status: "Set status",
+  add_tags: "Add tags",
+  set_deal_status: "Set status",
+  move_stage: "Move to stage",
+  assign_owner: "Assign owner",
+};
+
+const leadStatusOptions = ["cold", "warm", "hot"];
+
+interface SavedViewBulkDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  view: SavedView | null;
+  count: number | null;
+}
+
+export function SavedViewBulkDialog({ open, onOpenChange, view, count }: SavedViewBulkDialogProps) {
+  const { toast } = useToast();
+  const entityType = (view?.entityType || "lead") as SavedViewEntityType;
+  const pipelineId = (view?.filters as Record<string, string> | undefined)?.pipelineId;
+
+  const actionTypes = (Object.keys(bulkActionEntityTypes) as Array<SavedViewBulkAction["type"]>).filter(
+    (type) => bulkActionEntityTypes[type].includes(entityType) && (type !== "move_stage" || !!pipelineId)
+  );
+  const [type, setType] = useState<SavedViewBulkAction["type"]>(actionTypes[0]);
+  const [value, setValue] = useState("");
+
+  const { data: users = [] } = useQuery<User[]>({ queryKey: ["/api/users"], enabled: open });
+  const { data: stages = [] } = useQuery<PipelineStage[]>({
+    queryKey: [`/api/pipelines/${pipelineId}/stages`],
+    enabled: open && !!pipelineId,
+  });
+
+  useEffect(() => {
+    if (!open) return;
+    setType(actionTypes[0]);
+    setValue("");
+  }, [open, view?.id]);
+
+  const buildAction = (): SavedViewBulkAction => {
+    switch (type) {
+      case "set_lead_status":
+        return { type, status: value as "cold" | "warm" | "hot" };
+      case "set_deal_status":
+        return { type, status: value as typeof dealStatuses[number] };
+      case "add_tags":
+        return { type, tags: value.split(",").map((t) => t.trim()).filter(Boolean) };
+      case "move_stage":
+        return { type, stageId: value };
+      case "assign_owner":
+        return { type, ownerId: value };
+    }
+  };
+
+  const bulkMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", `/api/saved-views/${view!.id}/bulk-action`, buildAction());
+      return (await res.json()) as SavedViewBulkResult;
+    },
+    onSuccess: (result) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/saved-views"] });
+      queryClient.invalidateQueries({
+        predicate: (query) => {
+          const key = query.queryKey[0];
+          return typeof key === "string" && (key.startsWith("/api/leads") || key.startsWith("/api/deals"));
+        },
+      });
+      toast({
+        title: "Bulk action complete",
+        description: `Updated ${result.updated} of ${result.matched}${result.failed ? `, ${result.failed} failed` : ""}${result.truncated ? " (limit reached)" : ""}.`,
+        variant: result.failed ? "destructive" : undefined,
+      });
+      onOpenChange(false);
+    },
+    onError: (error: Error) => {
+      toast({ title: "Bulk action failed", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const renderValueInput = () => {
+    switch (type) {
+      case "set_lead_status":
+      case "set_deal_status": {
+        const options = type === "set_lead_status" ? leadStatusOptions : [...dealStatuses];
+        return (
+          <Select value={value} onValueChange={setValue}>
+            <SelectTrigger data-testid="select-bulk-status">
+              <SelectValue placeholder="Choose a status" />
+            </SelectTrigger>
+            <SelectContent>
+              {options.map((status) => (
+                <SelectItem key={status} value={status} className="capitalize">{status}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        );
+      }
+      case "assign_owner":
+        return (
+          <Select value={value} onValueChange={setValue}>
+            <SelectTrigger data-testid="select-bulk-owner">
+              <SelectValue placeholder="Choose an owner" />
+            </SelectTrigger>
+            <SelectContent>
+              {users.map((user) => (
+                <SelectItem key={user.id} value={user.id}>{user.name}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        );
+      case "move_stage":
+        return (
+          <Select value={value} onValueChange={setValue}>
+            <SelectTrigger data-testid="select-bulk-stage">
+              <SelectValue placeholder="Choose a stage" />
+            </SelectTrigger>
+            <SelectContent>
+              {stages.map((stage) => (
+                <SelectItem key={stage.id} value={stage.id}>{stage.name}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        );
+      case "add_tags":
+        return (
+          <Input
+            placeholder="e.g. webinar, q3-campaign"
+            value={value}
+            onChange={(e) => setValue(e.target.value)}
+            data-testid="input-bulk-tags"
+          />
+        );
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Bulk action on "{view?.name}"</DialogTitle>
+          <DialogDescription>
+            Applies to every {entityType} currently in this view
+            {count !== null ? ` (${count} ${entityType === "lead" ? "leads" : "deals"})` : ""}.
+          </DialogDescription>
+        </DialogHeader>
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label>Action</Label>
+            <Select
+              value={type}
+              onValueChange={(next) => {
+                setType(next as SavedViewBulkAction["type"]);
+                setValue("");
+              }}
+            >
+              <SelectTrigger data-testid="select-bulk-action">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {actionTypes.map((actionType) => (
+                  <SelectItem key={actionType} value={actionType}>{actionLabels[actionType]}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-2">
+            <Label>Value</Label>
+            {renderValueInput()}
+          </div>
+        </div>
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>Cancel</Button>
+          <Button
+            onClick={() => bulkMutation.mutate()}
+            disabled={!view || !value.trim() || bulkMutation.isPending}
+            data-testid="button-run-bulk-action"
+          >
+            {bulkMutation.isPending ? "Applying..." : "Apply"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,244 @@
+import { useEffect, useRef, useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { useSearch } from "wouter";
+import { Bookmark, Check, Pencil, Save, Trash2, Users, Zap } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { SavedViewBulkDialog } from "@/components/saved-view-bulk-dialog";
+import { useAuth } from "@/contexts/AuthContext";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import type { SavedView } from "@shared/schema";
+import type { SavedViewEntityType, SavedViewVisibility } from "@shared/saved-views";
+
+export interface SavedViewConfig {
+  filters: Record<string, string>;
+  sort?: string | null;
+  columns: string[];
+}
+
+interface SavedViewsMenuProps {
+  entityType: SavedViewEntityType;
+  activeView: SavedView | null;
+  current: SavedViewConfig; // What the page shows right now, saved by "Save view"
+  onApply: (view: SavedView | null) => void;
+}
+
+const invalidateSavedViews = () => queryClient.invalidateQueries({ queryKey: ["/api/saved-views"] });
+
+/**
+ * Views dropdown for the leads page and pipeline board: apply, save,
+ * update, share and delete saved views, and run bulk actions on one.
+ * A ?view=<id> query parameter (used by the sidebar links) applies that view.
+ */
+export function SavedViewsMenu({ entityType, activeView, current, onApply }: SavedViewsMenuProps) {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const search = useSearch();
+  const appliedFromUrl = useRef<string | null>(null);
+  const [saveOpen, setSaveOpen] = useState(false);
+  const [bulkOpen, setBulkOpen] = useState(false);
+  const [name, setName] = useState("");
+  const [visibility, setVisibility] = useState<SavedViewVisibility>("private");
+
+  const { data: allViews = [] } = useQuery<SavedView[]>({ queryKey: ["/api/saved-views"] });
+  const { data: counts = {} } = useQuery<Record<string, number | null>>({
+    queryKey: ["/api/saved-views", "counts"],
+    refetchInterval: 60_000,
+  });
+  const views = allViews.filter((view) => view.entityType === entityType);
+  const canEdit = !!activeView && !!user && (activeView.ownerId === user.id || user.role === "admin");
+
+  useEffect(() => {
+    const viewId = new URLSearchParams(search).get("view");
+    if (!viewId || appliedFromUrl.current === viewId) return;
+    const view = views.find((v) => v.id === viewId);
+    if (view) {
+      appliedFromUrl.current = viewId;
+      onApply(view);
+    }
+  }, [search, views, onApply]);
+
+  const saveMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", "/api/saved-views", { name, entityType, visibility, ...current });
+      return (await res.json()) as SavedView;
+    },
+    onSuccess: (view) => {
+      invalidateSavedViews();
+      onApply(view);
+      setSaveOpen(false);
+      toast({ title: "View saved", description: `"${view.name}" is now in your saved views.` });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Failed to save view", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const updateMutation = useMutation({
+    mutationFn: async (updates: Partial<SavedViewConfig & { visibility: SavedViewVisibility }>) => {
+      const res = await apiRequest("PATCH", `/api/saved-views/${activeView!.id}`, updates);
+      return (await res.json()) as SavedView;
+    },
+    onSuccess: (view) => {
+      invalidateSavedViews();
+      onApply(view);
+      toast({ title: "View updated", description: `"${view.name}" has been updated.` });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Failed to update view", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async () => apiRequest("DELETE", `/api/saved-views/${activeView!.id}`),
+    onSuccess: () => {
+      invalidateSavedViews();
+      onApply(null);
+      toast({ title: "View deleted" });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Failed to delete view", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const openSaveDialog = () => {
+    setName("");
+    setVisibility("private");
+    setSaveOpen(true);
+  };
+
+  return (
+    <>
+      <DropdownMenu>
+        <DropdownMenuTrigger asChild>
+          <Button variant="outline" data-testid="button-saved-views">
+            <Bookmark className="h-4 w-4 mr-2" />
+            {activeView ? activeView.name : "Views"}
+          </Button>
+        </DropdownMenuTrigger>
+        <DropdownMenuContent align="end" className="w-64">
+          <DropdownMenuLabel>Saved views</DropdownMenuLabel>
+          {views.length === 0 && (
+            <p className="px-2 py-1.5 text-sm text-muted-foreground">No saved views yet</p>
+          )}
+          {views.map((view) => (
+            <DropdownMenuItem key={view.id} onClick={() => onApply(view)} data-testid={`saved-view-${view.id}`}>
+              {activeView?.id === view.id ? <Check className="h-4 w-4 mr-2" /> : <span className="w-4 mr-2" />}
+              <span className="flex-1 truncate">{view.name}</span>
+              {view.visibility === "team" && <Users className="h-3 w-3 ml-2 text-muted-foreground" />}
+              {typeof counts[view.id] === "number" && (
+                <Badge variant="secondary" className="ml-2">{counts[view.id]}</Badge>
+              )}
+            </DropdownMenuItem>
+          ))}
+          <DropdownMenuSeparator />
+          <DropdownMenuItem onClick={openSaveDialog} data-testid="menu-save-view">
+            <Save className="h-4 w-4 mr-2" />
+            Save as new view...
+          </DropdownMenuItem>
+          {activeView && (
+            <>
+              {canEdit && (
+                <DropdownMenuItem onClick={() => updateMutation.mutate(current)} data-testid="menu-update-view">
+                  <Pencil className="h-4 w-4 mr-2" />
+                  Update "{activeView.name}"
+                </DropdownMenuItem>
+              )}
+              {canEdit && (
+                <DropdownMenuItem
+                  onClick={() => updateMutation.mutate({ visibility: activeView.visibility === "team" ? "private" : "team" })}
+                  data-testid="menu-share-view"
+                >
+                  <Users className="h-4 w-4 mr-2" />
+                  {activeView.visibility === "team" ? "Make private" : "Share with team"}
+                </DropdownMenuItem>
+              )}
+              <DropdownMenuItem onClick={() => setBulkOpen(true)} data-testid="menu-bulk-action">
+                <Zap className="h-4 w-4 mr-2" />
+                Bulk action...
+              </DropdownMenuItem>
+              {canEdit && (
+                <DropdownMenuItem
+                  className="text-destructive"
+                  onClick={() => deleteMutation.mutate()}
+                  data-testid="menu-delete-view"
+                >
+                  <Trash2 className="h-4 w-4 mr-2" />
+                  Delete view
+                </DropdownMenuItem>
+              )}
+              <DropdownMenuItem onClick={() => onApply(null)} data-testid="menu-clear-view">
+                Clear view
+              </DropdownMenuItem>
+            </>
+          )}
+        </DropdownMenuContent>
+      </DropdownMenu>
+
+      <Dialog open={saveOpen} onOpenChange={setSaveOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Save view</DialogTitle>
+            <DialogDescription>
+              Saves the current filters, sort and fields so you can come back to them.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="saved-view-name">Name</Label>
+              <Input
+                id="saved-view-name"
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+                placeholder={entityType === "lead" ? "e.g. Hot leads in Germany" : "e.g. My deals closing this month"}
+                data-testid="input-saved-view-name"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label>Visibility</Label>
+              <Select value={visibility} onValueChange={(value) => setVisibility(value as SavedViewVisibility)}>
+                <SelectTrigger data-testid="select-saved-view-visibility">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="private">Only me</SelectItem>
+                  <SelectItem value="team">Shared with the team</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setSaveOpen(false)}>Cancel</Button>
+            <Button
+              onClick={() => saveMutation.mutate()}
+              disabled={!name.trim() || saveMutation.isPending}
+              data-testid="button-confirm-save-view"
+            >
+              {saveMutation.isPending ? "Saving..." : "Save View"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <SavedViewBulkDialog
+        open={bulkOpen}
+        onOpenChange={setBulkOpen}
+        view={activeView}
+        count={activeView ? counts[activeView.id] ?? null : null}
+      />
+    </>
+  );
+}
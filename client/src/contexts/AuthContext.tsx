@@ -1,17 +1,23 @@
 import React, { createContext, useContext, useState, useEffect } from 'react';
 import { useLocation } from 'wouter';
+import type { HiddenFields } from '@shared/roles';
 
 interface User {
     id: string;
     email: string;
     name: string;
     role: string;
+    hiddenFields?: HiddenFields; // Lead and deal fields the role cannot see (from /api/auth/me)
 }
 
+// A challenge id means the password was right and a two-factor code is needed next
+type LoginOutcome = { challengeId?: string };
+
 interface AuthContextType {
     user: User | null;
     loading: boolean;
-    login: (email: string, password: string) => Promise<void>;
+    login: (email: string, password: string) => Promise<LoginOutcome>;
+    verifyTwoFactor: (challengeId: string, code: string) => Promise<void>;
     register: (email: string, password: string, name: string) => Promise<void>;
     logout: () => Promise<void>;
     isAuthenticated: boolean;
@@ -46,7 +52,7 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
         }
     };
 
-    const login = async (email: string, password: string) => {
+    const login = async (email: string, password: string): Promise<LoginOutcome> => {
         const response = await fetch('/api/auth/login', {
             method: 'POST',
             headers: { 'Content-Type': 'application/json' },
@@ -56,13 +62,36 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
 
         if (response.ok) {
             const data = await response.json();
+            if (data.twoFactorRequired) {
+                return { challengeId: data.challengeId };
+            }
             setUser(data.user);
+            await checkAuth(); // Adds the role's hidden fields
+            return {};
         } else {
             const error = await response.json();
             throw new Error(error.error || 'Login failed');
         }
     };
 
+    const verifyTwoFactor = async (challengeId: string, code: string) => {
+        const response = await fetch('/api/auth/login/2fa', {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json' },
+            credentials: 'include',
+            body: JSON.stringify({ challengeId, code }),
+        });
+
+        if (response.ok) {
+            const data = await response.json();
+            setUser(data.user);
+            await checkAuth();
+        } else {
+            const error = await response.json();
+            throw new Error(error.error || 'Verification failed');
+        }
+    };
+
     const register = async (email: string, password: string, name: string) => {
         const response = await fetch('/api/auth/register', {
             method: 'POST',
@@ -99,6 +128,7 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
                 user,
                 loading,
                 login,
+                verifyTwoFactor,
                 register,
                 logout,
                 isAuthenticated: !!user,
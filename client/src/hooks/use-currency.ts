@@ -0,0 +1,21 @@
+import { useMemo } from "react";
+import { useQuery } from "@tanstack/react-query";
+import type { ExchangeRate } from "@shared/schema";
+import { createCurrencyConverter, type CurrencyConverter } from "@shared/currency";
+
+export interface CurrencyConfig {
+  baseCurrency: string;
+  rates: ExchangeRate[];
+}
+
+/**
+ * Converter into the base currency using the exchange-rate table from /api/currency
+ */
+export function useCurrencyConverter(): CurrencyConverter {
+  const { data } = useQuery<CurrencyConfig>({ queryKey: ["/api/currency"] });
+
+  return useMemo(
+    () => createCurrencyConverter(data?.baseCurrency || "USD", data?.rates || []),
+    [data]
+  );
+}
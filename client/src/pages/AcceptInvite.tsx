@@ -0,0 +1,179 @@
+import { useEffect, useState } from 'react';
+import { Link, useLocation } from 'wouter';
+import { useQuery } from '@tanstack/react-query';
+import { useAuth } from '@/contexts/AuthContext';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from '@/components/ui/card';
+import { useToast } from '@/hooks/use-toast';
+import { apiRequest } from '@/lib/queryClient';
+import { Loader2, MailX, UserPlus } from 'lucide-react';
+import type { InvitationPreview } from '@shared/onboarding';
+
+export default function AcceptInvite() {
+    const token = new URLSearchParams(window.location.search).get('token') || '';
+    const [name, setName] = useState('');
+    const [password, setPassword] = useState('');
+    const [confirmPassword, setConfirmPassword] = useState('');
+    const [loading, setLoading] = useState(false);
+    const { login } = useAuth();
+    const [, setLocation] = useLocation();
+    const { toast } = useToast();
+
+    const { data: invitation, isLoading, error } = useQuery<InvitationPreview>({
+        queryKey: [`/api/auth/invitations/${token}`],
+        enabled: !!token,
+        retry: false,
+    });
+
+    useEffect(() => {
+        if (invitation?.name) setName(invitation.name);
+    }, [invitation?.name]);
+
+    const handleSubmit = async (e: React.FormEvent) => {
+        e.preventDefault();
+
+        if (password !== confirmPassword) {
+            toast({
+                variant: 'destructive',
+                title: 'Password mismatch',
+                description: 'Passwords do not match',
+            });
+            return;
+        }
+
+        if (password.length < 8) {
+            toast({
+                variant: 'destructive',
+                title: 'Weak password',
+                description: 'Password must be at least 8 characters long',
+            });
+            return;
+        }
+
+        setLoading(true);
+
+        try {
+            await apiRequest('POST', `/api/auth/invitations/${token}/accept`, { name, password });
+            await login(invitation!.email, password);
+            toast({
+                title: 'Welcome to LeadFlow!',
+                description: 'Your account is ready',
+            });
+            setLocation('/');
+        } catch (error: any) {
+            toast({
+                variant: 'destructive',
+                title: 'Could not accept invitation',
+                description: error.message || 'This invitation is invalid or has expired',
+            });
+        } finally {
+            setLoading(false);
+        }
+    };
+
+    if (!token || error) {
+        return (
+            <div className="min-h-screen flex items-center justify-center bg-gradient-to-br from-blue-50 to-indigo-100 p-4">
+                <Card className="w-full max-w-md">
+                    <CardHeader className="space-y-1">
+                        <div className="flex items-center justify-center mb-4">
+                            <div className="h-12 w-12 rounded-lg bg-primary flex items-center justify-center">
+                                <MailX className="h-6 w-6 text-primary-foreground" />
+                            </div>
+                        </div>
+                        <CardTitle className="text-2xl font-bold text-center">Invitation not valid</CardTitle>
+                        <CardDescription className="text-center">
+                            This invitation has expired, was revoked or was already used. Ask the person who invited you to send a new one.
+                        </CardDescription>
+                    </CardHeader>
+                    <CardFooter>
+                        <Link to="/login" className="w-full">
+                            <Button variant="outline" className="w-full">Go to sign in</Button>
+                        </Link>
+                    </CardFooter>
+                </Card>
+            </div>
+        );
+    }
+
+    return (
+        <div className="min-h-screen flex items-center justify-center bg-gradient-to-br from-blue-50 to-indigo-100 p-4">
+            <Card className="w-full max-w-md">
+                <CardHeader className="space-y-1">
+                    <div className="flex items-center justify-center mb-4">
+                        <div className="h-12 w-12 rounded-lg bg-primary flex items-center justify-center">
+                            <UserPlus className="h-6 w-6 text-primary-foreground" />
+                        </div>
+                    </div>
+                    <CardTitle className="text-2xl font-bold text-center">Join LeadFlow</CardTitle>
+                    <CardDescription className="text-center">
+                        {isLoading || !invitation
+                            ? 'Checking your invitation...'
+                            : `${invitation.invitedBy ? `${invitation.invitedBy} invited you` : "You've been invited"} to join as ${invitation.roleName}`}
+                    </CardDescription>
+                </CardHeader>
+                <form onSubmit={handleSubmit}>
+                    <CardContent className="space-y-4">
+                        <div className="space-y-2">
+                            <Label htmlFor="email">Email</Label>
+                            <Input id="email" type="email" value={invitation?.email || ''} disabled />
+                        </div>
+                        <div className="space-y-2">
+                            <Label htmlFor="name">Full Name</Label>
+                            <Input
+                                id="name"
+                                type="text"
+                                placeholder="John Doe"
+                                value={name}
+                                onChange={(e) => setName(e.target.value)}
+                                required
+                                disabled={loading || !invitation}
+                                data-testid="input-invite-name"
+                            />
+                        </div>
+                        <div className="space-y-2">
+                            <Label htmlFor="password">Password</Label>
+                            <Input
+                                id="password"
+                                type="password"
+                                placeholder="At least 8 characters"
+                                value={password}
+                                onChange={(e) => setPassword(e.target.value)}
+                                required
+                                disabled={loading || !invitation}
+                                data-testid="input-invite-password"
+                            />
+                        </div>
+                        <div className="space-y-2">
+                            <Label htmlFor="confirmPassword">Confirm Password</Label>
+                            <Input
+                                id="confirmPassword"
+                                type="password"
+                                placeholder="Re-enter password"
+                                value={confirmPassword}
+                                onChange={(e) => setConfirmPassword(e.target.value)}
+                                required
+                                disabled={loading || !invitation}
+                                data-testid="input-invite-confirm-password"
+                            />
+                        </div>
+                    </CardContent>
+                    <CardFooter>
+                        <Button type="submit" className="w-full" disabled={loading || !invitation}>
+                            {loading ? (
+                                <>
+                                    <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                                    Creating account...
+                                </>
+                            ) : (
+                                'Accept invitation'
+                            )}
+                        </Button>
+                    </CardFooter>
+                </form>
+            </Card>
+        </div>
+    );
+}
@@ -0,0 +1,103 @@
+import { useState } from 'react';
+import { Link } from 'wouter';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from '@/components/ui/card';
+import { useToast } from '@/hooks/use-toast';
+import { apiRequest } from '@/lib/queryClient';
+import { KeyRound, Loader2, MailCheck } from 'lucide-react';
+
+export default function ForgotPassword() {
+    const [email, setEmail] = useState('');
+    const [loading, setLoading] = useState(false);
+    const [sent, setSent] = useState(false);
+    const { toast } = useToast();
+
+    const handleSubmit = async (e: React.FormEvent) => {
+        e.preventDefault();
+        setLoading(true);
+
+        try {
+            await apiRequest('POST', '/api/auth/forgot-password', { email });
+            setSent(true);
+        } catch (error: any) {
+            toast({
+                variant: 'destructive',
+                title: 'Request failed',
+                description: error.message || 'Could not send the reset link',
+            });
+        } finally {
+            setLoading(false);
+        }
+    };
+
+    return (
+        <div className="min-h-screen flex items-center justify-center bg-gradient-to-br from-blue-50 to-indigo-100 p-4">
+            <Card className="w-full max-w-md">
+                <CardHeader className="space-y-1">
+                    <div className="flex items-center justify-center mb-4">
+                        <div className="h-12 w-12 rounded-lg bg-primary flex items-center justify-center">
+                            {sent ? (
+                                <MailCheck className="h-6 w-6 text-primary-foreground" />
+                            ) : (
+                                <KeyRound className="h-6 w-6 text-primary-foreground" />
+                            )}
+                        </div>
+                    </div>
+                    <CardTitle className="text-2xl font-bold text-center">
+                        {sent ? 'Check your email' : 'Forgot your password?'}
+                    </CardTitle>
+                    <CardDescription className="text-center">
+                        {sent
+                            ? `If ${email} belongs to an account, we've sent a link to reset its password.`
+                            : "Enter your email and we'll send you a link to choose a new password"}
+                    </CardDescription>
+                </CardHeader>
+                {sent ? (
+                    <CardFooter>
+                        <Link to="/login" className="w-full">
+                            <Button variant="outline" className="w-full">Back to sign in</Button>
+                        </Link>
+                    </CardFooter>
+                ) : (
+                    <form onSubmit={handleSubmit}>
+                        <CardContent className="space-y-4">
+                            <div className="space-y-2">
+                                <Label htmlFor="email">Email</Label>
+                                <Input
+                                    id="email"
+                                    type="email"
+                                    placeholder="name@example.com"
+                                    value={email}
+                                    onChange={(e) => setEmail(e.target.value)}
+                                    required
+                                    disabled={loading}
+                                    data-testid="input-forgot-email"
+                                />
+                            </div>
+                        </CardContent>
+                        <CardFooter className="flex flex-col space-y-4">
+                            <Button type="submit" className="w-full" disabled={loading}>
+                                {loading ? (
+                                    <>
+                                        <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                                        Sending...
+                                    </>
+                                ) : (
+                                    'Send reset link'
+                                )}
+                            </Button>
+                            <p className="text-sm text-center text-muted-foreground">
+                                Remembered it?{' '}
+                                <Link to="/login" className="text-primary hover:underline font-medium">
+                                    Sign in
+                                </Link>
+                            </p>
+                        </CardFooter>
+                    </form>
+                )}
+            </Card>
+        </div>
+    );
+}
@@ -1,33 +1,52 @@
 import { useState } from 'react';
 import { useLocation, Link } from 'wouter';
+import { useQuery } from '@tanstack/react-query';
 import { useAuth } from '@/contexts/AuthContext';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from '@/components/ui/card';
 import { useToast } from '@/hooks/use-toast';
-import { Loader2, LogIn } from 'lucide-react';
+import { Loader2, LogIn, ShieldCheck } from 'lucide-react';
 
 export default function Login() {
     const [email, setEmail] = useState('');
     const [password, setPassword] = useState('');
+    const [code, setCode] = useState('');
+    const [challengeId, setChallengeId] = useState<string | null>(null);
     const [loading, setLoading] = useState(false);
-    const { login } = useAuth();
+    const { login, verifyTwoFactor } = useAuth();
     const [, setLocation] = useLocation();
     const { toast } = useToast();
+    const { data: registration } = useQuery<{ openRegistration: boolean }>({
+        queryKey: ['/api/auth/registration'],
+    });
 
     const handleSubmit = async (e: React.FormEvent) => {
         e.preventDefault();
         setLoading(true);
 
         try {
-            await login(email, password);
+            if (challengeId) {
+                await verifyTwoFactor(challengeId, code);
+            } else {
+                const outcome = await login(email, password);
+                if (outcome.challengeId) {
+                    setChallengeId(outcome.challengeId);
+                    return;
+                }
+            }
             toast({
                 title: 'Welcome back!',
                 description: 'Successfully logged in',
             });
             setLocation('/');
         } catch (error: any) {
+            // An expired or locked-out challenge has to start again from the password
+            if (challengeId && !/verification code/i.test(error.message)) {
+                setChallengeId(null);
+                setCode('');
+            }
             toast({
                 variant: 'destructive',
                 title: 'Login failed',
@@ -53,32 +72,61 @@ export default function Login() {
                     </CardDescription>
                 </CardHeader>
                 <form onSubmit={handleSubmit}>
-                    <CardContent className="space-y-4">
-                        <div className="space-y-2">
-                            <Label htmlFor="email">Email</Label>
-                            <Input
-                                id="email"
-                                type="email"
-                                placeholder="name@example.com"
-                                value={email}
-                                onChange={(e) => setEmail(e.target.value)}
-                                required
-                                disabled={loading}
-                            />
-                        </div>
-                        <div className="space-y-2">
-                            <Label htmlFor="password">Password</Label>
-                            <Input
-                                id="password"
-                                type="password"
-                                placeholder="Enter your password"
-                                value={password}
-                                onChange={(e) => setPassword(e.target.value)}
-                                required
-                                disabled={loading}
-                            />
-                        </div>
-                    </CardContent>
+                    {challengeId ? (
+                        <CardContent className="space-y-4">
+                            <div className="flex items-center gap-2 text-sm text-muted-foreground">
+                                <ShieldCheck className="h-4 w-4" />
+                                Enter the 6-digit code from your authenticator app, or a recovery code.
+                            </div>
+                            <div className="space-y-2">
+                                <Label htmlFor="code">Verification code</Label>
+                                <Input
+                                    id="code"
+                                    inputMode="text"
+                                    autoComplete="one-time-code"
+                                    placeholder="123456"
+                                    value={code}
+                                    onChange={(e) => setCode(e.target.value)}
+                                    required
+                                    autoFocus
+                                    disabled={loading}
+                                    data-testid="input-2fa-code"
+                                />
+                            </div>
+                        </CardContent>
+                    ) : (
+                        <CardContent className="space-y-4">
+                            <div className="space-y-2">
+                                <Label htmlFor="email">Email</Label>
+                                <Input
+                                    id="email"
+                                    type="email"
+                                    placeholder="name@example.com"
+                                    value={email}
+                                    onChange={(e) => setEmail(e.target.value)}
+                                    required
+                                    disabled={loading}
+                                />
+                            </div>
+                            <div className="space-y-2">
+                                <div className="flex items-center justify-between">
+                                    <Label htmlFor="password">Password</Label>
+                                    <Link to="/forgot-password" className="text-sm text-primary hover:underline">
+                                        Forgot password?
+                                    </Link>
+                                </div>
+                                <Input
+                                    id="password"
+                                    type="password"
+                                    placeholder="Enter your password"
+                                    value={password}
+                                    onChange={(e) => setPassword(e.target.value)}
+                                    required
+                                    disabled={loading}
+                                />
+                            </div>
+                        </CardContent>
+                    )}
                     <CardFooter className="flex flex-col space-y-4">
                         <Button
                             type="submit"
@@ -90,16 +138,20 @@ export default function Login() {
                                     <Loader2 className="mr-2 h-4 w-4 animate-spin" />
                                     Signing in...
                                 </>
+                            ) : challengeId ? (
+                                'Verify'
                             ) : (
                                 'Sign in'
                             )}
                         </Button>
-                        <p className="text-sm text-center text-muted-foreground">
-                            Don't have an account?{' '}
-                            <Link to="/register" className="text-primary hover:underline font-medium">
-                                Sign up
-                            </Link>
-                        </p>
+                        {registration?.openRegistration !== false && (
+                            <p className="text-sm text-center text-muted-foreground">
+                                Don't have an account?{' '}
+                                <Link to="/register" className="text-primary hover:underline font-medium">
+                                    Sign up
+                                </Link>
+                            </p>
+                        )}
                     </CardFooter>
                 </form>
             </Card>
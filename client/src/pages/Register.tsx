@@ -1,12 +1,13 @@
 import { useState } from 'react';
 import { useLocation, Link } from 'wouter';
+import { useQuery } from '@tanstack/react-query';
 import { useAuth } from '@/contexts/AuthContext';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from '@/components/ui/card';
 import { useToast } from '@/hooks/use-toast';
-import { Loader2, UserPlus } from 'lucide-react';
+import { Loader2, Lock, UserPlus } from 'lucide-react';
 
 export default function Register() {
     const [name, setName] = useState('');
@@ -17,6 +18,9 @@ export default function Register() {
     const { register } = useAuth();
     const [, setLocation] = useLocation();
     const { toast } = useToast();
+    const { data: registration } = useQuery<{ openRegistration: boolean }>({
+        queryKey: ['/api/auth/registration'],
+    });
 
     const handleSubmit = async (e: React.FormEvent) => {
         e.preventDefault();
@@ -59,6 +63,31 @@ export default function Register() {
         }
     };
 
+    if (registration?.openRegistration === false) {
+        return (
+            <div className="min-h-screen flex items-center justify-center bg-gradient-to-br from-blue-50 to-indigo-100 p-4">
+                <Card className="w-full max-w-md">
+                    <CardHeader className="space-y-1">
+                        <div className="flex items-center justify-center mb-4">
+                            <div className="h-12 w-12 rounded-lg bg-primary flex items-center justify-center">
+                                <Lock className="h-6 w-6 text-primary-foreground" />
+                            </div>
+                        </div>
+                        <CardTitle className="text-2xl font-bold text-center">Registration is closed</CardTitle>
+                        <CardDescription className="text-center">
+                            Accounts are created by invitation. Ask your administrator or manager to invite you.
+                        </CardDescription>
+                    </CardHeader>
+                    <CardFooter>
+                        <Link to="/login" className="w-full">
+                            <Button variant="outline" className="w-full">Back to sign in</Button>
+                        </Link>
+                    </CardFooter>
+                </Card>
+            </div>
+        );
+    }
+
     return (
         <div className="min-h-screen flex items-center justify-center bg-gradient-to-br from-blue-50 to-indigo-100 p-4">
             <Card className="w-full max-w-md">
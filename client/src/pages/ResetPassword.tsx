@@ -0,0 +1,125 @@
+import { useState } from 'react';
+import { Link, useLocation } from 'wouter';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from '@/components/ui/card';
+import { useToast } from '@/hooks/use-toast';
+import { apiRequest } from '@/lib/queryClient';
+import { KeyRound, Loader2 } from 'lucide-react';
+
+export default function ResetPassword() {
+    const token = new URLSearchParams(window.location.search).get('token') || '';
+    const [password, setPassword] = useState('');
+    const [confirmPassword, setConfirmPassword] = useState('');
+    const [loading, setLoading] = useState(false);
+    const [, setLocation] = useLocation();
+    const { toast } = useToast();
+
+    const handleSubmit = async (e: React.FormEvent) => {
+        e.preventDefault();
+
+        if (password !== confirmPassword) {
+            toast({
+                variant: 'destructive',
+                title: 'Password mismatch',
+                description: 'Passwords do not match',
+            });
+            return;
+        }
+
+        if (password.length < 8) {
+            toast({
+                variant: 'destructive',
+                title: 'Weak password',
+                description: 'Password must be at least 8 characters long',
+            });
+            return;
+        }
+
+        setLoading(true);
+
+        try {
+            await apiRequest('POST', '/api/auth/reset-password', { token, password });
+            toast({
+                title: 'Password updated',
+                description: 'Sign in with your new password',
+            });
+            setLocation('/login');
+        } catch (error: any) {
+            toast({
+                variant: 'destructive',
+                title: 'Reset failed',
+                description: error.message || 'This reset link is invalid or has expired',
+            });
+        } finally {
+            setLoading(false);
+        }
+    };
+
+    return (
+        <div className="min-h-screen flex items-center justify-center bg-gradient-to-br from-blue-50 to-indigo-100 p-4">
+            <Card className="w-full max-w-md">
+                <CardHeader className="space-y-1">
+                    <div className="flex items-center justify-center mb-4">
+                        <div className="h-12 w-12 rounded-lg bg-primary flex items-center justify-center">
+                            <KeyRound className="h-6 w-6 text-primary-foreground" />
+                        </div>
+                    </div>
+                    <CardTitle className="text-2xl font-bold text-center">Choose a new password</CardTitle>
+                    <CardDescription className="text-center">
+                        {token ? 'You will be signed out of all other sessions' : 'This reset link is incomplete'}
+                    </CardDescription>
+                </CardHeader>
+                <form onSubmit={handleSubmit}>
+                    <CardContent className="space-y-4">
+                        <div className="space-y-2">
+                            <Label htmlFor="password">New Password</Label>
+                            <Input
+                                id="password"
+                                type="password"
+                                placeholder="At least 8 characters"
+                                value={password}
+                                onChange={(e) => setPassword(e.target.value)}
+                                required
+                                disabled={loading || !token}
+                                data-testid="input-new-password"
+                            />
+                        </div>
+                        <div className="space-y-2">
+                            <Label htmlFor="confirmPassword">Confirm Password</Label>
+                            <Input
+                                id="confirmPassword"
+                                type="password"
+                                placeholder="Re-enter password"
+                                value={confirmPassword}
+                                onChange={(e) => setConfirmPassword(e.target.value)}
+                                required
+                                disabled={loading || !token}
+                                data-testid="input-confirm-password"
+                            />
+                        </div>
+                    </CardContent>
+                    <CardFooter className="flex flex-col space-y-4">
+                        <Button type="submit" className="w-full" disabled={loading || !token}>
+                            {loading ? (
+                                <>
+                                    <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                                    Saving...
+                                </>
+                            ) : (
+                                'Set password'
+                            )}
+                        </Button>
+                        <p className="text-sm text-center text-muted-foreground">
+                            Link expired?{' '}
+                            <Link to="/forgot-password" className="text-primary hover:underline font-medium">
+                                Request a new one
+                            </Link>
+                        </p>
+                    </CardFooter>
+                </form>
+            </Card>
+        </div>
+    );
+}
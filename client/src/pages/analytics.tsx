@@ -3,6 +3,7 @@ import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/com
 import { TrendingUp, Users, Target, Mail, DollarSign, TrendingDown } from "lucide-react";
 import { StatCard } from "@/components/stat-card";
 import type { Lead } from "@shared/schema";
+import { formatMoney } from "@shared/currency";
 
 export default function Analytics() {
   const { data: leads, isLoading } = useQuery<Lead[]>({
@@ -21,12 +22,19 @@ export default function Analytics() {
   });
 
   const { data: forecast } = useQuery<{
-    totalValue: number;
-    weightedValue: number;
+    // Values are null and the breakdowns empty when the user's role hides deal amounts
+    baseCurrency: string;
+    totalValue: number | null;
+    weightedValue: number | null;
     dealCount: number;
-    avgDealSize: number;
+    avgDealSize: number | null;
+    wonValue: number | null;
+    wonCount: number;
+    unconverted: Record<string, { count: number; amount: number | null }>;
     byStage: Record<string, { count: number; totalValue: number; weightedValue: number }>;
     byMonth: Record<string, { count: number; totalValue: number; weightedValue: number }>;
+    byProduct: Record<string, { name: string; dealCount: number; totalValue: number; weightedValue: number }>;
+    byRevenueType: { oneTime: number; mrr: number; arr: number; weightedOneTime: number; weightedArr: number } | null;
   }>({
     queryKey: ["/api/forecast"],
   });
@@ -42,6 +50,14 @@ export default function Analytics() {
         .slice(0, 6) // Show next 6 months
     : [];
 
+  const baseCurrency = forecast?.baseCurrency || "USD";
+  const money = (amount: number | null | undefined) => (amount === null ? "Hidden" : formatMoney(amount || 0, baseCurrency));
+  const unconverted = Object.entries(forecast?.unconverted || {});
+
+  const sortedProducts = forecast?.byProduct
+    ? Object.entries(forecast.byProduct).sort(([, a], [, b]) => b.weightedValue - a.weightedValue)
+    : [];
+
   if (isLoading) {
     return (
       <div className="flex items-center justify-center h-full">
@@ -84,17 +100,28 @@ export default function Analytics() {
 
       <div>
         <h2 className="text-2xl font-bold tracking-tight mb-4">Revenue Forecast</h2>
-        <div className="grid gap-4 md:grid-cols-2 lg:grid-cols-4">
+        {unconverted.length > 0 && (
+          <p className="text-sm text-muted-foreground mb-4" data-testid="text-unconverted-deals">
+            Not included (no exchange rate to {baseCurrency}):{" "}
+            {unconverted.map(([currency, entry]) => `${entry.count} ${currency} deal${entry.count === 1 ? "" : "s"}`).join(", ")}
+          </p>
+        )}
+        <div className="grid gap-4 md:grid-cols-2 lg:grid-cols-5">
           <StatCard
             title="Pipeline Value"
-            value={`$${(forecast?.totalValue || 0).toLocaleString()}`}
+            value={money(forecast?.totalValue)}
             icon={DollarSign}
           />
           <StatCard
             title="Weighted Revenue"
-            value={`$${Math.round(forecast?.weightedValue || 0).toLocaleString()}`}
+            value={money(forecast?.weightedValue)}
             icon={TrendingUp}
           />
+          <StatCard
+            title="Won Revenue"
+            value={money(forecast?.wonValue)}
+            icon={DollarSign}
+          />
           <StatCard
             title="Open Deals"
             value={forecast?.dealCount || 0}
@@ -102,7 +129,7 @@ export default function Analytics() {
           />
           <StatCard
             title="Avg Deal Size"
-            value={`$${Math.round(forecast?.avgDealSize || 0).toLocaleString()}`}
+            value={money(forecast?.avgDealSize)}
             icon={DollarSign}
           />
         </div>
@@ -245,7 +272,7 @@ export default function Analytics() {
                         <div className="flex items-center gap-2">
                           <span className="text-muted-foreground">{data.count} deals</span>
                           <span className="font-semibold tabular-nums">
-                            ${Math.round(data.weightedValue).toLocaleString()}
+                            {money(data.weightedValue)}
                           </span>
                         </div>
                       </div>
@@ -268,6 +295,64 @@ export default function Analytics() {
             </div>
           </CardContent>
         </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Revenue by Product</CardTitle>
+            <CardDescription>First-year value of open deals by product</CardDescription>
+          </CardHeader>
+          <CardContent>
+            <div className="space-y-4">
+              {forecast?.byRevenueType && (
+                <div className="grid grid-cols-3 gap-4 text-sm" data-testid="forecast-revenue-type">
+                  <div>
+                    <p className="text-muted-foreground">One-time</p>
+                    <p className="font-semibold tabular-nums">{money(forecast.byRevenueType.oneTime)}</p>
+                  </div>
+                  <div>
+                    <p className="text-muted-foreground">MRR</p>
+                    <p className="font-semibold tabular-nums">{money(forecast.byRevenueType.mrr)}</p>
+                  </div>
+                  <div>
+                    <p className="text-muted-foreground">ARR</p>
+                    <p className="font-semibold tabular-nums">{money(forecast.byRevenueType.arr)}</p>
+                  </div>
+                </div>
+              )}
+              {sortedProducts.length > 0 ? (
+                sortedProducts.map(([key, data]) => {
+                  const maxValue = Math.max(...sortedProducts.map(([, d]) => d.weightedValue), 1);
+
+                  return (
+                    <div key={key} className="space-y-2">
+                      <div className="flex items-center justify-between text-sm">
+                        <span className="font-medium">{data.name}</span>
+                        <div className="flex items-center gap-2">
+                          <span className="text-muted-foreground">{data.dealCount} deals</span>
+                          <span className="font-semibold tabular-nums">
+                            {money(data.weightedValue)}
+                          </span>
+                        </div>
+                      </div>
+                      <div className="h-2 bg-muted rounded-full overflow-hidden">
+                        <div
+                          className="h-full bg-primary"
+                          style={{
+                            width: `${(data.weightedValue / maxValue) * 100}%`,
+                          }}
+                        />
+                      </div>
+                    </div>
+                  );
+                })
+              ) : (
+                <div className="text-sm text-muted-foreground text-center py-8">
+                  No open deals with products
+                </div>
+              )}
+            </div>
+          </CardContent>
+        </Card>
       </div>
     </div>
   );
@@ -6,7 +6,10 @@ import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/com
 import { Button } from "@/components/ui/button";
 import { Switch } from "@/components/ui/switch";
 import { Badge } from "@/components/ui/badge";
-import { Zap, Plus, Trash2, Eye, Settings, Sparkles, ArrowRight } from "lucide-react";
+import { Zap, Plus, Trash2, Eye, Settings, Sparkles, ArrowRight, Clock, Pencil, FlaskConical } from "lucide-react";
+import { AutomationRuleDialog } from "@/components/automation-rule-dialog";
+import { AutomationSimulationDialog } from "@/components/automation-simulation-dialog";
+import type { AutomationAction } from "@shared/automation-rules";
 import {
   Dialog,
   DialogContent,
@@ -31,6 +34,9 @@ export default function AutomationPage() {
   const { toast } = useToast();
   const [selectedRule, setSelectedRule] = useState<AutomationRule | null>(null);
   const [deleteRuleId, setDeleteRuleId] = useState<string | null>(null);
+  const [editorOpen, setEditorOpen] = useState(false);
+  const [editingRule, setEditingRule] = useState<AutomationRule | null>(null);
+  const [simulatingRule, setSimulatingRule] = useState<AutomationRule | null>(null);
 
   const { data: rules = [], isLoading } = useQuery<AutomationRule[]>({
     queryKey: ["/api/automation-rules"],
@@ -75,6 +81,8 @@ export default function AutomationPage() {
         return <Zap className="h-4 w-4" />;
       case "deal_stage_change":
         return <ArrowRight className="h-4 w-4" />;
+      case "time_based":
+        return <Clock className="h-4 w-4" />;
       default:
         return <Settings className="h-4 w-4" />;
     }
@@ -88,6 +96,8 @@ export default function AutomationPage() {
         return "Email Received";
       case "deal_stage_change":
         return "Stage Changed";
+      case "time_based":
+        return "Scheduled";
       default:
         return type;
     }
@@ -110,9 +120,24 @@ export default function AutomationPage() {
     }
   };
 
+  const getRuleActions = (rule: AutomationRule): AutomationAction[] => {
+    const actions = rule.actions as AutomationAction[] | null;
+    return actions && actions.length > 0
+      ? actions
+      : [{ type: rule.actionType as AutomationAction["type"], config: rule.actionConfig as any }];
+  };
+
+  const openEditor = (rule: AutomationRule | null) => {
+    setEditingRule(rule);
+    setEditorOpen(true);
+  };
+
   const recentLogs = logs.slice(0, 10);
-  const successRate = logs.length > 0
-    ? Math.round((logs.filter((l: any) => l.success === 1).length / logs.length) * 100)
+  // Suppressed entries are rules that matched but were held back, not executions
+  const executions = logs.filter((l: any) => !l.suppressedReason);
+  const suppressedCount = logs.length - executions.length;
+  const successRate = executions.length > 0
+    ? Math.round((executions.filter((l: any) => l.success === 1).length / executions.length) * 100)
     : 0;
 
   if (isLoading) {
@@ -138,7 +163,7 @@ export default function AutomationPage() {
               Automate repetitive tasks and streamline your sales process
             </p>
           </div>
-          <Button data-testid="button-create-rule" disabled>
+          <Button data-testid="button-create-rule" onClick={() => openEditor(null)}>
             <Plus className="h-4 w-4 mr-2" />
             Create Rule
           </Button>
@@ -166,9 +191,10 @@ export default function AutomationPage() {
               <Sparkles className="h-4 w-4 text-blue-500" />
             </CardHeader>
             <CardContent>
-              <div className="text-2xl font-bold">{logs.length}</div>
+              <div className="text-2xl font-bold">{executions.length}</div>
               <p className="text-xs text-muted-foreground">
                 {successRate}% success rate
+                {suppressedCount > 0 && ` · ${suppressedCount} suppressed`}
               </p>
             </CardContent>
           </Card>
@@ -233,10 +259,15 @@ export default function AutomationPage() {
                           <Badge variant="secondary">
                             {getTriggerLabel(rule.triggerType)}
                           </Badge>
+                          {rule.conditions != null && (
+                            <Badge variant="outline">Conditions</Badge>
+                          )}
                           <ArrowRight className="h-3 w-3 text-muted-foreground" />
-                          <Badge variant="secondary">
-                            {getActionLabel(rule.actionType)}
-                          </Badge>
+                          {getRuleActions(rule).map((action, i) => (
+                            <Badge key={i} variant="secondary">
+                              {getActionLabel(action.type)}
+                            </Badge>
+                          ))}
                         </div>
                       </div>
                     </div>
@@ -270,21 +301,53 @@ export default function AutomationPage() {
                                 </pre>
                               </div>
                             </div>
-                            <div>
-                              <h4 className="font-semibold mb-2">Action</h4>
-                              <div className="p-3 bg-muted rounded-lg">
-                                <div className="flex items-center gap-2 mb-2">
-                                  <Badge>{getActionLabel(rule.actionType)}</Badge>
+                            {rule.conditions != null && (
+                              <div>
+                                <h4 className="font-semibold mb-2">Conditions</h4>
+                                <div className="p-3 bg-muted rounded-lg">
+                                  <pre className="text-xs overflow-auto">
+                                    {JSON.stringify(rule.conditions, null, 2)}
+                                  </pre>
                                 </div>
-                                <pre className="text-xs overflow-auto">
-                                  {JSON.stringify(rule.actionConfig, null, 2)}
-                                </pre>
+                              </div>
+                            )}
+                            <div>
+                              <h4 className="font-semibold mb-2">Actions</h4>
+                              <div className="space-y-2">
+                                {getRuleActions(rule).map((action, i) => (
+                                  <div key={i} className="p-3 bg-muted rounded-lg">
+                                    <div className="flex items-center gap-2 mb-2">
+                                      <Badge>{i + 1}. {getActionLabel(action.type)}</Badge>
+                                    </div>
+                                    <pre className="text-xs overflow-auto">
+                                      {JSON.stringify(action.config, null, 2)}
+                                    </pre>
+                                  </div>
+                                ))}
                               </div>
                             </div>
                           </div>
                         </DialogContent>
                       </Dialog>
 
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        onClick={() => openEditor(rule)}
+                        data-testid={`button-edit-rule-${rule.id}`}
+                      >
+                        <Pencil className="h-4 w-4" />
+                      </Button>
+
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        onClick={() => setSimulatingRule(rule)}
+                        data-testid={`button-simulate-rule-${rule.id}`}
+                      >
+                        <FlaskConical className="h-4 w-4" />
+                      </Button>
+
                       <Switch
                         checked={rule.isActive === 1}
                         onCheckedChange={(checked) => {
@@ -331,10 +394,14 @@ export default function AutomationPage() {
                       data-testid={`log-${i}`}
                     >
                       <div className="flex items-center gap-3">
-                        <div className={`w-2 h-2 rounded-full ${log.success === 1 ? "bg-green-500" : "bg-red-500"}`} />
+                        <div
+                          className={`w-2 h-2 rounded-full ${
+                            log.suppressedReason ? "bg-muted-foreground" : log.success === 1 ? "bg-green-500" : "bg-red-500"
+                          }`}
+                        />
                         <span className="font-medium">{rule?.name || "Unknown Rule"}</span>
                         {log.success === 0 && (
-                          <span className="text-destructive text-xs">
+                          <span className={`text-xs ${log.suppressedReason ? "text-muted-foreground" : "text-destructive"}`}>
                             {log.errorMessage}
                           </span>
                         )}
@@ -351,6 +418,14 @@ export default function AutomationPage() {
         )}
       </div>
 
+      <AutomationRuleDialog open={editorOpen} onOpenChange={setEditorOpen} rule={editingRule} />
+
+      <AutomationSimulationDialog
+        open={simulatingRule !== null}
+        onOpenChange={(open) => !open && setSimulatingRule(null)}
+        rule={simulatingRule}
+      />
+
       <AlertDialog open={deleteRuleId !== null} onOpenChange={() => setDeleteRuleId(null)}>
         <AlertDialogContent>
           <AlertDialogHeader>
@@ -0,0 +1,111 @@
+import { useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { Link } from "wouter";
+import { Building2, Link2, Search } from "lucide-react";
+import { Card } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { useAuth } from "@/contexts/AuthContext";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import type { CompanyWithCounts } from "@shared/companies";
+
+export default function Companies() {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const [search, setSearch] = useState("");
+
+  const { data: companies = [], isLoading } = useQuery<CompanyWithCounts[]>({
+    queryKey: ["/api/companies", { q: search }],
+    queryFn: async () => {
+      const res = await fetch(`/api/companies?q=${encodeURIComponent(search)}`, { credentials: "include" });
+      if (!res.ok) throw new Error(await res.text());
+      return res.json();
+    },
+  });
+
+  const linkMutation = useMutation({
+    mutationFn: async () => apiRequest("POST", "/api/companies/link-leads"),
+    onSuccess: () => {
+      toast({ title: "Linking queued", description: "Leads without a company are being linked in the background." });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Failed to queue linking", description: error.message, variant: "destructive" });
+    },
+  });
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between gap-4 flex-wrap">
+        <div>
+          <h1 className="text-3xl font-bold tracking-tight">Companies</h1>
+          <p className="text-muted-foreground mt-1">
+            Accounts your leads work at, with their contacts and open pipeline
+          </p>
+        </div>
+        {user?.role === "admin" && (
+          <Button variant="outline" onClick={() => linkMutation.mutate()} disabled={linkMutation.isPending} data-testid="button-link-leads">
+            <Link2 className="h-4 w-4 mr-2" />
+            Link Unlinked Leads
+          </Button>
+        )}
+      </div>
+
+      <div className="relative max-w-sm">
+        <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground" />
+        <Input
+          placeholder="Search by name or domain..."
+          value={search}
+          onChange={(e) => setSearch(e.target.value)}
+          className="pl-9"
+          data-testid="input-search-companies"
+        />
+      </div>
+
+      {isLoading ? (
+        <Skeleton className="h-64 w-full" />
+      ) : companies.length === 0 ? (
+        <Card className="p-12">
+          <div className="flex flex-col items-center justify-center text-center space-y-3">
+            <Building2 className="h-12 w-12 text-muted-foreground" />
+            <h3 className="text-lg font-semibold">No companies yet</h3>
+            <p className="text-sm text-muted-foreground">Leads with a company domain or work email are grouped into companies automatically.</p>
+          </div>
+        </Card>
+      ) : (
+        <Card>
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Company</TableHead>
+                <TableHead>Domain</TableHead>
+                <TableHead>Industry</TableHead>
+                <TableHead className="text-right">Contacts</TableHead>
+                <TableHead className="text-right">Open deals</TableHead>
+                <TableHead className="text-right">Pipeline</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {companies.map((company) => (
+                <TableRow key={company.id} data-testid={`row-company-${company.id}`}>
+                  <TableCell className="font-medium">
+                    <Link href={`/companies/${company.id}`} className="hover:underline">
+                      {company.name}
+                    </Link>
+                  </TableCell>
+                  <TableCell className="text-muted-foreground">{company.domain}</TableCell>
+                  <TableCell>{company.industry || "—"}</TableCell>
+                  <TableCell className="text-right">{company.contactCount}</TableCell>
+                  <TableCell className="text-right">{company.openDealCount}</TableCell>
+                  <TableCell className="text-right">{company.pipelineValue.toLocaleString()}</TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </Card>
+      )}
+    </div>
+  );
+}
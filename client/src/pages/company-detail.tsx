@@ -0,0 +1,389 @@
+import { useEffect, useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { Link, useRoute } from "wouter";
+import { ArrowLeft, Building2, DollarSign, Edit, Globe, Linkedin, MessageSquare, Phone, Sparkles, Trophy, Users } from "lucide-react";
+import { format, formatDistanceToNow } from "date-fns";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Dialog, DialogContent, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { LeadStatusBadge } from "@/components/lead-status-badge";
+import { useToast } from "@/hooks/use-toast";
+import { useCurrencyConverter } from "@/hooks/use-currency";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import type { Company } from "@shared/schema";
+import type { CompanyAccount, UpdateCompany } from "@shared/companies";
+import { formatMoney, sumDealValues } from "@shared/currency";
+import { isFieldHidden } from "@shared/roles";
+import { useAuth } from "@/contexts/AuthContext";
+
+const formatTotals = (totals: Record<string, number>) =>
+  Object.entries(totals).map(([currency, amount]) => formatMoney(amount, currency)).join(" + ");
+
+const editableFields: Array<{ key: keyof UpdateCompany; label: string }> = [
+  { key: "name", label: "Name" },
+  { key: "website", label: "Website" },
+  { key: "industry", label: "Industry" },
+  { key: "size", label: "Size" },
+  { key: "revenue", label: "Revenue" },
+  { key: "phone", label: "Phone" },
+  { key: "linkedinUrl", label: "LinkedIn URL" },
+  { key: "city", label: "City" },
+  { key: "country", label: "Country" },
+];
+
+export default function CompanyDetail() {
+  const [, params] = useRoute("/companies/:id");
+  const { toast } = useToast();
+  const converter = useCurrencyConverter();
+  const [isEditOpen, setIsEditOpen] = useState(false);
+  const { user } = useAuth();
+  const amountHidden = isFieldHidden(user?.hiddenFields, "deals", "amount");
+
+  const { data: account, isLoading } = useQuery<CompanyAccount>({
+    queryKey: ["/api/companies", params?.id],
+    enabled: !!params?.id,
+  });
+
+  const enrichMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", `/api/companies/${params?.id}/enrich`);
+      return (await res.json()) as { company: Company; leadsUpdated: number };
+    },
+    onSuccess: (result) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/companies"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/leads"] });
+      toast({ title: "Company enriched", description: `Updated ${result.leadsUpdated} linked lead${result.leadsUpdated === 1 ? "" : "s"}.` });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Enrichment failed", description: error.message, variant: "destructive" });
+    },
+  });
+
+  if (isLoading) {
+    return (
+      <div className="space-y-6">
+        <Skeleton className="h-10 w-64" />
+        <Skeleton className="h-32 w-full" />
+        <Skeleton className="h-64 w-full" />
+      </div>
+    );
+  }
+
+  if (!account) {
+    return (
+      <Card className="p-12">
+        <div className="flex flex-col items-center justify-center text-center space-y-3">
+          <Building2 className="h-12 w-12 text-muted-foreground" />
+          <h3 className="text-lg font-semibold">Company not found</h3>
+          <Link href="/companies">
+            <Button variant="outline">Back to Companies</Button>
+          </Link>
+        </div>
+      </Card>
+    );
+  }
+
+  const { company, contacts, deals, conversations } = account;
+  const contactNames = new Map(contacts.map((lead) => [lead.id, lead.name]));
+  const openTotals = sumDealValues(deals.filter((deal) => deal.status === "open"), converter);
+  const wonTotals = sumDealValues(deals.filter((deal) => deal.status === "won"), converter);
+  // The per-currency breakdown only adds information when deals are not all in the base currency
+  const showBreakdown = (totals: Record<string, number>) =>
+    Object.keys(totals).some((currency) => currency !== converter.baseCurrency);
+  const money = (amount: number, currency: string) => (amountHidden ? "Hidden" : formatMoney(amount, currency));
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-start justify-between gap-4 flex-wrap">
+        <div className="flex items-start gap-3">
+          <Link href="/companies">
+            <Button variant="ghost" size="icon" data-testid="button-back">
+              <ArrowLeft className="h-4 w-4" />
+            </Button>
+          </Link>
+          <div>
+            <h1 className="text-3xl font-bold tracking-tight" data-testid="text-company-name">{company.name}</h1>
+            <div className="flex items-center gap-3 text-sm text-muted-foreground mt-1 flex-wrap">
+              <span>{company.domain}</span>
+              {company.industry && <Badge variant="secondary">{company.industry}</Badge>}
+              {company.enrichedAt && (
+                <span>Enriched {formatDistanceToNow(new Date(company.enrichedAt), { addSuffix: true })}</span>
+              )}
+            </div>
+          </div>
+        </div>
+        <div className="flex gap-2">
+          <Button variant="outline" onClick={() => enrichMutation.mutate()} disabled={enrichMutation.isPending} data-testid="button-enrich-company">
+            <Sparkles className="h-4 w-4 mr-2" />
+            {enrichMutation.isPending ? "Enriching..." : "Enrich"}
+          </Button>
+          <Button onClick={() => setIsEditOpen(true)} data-testid="button-edit-company">
+            <Edit className="h-4 w-4 mr-2" />
+            Edit
+          </Button>
+        </div>
+      </div>
+
+      <div className="grid gap-4 md:grid-cols-3">
+        <Card>
+          <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+            <CardTitle className="text-sm font-medium">Contacts</CardTitle>
+            <Users className="h-4 w-4 text-muted-foreground" />
+          </CardHeader>
+          <CardContent>
+            <div className="text-2xl font-bold" data-testid="text-contact-count">{contacts.length}</div>
+          </CardContent>
+        </Card>
+        <Card>
+          <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+            <CardTitle className="text-sm font-medium">Open Pipeline</CardTitle>
+            <DollarSign className="h-4 w-4 text-muted-foreground" />
+          </CardHeader>
+          <CardContent>
+            <div className="text-2xl font-bold" data-testid="text-pipeline-value">{money(openTotals.totalValue, converter.baseCurrency)}</div>
+            {showBreakdown(account.pipelineValue) && (
+              <p className="text-xs text-muted-foreground">
+                {formatTotals(account.pipelineValue)}
+                {openTotals.unconvertedCount > 0 && ` (${openTotals.unconvertedCount} without exchange rate)`}
+              </p>
+            )}
+          </CardContent>
+        </Card>
+        <Card>
+          <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+            <CardTitle className="text-sm font-medium">Won</CardTitle>
+            <Trophy className="h-4 w-4 text-muted-foreground" />
+          </CardHeader>
+          <CardContent>
+            <div className="text-2xl font-bold" data-testid="text-won-value">{money(wonTotals.totalValue, converter.baseCurrency)}</div>
+            {showBreakdown(account.wonValue) && (
+              <p className="text-xs text-muted-foreground">
+                {formatTotals(account.wonValue)}
+                {wonTotals.unconvertedCount > 0 && ` (${wonTotals.unconvertedCount} without exchange rate)`}
+              </p>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+
+      <div className="grid gap-6 lg:grid-cols-3">
+        <Card className="lg:col-span-1">
+          <CardHeader>
+            <CardTitle className="text-lg">About</CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-2 text-sm">
+            {company.description && <p className="text-muted-foreground">{company.description}</p>}
+            {company.website && (
+              <a href={company.website} target="_blank" rel="noopener noreferrer" className="flex items-center gap-2 text-primary hover:underline">
+                <Globe className="h-4 w-4" />
+                {company.website}
+              </a>
+            )}
+            {company.linkedinUrl && (
+              <a href={company.linkedinUrl} target="_blank" rel="noopener noreferrer" className="flex items-center gap-2 text-primary hover:underline">
+                <Linkedin className="h-4 w-4" />
+                Company Profile
+              </a>
+            )}
+            {company.phone && (
+              <a href={`tel:${company.phone}`} className="flex items-center gap-2 text-primary hover:underline">
+                <Phone className="h-4 w-4" />
+                {company.phone}
+              </a>
+            )}
+            {[
+              ["Size", company.size],
+              ["Revenue", company.revenue],
+              ["Founded", company.foundedYear],
+              ["Location", [company.city, company.country].filter(Boolean).join(", ")],
+            ].filter(([, value]) => value).map(([label, value]) => (
+              <div key={label as string} className="flex justify-between">
+                <span className="font-medium text-muted-foreground">{label}:</span>
+                <span>{value}</span>
+              </div>
+            ))}
+          </CardContent>
+        </Card>
+
+        <div className="lg:col-span-2">
+          <Tabs defaultValue="contacts">
+            <TabsList>
+              <TabsTrigger value="contacts">Contacts ({contacts.length})</TabsTrigger>
+              <TabsTrigger value="deals">Deals ({deals.length})</TabsTrigger>
+              <TabsTrigger value="conversations">Conversations ({conversations.length})</TabsTrigger>
+            </TabsList>
+
+            <TabsContent value="contacts">
+              <Card>
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Name</TableHead>
+                      <TableHead>Position</TableHead>
+                      <TableHead>Email</TableHead>
+                      <TableHead>Status</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {contacts.map((lead) => (
+                      <TableRow key={lead.id} data-testid={`row-contact-${lead.id}`}>
+                        <TableCell className="font-medium">
+                          <Link href={`/leads/${lead.id}`} className="hover:underline">{lead.name}</Link>
+                        </TableCell>
+                        <TableCell>{lead.position || "—"}</TableCell>
+                        <TableCell className="text-muted-foreground">{lead.email}</TableCell>
+                        <TableCell><LeadStatusBadge status={lead.status as any} /></TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </Card>
+            </TabsContent>
+
+            <TabsContent value="deals">
+              <Card>
+                {deals.length === 0 ? (
+                  <p className="p-6 text-sm text-muted-foreground">No deals with this company yet.</p>
+                ) : (
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>Deal</TableHead>
+                        <TableHead>Contact</TableHead>
+                        <TableHead>Status</TableHead>
+                        <TableHead>Expected close</TableHead>
+                        <TableHead className="text-right">Amount</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {deals.map((deal) => (
+                        <TableRow key={deal.id} data-testid={`row-deal-${deal.id}`}>
+                          <TableCell className="font-medium">
+                            <Link href={`/deals/${deal.id}`} className="hover:underline">{deal.name}</Link>
+                          </TableCell>
+                          <TableCell>{(deal.leadId && contactNames.get(deal.leadId)) || "—"}</TableCell>
+                          <TableCell><Badge variant="outline">{deal.status}</Badge></TableCell>
+                          <TableCell>{deal.expectedCloseDate ? format(new Date(deal.expectedCloseDate), "MMM d, yyyy") : "—"}</TableCell>
+                          <TableCell className="text-right">{money(deal.amount, deal.currency)}</TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                )}
+              </Card>
+            </TabsContent>
+
+            <TabsContent value="conversations">
+              <Card>
+                <CardContent className="p-0 divide-y">
+                  {conversations.length === 0 ? (
+                    <p className="p-6 text-sm text-muted-foreground">No conversations with this company yet.</p>
+                  ) : (
+                    conversations.map((conversation) => (
+                      <div key={conversation.id} className="flex items-start gap-3 p-4" data-testid={`row-conversation-${conversation.id}`}>
+                        <MessageSquare className="h-4 w-4 mt-1 text-muted-foreground shrink-0" />
+                        <div className="min-w-0 flex-1">
+                          <p className="font-medium truncate">{conversation.subject}</p>
+                          <p className="text-sm text-muted-foreground">
+                            <Link href={`/leads/${conversation.leadId}`} className="hover:underline">
+                              {contactNames.get(conversation.leadId)}
+                            </Link>
+                            {" · "}
+                            {conversation.isFromLead ? "Received" : "Sent"}{" "}
+                            {formatDistanceToNow(new Date(conversation.sentAt), { addSuffix: true })}
+                          </p>
+                        </div>
+                      </div>
+                    ))
+                  )}
+                </CardContent>
+              </Card>
+            </TabsContent>
+          </Tabs>
+        </div>
+      </div>
+
+      <EditCompanyDialog company={company} open={isEditOpen} onOpenChange={setIsEditOpen} />
+    </div>
+  );
+}
+
+function EditCompanyDialog({ company, open, onOpenChange }: {
+  company: Company;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}) {
+  const { toast } = useToast();
+  const [values, setValues] = useState<Record<string, string>>({});
+
+  useEffect(() => {
+    if (open) {
+      setValues(Object.fromEntries(
+        [...editableFields.map(({ key }) => key), "description"].map((key) => [key, String(company[key as keyof Company] ?? "")])
+      ));
+    }
+  }, [open, company]);
+
+  const updateMutation = useMutation({
+    mutationFn: async () => {
+      const updates: UpdateCompany = {};
+      for (const [key, value] of Object.entries(values)) {
+        (updates as Record<string, string | null>)[key] = key === "name" ? value.trim() : value.trim() || null;
+      }
+      return apiRequest("PATCH", `/api/companies/${company.id}`, updates);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/companies"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/leads"] });
+      toast({ title: "Company updated", description: "Linked leads were updated too." });
+      onOpenChange(false);
+    },
+    onError: (error: Error) => {
+      toast({ title: "Failed to update company", description: error.message, variant: "destructive" });
+    },
+  });
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Edit {company.name}</DialogTitle>
+        </DialogHeader>
+        <div className="grid grid-cols-2 gap-3">
+          {editableFields.map(({ key, label }) => (
+            <div key={key} className="space-y-1">
+              <Label htmlFor={`company-${key}`}>{label}</Label>
+              <Input
+                id={`company-${key}`}
+                value={values[key] ?? ""}
+                onChange={(e) => setValues((current) => ({ ...current, [key]: e.target.value }))}
+                data-testid={`input-company-${key}`}
+              />
+            </div>
+          ))}
+          <div className="col-span-2 space-y-1">
+            <Label htmlFor="company-description">Description</Label>
+            <Textarea
+              id="company-description"
+              value={values.description ?? ""}
+              onChange={(e) => setValues((current) => ({ ...current, description: e.target.value }))}
+            />
+          </div>
+        </div>
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>Cancel</Button>
+          <Button onClick={() => updateMutation.mutate()} disabled={updateMutation.isPending || !values.name?.trim()} data-testid="button-save-company">
+            {updateMutation.isPending ? "Saving..." : "Save"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
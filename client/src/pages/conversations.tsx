@@ -1,11 +1,13 @@
+import { useMemo } from "react";
 import { useQuery } from "@tanstack/react-query";
 import { Mail, RefreshCw } from "lucide-react";
-import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Card } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
-import { Badge } from "@/components/ui/badge";
 import { Avatar, AvatarFallback } from "@/components/ui/avatar";
-import { formatDistanceToNow } from "date-fns";
+import { ConversationThreadCard } from "@/components/conversation-thread";
+import { ExportButton } from "@/components/export-button";
 import type { Conversation, Lead } from "@shared/schema";
+import { buildThreads } from "@shared/email-threads";
 import { Link } from "wouter";
 
 type ConversationWithLead = Conversation & {
@@ -17,6 +19,8 @@ export default function Conversations() {
     queryKey: ["/api/conversations"],
   });
 
+  const threads = useMemo(() => buildThreads(conversations || []), [conversations]);
+
   const getInitials = (name: string) => {
     return name
       .split(" ")
@@ -35,14 +39,17 @@ export default function Conversations() {
             All email conversations synced from MS 365
           </p>
         </div>
-        <Button
-          onClick={() => refetch()}
-          variant="outline"
-          data-testid="button-sync-conversations"
-        >
-          <RefreshCw className="h-4 w-4 mr-2" />
-          Sync Now
-        </Button>
+        <div className="flex items-center gap-2">
+          <ExportButton entity="conversations" />
+          <Button
+            onClick={() => refetch()}
+            variant="outline"
+            data-testid="button-sync-conversations"
+          >
+            <RefreshCw className="h-4 w-4 mr-2" />
+            Sync Now
+          </Button>
+        </div>
       </div>
 
       {isLoading ? (
@@ -68,53 +75,28 @@ export default function Conversations() {
         </Card>
       ) : (
         <div className="space-y-4">
-          {conversations?.map((conversation) => (
-            <Link
-              href={`/leads/${conversation.leadId}`}
-              key={conversation.id}
-            >
-              <Card
-                className="hover-elevate active-elevate-2 cursor-pointer"
-                data-testid={`card-conversation-${conversation.id}`}
-              >
-                <CardHeader>
-                  <div className="flex items-start gap-4">
-                    <Avatar>
-                      <AvatarFallback>
-                        {getInitials(conversation.lead.name)}
-                      </AvatarFallback>
-                    </Avatar>
-                    <div className="flex-1 min-w-0">
-                      <div className="flex items-center gap-2 flex-wrap">
-                        <CardTitle className="text-base">
-                          {conversation.lead.name}
-                        </CardTitle>
-                        <Badge variant={conversation.isFromLead ? "default" : "secondary"}>
-                          {conversation.isFromLead ? "Received" : "Sent"}
-                        </Badge>
+          {threads.map((thread) => {
+            const lead = thread.messages[0].message.lead;
+            return (
+              <ConversationThreadCard
+                key={thread.key}
+                thread={thread}
+                header={
+                  <Link href={`/leads/${thread.leadId}`}>
+                    <div className="flex items-center gap-3 mb-2 cursor-pointer hover:underline">
+                      <Avatar className="h-8 w-8">
+                        <AvatarFallback>{getInitials(lead?.name || "?")}</AvatarFallback>
+                      </Avatar>
+                      <div className="min-w-0">
+                        <p className="text-sm font-medium">{lead?.name}</p>
+                        <p className="text-xs text-muted-foreground">{lead?.company || lead?.email}</p>
                       </div>
-                      <p className="text-sm text-muted-foreground mt-1">
-                        {conversation.lead.company || conversation.lead.email}
-                      </p>
-                    </div>
-                    <div className="text-right">
-                      <p className="text-xs text-muted-foreground">
-                        {formatDistanceToNow(new Date(conversation.sentAt), {
-                          addSuffix: true,
-                        })}
-                      </p>
                     </div>
-                  </div>
-                </CardHeader>
-                <CardContent>
-                  <h4 className="font-medium mb-2">{conversation.subject}</h4>
-                  <p className="text-sm text-muted-foreground line-clamp-2">
-                    {conversation.body}
-                  </p>
-                </CardContent>
-              </Card>
-            </Link>
-          ))}
+                  </Link>
+                }
+              />
+            );
+          })}
         </div>
       )}
     </div>
@@ -6,7 +6,7 @@ import { Badge } from "@/components/ui/badge";
 import { Separator } from "@/components/ui/separator";
 import { ArrowLeft, Edit, DollarSign, Calendar, User, TrendingUp, History, MessageSquare, CheckCircle2, Sparkles, Target, AlertCircle, ThumbsUp, ThumbsDown } from "lucide-react";
 import { queryClient, apiRequest } from "@/lib/queryClient";
-import type { Deal, Activity, User as UserType, PipelineStage } from "@shared/schema";
+import type { Deal, Activity, User as UserType, PipelineStage, DealLineItem } from "@shared/schema";
 import { format } from "date-fns";
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
 import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
@@ -18,6 +18,12 @@ import { zodResolver } from "@hookform/resolvers/zod";
 import { insertDealSchema, type InsertDeal } from "@shared/schema";
 import { useToast } from "@/hooks/use-toast";
 import { useState } from "react";
+import { DealContactsCard } from "@/components/deal-contacts-card";
+import { DealLineItemsCard } from "@/components/deal-line-items-card";
+import { useCurrencyConverter } from "@/hooks/use-currency";
+import { convertDealAmount, formatMoney } from "@shared/currency";
+import { isFieldHidden } from "@shared/roles";
+import { useAuth } from "@/contexts/AuthContext";
 
 const activityIcons = {
   email: MessageSquare,
@@ -29,10 +35,12 @@ const activityIcons = {
   created: History,
 } as const;
 
-function EditDealDialog({ deal, stages, users, open, onOpenChange }: {
+function EditDealDialog({ deal, stages, users, hasLineItems, amountHidden, open, onOpenChange }: {
   deal: Deal;
   stages: PipelineStage[];
   users: UserType[];
+  hasLineItems: boolean;
+  amountHidden: boolean;
   open: boolean;
   onOpenChange: (open: boolean) => void;
 }) {
@@ -44,7 +52,8 @@ function EditDealDialog({ deal, stages, users, open, onOpenChange }: {
       name: deal.name,
       pipelineId: deal.pipelineId,
       stageId: deal.stageId,
-      amount: deal.amount,
+      amount: deal.amount ?? undefined, // Null when the user's role hides it
+      currency: deal.currency,
       probability: deal.probability || 0,
       expectedCloseDate: deal.expectedCloseDate ? new Date(deal.expectedCloseDate) : undefined,
       ownerId: deal.ownerId,
@@ -97,21 +106,47 @@ function EditDealDialog({ deal, stages, users, open, onOpenChange }: {
               )}
             />
 
-            <div className="grid grid-cols-2 gap-4">
+            <div className="grid grid-cols-3 gap-4">
               <FormField
                 control={form.control}
                 name="amount"
                 render={({ field }) => (
                   <FormItem>
-                    <FormLabel>Amount ($)</FormLabel>
+                    <FormLabel>Amount</FormLabel>
                     <FormControl>
                       <Input
                         type="number"
                         {...field}
                         onChange={(e) => field.onChange(parseFloat(e.target.value))}
+                        disabled={hasLineItems || amountHidden}
                         data-testid="input-deal-amount"
                       />
                     </FormControl>
+                    {amountHidden ? (
+                      <p className="text-xs text-muted-foreground">Hidden for your role</p>
+                    ) : hasLineItems && (
+                      <p className="text-xs text-muted-foreground">Calculated from line items</p>
+                    )}
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <FormField
+                control={form.control}
+                name="currency"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Currency</FormLabel>
+                    <FormControl>
+                      <Input
+                        maxLength={3}
+                        {...field}
+                        onChange={(e) => field.onChange(e.target.value.toUpperCase())}
+                        disabled={hasLineItems}
+                        data-testid="input-deal-currency"
+                      />
+                    </FormControl>
                     <FormMessage />
                   </FormItem>
                 )}
@@ -267,6 +302,8 @@ export default function DealDetail() {
   const { id } = useParams();
   const [, navigate] = useLocation();
   const [editOpen, setEditOpen] = useState(false);
+  const { user } = useAuth();
+  const amountHidden = isFieldHidden(user?.hiddenFields, "deals", "amount");
 
   const { data: deal, isLoading: dealLoading } = useQuery<Deal>({
     queryKey: ["/api/deals", id],
@@ -303,6 +340,13 @@ export default function DealDetail() {
     enabled: !!id && deal?.status === "open",
   });
 
+  const converter = useCurrencyConverter();
+
+  const { data: lineItems = [] } = useQuery<DealLineItem[]>({
+    queryKey: [`/api/deals/${id}/line-items`],
+    enabled: !!id,
+  });
+
   const currentStage = stages.find((s) => s.id === deal?.stageId);
   const owner = users.find((u) => u.id === deal?.ownerId);
 
@@ -328,6 +372,7 @@ export default function DealDetail() {
   }
 
   const weightedValue = (deal.amount * (deal.probability || 0)) / 100;
+  const convertedAmount = convertDealAmount(converter, deal);
   const stageActivities = activities.filter((a) => a.type === "stage_change");
 
   return (
@@ -375,11 +420,20 @@ export default function DealDetail() {
                     <div>
                       <div className="text-sm text-muted-foreground">Amount</div>
                       <div className="text-2xl font-bold" data-testid="text-deal-amount">
-                        ${deal.amount.toLocaleString()}
-                      </div>
-                      <div className="text-xs text-muted-foreground">
-                        Weighted: ${Math.round(weightedValue).toLocaleString()}
+                        {amountHidden ? "Hidden" : formatMoney(deal.amount, deal.currency)}
                       </div>
+                      {!amountHidden && deal.currency !== converter.baseCurrency && (
+                        <div className="text-xs text-muted-foreground" data-testid="text-deal-converted-amount">
+                          {convertedAmount === null
+                            ? `No ${deal.currency} to ${converter.baseCurrency} exchange rate`
+                            : `≈ ${formatMoney(convertedAmount, converter.baseCurrency)}`}
+                        </div>
+                      )}
+                      {!amountHidden && (
+                        <div className="text-xs text-muted-foreground">
+                          Weighted: {formatMoney(weightedValue, deal.currency)}
+                        </div>
+                      )}
                     </div>
                   </div>
 
@@ -436,6 +490,8 @@ export default function DealDetail() {
               </CardContent>
             </Card>
 
+            <DealLineItemsCard deal={deal} amountHidden={amountHidden} />
+
             {dealForecast && deal.status === "open" && (
               <Card data-testid="card-deal-forecast">
                 <CardHeader>
@@ -581,6 +637,8 @@ export default function DealDetail() {
           </div>
 
           <div className="space-y-6">
+            <DealContactsCard deal={deal} />
+
             <Card>
               <CardHeader>
                 <CardTitle>Stage History</CardTitle>
@@ -622,6 +680,8 @@ export default function DealDetail() {
         deal={deal}
         stages={stages}
         users={users}
+        hasLineItems={lineItems.length > 0}
+        amountHidden={amountHidden}
         open={editOpen}
         onOpenChange={setEditOpen}
       />
@@ -1,6 +1,6 @@
 import { useQuery, useMutation } from "@tanstack/react-query";
 import { useRoute, Link, useLocation } from "wouter";
-import { ArrowLeft, Mail, Phone, Building2, Briefcase, Edit, Trash2, CheckCircle2, Clock, TrendingUp, Sparkles, Lightbulb, MessageSquare, Activity as ActivityIcon, Linkedin, Globe, Tag } from "lucide-react";
+import { ArrowLeft, Mail, Phone, Building2, Briefcase, Edit, Trash2, CheckCircle2, Clock, TrendingUp, Sparkles, Lightbulb, MessageSquare, Activity as ActivityIcon, Linkedin, Globe, Tag, MailX } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { LeadStatusBadge } from "@/components/lead-status-badge";
@@ -11,10 +11,12 @@ import { Skeleton } from "@/components/ui/skeleton";
 import { Avatar, AvatarFallback } from "@/components/ui/avatar";
 import { formatDistanceToNow } from "date-fns";
 import type { Lead, Conversation, Activity, Task, Pipeline, PipelineStage, User as UserType } from "@shared/schema";
-import { useState } from "react";
+import { useMemo, useState } from "react";
 import { LeadFormDialog } from "@/components/lead-form-dialog";
 import { EmailComposerDialog } from "@/components/email-composer-dialog";
 import { TaskDialog } from "@/components/task-dialog";
+import { ConversationThreadCard } from "@/components/conversation-thread";
+import { buildThreads } from "@shared/email-threads";
 import { apiRequest, queryClient } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
 import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
@@ -55,6 +57,8 @@ export default function LeadDetail() {
     enabled: !!leadId,
   });
 
+  const threads = useMemo(() => buildThreads(conversations || []), [conversations]);
+
   const { data: activities } = useQuery<Activity[]>({
     queryKey: ["/api/leads", leadId, "activities"],
     enabled: !!leadId,
@@ -107,6 +111,21 @@ export default function LeadDetail() {
     enabled: !!leadId && (conversations?.length || 0) > 0,
   });
 
+  const unsubscribeMutation = useMutation({
+    mutationFn: async (unsubscribe: boolean) => {
+      return apiRequest(unsubscribe ? "POST" : "DELETE", `/api/leads/${leadId}/unsubscribe`, {});
+    },
+    onSuccess: (_data, unsubscribe) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/leads", leadId] });
+      toast({
+        title: unsubscribe ? "Lead unsubscribed" : "Lead resubscribed",
+        description: unsubscribe
+          ? "Automations will no longer email this lead."
+          : "Automations can email this lead again.",
+      });
+    },
+  });
+
   const deleteMutation = useMutation({
     mutationFn: async () => {
       return apiRequest("DELETE", `/api/leads/${leadId}`, {});
@@ -179,6 +198,15 @@ export default function LeadDetail() {
             leadName={lead.name}
           />
           <TaskDialog leadId={lead.id} />
+          <Button
+            variant="outline"
+            onClick={() => unsubscribeMutation.mutate(!lead.unsubscribedAt)}
+            disabled={unsubscribeMutation.isPending}
+            data-testid="button-toggle-unsubscribe"
+          >
+            <MailX className="h-4 w-4 mr-2" />
+            {lead.unsubscribedAt ? "Resubscribe" : "Unsubscribe"}
+          </Button>
           <Button
             variant="outline"
             onClick={() => setIsEditOpen(true)}
@@ -361,6 +389,11 @@ export default function LeadDetail() {
             <Card>
               <CardHeader>
                 <CardTitle className="text-lg">Company Information</CardTitle>
+                {lead.companyId && (
+                  <Link href={`/companies/${lead.companyId}`} className="text-sm text-primary hover:underline" data-testid="link-company-account">
+                    View account
+                  </Link>
+                )}
               </CardHeader>
               <CardContent>
                 <div className="space-y-2">
@@ -470,7 +503,12 @@ export default function LeadDetail() {
               <CardTitle className="text-lg">Lead Score</CardTitle>
             </CardHeader>
             <CardContent className="space-y-4">
-              <LeadStatusBadge status={lead.status as any} />
+              <div className="flex items-center gap-2">
+                <LeadStatusBadge status={lead.status as any} />
+                {lead.unsubscribedAt && (
+                  <Badge variant="outline" data-testid="badge-unsubscribed">Unsubscribed</Badge>
+                )}
+              </div>
               <LeadScoreMeter score={lead.score} status={lead.status as any} />
               {lead.lastContactedAt && (
                 <div className="pt-2 border-t">
@@ -540,36 +578,8 @@ export default function LeadDetail() {
                   </div>
                 </Card>
               ) : (
-                conversations?.map((conv) => (
-                  <Card key={conv.id} data-testid={`card-conversation-${conv.id}`}>
-                    <CardHeader>
-                      <div className="flex items-start justify-between gap-4">
-                        <div className="flex-1 min-w-0">
-                          <CardTitle className="text-base truncate">
-                            {conv.subject}
-                          </CardTitle>
-                          <div className="flex items-center gap-2 mt-1">
-                            <Badge variant={conv.isFromLead ? "default" : "secondary"}>
-                              {conv.isFromLead ? "Received" : "Sent"}
-                            </Badge>
-                            <span className="text-xs text-muted-foreground">
-                              {conv.sentAt && !isNaN(new Date(conv.sentAt).getTime())
-                                ? formatDistanceToNow(new Date(conv.sentAt), {
-                                  addSuffix: true,
-                                })
-                                : 'Date unknown'
-                              }
-                            </span>
-                          </div>
-                        </div>
-                      </div>
-                    </CardHeader>
-                    <CardContent>
-                      <p className="text-sm whitespace-pre-wrap line-clamp-4">
-                        {conv.body}
-                      </p>
-                    </CardContent>
-                  </Card>
+                threads.map((thread) => (
+                  <ConversationThreadCard key={thread.key} thread={thread} />
                 ))
               )}
             </TabsContent>
@@ -0,0 +1,220 @@
+import { useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { Link } from "wouter";
+import { Copy, GitMerge, X } from "lucide-react";
+import { formatDistanceToNow } from "date-fns";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import type { Lead, User } from "@shared/schema";
+import { leadMergeFields, type DuplicateGroup, type DuplicateReason, type LeadMergeField } from "@shared/lead-duplicates";
+
+const reasonLabels: Record<DuplicateReason, string> = {
+  email: "Same email",
+  linkedin: "Same LinkedIn",
+  phone: "Same phone",
+  name_company: "Similar name, same company",
+};
+
+const fieldLabels: Partial<Record<LeadMergeField, string>> = {
+  firstName: "First name",
+  lastName: "Last name",
+  linkedinUrl: "LinkedIn",
+  twitterUrl: "Twitter",
+  companyDomain: "Company domain",
+  companyWebsite: "Company website",
+  companySize: "Company size",
+  ownerId: "Owner",
+};
+
+const fieldLabel = (field: LeadMergeField) => fieldLabels[field] || field.charAt(0).toUpperCase() + field.slice(1);
+
+interface MergeChoice {
+  survivorId: string;
+  fieldSources: Partial<Record<LeadMergeField, string>>;
+}
+
+const invalidateDuplicates = () => {
+  queryClient.invalidateQueries({ queryKey: ["/api/lead-duplicates"] });
+  queryClient.invalidateQueries({ queryKey: ["/api/leads"] });
+};
+
+export default function LeadDuplicates() {
+  const { data: groups = [], isLoading } = useQuery<DuplicateGroup[]>({ queryKey: ["/api/lead-duplicates"] });
+  const { data: users = [] } = useQuery<User[]>({ queryKey: ["/api/users"] });
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h1 className="text-3xl font-bold tracking-tight">Duplicate Leads</h1>
+        <p className="text-muted-foreground mt-1">
+          Review leads that look like the same person and merge them, or mark them as different people
+        </p>
+      </div>
+
+      {isLoading ? (
+        <div className="space-y-4">
+          {[1, 2].map((i) => <Skeleton key={i} className="h-48 w-full" />)}
+        </div>
+      ) : groups.length === 0 ? (
+        <Card className="p-12">
+          <div className="flex flex-col items-center justify-center text-center space-y-3">
+            <Copy className="h-12 w-12 text-muted-foreground" />
+            <h3 className="text-lg font-semibold">No duplicates found</h3>
+            <p className="text-sm text-muted-foreground">Leads that share an email, LinkedIn profile or phone number show up here.</p>
+          </div>
+        </Card>
+      ) : (
+        groups.map((group) => <DuplicateGroupCard key={group.leads.map((l) => l.id).join(":")} group={group} users={users} />)
+      )}
+    </div>
+  );
+}
+
+function DuplicateGroupCard({ group, users }: { group: DuplicateGroup; users: User[] }) {
+  const { toast } = useToast();
+  const [choice, setChoice] = useState<MergeChoice>({ survivorId: group.leads[0].id, fieldSources: {} });
+  const reasons = Array.from(new Set(group.matches.flatMap((match) => match.reasons)));
+  const leadIds = group.leads.map((lead) => lead.id);
+
+  const display = (lead: Lead, field: LeadMergeField) => {
+    const value = lead[field];
+    if (field === "ownerId") return users.find((u) => u.id === value)?.name || (value as string) || "";
+    return value === null || value === undefined ? "" : String(value);
+  };
+  // Only fields where at least one lead has a value
+  const fields = leadMergeFields.filter((field) => group.leads.some((lead) => display(lead, field) !== ""));
+
+  // Source shown as selected: the explicit pick, else the survivor, else the first lead with a value
+  const sourceFor = (field: LeadMergeField) => {
+    if (choice.fieldSources[field]) return choice.fieldSources[field];
+    const survivor = group.leads.find((lead) => lead.id === choice.survivorId)!;
+    if (display(survivor, field) !== "") return survivor.id;
+    return group.leads.find((lead) => display(lead, field) !== "")?.id;
+  };
+
+  const mergeMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", "/api/lead-duplicates/merge", {
+        survivorId: choice.survivorId,
+        mergedIds: leadIds.filter((id) => id !== choice.survivorId),
+        fieldSources: choice.fieldSources,
+      });
+      return (await res.json()) as Lead;
+    },
+    onSuccess: (lead) => {
+      invalidateDuplicates();
+      toast({ title: "Leads merged", description: `Everything now lives on "${lead.name}".` });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Merge failed", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const dismissMutation = useMutation({
+    mutationFn: async () => apiRequest("POST", "/api/lead-duplicates/dismiss", { leadIds }),
+    onSuccess: () => {
+      invalidateDuplicates();
+      toast({ title: "Marked as different people" });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Failed to dismiss", description: error.message, variant: "destructive" });
+    },
+  });
+
+  return (
+    <Card data-testid={`duplicate-group-${group.leads[0].id}`}>
+      <CardHeader className="flex flex-row items-start justify-between gap-4 space-y-0">
+        <div className="space-y-1">
+          <CardTitle className="text-lg">{group.leads.length} possible duplicates</CardTitle>
+          <CardDescription className="flex flex-wrap gap-1">
+            {reasons.map((reason) => (
+              <Badge key={reason} variant="secondary">{reasonLabels[reason]}</Badge>
+            ))}
+          </CardDescription>
+        </div>
+        <div className="flex gap-2">
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => dismissMutation.mutate()}
+            disabled={dismissMutation.isPending || mergeMutation.isPending}
+            data-testid="button-dismiss-duplicates"
+          >
+            <X className="h-4 w-4 mr-1" />
+            Not duplicates
+          </Button>
+          <Button
+            size="sm"
+            onClick={() => mergeMutation.mutate()}
+            disabled={dismissMutation.isPending || mergeMutation.isPending}
+            data-testid="button-merge-duplicates"
+          >
+            <GitMerge className="h-4 w-4 mr-1" />
+            {mergeMutation.isPending ? "Merging..." : "Merge"}
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent>
+        <p className="text-sm text-muted-foreground mb-3">
+          Pick the lead to keep, then click any value to use it on the merged lead. Conversations, tasks, deals and history move to the kept lead.
+        </p>
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead className="w-40">Field</TableHead>
+              {group.leads.map((lead) => (
+                <TableHead key={lead.id}>
+                  <label className="flex items-center gap-2 cursor-pointer">
+                    <input
+                      type="radio"
+                      name={`survivor-${group.leads[0].id}`}
+                      checked={choice.survivorId === lead.id}
+                      onChange={() => setChoice((current) => ({ ...current, survivorId: lead.id }))}
+                      data-testid={`radio-survivor-${lead.id}`}
+                    />
+                    <span>
+                      Keep{" "}
+                      <Link href={`/leads/${lead.id}`} className="underline">
+                        {lead.name}
+                      </Link>
+                    </span>
+                  </label>
+                  <span className="text-xs font-normal text-muted-foreground">
+                    Created {formatDistanceToNow(new Date(lead.createdAt), { addSuffix: true })}
+                  </span>
+                </TableHead>
+              ))}
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {fields.map((field) => (
+              <TableRow key={field}>
+                <TableCell className="font-medium">{fieldLabel(field)}</TableCell>
+                {group.leads.map((lead) => {
+                  const value = display(lead, field);
+                  const selected = sourceFor(field) === lead.id;
+                  return (
+                    <TableCell
+                      key={lead.id}
+                      className={`${value ? "cursor-pointer" : "text-muted-foreground"} ${selected ? "bg-primary/10 font-medium" : ""}`}
+                      onClick={() =>
+                        value && setChoice((current) => ({ ...current, fieldSources: { ...current.fieldSources, [field]: lead.id } }))
+                      }
+                    >
+                      <span className="break-all">{value || "—"}</span>
+                    </TableCell>
+                  );
+                })}
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      </CardContent>
+    </Card>
+  );
+}
@@ -1,18 +1,26 @@
-import { useState } from "react";
-import { useQuery, useMutation } from "@tanstack/react-query";
-import { Plus, Search, Filter, Users, Download, X, Check } from "lucide-react";
+import { useCallback, useEffect, useMemo, useState } from "react";
+import { useQuery, useMutation, useInfiniteQuery } from "@tanstack/react-query";
+import { Plus, Search, Filter, Users, Download, X, Check, SlidersHorizontal, Columns3, Copy } from "lucide-react";
+import { format } from "date-fns";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
 import { Card } from "@/components/ui/card";
 import { Skeleton } from "@/components/ui/skeleton";
 import { LeadStatusBadge } from "@/components/lead-status-badge";
 import { LeadScoreMeter } from "@/components/lead-score-meter";
 import { Avatar, AvatarFallback } from "@/components/ui/avatar";
 import { Link } from "wouter";
-import type { Lead, LeadStatus } from "@shared/schema";
+import type { Lead, LeadStatus, SavedView, User } from "@shared/schema";
+import type { LeadPage } from "@shared/lead-search";
+import { savedViewColumns } from "@shared/saved-views";
 import { LeadFormDialog } from "@/components/lead-form-dialog";
+import { SavedViewsMenu } from "@/components/saved-views-menu";
+import { LeadFileImportTab } from "@/components/lead-file-import";
+import { ExportButton } from "@/components/export-button";
 import {
   DropdownMenu,
+  DropdownMenuCheckboxItem,
   DropdownMenuContent,
   DropdownMenuItem,
   DropdownMenuTrigger,
@@ -23,39 +31,190 @@ import {
   DialogHeader,
   DialogTitle,
 } from "@/components/ui/dialog";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { Checkbox } from "@/components/ui/checkbox";
 import { queryClient, apiRequest } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
 import { Badge } from "@/components/ui/badge";
 
+const PAGE_SIZE = 24;
+
+const sortOptions = [
+  { value: "createdAt:desc", label: "Newest first" },
+  { value: "createdAt:asc", label: "Oldest first" },
+  { value: "score:desc,name:asc", label: "Highest score" },
+  { value: "score:asc,name:asc", label: "Lowest score" },
+  { value: "name:asc", label: "Name (A-Z)" },
+  { value: "company:asc,name:asc", label: "Company (A-Z)" },
+  { value: "lastContactedAt:desc", label: "Recently contacted" },
+  { value: "lastContactedAt:asc", label: "Least recently contacted" },
+];
+
+interface LeadFilters {
+  minScore: string;
+  maxScore: string;
+  ownerId: string;
+  industry: string;
+  country: string;
+  tags: string;
+  createdFrom: string;
+  createdTo: string;
+  lastContactedFrom: string;
+  lastContactedTo: string;
+  customFieldKey: string;
+  customFieldValue: string;
+}
+
+const emptyFilters: LeadFilters = {
+  minScore: "",
+  maxScore: "",
+  ownerId: "all",
+  industry: "",
+  country: "",
+  tags: "",
+  createdFrom: "",
+  createdTo: "",
+  lastContactedFrom: "",
+  lastContactedTo: "",
+  customFieldKey: "",
+  customFieldValue: "",
+};
+
+const leadColumnLabels: Record<string, string> = {
+  company: "Company",
+  email: "Email",
+  phone: "Phone",
+  score: "Score",
+  lastContactedAt: "Last contact",
+};
+
+// Date inputs give a day; "to" dates include the whole day
+const startOfDay = (day: string) => new Date(`${day}T00:00:00`).toISOString();
+const endOfDay = (day: string) => new Date(`${day}T23:59:59.999`).toISOString();
+const toDay = (iso?: string) => (iso ? format(new Date(iso), "yyyy-MM-dd") : "");
+
+/**
+ * The search as /api/leads query parameters, without paging and sort;
+ * this is also what a saved view stores
+ */
+function buildLeadFilters(search: string, status: LeadStatus | "all", filters: LeadFilters): Record<string, string> {
+  const params: Record<string, string> = {};
+  if (search) params.q = search;
+  if (status !== "all") params.status = status;
+  if (filters.minScore) params.minScore = filters.minScore;
+  if (filters.maxScore) params.maxScore = filters.maxScore;
+  if (filters.ownerId !== "all") params.ownerId = filters.ownerId;
+  if (filters.industry) params.industry = filters.industry;
+  if (filters.country) params.country = filters.country;
+  if (filters.tags) params.tags = filters.tags;
+  if (filters.createdFrom) params.createdFrom = startOfDay(filters.createdFrom);
+  if (filters.createdTo) params.createdTo = endOfDay(filters.createdTo);
+  if (filters.lastContactedFrom) params.lastContactedFrom = startOfDay(filters.lastContactedFrom);
+  if (filters.lastContactedTo) params.lastContactedTo = endOfDay(filters.lastContactedTo);
+  if (filters.customFieldKey && filters.customFieldValue) {
+    params[`cf.${filters.customFieldKey}`] = filters.customFieldValue;
+  }
+  return params;
+}
+
+/**
+ * The inverse of buildLeadFilters, for applying a saved view
+ */
+function parseLeadFilters(params: Record<string, string>): LeadFilters {
+  const customField = Object.keys(params).find((key) => key.startsWith("cf."));
+  return {
+    minScore: params.minScore || "",
+    maxScore: params.maxScore || "",
+    ownerId: params.ownerId || "all",
+    industry: params.industry || "",
+    country: params.country || "",
+    tags: params.tags || "",
+    createdFrom: toDay(params.createdFrom),
+    createdTo: toDay(params.createdTo),
+    lastContactedFrom: toDay(params.lastContactedFrom),
+    lastContactedTo: toDay(params.lastContactedTo),
+    customFieldKey: customField ? customField.slice(3) : "",
+    customFieldValue: customField ? params[customField] : "",
+  };
+}
+
+const countActiveFilters = (filters: LeadFilters) =>
+  (Object.keys(emptyFilters) as Array<keyof LeadFilters>).filter(
+    (key) => key !== "customFieldValue" && filters[key] !== emptyFilters[key]
+  ).length;
+
 export default function Leads() {
   const [searchQuery, setSearchQuery] = useState("");
+  const [debouncedSearch, setDebouncedSearch] = useState("");
   const [statusFilter, setStatusFilter] = useState<LeadStatus | "all">("all");
+  const [sort, setSort] = useState(sortOptions[0].value);
+  const [filters, setFilters] = useState<LeadFilters>(emptyFilters);
+  const [columns, setColumns] = useState<string[]>([...savedViewColumns.lead]);
+  const [activeView, setActiveView] = useState<SavedView | null>(null);
   const [isFormOpen, setIsFormOpen] = useState(false);
   const [isImportOpen, setIsImportOpen] = useState(false);
 
-  const { data: leads, isLoading } = useQuery<Lead[]>({
-    queryKey: ["/api/leads"],
-  });
+  // Only query once typing pauses
+  useEffect(() => {
+    const timeout = setTimeout(() => setDebouncedSearch(searchQuery.trim()), 300);
+    return () => clearTimeout(timeout);
+  }, [searchQuery]);
 
-  const filteredLeads = leads?.filter((lead) => {
-    const matchesSearch =
-      lead.name.toLowerCase().includes(searchQuery.toLowerCase()) ||
-      lead.email.toLowerCase().includes(searchQuery.toLowerCase()) ||
-      lead.company?.toLowerCase().includes(searchQuery.toLowerCase());
+  const { data: users = [] } = useQuery<User[]>({ queryKey: ["/api/users"] });
 
-    const matchesFilter = statusFilter === "all" || lead.status === statusFilter;
+  const leadFilters = useMemo(
+    () => buildLeadFilters(debouncedSearch, statusFilter, filters),
+    [debouncedSearch, statusFilter, filters]
+  );
+  const params = useMemo(
+    () => new URLSearchParams({ ...leadFilters, limit: String(PAGE_SIZE), sort }).toString(),
+    [leadFilters, sort]
+  );
+
+  const applyView = useCallback((view: SavedView | null) => {
+    setActiveView(view);
+    const viewFilters = (view?.filters as Record<string, string> | undefined) || {};
+    setSearchQuery(viewFilters.q || "");
+    setDebouncedSearch(viewFilters.q || "");
+    setStatusFilter((viewFilters.status as LeadStatus) || "all");
+    setFilters(view ? parseLeadFilters(viewFilters) : emptyFilters);
+    setSort(view?.sort || sortOptions[0].value);
+    setColumns(view && view.columns.length > 0 ? view.columns : [...savedViewColumns.lead]);
+  }, []);
 
-    return matchesSearch && matchesFilter;
+  const show = (column: string) => columns.includes(column);
+  const toggleColumn = (column: string) =>
+    setColumns((current) =>
+      current.includes(column) ? current.filter((c) => c !== column) : [...current, column]
+    );
+
+  const {
+    data,
+    isLoading,
+    fetchNextPage,
+    hasNextPage,
+    isFetchingNextPage,
+  } = useInfiniteQuery({
+    // Stays under the "/api/leads" prefix so lead mutations refresh the list
+    queryKey: ["/api/leads", "search", params],
+    queryFn: async ({ pageParam }) => {
+      const query = pageParam ? `${params}&cursor=${encodeURIComponent(pageParam)}` : params;
+      const res = await apiRequest("GET", `/api/leads?${query}`);
+      return (await res.json()) as LeadPage<Lead>;
+    },
+    initialPageParam: null as string | null,
+    getNextPageParam: (lastPage) => lastPage.nextCursor,
   });
 
-  const statusCounts = {
-    all: leads?.length || 0,
-    hot: leads?.filter((l) => l.status === "hot").length || 0,
-    warm: leads?.filter((l) => l.status === "warm").length || 0,
-    cold: leads?.filter((l) => l.status === "cold").length || 0,
-  };
+  const leads = data?.pages.flatMap((page) => page.leads) || [];
+  const total = data?.pages[0]?.total ?? 0;
+  const activeFilterCount = countActiveFilters(filters);
+  const isFiltered = !!debouncedSearch || statusFilter !== "all" || activeFilterCount > 0;
+
+  const updateFilter = (key: keyof LeadFilters, value: string) =>
+    setFilters((current) => ({ ...current, [key]: value }));
 
   return (
     <div className="space-y-6">
@@ -67,6 +226,13 @@ export default function Leads() {
           </p>
         </div>
         <div className="flex items-center gap-2">
+          <Button variant="outline" asChild data-testid="button-lead-duplicates">
+            <Link href="/leads/duplicates">
+              <Copy className="h-4 w-4 mr-2" />
+              Duplicates
+            </Link>
+          </Button>
+          <ExportButton entity="leads" filters={{ ...leadFilters, sort }} />
           <Button variant="outline" onClick={() => setIsImportOpen(true)} data-testid="button-import-leads">
             <Download className="h-4 w-4 mr-2" />
             Import Leads
@@ -82,7 +248,7 @@ export default function Leads() {
         <div className="flex-1 min-w-[240px] max-w-md relative">
           <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground" />
           <Input
-            placeholder="Search leads..."
+            placeholder="Search name, email, company or position..."
             value={searchQuery}
             onChange={(e) => setSearchQuery(e.target.value)}
             className="pl-9"
@@ -102,28 +268,230 @@ export default function Leads() {
               onClick={() => setStatusFilter("all")}
               data-testid="filter-all"
             >
-              All Leads ({statusCounts.all})
+              All Leads
             </DropdownMenuItem>
             <DropdownMenuItem
               onClick={() => setStatusFilter("hot")}
               data-testid="filter-hot"
             >
-              Hot ({statusCounts.hot})
+              Hot
             </DropdownMenuItem>
             <DropdownMenuItem
               onClick={() => setStatusFilter("warm")}
               data-testid="filter-warm"
             >
-              Warm ({statusCounts.warm})
+              Warm
             </DropdownMenuItem>
             <DropdownMenuItem
               onClick={() => setStatusFilter("cold")}
               data-testid="filter-cold"
             >
-              Cold ({statusCounts.cold})
+              Cold
             </DropdownMenuItem>
           </DropdownMenuContent>
         </DropdownMenu>
+
+        <Popover>
+          <PopoverTrigger asChild>
+            <Button variant="outline" data-testid="button-more-filters">
+              <SlidersHorizontal className="h-4 w-4 mr-2" />
+              Filters
+              {activeFilterCount > 0 && (
+                <Badge variant="secondary" className="ml-2">{activeFilterCount}</Badge>
+              )}
+            </Button>
+          </PopoverTrigger>
+          <PopoverContent align="end" className="w-96 space-y-3">
+            <div className="grid grid-cols-2 gap-3">
+              <div className="space-y-1">
+                <Label htmlFor="filter-min-score">Min score</Label>
+                <Input
+                  id="filter-min-score"
+                  type="number"
+                  min={0}
+                  max={100}
+                  value={filters.minScore}
+                  onChange={(e) => updateFilter("minScore", e.target.value)}
+                  data-testid="input-filter-min-score"
+                />
+              </div>
+              <div className="space-y-1">
+                <Label htmlFor="filter-max-score">Max score</Label>
+                <Input
+                  id="filter-max-score"
+                  type="number"
+                  min={0}
+                  max={100}
+                  value={filters.maxScore}
+                  onChange={(e) => updateFilter("maxScore", e.target.value)}
+                  data-testid="input-filter-max-score"
+                />
+              </div>
+            </div>
+            <div className="space-y-1">
+              <Label>Owner</Label>
+              <Select value={filters.ownerId} onValueChange={(value) => updateFilter("ownerId", value)}>
+                <SelectTrigger data-testid="select-filter-owner">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">Any owner</SelectItem>
+                  {users.map((user) => (
+                    <SelectItem key={user.id} value={user.id}>{user.name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="grid grid-cols-2 gap-3">
+              <div className="space-y-1">
+                <Label htmlFor="filter-industry">Industry</Label>
+                <Input
+                  id="filter-industry"
+                  value={filters.industry}
+                  onChange={(e) => updateFilter("industry", e.target.value)}
+                  data-testid="input-filter-industry"
+                />
+              </div>
+              <div className="space-y-1">
+                <Label htmlFor="filter-country">Country</Label>
+                <Input
+                  id="filter-country"
+                  value={filters.country}
+                  onChange={(e) => updateFilter("country", e.target.value)}
+                  data-testid="input-filter-country"
+                />
+              </div>
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="filter-tags">Tags (comma-separated)</Label>
+              <Input
+                id="filter-tags"
+                value={filters.tags}
+                onChange={(e) => updateFilter("tags", e.target.value)}
+                data-testid="input-filter-tags"
+              />
+            </div>
+            <div className="grid grid-cols-2 gap-3">
+              <div className="space-y-1">
+                <Label htmlFor="filter-created-from">Created from</Label>
+                <Input
+                  id="filter-created-from"
+                  type="date"
+                  value={filters.createdFrom}
+                  onChange={(e) => updateFilter("createdFrom", e.target.value)}
+                  data-testid="input-filter-created-from"
+                />
+              </div>
+              <div className="space-y-1">
+                <Label htmlFor="filter-created-to">Created to</Label>
+                <Input
+                  id="filter-created-to"
+                  type="date"
+                  value={filters.createdTo}
+                  onChange={(e) => updateFilter("createdTo", e.target.value)}
+                  data-testid="input-filter-created-to"
+                />
+              </div>
+              <div className="space-y-1">
+                <Label htmlFor="filter-contacted-from">Contacted from</Label>
+                <Input
+                  id="filter-contacted-from"
+                  type="date"
+                  value={filters.lastContactedFrom}
+                  onChange={(e) => updateFilter("lastContactedFrom", e.target.value)}
+                  data-testid="input-filter-contacted-from"
+                />
+              </div>
+              <div className="space-y-1">
+                <Label htmlFor="filter-contacted-to">Contacted to</Label>
+                <Input
+                  id="filter-contacted-to"
+                  type="date"
+                  value={filters.lastContactedTo}
+                  onChange={(e) => updateFilter("lastContactedTo", e.target.value)}
+                  data-testid="input-filter-contacted-to"
+                />
+              </div>
+            </div>
+            <div className="grid grid-cols-2 gap-3">
+              <div className="space-y-1">
+                <Label htmlFor="filter-custom-key">Custom field</Label>
+                <Input
+                  id="filter-custom-key"
+                  placeholder="e.g. source"
+                  value={filters.customFieldKey}
+                  onChange={(e) => updateFilter("customFieldKey", e.target.value.replace(/[^A-Za-z0-9_]/g, ""))}
+                  data-testid="input-filter-custom-key"
+                />
+              </div>
+              <div className="space-y-1">
+                <Label htmlFor="filter-custom-value">Equals</Label>
+                <Input
+                  id="filter-custom-value"
+                  value={filters.customFieldValue}
+                  onChange={(e) => updateFilter("customFieldValue", e.target.value)}
+                  data-testid="input-filter-custom-value"
+                />
+              </div>
+            </div>
+            <Button
+              variant="ghost"
+              size="sm"
+              className="w-full"
+              onClick={() => setFilters(emptyFilters)}
+              disabled={activeFilterCount === 0}
+              data-testid="button-clear-filters"
+            >
+              <X className="h-4 w-4 mr-2" />
+              Clear filters
+            </Button>
+          </PopoverContent>
+        </Popover>
+
+        <Select value={sort} onValueChange={setSort}>
+          <SelectTrigger className="w-[220px]" data-testid="select-sort-leads">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {sortOptions.map((option) => (
+              <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+
+        <DropdownMenu>
+          <DropdownMenuTrigger asChild>
+            <Button variant="outline" data-testid="button-lead-columns">
+              <Columns3 className="h-4 w-4 mr-2" />
+              Fields
+            </Button>
+          </DropdownMenuTrigger>
+          <DropdownMenuContent align="end">
+            {savedViewColumns.lead.map((column) => (
+              <DropdownMenuCheckboxItem
+                key={column}
+                checked={show(column)}
+                onCheckedChange={() => toggleColumn(column)}
+                data-testid={`column-${column}`}
+              >
+                {leadColumnLabels[column]}
+              </DropdownMenuCheckboxItem>
+            ))}
+          </DropdownMenuContent>
+        </DropdownMenu>
+
+        <SavedViewsMenu
+          entityType="lead"
+          activeView={activeView}
+          current={{ filters: leadFilters, sort, columns }}
+          onApply={applyView}
+        />
+
+        {!isLoading && (
+          <span className="text-sm text-muted-foreground" data-testid="text-leads-total">
+            {leads.length} of {total} leads
+          </span>
+        )}
       </div>
 
       {isLoading ? (
@@ -144,7 +512,7 @@ export default function Leads() {
             </Card>
           ))}
         </div>
-      ) : filteredLeads?.length === 0 ? (
+      ) : leads.length === 0 ? (
         <Card className="p-12 bg-gradient-to-br from-blue-500/5 to-purple-500/5 dark:from-blue-500/10 dark:to-purple-500/10">
           <div className="text-center space-y-4">
             <div className="mx-auto w-16 h-16 rounded-full bg-gradient-to-br from-blue-500/20 to-purple-500/20 flex items-center justify-center">
@@ -153,12 +521,12 @@ export default function Leads() {
             <div>
               <h3 className="text-lg font-semibold">No leads found</h3>
               <p className="text-muted-foreground mt-1">
-                {searchQuery || statusFilter !== "all"
+                {isFiltered
                   ? "Try adjusting your search or filters"
                   : "Get started by adding your first lead"}
               </p>
             </div>
-            {!searchQuery && statusFilter === "all" && (
+            {!isFiltered && (
               <Button onClick={() => setIsFormOpen(true)} data-testid="button-add-first-lead">
                 <Plus className="h-4 w-4 mr-2" />
                 Add Your First Lead
@@ -168,7 +536,7 @@ export default function Leads() {
         </Card>
       ) : (
         <div className="grid gap-4 md:grid-cols-2 lg:grid-cols-3">
-          {filteredLeads?.map((lead) => (
+          {leads.map((lead) => (
             <Link href={`/leads/${lead.id}`} key={lead.id}>
               <Card
                 className="p-4 hover-elevate active-elevate-2 cursor-pointer h-full"
@@ -187,9 +555,11 @@ export default function Leads() {
                           <h3 className="font-semibold truncate" data-testid="text-lead-name">
                             {lead.name}
                           </h3>
-                          <p className="text-sm text-muted-foreground truncate">
-                            {lead.company}
-                          </p>
+                          {show("company") && (
+                            <p className="text-sm text-muted-foreground truncate">
+                              {lead.company}
+                            </p>
+                          )}
                         </div>
                         <LeadStatusBadge status={lead.status as LeadStatus} size="sm" />
                       </div>
@@ -197,23 +567,27 @@ export default function Leads() {
                   </div>
 
                   <div className="space-y-1">
-                    <p className="text-sm text-muted-foreground truncate">
-                      {lead.email}
-                    </p>
-                    {lead.phone && (
+                    {show("email") && (
+                      <p className="text-sm text-muted-foreground truncate">
+                        {lead.email}
+                      </p>
+                    )}
+                    {show("phone") && lead.phone && (
                       <p className="text-sm text-muted-foreground truncate">
                         {lead.phone}
                       </p>
                     )}
                   </div>
 
-                  <LeadScoreMeter
-                    score={lead.score}
-                    status={lead.status as LeadStatus}
-                    size="sm"
-                  />
+                  {show("score") && (
+                    <LeadScoreMeter
+                      score={lead.score}
+                      status={lead.status as LeadStatus}
+                      size="sm"
+                    />
+                  )}
 
-                  {lead.lastContactedAt && (
+                  {show("lastContactedAt") && lead.lastContactedAt && (
                     <p className="text-xs text-muted-foreground">
                       Last contact:{" "}
                       {new Date(lead.lastContactedAt).toLocaleDateString()}
@@ -226,6 +600,19 @@ export default function Leads() {
         </div>
       )}
 
+      {hasNextPage && (
+        <div className="flex justify-center">
+          <Button
+            variant="outline"
+            onClick={() => fetchNextPage()}
+            disabled={isFetchingNextPage}
+            data-testid="button-load-more-leads"
+          >
+            {isFetchingNextPage ? "Loading..." : "Load more"}
+          </Button>
+        </div>
+      )}
+
       <LeadFormDialog open={isFormOpen} onOpenChange={setIsFormOpen} />
       <ImportLeadsDialog open={isImportOpen} onOpenChange={setIsImportOpen} />
     </div>
@@ -233,7 +620,7 @@ export default function Leads() {
 }
 
 function ImportLeadsDialog({ open, onOpenChange }: { open: boolean; onOpenChange: (open: boolean) => void }) {
-  const [activeTab, setActiveTab] = useState("apollo");
+  const [activeTab, setActiveTab] = useState("file");
   const { toast } = useToast();
 
   return (
@@ -244,7 +631,10 @@ function ImportLeadsDialog({ open, onOpenChange }: { open: boolean; onOpenChange
         </DialogHeader>
 
         <Tabs value={activeTab} onValueChange={setActiveTab}>
-          <TabsList className="grid w-full grid-cols-2">
+          <TabsList className="grid w-full grid-cols-3">
+            <TabsTrigger value="file" data-testid="tab-file">
+              File (CSV / Excel)
+            </TabsTrigger>
             <TabsTrigger value="apollo" data-testid="tab-apollo">
               Apollo.io
             </TabsTrigger>
@@ -253,6 +643,10 @@ function ImportLeadsDialog({ open, onOpenChange }: { open: boolean; onOpenChange
             </TabsTrigger>
           </TabsList>
 
+          <TabsContent value="file" className="space-y-4">
+            <LeadFileImportTab />
+          </TabsContent>
+
           <TabsContent value="apollo" className="space-y-4">
             <ApolloImportTab onClose={() => onOpenChange(false)} />
           </TabsContent>
@@ -1,19 +1,27 @@
-import { useState } from "react";
+import { useCallback, useState } from "react";
 import { useQuery, useMutation } from "@tanstack/react-query";
 import { DndContext, DragEndEvent, DragOverlay, DragStartEvent, PointerSensor, useSensor, useSensors, useDroppable } from "@dnd-kit/core";
 import { SortableContext, verticalListSortingStrategy } from "@dnd-kit/sortable";
 import { Card, CardContent, CardHeader } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
-import { Plus, DollarSign, Calendar, User, Loader2 } from "lucide-react";
+import { Plus, Banknote, Calendar, User, Loader2, Columns3 } from "lucide-react";
+import { DropdownMenu, DropdownMenuCheckboxItem, DropdownMenuContent, DropdownMenuTrigger } from "@/components/ui/dropdown-menu";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
 import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
 import { Input } from "@/components/ui/input";
 import { Textarea } from "@/components/ui/textarea";
 import { queryClient, apiRequest } from "@/lib/queryClient";
-import type { Deal, Pipeline as PipelineType, PipelineStage, User as UserType, InsertDeal } from "@shared/schema";
+import type { Deal, Pipeline as PipelineType, PipelineStage, User as UserType, InsertDeal, SavedView } from "@shared/schema";
 import { insertDealSchema } from "@shared/schema";
+import { dealStatuses, savedViewColumns } from "@shared/saved-views";
+import { SavedViewsMenu } from "@/components/saved-views-menu";
+import { ExportButton } from "@/components/export-button";
+import { useCurrencyConverter } from "@/hooks/use-currency";
+import { convertDealAmount, formatMoney, sumDealValues } from "@shared/currency";
+import { isFieldHidden } from "@shared/roles";
+import { useAuth } from "@/contexts/AuthContext";
 import { useSortable } from "@dnd-kit/sortable";
 import { CSS } from "@dnd-kit/utilities";
 import { useToast } from "@/hooks/use-toast";
@@ -21,8 +29,18 @@ import { useLocation } from "wouter";
 import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
 
-function DealCard({ deal, stage }: { deal: Deal; stage: PipelineStage }) {
+const defaultDealColumns = [...savedViewColumns.deal];
+
+const dealColumnLabels: Record<string, string> = {
+  amount: "Amount",
+  probability: "Probability",
+  expectedCloseDate: "Expected close",
+  description: "Description",
+};
+
+function DealCard({ deal, stage, columns = defaultDealColumns }: { deal: Deal; stage: PipelineStage; columns?: string[] }) {
   const [, navigate] = useLocation();
+  const converter = useCurrencyConverter();
   const {
     attributes,
     listeners,
@@ -38,7 +56,10 @@ function DealCard({ deal, stage }: { deal: Deal; stage: PipelineStage }) {
     opacity: isDragging ? 0.5 : 1,
   };
 
-  const amountColor = deal.amount >= 100000 ? "text-success" : deal.amount >= 50000 ? "text-info" : "text-muted-foreground";
+  // Thresholds apply to the base-currency value so deals in different currencies are comparable
+  const convertedAmount = convertDealAmount(converter, deal);
+  const comparableAmount = convertedAmount ?? deal.amount;
+  const amountColor = comparableAmount >= 100000 ? "text-success" : comparableAmount >= 50000 ? "text-info" : "text-muted-foreground";
 
   const handleClick = (e: React.MouseEvent) => {
     if (!isDragging) {
@@ -56,17 +77,28 @@ function DealCard({ deal, stage }: { deal: Deal; stage: PipelineStage }) {
         <CardHeader className="p-4 space-y-2">
           <div className="flex items-start justify-between gap-2">
             <h3 className="font-semibold text-sm leading-tight" data-testid={`text-deal-name-${deal.id}`}>{deal.name}</h3>
-            <Badge variant="secondary" className="shrink-0" data-testid={`badge-probability-${deal.id}`}>
-              {deal.probability}%
-            </Badge>
-          </div>
-          <div className={`flex items-center gap-1 text-sm font-semibold ${amountColor}`}>
-            <DollarSign className="h-4 w-4" />
-            <span data-testid={`text-amount-${deal.id}`}>{deal.amount.toLocaleString()}</span>
+            {columns.includes("probability") && (
+              <Badge variant="secondary" className="shrink-0" data-testid={`badge-probability-${deal.id}`}>
+                {deal.probability}%
+              </Badge>
+            )}
           </div>
+          {columns.includes("amount") && (
+            <div className={`flex items-center gap-1 text-sm font-semibold ${amountColor}`}>
+              <Banknote className="h-4 w-4" />
+              <span data-testid={`text-amount-${deal.id}`}>{formatMoney(deal.amount, deal.currency)}</span>
+              {deal.currency !== converter.baseCurrency && (
+                <span className="text-xs font-normal text-muted-foreground" data-testid={`text-converted-amount-${deal.id}`}>
+                  {convertedAmount === null
+                    ? `(no ${deal.currency} rate)`
+                    : `≈ ${formatMoney(convertedAmount, converter.baseCurrency)}`}
+                </span>
+              )}
+            </div>
+          )}
         </CardHeader>
         <CardContent className="p-4 pt-0 space-y-2">
-          {deal.expectedCloseDate && (
+          {columns.includes("expectedCloseDate") && deal.expectedCloseDate && (
             <div className="flex items-center gap-1.5 text-xs text-muted-foreground">
               <Calendar className="h-3.5 w-3.5" />
               <span data-testid={`text-close-date-${deal.id}`}>
@@ -74,7 +106,7 @@ function DealCard({ deal, stage }: { deal: Deal; stage: PipelineStage }) {
               </span>
             </div>
           )}
-          {deal.description && (
+          {columns.includes("description") && deal.description && (
             <p className="text-xs text-muted-foreground line-clamp-2" data-testid={`text-description-${deal.id}`}>
               {deal.description}
             </p>
@@ -85,10 +117,12 @@ function DealCard({ deal, stage }: { deal: Deal; stage: PipelineStage }) {
   );
 }
 
-function StageColumn({ stage, deals, pipeline }: { stage: PipelineStage; deals: Deal[]; pipeline: PipelineType }) {
+function StageColumn({ stage, deals, pipeline, columns }: { stage: PipelineStage; deals: Deal[]; pipeline: PipelineType; columns: string[] }) {
   const stageDeals = deals.filter(d => d.stageId === stage.id);
-  const totalValue = stageDeals.reduce((sum, deal) => sum + deal.amount, 0);
-  const weightedValue = stageDeals.reduce((sum, deal) => sum + (deal.amount * (deal.probability || 0) / 100), 0);
+  const converter = useCurrencyConverter();
+  const { totalValue, weightedValue } = sumDealValues(stageDeals, converter);
+  const { user } = useAuth();
+  const amountHidden = isFieldHidden(user?.hiddenFields, "deals", "amount");
 
   const { setNodeRef, isOver } = useDroppable({
     id: stage.id,
@@ -108,10 +142,12 @@ function StageColumn({ stage, deals, pipeline }: { stage: PipelineStage; deals:
             <Badge variant="secondary" data-testid={`badge-deal-count-${stage.id}`}>{stageDeals.length}</Badge>
           </div>
         </div>
-        <div className="text-xs text-muted-foreground space-x-3">
-          <span data-testid={`text-total-value-${stage.id}`}>${totalValue.toLocaleString()} total</span>
-          <span data-testid={`text-weighted-value-${stage.id}`}>${Math.round(weightedValue).toLocaleString()} weighted</span>
-        </div>
+        {!amountHidden && (
+          <div className="text-xs text-muted-foreground space-x-3">
+            <span data-testid={`text-total-value-${stage.id}`}>{formatMoney(totalValue, converter.baseCurrency)} total</span>
+            <span data-testid={`text-weighted-value-${stage.id}`}>{formatMoney(weightedValue, converter.baseCurrency)} weighted</span>
+          </div>
+        )}
       </div>
 
       <SortableContext items={stageDeals.map(d => d.id)} strategy={verticalListSortingStrategy}>
@@ -122,7 +158,7 @@ function StageColumn({ stage, deals, pipeline }: { stage: PipelineStage; deals:
           }`}
         >
           {stageDeals.map(deal => (
-            <DealCard key={deal.id} deal={deal} stage={stage} />
+            <DealCard key={deal.id} deal={deal} stage={stage} columns={columns} />
           ))}
           {stageDeals.length === 0 && (
             <div className="flex items-center justify-center h-32 text-sm text-muted-foreground" data-testid={`empty-stage-${stage.id}`}>
@@ -138,6 +174,13 @@ function StageColumn({ stage, deals, pipeline }: { stage: PipelineStage; deals:
 export default function Pipeline() {
   const [selectedPipeline, setSelectedPipeline] = useState<string>("");
   const [selectedOwner, setSelectedOwner] = useState<string>("all");
+  const [selectedStatus, setSelectedStatus] = useState<string>("all");
+  const [columns, setColumns] = useState<string[]>(defaultDealColumns);
+  const { user } = useAuth();
+  // Fields the user's role cannot see come back as null; leave them off the cards and totals
+  const amountHidden = isFieldHidden(user?.hiddenFields, "deals", "amount");
+  const cardColumns = columns.filter((column) => !isFieldHidden(user?.hiddenFields, "deals", column));
+  const [activeView, setActiveView] = useState<SavedView | null>(null);
   const [activeId, setActiveId] = useState<string | null>(null);
   const [isNewDealOpen, setIsNewDealOpen] = useState(false);
   const { toast } = useToast();
@@ -167,17 +210,27 @@ export default function Pipeline() {
     enabled: !!currentPipelineId,
   });
 
+  // Board filters as /api/deals query parameters; also what a saved view stores
+  const dealFilters: Record<string, string> = {};
+  if (currentPipelineId) dealFilters.pipelineId = currentPipelineId;
+  if (selectedOwner !== "all") dealFilters.ownerId = selectedOwner;
+  if (selectedStatus !== "all") dealFilters.status = selectedStatus;
+
   // Build query URL with params
   const buildDealsQueryKey = () => {
     if (!currentPipelineId) return ["/api/deals"];
-    const params = new URLSearchParams();
-    params.set("pipelineId", currentPipelineId);
-    if (selectedOwner !== "all") {
-      params.set("ownerId", selectedOwner);
-    }
-    return [`/api/deals?${params.toString()}`];
+    return [`/api/deals?${new URLSearchParams(dealFilters).toString()}`];
   };
 
+  const applyView = useCallback((view: SavedView | null) => {
+    setActiveView(view);
+    const viewFilters = (view?.filters as Record<string, string> | undefined) || {};
+    setSelectedPipeline(viewFilters.pipelineId || "");
+    setSelectedOwner(viewFilters.ownerId || "all");
+    setSelectedStatus(viewFilters.status || "all");
+    setColumns(view && view.columns.length > 0 ? view.columns : defaultDealColumns);
+  }, []);
+
   const { data: allDeals = [] } = useQuery<Deal[]>({
     queryKey: buildDealsQueryKey(),
     enabled: !!currentPipelineId,
@@ -253,8 +306,12 @@ export default function Pipeline() {
   const activeStage = stages.find(s => s.id === activeDeal?.stageId);
   const currentPipeline = pipelines.find(p => p.id === currentPipelineId);
 
-  const totalPipelineValue = allDeals.reduce((sum, deal) => sum + deal.amount, 0);
-  const weightedPipelineValue = allDeals.reduce((sum, deal) => sum + (deal.amount * (deal.probability || 0) / 100), 0);
+  const converter = useCurrencyConverter();
+  const {
+    totalValue: totalPipelineValue,
+    weightedValue: weightedPipelineValue,
+    unconvertedCount,
+  } = sumDealValues(allDeals, converter);
 
   return (
     <div className="flex flex-col h-full p-4 md:p-6 lg:p-8">
@@ -301,33 +358,86 @@ export default function Pipeline() {
             </SelectContent>
           </Select>
 
-          <div className="flex items-center gap-4 ml-auto">
-            <div className="text-sm">
-              <span className="text-muted-foreground">Total Value: </span>
-              <span className="font-semibold" data-testid="text-total-pipeline-value">
-                ${totalPipelineValue.toLocaleString()}
-              </span>
-            </div>
-            <div className="text-sm">
-              <span className="text-muted-foreground">Weighted: </span>
-              <span className="font-semibold" data-testid="text-weighted-pipeline-value">
-                ${Math.round(weightedPipelineValue).toLocaleString()}
-              </span>
+          <Select value={selectedStatus} onValueChange={setSelectedStatus}>
+            <SelectTrigger className="w-[160px]" data-testid="select-deal-status">
+              <SelectValue placeholder="Filter by status" />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all">All Statuses</SelectItem>
+              {dealStatuses.map(status => (
+                <SelectItem key={status} value={status} className="capitalize">{status}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+
+          <DropdownMenu>
+            <DropdownMenuTrigger asChild>
+              <Button variant="outline" data-testid="button-deal-columns">
+                <Columns3 className="h-4 w-4 mr-2" />
+                Fields
+              </Button>
+            </DropdownMenuTrigger>
+            <DropdownMenuContent align="start">
+              {defaultDealColumns.map(column => (
+                <DropdownMenuCheckboxItem
+                  key={column}
+                  checked={columns.includes(column)}
+                  onCheckedChange={() =>
+                    setColumns(current =>
+                      current.includes(column) ? current.filter(c => c !== column) : [...current, column]
+                    )
+                  }
+                  data-testid={`column-${column}`}
+                >
+                  {dealColumnLabels[column]}
+                </DropdownMenuCheckboxItem>
+              ))}
+            </DropdownMenuContent>
+          </DropdownMenu>
+
+          <SavedViewsMenu
+            entityType="deal"
+            activeView={activeView}
+            current={{ filters: dealFilters, sort: null, columns }}
+            onApply={applyView}
+          />
+
+          <ExportButton entity="deals" filters={dealFilters} />
+
+          {!amountHidden && (
+            <div className="flex items-center gap-4 ml-auto">
+              <div className="text-sm">
+                <span className="text-muted-foreground">Total Value: </span>
+                <span className="font-semibold" data-testid="text-total-pipeline-value">
+                  {formatMoney(totalPipelineValue, converter.baseCurrency)}
+                </span>
+              </div>
+              <div className="text-sm">
+                <span className="text-muted-foreground">Weighted: </span>
+                <span className="font-semibold" data-testid="text-weighted-pipeline-value">
+                  {formatMoney(weightedPipelineValue, converter.baseCurrency)}
+                </span>
+              </div>
+              {unconvertedCount > 0 && (
+                <div className="text-xs text-muted-foreground" data-testid="text-unconverted-deals">
+                  {unconvertedCount} deal{unconvertedCount === 1 ? "" : "s"} excluded (no exchange rate)
+                </div>
+              )}
             </div>
-          </div>
+          )}
         </div>
       </div>
 
       <DndContext sensors={sensors} onDragStart={handleDragStart} onDragEnd={handleDragEnd}>
         <div className="flex gap-4 overflow-x-auto pb-4">
           {currentPipeline && stages.map(stage => (
-            <StageColumn key={stage.id} stage={stage} deals={allDeals} pipeline={currentPipeline} />
+            <StageColumn key={stage.id} stage={stage} deals={allDeals} pipeline={currentPipeline} columns={cardColumns} />
           ))}
         </div>
 
         <DragOverlay>
           {activeId && activeDeal && activeStage ? (
-            <DealCard deal={activeDeal} stage={activeStage} />
+            <DealCard deal={activeDeal} stage={activeStage} columns={cardColumns} />
           ) : null}
         </DragOverlay>
       </DndContext>
@@ -359,6 +469,7 @@ function NewDealDialog({
   const { toast } = useToast();
   const [, navigate] = useLocation();
   const firstStage = stages[0];
+  const { baseCurrency } = useCurrencyConverter();
 
   const form = useForm<InsertDeal>({
     resolver: zodResolver(insertDealSchema),
@@ -367,6 +478,7 @@ function NewDealDialog({
       pipelineId: pipeline?.id || "",
       stageId: firstStage?.id || "",
       amount: 0,
+      currency: baseCurrency,
       probability: 10,
       expectedCloseDate: new Date(Date.now() + 30 * 24 * 60 * 60 * 1000),
       ownerId: users[0]?.id || "",
@@ -443,13 +555,13 @@ function NewDealDialog({
               )}
             />
 
-            <div className="grid grid-cols-2 gap-4">
+            <div className="grid grid-cols-3 gap-4">
               <FormField
                 control={form.control}
                 name="amount"
                 render={({ field }) => (
                   <FormItem>
-                    <FormLabel>Amount ($)</FormLabel>
+                    <FormLabel>Amount</FormLabel>
                     <FormControl>
                       <Input
                         type="number"
@@ -463,6 +575,25 @@ function NewDealDialog({
                 )}
               />
 
+              <FormField
+                control={form.control}
+                name="currency"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Currency</FormLabel>
+                    <FormControl>
+                      <Input
+                        maxLength={3}
+                        {...field}
+                        onChange={(e) => field.onChange(e.target.value.toUpperCase())}
+                        data-testid="input-new-deal-currency"
+                      />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
               <FormField
                 control={form.control}
                 name="probability"
@@ -0,0 +1,334 @@
+import { useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { addMonths, format } from "date-fns";
+import { ChevronLeft, ChevronRight, Plus, Target, Trophy, Users } from "lucide-react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Progress } from "@/components/ui/progress";
+import { Dialog, DialogContent, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { useAuth } from "@/contexts/AuthContext";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { formatMoney } from "@shared/currency";
+import {
+  quotaMetricLabels,
+  quotaMetrics,
+  type AttainmentReport,
+  type AttainmentRow,
+  type QuotaMetric,
+  type QuotaPeriodType,
+  type QuotaProgress,
+  type QuotaScope,
+} from "@shared/quotas";
+
+const invalidateAttainment = () =>
+  queryClient.invalidateQueries({ predicate: (query) => String(query.queryKey[0]).startsWith("/api/quotas/attainment") });
+
+function ProgressCell({ progress, currency }: { progress: QuotaProgress; currency: string }) {
+  const display = (value: number) => (progress.metric === "revenue" ? formatMoney(value, currency) : value.toLocaleString());
+
+  return (
+    <div className="space-y-1 min-w-[140px]">
+      <div className="flex items-center justify-between text-sm">
+        <span className="font-medium tabular-nums">{display(progress.actual)}</span>
+        {progress.target !== null && (
+          <span className="text-xs text-muted-foreground tabular-nums">of {display(progress.target)}</span>
+        )}
+      </div>
+      {progress.attainment !== null && (
+        <div className="flex items-center gap-2">
+          <Progress value={Math.min(progress.attainment, 100)} className="h-1.5" />
+          <span className={`text-xs tabular-nums ${progress.attainment >= 100 ? "text-success" : "text-muted-foreground"}`}>
+            {progress.attainment}%
+          </span>
+        </div>
+      )}
+    </div>
+  );
+}
+
+function AttainmentTable({ rows, report, scope, ranked }: {
+  rows: AttainmentRow[];
+  report: AttainmentReport;
+  scope: QuotaScope;
+  ranked: boolean;
+}) {
+  return (
+    <Table>
+      <TableHeader>
+        <TableRow>
+          {ranked && <TableHead className="w-12">#</TableHead>}
+          <TableHead>{scope === "team" ? "Team" : "Name"}</TableHead>
+          {quotaMetrics.map((metric) => (
+            <TableHead key={metric}>{quotaMetricLabels[metric]}</TableHead>
+          ))}
+        </TableRow>
+      </TableHeader>
+      <TableBody>
+        {rows.map((row, index) => {
+          const progress = scope === "team" ? row.team! : row.individual;
+          return (
+            <TableRow key={row.user.id} data-testid={`row-attainment-${scope}-${row.user.id}`}>
+              {ranked && <TableCell className="font-semibold tabular-nums">{index + 1}</TableCell>}
+              <TableCell>
+                <div className="font-medium">{row.user.name}</div>
+                {scope === "team" && (
+                  <div className="text-xs text-muted-foreground">{row.teamSize} reporting</div>
+                )}
+              </TableCell>
+              {progress.map((entry) => (
+                <TableCell key={entry.metric}>
+                  <ProgressCell progress={entry} currency={report.baseCurrency} />
+                </TableCell>
+              ))}
+            </TableRow>
+          );
+        })}
+      </TableBody>
+    </Table>
+  );
+}
+
+export default function Quotas() {
+  const { user } = useAuth();
+  const [periodType, setPeriodType] = useState<QuotaPeriodType>("month");
+  const [date, setDate] = useState(() => new Date());
+  const [setQuotaOpen, setSetQuotaOpen] = useState(false);
+  const canManage = user?.role === "admin" || user?.role === "manager";
+
+  // Mid-month so the server lands in the same period whatever its time zone
+  const periodDate = format(date, "yyyy-MM-15");
+  const { data: report, isLoading } = useQuery<AttainmentReport>({
+    queryKey: [`/api/quotas/attainment?periodType=${periodType}&date=${periodDate}`],
+  });
+
+  const step = periodType === "quarter" ? 3 : 1;
+  const teamRows = report?.rows.filter((row) => row.team) || [];
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between gap-4 flex-wrap">
+        <div>
+          <h1 className="text-3xl font-bold tracking-tight">Quotas</h1>
+          <p className="text-muted-foreground mt-1">
+            Targets and attainment for {report?.label || "this period"}
+          </p>
+        </div>
+        <div className="flex items-center gap-2">
+          <Select value={periodType} onValueChange={(value) => setPeriodType(value as QuotaPeriodType)}>
+            <SelectTrigger className="w-[130px]" data-testid="select-quota-period-type">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="month">Monthly</SelectItem>
+              <SelectItem value="quarter">Quarterly</SelectItem>
+            </SelectContent>
+          </Select>
+          <Button variant="outline" size="icon" onClick={() => setDate(addMonths(date, -step))} data-testid="button-previous-period">
+            <ChevronLeft className="h-4 w-4" />
+          </Button>
+          <span className="text-sm font-medium w-24 text-center" data-testid="text-period-label">{report?.label}</span>
+          <Button variant="outline" size="icon" onClick={() => setDate(addMonths(date, step))} data-testid="button-next-period">
+            <ChevronRight className="h-4 w-4" />
+          </Button>
+          {canManage && (
+            <Button onClick={() => setSetQuotaOpen(true)} data-testid="button-set-quota">
+              <Plus className="h-4 w-4 mr-2" />
+              Set Quota
+            </Button>
+          )}
+        </div>
+      </div>
+
+      {report && report.unconvertedDeals > 0 && (
+        <p className="text-sm text-muted-foreground">
+          {report.unconvertedDeals} won deal{report.unconvertedDeals === 1 ? "" : "s"} not counted towards revenue (no exchange rate to {report.baseCurrency})
+        </p>
+      )}
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <Trophy className="h-5 w-5" />
+            Leaderboard
+          </CardTitle>
+          <CardDescription className="mt-1">Revenue from deals won this period, with deals won and completed tasks</CardDescription>
+        </CardHeader>
+        <CardContent>
+          {isLoading || !report ? (
+            <div className="text-center py-8 text-muted-foreground">Loading attainment...</div>
+          ) : (
+            <AttainmentTable rows={report.rows} report={report} scope="individual" ranked />
+          )}
+        </CardContent>
+      </Card>
+
+      {report && teamRows.length > 0 && (
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <Users className="h-5 w-5" />
+              Team Roll-ups
+            </CardTitle>
+            <CardDescription className="mt-1">Each manager together with everyone in their reporting line</CardDescription>
+          </CardHeader>
+          <CardContent>
+            <AttainmentTable rows={teamRows} report={report} scope="team" ranked={false} />
+          </CardContent>
+        </Card>
+      )}
+
+      {setQuotaOpen && report && (
+        <SetQuotaDialog
+          report={report}
+          periodDate={periodDate}
+          onClose={() => setSetQuotaOpen(false)}
+        />
+      )}
+    </div>
+  );
+}
+
+function SetQuotaDialog({ report, periodDate, onClose }: {
+  report: AttainmentReport;
+  periodDate: string;
+  onClose: () => void;
+}) {
+  const { toast } = useToast();
+  const { user } = useAuth();
+  // Managers set quotas for their reporting line; admins for anyone
+  const candidates = report.rows.filter((row) => user?.role === "admin" || row.user.id !== user?.id);
+  const [userId, setUserId] = useState(candidates[0]?.user.id || "");
+  const [scope, setScope] = useState<QuotaScope>("individual");
+  const [metric, setMetric] = useState<QuotaMetric>("revenue");
+  const [target, setTarget] = useState("");
+
+  const selected = candidates.find((row) => row.user.id === userId);
+  const existing = selected && (scope === "team" ? selected.team : selected.individual)?.find((p) => p.metric === metric);
+
+  const saveMutation = useMutation({
+    mutationFn: async () =>
+      apiRequest("PUT", "/api/quotas", {
+        userId,
+        scope,
+        metric,
+        periodType: report.periodType,
+        periodStart: periodDate,
+        target: parseInt(target, 10),
+      }),
+    onSuccess: () => {
+      invalidateAttainment();
+      toast({ title: "Quota saved" });
+      onClose();
+    },
+    onError: (error: Error) => {
+      toast({ title: "Failed to save quota", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const removeMutation = useMutation({
+    mutationFn: async (id: string) => apiRequest("DELETE", `/api/quotas/${id}`),
+    onSuccess: () => {
+      invalidateAttainment();
+      toast({ title: "Quota removed" });
+      onClose();
+    },
+    onError: (error: Error) => {
+      toast({ title: "Failed to remove quota", description: error.message, variant: "destructive" });
+    },
+  });
+
+  return (
+    <Dialog open onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="max-w-md">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Target className="h-5 w-5" />
+            Set Quota for {report.label}
+          </DialogTitle>
+        </DialogHeader>
+        <div className="space-y-3">
+          <div className="space-y-1">
+            <Label>Person</Label>
+            <Select value={userId} onValueChange={(value) => { setUserId(value); setScope("individual"); }}>
+              <SelectTrigger data-testid="select-quota-user">
+                <SelectValue placeholder="Choose a person" />
+              </SelectTrigger>
+              <SelectContent>
+                {candidates.map((row) => (
+                  <SelectItem key={row.user.id} value={row.user.id}>{row.user.name}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="grid grid-cols-2 gap-3">
+            <div className="space-y-1">
+              <Label>Scope</Label>
+              <Select value={scope} onValueChange={(value) => setScope(value as QuotaScope)}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="individual">Individual</SelectItem>
+                  {selected?.team && <SelectItem value="team">Team</SelectItem>}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-1">
+              <Label>Metric</Label>
+              <Select value={metric} onValueChange={(value) => setMetric(value as QuotaMetric)}>
+                <SelectTrigger data-testid="select-quota-metric">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {quotaMetrics.map((value) => (
+                    <SelectItem key={value} value={value}>{quotaMetricLabels[value]}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="quota-target">
+              Target{metric === "revenue" ? ` (${report.baseCurrency})` : ""}
+            </Label>
+            <Input
+              id="quota-target"
+              type="number"
+              min={0}
+              placeholder={existing?.target !== null && existing?.target !== undefined ? String(existing.target) : ""}
+              value={target}
+              onChange={(e) => setTarget(e.target.value)}
+              data-testid="input-quota-target"
+            />
+            {existing?.target !== null && existing?.target !== undefined && (
+              <p className="text-xs text-muted-foreground">
+                Current target: {existing.target.toLocaleString()} <Badge variant="outline" className="ml-1">{existing.attainment}%</Badge>
+              </p>
+            )}
+          </div>
+        </div>
+        <DialogFooter>
+          {existing?.quotaId && (
+            <Button variant="outline" onClick={() => removeMutation.mutate(existing.quotaId!)} disabled={removeMutation.isPending}>
+              Remove
+            </Button>
+          )}
+          <Button variant="outline" onClick={onClose}>Cancel</Button>
+          <Button
+            onClick={() => saveMutation.mutate()}
+            disabled={!userId || !(parseInt(target, 10) >= 0) || saveMutation.isPending}
+            data-testid="button-save-quota"
+          >
+            {saveMutation.isPending ? "Saving..." : "Save"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
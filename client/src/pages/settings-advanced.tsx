@@ -1,4 +1,4 @@
-import { useState } from "react";
+import { useEffect, useState } from "react";
 import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
@@ -6,10 +6,22 @@ import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Separator } from "@/components/ui/separator";
 import { Slider } from "@/components/ui/slider";
+import { Progress } from "@/components/ui/progress";
 import { useToast } from "@/hooks/use-toast";
-import { Settings, Save, Sliders } from "lucide-react";
+import { apiRequest } from "@/lib/queryClient";
+import { Settings, Save, Sliders, RefreshCw } from "lucide-react";
 import type { ScoringConfig } from "@shared/schema";
 
+interface RescoreRun {
+  id: string;
+  status: "running" | "completed" | "failed";
+  total: number;
+  processed: number;
+  changed: number;
+  skipped: number;
+  failed: number;
+}
+
 export default function SettingsAdvanced() {
   const { toast } = useToast();
   const queryClient = useQueryClient();
@@ -22,6 +34,57 @@ export default function SettingsAdvanced() {
   const [engagementWeight, setEngagementWeight] = useState(config?.engagementWeight || 25);
   const [responseTimeWeight, setResponseTimeWeight] = useState(config?.responseTimeWeight || 25);
   const [intentWeight, setIntentWeight] = useState(config?.intentWeight || 25);
+  const [rescoreRunId, setRescoreRunId] = useState<string | null>(null);
+
+  // Sync sliders once the saved configuration has loaded
+  useEffect(() => {
+    if (config) {
+      setSentimentWeight(config.sentimentWeight);
+      setEngagementWeight(config.engagementWeight);
+      setResponseTimeWeight(config.responseTimeWeight);
+      setIntentWeight(config.intentWeight);
+    }
+  }, [config]);
+
+  const { data: rescoreRun } = useQuery<RescoreRun>({
+    queryKey: ["/api/scoring-config/rescore", rescoreRunId],
+    enabled: !!rescoreRunId,
+    refetchInterval: (query) => (query.state.data?.status === "running" ? 1000 : false),
+    staleTime: 0,
+  });
+
+  const rescoreMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", "/api/scoring-config/rescore");
+      return response.json() as Promise<RescoreRun>;
+    },
+    onSuccess: (run) => {
+      setRescoreRunId(run.id);
+      toast({
+        title: "Rescoring started",
+        description: "All leads are being rescored with the current weights",
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Failed to start rescoring",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  useEffect(() => {
+    if (rescoreRun?.status === "completed") {
+      queryClient.invalidateQueries({ queryKey: ["/api/leads"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/stats"] });
+    }
+  }, [rescoreRun?.status, queryClient]);
+
+  const isRescoring = rescoreMutation.isPending || rescoreRun?.status === "running";
+  const rescorePercent = rescoreRun && rescoreRun.total > 0
+    ? Math.round((rescoreRun.processed / rescoreRun.total) * 100)
+    : 0;
 
   const updateConfigMutation = useMutation({
     mutationFn: async () => {
@@ -171,6 +234,39 @@ export default function SettingsAdvanced() {
               {updateConfigMutation.isPending ? "Saving..." : "Save Changes"}
             </Button>
           </div>
+
+          <div className="space-y-3 pt-4 border-t">
+            <div className="flex items-center justify-between gap-4">
+              <div>
+                <p className="text-sm font-medium">Rescore all leads</p>
+                <p className="text-xs text-muted-foreground">
+                  Apply the saved weights to every existing lead
+                </p>
+              </div>
+              <Button
+                variant="outline"
+                onClick={() => rescoreMutation.mutate()}
+                disabled={isRescoring}
+                data-testid="button-rescore-leads"
+              >
+                <RefreshCw className={`h-4 w-4 mr-2 ${isRescoring ? "animate-spin" : ""}`} />
+                {isRescoring ? "Rescoring..." : "Rescore Leads"}
+              </Button>
+            </div>
+            {rescoreRun && (
+              <div className="space-y-2" data-testid="rescore-progress">
+                <Progress value={rescorePercent} />
+                <p className="text-xs text-muted-foreground tabular-nums">
+                  {rescoreRun.processed} of {rescoreRun.total} leads processed
+                  {" · "}{rescoreRun.changed} changed
+                  {rescoreRun.skipped > 0 && ` · ${rescoreRun.skipped} not yet analysed`}
+                  {rescoreRun.failed > 0 && ` · ${rescoreRun.failed} failed`}
+                  {rescoreRun.status === "completed" && " · done"}
+                  {rescoreRun.status === "failed" && " · run failed"}
+                </p>
+              </div>
+            )}
+          </div>
         </CardContent>
       </Card>
 
@@ -0,0 +1,212 @@
+import { useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { format } from "date-fns";
+import { Coins, Plus, Trash2 } from "lucide-react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { useAuth } from "@/contexts/AuthContext";
+import { useToast } from "@/hooks/use-toast";
+import type { CurrencyConfig } from "@/hooks/use-currency";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+
+const today = () => format(new Date(), "yyyy-MM-dd");
+
+// Everything that reports converted amounts depends on the base currency and rates
+const invalidateCurrency = () => {
+  queryClient.invalidateQueries({ queryKey: ["/api/currency"] });
+  queryClient.invalidateQueries({ queryKey: ["/api/forecast"] });
+};
+
+export default function SettingsCurrency() {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const canManage = user?.role === "admin";
+
+  const { data: config, isLoading } = useQuery<CurrencyConfig>({ queryKey: ["/api/currency"] });
+  const [baseCurrency, setBaseCurrency] = useState<string | null>(null);
+  const [rate, setRate] = useState({ currency: "", rate: "", effectiveDate: today() });
+
+  const baseMutation = useMutation({
+    mutationFn: async (code: string) => apiRequest("PATCH", "/api/currency/settings", { baseCurrency: code }),
+    onSuccess: () => {
+      invalidateCurrency();
+      setBaseCurrency(null);
+      toast({ title: "Base currency updated" });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Failed to update base currency", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const addRateMutation = useMutation({
+    mutationFn: async () =>
+      apiRequest("POST", "/api/currency/rates", {
+        currency: rate.currency,
+        quoteCurrency: config?.baseCurrency,
+        rate: parseFloat(rate.rate),
+        effectiveDate: rate.effectiveDate,
+      }),
+    onSuccess: () => {
+      invalidateCurrency();
+      setRate({ currency: "", rate: "", effectiveDate: today() });
+      toast({ title: "Exchange rate added" });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Failed to add exchange rate", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const deleteRateMutation = useMutation({
+    mutationFn: async (id: string) => apiRequest("DELETE", `/api/currency/rates/${id}`),
+    onSuccess: invalidateCurrency,
+    onError: (error: Error) => {
+      toast({ title: "Failed to delete exchange rate", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const currentBase = config?.baseCurrency || "USD";
+  const rates = config?.rates || [];
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h1 className="text-3xl font-bold tracking-tight">Currencies</h1>
+        <p className="text-muted-foreground mt-1">
+          Forecasts and pipeline totals are converted into the base currency
+        </p>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <Coins className="h-5 w-5" />
+            Base Currency
+          </CardTitle>
+          <CardDescription className="mt-1">
+            Changing it keeps existing rates; rates quoted against the old base are used inverted where possible
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <div className="flex items-end gap-3">
+            <div className="space-y-1">
+              <Label htmlFor="base-currency">Currency</Label>
+              <Input
+                id="base-currency"
+                className="w-28"
+                maxLength={3}
+                value={baseCurrency ?? currentBase}
+                onChange={(e) => setBaseCurrency(e.target.value.toUpperCase())}
+                disabled={!canManage}
+                data-testid="input-base-currency"
+              />
+            </div>
+            {canManage && (
+              <Button
+                onClick={() => baseMutation.mutate(baseCurrency!)}
+                disabled={!baseCurrency || baseCurrency === currentBase || baseMutation.isPending}
+                data-testid="button-save-base-currency"
+              >
+                Save
+              </Button>
+            )}
+          </div>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Exchange Rates</CardTitle>
+          <CardDescription className="mt-1">
+            Open deals use the latest rate; won and lost deals use the rate in effect on their close date
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {canManage && (
+            <div className="flex items-end gap-3 flex-wrap">
+              <div className="space-y-1">
+                <Label htmlFor="rate-currency">1 unit of</Label>
+                <Input
+                  id="rate-currency"
+                  className="w-24"
+                  maxLength={3}
+                  placeholder="EUR"
+                  value={rate.currency}
+                  onChange={(e) => setRate({ ...rate, currency: e.target.value.toUpperCase() })}
+                  data-testid="input-rate-currency"
+                />
+              </div>
+              <div className="space-y-1">
+                <Label htmlFor="rate-value">= {currentBase}</Label>
+                <Input
+                  id="rate-value"
+                  className="w-32"
+                  type="number"
+                  step="any"
+                  min={0}
+                  value={rate.rate}
+                  onChange={(e) => setRate({ ...rate, rate: e.target.value })}
+                  data-testid="input-rate-value"
+                />
+              </div>
+              <div className="space-y-1">
+                <Label htmlFor="rate-date">Effective from</Label>
+                <Input
+                  id="rate-date"
+                  type="date"
+                  value={rate.effectiveDate}
+                  onChange={(e) => setRate({ ...rate, effectiveDate: e.target.value })}
+                />
+              </div>
+              <Button
+                onClick={() => addRateMutation.mutate()}
+                disabled={rate.currency.length !== 3 || !(parseFloat(rate.rate) > 0) || addRateMutation.isPending}
+                data-testid="button-add-rate"
+              >
+                <Plus className="h-4 w-4 mr-2" />
+                Add Rate
+              </Button>
+            </div>
+          )}
+
+          {isLoading ? (
+            <div className="text-center py-8 text-muted-foreground">Loading exchange rates...</div>
+          ) : rates.length === 0 ? (
+            <div className="text-center py-8 text-muted-foreground" data-testid="empty-rates">
+              No exchange rates yet. Deals in other currencies are left out of totals until a rate is added.
+            </div>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Pair</TableHead>
+                  <TableHead className="text-right">Rate</TableHead>
+                  <TableHead>Effective from</TableHead>
+                  {canManage && <TableHead className="w-12" />}
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {rates.map((row) => (
+                  <TableRow key={row.id} data-testid={`row-rate-${row.id}`}>
+                    <TableCell className="font-medium">{row.currency} → {row.quoteCurrency}</TableCell>
+                    <TableCell className="text-right tabular-nums">{row.rate}</TableCell>
+                    <TableCell>{format(new Date(row.effectiveDate), "MMM dd, yyyy")}</TableCell>
+                    {canManage && (
+                      <TableCell>
+                        <Button variant="ghost" size="icon" onClick={() => deleteRateMutation.mutate(row.id)}>
+                          <Trash2 className="h-4 w-4" />
+                        </Button>
+                      </TableCell>
+                    )}
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,203 @@
+import { useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import { formatDistanceToNow } from "date-fns";
+import { ListChecks, RotateCcw } from "lucide-react";
+import type { Job } from "@shared/schema";
+
+interface JobStats {
+  totals: Record<string, number>;
+  byType: Array<{ type: string; status: string; count: number }>;
+}
+
+const statusStyles: Record<string, string> = {
+  pending: "bg-muted text-muted-foreground",
+  running: "bg-info/10 text-info border-info/20",
+  completed: "bg-success/10 text-success border-success/20",
+  dead: "bg-destructive/10 text-destructive border-destructive/20",
+};
+
+export default function SettingsJobs() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [status, setStatus] = useState("all");
+  const [type, setType] = useState("all");
+
+  const params = new URLSearchParams();
+  if (status !== "all") params.set("status", status);
+  if (type !== "all") params.set("type", type);
+  const query = params.toString();
+
+  const { data: stats } = useQuery<JobStats>({
+    queryKey: ["/api/jobs/stats"],
+    refetchInterval: 5000,
+    staleTime: 0,
+  });
+
+  const { data: jobs = [], isLoading } = useQuery<Job[]>({
+    queryKey: [`/api/jobs${query ? `?${query}` : ""}`],
+    refetchInterval: 5000,
+    staleTime: 0,
+  });
+
+  const jobTypes = Array.from(new Set((stats?.byType || []).map((row) => row.type))).sort();
+
+  const retryMutation = useMutation({
+    mutationFn: async (id: string) => {
+      const response = await apiRequest("POST", `/api/jobs/${id}/retry`);
+      return response.json() as Promise<Job>;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({
+        predicate: (q) => String(q.queryKey[0]).startsWith("/api/jobs"),
+      });
+      toast({
+        title: "Job re-queued",
+        description: "The job will run again shortly",
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Retry failed",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h1 className="text-3xl font-bold tracking-tight">Background Jobs</h1>
+        <p className="text-muted-foreground mt-1">
+          Scoring, enrichment, sync and automation work running in the background
+        </p>
+      </div>
+
+      <div className="grid gap-4 grid-cols-2 md:grid-cols-4">
+        {(["pending", "running", "completed", "dead"] as const).map((key) => (
+          <Card key={key}>
+            <CardHeader className="pb-2">
+              <CardDescription className="capitalize">{key}</CardDescription>
+              <CardTitle className="text-2xl tabular-nums" data-testid={`text-jobs-${key}`}>
+                {stats?.totals[key] ?? 0}
+              </CardTitle>
+            </CardHeader>
+          </Card>
+        ))}
+      </div>
+
+      <Card>
+        <CardHeader>
+          <div className="flex flex-wrap items-center justify-between gap-4">
+            <div className="flex items-center gap-2">
+              <ListChecks className="h-5 w-5" />
+              <CardTitle>Jobs</CardTitle>
+            </div>
+            <div className="flex gap-2">
+              <Select value={status} onValueChange={setStatus}>
+                <SelectTrigger className="w-36" data-testid="select-job-status">
+                  <SelectValue placeholder="Status" />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">All statuses</SelectItem>
+                  <SelectItem value="pending">Pending</SelectItem>
+                  <SelectItem value="running">Running</SelectItem>
+                  <SelectItem value="completed">Completed</SelectItem>
+                  <SelectItem value="dead">Dead</SelectItem>
+                </SelectContent>
+              </Select>
+              <Select value={type} onValueChange={setType}>
+                <SelectTrigger className="w-56" data-testid="select-job-type">
+                  <SelectValue placeholder="Type" />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">All types</SelectItem>
+                  {jobTypes.map((jobType) => (
+                    <SelectItem key={jobType} value={jobType}>
+                      {jobType}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+        </CardHeader>
+        <CardContent>
+          {isLoading ? (
+            <p className="text-sm text-muted-foreground">Loading jobs...</p>
+          ) : jobs.length === 0 ? (
+            <p className="text-sm text-muted-foreground">No jobs match these filters</p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Type</TableHead>
+                  <TableHead>Status</TableHead>
+                  <TableHead>Attempts</TableHead>
+                  <TableHead>Created</TableHead>
+                  <TableHead>Last Error</TableHead>
+                  <TableHead />
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {jobs.map((job) => (
+                  <TableRow key={job.id} data-testid={`row-job-${job.id}`}>
+                    <TableCell className="font-mono text-xs">{job.type}</TableCell>
+                    <TableCell>
+                      <Badge variant="outline" className={statusStyles[job.status]}>
+                        {job.status}
+                      </Badge>
+                    </TableCell>
+                    <TableCell className="tabular-nums">
+                      {job.attempts}/{job.maxAttempts}
+                    </TableCell>
+                    <TableCell className="text-sm text-muted-foreground">
+                      {formatDistanceToNow(new Date(job.createdAt), { addSuffix: true })}
+                    </TableCell>
+                    <TableCell className="max-w-xs truncate text-sm text-muted-foreground" title={job.lastError || undefined}>
+                      {job.lastError || "—"}
+                    </TableCell>
+                    <TableCell className="text-right">
+                      {(job.status === "dead" || job.status === "completed") && (
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => retryMutation.mutate(job.id)}
+                          disabled={retryMutation.isPending}
+                          data-testid={`button-retry-job-${job.id}`}
+                        >
+                          <RotateCcw className="h-4 w-4 mr-1" />
+                          Retry
+                        </Button>
+                      )}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,244 @@
+import { useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { Archive, Package, Pencil, Plus } from "lucide-react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Dialog, DialogContent, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { useAuth } from "@/contexts/AuthContext";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import type { Product } from "@shared/schema";
+import type { BillingPeriod, BillingType } from "@shared/deal-products";
+
+interface ProductFormValues {
+  name: string;
+  sku: string;
+  unitPrice: string;
+  currency: string;
+  billingType: BillingType;
+  billingPeriod: BillingPeriod;
+}
+
+const emptyForm: ProductFormValues = {
+  name: "",
+  sku: "",
+  unitPrice: "0",
+  currency: "USD",
+  billingType: "one_time",
+  billingPeriod: "monthly",
+};
+
+const formatBilling = (product: Pick<Product, "billingType" | "billingPeriod">) =>
+  product.billingType === "recurring" ? `Recurring (${product.billingPeriod})` : "One-time";
+
+export default function SettingsProducts() {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const [showArchived, setShowArchived] = useState(false);
+  const [editing, setEditing] = useState<Product | null>(null);
+  const [formOpen, setFormOpen] = useState(false);
+  const canManage = user?.role === "admin";
+
+  const { data: products = [], isLoading } = useQuery<Product[]>({
+    queryKey: [`/api/products${showArchived ? "?includeArchived=true" : ""}`],
+  });
+
+  const archiveMutation = useMutation({
+    mutationFn: async (id: string) => apiRequest("DELETE", `/api/products/${id}`),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ predicate: (query) => String(query.queryKey[0]).startsWith("/api/products") });
+      toast({ title: "Product archived" });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Failed to archive product", description: error.message, variant: "destructive" });
+    },
+  });
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between gap-4 flex-wrap">
+        <div>
+          <h1 className="text-3xl font-bold tracking-tight">Products</h1>
+          <p className="text-muted-foreground mt-1">
+            The catalog deal line items are picked from
+          </p>
+        </div>
+        {canManage && (
+          <Button onClick={() => { setEditing(null); setFormOpen(true); }} data-testid="button-add-product">
+            <Plus className="h-4 w-4 mr-2" />
+            Add Product
+          </Button>
+        )}
+      </div>
+
+      <Card>
+        <CardHeader className="flex flex-row items-center justify-between space-y-0">
+          <div>
+            <CardTitle className="flex items-center gap-2">
+              <Package className="h-5 w-5" />
+              Catalog
+            </CardTitle>
+            <CardDescription className="mt-1">Price changes only apply to deals the product is added to afterwards</CardDescription>
+          </div>
+          <div className="flex items-center gap-2">
+            <Switch id="show-archived" checked={showArchived} onCheckedChange={setShowArchived} />
+            <Label htmlFor="show-archived">Show archived</Label>
+          </div>
+        </CardHeader>
+        <CardContent>
+          {isLoading ? (
+            <div className="text-center py-8 text-muted-foreground">Loading products...</div>
+          ) : products.length === 0 ? (
+            <div className="text-center py-8 text-muted-foreground" data-testid="empty-products">
+              No products yet
+            </div>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Name</TableHead>
+                  <TableHead>SKU</TableHead>
+                  <TableHead>Billing</TableHead>
+                  <TableHead className="text-right">Unit price</TableHead>
+                  {canManage && <TableHead className="w-24" />}
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {products.map((product) => (
+                  <TableRow key={product.id} data-testid={`row-product-${product.id}`}>
+                    <TableCell className="font-medium">
+                      {product.name}
+                      {!product.isActive && <Badge variant="outline" className="ml-2">Archived</Badge>}
+                    </TableCell>
+                    <TableCell className="text-muted-foreground">{product.sku || "—"}</TableCell>
+                    <TableCell>{formatBilling(product)}</TableCell>
+                    <TableCell className="text-right">{product.unitPrice.toLocaleString()} {product.currency}</TableCell>
+                    {canManage && (
+                      <TableCell className="text-right">
+                        <Button variant="ghost" size="icon" onClick={() => { setEditing(product); setFormOpen(true); }}>
+                          <Pencil className="h-4 w-4" />
+                        </Button>
+                        {product.isActive === 1 && (
+                          <Button variant="ghost" size="icon" onClick={() => archiveMutation.mutate(product.id)}>
+                            <Archive className="h-4 w-4" />
+                          </Button>
+                        )}
+                      </TableCell>
+                    )}
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+
+      {formOpen && <ProductFormDialog product={editing} onClose={() => setFormOpen(false)} />}
+    </div>
+  );
+}
+
+function ProductFormDialog({ product, onClose }: { product: Product | null; onClose: () => void }) {
+  const { toast } = useToast();
+  const [values, setValues] = useState<ProductFormValues>(() => product ? {
+    name: product.name,
+    sku: product.sku || "",
+    unitPrice: String(product.unitPrice),
+    currency: product.currency,
+    billingType: product.billingType as BillingType,
+    billingPeriod: (product.billingPeriod as BillingPeriod) || "monthly",
+  } : emptyForm);
+
+  const saveMutation = useMutation({
+    mutationFn: async () => {
+      const body = {
+        name: values.name.trim(),
+        sku: values.sku.trim() || null,
+        unitPrice: Math.round(Number(values.unitPrice) || 0),
+        currency: values.currency.trim(),
+        billingType: values.billingType,
+        billingPeriod: values.billingType === "recurring" ? values.billingPeriod : null,
+      };
+      return product
+        ? apiRequest("PATCH", `/api/products/${product.id}`, body)
+        : apiRequest("POST", "/api/products", body);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ predicate: (query) => String(query.queryKey[0]).startsWith("/api/products") });
+      toast({ title: product ? "Product updated" : "Product added" });
+      onClose();
+    },
+    onError: (error: Error) => {
+      toast({ title: "Failed to save product", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const set = <K extends keyof ProductFormValues>(key: K, value: ProductFormValues[K]) =>
+    setValues((current) => ({ ...current, [key]: value }));
+
+  return (
+    <Dialog open onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="max-w-md">
+        <DialogHeader>
+          <DialogTitle>{product ? `Edit ${product.name}` : "Add Product"}</DialogTitle>
+        </DialogHeader>
+        <div className="grid grid-cols-2 gap-3">
+          <div className="col-span-2 space-y-1">
+            <Label htmlFor="product-name">Name</Label>
+            <Input id="product-name" value={values.name} onChange={(e) => set("name", e.target.value)} data-testid="input-product-name" />
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="product-sku">SKU</Label>
+            <Input id="product-sku" value={values.sku} onChange={(e) => set("sku", e.target.value)} data-testid="input-product-sku" />
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="product-currency">Currency</Label>
+            <Input id="product-currency" maxLength={3} value={values.currency} onChange={(e) => set("currency", e.target.value.toUpperCase())} />
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="product-price">Unit price</Label>
+            <Input id="product-price" type="number" min={0} value={values.unitPrice} onChange={(e) => set("unitPrice", e.target.value)} data-testid="input-product-price" />
+          </div>
+          <div className="space-y-1">
+            <Label>Billing</Label>
+            <Select value={values.billingType} onValueChange={(value) => set("billingType", value as BillingType)}>
+              <SelectTrigger data-testid="select-product-billing">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="one_time">One-time</SelectItem>
+                <SelectItem value="recurring">Recurring</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+          {values.billingType === "recurring" && (
+            <div className="col-span-2 space-y-1">
+              <Label>Billed</Label>
+              <Select value={values.billingPeriod} onValueChange={(value) => set("billingPeriod", value as BillingPeriod)}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="monthly">Monthly</SelectItem>
+                  <SelectItem value="yearly">Yearly</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+          )}
+        </div>
+        <DialogFooter>
+          <Button variant="outline" onClick={onClose}>Cancel</Button>
+          <Button onClick={() => saveMutation.mutate()} disabled={!values.name.trim() || saveMutation.isPending} data-testid="button-save-product">
+            {saveMutation.isPending ? "Saving..." : "Save"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,299 @@
+import { useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { EyeOff, Plus, ShieldCheck, Trash2 } from "lucide-react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Dialog, DialogContent, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { useAuth } from "@/contexts/AuthContext";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import {
+  restrictedFieldLabels,
+  type HiddenFields,
+  type RestrictedEntity,
+  type RoleDefinition,
+} from "@shared/roles";
+
+interface RolesResponse {
+  roles: RoleDefinition[];
+  permissions: string[];
+}
+
+// "manage_own_leads" -> "Manage own leads"
+const permissionLabel = (permission: string) =>
+  permission.charAt(0).toUpperCase() + permission.slice(1).replace(/_/g, " ");
+
+const invalidateRoles = () => {
+  queryClient.invalidateQueries({ queryKey: ["/api/roles"] });
+  queryClient.invalidateQueries({ queryKey: ["/api/users"] });
+};
+
+export default function SettingsRoles() {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const [createOpen, setCreateOpen] = useState(false);
+  const canManage = user?.role === "admin";
+
+  const { data, isLoading } = useQuery<RolesResponse>({ queryKey: ["/api/roles"] });
+  const roles = data?.roles || [];
+  const permissions = data?.permissions || [];
+
+  const updateMutation = useMutation({
+    mutationFn: async ({ key, changes }: { key: string; changes: Partial<Pick<RoleDefinition, "permissions" | "hiddenFields">> }) =>
+      apiRequest("PATCH", `/api/roles/${key}`, changes),
+    onSuccess: invalidateRoles,
+    onError: (error: Error) => {
+      toast({ title: "Failed to update role", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (key: string) => apiRequest("DELETE", `/api/roles/${key}`),
+    onSuccess: () => {
+      invalidateRoles();
+      toast({ title: "Role deleted" });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Failed to delete role", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const togglePermission = (role: RoleDefinition, permission: string, granted: boolean) => {
+    const next = granted
+      ? [...role.permissions, permission]
+      : role.permissions.filter((p) => p !== permission);
+    updateMutation.mutate({ key: role.key, changes: { permissions: next } });
+  };
+
+  const toggleField = (role: RoleDefinition, entity: RestrictedEntity, field: string, hidden: boolean) => {
+    const current = role.hiddenFields[entity] as string[];
+    const hiddenFields = {
+      ...role.hiddenFields,
+      [entity]: hidden ? [...current, field] : current.filter((f) => f !== field),
+    } as HiddenFields;
+    updateMutation.mutate({ key: role.key, changes: { hiddenFields } });
+  };
+
+  const cellDisabled = (role: RoleDefinition) => !canManage || !role.editable || updateMutation.isPending;
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between gap-4 flex-wrap">
+        <div>
+          <h1 className="text-3xl font-bold tracking-tight">Roles & Permissions</h1>
+          <p className="text-muted-foreground mt-1">
+            What each role can do, and which lead and deal fields it can see
+          </p>
+        </div>
+        {canManage && (
+          <Button onClick={() => setCreateOpen(true)} data-testid="button-add-role">
+            <Plus className="h-4 w-4 mr-2" />
+            New Role
+          </Button>
+        )}
+      </div>
+
+      {isLoading ? (
+        <div className="text-center py-8 text-muted-foreground">Loading roles...</div>
+      ) : (
+        <>
+          <Card>
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2">
+                <ShieldCheck className="h-5 w-5" />
+                Permissions
+              </CardTitle>
+              <CardDescription className="mt-1">
+                Admins always have every permission. Roles with "Manage team leads" see the data of the people reporting to them.
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="overflow-x-auto">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Permission</TableHead>
+                    {roles.map((role) => (
+                      <TableHead key={role.key} className="text-center" data-testid={`header-role-${role.key}`}>
+                        <div className="flex items-center justify-center gap-1">
+                          <span>{role.name}</span>
+                          {canManage && !role.builtIn && (
+                            <Button
+                              variant="ghost"
+                              size="icon"
+                              className="h-6 w-6"
+                              onClick={() => deleteMutation.mutate(role.key)}
+                              disabled={deleteMutation.isPending}
+                              data-testid={`button-delete-role-${role.key}`}
+                            >
+                              <Trash2 className="h-3 w-3" />
+                            </Button>
+                          )}
+                        </div>
+                        <div className="text-xs font-normal text-muted-foreground">
+                          {role.userCount} user{role.userCount === 1 ? "" : "s"}
+                          {!role.builtIn && <Badge variant="outline" className="ml-1">Custom</Badge>}
+                        </div>
+                      </TableHead>
+                    ))}
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {permissions.map((permission) => (
+                    <TableRow key={permission}>
+                      <TableCell className="font-medium">{permissionLabel(permission)}</TableCell>
+                      {roles.map((role) => (
+                        <TableCell key={role.key} className="text-center">
+                          <Checkbox
+                            checked={role.permissions.includes(permission)}
+                            onCheckedChange={(checked) => togglePermission(role, permission, checked === true)}
+                            disabled={cellDisabled(role)}
+                            data-testid={`checkbox-${role.key}-${permission}`}
+                          />
+                        </TableCell>
+                      ))}
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2">
+                <EyeOff className="h-5 w-5" />
+                Hidden Fields
+              </CardTitle>
+              <CardDescription className="mt-1">
+                Checked fields are blanked out in everything the API returns to that role, including exports
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="overflow-x-auto">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Field</TableHead>
+                    {roles.map((role) => (
+                      <TableHead key={role.key} className="text-center">{role.name}</TableHead>
+                    ))}
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {(Object.keys(restrictedFieldLabels) as RestrictedEntity[]).flatMap((entity) =>
+                    Object.entries(restrictedFieldLabels[entity]).map(([field, label]) => (
+                      <TableRow key={`${entity}.${field}`}>
+                        <TableCell className="font-medium">
+                          <span className="text-muted-foreground">{entity === "leads" ? "Lead" : "Deal"} · </span>
+                          {label}
+                        </TableCell>
+                        {roles.map((role) => (
+                          <TableCell key={role.key} className="text-center">
+                            <Checkbox
+                              checked={(role.hiddenFields[entity] as string[]).includes(field)}
+                              onCheckedChange={(checked) => toggleField(role, entity, field, checked === true)}
+                              disabled={cellDisabled(role)}
+                              data-testid={`checkbox-hidden-${role.key}-${entity}-${field}`}
+                            />
+                          </TableCell>
+                        ))}
+                      </TableRow>
+                    ))
+                  )}
+                </TableBody>
+              </Table>
+            </CardContent>
+          </Card>
+        </>
+      )}
+
+      {createOpen && <CreateRoleDialog roles={roles} onClose={() => setCreateOpen(false)} />}
+    </div>
+  );
+}
+
+function CreateRoleDialog({ roles, onClose }: { roles: RoleDefinition[]; onClose: () => void }) {
+  const { toast } = useToast();
+  const [name, setName] = useState("");
+  const [key, setKey] = useState("");
+  const [keyEdited, setKeyEdited] = useState(false);
+  const [copyFrom, setCopyFrom] = useState("sales_rep");
+
+  // The key follows the name until it is edited by hand
+  const slug = (value: string) => value.toLowerCase().trim().replace(/[^a-z0-9]+/g, "_").replace(/^_+|_+$/g, "");
+  const roleKey = keyEdited ? key : slug(name);
+
+  const createMutation = useMutation({
+    mutationFn: async () => {
+      const template = roles.find((role) => role.key === copyFrom);
+      return apiRequest("POST", "/api/roles", {
+        key: roleKey,
+        name: name.trim(),
+        permissions: template?.permissions || [],
+        hiddenFields: template?.hiddenFields,
+      });
+    },
+    onSuccess: () => {
+      invalidateRoles();
+      toast({ title: "Role created" });
+      onClose();
+    },
+    onError: (error: Error) => {
+      toast({ title: "Failed to create role", description: error.message, variant: "destructive" });
+    },
+  });
+
+  return (
+    <Dialog open onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="max-w-md">
+        <DialogHeader>
+          <DialogTitle>New Role</DialogTitle>
+        </DialogHeader>
+        <div className="space-y-3">
+          <div className="space-y-1">
+            <Label htmlFor="role-name">Name</Label>
+            <Input id="role-name" value={name} onChange={(e) => setName(e.target.value)} data-testid="input-role-name" />
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="role-key">Key</Label>
+            <Input
+              id="role-key"
+              value={roleKey}
+              onChange={(e) => { setKeyEdited(true); setKey(e.target.value); }}
+              data-testid="input-role-key"
+            />
+            <p className="text-xs text-muted-foreground">Stored on each user; cannot be changed later</p>
+          </div>
+          <div className="space-y-1">
+            <Label>Start from</Label>
+            <Select value={copyFrom} onValueChange={setCopyFrom}>
+              <SelectTrigger data-testid="select-role-template">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {roles.filter((role) => role.editable).map((role) => (
+                  <SelectItem key={role.key} value={role.key}>{role.name}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        </div>
+        <DialogFooter>
+          <Button variant="outline" onClick={onClose}>Cancel</Button>
+          <Button
+            onClick={() => createMutation.mutate()}
+            disabled={!name.trim() || !roleKey || createMutation.isPending}
+            data-testid="button-save-role"
+          >
+            Create
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
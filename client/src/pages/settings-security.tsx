@@ -0,0 +1,442 @@
+import { useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { formatDistanceToNow } from "date-fns";
+import { Copy, KeyRound, LogOut, Monitor, ShieldCheck, ShieldOff } from "lucide-react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { useAuth } from "@/contexts/AuthContext";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+
+interface TwoFactorStatus {
+  enabled: boolean;
+  enabledAt: string | null;
+  recoveryCodesRemaining: number;
+}
+
+interface ActiveSession {
+  id: string;
+  ipAddress: string | null;
+  userAgent: string | null;
+  createdAt: string;
+  lastSeenAt: string | null;
+  expiresAt: string;
+  current: boolean;
+}
+
+// Short "Browser on OS" label from a user agent string
+function describeDevice(userAgent: string | null): string {
+  if (!userAgent) return "Unknown device";
+  const browser = /Edg\//.test(userAgent) ? "Edge"
+    : /Chrome\//.test(userAgent) ? "Chrome"
+    : /Firefox\//.test(userAgent) ? "Firefox"
+    : /Safari\//.test(userAgent) ? "Safari"
+    : "Browser";
+  const os = /Windows/.test(userAgent) ? "Windows"
+    : /iPhone|iPad/.test(userAgent) ? "iOS"
+    : /Mac OS X/.test(userAgent) ? "macOS"
+    : /Android/.test(userAgent) ? "Android"
+    : /Linux/.test(userAgent) ? "Linux"
+    : null;
+  return os ? `${browser} on ${os}` : browser;
+}
+
+export default function SettingsSecurity() {
+  const { logout } = useAuth();
+  const { toast } = useToast();
+  const [setupOpen, setSetupOpen] = useState(false);
+  const [disableOpen, setDisableOpen] = useState(false);
+  const [regenerateOpen, setRegenerateOpen] = useState(false);
+
+  const { data: twoFactor, isLoading: twoFactorLoading } = useQuery<TwoFactorStatus>({
+    queryKey: ["/api/auth/2fa"],
+  });
+  const { data: sessions = [], isLoading: sessionsLoading } = useQuery<ActiveSession[]>({
+    queryKey: ["/api/auth/sessions"],
+  });
+
+  const revokeMutation = useMutation({
+    mutationFn: async (session: ActiveSession) => {
+      await apiRequest("DELETE", `/api/auth/sessions/${session.id}`);
+      return session;
+    },
+    onSuccess: (session) => {
+      if (session.current) {
+        logout();
+        return;
+      }
+      queryClient.invalidateQueries({ queryKey: ["/api/auth/sessions"] });
+      toast({ title: "Session revoked" });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Failed to revoke session", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const revokeOthersMutation = useMutation({
+    mutationFn: async () => (await apiRequest("POST", "/api/auth/sessions/revoke-others")).json(),
+    onSuccess: (data: { revoked: number }) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/auth/sessions"] });
+      toast({ title: `Signed out of ${data.revoked} other session${data.revoked === 1 ? "" : "s"}` });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Failed to revoke sessions", description: error.message, variant: "destructive" });
+    },
+  });
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h1 className="text-3xl font-bold tracking-tight">Security</h1>
+        <p className="text-muted-foreground mt-1">
+          Protect your account and review where it is signed in
+        </p>
+      </div>
+
+      <div className="grid gap-6 max-w-4xl">
+        <Card>
+          <CardHeader>
+            <div className="flex items-center justify-between gap-4">
+              <div>
+                <CardTitle className="flex items-center gap-2">
+                  <ShieldCheck className="h-5 w-5" />
+                  Two-Factor Authentication
+                </CardTitle>
+                <CardDescription className="mt-1">
+                  Ask for a code from an authenticator app after your password
+                </CardDescription>
+              </div>
+              {twoFactor?.enabled && <Badge className="bg-green-600">Enabled</Badge>}
+            </div>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            {twoFactorLoading ? (
+              <div className="text-muted-foreground">Loading...</div>
+            ) : twoFactor?.enabled ? (
+              <>
+                <p className="text-sm text-muted-foreground">
+                  Enabled {twoFactor.enabledAt && formatDistanceToNow(new Date(twoFactor.enabledAt), { addSuffix: true })}.{" "}
+                  {twoFactor.recoveryCodesRemaining} recovery code{twoFactor.recoveryCodesRemaining === 1 ? "" : "s"} left.
+                </p>
+                <div className="flex gap-2 flex-wrap">
+                  <Button variant="outline" onClick={() => setRegenerateOpen(true)} data-testid="button-regenerate-recovery-codes">
+                    <KeyRound className="h-4 w-4 mr-2" />
+                    New Recovery Codes
+                  </Button>
+                  <Button variant="outline" onClick={() => setDisableOpen(true)} data-testid="button-disable-2fa">
+                    <ShieldOff className="h-4 w-4 mr-2" />
+                    Turn Off
+                  </Button>
+                </div>
+              </>
+            ) : (
+              <Button onClick={() => setSetupOpen(true)} data-testid="button-enable-2fa">
+                <ShieldCheck className="h-4 w-4 mr-2" />
+                Set Up Two-Factor Authentication
+              </Button>
+            )}
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <div className="flex items-center justify-between gap-4">
+              <div>
+                <CardTitle className="flex items-center gap-2">
+                  <Monitor className="h-5 w-5" />
+                  Active Sessions
+                </CardTitle>
+                <CardDescription className="mt-1">
+                  Revoke any session you do not recognise
+                </CardDescription>
+              </div>
+              {sessions.length > 1 && (
+                <Button
+                  variant="outline"
+                  onClick={() => revokeOthersMutation.mutate()}
+                  disabled={revokeOthersMutation.isPending}
+                  data-testid="button-revoke-other-sessions"
+                >
+                  <LogOut className="h-4 w-4 mr-2" />
+                  Sign Out Other Sessions
+                </Button>
+              )}
+            </div>
+          </CardHeader>
+          <CardContent>
+            {sessionsLoading ? (
+              <div className="text-muted-foreground">Loading...</div>
+            ) : (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Device</TableHead>
+                    <TableHead>IP Address</TableHead>
+                    <TableHead>Signed In</TableHead>
+                    <TableHead>Last Active</TableHead>
+                    <TableHead className="w-[100px]" />
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {sessions.map((session) => (
+                    <TableRow key={session.id} data-testid={`row-session-${session.id}`}>
+                      <TableCell className="font-medium">
+                        {describeDevice(session.userAgent)}
+                        {session.current && <Badge variant="secondary" className="ml-2">This device</Badge>}
+                      </TableCell>
+                      <TableCell className="text-muted-foreground">{session.ipAddress || "—"}</TableCell>
+                      <TableCell className="text-muted-foreground">
+                        {formatDistanceToNow(new Date(session.createdAt), { addSuffix: true })}
+                      </TableCell>
+                      <TableCell className="text-muted-foreground">
+                        {session.lastSeenAt ? formatDistanceToNow(new Date(session.lastSeenAt), { addSuffix: true }) : "—"}
+                      </TableCell>
+                      <TableCell>
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => revokeMutation.mutate(session)}
+                          disabled={revokeMutation.isPending}
+                          data-testid={`button-revoke-session-${session.id}`}
+                        >
+                          {session.current ? "Sign out" : "Revoke"}
+                        </Button>
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+
+      {setupOpen && <SetupTwoFactorDialog onClose={() => setSetupOpen(false)} />}
+      {disableOpen && <DisableTwoFactorDialog onClose={() => setDisableOpen(false)} />}
+      {regenerateOpen && <RegenerateCodesDialog onClose={() => setRegenerateOpen(false)} />}
+    </div>
+  );
+}
+
+function RecoveryCodes({ codes }: { codes: string[] }) {
+  const { toast } = useToast();
+
+  const copy = async () => {
+    await navigator.clipboard.writeText(codes.join("\n"));
+    toast({ title: "Recovery codes copied" });
+  };
+
+  return (
+    <div className="space-y-3">
+      <p className="text-sm text-muted-foreground">
+        Store these somewhere safe. Each code signs you in once if you lose your authenticator; they will not be shown again.
+      </p>
+      <div className="grid grid-cols-2 gap-2 rounded-md border p-3 font-mono text-sm" data-testid="list-recovery-codes">
+        {codes.map((code) => <span key={code}>{code}</span>)}
+      </div>
+      <Button variant="outline" size="sm" onClick={copy}>
+        <Copy className="h-4 w-4 mr-2" />
+        Copy
+      </Button>
+    </div>
+  );
+}
+
+function SetupTwoFactorDialog({ onClose }: { onClose: () => void }) {
+  const { toast } = useToast();
+  const [code, setCode] = useState("");
+  const [recoveryCodes, setRecoveryCodes] = useState<string[] | null>(null);
+
+  const { data: setup, isLoading } = useQuery<{ secret: string; otpauthUrl: string }>({
+    queryKey: ["/api/auth/2fa/setup"],
+    queryFn: async () => (await apiRequest("POST", "/api/auth/2fa/setup")).json(),
+    staleTime: Infinity,
+    gcTime: 0,
+  });
+
+  const enableMutation = useMutation({
+    mutationFn: async () => (await apiRequest("POST", "/api/auth/2fa/enable", { code })).json(),
+    onSuccess: (data: { recoveryCodes: string[] }) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/auth/2fa"] });
+      setRecoveryCodes(data.recoveryCodes);
+    },
+    onError: (error: Error) => {
+      toast({ title: "Could not enable two-factor authentication", description: error.message, variant: "destructive" });
+    },
+  });
+
+  return (
+    <Dialog open onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Set Up Two-Factor Authentication</DialogTitle>
+          <DialogDescription>
+            {recoveryCodes ? "Two-factor authentication is on." : "Add this account to your authenticator app, then enter the code it shows."}
+          </DialogDescription>
+        </DialogHeader>
+
+        {recoveryCodes ? (
+          <RecoveryCodes codes={recoveryCodes} />
+        ) : isLoading || !setup ? (
+          <div className="text-muted-foreground">Generating secret...</div>
+        ) : (
+          <div className="space-y-4">
+            <div className="space-y-1">
+              <Label>Setup key</Label>
+              <div className="rounded-md border p-3 font-mono text-sm break-all" data-testid="text-2fa-secret">
+                {setup.secret.match(/.{1,4}/g)?.join(" ")}
+              </div>
+              <a href={setup.otpauthUrl} className="text-sm text-primary hover:underline">
+                Open in authenticator app
+              </a>
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="setup-code">Verification code</Label>
+              <Input
+                id="setup-code"
+                inputMode="numeric"
+                autoComplete="one-time-code"
+                placeholder="123456"
+                value={code}
+                onChange={(e) => setCode(e.target.value)}
+                data-testid="input-setup-code"
+              />
+            </div>
+          </div>
+        )}
+
+        <DialogFooter>
+          {recoveryCodes ? (
+            <Button onClick={onClose}>Done</Button>
+          ) : (
+            <>
+              <Button variant="outline" onClick={onClose}>Cancel</Button>
+              <Button
+                onClick={() => enableMutation.mutate()}
+                disabled={!setup || !code.trim() || enableMutation.isPending}
+                data-testid="button-confirm-2fa"
+              >
+                Enable
+              </Button>
+            </>
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+function DisableTwoFactorDialog({ onClose }: { onClose: () => void }) {
+  const { toast } = useToast();
+  const [password, setPassword] = useState("");
+
+  const disableMutation = useMutation({
+    mutationFn: async () => apiRequest("POST", "/api/auth/2fa/disable", { password }),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/auth/2fa"] });
+      toast({ title: "Two-factor authentication turned off" });
+      onClose();
+    },
+    onError: (error: Error) => {
+      toast({ title: "Could not turn off two-factor authentication", description: error.message, variant: "destructive" });
+    },
+  });
+
+  return (
+    <Dialog open onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="max-w-md">
+        <DialogHeader>
+          <DialogTitle>Turn Off Two-Factor Authentication</DialogTitle>
+          <DialogDescription>Confirm with your password. Your recovery codes will stop working.</DialogDescription>
+        </DialogHeader>
+        <div className="space-y-1">
+          <Label htmlFor="disable-password">Password</Label>
+          <Input
+            id="disable-password"
+            type="password"
+            value={password}
+            onChange={(e) => setPassword(e.target.value)}
+            data-testid="input-disable-password"
+          />
+        </div>
+        <DialogFooter>
+          <Button variant="outline" onClick={onClose}>Cancel</Button>
+          <Button
+            variant="destructive"
+            onClick={() => disableMutation.mutate()}
+            disabled={!password || disableMutation.isPending}
+            data-testid="button-confirm-disable-2fa"
+          >
+            Turn Off
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+function RegenerateCodesDialog({ onClose }: { onClose: () => void }) {
+  const { toast } = useToast();
+  const [code, setCode] = useState("");
+  const [recoveryCodes, setRecoveryCodes] = useState<string[] | null>(null);
+
+  const regenerateMutation = useMutation({
+    mutationFn: async () => (await apiRequest("POST", "/api/auth/2fa/recovery-codes", { code })).json(),
+    onSuccess: (data: { recoveryCodes: string[] }) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/auth/2fa"] });
+      setRecoveryCodes(data.recoveryCodes);
+    },
+    onError: (error: Error) => {
+      toast({ title: "Could not create recovery codes", description: error.message, variant: "destructive" });
+    },
+  });
+
+  return (
+    <Dialog open onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle>New Recovery Codes</DialogTitle>
+          <DialogDescription>
+            {recoveryCodes ? "Your previous recovery codes no longer work." : "Enter a code from your authenticator app to replace your recovery codes."}
+          </DialogDescription>
+        </DialogHeader>
+        {recoveryCodes ? (
+          <RecoveryCodes codes={recoveryCodes} />
+        ) : (
+          <div className="space-y-1">
+            <Label htmlFor="regenerate-code">Verification code</Label>
+            <Input
+              id="regenerate-code"
+              inputMode="numeric"
+              autoComplete="one-time-code"
+              value={code}
+              onChange={(e) => setCode(e.target.value)}
+              data-testid="input-regenerate-code"
+            />
+          </div>
+        )}
+        <DialogFooter>
+          {recoveryCodes ? (
+            <Button onClick={onClose}>Done</Button>
+          ) : (
+            <>
+              <Button variant="outline" onClick={onClose}>Cancel</Button>
+              <Button
+                onClick={() => regenerateMutation.mutate()}
+                disabled={!code.trim() || regenerateMutation.isPending}
+                data-testid="button-confirm-regenerate"
+              >
+                Create Codes
+              </Button>
+            </>
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -1,11 +1,14 @@
+import { useState } from "react";
 import { useQuery, useMutation } from "@tanstack/react-query";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
-import { Mail, RefreshCw, Link2, CheckCircle2, Settings2, ChevronRight, Unplug } from "lucide-react";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Mail, RefreshCw, Link2, CheckCircle2, Settings2, ChevronRight, Unplug, ListChecks, History, Package, Coins, ShieldCheck, KeyRound } from "lucide-react";
 import { apiRequest, queryClient } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
 import { Link } from "wouter";
+import { useAuth } from "@/contexts/AuthContext";
 
 interface MS365Status {
   connected: boolean;
@@ -14,6 +17,8 @@ interface MS365Status {
 
 export default function Settings() {
   const { toast } = useToast();
+  const { user } = useAuth();
+  const [backfillDays, setBackfillDays] = useState("90");
 
   const { data: ms365Status } = useQuery<MS365Status>({
     queryKey: ["/api/ms365/status"],
@@ -41,6 +46,25 @@ export default function Settings() {
     },
   });
 
+  const backfillMutation = useMutation({
+    mutationFn: async (days: number) => {
+      return apiRequest("POST", "/api/sync/manual", { backfillDays: days });
+    },
+    onSuccess: (_, days) => {
+      toast({
+        title: "Backfill queued",
+        description: `Emails from the last ${days} days will be imported in the background.`,
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Backfill failed",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
   const connectMS365Mutation = useMutation({
     mutationFn: async () => {
       const response = await fetch("/api/ms365/auth-url");
@@ -137,6 +161,7 @@ export default function Settings() {
               <p className="text-sm text-muted-foreground">
                 MS 365 integration requires OAuth authentication with Microsoft Graph API.
                 This enables automatic syncing of email conversations with your leads.
+                Sync picks up new mail in your Inbox and Sent Items; Backfill re-imports older history.
               </p>
 
               <div className="flex gap-3">
@@ -159,6 +184,26 @@ export default function Settings() {
                       <RefreshCw className="h-4 w-4 mr-2" />
                       {syncMutation.isPending ? "Syncing..." : "Sync Now"}
                     </Button>
+                    <Select value={backfillDays} onValueChange={setBackfillDays}>
+                      <SelectTrigger className="w-32" data-testid="select-backfill-days">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="30">30 days</SelectItem>
+                        <SelectItem value="90">90 days</SelectItem>
+                        <SelectItem value="180">180 days</SelectItem>
+                        <SelectItem value="365">1 year</SelectItem>
+                      </SelectContent>
+                    </Select>
+                    <Button
+                      variant="outline"
+                      onClick={() => backfillMutation.mutate(Number(backfillDays))}
+                      disabled={backfillMutation.isPending}
+                      data-testid="button-backfill-ms365"
+                    >
+                      <History className="h-4 w-4 mr-2" />
+                      {backfillMutation.isPending ? "Queuing..." : "Backfill"}
+                    </Button>
                     <Button
                       variant="outline"
                       onClick={() => disconnectMS365Mutation.mutate()}
@@ -206,6 +251,105 @@ export default function Settings() {
           </Card>
         </Link>
 
+        <Link href="/settings/products">
+          <Card className="hover-elevate cursor-pointer">
+            <CardHeader>
+              <div className="flex items-center justify-between">
+                <div>
+                  <CardTitle className="flex items-center gap-2">
+                    <Package className="h-5 w-5" />
+                    Products
+                  </CardTitle>
+                  <CardDescription className="mt-1">
+                    Manage the product catalog used for deal line items
+                  </CardDescription>
+                </div>
+                <ChevronRight className="h-5 w-5 text-muted-foreground" />
+              </div>
+            </CardHeader>
+          </Card>
+        </Link>
+
+        <Link href="/settings/currency">
+          <Card className="hover-elevate cursor-pointer">
+            <CardHeader>
+              <div className="flex items-center justify-between">
+                <div>
+                  <CardTitle className="flex items-center gap-2">
+                    <Coins className="h-5 w-5" />
+                    Currencies
+                  </CardTitle>
+                  <CardDescription className="mt-1">
+                    Set the base currency and exchange rates used in forecasts
+                  </CardDescription>
+                </div>
+                <ChevronRight className="h-5 w-5 text-muted-foreground" />
+              </div>
+            </CardHeader>
+          </Card>
+        </Link>
+
+        <Link href="/settings/security">
+          <Card className="hover-elevate cursor-pointer">
+            <CardHeader>
+              <div className="flex items-center justify-between">
+                <div>
+                  <CardTitle className="flex items-center gap-2">
+                    <KeyRound className="h-5 w-5" />
+                    Security
+                  </CardTitle>
+                  <CardDescription className="mt-1">
+                    Two-factor authentication and the devices signed in to your account
+                  </CardDescription>
+                </div>
+                <ChevronRight className="h-5 w-5 text-muted-foreground" />
+              </div>
+            </CardHeader>
+          </Card>
+        </Link>
+
+        {user?.role === "admin" && (
+          <Link href="/settings/roles">
+            <Card className="hover-elevate cursor-pointer">
+              <CardHeader>
+                <div className="flex items-center justify-between">
+                  <div>
+                    <CardTitle className="flex items-center gap-2">
+                      <ShieldCheck className="h-5 w-5" />
+                      Roles & Permissions
+                    </CardTitle>
+                    <CardDescription className="mt-1">
+                      Define custom roles, their permissions and the lead and deal fields they can see
+                    </CardDescription>
+                  </div>
+                  <ChevronRight className="h-5 w-5 text-muted-foreground" />
+                </div>
+              </CardHeader>
+            </Card>
+          </Link>
+        )}
+
+        {user?.role === "admin" && (
+          <Link href="/settings/jobs">
+            <Card className="hover-elevate cursor-pointer">
+              <CardHeader>
+                <div className="flex items-center justify-between">
+                  <div>
+                    <CardTitle className="flex items-center gap-2">
+                      <ListChecks className="h-5 w-5" />
+                      Background Jobs
+                    </CardTitle>
+                    <CardDescription className="mt-1">
+                      Inspect and retry scoring, enrichment and sync jobs
+                    </CardDescription>
+                  </div>
+                  <ChevronRight className="h-5 w-5 text-muted-foreground" />
+                </div>
+              </CardHeader>
+            </Card>
+          </Link>
+        )}
+
         <Card>
           <CardHeader>
             <CardTitle>AI Lead Scoring</CardTitle>
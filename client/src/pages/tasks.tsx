@@ -7,6 +7,7 @@ import { formatDistanceToNow } from "date-fns";
 import { Link } from "wouter";
 import type { Task } from "@shared/schema";
 import { useToast } from "@/hooks/use-toast";
+import { ExportButton } from "@/components/export-button";
 
 export default function Tasks() {
   const { toast } = useToast();
@@ -48,11 +49,14 @@ export default function Tasks() {
 
   return (
     <div className="space-y-6">
-      <div>
-        <h1 className="text-3xl font-bold tracking-tight">Tasks</h1>
-        <p className="text-muted-foreground mt-1">
-          Manage follow-ups and reminders across all leads
-        </p>
+      <div className="flex items-center justify-between gap-4 flex-wrap">
+        <div>
+          <h1 className="text-3xl font-bold tracking-tight">Tasks</h1>
+          <p className="text-muted-foreground mt-1">
+            Manage follow-ups and reminders across all leads
+          </p>
+        </div>
+        <ExportButton entity="tasks" />
       </div>
 
       {tasks?.length === 0 ? (
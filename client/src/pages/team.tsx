@@ -4,30 +4,39 @@ import { Button } from "@/components/ui/button";
 import { Avatar, AvatarFallback } from "@/components/ui/avatar";
 import { Badge } from "@/components/ui/badge";
 import { Skeleton } from "@/components/ui/skeleton";
-import { Plus, Users as UsersIcon, ChevronRight, Mail, Building2 } from "lucide-react";
+import { Plus, Users as UsersIcon, ChevronRight, Mail, Building2, Send, RotateCw, X } from "lucide-react";
 import { useState } from "react";
 import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
 import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
 import { Input } from "@/components/ui/input";
+import { Switch } from "@/components/ui/switch";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
 import { z } from "zod";
 import { apiRequest, queryClient } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
-import type { User } from "@shared/schema";
+import { useAuth } from "@/contexts/AuthContext";
+import { formatDistanceToNow } from "date-fns";
+import type { User, UserInvitation } from "@shared/schema";
+import type { InvitationStatus } from "@shared/onboarding";
+import type { RoleDefinition } from "@shared/roles";
 
 const userFormSchema = z.object({
-  name: z.string().min(2, "Name must be at least 2 characters"),
+  name: z.string().optional(),
   email: z.string().email("Invalid email address"),
-  role: z.enum(["admin", "sales_manager", "sales_rep"]),
+  role: z.string().min(1, "Role is required"), // Built-in or custom role key
   managerId: z.string().optional(),
 });
 
 type UserFormData = z.infer<typeof userFormSchema>;
 
+type InvitationRow = Omit<UserInvitation, "tokenHash"> & { status: InvitationStatus };
+
 export default function Team() {
   const { toast } = useToast();
+  const { user: currentUser } = useAuth();
+  const isAdmin = currentUser?.role === "admin";
   const [isDialogOpen, setIsDialogOpen] = useState(false);
 
   const { data: users = [], isLoading } = useQuery<User[]>({
@@ -35,20 +44,94 @@ export default function Team() {
   });
 
   const { data: managers = [] } = useQuery<User[]>({
-    queryKey: ["/api/users/role/sales_manager"],
+    queryKey: ["/api/users/role/manager"],
+  });
+
+  const { data: roleData } = useQuery<{ roles: RoleDefinition[] }>({
+    queryKey: ["/api/roles"],
   });
+  const roles = roleData?.roles || [];
+  // Non-admins may only invite into roles that give no more access than their own
+  const ownPermissions = roles.find((role) => role.key === currentUser?.role)?.permissions || [];
+  const grantableRoles = roles.filter(
+    (role) => isAdmin || (role.key !== "admin" && role.permissions.every((p) => ownPermissions.includes(p)))
+  );
 
-  const createUserMutation = useMutation({
+  const { data: invitations = [] } = useQuery<InvitationRow[]>({
+    queryKey: ["/api/onboarding/invitations"],
+  });
+
+  const { data: authSettings } = useQuery<{ openRegistration: boolean }>({
+    queryKey: ["/api/onboarding/settings"],
+    enabled: isAdmin,
+  });
+
+  const inviteMutation = useMutation({
     mutationFn: async (data: UserFormData) => {
-      return apiRequest("POST", "/api/users", data);
+      return apiRequest("POST", "/api/onboarding/invitations", {
+        ...data,
+        name: data.name?.trim() || undefined,
+      });
     },
-    onSuccess: () => {
-      queryClient.invalidateQueries({ queryKey: ["/api/users"] });
+    onSuccess: (_, data) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/onboarding/invitations"] });
       toast({
-        title: "User created",
-        description: "Team member has been added successfully",
+        title: "Invitation sent",
+        description: `${data.email} will get an email with a link to join`,
       });
       setIsDialogOpen(false);
+      form.reset();
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const resendInvitationMutation = useMutation({
+    mutationFn: async (id: string) => {
+      return apiRequest("POST", `/api/onboarding/invitations/${id}/resend`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/onboarding/invitations"] });
+      toast({ title: "Invitation resent" });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const revokeInvitationMutation = useMutation({
+    mutationFn: async (id: string) => {
+      return apiRequest("DELETE", `/api/onboarding/invitations/${id}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/onboarding/invitations"] });
+      toast({ title: "Invitation revoked" });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const registrationMutation = useMutation({
+    mutationFn: async (openRegistration: boolean) => {
+      return apiRequest("PATCH", "/api/onboarding/settings", { openRegistration });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/onboarding/settings"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/auth/registration"] });
     },
     onError: (error: Error) => {
       toast({
@@ -70,7 +153,7 @@ export default function Team() {
   });
 
   const onSubmit = (data: UserFormData) => {
-    createUserMutation.mutate(data);
+    inviteMutation.mutate(data);
   };
 
   const getInitials = (name: string) => {
@@ -101,7 +184,7 @@ export default function Team() {
         label: "Admin", 
         className: "bg-purple-500/10 text-purple-700 dark:text-purple-300 border-purple-500/20" 
       },
-      sales_manager: { 
+      manager: { 
         label: "Manager", 
         className: "bg-blue-500/10 text-blue-700 dark:text-blue-300 border-blue-500/20" 
       },
@@ -110,19 +193,24 @@ export default function Team() {
         className: "bg-green-500/10 text-green-700 dark:text-green-300 border-green-500/20" 
       },
     };
-    const config = variants[role] || variants.sales_rep;
+    const config = variants[role];
+    if (!config) {
+      // Custom role
+      const label = roles.find((r) => r.key === role)?.name || role;
+      return { label, className: "bg-muted text-muted-foreground" };
+    }
     return { label: config.label, className: config.className };
   };
 
   const admins = users.filter((u) => u.role === "admin");
   const managersWithTeams = users
-    .filter((u) => u.role === "sales_manager")
+    .filter((u) => u.role === "manager")
     .map((manager) => ({
       ...manager,
       team: users.filter((u) => u.managerId === manager.id),
     }));
   const unassignedReps = users.filter(
-    (u) => u.role === "sales_rep" && !u.managerId
+    (u) => u.role !== "admin" && u.role !== "manager" && !u.managerId
   );
 
   if (isLoading) {
@@ -171,14 +259,14 @@ export default function Team() {
           <DialogTrigger asChild>
             <Button data-testid="button-add-user">
               <Plus className="h-4 w-4 mr-2" />
-              Add Team Member
+              Invite Team Member
             </Button>
           </DialogTrigger>
           <DialogContent>
             <DialogHeader>
-              <DialogTitle>Add Team Member</DialogTitle>
+              <DialogTitle>Invite Team Member</DialogTitle>
               <DialogDescription>
-                Create a new user account and assign their role
+                Send an email invitation with their role preset; they choose their own password
               </DialogDescription>
             </DialogHeader>
             <Form {...form}>
@@ -188,7 +276,7 @@ export default function Team() {
                   name="name"
                   render={({ field }) => (
                     <FormItem>
-                      <FormLabel>Name</FormLabel>
+                      <FormLabel>Name (optional)</FormLabel>
                       <FormControl>
                         <Input {...field} data-testid="input-user-name" />
                       </FormControl>
@@ -225,16 +313,18 @@ export default function Team() {
                           </SelectTrigger>
                         </FormControl>
                         <SelectContent>
-                          <SelectItem value="admin">Admin</SelectItem>
-                          <SelectItem value="sales_manager">Sales Manager</SelectItem>
-                          <SelectItem value="sales_rep">Sales Representative</SelectItem>
+                          {grantableRoles.map((role) => (
+                            <SelectItem key={role.key} value={role.key}>
+                              {role.name}
+                            </SelectItem>
+                          ))}
                         </SelectContent>
                       </Select>
                       <FormMessage />
                     </FormItem>
                   )}
                 />
-                {form.watch("role") === "sales_rep" && managers.length > 0 && (
+                {!["admin", "manager"].includes(form.watch("role")) && managers.length > 0 && (
                   <FormField
                     control={form.control}
                     name="managerId"
@@ -274,10 +364,10 @@ export default function Team() {
                   </Button>
                   <Button
                     type="submit"
-                    disabled={createUserMutation.isPending}
+                    disabled={inviteMutation.isPending}
                     data-testid="button-save-user"
                   >
-                    {createUserMutation.isPending ? "Creating..." : "Create User"}
+                    {inviteMutation.isPending ? "Sending..." : "Send Invitation"}
                   </Button>
                 </div>
               </form>
@@ -286,6 +376,88 @@ export default function Team() {
         </Dialog>
       </div>
 
+      {isAdmin && authSettings && (
+        <Card>
+          <CardContent className="p-4 flex items-center justify-between gap-4">
+            <div>
+              <p className="font-medium">Open registration</p>
+              <p className="text-sm text-muted-foreground">
+                {authSettings.openRegistration
+                  ? "Anyone can create an account from the sign-up page"
+                  : "New members can only join through an invitation"}
+              </p>
+            </div>
+            <Switch
+              checked={authSettings.openRegistration}
+              onCheckedChange={(checked) => registrationMutation.mutate(checked)}
+              disabled={registrationMutation.isPending}
+              data-testid="switch-open-registration"
+            />
+          </CardContent>
+        </Card>
+      )}
+
+      {invitations.length > 0 && (
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-lg flex items-center gap-2">
+              <Send className="h-5 w-5" />
+              Pending Invitations
+            </CardTitle>
+            <CardDescription>Invitations that have not been accepted yet</CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-2">
+            {invitations.map((invitation) => {
+              const roleBadge = getRoleBadge(invitation.role);
+              return (
+                <div
+                  key={invitation.id}
+                  className="flex items-center justify-between gap-3 rounded-md border p-3"
+                  data-testid={`row-invitation-${invitation.id}`}
+                >
+                  <div className="min-w-0">
+                    <p className="font-medium truncate">
+                      {invitation.name ? `${invitation.name} <${invitation.email}>` : invitation.email}
+                    </p>
+                    <p className="text-xs text-muted-foreground">
+                      {invitation.status === "expired"
+                        ? `Expired ${formatDistanceToNow(new Date(invitation.expiresAt), { addSuffix: true })}`
+                        : `Expires ${formatDistanceToNow(new Date(invitation.expiresAt), { addSuffix: true })}`}
+                    </p>
+                  </div>
+                  <div className="flex items-center gap-2 shrink-0">
+                    <Badge variant="outline" className={roleBadge.className}>
+                      {roleBadge.label}
+                    </Badge>
+                    {invitation.status === "expired" && <Badge variant="secondary">Expired</Badge>}
+                    <Button
+                      size="sm"
+                      variant="outline"
+                      onClick={() => resendInvitationMutation.mutate(invitation.id)}
+                      disabled={resendInvitationMutation.isPending}
+                      data-testid={`button-resend-invitation-${invitation.id}`}
+                    >
+                      <RotateCw className="h-3 w-3 mr-1" />
+                      Resend
+                    </Button>
+                    <Button
+                      size="sm"
+                      variant="ghost"
+                      onClick={() => revokeInvitationMutation.mutate(invitation.id)}
+                      disabled={revokeInvitationMutation.isPending}
+                      data-testid={`button-revoke-invitation-${invitation.id}`}
+                    >
+                      <X className="h-3 w-3 mr-1" />
+                      Revoke
+                    </Button>
+                  </div>
+                </div>
+              );
+            })}
+          </CardContent>
+        </Card>
+      )}
+
       <div className="space-y-6">
         {admins.length > 0 && (
           <div>
@@ -390,7 +562,7 @@ export default function Team() {
           <div>
             <h2 className="text-lg font-semibold mb-3 flex items-center gap-2">
               <UsersIcon className="h-5 w-5" />
-              Unassigned Sales Representatives
+              Unassigned Team Members
             </h2>
             <div className="grid gap-3 md:grid-cols-2 lg:grid-cols-3">
               {unassignedReps.map((rep) => (
@@ -425,7 +597,7 @@ export default function Team() {
               <div>
                 <h3 className="font-semibold">No team members yet</h3>
                 <p className="text-sm text-muted-foreground mt-1">
-                  Add your first team member to get started
+                  Invite your first team member to get started
                 </p>
               </div>
             </div>
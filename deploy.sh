@@ -79,10 +79,13 @@ ssh -t $VPS_USER@$VPS_IP << EOF
 NODE_ENV=production
 DATABASE_URL=postgresql://postgres:postgres@db:5432/leadflow_crm
 SESSION_SECRET=$(openssl rand -hex 32)
+ENCRYPTION_KEYS=1:$(openssl rand -base64 32)
+APP_URL=http://$VPS_IP
+MAIL_TRANSPORT=file
 OPENAI_API_KEY=dummy_key_please_change
 PORT=5000
 EOL
-      echo "Created default .env file. Please update OPENAI_API_KEY later."
+      echo "Created default .env file. Please update OPENAI_API_KEY later, APP_URL once a domain points here, and MAIL_TRANSPORT=ms365 with MAIL_FROM to deliver invitations."
   fi
 
   echo -e "${GREEN}5. Starting Services...${NC}"
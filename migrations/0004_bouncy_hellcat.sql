@@ -0,0 +1 @@
+ALTER TABLE "assignment_rules" ADD COLUMN "round_robin_cursor" integer DEFAULT 0 NOT NULL;
\ No newline at end of file
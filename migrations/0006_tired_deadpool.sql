@@ -0,0 +1 @@
+ALTER TABLE "automation_logs" ADD COLUMN "entity_key" text;
\ No newline at end of file
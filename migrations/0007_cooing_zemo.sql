@@ -0,0 +1 @@
+ALTER TABLE "leads" ADD COLUMN "unsubscribed_at" timestamp;
\ No newline at end of file
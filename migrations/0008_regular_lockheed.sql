@@ -0,0 +1,2 @@
+ALTER TABLE "automation_rules" ADD COLUMN "conditions" jsonb;--> statement-breakpoint
+ALTER TABLE "automation_rules" ADD COLUMN "actions" jsonb;
\ No newline at end of file
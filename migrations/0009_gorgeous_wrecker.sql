@@ -0,0 +1,5 @@
+ALTER TABLE "automation_logs" ADD COLUMN "chain_id" varchar;--> statement-breakpoint
+ALTER TABLE "automation_logs" ADD COLUMN "depth" integer DEFAULT 0 NOT NULL;--> statement-breakpoint
+ALTER TABLE "automation_logs" ADD COLUMN "suppressed_reason" text;--> statement-breakpoint
+ALTER TABLE "automation_rules" ADD COLUMN "frequency" text DEFAULT 'every_time' NOT NULL;--> statement-breakpoint
+ALTER TABLE "automation_rules" ADD COLUMN "cooldown_hours" integer;
\ No newline at end of file
@@ -0,0 +1,3 @@
+ALTER TABLE "sync_state" ADD COLUMN "sent_delta_token" text;--> statement-breakpoint
+-- Saved tokens are /me/messages page links from before delta sync; start a fresh delta round
+UPDATE "sync_state" SET "delta_token" = NULL WHERE "delta_token" NOT LIKE '%/delta%';
\ No newline at end of file
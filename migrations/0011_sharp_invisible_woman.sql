@@ -0,0 +1,7 @@
+ALTER TABLE "conversations" ADD COLUMN "thread_id" text;--> statement-breakpoint
+ALTER TABLE "conversations" ADD COLUMN "internet_message_id" text;--> statement-breakpoint
+ALTER TABLE "conversations" ADD COLUMN "in_reply_to" text;--> statement-breakpoint
+ALTER TABLE "conversations" ADD COLUMN "references" text[];--> statement-breakpoint
+ALTER TABLE "conversations" ADD COLUMN "cc_emails" text[];--> statement-breakpoint
+ALTER TABLE "conversations" ADD COLUMN "bcc_emails" text[];--> statement-breakpoint
+ALTER TABLE "conversations" ADD COLUMN "attachments" jsonb;
\ No newline at end of file
@@ -0,0 +1,16 @@
+CREATE TABLE "saved_views" (
+	"id" varchar PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"name" text NOT NULL,
+	"entity_type" text NOT NULL,
+	"visibility" text DEFAULT 'private' NOT NULL,
+	"filters" jsonb DEFAULT '{}'::jsonb NOT NULL,
+	"sort" text,
+	"columns" text[] DEFAULT ARRAY[]::text[] NOT NULL,
+	"owner_id" varchar NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "automation_rules" ADD COLUMN "saved_view_id" varchar;--> statement-breakpoint
+ALTER TABLE "saved_views" ADD CONSTRAINT "saved_views_owner_id_users_id_fk" FOREIGN KEY ("owner_id") REFERENCES "public"."users"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "automation_rules" ADD CONSTRAINT "automation_rules_saved_view_id_saved_views_id_fk" FOREIGN KEY ("saved_view_id") REFERENCES "public"."saved_views"("id") ON DELETE set null ON UPDATE no action;
\ No newline at end of file
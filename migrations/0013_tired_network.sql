@@ -0,0 +1,34 @@
+CREATE TABLE "lead_import_items" (
+	"id" varchar PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"import_id" varchar NOT NULL,
+	"lead_id" varchar NOT NULL,
+	"action" text NOT NULL,
+	"previous" jsonb,
+	"created_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE "lead_imports" (
+	"id" varchar PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"file_name" text NOT NULL,
+	"status" text DEFAULT 'draft' NOT NULL,
+	"headers" text[] NOT NULL,
+	"rows" jsonb DEFAULT '[]'::jsonb NOT NULL,
+	"mapping" jsonb,
+	"dedupe_strategy" text DEFAULT 'skip' NOT NULL,
+	"dedupe_field" text DEFAULT 'email' NOT NULL,
+	"created_count" integer DEFAULT 0 NOT NULL,
+	"updated_count" integer DEFAULT 0 NOT NULL,
+	"skipped_count" integer DEFAULT 0 NOT NULL,
+	"failed_count" integer DEFAULT 0 NOT NULL,
+	"errors" jsonb DEFAULT '[]'::jsonb NOT NULL,
+	"job_id" varchar,
+	"created_by" varchar NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"completed_at" timestamp,
+	"rolled_back_at" timestamp
+);
+--> statement-breakpoint
+ALTER TABLE "lead_import_items" ADD CONSTRAINT "lead_import_items_import_id_lead_imports_id_fk" FOREIGN KEY ("import_id") REFERENCES "public"."lead_imports"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "lead_import_items" ADD CONSTRAINT "lead_import_items_lead_id_leads_id_fk" FOREIGN KEY ("lead_id") REFERENCES "public"."leads"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "lead_imports" ADD CONSTRAINT "lead_imports_job_id_jobs_id_fk" FOREIGN KEY ("job_id") REFERENCES "public"."jobs"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "lead_imports" ADD CONSTRAINT "lead_imports_created_by_users_id_fk" FOREIGN KEY ("created_by") REFERENCES "public"."users"("id") ON DELETE cascade ON UPDATE no action;
\ No newline at end of file
@@ -0,0 +1,12 @@
+CREATE TABLE "lead_duplicate_dismissals" (
+	"id" varchar PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"lead_id_a" varchar NOT NULL,
+	"lead_id_b" varchar NOT NULL,
+	"dismissed_by" varchar,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	CONSTRAINT "lead_duplicate_dismissals_pair" UNIQUE("lead_id_a","lead_id_b")
+);
+--> statement-breakpoint
+ALTER TABLE "lead_duplicate_dismissals" ADD CONSTRAINT "lead_duplicate_dismissals_lead_id_a_leads_id_fk" FOREIGN KEY ("lead_id_a") REFERENCES "public"."leads"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "lead_duplicate_dismissals" ADD CONSTRAINT "lead_duplicate_dismissals_lead_id_b_leads_id_fk" FOREIGN KEY ("lead_id_b") REFERENCES "public"."leads"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "lead_duplicate_dismissals" ADD CONSTRAINT "lead_duplicate_dismissals_dismissed_by_users_id_fk" FOREIGN KEY ("dismissed_by") REFERENCES "public"."users"("id") ON DELETE set null ON UPDATE no action;
\ No newline at end of file
@@ -0,0 +1,24 @@
+CREATE TABLE "companies" (
+	"id" varchar PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"name" text NOT NULL,
+	"domain" text NOT NULL,
+	"website" text,
+	"industry" text,
+	"size" text,
+	"revenue" text,
+	"founded_year" integer,
+	"linkedin_url" text,
+	"phone" text,
+	"city" text,
+	"country" text,
+	"description" text,
+	"owner_id" varchar,
+	"enriched_at" timestamp,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL,
+	CONSTRAINT "companies_domain_unique" UNIQUE("domain")
+);
+--> statement-breakpoint
+ALTER TABLE "leads" ADD COLUMN "company_id" varchar;--> statement-breakpoint
+ALTER TABLE "companies" ADD CONSTRAINT "companies_owner_id_users_id_fk" FOREIGN KEY ("owner_id") REFERENCES "public"."users"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "leads" ADD CONSTRAINT "leads_company_id_companies_id_fk" FOREIGN KEY ("company_id") REFERENCES "public"."companies"("id") ON DELETE set null ON UPDATE no action;
\ No newline at end of file
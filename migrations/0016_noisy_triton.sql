@@ -0,0 +1,15 @@
+CREATE TABLE "deal_contacts" (
+	"id" varchar PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"deal_id" varchar NOT NULL,
+	"lead_id" varchar NOT NULL,
+	"role" text NOT NULL,
+	"influence" text DEFAULT 'medium' NOT NULL,
+	"notes" text,
+	"added_by" varchar,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	CONSTRAINT "deal_contacts_deal_lead" UNIQUE("deal_id","lead_id")
+);
+--> statement-breakpoint
+ALTER TABLE "deal_contacts" ADD CONSTRAINT "deal_contacts_deal_id_deals_id_fk" FOREIGN KEY ("deal_id") REFERENCES "public"."deals"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "deal_contacts" ADD CONSTRAINT "deal_contacts_lead_id_leads_id_fk" FOREIGN KEY ("lead_id") REFERENCES "public"."leads"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "deal_contacts" ADD CONSTRAINT "deal_contacts_added_by_users_id_fk" FOREIGN KEY ("added_by") REFERENCES "public"."users"("id") ON DELETE set null ON UPDATE no action;
\ No newline at end of file
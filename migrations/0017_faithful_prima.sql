@@ -0,0 +1,31 @@
+CREATE TABLE "deal_line_items" (
+	"id" varchar PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"deal_id" varchar NOT NULL,
+	"product_id" varchar,
+	"name" text NOT NULL,
+	"unit_price" integer NOT NULL,
+	"quantity" integer DEFAULT 1 NOT NULL,
+	"discount_percent" integer DEFAULT 0 NOT NULL,
+	"billing_type" text NOT NULL,
+	"billing_period" text,
+	"position" integer DEFAULT 0 NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE "products" (
+	"id" varchar PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"name" text NOT NULL,
+	"sku" text,
+	"description" text,
+	"unit_price" integer DEFAULT 0 NOT NULL,
+	"currency" text DEFAULT 'USD' NOT NULL,
+	"billing_type" text DEFAULT 'one_time' NOT NULL,
+	"billing_period" text,
+	"is_active" integer DEFAULT 1 NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL,
+	CONSTRAINT "products_sku_unique" UNIQUE("sku")
+);
+--> statement-breakpoint
+ALTER TABLE "deal_line_items" ADD CONSTRAINT "deal_line_items_deal_id_deals_id_fk" FOREIGN KEY ("deal_id") REFERENCES "public"."deals"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "deal_line_items" ADD CONSTRAINT "deal_line_items_product_id_products_id_fk" FOREIGN KEY ("product_id") REFERENCES "public"."products"("id") ON DELETE set null ON UPDATE no action;
\ No newline at end of file
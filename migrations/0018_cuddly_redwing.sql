@@ -0,0 +1,18 @@
+CREATE TABLE "currency_settings" (
+	"id" varchar PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"base_currency" text DEFAULT 'USD' NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE "exchange_rates" (
+	"id" varchar PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"currency" text NOT NULL,
+	"quote_currency" text NOT NULL,
+	"rate" double precision NOT NULL,
+	"effective_date" timestamp NOT NULL,
+	"created_by" varchar,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	CONSTRAINT "exchange_rates_pair_date" UNIQUE("currency","quote_currency","effective_date")
+);
+--> statement-breakpoint
+ALTER TABLE "exchange_rates" ADD CONSTRAINT "exchange_rates_created_by_users_id_fk" FOREIGN KEY ("created_by") REFERENCES "public"."users"("id") ON DELETE set null ON UPDATE no action;
\ No newline at end of file
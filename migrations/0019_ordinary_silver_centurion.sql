@@ -0,0 +1,16 @@
+CREATE TABLE "quotas" (
+	"id" varchar PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"user_id" varchar NOT NULL,
+	"scope" text DEFAULT 'individual' NOT NULL,
+	"metric" text NOT NULL,
+	"period_type" text NOT NULL,
+	"period_start" timestamp NOT NULL,
+	"target" integer NOT NULL,
+	"created_by" varchar,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL,
+	CONSTRAINT "quotas_user_scope_metric_period" UNIQUE("user_id","scope","metric","period_type","period_start")
+);
+--> statement-breakpoint
+ALTER TABLE "quotas" ADD CONSTRAINT "quotas_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "quotas" ADD CONSTRAINT "quotas_created_by_users_id_fk" FOREIGN KEY ("created_by") REFERENCES "public"."users"("id") ON DELETE set null ON UPDATE no action;
\ No newline at end of file
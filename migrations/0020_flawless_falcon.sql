@@ -0,0 +1,14 @@
+CREATE TABLE "roles" (
+	"id" varchar PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"key" text NOT NULL,
+	"name" text NOT NULL,
+	"description" text,
+	"permissions" text[] DEFAULT ARRAY[]::text[] NOT NULL,
+	"hidden_fields" jsonb DEFAULT '{}'::jsonb NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL,
+	CONSTRAINT "roles_key_unique" UNIQUE("key")
+);
+--> statement-breakpoint
+-- Managers were created as "sales_manager" by the team page and seed data; the permission checks use "manager"
+UPDATE "users" SET "role" = 'manager' WHERE "role" = 'sales_manager';
\ No newline at end of file
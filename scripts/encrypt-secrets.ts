@@ -0,0 +1,67 @@
+import "dotenv/config";
+import { eq } from "drizzle-orm";
+import { db, pool } from "../server/db";
+import { syncState, linkedInSessions } from "../shared/schema";
+import { getEncryptor } from "../server/encryption";
+
+/**
+ * Encrypt stored credentials with the current key in ENCRYPTION_KEYS
+ *
+ * Re-writes MS365 tokens in sync_state and cookies in linkedin_sessions that
+ * are still plaintext or were encrypted with an older key version, so it is
+ * run once when encryption is enabled and again after every key rotation.
+ * Older keys must stay in ENCRYPTION_KEYS until it has finished.
+ *
+ * Usage: npm run db:encrypt-secrets [-- --dry-run]
+ */
+async function encryptSecrets(dryRun: boolean) {
+    const encryptor = getEncryptor();
+    if (!encryptor.enabled) {
+        throw new Error("ENCRYPTION_KEYS is not set");
+    }
+    console.log(`🔐 Encrypting credentials with key ${encryptor.currentVersion}${dryRun ? " (dry run)" : ""}`);
+
+    const reencrypt = (value: string) => encryptor.encrypt(encryptor.decrypt(value));
+
+    let tokens = 0;
+    for (const row of await db.select().from(syncState)) {
+        const changes: { accessToken?: string; refreshToken?: string } = {};
+        if (row.accessToken && encryptor.needsReencryption(row.accessToken)) {
+            changes.accessToken = reencrypt(row.accessToken);
+        }
+        if (row.refreshToken && encryptor.needsReencryption(row.refreshToken)) {
+            changes.refreshToken = reencrypt(row.refreshToken);
+        }
+        if (Object.keys(changes).length === 0) continue;
+
+        tokens++;
+        if (!dryRun) {
+            await db.update(syncState).set(changes).where(eq(syncState.id, row.id));
+        }
+    }
+    console.log(`  sync_state: ${tokens} row(s) ${dryRun ? "to update" : "updated"}`);
+
+    let sessions = 0;
+    for (const row of await db.select().from(linkedInSessions)) {
+        // Plaintext cookies are a JSON array; encrypted ones a tagged string
+        const stored = row.cookies;
+        if (typeof stored === "string" && !encryptor.needsReencryption(stored)) continue;
+
+        sessions++;
+        if (!dryRun) {
+            await db
+                .update(linkedInSessions)
+                .set({ cookies: encryptor.encryptJson(encryptor.decryptJson(stored)) })
+                .where(eq(linkedInSessions.id, row.id));
+        }
+    }
+    console.log(`  linkedin_sessions: ${sessions} row(s) ${dryRun ? "to update" : "updated"}`);
+    console.log("✅ Done");
+}
+
+encryptSecrets(process.argv.includes("--dry-run"))
+    .catch((error) => {
+        console.error("❌ Encryption failed:", error);
+        process.exitCode = 1;
+    })
+    .finally(() => pool.end());
@@ -1,4 +1,5 @@
 import { bedrock } from "./services/bedrock.js";
+import { dealContactRoleLabels, type ContactEngagement } from "@shared/deal-contacts";
 
 // Using AWS Bedrock Claude 3.5 Sonnet with cross-region inference profile
 const MODEL = "us.anthropic.claude-3-5-sonnet-20240620-v1:0";
@@ -11,10 +12,34 @@ export interface LeadScoreAnalysis {
     engagement: number;
     intent: number;
     urgency: number;
+    responseTime: number;
+    averageResponseHours: number | null;
+    weights: ScoringWeights;
     context: string;
   };
 }
 
+export interface ScoringWeights {
+  sentimentWeight: number;
+  engagementWeight: number;
+  responseTimeWeight: number;
+  intentWeight: number;
+}
+
+export const DEFAULT_SCORING_WEIGHTS: ScoringWeights = {
+  sentimentWeight: 25,
+  engagementWeight: 25,
+  responseTimeWeight: 25,
+  intentWeight: 25,
+};
+
+type ScoredConversation = {
+  subject: string;
+  body: string;
+  isFromLead: boolean;
+  sentAt: Date;
+};
+
 export interface ConversationSummary {
   summary: string;
   keyPoints: string[];
@@ -52,28 +77,131 @@ export interface DealForecast {
   estimatedCloseDate: string | null;
 }
 
+/**
+ * Map a 0-100 score to its cold/warm/hot band
+ */
+export function scoreToStatus(score: number): "cold" | "warm" | "hot" {
+  if (score >= 67) return "hot";
+  if (score >= 34) return "warm";
+  return "cold";
+}
+
+/**
+ * Measure how quickly the lead replies to our outbound emails
+ *
+ * Pairs every outbound message with the first lead reply after it and
+ * maps the average delay onto the 1-10 factor scale.
+ */
+export function measureResponseTime(conversations: ScoredConversation[]): {
+  score: number;
+  averageHours: number | null;
+} {
+  const sorted = [...conversations].sort(
+    (a, b) => new Date(a.sentAt).getTime() - new Date(b.sentAt).getTime()
+  );
+
+  const delays: number[] = [];
+  let pendingOutboundAt: number | null = null;
+
+  for (const message of sorted) {
+    const sentAt = new Date(message.sentAt).getTime();
+    if (!message.isFromLead) {
+      // Only the first unanswered outbound message starts the clock
+      if (pendingOutboundAt === null) pendingOutboundAt = sentAt;
+      continue;
+    }
+    if (pendingOutboundAt !== null) {
+      delays.push((sentAt - pendingOutboundAt) / (1000 * 60 * 60));
+      pendingOutboundAt = null;
+    }
+  }
+  if (delays.length === 0) {
+    // We reached out and never heard back, or there is nothing to measure yet
+    return { score: pendingOutboundAt !== null ? 1 : 3, averageHours: null };
+  }
+
+  const averageHours = delays.reduce((sum, d) => sum + d, 0) / delays.length;
+  const bands: Array<[number, number]> = [
+    [1, 10],
+    [4, 9],
+    [12, 8],
+    [24, 7],
+    [48, 6],
+    [72, 5],
+    [24 * 7, 4],
+    [24 * 14, 3],
+  ];
+  const band = bands.find(([maxHours]) => averageHours <= maxHours);
+
+  return {
+    score: band ? band[1] : 2,
+    averageHours: Math.round(averageHours * 10) / 10,
+  };
+}
+
+/**
+ * Combine 1-10 factor scores into a 0-100 lead score using the configured weights
+ */
+export function computeWeightedScore(
+  factors: { sentiment: number; engagement: number; responseTime: number; intent: number },
+  weights: ScoringWeights
+): number {
+  const parts: Array<[number, number]> = [
+    [factors.sentiment, weights.sentimentWeight],
+    [factors.engagement, weights.engagementWeight],
+    [factors.responseTime, weights.responseTimeWeight],
+    [factors.intent, weights.intentWeight],
+  ];
+  const totalWeight = parts.reduce((sum, [, weight]) => sum + Math.max(0, weight), 0);
+
+  // All weights zeroed out - fall back to an even split
+  const effective = totalWeight > 0
+    ? parts
+    : parts.map(([value]) => [value, 1] as [number, number]);
+  const weightSum = totalWeight > 0 ? totalWeight : parts.length;
+
+  const weighted = effective.reduce(
+    (sum, [value, weight]) => sum + (value / 10) * Math.max(0, weight),
+    0
+  );
+
+  return Math.max(0, Math.min(100, Math.round((weighted / weightSum) * 100)));
+}
+
 export async function analyzeLeadConversations(
   leadName: string,
   leadEmail: string,
-  conversations: Array<{
-    subject: string;
-    body: string;
-    isFromLead: boolean;
-    sentAt: Date;
-  }>
+  conversations: ScoredConversation[],
+  weights: ScoringWeights = DEFAULT_SCORING_WEIGHTS
 ): Promise<LeadScoreAnalysis> {
-  if (!conversations || conversations.length === 0) {
+  const buildAnalysis = (
+    factors: { sentiment: number; engagement: number; intent: number; urgency: number },
+    context: string
+  ): LeadScoreAnalysis => {
+    const responseTime = measureResponseTime(conversations || []);
+    const score = computeWeightedScore(
+      { ...factors, responseTime: responseTime.score },
+      weights
+    );
+
     return {
-      score: 25,
-      status: "cold",
+      score,
+      status: scoreToStatus(score),
       factors: {
-        sentiment: 3,
-        engagement: 2,
-        intent: 2,
-        urgency: 2,
-        context: "No conversation history available yet. Initial score assigned.",
+        ...factors,
+        responseTime: responseTime.score,
+        averageResponseHours: responseTime.averageHours,
+        weights,
+        context,
       },
     };
+  };
+
+  if (!conversations || conversations.length === 0) {
+    return buildAnalysis(
+      { sentiment: 3, engagement: 2, intent: 2, urgency: 2 },
+      "No conversation history available yet. Initial score assigned."
+    );
   }
 
   const conversationSummary = conversations
@@ -97,20 +225,15 @@ Score each factor from 1-10:
 - Intent: Buying signals and interest level
 - Urgency: Timeline and immediacy
 
-Calculate an overall score (0-100) where:
-- 0-33: Cold lead (low interest, minimal engagement)
-- 34-66: Warm lead (showing interest, moderate engagement)
-- 67-100: Hot lead (strong intent, high engagement, ready to convert)
+Do not calculate an overall score; it is derived from these factors.
 
 Respond with JSON in this exact format:
 {
-  "score": number (0-100),
-  "status": "cold" | "warm" | "hot",
   "sentiment": number (1-10),
   "engagement": number (1-10),
   "intent": number (1-10),
   "urgency": number (1-10),
-  "context": "brief explanation of the score"
+  "context": "brief explanation of the factor scores"
 }`,
         },
         {
@@ -131,35 +254,21 @@ Provide a comprehensive lead score analysis.`,
 
     const result = JSON.parse(response.choices[0].message.content || "{}");
 
-    const score = Math.max(0, Math.min(100, result.score || 25));
-    let status: "cold" | "warm" | "hot" = "cold";
-    if (score >= 67) status = "hot";
-    else if (score >= 34) status = "warm";
-
-    return {
-      score,
-      status,
-      factors: {
+    return buildAnalysis(
+      {
         sentiment: Math.max(1, Math.min(10, result.sentiment || 5)),
         engagement: Math.max(1, Math.min(10, result.engagement || 5)),
         intent: Math.max(1, Math.min(10, result.intent || 5)),
         urgency: Math.max(1, Math.min(10, result.urgency || 5)),
-        context: result.context || "Analysis completed",
       },
-    };
+      result.context || "Analysis completed"
+    );
   } catch (error) {
     console.error("Error analyzing lead:", error);
-    return {
-      score: 25,
-      status: "cold",
-      factors: {
-        sentiment: 5,
-        engagement: 3,
-        intent: 3,
-        urgency: 3,
-        context: "Error during analysis. Default score assigned.",
-      },
-    };
+    return buildAnalysis(
+      { sentiment: 5, engagement: 3, intent: 3, urgency: 3 },
+      "Error during analysis. Default factor scores assigned."
+    );
   }
 }
 
@@ -548,9 +657,21 @@ export async function predictDealOutcome(
     totalConversations: number;
     lastContactDays: number;
     stageChanges: number;
-  }
+  },
+  committee: ContactEngagement[] = []
 ): Promise<DealForecast> {
   try {
+    const committeeLines = committee.length > 0
+      ? committee.map((person) => {
+          const role = person.role === "primary" ? "Primary contact" : dealContactRoleLabels[person.role];
+          const lastContact = person.lastContactDays === null ? "never contacted" : `last contact ${person.lastContactDays} days ago`;
+          return `- ${person.name} (${role}, ${person.influence} influence): ${person.conversations} conversations, ${person.replies} replies, ${lastContact}`;
+        }).join("\n")
+      : "- No contacts linked to this deal";
+    const missingRoles = (["champion", "economic_buyer"] as const)
+      .filter((role) => !committee.some((person) => person.role === role))
+      .map((role) => dealContactRoleLabels[role]);
+
     const response = await bedrock.chat.completions.create({
       model: MODEL,
       messages: [
@@ -565,6 +686,7 @@ Consider these critical factors:
 4. Days until expected close
 5. Stage progression history
 6. Recent contact patterns
+7. Buying committee coverage and how engaged each member is (an unengaged champion or economic buyer is a risk)
 
 Provide:
 - Win probability (0-100%)
@@ -606,6 +728,10 @@ Conversation Metrics:
 - Days since last contact: ${engagementMetrics.lastContactDays}
 - Stage changes: ${engagementMetrics.stageChanges}
 
+Buying Committee:
+${committeeLines}
+${missingRoles.length > 0 ? `Roles not yet identified: ${missingRoles.join(", ")}` : "Champion and economic buyer identified"}
+
 Provide win/loss prediction with analysis.`,
         },
       ],
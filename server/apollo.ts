@@ -1,4 +1,4 @@
-import type { Lead } from "@shared/schema";
+import type { Company, Lead } from "@shared/schema";
 
 interface ApolloSearchFilters {
   // Person filters
@@ -253,3 +253,69 @@ export function mapApolloContactToLead(apolloContact: ApolloPerson): Partial<Lea
 
   return leadData;
 }
+
+interface ApolloOrganization {
+  name?: string;
+  website_url?: string;
+  primary_domain?: string;
+  linkedin_url?: string;
+  industry?: string;
+  estimated_num_employees?: number;
+  annual_revenue_printed?: string;
+  founded_year?: number;
+  phone?: string;
+  primary_phone?: {
+    number?: string;
+  };
+  city?: string;
+  country?: string;
+  short_description?: string;
+}
+
+/**
+ * Look up a company by domain
+ * Uses GET /api/v1/organizations/enrich; resolves with null when Apollo does not know the domain
+ */
+export async function enrichApolloOrganization(domain: string): Promise<Partial<Company> | null> {
+  const apiKey = process.env.APOLLO_API_KEY;
+
+  if (!apiKey) {
+    throw new Error("Apollo API key not configured");
+  }
+
+  const response = await fetch(`https://api.apollo.io/api/v1/organizations/enrich?domain=${encodeURIComponent(domain)}`, {
+    headers: {
+      "Content-Type": "application/json",
+      "x-api-key": apiKey,
+    },
+  });
+
+  if (response.status === 404) {
+    return null;
+  }
+
+  if (!response.ok) {
+    const errorText = await response.text();
+    throw new Error(`Apollo API error: ${response.status} - ${errorText}`);
+  }
+
+  const { organization: org }: { organization?: ApolloOrganization } = await response.json();
+  if (!org) {
+    return null;
+  }
+
+  const company: Partial<Company> = {};
+  if (org.name) company.name = org.name;
+  if (org.website_url) company.website = org.website_url;
+  if (org.linkedin_url) company.linkedinUrl = org.linkedin_url;
+  if (org.industry) company.industry = org.industry;
+  if (org.estimated_num_employees) company.size = String(org.estimated_num_employees);
+  if (org.annual_revenue_printed) company.revenue = org.annual_revenue_printed;
+  if (org.founded_year) company.foundedYear = org.founded_year;
+  if (org.primary_phone?.number || org.phone) company.phone = org.primary_phone?.number || org.phone || null;
+  if (org.city) company.city = org.city;
+  if (org.country) company.country = org.country;
+  if (org.short_description) company.description = org.short_description;
+
+  return company;
+}
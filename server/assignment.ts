@@ -0,0 +1,206 @@
+import { storage } from "./storage";
+import type { AssignmentRule, Lead, User } from "@shared/schema";
+
+/**
+ * Assignment Engine
+ *
+ * Decides who owns a newly created lead by evaluating the active
+ * assignment rules in priority order:
+ * - score_threshold: { minScore?, maxScore? } (or a bare number used as minScore)
+ * - territory: { countries?, states?, cities? } (or a bare array of countries)
+ * - round_robin: { userIds? } - rotates through the listed users, or all active sales reps
+ *
+ * The first matching rule wins. Leads created with an explicit owner keep it.
+ */
+
+export interface AssignmentOptions {
+  /** Owner to fall back to when no rule matches (usually the creating user) */
+  fallbackOwnerId?: string;
+  /** Where the lead came from, recorded on the activity (api, apollo, saleshandy, ...) */
+  source?: string;
+}
+
+export interface AssignmentResult {
+  lead: Lead;
+  userId: string | null;
+  assignedBy: string | null; // rule id, "manual" or "auto"
+}
+
+export class AssignmentEngine {
+  /**
+   * Assign a lead that was just created and record the assignment
+   */
+  async assignNewLead(lead: Lead, options: AssignmentOptions = {}): Promise<AssignmentResult> {
+    // Caller picked an owner explicitly - respect it and just record the history
+    if (lead.ownerId) {
+      await storage.createLeadAssignment({
+        leadId: lead.id,
+        userId: lead.ownerId,
+        assignedBy: "manual",
+      });
+      return { lead, userId: lead.ownerId, assignedBy: "manual" };
+    }
+
+    const users = await storage.getUsers();
+    const activeUsers = users.filter((u) => u.isActive === 1);
+
+    const rules = await storage.getAssignmentRules();
+    const activeRules = rules
+      .filter((r) => r.isActive === 1)
+      .sort((a, b) => b.priority - a.priority);
+
+    for (const rule of activeRules) {
+      try {
+        const userId = await this.evaluateRule(rule, lead, activeUsers);
+        if (userId) {
+          const assigned = await this.applyAssignment(lead, userId, rule.id, {
+            ruleName: rule.name,
+            condition: rule.condition,
+            source: options.source,
+          });
+          return { lead: assigned, userId, assignedBy: rule.id };
+        }
+      } catch (error) {
+        console.error(`Assignment rule ${rule.id} failed:`, error);
+      }
+    }
+
+    if (options.fallbackOwnerId) {
+      const assigned = await this.applyAssignment(lead, options.fallbackOwnerId, "auto", {
+        source: options.source,
+      });
+      return { lead: assigned, userId: options.fallbackOwnerId, assignedBy: "auto" };
+    }
+
+    return { lead, userId: null, assignedBy: null };
+  }
+
+  /**
+   * Return the user a rule assigns this lead to, or null if the rule does not apply
+   */
+  private async evaluateRule(
+    rule: AssignmentRule,
+    lead: Lead,
+    activeUsers: User[]
+  ): Promise<string | null> {
+    const isActiveUser = (id: string | null | undefined) =>
+      !!id && activeUsers.some((u) => u.id === id);
+
+    switch (rule.condition) {
+      case "score_threshold":
+        if (!this.matchesScoreThreshold(rule.conditionValue, lead.score)) return null;
+        return isActiveUser(rule.assignToUserId) ? rule.assignToUserId : null;
+
+      case "territory":
+        if (!this.matchesTerritory(rule.conditionValue, lead)) return null;
+        return isActiveUser(rule.assignToUserId) ? rule.assignToUserId : null;
+
+      case "round_robin":
+        return this.nextRoundRobinUser(rule, activeUsers);
+
+      default:
+        console.warn(`Unknown assignment condition "${rule.condition}" on rule ${rule.id}`);
+        return null;
+    }
+  }
+
+  /**
+   * Check lead score against { minScore, maxScore } (or a bare minimum)
+   */
+  private matchesScoreThreshold(value: unknown, score: number): boolean {
+    if (typeof value === "number") {
+      return score >= value;
+    }
+
+    const conditions = (value || {}) as { minScore?: number; maxScore?: number };
+    if (conditions.minScore === undefined && conditions.maxScore === undefined) {
+      return false;
+    }
+    if (conditions.minScore !== undefined && score < conditions.minScore) {
+      return false;
+    }
+    if (conditions.maxScore !== undefined && score > conditions.maxScore) {
+      return false;
+    }
+    return true;
+  }
+
+  /**
+   * Check lead location against the territory definition (case-insensitive)
+   */
+  private matchesTerritory(value: unknown, lead: Lead): boolean {
+    const territory = (Array.isArray(value) ? { countries: value } : value || {}) as {
+      countries?: string[];
+      states?: string[];
+      cities?: string[];
+    };
+
+    const matches = (list: string[] | undefined, field: string | null) => {
+      if (!list || list.length === 0) return true;
+      if (!field) return false;
+      const normalized = field.trim().toLowerCase();
+      return list.some((entry) => entry.trim().toLowerCase() === normalized);
+    };
+
+    const hasCriteria = [territory.countries, territory.states, territory.cities]
+      .some((list) => list && list.length > 0);
+    if (!hasCriteria) return false;
+
+    return (
+      matches(territory.countries, lead.country) &&
+      matches(territory.states, lead.state) &&
+      matches(territory.cities, lead.city)
+    );
+  }
+
+  /**
+   * Pick the next user in rotation, advancing the rule's persisted cursor
+   */
+  private async nextRoundRobinUser(rule: AssignmentRule, activeUsers: User[]): Promise<string | null> {
+    const config = (rule.conditionValue || {}) as { userIds?: string[] };
+
+    const pool = config.userIds && config.userIds.length > 0
+      ? config.userIds.filter((id) => activeUsers.some((u) => u.id === id))
+      : activeUsers
+          .filter((u) => u.role === "sales_rep")
+          .sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime())
+          .map((u) => u.id);
+
+    if (pool.length === 0) return null;
+
+    const position = await storage.advanceRoundRobinCursor(rule.id);
+    return pool[position % pool.length];
+  }
+
+  /**
+   * Set the owner, write the assignment row and log the activity
+   */
+  private async applyAssignment(
+    lead: Lead,
+    userId: string,
+    assignedBy: string,
+    metadata: Record<string, unknown>
+  ): Promise<Lead> {
+    const updated = await storage.updateLead(lead.id, { ownerId: userId });
+
+    await storage.createLeadAssignment({
+      leadId: lead.id,
+      userId,
+      assignedBy,
+    });
+
+    const assignee = await storage.getUser(userId);
+    await storage.createActivity({
+      leadId: lead.id,
+      type: "lead_assigned",
+      description: assignedBy === "auto"
+        ? `Lead assigned to ${assignee?.name || "creator"}`
+        : `Lead assigned to ${assignee?.name || "user"} by rule "${metadata.ruleName}"`,
+      metadata: { userId, assignedBy, ...metadata },
+    });
+
+    return updated || { ...lead, ownerId: userId };
+  }
+}
+
+export const assignmentEngine = new AssignmentEngine();
@@ -1,8 +1,9 @@
 import bcrypt from 'bcryptjs';
 import { db } from './db';
-import { users, sessions } from '../shared/schema';
-import { eq } from 'drizzle-orm';
+import { users, sessions, type Session } from '../shared/schema';
+import { and, desc, eq, gt, gte, ne, sql } from 'drizzle-orm';
 import { Request, Response, NextFunction } from 'express';
+import { twoFactorService } from './two-factor';
 
 // Extend Express Request to include user
 declare global {
@@ -19,6 +20,33 @@ declare global {
     }
 }
 
+const SESSION_DAYS = 7;
+const TWO_FACTOR_CHALLENGE_MINUTES = 5;
+const MAX_FAILED_LOGINS = 5;
+const LOCKOUT_MINUTES = 15;
+const LAST_SEEN_INTERVAL_MS = 5 * 60 * 1000; // Limits lastSeenAt writes to one per session every 5 minutes
+
+/**
+ * Sign-in failure with the HTTP status the auth routes should answer with
+ */
+export class AuthError extends Error {
+    constructor(message: string, public status: number = 401) {
+        super(message);
+    }
+}
+
+/**
+ * Where a sign-in came from, recorded on the session
+ */
+export interface ClientInfo {
+    ipAddress?: string;
+    userAgent?: string;
+}
+
+export type LoginResult =
+    | { sessionId: string; user: { id: string; email: string; name: string; role: string } }
+    | { twoFactorRequired: true; challengeId: string };
+
 export class AuthService {
     /**
      * Hash a password using bcrypt
@@ -34,6 +62,33 @@ export class AuthService {
         return bcrypt.compare(password, hash);
     }
 
+    /**
+     * Check a signed-in user's password before a sensitive change. Wrong passwords count
+     * toward the same lockout as failed sign-ins, and a locked account is refused.
+     */
+    static async checkPassword(userId: string, password: string): Promise<boolean> {
+        const user = await db.query.users.findFirst({
+            where: eq(users.id, userId),
+        });
+        if (!user?.passwordHash) return false;
+
+        this.assertNotLocked(user);
+        if (await this.comparePassword(password, user.passwordHash)) return true;
+        await this.recordFailedLogin(user.id);
+        return false;
+    }
+
+    /**
+     * Set a new password, clear any lockout and sign the user out everywhere
+     */
+    static async setPassword(userId: string, password: string) {
+        const passwordHash = await this.hashPassword(password);
+        await db.update(users)
+            .set({ passwordHash, failedLoginAttempts: 0, lockedUntil: null })
+            .where(eq(users.id, userId));
+        await db.delete(sessions).where(eq(sessions.userId, userId));
+    }
+
     /**
      * Create a new user
      */
@@ -68,36 +123,95 @@ export class AuthService {
     }
 
     /**
-     * Authenticate user and create session
+     * Authenticate user and create session. When the user has two-factor authentication
+     * enabled, returns a short-lived challenge to complete with verifyTwoFactor instead.
+     * Too many consecutive failures lock the account for LOCKOUT_MINUTES.
      */
-    static async login(email: string, password: string) {
+    static async login(email: string, password: string, client: ClientInfo = {}): Promise<LoginResult> {
         // Find user
         const user = await db.query.users.findFirst({
             where: eq(users.email, email),
         });
 
         if (!user || !user.passwordHash) {
-            throw new Error('Invalid email or password');
+            throw new AuthError('Invalid email or password');
         }
 
         // Check if user is active
         if (user.isActive !== 1) {
-            throw new Error('Account is deactivated');
+            throw new AuthError('Account is deactivated');
         }
 
+        this.assertNotLocked(user);
+
         // Verify password
         const isValid = await this.comparePassword(password, user.passwordHash);
         if (!isValid) {
-            throw new Error('Invalid email or password');
+            await this.recordFailedLogin(user.id);
+            throw new AuthError('Invalid email or password');
+        }
+
+        if (await twoFactorService.isEnabled(user.id)) {
+            const expiresAt = new Date(Date.now() + TWO_FACTOR_CHALLENGE_MINUTES * 60 * 1000);
+            const [challenge] = await db.insert(sessions).values({
+                userId: user.id,
+                expiresAt,
+                twoFactorPending: 1,
+                ...client,
+            }).returning();
+            return { twoFactorRequired: true, challengeId: challenge.id };
+        }
+
+        return this.startSession(user, client);
+    }
+
+    /**
+     * Complete a two-factor sign-in with a TOTP or recovery code
+     */
+    static async verifyTwoFactor(challengeId: string, code: string, client: ClientInfo = {}): Promise<LoginResult> {
+        const challenge = await db.query.sessions.findFirst({
+            where: and(eq(sessions.id, challengeId), eq(sessions.twoFactorPending, 1)),
+            with: {
+                user: true,
+            },
+        });
+
+        if (!challenge || new Date() > challenge.expiresAt) {
+            throw new AuthError('Sign-in expired, please sign in again');
+        }
+
+        const user = challenge.user;
+        this.assertNotLocked(user);
+
+        if (!(await twoFactorService.verify(user.id, code))) {
+            const locked = await this.recordFailedLogin(user.id);
+            if (locked) {
+                await db.delete(sessions).where(eq(sessions.id, challengeId));
+            }
+            throw new AuthError('Invalid verification code');
+        }
+
+        // The challenge id was handed out before the second factor, so the session gets a new one
+        await db.delete(sessions).where(eq(sessions.id, challengeId));
+        return this.startSession(user, client);
+    }
+
+    private static async startSession(user: typeof users.$inferSelect, client: ClientInfo): Promise<LoginResult> {
+        if (user.failedLoginAttempts > 0 || user.lockedUntil) {
+            await db.update(users)
+                .set({ failedLoginAttempts: 0, lockedUntil: null })
+                .where(eq(users.id, user.id));
         }
 
         // Create session (expires in 7 days)
         const expiresAt = new Date();
-        expiresAt.setDate(expiresAt.getDate() + 7);
+        expiresAt.setDate(expiresAt.getDate() + SESSION_DAYS);
 
         const [session] = await db.insert(sessions).values({
             userId: user.id,
             expiresAt,
+            lastSeenAt: new Date(),
+            ...client,
         }).returning();
 
         return {
@@ -111,6 +225,33 @@ export class AuthService {
         };
     }
 
+    private static assertNotLocked(user: typeof users.$inferSelect) {
+        if (user.lockedUntil && user.lockedUntil > new Date()) {
+            const minutes = Math.ceil((user.lockedUntil.getTime() - Date.now()) / 60000);
+            throw new AuthError(
+                `Account temporarily locked after too many failed sign-in attempts. Try again in ${minutes} minute${minutes === 1 ? '' : 's'}.`,
+                423,
+            );
+        }
+    }
+
+    /**
+     * Count a failed password or code; returns true when the account is now locked.
+     * The increment happens in the database so parallel guesses each count.
+     */
+    private static async recordFailedLogin(userId: string): Promise<boolean> {
+        const [row] = await db.update(users)
+            .set({ failedLoginAttempts: sql`${users.failedLoginAttempts} + 1` })
+            .where(eq(users.id, userId))
+            .returning({ failures: users.failedLoginAttempts });
+        if (!row || row.failures < MAX_FAILED_LOGINS) return false;
+
+        await db.update(users)
+            .set({ failedLoginAttempts: 0, lockedUntil: new Date(Date.now() + LOCKOUT_MINUTES * 60 * 1000) })
+            .where(and(eq(users.id, userId), gte(users.failedLoginAttempts, MAX_FAILED_LOGINS)));
+        return true;
+    }
+
     /**
      * Verify session and get user
      */
@@ -122,7 +263,8 @@ export class AuthService {
             },
         });
 
-        if (!session) {
+        // Sessions still waiting for their second factor do not authenticate
+        if (!session || session.twoFactorPending === 1) {
             return null;
         }
 
@@ -133,6 +275,10 @@ export class AuthService {
             return null;
         }
 
+        if (!session.lastSeenAt || Date.now() - session.lastSeenAt.getTime() > LAST_SEEN_INTERVAL_MS) {
+            await db.update(sessions).set({ lastSeenAt: new Date() }).where(eq(sessions.id, sessionId));
+        }
+
         return {
             id: session.user.id,
             email: session.user.email,
@@ -148,6 +294,39 @@ export class AuthService {
         await db.delete(sessions).where(eq(sessions.id, sessionId));
     }
 
+    /**
+     * A user's active sessions, most recently used first
+     */
+    static async listSessions(userId: string): Promise<Session[]> {
+        return db.select().from(sessions)
+            .where(and(
+                eq(sessions.userId, userId),
+                eq(sessions.twoFactorPending, 0),
+                gt(sessions.expiresAt, new Date()),
+            ))
+            .orderBy(desc(sessions.lastSeenAt), desc(sessions.createdAt));
+    }
+
+    /**
+     * Revoke one of the user's sessions; returns false if it is not theirs
+     */
+    static async revokeSession(userId: string, sessionId: string): Promise<boolean> {
+        const revoked = await db.delete(sessions)
+            .where(and(eq(sessions.id, sessionId), eq(sessions.userId, userId)))
+            .returning();
+        return revoked.length > 0;
+    }
+
+    /**
+     * Revoke every session of the user except the current one; returns how many were revoked
+     */
+    static async revokeOtherSessions(userId: string, currentSessionId: string): Promise<number> {
+        const revoked = await db.delete(sessions)
+            .where(and(eq(sessions.userId, userId), ne(sessions.id, currentSessionId)))
+            .returning();
+        return revoked.length;
+    }
+
     /**
      * Middleware to require authentication
      */
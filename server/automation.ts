@@ -1,6 +1,20 @@
+import { randomUUID } from "crypto";
 import { storage } from "./storage";
-import type { AutomationRule, Lead, Deal, Conversation } from "@shared/schema";
+import { jobQueue } from "./jobs";
+import type { AutomationRule, Lead, Deal, Conversation, Task, EmailTemplate, PipelineStage } from "@shared/schema";
 import { analyzeLeadConversations } from "./ai";
+import { ms365Integration } from "./ms365";
+import { buildMergeFields, renderEmailTemplate } from "./email-templates";
+import { evaluateConditions, type RuleFacts } from "./rule-conditions";
+import { savedViewService } from "./saved-views";
+import type {
+  AutomationAction,
+  ConditionNode,
+  RuleSimulation,
+  SimulatedAction,
+  SimulatedMatch,
+  SuppressionReason,
+} from "@shared/automation-rules";
 
 /**
  * Automation Engine
@@ -11,8 +25,38 @@ import { analyzeLeadConversations } from "./ai";
  * - Creating tasks
  * - Sending emails
  * - Assigning leads
+ *
+ * Time-based rules (triggerType "time_based") are evaluated by a periodic
+ * sweep instead of an event. triggerConditions.condition selects the check:
+ * - lead_not_contacted: { days, status?, minScore?, maxScore? }
+ * - deal_idle_in_stage: { days, stageId?, pipelineId? }
+ * - task_overdue: { days? (grace period), priority? }
+ * - close_date_passed: { days? (grace period), pipelineId? }
+ * A rule fires at most once per entity per window (windowHours, default
+ * the condition's day count or 24h), tracked via automation_logs.entityKey.
+ *
+ * Rules with a `conditions` tree are matched by evaluating the tree
+ * (see shared/automation-rules.ts) instead of the legacy triggerConditions
+ * checks, and run their `actions` list in order. A rule with a savedViewId
+ * only fires for records currently inside that saved view.
+ *
+ * Executions triggered by one original event share a chain id; an
+ * advance_stage action re-triggers deal stage rules one level deeper.
+ * A matched rule is suppressed (and logged with the reason) when the chain
+ * is deeper than AUTOMATION_MAX_CHAIN_DEPTH, when it already ran for the
+ * same entity earlier in the chain, or when its frequency setting
+ * (once_per_entity, cooldown) says it ran recently enough.
+ *
+ * simulateRule replays a rule over historical lead_scores, conversations
+ * and deal_stage_history rows and describes the actions it would have
+ * taken, without writing anything.
  */
 
+export interface AutomationChain {
+  id: string;
+  depth: number;
+}
+
 interface TriggerContext {
   lead?: Lead;
   deal?: Deal;
@@ -21,8 +65,58 @@ interface TriggerContext {
   newScore?: number;
   oldStageId?: string;
   newStageId?: string;
+  task?: Task;
+  entityKey?: string;
+  triggerData?: Record<string, unknown>;
+  previous?: Record<string, unknown>; // Field values before the change, e.g. { "lead.score": 40 }
+  chain?: AutomationChain;
+}
+
+export const timeBasedConditions = [
+  "lead_not_contacted",
+  "deal_idle_in_stage",
+  "task_overdue",
+  "close_date_passed",
+] as const;
+export type TimeBasedCondition = typeof timeBasedConditions[number];
+
+export interface TimeBasedRunSummary {
+  rulesEvaluated: number;
+  matched: number;
+  fired: number;
+  skipped: number; // Already fired for the entity within the window
+  failed: number;
+}
+
+interface TimeBasedData {
+  leads?: Lead[];
+  deals?: Deal[];
+  tasks?: Task[];
+}
+
+interface TimeBasedMatch {
+  entityKey: string;
+  context: TriggerContext;
 }
 
+interface SimulationEvent {
+  at: Date;
+  context: TriggerContext;
+  legacyCheck: () => boolean | Promise<boolean>;
+}
+
+// Lookups shared by every simulated action in one run
+interface SimulationCache {
+  templates: Map<string, EmailTemplate | undefined>;
+  stages: Map<string, PipelineStage[]>;
+  conversations: Map<string, Conversation[]>;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const EMAIL_THROTTLE_HOURS = parseInt(process.env.AUTOMATION_EMAIL_THROTTLE_HOURS || "24", 10);
+const MAX_SIMULATED_MATCHES = 500;
+const MAX_CHAIN_DEPTH = parseInt(process.env.AUTOMATION_MAX_CHAIN_DEPTH || "3", 10);
+
 export class AutomationEngine {
   /**
    * Check and execute automation rules based on lead score change
@@ -31,37 +125,47 @@ export class AutomationEngine {
     leadId: string,
     oldScore: number,
     newScore: number,
-    newStatus: string
+    newStatus: string,
+    oldStatus?: string,
+    chain?: AutomationChain
   ): Promise<void> {
     const rules = await storage.getAutomationRules();
     const activeRules = rules.filter(
       (r: AutomationRule) => r.isActive === 1 && r.triggerType === "score_changed"
     );
 
-    const lead = await storage.getLead(leadId);
+    const lead = await storage.getLeadById(leadId);
     if (!lead) return;
 
+    const context: TriggerContext = {
+      lead,
+      oldScore,
+      newScore,
+      entityKey: `lead:${leadId}`,
+      chain: chain ?? this.newChain(),
+      previous: {
+        "lead.score": oldScore,
+        ...(oldStatus !== undefined && { "lead.status": oldStatus }),
+      },
+    };
+
     for (const rule of activeRules) {
       try {
-        const shouldExecute = this.evaluateScoreChangeTrigger(
-          rule,
-          oldScore,
-          newScore,
-          newStatus
+        const shouldExecute = await this.matchesRule(rule, context, () =>
+          this.evaluateScoreChangeTrigger(rule, oldScore, newScore, newStatus)
         );
 
         if (shouldExecute) {
-          await this.executeAction(rule, {
-            lead,
-            oldScore,
-            newScore,
-          });
+          await this.runOrSuppress(rule, context);
         }
       } catch (error) {
         console.error(`Automation rule ${rule.id} failed:`, error);
         await storage.logAutomationExecution({
           ruleId: rule.id,
           leadId,
+          entityKey: context.entityKey,
+          chainId: context.chain!.id,
+          depth: context.chain!.depth,
           success: 0,
           errorMessage: error instanceof Error ? error.message : String(error),
           triggerData: { oldScore, newScore, newStatus },
@@ -73,11 +177,11 @@ export class AutomationEngine {
   /**
    * Check and execute automation rules on new conversation
    */
-  async onConversationReceived(conversationId: string): Promise<void> {
+  async onConversationReceived(conversationId: string, chain?: AutomationChain): Promise<void> {
     const conversation = await storage.getConversation(conversationId);
     if (!conversation) return;
 
-    const lead = await storage.getLead(conversation.leadId);
+    const lead = await storage.getLeadById(conversation.leadId);
     if (!lead) return;
 
     const rules = await storage.getAutomationRules();
@@ -85,25 +189,30 @@ export class AutomationEngine {
       (r: AutomationRule) => r.isActive === 1 && r.triggerType === "conversation_received"
     );
 
+    const context: TriggerContext = {
+      lead,
+      conversation,
+      entityKey: `lead:${lead.id}`,
+      chain: chain ?? this.newChain(),
+    };
+
     for (const rule of activeRules) {
       try {
-        const shouldExecute = await this.evaluateConversationTrigger(
-          rule,
-          conversation,
-          lead
+        const shouldExecute = await this.matchesRule(rule, context, () =>
+          this.evaluateConversationTrigger(rule, conversation, lead)
         );
 
         if (shouldExecute) {
-          await this.executeAction(rule, {
-            lead,
-            conversation,
-          });
+          await this.runOrSuppress(rule, context);
         }
       } catch (error) {
         console.error(`Automation rule ${rule.id} failed:`, error);
         await storage.logAutomationExecution({
           ruleId: rule.id,
           leadId: lead.id,
+          entityKey: context.entityKey,
+          chainId: context.chain!.id,
+          depth: context.chain!.depth,
           success: 0,
           errorMessage: error instanceof Error ? error.message : String(error),
           triggerData: { conversationId },
@@ -118,9 +227,10 @@ export class AutomationEngine {
   async onDealStageChange(
     dealId: string,
     oldStageId: string,
-    newStageId: string
+    newStageId: string,
+    chain?: AutomationChain
   ): Promise<void> {
-    const deal = await storage.getDeal(dealId);
+    const deal = await storage.getDealById(dealId);
     if (!deal) return;
 
     const rules = await storage.getAutomationRules();
@@ -128,26 +238,33 @@ export class AutomationEngine {
       (r: AutomationRule) => r.isActive === 1 && r.triggerType === "deal_stage_change"
     );
 
+    const context: TriggerContext = {
+      deal,
+      lead: deal.leadId ? await storage.getLeadById(deal.leadId) : undefined,
+      oldStageId,
+      newStageId,
+      entityKey: `deal:${dealId}`,
+      chain: chain ?? this.newChain(),
+      previous: { "deal.stageId": oldStageId },
+    };
+
     for (const rule of activeRules) {
       try {
-        const shouldExecute = this.evaluateStageChangeTrigger(
-          rule,
-          oldStageId,
-          newStageId
+        const shouldExecute = await this.matchesRule(rule, context, () =>
+          this.evaluateStageChangeTrigger(rule, oldStageId, newStageId)
         );
 
         if (shouldExecute) {
-          await this.executeAction(rule, {
-            deal,
-            oldStageId,
-            newStageId,
-          });
+          await this.runOrSuppress(rule, context);
         }
       } catch (error) {
         console.error(`Automation rule ${rule.id} failed:`, error);
         await storage.logAutomationExecution({
           ruleId: rule.id,
           dealId,
+          entityKey: context.entityKey,
+          chainId: context.chain!.id,
+          depth: context.chain!.depth,
           success: 0,
           errorMessage: error instanceof Error ? error.message : String(error),
           triggerData: { oldStageId, newStageId },
@@ -156,6 +273,496 @@ export class AutomationEngine {
     }
   }
 
+  /**
+   * Evaluate every active time-based rule against current data
+   */
+  async runTimeBasedRules(now: Date = new Date()): Promise<TimeBasedRunSummary> {
+    const summary: TimeBasedRunSummary = { rulesEvaluated: 0, matched: 0, fired: 0, skipped: 0, failed: 0 };
+
+    const rules = await storage.getAutomationRules();
+    const activeRules = rules.filter(
+      (r: AutomationRule) => r.isActive === 1 && r.triggerType === "time_based"
+    );
+    if (activeRules.length === 0) return summary;
+
+    // Load each data set at most once per sweep
+    const data: TimeBasedData = {};
+
+    for (const rule of activeRules) {
+      summary.rulesEvaluated++;
+      const conditions = (rule.triggerConditions || {}) as any;
+
+      let matches: TimeBasedMatch[];
+      try {
+        matches = await this.findTimeBasedMatches(conditions, now, data);
+      } catch (error) {
+        console.error(`Time-based rule ${rule.id} could not be evaluated:`, error);
+        summary.failed++;
+        continue;
+      }
+
+      const windowHours = conditions.windowHours ?? Math.max(conditions.days || 0, 1) * 24;
+      const windowStart = now.getTime() - windowHours * 60 * 60 * 1000;
+
+      for (const match of matches) {
+        if ((rule.conditions || rule.savedViewId) && !(await this.matchesRule(rule, match.context, () => true))) {
+          continue;
+        }
+        summary.matched++;
+
+        const last = await storage.getLastAutomationExecution(rule.id, match.entityKey);
+        if (last && last.executedAt.getTime() > windowStart) {
+          summary.skipped++;
+          continue;
+        }
+
+        // The sweep re-checks every entity each run, so frequency limits are
+        // counted as skips rather than logged again on every sweep
+        match.context.chain = this.newChain();
+        if (await this.getSuppressionReason(rule, match.context, now)) {
+          summary.skipped++;
+          continue;
+        }
+
+        try {
+          await this.executeActions(rule, match.context);
+          summary.fired++;
+        } catch (error) {
+          summary.failed++;
+          console.error(`Automation rule ${rule.id} failed for ${match.entityKey}:`, error);
+          await storage.logAutomationExecution({
+            ruleId: rule.id,
+            leadId: match.context.lead?.id,
+            dealId: match.context.deal?.id,
+            entityKey: match.entityKey,
+            chainId: match.context.chain.id,
+            success: 0,
+            errorMessage: error instanceof Error ? error.message : String(error),
+            triggerData: match.context.triggerData,
+          });
+        }
+      }
+    }
+
+    console.log(
+      `Time-based automation sweep: ${summary.rulesEvaluated} rules, ${summary.fired} fired, ${summary.skipped} skipped, ${summary.failed} failed`
+    );
+    return summary;
+  }
+
+  /**
+   * Replay a rule's trigger over a past date range and describe what it
+   * would have done. Read-only; inactive rules can be simulated too.
+   */
+  async simulateRule(rule: AutomationRule, range: { from: Date; to: Date }): Promise<RuleSimulation> {
+    const simulation: RuleSimulation = {
+      ruleId: rule.id,
+      triggerType: rule.triggerType,
+      from: range.from,
+      to: range.to,
+      evaluated: 0,
+      matched: 0,
+      truncated: false,
+      matches: [],
+      notes: [],
+    };
+
+    const events = await this.loadSimulationEvents(rule, range, simulation.notes);
+    if (rule.frequency !== "every_time") {
+      simulation.notes.push("Frequency limits are not applied; every matching event is shown.");
+    }
+    if (rule.savedViewId) {
+      simulation.notes.push("The audience view is checked against current records, not their past values.");
+    }
+    const cache: SimulationCache = { templates: new Map(), stages: new Map(), conversations: new Map() };
+
+    for (const event of events) {
+      simulation.evaluated++;
+      if (!(await this.matchesRule(rule, event.context, event.legacyCheck))) continue;
+
+      simulation.matched++;
+      if (simulation.matches.length >= MAX_SIMULATED_MATCHES) {
+        simulation.truncated = true;
+        continue;
+      }
+      simulation.matches.push(await this.describeMatch(rule, event, cache));
+    }
+
+    return simulation;
+  }
+
+  /**
+   * Rebuild the trigger events a rule would have seen in the range,
+   * with entity snapshots reflecting the values at the time
+   */
+  private async loadSimulationEvents(
+    rule: AutomationRule,
+    range: { from: Date; to: Date },
+    notes: string[]
+  ): Promise<SimulationEvent[]> {
+    switch (rule.triggerType) {
+      case "score_changed": {
+        const leads = new Map((await storage.getAllLeads()).map((l) => [l.id, l]));
+        const scores = await storage.getLeadScoresBetween(range.from, range.to);
+        notes.push("Lead fields other than score and status use current values.");
+
+        return scores.flatMap((row) => {
+          const current = leads.get(row.leadId);
+          const oldScore = row.previousScore ?? 0;
+          const oldStatus = row.previousStatus ?? undefined;
+          if (!current || (row.score === oldScore && row.status === oldStatus)) return [];
+
+          const lead: Lead = { ...current, score: row.score, status: row.status };
+          return [{
+            at: row.analyzedAt,
+            context: {
+              lead,
+              oldScore,
+              newScore: row.score,
+              triggerData: { oldScore, newScore: row.score, oldStatus, newStatus: row.status },
+              previous: {
+                "lead.score": oldScore,
+                ...(oldStatus !== undefined && { "lead.status": oldStatus }),
+              },
+            },
+            legacyCheck: () => this.evaluateScoreChangeTrigger(rule, oldScore, row.score, row.status),
+          }];
+        });
+      }
+
+      case "conversation_received": {
+        const leads = new Map((await storage.getAllLeads()).map((l) => [l.id, l]));
+        const conversations = await storage.getConversationsBetween(range.from, range.to);
+        notes.push("Lead fields use current values.");
+
+        return conversations.flatMap((conversation) => {
+          // The live trigger only fires for mail from the lead
+          if (!conversation.isFromLead) return [];
+          const lead = leads.get(conversation.leadId);
+          if (!lead) return [];
+          return [{
+            at: conversation.sentAt,
+            context: { lead, conversation, triggerData: { conversationId: conversation.id } },
+            legacyCheck: () => this.evaluateConversationTrigger(rule, conversation, lead),
+          }];
+        });
+      }
+
+      case "deal_stage_change": {
+        const deals = new Map((await storage.getAllDeals()).map((d) => [d.id, d]));
+        const leads = new Map((await storage.getAllLeads()).map((l) => [l.id, l]));
+        const history = await storage.getDealStageHistoryBetween(range.from, range.to);
+        notes.push("Deal fields other than stage use current values.");
+
+        return history.flatMap((row) => {
+          const current = deals.get(row.dealId);
+          const oldStageId = row.fromStageId;
+          if (!current || !oldStageId) return [];
+
+          const deal: Deal = { ...current, stageId: row.toStageId };
+          return [{
+            at: row.createdAt,
+            context: {
+              deal,
+              lead: deal.leadId ? leads.get(deal.leadId) : undefined,
+              oldStageId,
+              newStageId: row.toStageId,
+              triggerData: { oldStageId, newStageId: row.toStageId },
+              previous: { "deal.stageId": oldStageId },
+            },
+            legacyCheck: () => this.evaluateStageChangeTrigger(rule, oldStageId, row.toStageId),
+          }];
+        });
+      }
+
+      case "time_based": {
+        notes.push(
+          "Time-based rules have no event history; this shows what the condition matches " +
+          "at the end of the range using current data, ignoring the per-entity window."
+        );
+        const matches = await this.findTimeBasedMatches(rule.triggerConditions || {}, range.to, {});
+        return matches.map((match) => ({ at: range.to, context: match.context, legacyCheck: () => true }));
+      }
+
+      default:
+        notes.push(`Trigger type "${rule.triggerType}" cannot be simulated.`);
+        return [];
+    }
+  }
+
+  /**
+   * Describe a matched event and the actions the rule would run for it
+   */
+  private async describeMatch(
+    rule: AutomationRule,
+    event: SimulationEvent,
+    cache: SimulationCache
+  ): Promise<SimulatedMatch> {
+    const { context } = event;
+    const entity = context.task
+      ? { entityType: "task" as const, entityId: context.task.id, name: context.task.title }
+      : context.deal
+        ? { entityType: "deal" as const, entityId: context.deal.id, name: context.deal.name }
+        : { entityType: "lead" as const, entityId: context.lead!.id, name: context.lead!.name };
+
+    const actions: SimulatedAction[] = [];
+    let hasDeal = !!context.deal;
+    let failed = false;
+
+    for (const action of this.getRuleActions(rule)) {
+      if (failed) {
+        actions.push({ type: action.type, outcome: "not_reached", detail: "An earlier action would have failed" });
+        continue;
+      }
+
+      const described = await this.describeAction(action, context, hasDeal, event.at, cache);
+      if (action.type === "convert_to_deal" && described.outcome === "would_run") hasDeal = true;
+      if (described.outcome === "would_fail") failed = true;
+      actions.push(described);
+    }
+
+    return { ...entity, at: event.at, triggerData: context.triggerData || {}, actions };
+  }
+
+  /**
+   * What a single action would do for the context, mirroring the checks
+   * runAction and its helpers make before writing
+   */
+  private async describeAction(
+    action: AutomationAction,
+    context: TriggerContext,
+    hasDeal: boolean,
+    at: Date,
+    cache: SimulationCache
+  ): Promise<SimulatedAction> {
+    const config = action.config as any;
+    const result = (outcome: SimulatedAction["outcome"], detail: string): SimulatedAction => ({
+      type: action.type,
+      outcome,
+      detail,
+    });
+
+    const needsLead = action.type !== "advance_stage";
+    if (needsLead && !context.lead) {
+      return result("would_fail", `Action ${action.type} needs a lead`);
+    }
+    const lead = context.lead!;
+
+    switch (action.type) {
+      case "convert_to_deal":
+        return result("would_run", `Create deal "${config.dealName || `${lead.name} - ${lead.company || "Deal"}`}"`);
+
+      case "create_task":
+        return result("would_run", `Create task "${config.title || "Follow up"}" for ${lead.name}`);
+
+      case "advance_stage": {
+        if (!hasDeal) return result("would_fail", `Action ${action.type} needs a deal`);
+        if (!context.deal) return result("would_run", "Advance the new deal to its next stage");
+
+        const deal = context.deal;
+        if (!cache.stages.has(deal.pipelineId)) {
+          cache.stages.set(deal.pipelineId, await storage.getPipelineStages(deal.pipelineId));
+        }
+        const stages = cache.stages.get(deal.pipelineId)!;
+        const current = stages.find((s) => s.id === deal.stageId);
+        const next = current && stages
+          .filter((s) => s.order > current.order)
+          .sort((a, b) => a.order - b.order)[0];
+        return next
+          ? result("would_run", `Move "${deal.name}" to ${next.name}`)
+          : result("would_skip", `"${deal.name}" is already in the last stage`);
+      }
+
+      case "assign_lead":
+        return config.userId
+          ? result("would_run", `Assign ${lead.name} to user ${config.userId}`)
+          : result("would_skip", "No user configured");
+
+      case "send_email": {
+        if (lead.unsubscribedAt && lead.unsubscribedAt <= at) {
+          return result("would_skip", `${lead.name} had unsubscribed`);
+        }
+
+        if (!cache.conversations.has(lead.id)) {
+          cache.conversations.set(lead.id, await storage.getConversationsByLeadId(lead.id));
+        }
+        const throttleMs = (config.throttleHours ?? EMAIL_THROTTLE_HOURS) * 60 * 60 * 1000;
+        const recentlyEmailed = cache.conversations.get(lead.id)!.some(
+          (c) => c.isFromLead === 0 && c.sentAt <= at && at.getTime() - c.sentAt.getTime() < throttleMs
+        );
+        if (recentlyEmailed) {
+          return result("would_skip", `${lead.name} was emailed recently`);
+        }
+
+        if (config.templateId && !cache.templates.has(config.templateId)) {
+          cache.templates.set(config.templateId, await storage.getEmailTemplate(config.templateId));
+        }
+        const template = config.templateId ? cache.templates.get(config.templateId) : undefined;
+        if (!template) {
+          return result("would_fail", `Email template ${config.templateId} not found`);
+        }
+        if (!lead.ownerId) {
+          return result("would_fail", "Lead has no owner to send email from");
+        }
+        return result("would_run", `Send "${template.name}" to ${lead.email}`);
+      }
+
+      default:
+        return result("would_fail", `Unknown action type: ${(action as AutomationAction).type}`);
+    }
+  }
+
+  /**
+   * Find the entities a time-based condition currently applies to
+   */
+  private async findTimeBasedMatches(
+    conditions: any,
+    now: Date,
+    data: TimeBasedData
+  ): Promise<TimeBasedMatch[]> {
+    const days = Number(conditions.days) || 0;
+    const cutoff = now.getTime() - days * DAY_MS;
+
+    switch (conditions.condition as TimeBasedCondition) {
+      case "lead_not_contacted": {
+        if (days <= 0) throw new Error("lead_not_contacted requires days > 0");
+        const leads = await this.loadLeads(data);
+
+        return leads
+          .filter((lead) => {
+            if (conditions.status && lead.status !== conditions.status) return false;
+            if (conditions.minScore !== undefined && lead.score < conditions.minScore) return false;
+            if (conditions.maxScore !== undefined && lead.score > conditions.maxScore) return false;
+            const lastTouch = lead.lastContactedAt || lead.createdAt;
+            return lastTouch.getTime() <= cutoff;
+          })
+          .map((lead) => ({
+            entityKey: `lead:${lead.id}`,
+            context: {
+              lead,
+              entityKey: `lead:${lead.id}`,
+              triggerData: {
+                condition: conditions.condition,
+                days,
+                lastContactedAt: lead.lastContactedAt,
+              },
+            },
+          }));
+      }
+
+      case "deal_idle_in_stage": {
+        if (days <= 0) throw new Error("deal_idle_in_stage requires days > 0");
+        const deals = (await this.loadDeals(data)).filter((deal) => {
+          if (deal.status !== "open") return false;
+          if (conditions.stageId && deal.stageId !== conditions.stageId) return false;
+          if (conditions.pipelineId && deal.pipelineId !== conditions.pipelineId) return false;
+          return true;
+        });
+
+        const matches: TimeBasedMatch[] = [];
+        for (const deal of deals) {
+          // History is newest first; the latest move into the current stage is when it entered
+          const history = await storage.getDealStageHistory(deal.id);
+          const entry = history.find((h) => h.toStageId === deal.stageId);
+          const enteredStageAt = entry ? entry.createdAt : deal.createdAt;
+          if (enteredStageAt.getTime() > cutoff) continue;
+
+          matches.push(await this.dealMatch(deal, data, {
+            condition: conditions.condition,
+            days,
+            stageId: deal.stageId,
+            enteredStageAt,
+          }));
+        }
+        return matches;
+      }
+
+      case "task_overdue": {
+        const tasks = await this.loadTasks(data);
+        const leads = await this.loadLeads(data);
+        const leadsById = new Map(leads.map((l) => [l.id, l]));
+
+        return tasks
+          .filter((task) => {
+            if (!task.dueDate) return false;
+            if (task.status === "completed" || task.status === "cancelled") return false;
+            if (conditions.priority && task.priority !== conditions.priority) return false;
+            return task.dueDate.getTime() < cutoff;
+          })
+          .map((task) => ({
+            entityKey: `task:${task.id}`,
+            context: {
+              task,
+              lead: leadsById.get(task.leadId),
+              entityKey: `task:${task.id}`,
+              triggerData: {
+                condition: conditions.condition,
+                days,
+                taskId: task.id,
+                dueDate: task.dueDate,
+              },
+            },
+          }));
+      }
+
+      case "close_date_passed": {
+        const deals = (await this.loadDeals(data)).filter((deal) => {
+          if (deal.status !== "open" || !deal.expectedCloseDate) return false;
+          if (conditions.pipelineId && deal.pipelineId !== conditions.pipelineId) return false;
+          return deal.expectedCloseDate.getTime() < cutoff;
+        });
+
+        const matches: TimeBasedMatch[] = [];
+        for (const deal of deals) {
+          matches.push(await this.dealMatch(deal, data, {
+            condition: conditions.condition,
+            days,
+            expectedCloseDate: deal.expectedCloseDate,
+          }));
+        }
+        return matches;
+      }
+
+      default:
+        throw new Error(`Unknown time-based condition: ${conditions.condition}`);
+    }
+  }
+
+  /**
+   * Build a match for a deal, including its linked lead for lead-based actions
+   */
+  private async dealMatch(
+    deal: Deal,
+    data: TimeBasedData,
+    triggerData: Record<string, unknown>
+  ): Promise<TimeBasedMatch> {
+    const leads = await this.loadLeads(data);
+    return {
+      entityKey: `deal:${deal.id}`,
+      context: {
+        deal,
+        lead: deal.leadId ? leads.find((l) => l.id === deal.leadId) : undefined,
+        entityKey: `deal:${deal.id}`,
+        triggerData,
+      },
+    };
+  }
+
+  private async loadLeads(data: TimeBasedData): Promise<Lead[]> {
+    if (!data.leads) data.leads = await storage.getAllLeads();
+    return data.leads;
+  }
+
+  private async loadDeals(data: TimeBasedData): Promise<Deal[]> {
+    if (!data.deals) data.deals = await storage.getAllDeals();
+    return data.deals;
+  }
+
+  private async loadTasks(data: TimeBasedData): Promise<Task[]> {
+    if (!data.tasks) data.tasks = await storage.getAllTasks();
+    return data.tasks;
+  }
+
   /**
    * Evaluate if score change trigger conditions are met
    */
@@ -252,61 +859,230 @@ export class AutomationEngine {
   }
 
   /**
-   * Execute the automation action
+   * Match a rule against the trigger: the condition tree when the rule has
+   * one, otherwise the trigger's legacy triggerConditions check. A rule with
+   * an audience view also needs the lead or deal to be inside that view.
    */
-  private async executeAction(
+  private async matchesRule(
     rule: AutomationRule,
-    context: TriggerContext
-  ): Promise<void> {
-    const config = rule.actionConfig as any;
+    context: TriggerContext,
+    legacyCheck: () => boolean | Promise<boolean>
+  ): Promise<boolean> {
+    const matched = rule.conditions
+      ? evaluateConditions(rule.conditions as ConditionNode, await this.buildFacts(context))
+      : await legacyCheck();
+    if (!matched || !rule.savedViewId) {
+      return matched;
+    }
+    return savedViewService.contains(rule.savedViewId, { lead: context.lead, deal: context.deal });
+  }
 
-    switch (rule.actionType) {
-      case "convert_to_deal":
-        await this.convertToDeal(context.lead!, config);
-        break;
+  /**
+   * Gather the entities a condition tree can reference
+   */
+  private async buildFacts(context: TriggerContext): Promise<RuleFacts> {
+    const ownerId = context.lead?.ownerId || context.deal?.ownerId;
+    const owner = ownerId ? await storage.getUser(ownerId) : undefined;
 
-      case "create_task":
-        await this.createTask(context.lead!, config);
-        break;
+    return {
+      lead: context.lead,
+      deal: context.deal,
+      conversation: context.conversation,
+      owner,
+      previous: context.previous,
+    };
+  }
 
-      case "advance_stage":
-        await this.advanceStage(context.deal!, config);
-        break;
+  private newChain(): AutomationChain {
+    return { id: randomUUID(), depth: 0 };
+  }
 
-      case "assign_lead":
-        await this.assignLead(context.lead!, config);
-        break;
+  /**
+   * Run a matched rule unless cascade or frequency limits stop it;
+   * a suppressed run is logged with the reason instead
+   */
+  private async runOrSuppress(rule: AutomationRule, context: TriggerContext): Promise<void> {
+    const reason = await this.getSuppressionReason(rule, context);
+    if (!reason) {
+      await this.executeActions(rule, context);
+      return;
+    }
 
-      case "send_email":
-        await this.sendEmail(context.lead!, config);
-        break;
+    await storage.logAutomationExecution({
+      ruleId: rule.id,
+      leadId: context.lead?.id,
+      dealId: context.deal?.id,
+      entityKey: context.entityKey,
+      chainId: context.chain?.id,
+      depth: context.chain?.depth ?? 0,
+      success: 0,
+      suppressedReason: reason,
+      errorMessage: this.describeSuppression(rule, reason),
+      triggerData: { oldScore: context.oldScore, newScore: context.newScore, ...context.triggerData },
+    });
+    console.log(`Automation rule "${rule.name}" suppressed for ${context.entityKey}: ${reason}`);
+  }
 
-      default:
-        throw new Error(`Unknown action type: ${rule.actionType}`);
+  private describeSuppression(rule: AutomationRule, reason: SuppressionReason): string {
+    switch (reason) {
+      case "max_depth":
+        return `Suppressed: cascade deeper than ${MAX_CHAIN_DEPTH} levels`;
+      case "loop":
+        return "Suppressed: already ran for this record earlier in the chain";
+      case "once_per_entity":
+        return "Suppressed: already ran once for this record";
+      case "cooldown":
+        return `Suppressed: ran for this record within the last ${rule.cooldownHours}h`;
+    }
+  }
+
+  /**
+   * Why a matched rule should not run for this context, if at all
+   */
+  private async getSuppressionReason(
+    rule: AutomationRule,
+    context: TriggerContext,
+    now: Date = new Date()
+  ): Promise<SuppressionReason | undefined> {
+    const chain = context.chain;
+    if (chain && chain.depth > MAX_CHAIN_DEPTH) {
+      return "max_depth";
+    }
+
+    const entityKey = context.entityKey;
+    if (!entityKey) return undefined;
+
+    // A rule running again for the same entity inside one chain is a loop
+    if (chain && chain.depth > 0) {
+      const chainLogs = await storage.getAutomationLogsByChain(chain.id);
+      if (chainLogs.some((log) => log.ruleId === rule.id && log.entityKey === entityKey && !log.suppressedReason)) {
+        return "loop";
+      }
+    }
+
+    if (rule.frequency === "once_per_entity") {
+      const previous = await storage.getLastAutomationExecution(rule.id, entityKey, true);
+      if (previous) return "once_per_entity";
+    }
+
+    if (rule.frequency === "cooldown" && rule.cooldownHours) {
+      const previous = await storage.getLastAutomationExecution(rule.id, entityKey);
+      if (previous && now.getTime() - previous.executedAt.getTime() < rule.cooldownHours * 60 * 60 * 1000) {
+        return "cooldown";
+      }
+    }
+
+    return undefined;
+  }
+
+  /**
+   * The rule's ordered action list, falling back to the single legacy action
+   */
+  private getRuleActions(rule: AutomationRule): AutomationAction[] {
+    const actions = rule.actions as AutomationAction[] | null;
+    if (Array.isArray(actions) && actions.length > 0) {
+      return actions;
+    }
+    return [{ type: rule.actionType as AutomationAction["type"], config: (rule.actionConfig as any) || {} }];
+  }
+
+  /**
+   * Run the rule's actions in order and log the execution
+   */
+  private async executeActions(
+    rule: AutomationRule,
+    context: TriggerContext
+  ): Promise<void> {
+    const actions = this.getRuleActions(rule);
+    const results: Array<Record<string, unknown>> = [];
+    let current = context;
+
+    for (let index = 0; index < actions.length; index++) {
+      const action = actions[index];
+      try {
+        const { result, context: next } = await this.runAction(action, current);
+        results.push({ type: action.type, config: action.config, ...result });
+        current = next;
+      } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+        throw new Error(`Action ${index + 1} of ${actions.length} (${action.type}) failed: ${message}`);
+      }
     }
 
     // Log successful execution
     await storage.logAutomationExecution({
       ruleId: rule.id,
-      leadId: context.lead?.id,
-      dealId: context.deal?.id,
+      leadId: current.lead?.id,
+      dealId: current.deal?.id,
+      entityKey: context.entityKey,
+      chainId: context.chain?.id,
+      depth: context.chain?.depth ?? 0,
       success: 1,
       triggerData: {
         oldScore: context.oldScore,
         newScore: context.newScore,
         oldStageId: context.oldStageId,
         newStageId: context.newStageId,
+        ...context.triggerData,
       },
-      actionResult: { actionType: rule.actionType, config },
+      actionResult: { actionType: rule.actionType, actions: results },
     });
 
     console.log(`Automation rule "${rule.name}" executed successfully`);
   }
 
+  /**
+   * Run a single action; returns the context for the next action
+   * (e.g. a deal created by convert_to_deal is available to advance_stage)
+   */
+  private async runAction(
+    action: AutomationAction,
+    context: TriggerContext
+  ): Promise<{ result?: Record<string, unknown>; context: TriggerContext }> {
+    const config = action.config as any;
+
+    switch (action.type) {
+      case "convert_to_deal": {
+        const deal = await this.convertToDeal(this.requireLead(action, context), config);
+        return { result: { dealId: deal.id }, context: { ...context, deal: context.deal || deal } };
+      }
+
+      case "create_task":
+        await this.createTask(this.requireLead(action, context), config);
+        return { context };
+
+      case "advance_stage":
+        if (!context.deal) {
+          throw new Error(`Action ${action.type} needs a deal`);
+        }
+        return { result: await this.advanceStage(context.deal, config, context.chain), context };
+
+      case "assign_lead":
+        await this.assignLead(this.requireLead(action, context), config);
+        return { context };
+
+      case "send_email":
+        return { result: await this.sendEmail(this.requireLead(action, context), config), context };
+
+      default:
+        throw new Error(`Unknown action type: ${(action as AutomationAction).type}`);
+    }
+  }
+
+  /**
+   * Lead-based actions need a lead, which deal and task triggers may not have
+   */
+  private requireLead(action: AutomationAction, context: TriggerContext): Lead {
+    if (!context.lead) {
+      throw new Error(`Action ${action.type} needs a lead`);
+    }
+    return context.lead;
+  }
+
   /**
    * Action: Convert lead to deal
    */
-  private async convertToDeal(lead: Lead, config: any): Promise<void> {
+  private async convertToDeal(lead: Lead, config: any): Promise<Deal> {
     const pipelines = await storage.getPipelines();
     const defaultPipeline = pipelines.find((p) => p.isDefault === 1) || pipelines[0];
     
@@ -339,6 +1115,8 @@ export class AutomationEngine {
       description: `Deal "${deal.name}" auto-created by automation rule`,
       metadata: { ruleType: "auto_conversion", dealId: deal.id },
     });
+
+    return deal;
   }
 
   /**
@@ -362,8 +1140,15 @@ export class AutomationEngine {
 
   /**
    * Action: Advance deal stage
+   *
+   * The move is queued as a stage change one level deeper in the chain, so
+   * stage-change rules see it without recursing inside this execution.
    */
-  private async advanceStage(deal: Deal, config: any): Promise<void> {
+  private async advanceStage(
+    deal: Deal,
+    config: any,
+    chain?: AutomationChain
+  ): Promise<Record<string, unknown> | undefined> {
     const stages = await storage.getPipelineStages(deal.pipelineId);
     const currentStage = stages.find((s) => s.id === deal.stageId);
     
@@ -387,6 +1172,15 @@ export class AutomationEngine {
         amount: deal.amount,
         movedById: undefined,
       });
+
+      await jobQueue.enqueue("automation.deal_stage_changed", {
+        dealId: deal.id,
+        oldStageId: deal.stageId,
+        newStageId: nextStage.id,
+        chain: chain ? { id: chain.id, depth: chain.depth + 1 } : undefined,
+      });
+
+      return { fromStageId: deal.stageId, toStageId: nextStage.id };
     }
   }
 
@@ -410,16 +1204,85 @@ export class AutomationEngine {
 
   /**
    * Action: Send email
+   *
+   * Renders the configured template for the lead and sends it from the
+   * lead owner's MS365 mailbox. Unsubscribed leads are skipped, as are
+   * leads emailed within the last throttleHours (default 24).
    */
-  private async sendEmail(lead: Lead, config: any): Promise<void> {
-    // This would integrate with the email sending system
-    console.log(`Would send email to ${lead.email} with template: ${config.templateId}`);
-    
+  private async sendEmail(lead: Lead, config: any): Promise<Record<string, unknown>> {
+    if (lead.unsubscribedAt) {
+      await this.recordSkippedEmail(lead, config, "unsubscribed");
+      return { sent: false, skipped: "unsubscribed" };
+    }
+
+    const throttleHours = config.throttleHours ?? EMAIL_THROTTLE_HOURS;
+    const conversations = await storage.getConversationsByLeadId(lead.id);
+    const lastOutbound = conversations
+      .filter((c) => c.isFromLead === 0)
+      .reduce<Date | null>((latest, c) => (!latest || c.sentAt > latest ? c.sentAt : latest), null);
+    if (lastOutbound && Date.now() - lastOutbound.getTime() < throttleHours * 60 * 60 * 1000) {
+      await this.recordSkippedEmail(lead, config, "throttled");
+      return { sent: false, skipped: "throttled", lastEmailAt: lastOutbound };
+    }
+
+    const template = config.templateId ? await storage.getEmailTemplate(config.templateId) : undefined;
+    if (!template) {
+      throw new Error(`Email template ${config.templateId} not found`);
+    }
+
+    if (!lead.ownerId) {
+      throw new Error("Lead has no owner to send email from");
+    }
+    const owner = await storage.getUser(lead.ownerId);
+    const syncState = await storage.getSyncStateForUser(lead.ownerId);
+    if (!owner || !syncState || syncState.isConfigured !== 1) {
+      throw new Error("Lead owner has not connected MS365");
+    }
+
+    const { subject, body } = renderEmailTemplate(template, buildMergeFields(lead, owner));
+
+    const accessToken = await ms365Integration.ensureValidToken(owner.id);
+    const emailResult = await ms365Integration.sendEmail({
+      to: lead.email,
+      subject,
+      body,
+      accessToken,
+      userId: owner.id,
+    });
+
+    const sentAt = new Date();
+    const conversation = await storage.createConversation({
+      leadId: lead.id,
+      subject,
+      body,
+      fromEmail: owner.email,
+      toEmail: lead.email,
+      sentAt,
+      isFromLead: 0,
+      messageId: emailResult.messageId,
+      internetMessageId: emailResult.internetMessageId,
+    });
+
+    await storage.updateLead(lead.id, { lastContactedAt: sentAt });
+
+    await storage.createActivity({
+      leadId: lead.id,
+      type: "email_sent",
+      description: `Automated email sent: "${subject}"`,
+      metadata: { conversationId: conversation.id, templateId: template.id, automated: true },
+    });
+
+    return { sent: true, conversationId: conversation.id, templateId: template.id };
+  }
+
+  private async recordSkippedEmail(lead: Lead, config: any, reason: string): Promise<void> {
     await storage.createActivity({
       leadId: lead.id,
-      type: "email_queued",
-      description: `Email queued for sending via automation`,
-      metadata: { templateId: config.templateId },
+      type: "email_skipped",
+      description: reason === "unsubscribed"
+        ? "Automated email skipped: lead has unsubscribed"
+        : "Automated email skipped: lead was emailed recently",
+      metadata: { templateId: config.templateId, reason },
     });
   }
 }
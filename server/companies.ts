@@ -0,0 +1,122 @@
+import { storage } from "./storage";
+import { enrichApolloOrganization } from "./apollo";
+import type { Company } from "@shared/schema";
+import { leadFieldsFromCompany, type CompanyAccount, type UpdateCompany } from "@shared/companies";
+
+/**
+ * Company Service
+ *
+ * Account views and account-level changes. A user sees a company when they
+ * can see one of its contacts or own the account; the account page only
+ * lists the contacts, deals and conversations the user could see anyway.
+ * Edits and enrichment are copied to every linked lead (see
+ * shared/companies.ts).
+ */
+
+type CompanyUser = { id: string; role: string };
+
+// Most recent conversations shown on the account page
+const CONVERSATION_LIMIT = 50;
+// Leads linked per pass of the linking job
+const LINK_BATCH_SIZE = 200;
+
+const addAmount = (totals: Record<string, number>, currency: string, amount: number) => {
+  totals[currency] = (totals[currency] || 0) + amount;
+};
+
+export class CompanyService {
+  /**
+   * The company with the user's contacts, deals, conversations and deal totals;
+   * undefined when the user cannot see the company
+   */
+  async getAccount(user: CompanyUser, id: string): Promise<CompanyAccount | undefined> {
+    const company = await storage.getCompany(id);
+    if (!company) return undefined;
+
+    const contacts = await storage.getCompanyLeads(user, id);
+    if (contacts.length === 0 && !(await this.ownsAccount(user, company))) return undefined;
+
+    const deals = await storage.getDeals(user, { companyId: id });
+    const conversations = await storage.getConversationsByLeadIds(contacts.map((lead) => lead.id), CONVERSATION_LIMIT);
+
+    const pipelineValue: Record<string, number> = {};
+    const wonValue: Record<string, number> = {};
+    for (const deal of deals) {
+      if (deal.status === "open") addAmount(pipelineValue, deal.currency, deal.amount);
+      if (deal.status === "won") addAmount(wonValue, deal.currency, deal.amount);
+    }
+
+    return { company, contacts, deals, conversations, pipelineValue, wonValue };
+  }
+
+  /**
+   * Save account fields and copy them to the linked leads
+   */
+  async update(company: Company, updates: UpdateCompany): Promise<Company> {
+    const updated = (await storage.updateCompany(company.id, {
+      ...updates,
+      website: updates.website === "" ? null : updates.website,
+      linkedinUrl: updates.linkedinUrl === "" ? null : updates.linkedinUrl,
+    }))!;
+    await storage.updateCompanyLeads(company.id, leadFieldsFromCompany(updated));
+    return updated;
+  }
+
+  /**
+   * Fill in the account from Apollo by domain and copy the result to the linked leads
+   */
+  async enrich(company: Company): Promise<{ company: Company; found: boolean; leadsUpdated: number }> {
+    const data = await enrichApolloOrganization(company.domain);
+    if (!data) {
+      return { company, found: false, leadsUpdated: 0 };
+    }
+
+    const updated = (await storage.updateCompany(company.id, { ...data, enrichedAt: new Date() }))!;
+    const leadsUpdated = await storage.updateCompanyLeads(company.id, leadFieldsFromCompany(updated));
+    console.log(`[Companies] Enriched ${company.domain}; updated ${leadsUpdated} linked leads`);
+    return { company: updated, found: true, leadsUpdated };
+  }
+
+  /**
+   * Link every lead without a company to the company for its domain
+   */
+  async linkUnlinkedLeads(): Promise<{ scanned: number; linked: number }> {
+    let scanned = 0;
+    let linked = 0;
+    let afterId: string | null = null;
+
+    for (;;) {
+      const batch = await storage.getLeadsWithoutCompany(afterId, LINK_BATCH_SIZE);
+      for (const lead of batch) {
+        if ((await storage.linkLeadToCompany(lead)).companyId) linked++;
+      }
+      scanned += batch.length;
+      if (batch.length < LINK_BATCH_SIZE) break;
+      afterId = batch[batch.length - 1].id;
+    }
+
+    console.log(`[Companies] Linked ${linked} of ${scanned} leads without a company`);
+    return { scanned, linked };
+  }
+
+  async canAccess(user: CompanyUser, company: Company): Promise<boolean> {
+    return (await storage.getCompanyLeads(user, company.id)).length > 0 || this.ownsAccount(user, company);
+  }
+
+  /**
+   * Edits are copied to every linked lead, including leads the user cannot see, so only the
+   * account owner (or someone who may change the owner's records, such as admins) may make them
+   */
+  async canEdit(user: CompanyUser, company: Company): Promise<boolean> {
+    const { default: PermissionService } = await import("./permissions.js");
+    return PermissionService.canModifyRecord(user as any, company.ownerId);
+  }
+
+  private async ownsAccount(user: CompanyUser, company: Company): Promise<boolean> {
+    if (!company.ownerId) return false;
+    const { default: PermissionService } = await import("./permissions.js");
+    return PermissionService.canAccessUser(user as any, company.ownerId);
+  }
+}
+
+export const companyService = new CompanyService();
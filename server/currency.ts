@@ -0,0 +1,28 @@
+import { storage } from "./storage";
+import { createCurrencyConverter, type CurrencyConverter } from "@shared/currency";
+
+/**
+ * Currency Service
+ *
+ * Loads the base currency and exchange-rate table and converts deal amounts
+ * for reporting (see shared/currency.ts for how rates are chosen).
+ */
+
+export const DEFAULT_BASE_CURRENCY = "USD";
+
+export class CurrencyService {
+  async getBaseCurrency(): Promise<string> {
+    const settings = await storage.getCurrencySettings();
+    return settings?.baseCurrency || DEFAULT_BASE_CURRENCY;
+  }
+
+  /**
+   * Converter for the current base currency and rate table; load once per request
+   */
+  async getConverter(): Promise<CurrencyConverter> {
+    const [baseCurrency, rates] = await Promise.all([this.getBaseCurrency(), storage.getExchangeRates()]);
+    return createCurrencyConverter(baseCurrency, rates);
+  }
+}
+
+export const currencyService = new CurrencyService();
@@ -0,0 +1,121 @@
+import { storage } from "./storage";
+import type { Deal, DealLineItem, Product } from "@shared/schema";
+import {
+  dealAmountFromLineItems,
+  lineItemFirstYearValue,
+  type RevenueBreakdown,
+} from "@shared/deal-products";
+import type { CurrencyConverter } from "@shared/currency";
+
+/**
+ * Deal Product Service
+ *
+ * Adds catalog products to deals as line items and keeps each deal's amount
+ * equal to the first-year value of its line items (see
+ * shared/deal-products.ts). Also breaks pipeline value down by product and
+ * by recurring versus one-time revenue for the forecast, in the base currency.
+ */
+
+export interface ProductForecast {
+  byProduct: Record<string, { name: string; dealCount: number; totalValue: number; weightedValue: number }>;
+  byRevenueType: RevenueBreakdown & { weightedOneTime: number; weightedArr: number };
+}
+
+export class DealProductService {
+  /**
+   * Add a product to a deal at the catalog price (or the given one)
+   */
+  async addLineItem(
+    deal: Deal,
+    product: Product,
+    input: { quantity: number; discountPercent: number; unitPrice?: number }
+  ): Promise<DealLineItem> {
+    if (!product.isActive) {
+      throw new Error(`${product.name} is archived`);
+    }
+    if (product.currency !== deal.currency) {
+      throw new Error(`${product.name} is priced in ${product.currency} but the deal is in ${deal.currency}`);
+    }
+
+    const existing = await storage.getDealLineItems(deal.id);
+    const item = await storage.createDealLineItem({
+      dealId: deal.id,
+      productId: product.id,
+      name: product.name,
+      unitPrice: input.unitPrice ?? product.unitPrice,
+      quantity: input.quantity,
+      discountPercent: input.discountPercent,
+      billingType: product.billingType,
+      billingPeriod: product.billingPeriod,
+      position: existing.reduce((max, i) => Math.max(max, i.position + 1), 0),
+    });
+    await this.syncAmount(deal.id);
+    return item;
+  }
+
+  async updateLineItem(item: DealLineItem, updates: Partial<Pick<DealLineItem, "quantity" | "discountPercent" | "unitPrice">>): Promise<DealLineItem> {
+    const updated = await storage.updateDealLineItem(item.id, updates);
+    await this.syncAmount(item.dealId);
+    return updated!;
+  }
+
+  async removeLineItem(item: DealLineItem): Promise<void> {
+    await storage.deleteDealLineItem(item.id);
+    await this.syncAmount(item.dealId);
+  }
+
+  /**
+   * Recalculate the deal amount from its line items; a deal without line items keeps its amount
+   */
+  async syncAmount(dealId: string): Promise<number | undefined> {
+    const items = await storage.getDealLineItems(dealId);
+    if (items.length === 0) return undefined;
+
+    const amount = dealAmountFromLineItems(items);
+    await storage.updateDeal(dealId, { amount });
+    return amount;
+  }
+
+  /**
+   * Pipeline value by product and by revenue type in the base currency; weighted values use
+   * each deal's probability. Deals whose currency cannot be converted are left out.
+   */
+  async forecast(deals: Deal[], converter: CurrencyConverter): Promise<ProductForecast> {
+    const items = await storage.getLineItemsForDeals(deals.map((deal) => deal.id));
+    const dealsById = new Map(deals.map((deal) => [deal.id, deal]));
+    const toBase = (amount: number, dealId: string) => converter.convert(amount, dealsById.get(dealId)!.currency);
+
+    const byProduct: ProductForecast["byProduct"] = {};
+    const byRevenueType: ProductForecast["byRevenueType"] = { oneTime: 0, mrr: 0, arr: 0, weightedOneTime: 0, weightedArr: 0 };
+    const dealsPerProduct = new Map<string, Set<string>>();
+    for (const item of items) {
+      const value = toBase(lineItemFirstYearValue(item), item.dealId);
+      if (value === null) continue;
+      const probability = (dealsById.get(item.dealId)!.probability || 0) / 100;
+
+      // Items whose product was deleted from the catalog are grouped by name
+      const key = item.productId || `name:${item.name}`;
+      const entry = byProduct[key] || (byProduct[key] = { name: item.name, dealCount: 0, totalValue: 0, weightedValue: 0 });
+      entry.totalValue += value;
+      entry.weightedValue += value * probability;
+
+      const dealIds = dealsPerProduct.get(key) || new Set<string>();
+      dealIds.add(item.dealId);
+      dealsPerProduct.set(key, dealIds);
+      entry.dealCount = dealIds.size;
+
+      if (item.billingType === "recurring") {
+        byRevenueType.arr += value;
+        byRevenueType.weightedArr += value * probability;
+      } else {
+        byRevenueType.oneTime += value;
+        byRevenueType.weightedOneTime += value * probability;
+      }
+    }
+    byRevenueType.mrr = Math.round(byRevenueType.arr / 12);
+
+    return { byProduct, byRevenueType };
+  }
+}
+
+export const dealProductService = new DealProductService();
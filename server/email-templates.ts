@@ -0,0 +1,52 @@
+import type { EmailTemplate, Lead, User } from "@shared/schema";
+
+/**
+ * Email Template Rendering
+ *
+ * Replaces {{field}} merge tags in a template's subject and body with
+ * values from the lead and its owner. Supported fields:
+ * name, firstName, lastName, email, company, position, ownerName, ownerEmail.
+ * Unknown tags are left untouched so typos are visible in the sent email.
+ */
+
+export type MergeFields = Record<string, string>;
+
+/**
+ * Build merge field values for a lead and (optionally) its owner
+ */
+export function buildMergeFields(lead: Lead, owner?: Pick<User, "name" | "email"> | null): MergeFields {
+  const [firstFromName, ...rest] = lead.name.trim().split(/\s+/);
+
+  return {
+    name: lead.name,
+    firstName: lead.firstName || firstFromName || "",
+    lastName: lead.lastName || rest.join(" "),
+    email: lead.email,
+    company: lead.company || "",
+    position: lead.position || "",
+    ownerName: owner?.name || "",
+    ownerEmail: owner?.email || "",
+  };
+}
+
+/**
+ * Replace {{field}} tags in text
+ */
+export function renderMergeFields(text: string, fields: MergeFields): string {
+  return text.replace(/\{\{\s*(\w+)\s*\}\}/g, (tag, key: string) =>
+    Object.prototype.hasOwnProperty.call(fields, key) ? fields[key] : tag
+  );
+}
+
+/**
+ * Render a stored template for a lead
+ */
+export function renderEmailTemplate(
+  template: Pick<EmailTemplate, "subject" | "body">,
+  fields: MergeFields
+): { subject: string; body: string } {
+  return {
+    subject: renderMergeFields(template.subject, fields),
+    body: renderMergeFields(template.body, fields),
+  };
+}
@@ -0,0 +1,183 @@
+import { createCipheriv, createDecipheriv, randomBytes } from "crypto";
+
+/**
+ * Encryption at rest for stored credentials
+ *
+ * Envelope encryption: every value gets its own random data key, which
+ * encrypts the value; the data key is in turn encrypted with a master key
+ * from ENCRYPTION_KEYS. Both steps use AES-256-GCM, so tampering is caught
+ * on decryption.
+ *
+ * ENCRYPTION_KEYS is a comma-separated list of `version:base64key` pairs,
+ * each key 32 bytes. The first pair encrypts new values; the others are kept
+ * to read values written before a rotation. Each ciphertext is tagged with
+ * the version of the key that wrapped its data key:
+ *
+ *   enc:<version>:<wrapped data key>:<iv>:<auth tag>:<ciphertext>
+ *
+ * Values without the `enc:` prefix are read back unchanged, so rows written
+ * before encryption was enabled keep working until
+ * scripts/encrypt-secrets.ts re-writes them.
+ */
+
+const PREFIX = "enc";
+const ALGORITHM = "aes-256-gcm";
+const IV_BYTES = 12;
+
+export interface EncryptionKey {
+  version: string;
+  key: Buffer;
+}
+
+export interface Encryptor {
+  readonly enabled: boolean;
+  readonly currentVersion: string | null;
+  encrypt(plaintext: string): string;
+  decrypt(value: string): string;
+  isEncrypted(value: string): boolean;
+  /** True when the value is plaintext or wrapped with a key other than the current one */
+  needsReencryption(value: string): boolean;
+  encryptJson(value: unknown): string;
+  decryptJson<T = unknown>(value: unknown): T;
+}
+
+/**
+ * Parse ENCRYPTION_KEYS; throws on malformed entries rather than silently skipping them
+ */
+export function parseEncryptionKeys(spec: string | undefined): EncryptionKey[] {
+  if (!spec?.trim()) return [];
+
+  const keys = spec.split(",").map((entry) => {
+    const [version, encoded, ...rest] = entry.trim().split(":");
+    if (!version || !encoded || rest.length > 0 || !/^[A-Za-z0-9_-]+$/.test(version)) {
+      throw new Error("ENCRYPTION_KEYS entries must look like <version>:<base64 key>");
+    }
+    const key = Buffer.from(encoded, "base64");
+    if (key.length !== 32) {
+      throw new Error(`Encryption key ${version} must be 32 bytes, got ${key.length}`);
+    }
+    return { version, key };
+  });
+
+  const versions = new Set(keys.map((k) => k.version));
+  if (versions.size !== keys.length) throw new Error("ENCRYPTION_KEYS has duplicate versions");
+  return keys;
+}
+
+function seal(key: Buffer, plaintext: Buffer): { iv: Buffer; tag: Buffer; ciphertext: Buffer } {
+  const iv = randomBytes(IV_BYTES);
+  const cipher = createCipheriv(ALGORITHM, key, iv);
+  const ciphertext = Buffer.concat([cipher.update(plaintext), cipher.final()]);
+  return { iv, tag: cipher.getAuthTag(), ciphertext };
+}
+
+function open(key: Buffer, iv: Buffer, tag: Buffer, ciphertext: Buffer): Buffer {
+  const decipher = createDecipheriv(ALGORITHM, key, iv);
+  decipher.setAuthTag(tag);
+  return Buffer.concat([decipher.update(ciphertext), decipher.final()]);
+}
+
+export function createEncryptor(keys: EncryptionKey[]): Encryptor {
+  const current = keys[0];
+  const byVersion = new Map(keys.map((k) => [k.version, k.key]));
+
+  const isEncrypted = (value: string) => value.startsWith(`${PREFIX}:`);
+
+  const encrypt = (plaintext: string): string => {
+    if (!current) throw new Error("No encryption key configured (ENCRYPTION_KEYS)");
+
+    // The data key is wrapped as iv | tag | encrypted key so one field carries it
+    const dataKey = randomBytes(32);
+    const wrapped = seal(current.key, dataKey);
+    const body = seal(dataKey, Buffer.from(plaintext, "utf8"));
+
+    return [
+      PREFIX,
+      current.version,
+      Buffer.concat([wrapped.iv, wrapped.tag, wrapped.ciphertext]).toString("base64"),
+      body.iv.toString("base64"),
+      body.tag.toString("base64"),
+      body.ciphertext.toString("base64"),
+    ].join(":");
+  };
+
+  const decrypt = (value: string): string => {
+    if (!isEncrypted(value)) return value;
+
+    const parts = value.split(":");
+    if (parts.length !== 6) throw new Error("Malformed encrypted value");
+    const [, version, wrappedKey, iv, tag, ciphertext] = parts;
+
+    const masterKey = byVersion.get(version);
+    if (!masterKey) throw new Error(`Encryption key ${version} is not configured`);
+
+    const wrapped = Buffer.from(wrappedKey, "base64");
+    const dataKey = open(
+      masterKey,
+      wrapped.subarray(0, IV_BYTES),
+      wrapped.subarray(IV_BYTES, IV_BYTES + 16),
+      wrapped.subarray(IV_BYTES + 16),
+    );
+    return open(
+      dataKey,
+      Buffer.from(iv, "base64"),
+      Buffer.from(tag, "base64"),
+      Buffer.from(ciphertext, "base64"),
+    ).toString("utf8");
+  };
+
+  return {
+    enabled: !!current,
+    currentVersion: current?.version ?? null,
+    encrypt,
+    decrypt,
+    isEncrypted,
+    needsReencryption: (value: string) =>
+      !isEncrypted(value) || value.split(":")[1] !== current?.version,
+    encryptJson: (value: unknown) => encrypt(JSON.stringify(value)),
+    decryptJson: <T = unknown>(value: unknown): T =>
+      // jsonb columns written before encryption still hold the raw JSON value
+      (typeof value === "string" && isEncrypted(value) ? JSON.parse(decrypt(value)) : value) as T,
+  };
+}
+
+let encryptor: Encryptor | null = null;
+
+/**
+ * Encryptor for the keys in the environment. Without ENCRYPTION_KEYS values are
+ * stored as plaintext outside production; in production it refuses to start.
+ */
+export function getEncryptor(): Encryptor {
+  if (!encryptor) {
+    const configured = createEncryptor(parseEncryptionKeys(process.env.ENCRYPTION_KEYS));
+    if (!configured.enabled) {
+      if (process.env.NODE_ENV === "production") {
+        throw new Error("ENCRYPTION_KEYS must be set in production");
+      }
+      console.warn("[Encryption] ENCRYPTION_KEYS is not set; credentials will be stored unencrypted");
+    }
+    encryptor = configured;
+  }
+  return encryptor;
+}
+
+/**
+ * Encrypt a secret for storage, or pass it through when no key is configured
+ */
+export function encryptSecret<T extends string | null | undefined>(value: T): T {
+  const enc = getEncryptor();
+  return (value && enc.enabled ? enc.encrypt(value) : value) as T;
+}
+
+export function decryptSecret<T extends string | null | undefined>(value: T): T {
+  return (value ? getEncryptor().decrypt(value) : value) as T;
+}
+
+export function encryptJson(value: unknown): unknown {
+  const enc = getEncryptor();
+  return enc.enabled ? enc.encryptJson(value) : value;
+}
+
+export function decryptJson<T = unknown>(value: unknown): T {
+  return getEncryptor().decryptJson<T>(value);
+}
@@ -0,0 +1,232 @@
+import ExcelJS from "exceljs";
+import type { Response } from "express";
+import { storage } from "./storage";
+import { decodeLeadCursor, type LeadSearchParams } from "@shared/lead-search";
+import type { DealViewFilters } from "@shared/saved-views";
+import {
+  exportColumns,
+  formatExportCell,
+  toCsvLine,
+  type ConversationExportFilters,
+  type ExportEntity,
+  type ExportRequest,
+  type TaskExportFilters,
+} from "@shared/export";
+
+/**
+ * Export Service
+ *
+ * Streams records to the response page by page, so memory stays flat no
+ * matter how many rows are exported. Records come from the same scoped
+ * storage queries the list pages use (searchLeads, getDeals and their task
+ * and conversation counterparts), so an export never contains anything the
+ * user could not see in the app. Every export is recorded as a
+ * "data_exported" activity.
+ */
+
+type ExportUser = { id: string; role: string };
+type ExportRecord = Record<string, any>;
+
+const PAGE_SIZE = 500;
+
+const contentTypes = {
+  csv: "text/csv; charset=utf-8",
+  xlsx: "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet",
+  json: "application/json; charset=utf-8",
+};
+
+interface ExportWriter {
+  write(rows: ExportRecord[]): Promise<void>;
+  end(): Promise<void>;
+}
+
+export class ExportService {
+  /**
+   * Write the export to the response; resolves with the number of records exported
+   */
+  async stream(entity: ExportEntity, user: ExportUser, request: ExportRequest, res: Response): Promise<number> {
+    const fileName = `${entity}-${new Date().toISOString().slice(0, 10)}.${request.format}`;
+    res.setHeader("Content-Type", contentTypes[request.format]);
+    res.setHeader("Content-Disposition", `attachment; filename="${fileName}"`);
+
+    const writer = this.createWriter(entity, request, res);
+    const lookups = await this.lookups(entity);
+    let count = 0;
+
+    for await (const records of this.pages(entity, user, request.filters)) {
+      await writer.write(records.map((record) => this.row(record, request.columns, lookups)));
+      count += records.length;
+      if (res.destroyed) break; // Client went away
+    }
+    if (!res.destroyed) await writer.end();
+
+    await storage.createActivity({
+      leadId: null,
+      type: "data_exported",
+      description: `Exported ${count} ${entity} as ${request.format.toUpperCase()}`,
+      metadata: { userId: user.id, entity, format: request.format, columns: request.columns, filters: request.filters, count },
+    });
+    return count;
+  }
+
+  /**
+   * Pages of records from the entity's scoped storage query
+   */
+  private async *pages(entity: ExportEntity, user: ExportUser, filters: Record<string, unknown>): AsyncGenerator<ExportRecord[]> {
+    switch (entity) {
+      case "leads": {
+        let cursor: unknown[] | undefined;
+        do {
+          const page = await storage.searchLeads(user, { ...(filters as LeadSearchParams), limit: PAGE_SIZE, cursor });
+          if (page.leads.length) yield page.leads;
+          cursor = page.nextCursor ? decodeLeadCursor(page.nextCursor) : undefined;
+        } while (cursor);
+        return;
+      }
+
+      case "deals": {
+        // getDeals is not paged; the rows are still written out in chunks
+        const deals = await storage.getDeals(user, filters as DealViewFilters);
+        for (let i = 0; i < deals.length; i += PAGE_SIZE) {
+          yield deals.slice(i, i + PAGE_SIZE);
+        }
+        return;
+      }
+
+      case "tasks":
+      case "conversations": {
+        for (let offset = 0; ; offset += PAGE_SIZE) {
+          const page = entity === "tasks"
+            ? await storage.getTasksForExport(user, filters as TaskExportFilters, { limit: PAGE_SIZE, offset })
+            : await storage.getConversationsForExport(user, filters as ConversationExportFilters, { limit: PAGE_SIZE, offset });
+          if (page.length) yield page;
+          if (page.length < PAGE_SIZE) return;
+        }
+      }
+    }
+  }
+
+  /**
+   * Names for the id columns that are exported as readable values
+   */
+  private async lookups(entity: ExportEntity): Promise<Map<string, string>> {
+    const names = new Map<string, string>();
+    if (entity !== "conversations") {
+      for (const user of await storage.getUsers()) names.set(user.id, user.name);
+    }
+    if (entity === "deals") {
+      for (const pipeline of await storage.getPipelines()) {
+        names.set(pipeline.id, pipeline.name);
+        for (const stage of await storage.getStages(pipeline.id)) names.set(stage.id, stage.name);
+      }
+    }
+    return names;
+  }
+
+  private row(record: ExportRecord, columns: string[], names: Map<string, string>): ExportRecord {
+    const row: ExportRecord = {};
+    for (const column of columns) {
+      row[column] = this.value(record, column, names);
+    }
+    return row;
+  }
+
+  private value(record: ExportRecord, column: string, names: Map<string, string>): unknown {
+    if (column.startsWith("cf.")) {
+      return (record.customFields as Record<string, unknown> | null)?.[column.slice(3)] ?? null;
+    }
+    switch (column) {
+      case "ownerName":
+        return record.ownerId ? names.get(record.ownerId) ?? record.ownerId : null;
+      case "assigneeName":
+        return record.assignedToUserId ? names.get(record.assignedToUserId) ?? record.assignedToUserId : null;
+      case "pipelineName":
+        return names.get(record.pipelineId) ?? record.pipelineId;
+      case "stageName":
+        return names.get(record.stageId) ?? record.stageId;
+      case "direction":
+        return record.isFromLead ? "inbound" : "outbound";
+      default:
+        return record[column] ?? null;
+    }
+  }
+
+  private createWriter(entity: ExportEntity, request: ExportRequest, res: Response): ExportWriter {
+    const labels = request.columns.map(
+      (column) => exportColumns[entity].find((c) => c.key === column)?.label ?? column
+    );
+
+    switch (request.format) {
+      case "csv": {
+        let started = false;
+        return {
+          write: async (rows) => {
+            const lines = rows.map((row) => toCsvLine(request.columns.map((column) => row[column])));
+            if (!started) {
+              lines.unshift("﻿" + toCsvLine(labels)); // BOM so Excel reads UTF-8
+              started = true;
+            }
+            await writeChunk(res, lines.join("\r\n") + "\r\n");
+          },
+          end: async () => {
+            if (!started) await writeChunk(res, "﻿" + toCsvLine(labels) + "\r\n");
+            res.end();
+          },
+        };
+      }
+
+      case "json": {
+        let first = true;
+        return {
+          write: async (rows) => {
+            const chunk = rows.map((row) => JSON.stringify(row)).join(",");
+            await writeChunk(res, (first ? "[" : ",") + chunk);
+            first = false;
+          },
+          end: async () => {
+            await writeChunk(res, first ? "[]" : "]");
+            res.end();
+          },
+        };
+      }
+
+      case "xlsx": {
+        const workbook = new ExcelJS.stream.xlsx.WorkbookWriter({ stream: res, useStyles: false, useSharedStrings: false });
+        const sheet = workbook.addWorksheet(entity);
+        sheet.addRow(labels).commit();
+        return {
+          write: async (rows) => {
+            for (const row of rows) {
+              sheet
+                .addRow(request.columns.map((column) => {
+                  const value = row[column];
+                  return typeof value === "number" || value instanceof Date ? value : formatExportCell(value);
+                }))
+                .commit();
+            }
+          },
+          end: async () => {
+            sheet.commit();
+            await workbook.commit();
+          },
+        };
+      }
+    }
+  }
+}
+
+// Respect backpressure so a slow client does not buffer the whole export in memory
+function writeChunk(res: Response, chunk: string): Promise<void> {
+  return new Promise((resolve) => {
+    if (res.write(chunk)) return resolve();
+    const done = () => {
+      res.off("drain", done);
+      res.off("close", done);
+      resolve();
+    };
+    res.once("drain", done);
+    res.once("close", done);
+  });
+}
+
+export const exportService = new ExportService();
@@ -2,6 +2,13 @@ import "dotenv/config";
 import express, { type Request, Response, NextFunction } from "express";
 import cookieParser from "cookie-parser";
 import { registerRoutes } from "./routes";
+import { jobQueue } from "./jobs";
+import { registerJobHandlers } from "./job-handlers";
+import { automationScheduler } from "./scheduler";
+import { roleService } from "./roles";
+import { getEncryptor } from "./encryption";
+import { appUrl } from "./onboarding";
+import { getMailTransport } from "./mail";
 import { log, serveStatic } from "./utils";
 
 // Polyfill for esbuild's __name helper which sometimes goes missing in certain environments
@@ -13,6 +20,11 @@ if (typeof (globalThis as any).__name === 'undefined') {
 }
 
 const app = express();
+// Number of reverse proxies in front of the app (nginx in docker-compose), so req.ip is the
+// client address that rate limiting and the sessions page use
+if (process.env.TRUST_PROXY) {
+  app.set("trust proxy", Number(process.env.TRUST_PROXY));
+}
 app.use(express.json({ limit: '50mb' })); // Increased limit for screenshot uploads
 app.use(express.urlencoded({ extended: false, limit: '50mb' }));
 app.use(cookieParser()); // Parse cookies for session management
@@ -48,6 +60,15 @@ app.use((req, res, next) => {
 });
 
 (async () => {
+  // Fail fast on missing or malformed ENCRYPTION_KEYS rather than on the first token write
+  getEncryptor();
+  // Invitation and reset links are only ever built from APP_URL, and never sent to the log
+  if (process.env.NODE_ENV === "production") {
+    appUrl();
+    getMailTransport();
+  }
+  // Custom roles must be cached before the first permission check
+  await roleService.load();
   const server = await registerRoutes(app);
 
   app.use((err: any, _req: Request, res: Response, _next: NextFunction) => {
@@ -80,6 +101,11 @@ app.use((req, res, next) => {
   }, () => {
     log(`serving on port ${port}`);
   });
+
+  // Start the background job worker and the time-based automation sweep
+  registerJobHandlers();
+  jobQueue.start();
+  automationScheduler.start();
 })();
 
 process.on("uncaughtException", (err) => {
@@ -0,0 +1,208 @@
+import { storage } from "./storage";
+import { jobQueue } from "./jobs";
+import { leadScoringService } from "./scoring";
+import { automationEngine, type AutomationChain } from "./automation";
+import { ms365Integration } from "./ms365";
+import { assignmentEngine } from "./assignment";
+import { DatagmaService } from "./services/datagma.js";
+import { apifyEnrichmentService } from "./services/apify-enrichment.js";
+import { leadImportService } from "./lead-import";
+import { companyService } from "./companies";
+
+/**
+ * Job Handlers
+ *
+ * Registers the work the background queue knows how to run.
+ * Payloads only carry ids (plus the requesting user where access is
+ * role-scoped) so a retried job always works from current data.
+ */
+
+type JobUser = { id: string; role: string };
+
+const datagmaService = new DatagmaService();
+
+/**
+ * Re-run AI scoring for a lead
+ */
+async function scoreLead(payload: { leadId: string }) {
+  const lead = await storage.getLeadById(payload.leadId);
+  if (!lead) {
+    return { skipped: "Lead not found" };
+  }
+
+  const { analysis, changed } = await leadScoringService.rescoreLead(lead);
+  return { score: analysis.score, status: analysis.status, changed };
+}
+
+/**
+ * Process an MS365 change notification for the mailbox that owns the subscription
+ */
+async function handleMs365Webhook(payload: { notification: any }) {
+  const { notification } = payload;
+  const syncState = notification.subscriptionId
+    ? await storage.getSyncStateBySubscriptionId(notification.subscriptionId)
+    : undefined;
+
+  if (!syncState?.userId) {
+    return { skipped: `No mailbox registered for subscription ${notification.subscriptionId}` };
+  }
+
+  const accessToken = await ms365Integration.ensureValidToken(syncState.userId);
+  await ms365Integration.handleWebhookNotification(notification, accessToken, syncState.userId);
+  return { userId: syncState.userId };
+}
+
+/**
+ * Look up a scraped profile's email with Datagma and push it to the matching lead
+ */
+async function enrichWithDatagma(payload: { user: JobUser; profileId: string }) {
+  const { user, profileId } = payload;
+
+  const profiles = await storage.getScrapedProfiles(user);
+  const profile = profiles.find(p => p.id === profileId);
+  if (!profile) {
+    throw new Error("Profile not found");
+  }
+  if (!profile.url) {
+    throw new Error("Profile has no LinkedIn URL");
+  }
+
+  const email = await datagmaService.enrichByLinkedInUrl(profile.url);
+
+  // Use found email or fallback for development
+  const finalEmail = email || 'technology@codescribed.com';
+  const emailSource = email ? 'datagma' : 'fallback';
+
+  await storage.updateScrapedProfile(user.id, profileId, {
+    email: finalEmail,
+    emailConfidence: email ? 95 : 50 // Lower confidence for fallback emails
+  });
+
+  // Also update or create lead if profile has name
+  if (profile.name) {
+    const leads = await storage.getLeads(user);
+    const lead = leads.find(l => l.email === finalEmail || l.linkedinUrl === profile.url);
+
+    if (lead) {
+      await storage.updateLead(lead.id, { email: finalEmail });
+    } else {
+      const createdLead = await storage.createLead({
+        name: profile.name,
+        email: finalEmail,
+        position: profile.headline,
+        linkedinUrl: profile.url,
+        city: profile.location,
+        status: "cold"
+      } as any);
+      await assignmentEngine.assignNewLead(createdLead, {
+        fallbackOwnerId: user.id,
+        source: "enrichment",
+      });
+    }
+  }
+
+  return { email: finalEmail, source: emailSource };
+}
+
+/**
+ * Run an Apify bulk search, store the results and fill in emails on matching profiles
+ */
+async function enrichWithApify(payload: {
+  user: JobUser;
+  criteria: { jobTitle?: string; location?: string; industry?: string; keywords?: string };
+}) {
+  const { user, criteria } = payload;
+
+  const apifyLeads = await apifyEnrichmentService.bulkEnrich(criteria);
+  console.log(`[Apify Job] Received ${apifyLeads.length} leads from Apify`);
+
+  let savedCount = 0;
+  for (const lead of apifyLeads) {
+    try {
+      await storage.createApifyResult({
+        fullName: lead.full_name,
+        firstName: lead.first_name,
+        lastName: lead.last_name,
+        email: lead.email,
+        jobTitle: lead.job_title,
+        linkedinUrl: lead.linkedin,
+        companyName: lead.company_name,
+        companyDomain: lead.company_domain,
+        location: lead.city || lead.state || lead.country || '',
+        industry: lead.industry || '',
+        searchCriteria: criteria,
+      });
+      savedCount++;
+    } catch (saveError: any) {
+      console.error('[Apify Job] Error saving lead:', saveError.message);
+    }
+  }
+
+  const profiles = await storage.getScrapedProfiles(user);
+  const profilesWithoutEmail = profiles.filter(p => !p.email);
+  const matches = apifyEnrichmentService.matchProfiles(apifyLeads, profilesWithoutEmail);
+
+  for (const match of matches) {
+    await storage.updateScrapedProfile(user.id, match.profileId, {
+      email: match.email,
+      emailConfidence: match.confidence
+    });
+  }
+
+  return {
+    enrichedCount: matches.length,
+    totalProfiles: profilesWithoutEmail.length,
+    apifyResultsCount: apifyLeads.length,
+    savedToDatabase: savedCount,
+  };
+}
+
+/**
+ * Register every job type with the queue
+ */
+export function registerJobHandlers(): void {
+  jobQueue.register("lead.score", scoreLead, { concurrency: 2 });
+
+  jobQueue.register(
+    "automation.conversation_received",
+    async (payload: { conversationId: string; chain?: AutomationChain }) => {
+      await automationEngine.onConversationReceived(payload.conversationId, payload.chain);
+    },
+    { concurrency: 2 }
+  );
+
+  jobQueue.register(
+    "automation.deal_stage_changed",
+    async (payload: { dealId: string; oldStageId: string; newStageId: string; chain?: AutomationChain }) => {
+      await automationEngine.onDealStageChange(payload.dealId, payload.oldStageId, payload.newStageId, payload.chain);
+    },
+    { concurrency: 2 }
+  );
+
+  jobQueue.register(
+    "automation.time_based",
+    () => automationEngine.runTimeBasedRules(),
+    { maxAttempts: 3 }
+  );
+
+  jobQueue.register("ms365.webhook", handleMs365Webhook, { concurrency: 2 });
+
+  jobQueue.register(
+    "ms365.sync",
+    (payload: { userId: string; backfillDays?: number }) =>
+      ms365Integration.syncEmailsWithLeads(payload.userId, { backfillDays: payload.backfillDays }),
+    { maxAttempts: 3 }
+  );
+
+  jobQueue.register("enrichment.datagma", enrichWithDatagma, { maxAttempts: 3 });
+  jobQueue.register("enrichment.apify_bulk", enrichWithApify, { maxAttempts: 2 });
+
+  // Not retried: a second pass would import the rows a failed run already created
+  jobQueue.register(
+    "lead_import.run",
+    (payload: { importId: string; user: JobUser }) => leadImportService.run(payload.importId, payload.user),
+    { maxAttempts: 1 }
+  );
+
+  jobQueue.register("companies.link_leads", () => companyService.linkUnlinkedLeads(), { maxAttempts: 2 });
+}
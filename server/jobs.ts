@@ -0,0 +1,197 @@
+import { hostname } from "os";
+import { randomUUID } from "crypto";
+import { storage } from "./storage";
+import type { Job } from "@shared/schema";
+
+/**
+ * Background Job Queue
+ *
+ * Database-backed queue for work that should not block a request:
+ * AI scoring, enrichment, MS365 sync and automation actions.
+ *
+ * - Jobs are rows in the `jobs` table, so they survive restarts
+ * - Workers claim jobs with SELECT ... FOR UPDATE SKIP LOCKED
+ * - Failures retry with exponential backoff until maxAttempts,
+ *   then the job is moved to the "dead" state for manual retry
+ * - Each job type has its own concurrency limit
+ */
+
+export type JobHandler = (payload: any, job: Job) => Promise<unknown>;
+
+interface HandlerRegistration {
+  handler: JobHandler;
+  concurrency: number;
+  maxAttempts: number;
+}
+
+export interface EnqueueOptions {
+  /** Delay before the job may run, in milliseconds */
+  delayMs?: number;
+  /** Override the handler's default retry limit */
+  maxAttempts?: number;
+  /** Skip enqueueing while a pending job with the same key exists */
+  uniqueKey?: string;
+  createdBy?: string;
+}
+
+const POLL_INTERVAL_MS = parseInt(process.env.JOB_POLL_INTERVAL_MS || "2000", 10);
+const LOCK_TIMEOUT_MS = 10 * 60 * 1000; // Running jobs older than this are assumed orphaned
+const BASE_BACKOFF_MS = 30 * 1000;
+const MAX_BACKOFF_MS = 60 * 60 * 1000;
+
+export class JobQueue {
+  private handlers = new Map<string, HandlerRegistration>();
+  private inFlight = new Map<string, number>();
+  private timer: NodeJS.Timeout | null = null;
+  private polling = false;
+  private lastStaleCheck = 0;
+  readonly workerId = `${hostname()}:${process.pid}:${randomUUID().slice(0, 8)}`;
+
+  /**
+   * Register the function that processes a job type
+   */
+  register(
+    type: string,
+    handler: JobHandler,
+    options: { concurrency?: number; maxAttempts?: number } = {}
+  ): void {
+    this.handlers.set(type, {
+      handler,
+      concurrency: options.concurrency ?? 1,
+      maxAttempts: options.maxAttempts ?? 5,
+    });
+  }
+
+  /**
+   * Add a job to the queue
+   */
+  async enqueue(type: string, payload: Record<string, unknown>, options: EnqueueOptions = {}): Promise<Job> {
+    if (options.uniqueKey) {
+      const existing = await storage.findPendingJobByKey(options.uniqueKey);
+      if (existing) return existing;
+    }
+
+    return storage.createJob({
+      type,
+      payload,
+      status: "pending",
+      uniqueKey: options.uniqueKey,
+      maxAttempts: options.maxAttempts ?? this.handlers.get(type)?.maxAttempts ?? 5,
+      runAt: new Date(Date.now() + (options.delayMs || 0)),
+      createdBy: options.createdBy,
+    });
+  }
+
+  /**
+   * Put a dead or completed job back in the queue
+   */
+  async retry(id: string): Promise<Job | undefined> {
+    const job = await storage.getJob(id);
+    if (!job) return undefined;
+    if (job.status === "running" || job.status === "pending") {
+      throw new Error(`Job is already ${job.status}`);
+    }
+
+    return storage.updateJob(id, {
+      status: "pending",
+      attempts: 0,
+      runAt: new Date(),
+      lockedAt: null,
+      lockedBy: null,
+      lastError: null,
+      completedAt: null,
+    });
+  }
+
+  /**
+   * Start polling for work
+   */
+  start(): void {
+    if (this.timer) return;
+    console.log(`[Jobs] Worker ${this.workerId} started (${this.handlers.size} job types)`);
+    this.timer = setInterval(() => {
+      this.poll().catch((error) => console.error("[Jobs] Poll failed:", error));
+    }, POLL_INTERVAL_MS);
+  }
+
+  /**
+   * Stop polling (running jobs are allowed to finish)
+   */
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  private async poll(): Promise<void> {
+    // Skip the tick if the previous one is still claiming jobs
+    if (this.polling) return;
+    this.polling = true;
+
+    try {
+      if (Date.now() - this.lastStaleCheck > LOCK_TIMEOUT_MS / 2) {
+        this.lastStaleCheck = Date.now();
+        const released = await storage.releaseStaleJobs(new Date(Date.now() - LOCK_TIMEOUT_MS));
+        if (released > 0) {
+          console.warn(`[Jobs] Released ${released} stale job(s)`);
+        }
+      }
+
+      for (const [type, registration] of Array.from(this.handlers.entries())) {
+        while ((this.inFlight.get(type) || 0) < registration.concurrency) {
+          const job = await storage.claimNextJob(type, this.workerId);
+          if (!job) break;
+
+          this.inFlight.set(type, (this.inFlight.get(type) || 0) + 1);
+          this.run(job, registration)
+            .catch((error) => console.error(`[Jobs] Failed to record result for ${job.id}:`, error))
+            .finally(() => {
+              this.inFlight.set(type, (this.inFlight.get(type) || 1) - 1);
+            });
+        }
+      }
+    } finally {
+      this.polling = false;
+    }
+  }
+
+  private async run(job: Job, registration: HandlerRegistration): Promise<void> {
+    try {
+      const result = await registration.handler(job.payload, job);
+      await storage.updateJob(job.id, {
+        status: "completed",
+        result: result === undefined ? null : result,
+        lockedAt: null,
+        lockedBy: null,
+        lastError: null,
+        completedAt: new Date(),
+      });
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+
+      if (job.attempts >= job.maxAttempts) {
+        console.error(`[Jobs] ${job.type} ${job.id} dead after ${job.attempts} attempt(s): ${message}`);
+        await storage.updateJob(job.id, {
+          status: "dead",
+          lockedAt: null,
+          lockedBy: null,
+          lastError: message,
+        });
+        return;
+      }
+
+      const backoff = Math.min(BASE_BACKOFF_MS * 2 ** (job.attempts - 1), MAX_BACKOFF_MS);
+      console.warn(`[Jobs] ${job.type} ${job.id} failed (attempt ${job.attempts}), retrying in ${backoff / 1000}s: ${message}`);
+      await storage.updateJob(job.id, {
+        status: "pending",
+        runAt: new Date(Date.now() + backoff),
+        lockedAt: null,
+        lockedBy: null,
+        lastError: message,
+      });
+    }
+  }
+}
+
+export const jobQueue = new JobQueue();
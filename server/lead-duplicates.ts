@@ -0,0 +1,173 @@
+import { storage } from "./storage";
+import { extractLinkedInUsername } from "./linkedin-enrichment";
+import type { Lead } from "@shared/schema";
+import {
+  buildMergedLead,
+  nameSimilarity,
+  normalizeCompany,
+  normalizeEmail,
+  normalizePhone,
+  NAME_SIMILARITY_THRESHOLD,
+  type DuplicateGroup,
+  type DuplicateMatch,
+  type DuplicateReason,
+  type LeadMergeRequest,
+} from "@shared/lead-duplicates";
+
+/**
+ * Lead Duplicate Service
+ *
+ * Finds likely duplicate leads among the leads a user can see (see
+ * shared/lead-duplicates.ts for the matching rules) and merges them.
+ * Exact keys (email, LinkedIn username, phone) are bucketed so detection
+ * stays linear; fuzzy name matching only compares leads at the same
+ * normalized company.
+ */
+
+type DuplicateUser = { id: string; role: string };
+
+// Largest number of groups returned for the review queue
+const MAX_GROUPS = 100;
+
+const pairKey = (a: string, b: string) => (a < b ? `${a}:${b}` : `${b}:${a}`);
+
+export class LeadDuplicateService {
+  /**
+   * Duplicate groups for the review queue, or just the group containing one lead
+   */
+  async findGroups(user: DuplicateUser, leadId?: string): Promise<DuplicateGroup[]> {
+    const leads = await storage.getLeads(user);
+    const dismissed = new Set(
+      (await storage.getDuplicateDismissals()).map((d) => pairKey(d.leadIdA, d.leadIdB))
+    );
+
+    const matches = this.findMatches(leads, dismissed);
+    const groups = this.group(leads, matches);
+    return leadId
+      ? groups.filter((group) => group.leads.some((lead) => lead.id === leadId))
+      : groups.slice(0, MAX_GROUPS);
+  }
+
+  /**
+   * Every likely duplicate pair among the leads, minus dismissed pairs
+   */
+  findMatches(leads: Lead[], dismissed: Set<string> = new Set()): DuplicateMatch[] {
+    const buckets = new Map<string, Lead[]>();
+    const addToBucket = (key: string | null, lead: Lead) => {
+      if (!key) return;
+      const bucket = buckets.get(key);
+      if (bucket) bucket.push(lead);
+      else buckets.set(key, [lead]);
+    };
+
+    for (const lead of leads) {
+      const email = normalizeEmail(lead.email);
+      const linkedin = lead.linkedinUrl ? extractLinkedInUsername(lead.linkedinUrl)?.toLowerCase() : null;
+      const phone = normalizePhone(lead.phone);
+      const company = normalizeCompany(lead.company);
+      addToBucket(email && `email:${email}`, lead);
+      addToBucket(linkedin ? `linkedin:${linkedin}` : null, lead);
+      addToBucket(phone && `phone:${phone}`, lead);
+      addToBucket(company ? `name_company:${company}` : null, lead);
+    }
+
+    const matches = new Map<string, DuplicateMatch>();
+    buckets.forEach((bucket, key) => {
+      if (bucket.length < 2) return;
+      const reason = key.slice(0, key.indexOf(":")) as DuplicateReason;
+
+      for (let i = 0; i < bucket.length; i++) {
+        for (let j = i + 1; j < bucket.length; j++) {
+          const [a, b] = [bucket[i], bucket[j]];
+          const id = pairKey(a.id, b.id);
+          if (dismissed.has(id)) continue;
+
+          const similarity = nameSimilarity(a.name, b.name);
+          if (reason === "name_company" && similarity < NAME_SIMILARITY_THRESHOLD) continue;
+
+          const match = matches.get(id);
+          if (match) {
+            if (!match.reasons.includes(reason)) match.reasons.push(reason);
+          } else {
+            const leadIds: [string, string] = a.id < b.id ? [a.id, b.id] : [b.id, a.id];
+            matches.set(id, { leadIds, reasons: [reason], nameSimilarity: Math.round(similarity * 100) / 100 });
+          }
+        }
+      }
+    });
+
+    return Array.from(matches.values());
+  }
+
+  /**
+   * Mark leads as not duplicates of each other
+   */
+  async dismiss(user: DuplicateUser, leadIds: string[]): Promise<void> {
+    const pairs: Array<[string, string]> = [];
+    const sorted = Array.from(new Set(leadIds)).sort();
+    for (let i = 0; i < sorted.length; i++) {
+      for (let j = i + 1; j < sorted.length; j++) {
+        pairs.push([sorted[i], sorted[j]]);
+      }
+    }
+    await storage.dismissDuplicatePairs(pairs, user.id);
+  }
+
+  /**
+   * Merge leads into the survivor; callers check the user can see every lead
+   */
+  async merge(user: DuplicateUser, survivor: Lead, merged: Lead[], request: LeadMergeRequest): Promise<Lead> {
+    const updates = buildMergedLead(survivor, merged, request.fieldSources);
+    const lead = await storage.mergeLeads(survivor.id, merged.map((m) => m.id), updates);
+
+    await storage.createActivity({
+      leadId: lead.id,
+      type: "lead_merged",
+      description: `Merged ${merged.length} duplicate lead${merged.length === 1 ? "" : "s"}: ${merged.map((m) => m.name).join(", ")}`,
+      // Which leads were merged, since the records themselves are gone; ids and names only,
+      // so fields hidden from some roles do not end up in the activity log
+      metadata: {
+        mergedBy: user.id,
+        mergedLeads: merged.map((m) => ({ id: m.id, name: m.name })),
+        fieldSources: request.fieldSources,
+      },
+    });
+    return lead;
+  }
+
+  private group(leads: Lead[], matches: DuplicateMatch[]): DuplicateGroup[] {
+    const parent = new Map<string, string>();
+    const find = (id: string): string => {
+      const next = parent.get(id);
+      if (!next || next === id) return id;
+      const root = find(next);
+      parent.set(id, root);
+      return root;
+    };
+    for (const { leadIds: [a, b] } of matches) {
+      parent.set(find(a), find(b));
+    }
+
+    const byId = new Map(leads.map((lead) => [lead.id, lead]));
+    const groups = new Map<string, DuplicateGroup>();
+    for (const match of matches) {
+      const root = find(match.leadIds[0]);
+      const group = groups.get(root) || { leads: [], matches: [] };
+      group.matches.push(match);
+      for (const id of match.leadIds) {
+        if (!group.leads.some((lead) => lead.id === id)) group.leads.push(byId.get(id)!);
+      }
+      groups.set(root, group);
+    }
+
+    // Oldest lead first - the default survivor
+    return Array.from(groups.values())
+      .map((group) => ({
+        ...group,
+        leads: group.leads.sort((a, b) => new Date(a.createdAt).getTime() - new Date(b.createdAt).getTime()),
+      }))
+      .sort((a, b) => b.leads.length - a.leads.length);
+  }
+}
+
+export const leadDuplicateService = new LeadDuplicateService();
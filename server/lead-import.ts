@@ -0,0 +1,357 @@
+import ExcelJS from "exceljs";
+import { storage } from "./storage";
+import { jobQueue } from "./jobs";
+import { assignmentEngine } from "./assignment";
+import PermissionService from "./permissions";
+import { insertLeadSchema, type InsertLead, type Lead, type LeadImport } from "@shared/schema";
+import {
+  dedupeKey,
+  mapImportRow,
+  parseCsv,
+  suggestMapping,
+  type DedupeField,
+  type ImportRowAction,
+  type ImportRowPreview,
+  type LeadImportOptions,
+  type LeadImportPreview,
+} from "@shared/lead-import";
+import type { ZodError } from "zod";
+
+/**
+ * Lead Import Service
+ *
+ * Turns uploaded CSV / XLSX files into lead_imports batches (see
+ * shared/lead-import.ts). The same plan drives the preview and the run:
+ * each row is mapped, checked for a duplicate on the chosen field (among
+ * leads the importing user can see, and earlier rows of the file), then
+ * validated against insertLeadSchema - in full for new leads, partially
+ * for updates.
+ *
+ * Runs happen in the "lead_import.run" job. Every created or updated lead
+ * is recorded with the values it replaced, which is what rollback restores.
+ */
+
+type ImportUser = { id: string; role: string };
+
+// Largest file accepted, in data rows
+const MAX_IMPORT_ROWS = parseInt(process.env.LEAD_IMPORT_MAX_ROWS || "5000", 10);
+const PREVIEW_ROW_LIMIT = 200;
+const DEDUPE_LOOKUP_CHUNK = 500;
+const PROGRESS_EVERY = 250;
+
+interface PlannedRow {
+  row: number;
+  action: ImportRowAction;
+  errors: string[];
+  data?: Partial<InsertLead>;
+  existing?: Lead;
+  duplicateOf?: string;
+}
+
+export class LeadImportService {
+  /**
+   * Parse an uploaded file into a header row and data rows
+   */
+  async parseFile(fileName: string, content: Buffer): Promise<{ headers: string[]; rows: string[][] }> {
+    const extension = fileName.split(".").pop()?.toLowerCase();
+    let table: string[][];
+
+    if (extension === "csv" || extension === "txt") {
+      table = parseCsv(content.toString("utf8"));
+    } else if (extension === "xlsx") {
+      table = await this.readWorkbook(content);
+    } else {
+      throw new Error("Only .csv and .xlsx files can be imported");
+    }
+
+    if (table.length < 2) {
+      throw new Error("The file needs a header row and at least one data row");
+    }
+    if (table.length - 1 > MAX_IMPORT_ROWS) {
+      throw new Error(`Files are limited to ${MAX_IMPORT_ROWS} rows (this one has ${table.length - 1})`);
+    }
+
+    const headers = table[0].map((header) => header.trim());
+    const rows = table.slice(1).map((row) => headers.map((_, index) => row[index] ?? ""));
+    return { headers, rows };
+  }
+
+  /**
+   * Store an uploaded file as a draft batch with a suggested column mapping
+   */
+  async createImport(user: ImportUser, fileName: string, content: Buffer): Promise<LeadImport> {
+    const { headers, rows } = await this.parseFile(fileName, content);
+    return storage.createLeadImport({
+      fileName,
+      status: "draft",
+      headers,
+      rows,
+      mapping: suggestMapping(headers),
+      createdBy: user.id,
+    });
+  }
+
+  /**
+   * The batch's owner or someone who sees all data (admins) may see, run and roll back a batch
+   */
+  canAccess(leadImport: Pick<LeadImport, "createdBy">, user: ImportUser): boolean {
+    return leadImport.createdBy === user.id || PermissionService.seesAllData(user);
+  }
+
+  /**
+   * What running the batch with these options would do, saving the options on the draft
+   */
+  async preview(leadImport: LeadImport, user: ImportUser, options: LeadImportOptions): Promise<LeadImportPreview> {
+    this.checkOptions(leadImport, options);
+    await storage.updateLeadImport(leadImport.id, {
+      mapping: options.mapping,
+      dedupeStrategy: options.dedupeStrategy,
+      dedupeField: options.dedupeField,
+    });
+
+    const plan = await this.plan({ ...leadImport, ...options }, user);
+    const preview: LeadImportPreview = { rowCount: plan.length, create: 0, update: 0, skip: 0, invalid: 0, rows: [] };
+    for (const planned of plan) {
+      preview[planned.action]++;
+      if ((planned.action !== "create" || planned.duplicateOf) && preview.rows.length < PREVIEW_ROW_LIMIT) {
+        const row: ImportRowPreview = { row: planned.row, action: planned.action, errors: planned.errors };
+        if (planned.duplicateOf) row.duplicateOf = planned.duplicateOf;
+        preview.rows.push(row);
+      }
+    }
+    return preview;
+  }
+
+  /**
+   * Save the final options and queue the batch
+   */
+  async start(leadImport: LeadImport, user: ImportUser, options: LeadImportOptions): Promise<LeadImport> {
+    if (leadImport.status !== "draft") {
+      throw new Error(`Import is already ${leadImport.status}`);
+    }
+    this.checkOptions(leadImport, options);
+
+    await storage.updateLeadImport(leadImport.id, {
+      status: "queued",
+      mapping: options.mapping,
+      dedupeStrategy: options.dedupeStrategy,
+      dedupeField: options.dedupeField,
+    });
+    const job = await jobQueue.enqueue(
+      "lead_import.run",
+      { importId: leadImport.id, user: { id: user.id, role: user.role } },
+      { uniqueKey: `lead_import:${leadImport.id}`, createdBy: user.id }
+    );
+    const updated = await storage.updateLeadImport(leadImport.id, { jobId: job.id });
+    return updated!;
+  }
+
+  /**
+   * Import every row of a queued batch (the lead_import.run job)
+   */
+  async run(importId: string, user: ImportUser) {
+    const leadImport = await storage.getLeadImport(importId);
+    if (!leadImport) {
+      return { skipped: "Import not found" };
+    }
+    if (leadImport.status !== "queued") {
+      return { skipped: `Import is ${leadImport.status}` };
+    }
+
+    await storage.updateLeadImport(importId, { status: "running" });
+    const counts = { createdCount: 0, updatedCount: 0, skippedCount: 0, failedCount: 0 };
+    const errors: Array<{ row: number; errors: string[] }> = [];
+
+    try {
+      const plan = await this.plan(leadImport, user);
+      for (let index = 0; index < plan.length; index++) {
+        const planned = plan[index];
+        try {
+          if (planned.action === "create") {
+            await this.createLead(leadImport, planned.data as InsertLead);
+            counts.createdCount++;
+          } else if (planned.action === "update") {
+            await this.updateLead(leadImport, planned.existing!, planned.data!);
+            counts.updatedCount++;
+          } else if (planned.action === "skip") {
+            counts.skippedCount++;
+          } else {
+            counts.failedCount++;
+            errors.push({ row: planned.row, errors: planned.errors });
+          }
+        } catch (error) {
+          counts.failedCount++;
+          errors.push({ row: planned.row, errors: [error instanceof Error ? error.message : String(error)] });
+        }
+
+        if ((index + 1) % PROGRESS_EVERY === 0) {
+          await storage.updateLeadImport(importId, counts);
+        }
+      }
+    } catch (error) {
+      await storage.updateLeadImport(importId, { ...counts, errors, status: "failed", completedAt: new Date() });
+      throw error;
+    }
+
+    await storage.updateLeadImport(importId, { ...counts, errors, status: "completed", completedAt: new Date() });
+    return counts;
+  }
+
+  /**
+   * Undo a batch: delete the leads it created and restore the values it overwrote
+   */
+  async rollback(leadImport: LeadImport): Promise<{ deleted: number; restored: number }> {
+    if (leadImport.status !== "completed" && leadImport.status !== "failed") {
+      throw new Error(`A ${leadImport.status} import cannot be rolled back`);
+    }
+
+    const result = { deleted: 0, restored: 0 };
+    for (const item of await storage.getLeadImportItems(leadImport.id)) {
+      if (item.action === "created") {
+        await storage.deleteLead(item.leadId);
+        result.deleted++;
+      } else {
+        await storage.updateLead(item.leadId, (item.previous || {}) as Partial<InsertLead>);
+        await storage.createActivity({
+          leadId: item.leadId,
+          type: "lead_updated",
+          description: `Changes from import "${leadImport.fileName}" were rolled back`,
+          metadata: { importId: leadImport.id },
+        });
+        result.restored++;
+      }
+    }
+
+    await storage.updateLeadImport(leadImport.id, { status: "rolled_back", rolledBackAt: new Date() });
+    return result;
+  }
+
+  private checkOptions(leadImport: LeadImport, options: LeadImportOptions): void {
+    if (options.mapping.length !== leadImport.headers.length) {
+      throw new Error(`Mapping must have one entry per column (${leadImport.headers.length})`);
+    }
+    const targets = options.mapping.filter((target): target is string => !!target);
+    const repeated = targets.find((target, index) => targets.indexOf(target) !== index);
+    if (repeated) {
+      throw new Error(`${repeated} is mapped from more than one column`);
+    }
+  }
+
+  /**
+   * Decide what happens to each row; shared by preview and run
+   */
+  private async plan(
+    leadImport: Pick<LeadImport, "rows" | "mapping" | "dedupeStrategy" | "dedupeField">,
+    user: ImportUser
+  ): Promise<PlannedRow[]> {
+    const rows = leadImport.rows as string[][];
+    const mapping = (leadImport.mapping || []) as LeadImportOptions["mapping"];
+    const field = leadImport.dedupeField as DedupeField;
+    const strategy = leadImport.dedupeStrategy;
+
+    const mapped = rows.map((row) => mapImportRow(row, mapping));
+    const keys = mapped.map((lead) => dedupeKey(lead, field));
+    const existing = await this.findExisting(user, field, keys);
+    const firstRowByKey = new Map<string, number>();
+
+    return mapped.map((lead, index) => {
+      const row = index + 1;
+      const key = keys[index];
+      const match = key ? existing.get(key) : undefined;
+      let duplicateOf: string | undefined;
+
+      if (key && strategy !== "create") {
+        const earlierRow = firstRowByKey.get(key);
+        if (earlierRow !== undefined) {
+          return { row, action: "skip", errors: [], duplicateOf: `row ${earlierRow}` };
+        }
+        firstRowByKey.set(key, row);
+      }
+
+      if (match) {
+        duplicateOf = match.id;
+        if (strategy === "skip") {
+          return { row, action: "skip", errors: [], duplicateOf };
+        }
+        if (strategy === "update") {
+          const parsed = insertLeadSchema.partial().safeParse(lead);
+          return parsed.success
+            ? { row, action: "update", errors: [], data: parsed.data, existing: match, duplicateOf }
+            : { row, action: "invalid", errors: formatErrors(parsed.error), duplicateOf };
+        }
+      }
+
+      const parsed = insertLeadSchema.safeParse(lead);
+      return parsed.success
+        ? { row, action: "create", errors: [], data: parsed.data, duplicateOf }
+        : { row, action: "invalid", errors: formatErrors(parsed.error), duplicateOf };
+    });
+  }
+
+  private async findExisting(user: ImportUser, field: DedupeField, keys: Array<string | null>): Promise<Map<string, Lead>> {
+    const unique = Array.from(new Set(keys.filter((key): key is string => !!key)));
+    const byKey = new Map<string, Lead>();
+
+    for (let i = 0; i < unique.length; i += DEDUPE_LOOKUP_CHUNK) {
+      const leads = await storage.findLeadsForDedupe(user, field, unique.slice(i, i + DEDUPE_LOOKUP_CHUNK));
+      for (const lead of leads) {
+        const key = dedupeKey(lead, field);
+        if (key && !byKey.has(key)) byKey.set(key, lead);
+      }
+    }
+    return byKey;
+  }
+
+  private async createLead(leadImport: LeadImport, data: InsertLead): Promise<void> {
+    const created = await storage.createLead(data);
+    await storage.createActivity({
+      leadId: created.id,
+      type: "lead_created",
+      description: `Lead "${created.name}" was imported from ${leadImport.fileName}`,
+      metadata: { importId: leadImport.id },
+    });
+    await assignmentEngine.assignNewLead(created, { fallbackOwnerId: leadImport.createdBy, source: "import" });
+    await storage.createLeadImportItem({ importId: leadImport.id, leadId: created.id, action: "created" });
+  }
+
+  private async updateLead(leadImport: LeadImport, existing: Lead, data: Partial<InsertLead>): Promise<void> {
+    const updates: Partial<InsertLead> = data.customFields
+      ? { ...data, customFields: { ...((existing.customFields as Record<string, unknown>) || {}), ...data.customFields } }
+      : data;
+    const previous = Object.fromEntries(
+      Object.keys(updates).map((key) => [key, existing[key as keyof Lead] ?? null])
+    );
+
+    await storage.updateLead(existing.id, updates);
+    await storage.createActivity({
+      leadId: existing.id,
+      type: "lead_updated",
+      description: `Lead information was updated from ${leadImport.fileName}`,
+      metadata: { importId: leadImport.id },
+    });
+    await storage.createLeadImportItem({ importId: leadImport.id, leadId: existing.id, action: "updated", previous });
+  }
+
+  private async readWorkbook(content: Buffer): Promise<string[][]> {
+    const workbook = new ExcelJS.Workbook();
+    await workbook.xlsx.load(content as any);
+    const sheet = workbook.worksheets[0];
+    if (!sheet) return [];
+
+    const table: string[][] = [];
+    sheet.eachRow({ includeEmpty: false }, (row) => {
+      const cells: string[] = [];
+      row.eachCell({ includeEmpty: true }, (cell, column) => {
+        cells[column - 1] = cell.text ?? "";
+      });
+      table.push(Array.from(cells, (value) => value ?? ""));
+    });
+    return table.filter((row) => row.some((value) => value.trim() !== ""));
+  }
+}
+
+function formatErrors(error: ZodError): string[] {
+  return error.errors.map((issue) => (issue.path.length ? `${issue.path.join(".")}: ${issue.message}` : issue.message));
+}
+
+export const leadImportService = new LeadImportService();
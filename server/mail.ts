@@ -0,0 +1,112 @@
+import { mkdir, writeFile } from "fs/promises";
+import path from "path";
+import { storage } from "./storage";
+import { ms365Integration } from "./ms365";
+
+/**
+ * Mail Transport
+ *
+ * System email (invitations, password resets) goes through one transport,
+ * chosen with MAIL_TRANSPORT:
+ *
+ *   console - print messages to the server log (default; refused in production,
+ *             where the log would hold every invitation and reset link)
+ *   file    - write each message to MAIL_DIR (default .mail/) for inspection
+ *   ms365   - send from the connected Microsoft 365 mailbox of MAIL_FROM,
+ *             a CRM user's email address
+ *
+ * Other transports plug in with registerMailTransport before the first send.
+ */
+
+export interface MailMessage {
+  to: string;
+  subject: string;
+  text: string;
+}
+
+export interface MailTransport {
+  send(message: MailMessage): Promise<void>;
+}
+
+export class ConsoleMailTransport implements MailTransport {
+  async send(message: MailMessage): Promise<void> {
+    console.log(`[Mail] To: ${message.to}\n[Mail] Subject: ${message.subject}\n${message.text}`);
+  }
+}
+
+export class FileMailTransport implements MailTransport {
+  constructor(private directory: string) {}
+
+  async send(message: MailMessage): Promise<void> {
+    await mkdir(this.directory, { recursive: true });
+    const slug = message.to.replace(/[^a-z0-9]+/gi, "_");
+    const file = path.join(this.directory, `${new Date().toISOString().replace(/[:.]/g, "-")}-${slug}.eml`);
+    const contents = [
+      `To: ${message.to}`,
+      `Subject: ${message.subject}`,
+      `Date: ${new Date().toUTCString()}`,
+      "",
+      message.text,
+    ].join("\n");
+    await writeFile(file, contents, "utf8");
+    console.log(`[Mail] Wrote message for ${message.to} to ${file}`);
+  }
+}
+
+export class Ms365MailTransport implements MailTransport {
+  constructor(private senderEmail: string) {}
+
+  async send(message: MailMessage): Promise<void> {
+    const sender = await storage.getUserByEmail(this.senderEmail);
+    if (!sender) throw new Error(`MAIL_FROM user ${this.senderEmail} not found`);
+
+    const accessToken = await ms365Integration.ensureValidToken(sender.id);
+    const result = await ms365Integration.sendEmail({
+      to: message.to,
+      subject: message.subject,
+      body: message.text,
+      accessToken,
+      userId: sender.id,
+    });
+    if (!result.success) throw new Error("Microsoft 365 did not accept the message");
+  }
+}
+
+const transportFactories: Record<string, () => MailTransport> = {
+  console: () => new ConsoleMailTransport(),
+  file: () => new FileMailTransport(process.env.MAIL_DIR || ".mail"),
+  ms365: () => {
+    if (!process.env.MAIL_FROM) throw new Error("MAIL_FROM is required for the ms365 mail transport");
+    return new Ms365MailTransport(process.env.MAIL_FROM);
+  },
+};
+
+let transport: MailTransport | null = null;
+
+export function registerMailTransport(name: string, factory: () => MailTransport) {
+  transportFactories[name] = factory;
+}
+
+/**
+ * Use a specific transport instead of the one MAIL_TRANSPORT names
+ */
+export function setMailTransport(custom: MailTransport | null) {
+  transport = custom;
+}
+
+export function getMailTransport(): MailTransport {
+  if (!transport) {
+    const name = process.env.MAIL_TRANSPORT || "console";
+    if (name === "console" && process.env.NODE_ENV === "production") {
+      throw new Error("MAIL_TRANSPORT must be set to a transport other than console in production");
+    }
+    const factory = transportFactories[name];
+    if (!factory) throw new Error(`Unknown MAIL_TRANSPORT: ${name}`);
+    transport = factory();
+  }
+  return transport;
+}
+
+export async function sendMail(message: MailMessage): Promise<void> {
+  await getMailTransport().send(message);
+}
@@ -11,9 +11,13 @@
  *    - MS365_CLIENT_ID
  *    - MS365_CLIENT_SECRET
  *    - MS365_TENANT_ID
+ *    - MS365_BACKFILL_DAYS (optional, history pulled on first sync, default 30)
  */
 
 import { storage } from "./storage";
+import { jobQueue } from "./jobs";
+import type { Conversation, Lead } from "@shared/schema";
+import { parseReferences, type ConversationAttachment } from "@shared/email-threads";
 
 interface MS365Config {
   clientId: string;
@@ -28,10 +32,32 @@ interface EmailMessage {
   body: string;
   from: string;
   to: string;
+  recipients: string[]; // Every to, cc and bcc address
+  cc: string[];
+  bcc: string[];
   sentDateTime: string;
   isRead: boolean;
+  threadId?: string;
+  internetMessageId?: string;
+  inReplyTo?: string;
+  references: string[];
+  hasAttachments: boolean;
 }
 
+type MailFolder = "inbox" | "sentitems";
+
+const MESSAGE_FIELDS = [
+  "id", "subject", "body", "from", "toRecipients", "ccRecipients", "bccRecipients",
+  "sentDateTime", "receivedDateTime", "isRead",
+  "conversationId", "internetMessageId", "internetMessageHeaders", "hasAttachments",
+].join(",");
+const DELTA_PAGE_SIZE = 50;
+const MAX_DELTA_PAGES = 40; // Per folder per sync; the saved link resumes the rest
+const DEFAULT_BACKFILL_DAYS = parseInt(process.env.MS365_BACKFILL_DAYS || "30", 10);
+
+// Delta rounds resume from .../messages/delta links; syncs before delta saved plain /me/messages page links
+const isDeltaLink = (link: string) => /\/messages\/delta(\?|$)/.test(link);
+
 export class MS365Integration {
   private config: MS365Config;
 
@@ -223,81 +249,165 @@ export class MS365Integration {
   }
 
   /**
-   * Fetch emails from MS 365 mailbox
-   * 
-   * Uses Microsoft Graph API: GET /me/messages
-   * Note: Delta queries not supported for messages, using regular pagination instead
+   * Fetch changed messages from a mail folder using a Graph delta query
+   *
+   * Uses Microsoft Graph API: GET /me/mailFolders/{folder}/messages/delta
+   * Without a saved link a new delta round starts, limited to messages
+   * received in the last backfillDays. Pages are followed until Graph
+   * returns a deltaLink or MAX_DELTA_PAGES is reached; the returned link
+   * resumes from there on the next sync. An expired link (410) or a saved
+   * link that is not a delta link (pre-delta sync page links) starts over.
    * Handles 401 errors with automatic token refresh and retry
    */
   async fetchEmails(
     accessToken: string,
-    deltaToken?: string,
-    isRetry: boolean = false,
-    userId?: string
+    folder: MailFolder,
+    deltaLink?: string,
+    options: { backfillDays?: number; userId?: string } = {},
+    isRetry: boolean = false
   ): Promise<{
     emails: EmailMessage[];
-    nextDeltaToken: string;
+    nextDeltaLink: string | null;
   }> {
-    // Use regular messages endpoint instead of delta (delta not supported for messages)
-    const url = deltaToken || "https://graph.microsoft.com/v1.0/me/messages?$top=50&$select=id,subject,body,from,toRecipients,sentDateTime,isRead&$orderby=sentDateTime desc";
+    if (deltaLink && !isDeltaLink(deltaLink)) {
+      console.log(`MS365: Saved ${folder} link is not a delta link, starting over`);
+      deltaLink = undefined;
+    }
+    let url = deltaLink || this.initialDeltaUrl(folder, options.backfillDays ?? DEFAULT_BACKFILL_DAYS);
+    const emails: EmailMessage[] = [];
 
     try {
-      const response = await fetch(url, {
-        headers: {
-          Authorization: `Bearer ${accessToken}`,
-          "Content-Type": "application/json",
-        },
-      });
+      for (let page = 0; page < MAX_DELTA_PAGES; page++) {
+        const response = await fetch(url, {
+          headers: {
+            Authorization: `Bearer ${accessToken}`,
+            "Content-Type": "application/json",
+            Prefer: `odata.maxpagesize=${DELTA_PAGE_SIZE}`,
+          },
+        });
 
-      // Handle 401 Unauthorized - token may be invalid
-      if (response.status === 401 && !isRetry && userId) {
-        console.log("MS365: Received 401, refreshing token and retrying...");
-        const newAccessToken = await this.ensureValidToken(userId);
-        return this.fetchEmails(newAccessToken, deltaToken, true, userId);
-      }
+        // Handle 401 Unauthorized - token may be invalid
+        if (response.status === 401 && !isRetry && options.userId) {
+          console.log("MS365: Received 401, refreshing token and retrying...");
+          const newAccessToken = await this.ensureValidToken(options.userId);
+          return this.fetchEmails(newAccessToken, folder, deltaLink, options, true);
+        }
 
-      if (!response.ok) {
-        const error = await response.text();
-        throw new Error(`Failed to fetch emails: ${error}`);
-      }
+        // The delta link has expired - start a new round
+        if (response.status === 410 && deltaLink) {
+          console.log(`MS365: Delta link for ${folder} expired, starting over`);
+          return this.fetchEmails(accessToken, folder, undefined, options, isRetry);
+        }
 
-      const data = await response.json();
-      const emails: EmailMessage[] = data.value.map((msg: any) => ({
-        id: msg.id,
-        subject: msg.subject || "(No Subject)",
-        body: msg.body?.content || "",
-        from: msg.from?.emailAddress?.address || "",
-        to: msg.toRecipients?.[0]?.emailAddress?.address || "",
-        sentDateTime: msg.sentDateTime,
-        isRead: msg.isRead,
-      }));
-
-      // Get next page link for pagination (instead of delta token)
-      const nextDeltaToken = data["@odata.nextLink"] || "";
+        if (!response.ok) {
+          const error = await response.text();
+          throw new Error(`Failed to fetch emails: ${error}`);
+        }
 
-      return {
-        emails,
-        nextDeltaToken,
-      };
+        const data = await response.json();
+        for (const msg of data.value || []) {
+          // Deleted or moved-out messages come back as tombstones
+          if (msg["@removed"]) continue;
+          emails.push(this.toEmailMessage(msg));
+        }
+
+        if (data["@odata.deltaLink"]) {
+          return { emails, nextDeltaLink: data["@odata.deltaLink"] };
+        }
+        if (!data["@odata.nextLink"]) {
+          // Neither link: resuming from this page would repeat it forever, so start over next time
+          return { emails, nextDeltaLink: null };
+        }
+        url = data["@odata.nextLink"];
+      }
+
+      // Page limit reached: the nextLink picks up where this run stopped
+      return { emails, nextDeltaLink: url };
     } catch (error) {
-      console.error("MS365: Failed to fetch emails:", error);
+      console.error(`MS365: Failed to fetch emails from ${folder}:`, error);
       throw error;
     }
   }
 
+  private initialDeltaUrl(folder: MailFolder, backfillDays: number): string {
+    const since = new Date(Date.now() - backfillDays * 24 * 60 * 60 * 1000).toISOString();
+    const filter = encodeURIComponent(`receivedDateTime ge ${since}`);
+    return `https://graph.microsoft.com/v1.0/me/mailFolders/${folder}/messages/delta?$select=${MESSAGE_FIELDS}&$filter=${filter}`;
+  }
+
+  private toEmailMessage(msg: any): EmailMessage {
+    const addresses = (list: any[] | undefined) =>
+      (list || []).map((r: any) => r?.emailAddress?.address).filter(Boolean) as string[];
+    const to = addresses(msg.toRecipients);
+    const cc = addresses(msg.ccRecipients);
+    const bcc = addresses(msg.bccRecipients);
+
+    // Reply headers are only present on messages that answer another
+    const header = (name: string): string | undefined =>
+      (msg.internetMessageHeaders || []).find((h: any) => h.name?.toLowerCase() === name)?.value;
+
+    return {
+      id: msg.id,
+      subject: msg.subject || "(No Subject)",
+      body: msg.body?.content || "",
+      from: msg.from?.emailAddress?.address || "",
+      to: to[0] || "",
+      recipients: [...to, ...cc, ...bcc],
+      cc,
+      bcc,
+      sentDateTime: msg.sentDateTime || msg.receivedDateTime,
+      isRead: msg.isRead,
+      threadId: msg.conversationId || undefined,
+      internetMessageId: msg.internetMessageId || undefined,
+      inReplyTo: parseReferences(header("in-reply-to"))[0],
+      references: parseReferences(header("references")),
+      hasAttachments: !!msg.hasAttachments,
+    };
+  }
+
+  /**
+   * Fetch attachment names, types and sizes for a message (not the content)
+   *
+   * Uses Microsoft Graph API: GET /me/messages/{id}/attachments
+   */
+  private async fetchAttachmentMetadata(accessToken: string, messageId: string): Promise<ConversationAttachment[]> {
+    const url = `https://graph.microsoft.com/v1.0/me/messages/${messageId}/attachments?$select=id,name,contentType,size,isInline`;
+    const response = await fetch(url, {
+      headers: {
+        Authorization: `Bearer ${accessToken}`,
+        "Content-Type": "application/json",
+      },
+    });
+
+    if (!response.ok) {
+      console.warn(`MS365: Could not load attachments for message ${messageId}`);
+      return [];
+    }
+
+    const data = await response.json();
+    return (data.value || [])
+      .filter((a: any) => !a.isInline)
+      .map((a: any) => ({ id: a.id, name: a.name, contentType: a.contentType, size: a.size }));
+  }
+
   /**
    * Sync emails and match with leads
    * 
    * This is the main sync function that:
-   * 1. Fetches new emails from MS 365
-   * 2. Matches sender email addresses with leads in database
-   * 3. Creates conversation records for matched emails
+   * 1. Fetches new and changed emails from the Inbox and Sent Items folders
+   * 2. Matches the sender and every to/cc/bcc recipient with the user's leads
+   * 3. Creates conversation records for matched emails, skipping message IDs already stored
    * 4. Triggers AI scoring for updated leads
+   *
+   * backfillDays discards the saved delta links and walks that many days of history.
    */
-  async syncEmailsWithLeads(userId: string): Promise<{
+  async syncEmailsWithLeads(userId: string, options: { backfillDays?: number } = {}): Promise<{
     synced: number;
     matched: number;
     unmatched: number;
+    inbound: number;
+    outbound: number;
+    duplicates: number;
   }> {
     console.log(`MS365: Starting email sync for user ${userId}...`);
 
@@ -309,61 +419,158 @@ export class MS365Integration {
 
       // Ensure we have a valid access token (refresh if expired)
       const accessToken = await this.ensureValidToken(userId);
-      const deltaToken = syncState.deltaToken || undefined;
+      const backfill = options.backfillDays !== undefined;
+      const fetchOptions = { backfillDays: options.backfillDays, userId };
 
-      const { emails, nextDeltaToken } = await this.fetchEmails(
+      const inbox = await this.fetchEmails(
+        accessToken,
+        "inbox",
+        backfill ? undefined : syncState.deltaToken || undefined,
+        fetchOptions
+      );
+      const sent = await this.fetchEmails(
         accessToken,
-        deltaToken,
-        false,
-        userId
+        "sentitems",
+        backfill ? undefined : syncState.sentDeltaToken || undefined,
+        fetchOptions
       );
 
-      let matched = 0;
-      let unmatched = 0;
-
-      for (const email of emails) {
-        const leads = await storage.getLeads({ id: userId, role: 'sales_rep' });
-        const matchedLead = leads.find((l) =>
-          l.email.toLowerCase() === email.from.toLowerCase()
-        );
-
-        if (matchedLead) {
-          // Create conversation record
-          await storage.createConversation({
-            leadId: matchedLead.id,
-            subject: email.subject,
-            body: email.body,
-            fromEmail: email.from,
-            toEmail: email.to,
-            sentAt: new Date(email.sentDateTime),
-            isFromLead: 1,
-            messageId: email.id,
-          });
-          matched++;
-        } else {
-          unmatched++;
+      const leadsByEmail = await this.getLeadsByEmail(userId);
+      const summary = { synced: 0, matched: 0, unmatched: 0, inbound: 0, outbound: 0, duplicates: 0 };
+      const matchedLeadIds = new Set<string>();
+
+      for (const email of [...inbox.emails, ...sent.emails]) {
+        summary.synced++;
+        const result = await this.storeEmail(email, leadsByEmail, accessToken);
+
+        if (result.created.length === 0 && result.duplicates === 0) {
+          summary.unmatched++;
+          continue;
+        }
+        summary.matched++;
+        summary.duplicates += result.duplicates;
+        for (const conversation of result.created) {
+          matchedLeadIds.add(conversation.leadId);
+          if (conversation.isFromLead) summary.inbound++;
+          else summary.outbound++;
         }
       }
 
       // Update sync state for this user
       await storage.updateSyncStateForUser(userId, {
         lastSyncAt: new Date(),
-        deltaToken: nextDeltaToken,
+        deltaToken: inbox.nextDeltaLink,
+        sentDeltaToken: sent.nextDeltaLink,
       });
 
-      console.log(`MS365: Sync complete for user ${userId} - ${matched} matched, ${unmatched} unmatched`);
+      // Rescore leads that received new email
+      for (const leadId of Array.from(matchedLeadIds)) {
+        await jobQueue.enqueue("lead.score", { leadId }, { uniqueKey: `lead.score:${leadId}` });
+      }
 
-      return {
-        synced: emails.length,
-        matched,
-        unmatched,
-      };
+      console.log(
+        `MS365: Sync complete for user ${userId} - ${summary.inbound} inbound, ${summary.outbound} outbound, ` +
+        `${summary.duplicates} duplicates, ${summary.unmatched} unmatched`
+      );
+
+      return summary;
     } catch (error) {
       console.error(`MS365: Sync failed for user ${userId}:`, error);
       throw error;
     }
   }
 
+  /**
+   * Index the user's accessible leads by lowercased email address
+   */
+  private async getLeadsByEmail(userId: string): Promise<Map<string, Lead>> {
+    const leads = await storage.getLeads({ id: userId, role: 'sales_rep' });
+    return new Map(leads.map((l) => [l.email.toLowerCase(), l]));
+  }
+
+  /**
+   * Store an email as a conversation on every lead it involves
+   *
+   * A message from a lead is inbound (isFromLead = 1) for that lead; a lead
+   * found among the to/cc/bcc recipients gets it as outbound (isFromLead = 0).
+   * Messages already stored for the lead (same messageId or Message-ID header)
+   * are skipped; an outbound copy of mail the CRM logged without a Message-ID
+   * is linked to that conversation instead of stored again.
+   */
+  private async storeEmail(
+    email: EmailMessage,
+    leadsByEmail: Map<string, Lead>,
+    accessToken: string
+  ): Promise<{ created: Conversation[]; duplicates: number }> {
+    const created: Conversation[] = [];
+    let duplicates = 0;
+
+    const sender = leadsByEmail.get(email.from.toLowerCase());
+    const targets = new Map<string, { lead: Lead; isFromLead: number }>();
+    if (sender) {
+      targets.set(sender.id, { lead: sender, isFromLead: 1 });
+    } else {
+      for (const address of email.recipients) {
+        const lead = leadsByEmail.get(address.toLowerCase());
+        if (lead && !targets.has(lead.id)) {
+          targets.set(lead.id, { lead, isFromLead: 0 });
+        }
+      }
+    }
+
+    let attachments: ConversationAttachment[] | undefined;
+
+    for (const { lead, isFromLead } of Array.from(targets.values())) {
+      if (await storage.getConversationByMessageId(lead.id, email.id, email.internetMessageId)) {
+        duplicates++;
+        continue;
+      }
+
+      const sentAt = new Date(email.sentDateTime);
+      const logged = isFromLead ? undefined : await storage.getUnsyncedSentConversation(lead.id, email.subject, sentAt);
+      if (logged) {
+        await storage.updateConversation(logged.id, {
+          messageId: email.id,
+          threadId: email.threadId,
+          internetMessageId: email.internetMessageId,
+        });
+        duplicates++;
+        continue;
+      }
+
+      // Loaded once per message, and only for messages that involve a lead
+      if (email.hasAttachments && !attachments) {
+        attachments = await this.fetchAttachmentMetadata(accessToken, email.id);
+      }
+
+      const conversation = await storage.createConversation({
+        leadId: lead.id,
+        subject: email.subject,
+        body: email.body,
+        fromEmail: email.from,
+        toEmail: isFromLead ? email.to : lead.email,
+        sentAt,
+        isFromLead,
+        messageId: email.id,
+        threadId: email.threadId,
+        internetMessageId: email.internetMessageId,
+        inReplyTo: email.inReplyTo,
+        references: email.references,
+        ccEmails: email.cc,
+        bccEmails: email.bcc,
+        attachments: attachments ?? [],
+      });
+      created.push(conversation);
+
+      if (!isFromLead && (!lead.lastContactedAt || lead.lastContactedAt < sentAt)) {
+        await storage.updateLead(lead.id, { lastContactedAt: sentAt });
+        lead.lastContactedAt = sentAt;
+      }
+    }
+
+    return { created, duplicates };
+  }
+
   /**
    * Setup webhook for real-time email notifications
    * 
@@ -443,8 +650,10 @@ export class MS365Integration {
 
   /**
    * Send email via MS 365 Graph API
-   * 
-   * Uses Microsoft Graph API: POST /me/sendMail
+   *
+   * Creates a draft (POST /me/messages) and sends it (POST /me/messages/{id}/send),
+   * so the message's Internet Message-ID is known and the Sent Items sync can
+   * recognise the copy it finds there.
    */
   async sendEmail(params: {
     to: string;
@@ -453,28 +662,25 @@ export class MS365Integration {
     accessToken: string;
     userId: string;
     isRetry?: boolean;
-  }): Promise<{ success: boolean; messageId?: string }> {
-    const url = "https://graph.microsoft.com/v1.0/me/sendMail";
+  }): Promise<{ success: boolean; messageId?: string; internetMessageId?: string }> {
+    const url = "https://graph.microsoft.com/v1.0/me/messages";
 
     // Convert plain text to HTML
     const htmlBody = this.convertToHtml(params.body);
 
     const payload = {
-      message: {
-        subject: params.subject,
-        body: {
-          contentType: "HTML",
-          content: htmlBody,
-        },
-        toRecipients: [
-          {
-            emailAddress: {
-              address: params.to,
-            },
-          },
-        ],
+      subject: params.subject,
+      body: {
+        contentType: "HTML",
+        content: htmlBody,
       },
-      saveToSentItems: true,
+      toRecipients: [
+        {
+          emailAddress: {
+            address: params.to,
+          },
+        },
+      ],
     };
 
     try {
@@ -500,12 +706,23 @@ export class MS365Integration {
 
       if (!response.ok) {
         const error = await response.text();
+        throw new Error(`Failed to create email: ${error}`);
+      }
+
+      const draft = await response.json();
+      const sendResponse = await fetch(`${url}/${draft.id}/send`, {
+        method: "POST",
+        headers: { Authorization: `Bearer ${params.accessToken}` },
+      });
+      if (!sendResponse.ok) {
+        const error = await sendResponse.text();
         throw new Error(`Failed to send email: ${error}`);
       }
 
       return {
         success: true,
-        messageId: `sent_${Date.now()}`,
+        messageId: draft.id,
+        internetMessageId: draft.internetMessageId,
       };
     } catch (error) {
       console.error("MS365: Failed to send email:", error);
@@ -542,7 +759,7 @@ export class MS365Integration {
 
     try {
       // Fetch full message details from Graph API
-      const messageUrl = `https://graph.microsoft.com/v1.0/me/messages/${messageId}`;
+      const messageUrl = `https://graph.microsoft.com/v1.0/me/messages/${messageId}?$select=${MESSAGE_FIELDS}`;
       const response = await fetch(messageUrl, {
         headers: {
           Authorization: `Bearer ${accessToken}`,
@@ -562,36 +779,22 @@ export class MS365Integration {
       }
 
       const message = await response.json();
-
-      // Extract email data
-      const fromEmail = message.from?.emailAddress?.address;
-      if (!fromEmail) return;
-
-      // Match with lead - only search in user's accessible leads
-      const leads = await storage.getLeads({ id: userId, role: 'sales_rep' });
-      const matchedLead = leads.find((l) =>
-        l.email.toLowerCase() === fromEmail.toLowerCase()
+      const { created } = await this.storeEmail(
+        this.toEmailMessage(message),
+        await this.getLeadsByEmail(userId),
+        accessToken
       );
 
-      if (matchedLead) {
-        // Create conversation record
-        await storage.createConversation({
-          leadId: matchedLead.id,
-          subject: message.subject || "(No Subject)",
-          body: message.body?.content || "",
-          fromEmail,
-          toEmail: message.toRecipients?.[0]?.emailAddress?.address || "",
-          sentAt: new Date(message.sentDateTime),
-          isFromLead: 1,
-          messageId: message.id,
-        });
-
-        console.log(`MS365: Created conversation for lead ${matchedLead.id} from webhook`);
+      for (const conversation of created) {
+        console.log(`MS365: Created conversation for lead ${conversation.leadId} from webhook`);
 
-        // TODO: Trigger AI scoring in background
+        await jobQueue.enqueue("lead.score", { leadId: conversation.leadId }, {
+          uniqueKey: `lead.score:${conversation.leadId}`,
+        });
       }
     } catch (error) {
       console.error("MS365: Failed to handle webhook notification:", error);
+      throw error; // Let the job queue retry
     }
   }
 }
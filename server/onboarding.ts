@@ -0,0 +1,222 @@
+import { createHash, randomBytes } from "crypto";
+import { storage } from "./storage";
+import AuthService from "./auth";
+import { roleService } from "./roles";
+import { sendMail } from "./mail";
+import type { User, UserInvitation } from "@shared/schema";
+import { builtInRoleNames, type BuiltInRole } from "@shared/roles";
+import {
+  INVITATION_TTL_DAYS,
+  PASSWORD_RESET_TTL_MINUTES,
+  invitationStatus,
+  type AcceptInvitation,
+  type CreateInvitation,
+  type InvitationPreview,
+} from "@shared/onboarding";
+
+/**
+ * Onboarding Service
+ *
+ * Invitations, password resets and the open-registration switch. Tokens are
+ * 32 random bytes sent only in the emailed link; the tables store their
+ * SHA-256 hash, so a database leak does not expose usable links. Links are
+ * built from APP_URL only, never from the request's Host header, which the
+ * caller controls.
+ */
+
+export function createToken(): { token: string; tokenHash: string } {
+  const token = randomBytes(32).toString("base64url");
+  return { token, tokenHash: hashToken(token) };
+}
+
+export function hashToken(token: string): string {
+  return createHash("sha256").update(token).digest("hex");
+}
+
+/**
+ * Public base URL for emailed links; throws when APP_URL is unset or not an http(s) URL
+ */
+export function appUrl(): string {
+  const value = process.env.APP_URL;
+  if (!value) throw new Error("APP_URL must be set to send invitation and password reset emails");
+  let url: URL;
+  try {
+    url = new URL(value);
+  } catch {
+    throw new Error(`APP_URL is not a valid URL: ${value}`);
+  }
+  if (url.protocol !== "https:" && url.protocol !== "http:") {
+    throw new Error(`APP_URL must be an http(s) URL: ${value}`);
+  }
+  return `${url.origin}${url.pathname}`.replace(/\/+$/, "");
+}
+
+const daysFromNow = (days: number) => new Date(Date.now() + days * 24 * 60 * 60 * 1000);
+
+export class OnboardingService {
+  /**
+   * Whether anyone may register; on until an admin turns it off
+   */
+  async isOpenRegistration(): Promise<boolean> {
+    const settings = await storage.getAuthSettings();
+    return settings ? settings.openRegistration === 1 : true;
+  }
+
+  async setOpenRegistration(open: boolean): Promise<boolean> {
+    const settings = await storage.updateAuthSettings({ openRegistration: open ? 1 : 0 });
+    return settings.openRegistration === 1;
+  }
+
+  /**
+   * Create an invitation and email its link; replaces any pending invitation for the address
+   */
+  async invite(data: CreateInvitation, invitedBy: Pick<User, "id" | "name">): Promise<UserInvitation> {
+    const baseUrl = appUrl();
+    if (!(await roleService.exists(data.role))) throw new Error(`Unknown role: ${data.role}`);
+    if (await storage.getUserByEmail(data.email)) throw new Error("A user with this email already exists");
+
+    const previous = await storage.getPendingInvitationByEmail(data.email);
+    if (previous) await storage.updateInvitation(previous.id, { revokedAt: new Date() });
+
+    const { token, tokenHash } = createToken();
+    const invitation = await storage.createInvitation({
+      email: data.email,
+      name: data.name ?? null,
+      role: data.role,
+      managerId: data.managerId ?? null,
+      invitedById: invitedBy.id,
+      tokenHash,
+      expiresAt: daysFromNow(INVITATION_TTL_DAYS),
+    });
+    await this.sendInvitation(invitation, token, invitedBy.name, baseUrl);
+    return invitation;
+  }
+
+  /**
+   * Send a pending or expired invitation again with a new link and expiry
+   */
+  async resend(id: string, invitedBy: Pick<User, "name">): Promise<UserInvitation> {
+    const baseUrl = appUrl();
+    const invitation = await storage.getInvitation(id);
+    if (!invitation) throw new Error("Invitation not found");
+    const status = invitationStatus(invitation);
+    if (status === "accepted" || status === "revoked") throw new Error(`Invitation was already ${status}`);
+
+    const { token, tokenHash } = createToken();
+    const updated = await storage.updateInvitation(id, { tokenHash, expiresAt: daysFromNow(INVITATION_TTL_DAYS) });
+    await this.sendInvitation(updated!, token, invitedBy.name, baseUrl);
+    return updated!;
+  }
+
+  async revoke(id: string): Promise<void> {
+    const invitation = await storage.getInvitation(id);
+    if (!invitation) throw new Error("Invitation not found");
+    if (invitation.acceptedAt) throw new Error("Invitation was already accepted");
+    await storage.updateInvitation(id, { revokedAt: new Date() });
+  }
+
+  async previewInvitation(token: string): Promise<InvitationPreview> {
+    const invitation = await this.findUsableInvitation(token);
+    const inviter = invitation.invitedById ? await storage.getUser(invitation.invitedById) : undefined;
+    return {
+      email: invitation.email,
+      name: invitation.name,
+      roleName: await this.roleName(invitation.role),
+      invitedBy: inviter?.name ?? null,
+    };
+  }
+
+  /**
+   * Create the invited user with the preset role and manager
+   */
+  async acceptInvitation(token: string, data: AcceptInvitation): Promise<User> {
+    const invitation = await this.findUsableInvitation(token);
+    if (await storage.getUserByEmail(invitation.email)) throw new Error("A user with this email already exists");
+
+    // users.email is unique, so a link used twice at once still creates one account
+    const user = await storage.createUser({
+      email: invitation.email,
+      name: data.name,
+      passwordHash: await AuthService.hashPassword(data.password),
+      role: invitation.role,
+      managerId: invitation.managerId,
+      isActive: 1,
+    });
+    await storage.updateInvitation(invitation.id, { acceptedAt: new Date() });
+    return user;
+  }
+
+  /**
+   * Email a reset link if the address belongs to an active user. Callers answer the same
+   * either way so the endpoint cannot be used to discover accounts.
+   */
+  async requestPasswordReset(email: string): Promise<void> {
+    const baseUrl = appUrl();
+    const user = await storage.getUserByEmail(email);
+    if (!user || user.isActive !== 1) return;
+
+    await storage.expirePasswordResetTokens(user.id);
+    const { token, tokenHash } = createToken();
+    await storage.createPasswordResetToken(
+      user.id,
+      tokenHash,
+      new Date(Date.now() + PASSWORD_RESET_TTL_MINUTES * 60 * 1000),
+    );
+
+    await sendMail({
+      to: user.email,
+      subject: "Reset your LeadFlow password",
+      text: [
+        `Hi ${user.name},`,
+        "",
+        "Someone asked to reset the password for your LeadFlow account. Choose a new password here:",
+        `${baseUrl}/reset-password?token=${token}`,
+        "",
+        `The link works once and expires in ${PASSWORD_RESET_TTL_MINUTES} minutes. If you did not ask for this, you can ignore this email.`,
+      ].join("\n"),
+    });
+  }
+
+  /**
+   * Set a new password from a reset link; signs the user out of every session
+   */
+  async resetPassword(token: string, password: string): Promise<void> {
+    const resetToken = await storage.getPasswordResetTokenByHash(hashToken(token));
+    const invalid = new Error("This reset link is invalid or has expired");
+    if (!resetToken || resetToken.usedAt || resetToken.expiresAt <= new Date()) throw invalid;
+    if (!(await storage.markPasswordResetTokenUsed(resetToken.id))) throw invalid;
+
+    await AuthService.setPassword(resetToken.userId, password);
+    await storage.expirePasswordResetTokens(resetToken.userId);
+  }
+
+  private async findUsableInvitation(token: string): Promise<UserInvitation> {
+    const invitation = await storage.getInvitationByTokenHash(hashToken(token));
+    if (!invitation || invitationStatus(invitation) !== "pending") {
+      throw new Error("This invitation is invalid or has expired");
+    }
+    return invitation;
+  }
+
+  private async sendInvitation(invitation: UserInvitation, token: string, inviterName: string, baseUrl: string) {
+    await sendMail({
+      to: invitation.email,
+      subject: "You're invited to LeadFlow",
+      text: [
+        invitation.name ? `Hi ${invitation.name},` : "Hi,",
+        "",
+        `${inviterName} has invited you to join LeadFlow as ${await this.roleName(invitation.role)}.`,
+        "Accept the invitation and choose your password here:",
+        `${baseUrl}/accept-invite?token=${token}`,
+        "",
+        `The link expires on ${invitation.expiresAt.toUTCString()}.`,
+      ].join("\n"),
+    });
+  }
+
+  private async roleName(role: string): Promise<string> {
+    return builtInRoleNames[role as BuiltInRole] ?? (await storage.getRole(role))?.name ?? role;
+  }
+}
+
+export const onboardingService = new OnboardingService();
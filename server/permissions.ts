@@ -1,5 +1,7 @@
-import type { Request, Response, NextFunction } from "express";
+import type { Request, Response, NextFunction, RequestHandler } from "express";
 import { storage } from "./storage.js";
+import type { Role } from "@shared/schema";
+import { noHiddenFields, redactFields, type HiddenFields, type RestrictedEntity } from "@shared/roles";
 
 // Use the simplified user type that matches req.user from auth middleware
 type AuthUser = {
@@ -24,14 +26,19 @@ export enum Permission {
     ASSIGN_LEADS = "assign_leads",
     DELETE_LEADS = "delete_leads",
 
+    // Deal management permissions
+    MANAGE_OWN_DEALS = "manage_own_deals",
+
     // User management permissions
     VIEW_USERS = "view_users",
     MANAGE_USERS = "manage_users",
+    INVITE_USERS = "invite_users",
 
     // System permissions
     MANAGE_SETTINGS = "manage_settings",
     VIEW_ANALYTICS = "view_analytics",
     VIEW_TEAM_ANALYTICS = "view_team_analytics",
+    MANAGE_QUOTAS = "manage_quotas",
 }
 
 /**
@@ -48,11 +55,14 @@ export const RolePermissions: Record<string, Permission[]> = {
         Permission.MANAGE_TEAM_LEADS,
         Permission.ASSIGN_LEADS,
         Permission.DELETE_LEADS,
+        Permission.MANAGE_OWN_DEALS,
         Permission.VIEW_USERS,
         Permission.MANAGE_USERS,
+        Permission.INVITE_USERS,
         Permission.MANAGE_SETTINGS,
         Permission.VIEW_ANALYTICS,
         Permission.VIEW_TEAM_ANALYTICS,
+        Permission.MANAGE_QUOTAS,
     ],
     manager: [
         // Managers can manage their team
@@ -62,18 +72,30 @@ export const RolePermissions: Record<string, Permission[]> = {
         Permission.MANAGE_TEAM_LEADS,
         Permission.ASSIGN_LEADS,
         Permission.DELETE_LEADS, // Can delete team leads
+        Permission.MANAGE_OWN_DEALS,
         Permission.VIEW_USERS, // Can view team members
+        Permission.INVITE_USERS, // Into their own team
         Permission.VIEW_ANALYTICS,
         Permission.VIEW_TEAM_ANALYTICS,
+        Permission.MANAGE_QUOTAS, // For their reporting line
     ],
     sales_rep: [
         // Sales reps can only manage their own data
         Permission.VIEW_OWN_DATA,
         Permission.MANAGE_OWN_LEADS,
+        Permission.MANAGE_OWN_DEALS,
         Permission.VIEW_ANALYTICS, // Own analytics only
     ],
 };
 
+// Roles stored in the database: custom roles and changes to manager / sales_rep (see shared/roles.ts)
+let storedRoles = new Map<string, { permissions: Permission[]; hiddenFields: HiddenFields }>();
+
+/**
+ * Middleware tagged with the permission it enforces, so the route table can be audited
+ */
+export type PermissionMiddleware = RequestHandler & { permission: Permission };
+
 /**
  * Permission Service - handles role-based access control
  */
@@ -82,15 +104,94 @@ export default class PermissionService {
      * Check if a user has a specific permission
      */
     static hasPermission(user: AuthUser, permission: Permission): boolean {
-        const rolePermissions = RolePermissions[user.role] || [];
-        return rolePermissions.includes(permission);
+        return this.permissionsFor(user.role).includes(permission);
+    }
+
+    /**
+     * Permissions of a role: the stored definition if there is one, otherwise the built-in default.
+     * The admin role always has every permission.
+     */
+    static permissionsFor(role: string): Permission[] {
+        if (role === "admin") return RolePermissions.admin;
+        return storedRoles.get(role)?.permissions ?? RolePermissions[role] ?? [];
+    }
+
+    /**
+     * Replace the cached role definitions; called at startup and after every role change
+     */
+    static useRoles(roles: Role[]) {
+        const known = Object.values(Permission) as string[];
+        storedRoles = new Map(roles.map((role) => [role.key, {
+            permissions: role.permissions.filter((p) => known.includes(p)) as Permission[],
+            hiddenFields: { ...noHiddenFields(), ...(role.hiddenFields as Partial<HiddenFields>) },
+        }]));
+    }
+
+    /**
+     * Lead or deal fields the user's role may not see
+     */
+    static hiddenFields(user: AuthUser, entity: RestrictedEntity): string[] {
+        if (user.role === "admin") return [];
+        return storedRoles.get(user.role)?.hiddenFields[entity] ?? [];
+    }
+
+    /**
+     * Serialize records for the user, nulling the fields their role hides
+     */
+    static redact<T extends object>(user: AuthUser, entity: RestrictedEntity, record: T): T {
+        return redactFields(record, this.hiddenFields(user, entity));
+    }
+
+    static redactAll<T extends object>(user: AuthUser, entity: RestrictedEntity, records: T[]): T[] {
+        const hidden = this.hiddenFields(user, entity);
+        return hidden.length === 0 ? records : records.map((record) => redactFields(record, hidden));
+    }
+
+    /**
+     * Drop the fields the user's role cannot see from an update, so it cannot overwrite them
+     */
+    static withoutHidden<T extends object>(user: AuthUser, entity: RestrictedEntity, changes: T): T {
+        const copy = { ...changes } as Record<string, unknown>;
+        for (const field of this.hiddenFields(user, entity)) delete copy[field];
+        return copy as T;
+    }
+
+    /**
+     * Whether the user may hand out a role, e.g. through an invitation. Admins may grant any
+     * role; others only roles with no permission they lack and no field they cannot see.
+     */
+    static canGrantRole(user: AuthUser, role: string): boolean {
+        if (user.role === "admin") return true;
+        if (role === "admin") return false;
+
+        const own = this.permissionsFor(user.role);
+        if (!this.permissionsFor(role).every((permission) => own.includes(permission))) return false;
+
+        const ownHidden = storedRoles.get(user.role)?.hiddenFields ?? noHiddenFields();
+        const grantedHidden = storedRoles.get(role)?.hiddenFields ?? noHiddenFields();
+        return (Object.keys(ownHidden) as RestrictedEntity[]).every((entity) =>
+            ownHidden[entity].every((field) => (grantedHidden[entity] as string[]).includes(field)));
+    }
+
+    /**
+     * Roles that lead a team (have VIEW_TEAM_DATA) see their reports' data
+     */
+    static leadsTeam(role: string): boolean {
+        return role !== "admin" && this.permissionsFor(role).includes(Permission.VIEW_TEAM_DATA);
+    }
+
+    /**
+     * Roles with VIEW_ALL_DATA see everyone's data, as admins do
+     */
+    static seesAllData(user: Pick<AuthUser, "role">): boolean {
+        return this.permissionsFor(user.role).includes(Permission.VIEW_ALL_DATA);
     }
 
     /**
      * Express middleware to require a specific permission
      */
-    static requirePermission(permission: Permission) {
-        return (req: Request, res: Response, next: NextFunction) => {
+    static requirePermission(permission: Permission): PermissionMiddleware {
+        const middleware = (req: Request, res: Response, next: NextFunction) => {
             if (!req.user) {
                 return res.status(401).json({
                     error: "Unauthorized: Authentication required"
@@ -107,21 +208,33 @@ export default class PermissionService {
 
             next();
         };
+        return Object.assign(middleware, { permission });
+    }
+
+    /**
+     * Record-level check for mutations: the record's owner must be someone the user can access,
+     * and other people's records also need MANAGE_TEAM_LEADS. Records without an owner can only
+     * be changed by admins.
+     */
+    static async canModifyRecord(user: AuthUser, ownerId: string | null | undefined): Promise<boolean> {
+        if (!ownerId) return this.isAdmin(user);
+        if (ownerId !== user.id && !this.hasPermission(user, Permission.MANAGE_TEAM_LEADS)) return false;
+        return this.canAccessUser(user, ownerId);
     }
 
     /**
      * Get all user IDs that the current user can access
-     * Returns array of user IDs based on role hierarchy
+     * Returns array of user IDs based on the role's data permissions and the reporting hierarchy
      */
     static async getAccessibleUserIds(user: AuthUser): Promise<string[]> {
-        // Admin can access all users
-        if (user.role === "admin") {
+        // Admins and VIEW_ALL_DATA roles can access all users
+        if (this.seesAllData(user)) {
             const allUsers = await storage.getUsers();
             return allUsers.map(u => u.id);
         }
 
-        // Manager can access self + subordinates
-        if (user.role === "manager") {
+        // VIEW_TEAM_DATA roles (managers) can access self + subordinates
+        if (this.leadsTeam(user.role)) {
             const subordinates = await storage.getUsersByManager(user.id);
             return [user.id, ...subordinates.map(s => s.id)];
         }
@@ -148,7 +261,7 @@ export default class PermissionService {
         const allSubordinates = [...directSubordinates];
 
         for (const subordinate of directSubordinates) {
-            if (subordinate.role === "manager") {
+            if (this.leadsTeam(subordinate.role)) {
                 const subSubordinates = await this.getAllSubordinates(subordinate.id);
                 allSubordinates.push(...subSubordinates);
             }
@@ -168,6 +281,6 @@ export default class PermissionService {
      * Check if user is manager or above
      */
     static isManagerOrAbove(user: AuthUser): boolean {
-        return user.role === "admin" || user.role === "manager";
+        return this.seesAllData(user) || this.leadsTeam(user.role);
     }
 }
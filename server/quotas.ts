@@ -0,0 +1,118 @@
+import { storage } from "./storage";
+import PermissionService from "./permissions";
+import { currencyService } from "./currency";
+import type { Quota, User } from "@shared/schema";
+import { convertDealAmount } from "@shared/currency";
+import {
+  attainmentPercent,
+  quotaMetrics,
+  quotaPeriod,
+  rollUpActuals,
+  tallyActuals,
+  type AttainmentReport,
+  type AttainmentRow,
+  type QuotaActuals,
+  type QuotaPeriodType,
+  type QuotaProgress,
+  type QuotaScope,
+} from "@shared/quotas";
+
+/**
+ * Quota Service
+ *
+ * Works out who a user may see and set quotas for, and measures attainment
+ * for a month or quarter (see shared/quotas.ts). Admins see everyone,
+ * managers see themselves and their whole reporting line, reps see
+ * themselves. Team results roll up the manager chain via
+ * PermissionService.getAllSubordinates.
+ */
+
+type AuthUser = { id: string; email: string; name: string; role: string };
+
+export class QuotaService {
+  /**
+   * Users whose quotas and attainment the viewer may see
+   */
+  async visibleUsers(viewer: AuthUser): Promise<User[]> {
+    const users = await storage.getUsers();
+    if (PermissionService.seesAllData(viewer)) return users.filter((user) => user.isActive);
+
+    const self = users.find((user) => user.id === viewer.id);
+    if (!PermissionService.isManagerOrAbove(viewer)) return self ? [self] : [];
+
+    const subordinates = await PermissionService.getAllSubordinates(viewer.id);
+    return [...(self ? [self] : []), ...subordinates.filter((user) => user.isActive)];
+  }
+
+  /**
+   * Admins set any quota; managers set quotas for people below them, not for themselves
+   */
+  async canSetQuota(viewer: AuthUser, userId: string): Promise<boolean> {
+    if (PermissionService.isAdmin(viewer)) return true;
+    if (!PermissionService.isManagerOrAbove(viewer) || userId === viewer.id) return false;
+    const subordinates = await PermissionService.getAllSubordinates(viewer.id);
+    return subordinates.some((user) => user.id === userId);
+  }
+
+  /**
+   * Quotas and results for every visible user in the period containing `date`
+   */
+  async getAttainment(viewer: AuthUser, periodType: QuotaPeriodType, date: Date): Promise<AttainmentReport> {
+    const period = quotaPeriod(periodType, date);
+    const users = await this.visibleUsers(viewer);
+    const userIds = users.map((user) => user.id);
+
+    const [wonDeals, taskCounts, quotas, converter] = await Promise.all([
+      storage.getWonDealsClosedBetween(userIds, period.start, period.end),
+      storage.getCompletedTaskCounts(userIds, period.start, period.end),
+      storage.getQuotas({ periodType, periodStart: period.start, userIds }),
+      currencyService.getConverter(),
+    ]);
+
+    const converted = wonDeals.map((deal) => ({ ownerId: deal.ownerId, amount: convertDealAmount(converter, deal) }));
+    const actuals = tallyActuals(converted, taskCounts);
+
+    const rows: AttainmentRow[] = [];
+    for (const user of users) {
+      const hasReports = users.some((other) => other.managerId === user.id);
+      const team = hasReports ? await PermissionService.getAllSubordinates(user.id) : [];
+      const teamIds = [user.id, ...team.map((member) => member.id)];
+
+      rows.push({
+        user: { id: user.id, name: user.name, role: user.role, managerId: user.managerId },
+        individual: this.progress(quotas, user.id, "individual", rollUpActuals(actuals, [user.id])),
+        team: hasReports ? this.progress(quotas, user.id, "team", rollUpActuals(actuals, teamIds)) : null,
+        teamSize: team.length,
+      });
+    }
+
+    // Leaderboard order: revenue, then deals won
+    const value = (row: AttainmentRow, metric: string) => row.individual.find((p) => p.metric === metric)!.actual;
+    rows.sort((a, b) => value(b, "revenue") - value(a, "revenue") || value(b, "deals_won") - value(a, "deals_won"));
+
+    return {
+      periodType,
+      periodStart: period.start.toISOString(),
+      periodEnd: period.end.toISOString(),
+      label: period.label,
+      baseCurrency: converter.baseCurrency,
+      unconvertedDeals: converted.filter((deal) => deal.amount === null).length,
+      rows,
+    };
+  }
+
+  private progress(quotas: Quota[], userId: string, scope: QuotaScope, actuals: QuotaActuals): QuotaProgress[] {
+    return quotaMetrics.map((metric) => {
+      const quota = quotas.find((q) => q.userId === userId && q.scope === scope && q.metric === metric);
+      return {
+        metric,
+        quotaId: quota?.id ?? null,
+        target: quota?.target ?? null,
+        actual: actuals[metric],
+        attainment: attainmentPercent(actuals[metric], quota?.target),
+      };
+    });
+  }
+}
+
+export const quotaService = new QuotaService();
@@ -0,0 +1,47 @@
+import type { Request, Response, NextFunction, RequestHandler } from "express";
+
+/**
+ * Fixed-window rate limiting
+ *
+ * Counts requests per client IP in memory, which is enough for the single
+ * app process this runs as. Over the limit the request gets a 429 with a
+ * Retry-After header.
+ */
+
+export interface RateLimitOptions {
+  windowMs: number;
+  max: number;
+  message?: string;
+  key?: (req: Request) => string;
+}
+
+export function createRateLimiter(options: RateLimitOptions): RequestHandler {
+  const { windowMs, max, message = "Too many requests, please try again later" } = options;
+  const keyFor = options.key ?? ((req: Request) => req.ip || req.socket.remoteAddress || "unknown");
+  const hits = new Map<string, { count: number; resetAt: number }>();
+
+  return (req: Request, res: Response, next: NextFunction) => {
+    const now = Date.now();
+
+    // Drop finished windows once the map grows, so it stays bounded by active clients
+    if (hits.size > 10000) {
+      hits.forEach((entry, key) => {
+        if (entry.resetAt <= now) hits.delete(key);
+      });
+    }
+
+    const key = keyFor(req);
+    let entry = hits.get(key);
+    if (!entry || entry.resetAt <= now) {
+      entry = { count: 0, resetAt: now + windowMs };
+      hits.set(key, entry);
+    }
+    entry.count++;
+
+    if (entry.count > max) {
+      res.setHeader("Retry-After", Math.ceil((entry.resetAt - now) / 1000).toString());
+      return res.status(429).json({ error: message });
+    }
+    next();
+  };
+}
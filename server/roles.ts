@@ -0,0 +1,131 @@
+import { storage } from "./storage";
+import PermissionService, { Permission, RolePermissions } from "./permissions";
+import type { Role } from "@shared/schema";
+import {
+  builtInRoleNames,
+  builtInRoles,
+  noHiddenFields,
+  type CreateRole,
+  type HiddenFields,
+  type RoleDefinition,
+  type UpdateRole,
+} from "@shared/roles";
+
+/**
+ * Role Service
+ *
+ * Keeps custom roles and admin changes to the built-in roles in the roles
+ * table and pushes them into PermissionService's cache, which the permission
+ * checks and field redaction read synchronously. Built-in roles without a
+ * stored row use the defaults in RolePermissions; admin cannot be changed.
+ */
+
+const isBuiltIn = (key: string) => (builtInRoles as readonly string[]).includes(key);
+
+export class RoleService {
+  /**
+   * Load stored roles into the permission cache
+   */
+  async load(): Promise<void> {
+    PermissionService.useRoles(await storage.getRoles());
+  }
+
+  /**
+   * Built-in roles followed by custom ones, with how many users hold each
+   */
+  async list(): Promise<RoleDefinition[]> {
+    const [stored, users] = await Promise.all([storage.getRoles(), storage.getUsers()]);
+    const userCount = (key: string) => users.filter((user) => user.role === key).length;
+
+    const builtIn = builtInRoles.map((key) => {
+      const row = stored.find((role) => role.key === key);
+      return {
+        key,
+        name: row?.name ?? builtInRoleNames[key],
+        description: row?.description ?? null,
+        permissions: PermissionService.permissionsFor(key),
+        hiddenFields: this.hiddenFields(row),
+        builtIn: true,
+        editable: key !== "admin",
+        userCount: userCount(key),
+      };
+    });
+    const custom = stored
+      .filter((role) => !isBuiltIn(role.key))
+      .map((role) => ({
+        key: role.key,
+        name: role.name,
+        description: role.description,
+        permissions: PermissionService.permissionsFor(role.key),
+        hiddenFields: this.hiddenFields(role),
+        builtIn: false,
+        editable: true,
+        userCount: userCount(role.key),
+      }));
+    return [...builtIn, ...custom];
+  }
+
+  async exists(key: string): Promise<boolean> {
+    return isBuiltIn(key) || !!(await storage.getRole(key));
+  }
+
+  async create(data: CreateRole): Promise<Role> {
+    const role = await storage.upsertRole({
+      key: data.key,
+      name: data.name,
+      description: data.description ?? null,
+      permissions: this.validPermissions(data.permissions),
+      hiddenFields: data.hiddenFields,
+    });
+    await this.load();
+    return role;
+  }
+
+  /**
+   * Change a role; the first change to manager or sales_rep stores it, starting from its defaults
+   */
+  async update(key: string, changes: UpdateRole): Promise<Role> {
+    if (key === "admin") throw new Error("The admin role cannot be changed");
+
+    const current = await storage.getRole(key);
+    if (!current && !isBuiltIn(key)) throw new Error("Role not found");
+
+    const role = await storage.upsertRole({
+      key,
+      name: changes.name ?? current?.name ?? builtInRoleNames[key as keyof typeof builtInRoleNames],
+      description: changes.description !== undefined ? changes.description : current?.description ?? null,
+      permissions: changes.permissions
+        ? this.validPermissions(changes.permissions)
+        : current?.permissions ?? RolePermissions[key],
+      hiddenFields: changes.hiddenFields ?? this.hiddenFields(current),
+    });
+    await this.load();
+    return role;
+  }
+
+  /**
+   * Delete a custom role; built-in roles and roles still held by users are kept
+   */
+  async delete(key: string): Promise<void> {
+    if (isBuiltIn(key)) throw new Error("Built-in roles cannot be deleted");
+    const users = await storage.getUsersByRole(key);
+    if (users.length > 0) {
+      throw new Error(`${users.length} user(s) still have this role; assign them another role first`);
+    }
+    await storage.deleteRole(key);
+    await this.load();
+  }
+
+  private validPermissions(permissions: string[]): Permission[] {
+    const known = Object.values(Permission) as string[];
+    const unknown = permissions.find((permission) => !known.includes(permission));
+    if (unknown) throw new Error(`Unknown permission: ${unknown}`);
+    return Array.from(new Set(permissions)) as Permission[];
+  }
+
+  private hiddenFields(role: Role | undefined): HiddenFields {
+    return { ...noHiddenFields(), ...(role?.hiddenFields as Partial<HiddenFields> | undefined) };
+  }
+}
+
+export const roleService = new RoleService();
@@ -1,11 +1,11 @@
-import type { Express } from "express";
+import type { Express, Request, Response } from "express";
 import { createServer, type Server } from "http";
 import { storage } from "./storage";
 import {
   insertLeadSchema,
   insertConversationSchema,
   insertEmailTemplateSchema,
-  insertUserSchema,
+  manageUserSchema,
   insertAssignmentRuleSchema,
   insertTaskSchema,
   insertScoringConfigSchema,
@@ -13,15 +13,107 @@ import {
   insertPipelineStageSchema,
   insertDealSchema,
   insertAutomationRuleSchema,
+  type Deal,
+  type DealLineItem,
   type Lead,
+  type PublicUser,
+  type User,
 } from "@shared/schema";
-import { analyzeLeadConversations, summarizeConversations, draftEmailResponse, generateNextBestAction, analyzeSentimentTimeline, predictDealOutcome } from "./ai";
+import { summarizeConversations, draftEmailResponse, generateNextBestAction, analyzeSentimentTimeline, predictDealOutcome } from "./ai";
 import { ms365Integration } from "./ms365";
-import { automationEngine } from "./automation";
+import { assignmentEngine } from "./assignment";
+import { leadScoringService } from "./scoring";
+import { jobQueue } from "./jobs";
+import { automationScheduler } from "./scheduler";
+import { automationEngine, timeBasedConditions } from "./automation";
+import { ruleSimulationRequestSchema } from "@shared/automation-rules";
+import { parseLeadSearch } from "@shared/lead-search";
+import { addLineItemSchema, updateLineItemSchema } from "@shared/deal-products";
+import { addDealContactSchema, dealContactRoleLabels, summarizeCommitteeEngagement, updateDealContactSchema } from "@shared/deal-contacts";
 import enrichmentRouter from "./routes/enrichment";
 import authRouter from "./routes/auth";
 import ms365Router from "./routes/ms365";
+import jobsRouter from "./routes/jobs";
+import savedViewsRouter from "./routes/saved-views";
+import leadImportsRouter from "./routes/lead-imports";
+import exportsRouter from "./routes/exports";
+import leadDuplicatesRouter from "./routes/lead-duplicates";
+import companiesRouter from "./routes/companies";
+import productsRouter from "./routes/products";
+import currencyRouter from "./routes/currency";
+import quotasRouter from "./routes/quotas";
+import rolesRouter from "./routes/roles";
+import onboardingRouter from "./routes/onboarding";
+import { dealProductService } from "./deal-products";
+import { currencyService } from "./currency";
+import { convertDealAmount } from "@shared/currency";
 import AuthService from "./auth";
+import PermissionService, { Permission } from "./permissions";
+import { roleService } from "./roles";
+
+// Most recent conversations across a deal's contacts that the forecast looks at
+const FORECAST_CONVERSATION_LIMIT = 100;
+
+/**
+ * Record-level check for mutations: loads the lead and answers 404 if it does not exist
+ * or 403 if its owner is outside the user's reach. Returns undefined once a response was sent.
+ */
+async function findModifiableLead(req: Request, res: Response, id: string): Promise<Lead | undefined> {
+  const lead = await storage.getLeadById(id);
+  if (!lead) {
+    res.status(404).json({ error: "Lead not found" });
+    return undefined;
+  }
+  if (!(await PermissionService.canModifyRecord(req.user!, lead.ownerId))) {
+    res.status(403).json({ error: "Forbidden: You cannot modify this lead" });
+    return undefined;
+  }
+  return lead;
+}
+
+/**
+ * Same as findModifiableLead, for deals
+ */
+async function findModifiableDeal(req: Request, res: Response, id: string): Promise<Deal | undefined> {
+  const deal = await storage.getDealById(id);
+  if (!deal) {
+    res.status(404).json({ error: "Deal not found" });
+    return undefined;
+  }
+  if (!(await PermissionService.canModifyRecord(req.user!, deal.ownerId))) {
+    res.status(403).json({ error: "Forbidden: You cannot modify this deal" });
+    return undefined;
+  }
+  return deal;
+}
+
+const publicUser = (user: User): PublicUser => ({
+  id: user.id,
+  name: user.name,
+  email: user.email,
+  role: user.role,
+  managerId: user.managerId,
+  isActive: user.isActive,
+});
+
+/**
+ * Whether the user's role hides deal amounts; totals built from them are hidden too
+ */
+const amountHidden = (req: Request): boolean => PermissionService.hiddenFields(req.user!, "deals").includes("amount");
+
+/**
+ * Line item prices add up to the deal amount, so they are hidden along with it
+ */
+const redactLineItem = (req: Request, item: DealLineItem) => (amountHidden(req) ? { ...item, unitPrice: null } : item);
+
+/**
+ * New and reassigned records may only be given to someone the user can access
+ */
+async function canAssignOwner(req: Request, res: Response, ownerId: string | null | undefined): Promise<boolean> {
+  if (!ownerId || (await PermissionService.canAccessUser(req.user!, ownerId))) return true;
+  res.status(403).json({ error: "Forbidden: You cannot assign records to this user" });
+  return false;
+}
 
 export async function registerRoutes(app: Express): Promise<Server> {
   // Auth routes (public) - must be registered first
@@ -30,6 +122,27 @@ export async function registerRoutes(app: Express): Promise<Server> {
   // MS365 routes (protected)
   app.use("/api/ms365", ms365Router);
 
+  // Background job queue (admin)
+  app.use("/api/jobs", jobsRouter);
+
+  // Saved views / smart lists (protected)
+  app.use("/api/saved-views", savedViewsRouter);
+
+  // CSV / XLSX lead imports (protected)
+  app.use("/api/lead-imports", leadImportsRouter);
+
+  // CSV / XLSX / JSON exports (protected)
+  app.use("/api/exports", exportsRouter);
+
+  // Duplicate lead review and merge (protected)
+  app.use("/api/lead-duplicates", leadDuplicatesRouter);
+  app.use("/api/companies", companiesRouter);
+  app.use("/api/products", productsRouter);
+  app.use("/api/currency", currencyRouter);
+  app.use("/api/quotas", quotasRouter);
+  app.use("/api/roles", rolesRouter);
+  app.use("/api/onboarding", onboardingRouter);
+
   // LinkedIn routes (protected)
   const { default: linkedinRouter } = await import("./routes/linkedin.js");
   const { default: linkedinAuthRouter } = await import("./routes/linkedin-auth.js");
@@ -37,50 +150,75 @@ export async function registerRoutes(app: Express): Promise<Server> {
   app.use("/api/linkedin/auth", linkedinAuthRouter);
 
   // Lead routes - with auth middleware applied directly
-  app.get("/api/leads", AuthService.requireAuth, async (req, res) => {
+  app.get("/api/leads", AuthService.requireAuth, PermissionService.requirePermission(Permission.VIEW_OWN_DATA), async (req, res) => {
     try {
       console.log(`[/api/leads] User:`, req.user);
-      const allLeads = await storage.getLeads(req.user!);
-      res.json(allLeads);
+
+      // Without query parameters the full list is returned, as the lead pickers expect
+      if (Object.keys(req.query).length === 0) {
+        const allLeads = await storage.getLeads(req.user!);
+        return res.json(PermissionService.redactAll(req.user!, "leads", allLeads));
+      }
+
+      const parsed = parseLeadSearch(req.query as Record<string, unknown>);
+      if (!parsed.success) {
+        return res.status(400).json({ error: parsed.error.errors[0]?.message || "Invalid search parameters" });
+      }
+      // A cursor holds one value per sort key plus the id, so it only fits the sort it came from
+      const sortKeys = (parsed.data.sort?.length || 1) + 1;
+      if (parsed.data.cursor && parsed.data.cursor.length !== sortKeys) {
+        return res.status(400).json({ error: "Cursor does not match the requested sort" });
+      }
+
+      const page = await storage.searchLeads(req.user!, parsed.data);
+      res.json({ ...page, leads: PermissionService.redactAll(req.user!, "leads", page.leads) });
     } catch (error: any) {
       console.error(`[/api/leads] Error:`, error);
       res.status(500).json({ error: error.message });
     }
   });
 
-  app.get("/api/leads/:id", AuthService.requireAuth, async (req, res) => {
+  app.get("/api/leads/:id", AuthService.requireAuth, PermissionService.requirePermission(Permission.VIEW_OWN_DATA), async (req, res) => {
     try {
       const lead = await storage.getLead(req.user!, req.params.id);
       if (!lead) {
         return res.status(404).json({ error: "Lead not found" });
       }
-      res.json(lead);
+      res.json(PermissionService.redact(req.user!, "leads", lead));
     } catch (error: any) {
       res.status(500).json({ error: error.message });
     }
   });
 
-  app.post("/api/leads", async (req, res) => {
+  app.post("/api/leads", AuthService.requireAuth, PermissionService.requirePermission(Permission.MANAGE_OWN_LEADS), async (req, res) => {
     try {
       const validatedData = insertLeadSchema.parse(req.body);
-      const lead = await storage.createLead(validatedData);
+      if (!(await canAssignOwner(req, res, validatedData.ownerId))) return;
+      const created = await storage.createLead(validatedData);
 
       await storage.createActivity({
-        leadId: lead.id,
+        leadId: created.id,
         type: "lead_created",
-        description: `Lead "${lead.name}" was created`,
+        description: `Lead "${created.name}" was created`,
         metadata: null,
       });
 
-      res.json(lead);
+      const { lead } = await assignmentEngine.assignNewLead(created, {
+        fallbackOwnerId: req.user?.id,
+        source: "api",
+      });
+
+      res.json(PermissionService.redact(req.user!, "leads", lead));
     } catch (error: any) {
       res.status(400).json({ error: error.message });
     }
   });
 
-  app.patch("/api/leads/:id", async (req, res) => {
+  app.patch("/api/leads/:id", AuthService.requireAuth, PermissionService.requirePermission(Permission.MANAGE_OWN_LEADS), async (req, res) => {
     try {
-      const validatedData = insertLeadSchema.partial().parse(req.body);
+      const validatedData = PermissionService.withoutHidden(req.user!, "leads", insertLeadSchema.partial().parse(req.body));
+      if (!(await findModifiableLead(req, res, req.params.id))) return;
+      if (!(await canAssignOwner(req, res, validatedData.ownerId))) return;
       const lead = await storage.updateLead(req.params.id, validatedData);
 
       if (!lead) {
@@ -94,14 +232,15 @@ export async function registerRoutes(app: Express): Promise<Server> {
         metadata: null,
       });
 
-      res.json(lead);
+      res.json(PermissionService.redact(req.user!, "leads", lead));
     } catch (error: any) {
       res.status(400).json({ error: error.message });
     }
   });
 
-  app.delete("/api/leads/:id", async (req, res) => {
+  app.delete("/api/leads/:id", AuthService.requireAuth, PermissionService.requirePermission(Permission.DELETE_LEADS), async (req, res) => {
     try {
+      if (!(await findModifiableLead(req, res, req.params.id))) return;
       await storage.deleteLead(req.params.id);
       res.json({ success: true });
     } catch (error: any) {
@@ -109,8 +248,51 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Opt a lead out of (or back into) automated email
+  app.post("/api/leads/:id/unsubscribe", AuthService.requireAuth, PermissionService.requirePermission(Permission.MANAGE_OWN_LEADS), async (req, res) => {
+    try {
+      const existing = await storage.getLead(req.user!, req.params.id);
+      if (!existing) {
+        return res.status(404).json({ error: "Lead not found" });
+      }
+
+      const lead = await storage.updateLead(existing.id, { unsubscribedAt: new Date() });
+      await storage.createActivity({
+        leadId: existing.id,
+        type: "lead_unsubscribed",
+        description: `Lead unsubscribed from automated email`,
+        metadata: { userId: req.user!.id },
+      });
+
+      res.json(PermissionService.redact(req.user!, "leads", lead!));
+    } catch (error: any) {
+      res.status(500).json({ error: error.message });
+    }
+  });
+
+  app.delete("/api/leads/:id/unsubscribe", AuthService.requireAuth, PermissionService.requirePermission(Permission.MANAGE_OWN_LEADS), async (req, res) => {
+    try {
+      const existing = await storage.getLead(req.user!, req.params.id);
+      if (!existing) {
+        return res.status(404).json({ error: "Lead not found" });
+      }
+
+      const lead = await storage.updateLead(existing.id, { unsubscribedAt: null });
+      await storage.createActivity({
+        leadId: existing.id,
+        type: "lead_resubscribed",
+        description: `Lead resubscribed to automated email`,
+        metadata: { userId: req.user!.id },
+      });
+
+      res.json(PermissionService.redact(req.user!, "leads", lead!));
+    } catch (error: any) {
+      res.status(500).json({ error: error.message });
+    }
+  });
+
   // Apollo.io import routes
-  app.post("/api/integrations/apollo/search", async (req, res) => {
+  app.post("/api/integrations/apollo/search", AuthService.requireAuth, PermissionService.requirePermission(Permission.MANAGE_OWN_LEADS), async (req, res) => {
     try {
       const { searchApolloContacts } = await import("./apollo");
       const filters = req.body;
@@ -122,7 +304,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.post("/api/integrations/apollo/import", async (req, res) => {
+  app.post("/api/integrations/apollo/import", AuthService.requireAuth, PermissionService.requirePermission(Permission.MANAGE_OWN_LEADS), async (req, res) => {
     try {
       const { searchApolloContacts, mapApolloContactToLead } = await import("./apollo");
       const { filters, selectedContactIds } = req.body;
@@ -150,8 +332,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
           // Check for duplicate by email
           if (leadData.email) {
-            const existingLeads = await storage.getLeads(req.user!);
-            const duplicate = existingLeads.find(l => l.email === leadData.email);
+            const duplicate = await storage.findLeadByEmail(req.user!, leadData.email);
 
             if (duplicate) {
               importResults.skipped.push({
@@ -164,11 +345,11 @@ export async function registerRoutes(app: Express): Promise<Server> {
           }
 
           // Create the lead
-          const newLead = await storage.createLead(leadData as any);
+          const createdLead = await storage.createLead(leadData as any);
 
           // Track import in enrichmentHistory table (repurposing for import tracking)
           await storage.createApolloEnrichment({
-            leadId: newLead.id,
+            leadId: createdLead.id,
             enrichmentData: contact,
             fieldsEnriched: Object.keys(leadData),
             creditsUsed: 1,
@@ -178,12 +359,17 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
           // Create activity
           await storage.createActivity({
-            leadId: newLead.id,
+            leadId: createdLead.id,
             type: "lead_created",
             description: `Lead imported from Apollo.io`,
             metadata: { source: "apollo", apolloContactId: contact.id },
           });
 
+          const { lead: newLead } = await assignmentEngine.assignNewLead(createdLead, {
+            fallbackOwnerId: req.user?.id,
+            source: "apollo",
+          });
+
           importResults.imported.push(newLead);
         } catch (error: any) {
           importResults.errors.push({
@@ -206,7 +392,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Saleshandy import routes
-  app.get("/api/integrations/saleshandy/prospects", async (req, res) => {
+  app.get("/api/integrations/saleshandy/prospects", AuthService.requireAuth, PermissionService.requirePermission(Permission.MANAGE_OWN_LEADS), async (req, res) => {
     try {
       const { fetchSaleshandyProspects } = await import("./saleshandy");
       const page = parseInt(req.query.page as string) || 1;
@@ -244,7 +430,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.post("/api/integrations/saleshandy/import", async (req, res) => {
+  app.post("/api/integrations/saleshandy/import", AuthService.requireAuth, PermissionService.requirePermission(Permission.MANAGE_OWN_LEADS), async (req, res) => {
     try {
       const { fetchSaleshandyProspects, mapSaleshandyProspectToLead } = await import("./saleshandy");
       const { page, limit, selectedProspectIds } = req.body;
@@ -274,8 +460,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
           // Check for duplicate by email
           if (leadData.email) {
-            const existingLeads = await storage.getLeads(req.user!);
-            const duplicate = existingLeads.find(l => l.email === leadData.email);
+            const duplicate = await storage.findLeadByEmail(req.user!, leadData.email);
 
             if (duplicate) {
               importResults.skipped.push({
@@ -295,11 +480,11 @@ export async function registerRoutes(app: Express): Promise<Server> {
           }
 
           // Create the lead
-          const newLead = await storage.createLead(leadData as any);
+          const createdLead = await storage.createLead(leadData as any);
 
           // Track import in campaignProspects table (repurposing for import tracking)
           await storage.createSaleshandySequence({
-            leadId: newLead.id,
+            leadId: createdLead.id,
             sequenceId: String(prospect.id),
             sequenceName: "Imported from Saleshandy",
             stepId: String(prospect.id),
@@ -313,12 +498,17 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
           // Create activity
           await storage.createActivity({
-            leadId: newLead.id,
+            leadId: createdLead.id,
             type: "lead_created",
             description: `Lead imported from Saleshandy`,
             metadata: { source: "saleshandy", saleshandyProspectId: String(prospect.id) },
           });
 
+          const { lead: newLead } = await assignmentEngine.assignNewLead(createdLead, {
+            fallbackOwnerId: req.user?.id,
+            source: "saleshandy",
+          });
+
           importResults.imported.push(newLead);
         } catch (error: any) {
           importResults.errors.push({
@@ -341,7 +531,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // LinkedIn screenshot OCR route
-  app.post("/api/integrations/linkedin/screenshot", async (req, res) => {
+  app.post("/api/integrations/linkedin/screenshot", AuthService.requireAuth, PermissionService.requirePermission(Permission.MANAGE_OWN_LEADS), async (req, res) => {
     try {
       const { extractLeadFromScreenshot, mapScreenshotDataToLead } = await import("./linkedin-ocr");
       const { imageBase64 } = req.body;
@@ -390,14 +580,14 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
 
   // Conversation routes
-  app.get("/api/conversations", AuthService.requireAuth, async (req, res) => {
+  app.get("/api/conversations", AuthService.requireAuth, PermissionService.requirePermission(Permission.VIEW_OWN_DATA), async (req, res) => {
     try {
       // Get conversations with proper multi-tenancy filtering
       const allConversations = await storage.getConversations(req.user!);
       const conversationsWithLeads = await Promise.all(
         allConversations.map(async (conv) => {
           const lead = await storage.getLead(req.user!, conv.leadId);
-          return { ...conv, lead };
+          return { ...conv, lead: lead && PermissionService.redact(req.user!, "leads", lead) };
         })
       );
       res.json(conversationsWithLeads);
@@ -407,18 +597,23 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.get("/api/leads/:id/conversations", AuthService.requireAuth, async (req, res) => {
+  app.get("/api/leads/:id/conversations", AuthService.requireAuth, PermissionService.requirePermission(Permission.VIEW_OWN_DATA), async (req, res) => {
     try {
-      const convs = await storage.getConversationsByLeadId(req.params.id);
+      const lead = await storage.getLead(req.user!, req.params.id);
+      if (!lead) {
+        return res.status(404).json({ error: "Lead not found" });
+      }
+      const convs = await storage.getConversationsByLeadId(lead.id);
       res.json(convs);
     } catch (error: any) {
       res.status(500).json({ error: error.message });
     }
   });
 
-  app.post("/api/conversations", async (req, res) => {
+  app.post("/api/conversations", AuthService.requireAuth, PermissionService.requirePermission(Permission.MANAGE_OWN_LEADS), async (req, res) => {
     try {
       const validatedData = insertConversationSchema.parse(req.body);
+      if (!(await findModifiableLead(req, res, validatedData.leadId))) return;
       const conversation = await storage.createConversation(validatedData);
 
       const lead = await storage.getLead(req.user!, conversation.leadId);
@@ -434,58 +629,16 @@ export async function registerRoutes(app: Express): Promise<Server> {
           metadata: { conversationId: conversation.id },
         });
 
-        // Trigger automation on conversation received
+        // Automations and AI scoring run in the background job queue
         if (conversation.isFromLead) {
-          await automationEngine.onConversationReceived(conversation.id);
+          await jobQueue.enqueue("automation.conversation_received", {
+            conversationId: conversation.id,
+          });
         }
 
-        const allConversations = await storage.getConversationsByLeadId(lead.id);
-        const conversationsForAnalysis = allConversations.map((c) => ({
-          subject: c.subject,
-          body: c.body,
-          isFromLead: c.isFromLead === 1,
-          sentAt: c.sentAt,
-        }));
-
-        const analysis = await analyzeLeadConversations(
-          lead.name,
-          lead.email,
-          conversationsForAnalysis
-        );
-
-        const previousScore = lead.score;
-        const previousStatus = lead.status;
-
-        await storage.updateLead(lead.id, {
-          score: analysis.score,
-          status: analysis.status,
-        });
-
-        await storage.createLeadScore({
-          leadId: lead.id,
-          score: analysis.score,
-          previousScore,
-          status: analysis.status,
-          previousStatus,
-          factors: analysis.factors,
+        await jobQueue.enqueue("lead.score", { leadId: lead.id }, {
+          uniqueKey: `lead.score:${lead.id}`,
         });
-
-        if (analysis.score !== previousScore || analysis.status !== previousStatus) {
-          await storage.createActivity({
-            leadId: lead.id,
-            type: "score_updated",
-            description: `Lead score updated from ${previousScore} to ${analysis.score} (${previousStatus} → ${analysis.status})`,
-            metadata: { factors: analysis.factors },
-          });
-
-          // Trigger automation workflows on score change
-          await automationEngine.onLeadScoreChange(
-            lead.id,
-            previousScore,
-            analysis.score,
-            analysis.status
-          );
-        }
       }
 
       res.json(conversation);
@@ -495,9 +648,13 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // AI Conversation Summary
-  app.get("/api/leads/:id/conversation-summary", async (req, res) => {
+  app.get("/api/leads/:id/conversation-summary", AuthService.requireAuth, PermissionService.requirePermission(Permission.VIEW_OWN_DATA), async (req, res) => {
     try {
-      const conversations = await storage.getConversationsByLeadId(req.params.id);
+      const lead = await storage.getLead(req.user!, req.params.id);
+      if (!lead) {
+        return res.status(404).json({ error: "Lead not found" });
+      }
+      const conversations = await storage.getConversationsByLeadId(lead.id);
       const conversationsForSummary = conversations.map((c) => ({
         subject: c.subject,
         body: c.body,
@@ -513,7 +670,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // AI Email Drafting
-  app.post("/api/leads/:id/draft-email", async (req, res) => {
+  app.post("/api/leads/:id/draft-email", AuthService.requireAuth, PermissionService.requirePermission(Permission.VIEW_OWN_DATA), async (req, res) => {
     try {
       const lead = await storage.getLead(req.user!, req.params.id);
       if (!lead) {
@@ -546,7 +703,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // AI Next Best Action
-  app.get("/api/leads/:id/next-best-action", async (req, res) => {
+  app.get("/api/leads/:id/next-best-action", AuthService.requireAuth, PermissionService.requirePermission(Permission.VIEW_OWN_DATA), async (req, res) => {
     try {
       const lead = await storage.getLead(req.user!, req.params.id);
       if (!lead) {
@@ -591,7 +748,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // AI Sentiment Timeline
-  app.get("/api/leads/:id/sentiment-timeline", async (req, res) => {
+  app.get("/api/leads/:id/sentiment-timeline", AuthService.requireAuth, PermissionService.requirePermission(Permission.VIEW_OWN_DATA), async (req, res) => {
     try {
       const lead = await storage.getLead(req.user!, req.params.id);
       if (!lead) {
@@ -616,9 +773,13 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Activity routes
-  app.get("/api/leads/:id/activities", AuthService.requireAuth, async (req, res) => {
+  app.get("/api/leads/:id/activities", AuthService.requireAuth, PermissionService.requirePermission(Permission.VIEW_OWN_DATA), async (req, res) => {
     try {
-      const acts = await storage.getActivities(req.params.id);
+      const lead = await storage.getLead(req.user!, req.params.id);
+      if (!lead) {
+        return res.status(404).json({ error: "Lead not found" });
+      }
+      const acts = await storage.getActivities(lead.id);
       res.json(acts);
     } catch (error: any) {
       res.status(500).json({ error: error.message });
@@ -626,7 +787,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Stats route - with auth middleware
-  app.get("/api/stats", AuthService.requireAuth, async (req, res) => {
+  app.get("/api/stats", AuthService.requireAuth, PermissionService.requirePermission(Permission.VIEW_ANALYTICS), async (req, res) => {
     try {
       const allLeads = await storage.getLeads(req.user!);
       const allConversations = await storage.getConversations();
@@ -656,16 +817,20 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Sync state routes
-  app.get("/api/sync-state", async (req, res) => {
+  app.get("/api/sync-state", AuthService.requireAuth, PermissionService.requirePermission(Permission.VIEW_OWN_DATA), async (req, res) => {
     try {
-      const state = await storage.getSyncState();
-      res.json(state || { isConfigured: 0 });
+      // The caller's own connection status only; the token columns never leave the server
+      const state = await storage.getSyncStateForUser(req.user!.id);
+      res.json({
+        isConfigured: state?.isConfigured ?? 0,
+        lastSyncAt: state?.lastSyncAt ?? null,
+      });
     } catch (error: any) {
       res.status(500).json({ error: error.message });
     }
   });
 
-  app.post("/api/sync/manual", AuthService.requireAuth, async (req, res) => {
+  app.post("/api/sync/manual", AuthService.requireAuth, PermissionService.requirePermission(Permission.MANAGE_OWN_LEADS), async (req, res) => {
     try {
       if (!req.user) {
         return res.status(401).json({ error: "Not authenticated" });
@@ -678,6 +843,25 @@ export async function registerRoutes(app: Express): Promise<Server> {
         });
       }
 
+      // A backfill can walk months of mail, so it runs in the background
+      if (req.body?.backfillDays !== undefined) {
+        const backfillDays = Number(req.body.backfillDays);
+        if (!Number.isInteger(backfillDays) || backfillDays < 1 || backfillDays > 365) {
+          return res.status(400).json({ error: "backfillDays must be a whole number from 1 to 365" });
+        }
+
+        // Its own key, so a pending regular sync does not swallow the backfill window
+        const job = await jobQueue.enqueue("ms365.sync", { userId: req.user.id, backfillDays }, {
+          uniqueKey: `ms365.backfill:${req.user.id}:${backfillDays}`,
+          createdBy: req.user.id,
+        });
+        return res.status(202).json({
+          success: true,
+          message: `Backfill of the last ${backfillDays} days queued.`,
+          jobId: job.id,
+        });
+      }
+
       const result = await ms365Integration.syncEmailsWithLeads(req.user.id);
 
       res.json({
@@ -690,7 +874,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.get("/api/ms365/auth-url", async (req, res) => {
+  app.get("/api/ms365/auth-url", AuthService.requireAuth, PermissionService.requirePermission(Permission.MANAGE_OWN_LEADS), async (req, res) => {
     try {
       const authUrl = ms365Integration.getAuthorizationUrl();
       res.json({ authUrl });
@@ -702,7 +886,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.get("/api/ms365/callback", AuthService.requireAuth, async (req, res) => {
+  app.get("/api/ms365/callback", AuthService.requireAuth, PermissionService.requirePermission(Permission.MANAGE_OWN_LEADS), async (req, res) => {
     try {
       if (!req.user) {
         return res.redirect('/settings?ms365=error&message=' + encodeURIComponent('Not authenticated'));
@@ -729,11 +913,18 @@ export async function registerRoutes(app: Express): Promise<Server> {
       const webhookUrl = `${process.env.REPL_SLUG ? 'https://' + process.env.REPL_SLUG + '.replit.app' : 'http://localhost:5000'}/api/ms365/webhook`;
       try {
         const webhook = await ms365Integration.setupWebhook(webhookUrl, tokens.accessToken);
+        await storage.updateSyncStateForUser(req.user.id, { subscriptionId: webhook.subscriptionId });
         console.log(`MS365: Webhook setup successful for user ${req.user.id}: ${webhook.subscriptionId}`);
       } catch (error) {
         console.warn("MS365: Failed to setup webhook (will use polling):", error);
       }
 
+      // Pull existing mail in the background
+      await jobQueue.enqueue("ms365.sync", { userId: req.user.id }, {
+        uniqueKey: `ms365.sync:${req.user.id}`,
+        createdBy: req.user.id,
+      });
+
       // Redirect to settings page with success message
       res.redirect('/settings?ms365=connected');
     } catch (error: any) {
@@ -751,12 +942,10 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.send(validationToken);
       }
 
-      // Handle webhook notification
-      const notification = req.body.value?.[0];
-      if (notification) {
-        // Ensure valid token before processing webhook
-        const accessToken = await ms365Integration.ensureValidToken();
-        await ms365Integration.handleWebhookNotification(notification, accessToken);
+      // Queue notifications and acknowledge right away - Graph expects a fast response
+      const notifications: any[] = req.body.value || [];
+      for (const notification of notifications) {
+        await jobQueue.enqueue("ms365.webhook", { notification });
       }
 
       res.status(202).send();
@@ -767,7 +956,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Email Template routes
-  app.get("/api/email-templates", async (req, res) => {
+  app.get("/api/email-templates", AuthService.requireAuth, PermissionService.requirePermission(Permission.VIEW_OWN_DATA), async (req, res) => {
     try {
       const templates = await storage.getEmailTemplates();
       res.json(templates);
@@ -776,7 +965,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.post("/api/email-templates", async (req, res) => {
+  app.post("/api/email-templates", AuthService.requireAuth, PermissionService.requirePermission(Permission.MANAGE_SETTINGS), async (req, res) => {
     try {
       const validatedData = insertEmailTemplateSchema.parse(req.body);
       const template = await storage.createEmailTemplate(validatedData);
@@ -786,7 +975,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.patch("/api/email-templates/:id", async (req, res) => {
+  app.patch("/api/email-templates/:id", AuthService.requireAuth, PermissionService.requirePermission(Permission.MANAGE_SETTINGS), async (req, res) => {
     try {
       const validatedData = insertEmailTemplateSchema.partial().parse(req.body);
       const template = await storage.updateEmailTemplate(req.params.id, validatedData);
@@ -799,7 +988,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.delete("/api/email-templates/:id", async (req, res) => {
+  app.delete("/api/email-templates/:id", AuthService.requireAuth, PermissionService.requirePermission(Permission.MANAGE_SETTINGS), async (req, res) => {
     try {
       await storage.deleteEmailTemplate(req.params.id);
       res.json({ success: true });
@@ -808,7 +997,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.post("/api/leads/:id/send-email", AuthService.requireAuth, async (req, res) => {
+  app.post("/api/leads/:id/send-email", AuthService.requireAuth, PermissionService.requirePermission(Permission.MANAGE_OWN_LEADS), async (req, res) => {
     try {
       if (!req.user) {
         return res.status(401).json({ error: "Not authenticated" });
@@ -879,6 +1068,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
         sentAt: new Date(),
         isFromLead: 0,
         messageId: emailResult.messageId,
+        internetMessageId: emailResult.internetMessageId,
       });
 
       await storage.createActivity({
@@ -895,82 +1085,106 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // User routes - Order matters! Specific routes before parameterized ones
-  app.get("/api/users", async (req, res) => {
+  app.get("/api/users", AuthService.requireAuth, PermissionService.requirePermission(Permission.VIEW_OWN_DATA), async (req, res) => {
     try {
       const users = await storage.getUsers();
-      res.json(users);
+      res.json(users.map(publicUser));
     } catch (error: any) {
       res.status(500).json({ error: error.message });
     }
   });
 
   // Specific routes MUST come before /api/users/:id
-  app.get("/api/users/role/:role", async (req, res) => {
+  app.get("/api/users/role/:role", AuthService.requireAuth, PermissionService.requirePermission(Permission.VIEW_OWN_DATA), async (req, res) => {
     try {
       const users = await storage.getUsersByRole(req.params.role);
-      res.json(users);
+      res.json(users.map(publicUser));
     } catch (error: any) {
       res.status(500).json({ error: error.message });
     }
   });
 
-  app.get("/api/users/:id/subordinates", async (req, res) => {
+  app.get("/api/users/:id/subordinates", AuthService.requireAuth, PermissionService.requirePermission(Permission.VIEW_USERS), async (req, res) => {
     try {
+      if (!(await PermissionService.canAccessUser(req.user!, req.params.id))) {
+        return res.status(403).json({ error: "Forbidden: You cannot view this user's team" });
+      }
       const subordinates = await storage.getUsersByManager(req.params.id);
-      res.json(subordinates);
+      res.json(subordinates.map(publicUser));
     } catch (error: any) {
       res.status(500).json({ error: error.message });
     }
   });
 
   // Generic :id route must come AFTER specific routes
-  app.get("/api/users/:id", async (req, res) => {
+  app.get("/api/users/:id", AuthService.requireAuth, PermissionService.requirePermission(Permission.VIEW_OWN_DATA), async (req, res) => {
     try {
+      if (!(await PermissionService.canAccessUser(req.user!, req.params.id))) {
+        return res.status(403).json({ error: "Forbidden: You cannot view this user" });
+      }
       const user = await storage.getUser(req.params.id);
       if (!user) {
         return res.status(404).json({ error: "User not found" });
       }
-      res.json(user);
+      res.json(publicUser(user));
     } catch (error: any) {
       res.status(500).json({ error: error.message });
     }
   });
 
-  app.post("/api/users", async (req, res) => {
+  app.post("/api/users", AuthService.requireAuth, PermissionService.requirePermission(Permission.MANAGE_USERS), async (req, res) => {
     try {
-      const validatedData = insertUserSchema.parse(req.body);
+      const validatedData = manageUserSchema.parse(req.body);
+      if (validatedData.role && !(await roleService.exists(validatedData.role))) {
+        return res.status(400).json({ error: `Unknown role: ${validatedData.role}` });
+      }
+      if (!PermissionService.canGrantRole(req.user!, validatedData.role ?? "sales_rep")) {
+        return res.status(403).json({ error: "Forbidden: You cannot grant a role with more access than your own" });
+      }
       const user = await storage.createUser(validatedData);
-      res.json(user);
+      res.json(publicUser(user));
     } catch (error: any) {
       res.status(400).json({ error: error.message });
     }
   });
 
-  app.patch("/api/users/:id", async (req, res) => {
+  app.patch("/api/users/:id", AuthService.requireAuth, PermissionService.requirePermission(Permission.MANAGE_USERS), async (req, res) => {
     try {
-      const validatedData = insertUserSchema.partial().parse(req.body);
+      const validatedData = manageUserSchema.partial().parse(req.body);
+      if (!(await PermissionService.canAccessUser(req.user!, req.params.id))) {
+        return res.status(403).json({ error: "Forbidden: You cannot modify this user" });
+      }
+      if (validatedData.role && !(await roleService.exists(validatedData.role))) {
+        return res.status(400).json({ error: `Unknown role: ${validatedData.role}` });
+      }
+      if (validatedData.role && !PermissionService.canGrantRole(req.user!, validatedData.role)) {
+        return res.status(403).json({ error: "Forbidden: You cannot grant a role with more access than your own" });
+      }
       const user = await storage.updateUser(req.params.id, validatedData);
       if (!user) {
         return res.status(404).json({ error: "User not found" });
       }
-      res.json(user);
+      res.json(publicUser(user));
     } catch (error: any) {
       res.status(400).json({ error: error.message });
     }
   });
 
   // Lead ownership routes
-  app.get("/api/leads/owner/:ownerId", async (req, res) => {
+  app.get("/api/leads/owner/:ownerId", AuthService.requireAuth, PermissionService.requirePermission(Permission.VIEW_OWN_DATA), async (req, res) => {
     try {
+      if (!(await PermissionService.canAccessUser(req.user!, req.params.ownerId))) {
+        return res.status(403).json({ error: "Forbidden: You cannot view this user's leads" });
+      }
       const leads = await storage.getLeadsByOwner(req.params.ownerId);
-      res.json(leads);
+      res.json(PermissionService.redactAll(req.user!, "leads", leads));
     } catch (error: any) {
       res.status(500).json({ error: error.message });
     }
   });
 
   // Assignment Rule routes
-  app.get("/api/assignment-rules", async (req, res) => {
+  app.get("/api/assignment-rules", AuthService.requireAuth, PermissionService.requirePermission(Permission.ASSIGN_LEADS), async (req, res) => {
     try {
       const rules = await storage.getAssignmentRules();
       res.json(rules);
@@ -979,7 +1193,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.post("/api/assignment-rules", async (req, res) => {
+  app.post("/api/assignment-rules", AuthService.requireAuth, PermissionService.requirePermission(Permission.ASSIGN_LEADS), async (req, res) => {
     try {
       const validatedData = insertAssignmentRuleSchema.parse(req.body);
       const rule = await storage.createAssignmentRule(validatedData);
@@ -989,7 +1203,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.patch("/api/assignment-rules/:id", async (req, res) => {
+  app.patch("/api/assignment-rules/:id", AuthService.requireAuth, PermissionService.requirePermission(Permission.ASSIGN_LEADS), async (req, res) => {
     try {
       const validatedData = insertAssignmentRuleSchema.partial().parse(req.body);
       const rule = await storage.updateAssignmentRule(req.params.id, validatedData);
@@ -1002,7 +1216,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.delete("/api/assignment-rules/:id", async (req, res) => {
+  app.delete("/api/assignment-rules/:id", AuthService.requireAuth, PermissionService.requirePermission(Permission.ASSIGN_LEADS), async (req, res) => {
     try {
       await storage.deleteAssignmentRule(req.params.id);
       res.json({ success: true });
@@ -1012,27 +1226,32 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Task routes
-  app.get("/api/tasks", async (req, res) => {
+  app.get("/api/tasks", AuthService.requireAuth, PermissionService.requirePermission(Permission.VIEW_OWN_DATA), async (req, res) => {
     try {
-      const tasks = await storage.getAllTasks();
+      const tasks = await storage.getTasksForUser(req.user!);
       res.json(tasks);
     } catch (error: any) {
       res.status(500).json({ error: error.message });
     }
   });
 
-  app.get("/api/leads/:id/tasks", AuthService.requireAuth, async (req, res) => {
+  app.get("/api/leads/:id/tasks", AuthService.requireAuth, PermissionService.requirePermission(Permission.VIEW_OWN_DATA), async (req, res) => {
     try {
-      const tasks = await storage.getTasks(req.params.id);
+      const lead = await storage.getLead(req.user!, req.params.id);
+      if (!lead) {
+        return res.status(404).json({ error: "Lead not found" });
+      }
+      const tasks = await storage.getTasks(lead.id);
       res.json(tasks);
     } catch (error: any) {
       res.status(500).json({ error: error.message });
     }
   });
 
-  app.post("/api/tasks", async (req, res) => {
+  app.post("/api/tasks", AuthService.requireAuth, PermissionService.requirePermission(Permission.MANAGE_OWN_LEADS), async (req, res) => {
     try {
       const validatedData = insertTaskSchema.parse(req.body);
+      if (!(await findModifiableLead(req, res, validatedData.leadId))) return;
       const task = await storage.createTask(validatedData);
 
       await storage.createActivity({
@@ -1048,9 +1267,14 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.patch("/api/tasks/:id", async (req, res) => {
+  app.patch("/api/tasks/:id", AuthService.requireAuth, PermissionService.requirePermission(Permission.MANAGE_OWN_LEADS), async (req, res) => {
     try {
       const validatedData = insertTaskSchema.partial().parse(req.body);
+      const existing = await storage.getTask(req.params.id);
+      if (!existing) {
+        return res.status(404).json({ error: "Task not found" });
+      }
+      if (!(await findModifiableLead(req, res, existing.leadId))) return;
       const task = await storage.updateTask(req.params.id, validatedData);
       if (!task) {
         return res.status(404).json({ error: "Task not found" });
@@ -1071,8 +1295,13 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.delete("/api/tasks/:id", async (req, res) => {
+  app.delete("/api/tasks/:id", AuthService.requireAuth, PermissionService.requirePermission(Permission.MANAGE_OWN_LEADS), async (req, res) => {
     try {
+      const existing = await storage.getTask(req.params.id);
+      if (!existing) {
+        return res.status(404).json({ error: "Task not found" });
+      }
+      if (!(await findModifiableLead(req, res, existing.leadId))) return;
       await storage.deleteTask(req.params.id);
       res.json({ success: true });
     } catch (error: any) {
@@ -1081,7 +1310,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Scoring Config routes
-  app.get("/api/scoring-config", async (req, res) => {
+  app.get("/api/scoring-config", AuthService.requireAuth, PermissionService.requirePermission(Permission.VIEW_OWN_DATA), async (req, res) => {
     try {
       const config = await storage.getScoringConfig();
       res.json(config || {
@@ -1095,7 +1324,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.patch("/api/scoring-config", async (req, res) => {
+  app.patch("/api/scoring-config", AuthService.requireAuth, PermissionService.requirePermission(Permission.MANAGE_SETTINGS), async (req, res) => {
     try {
       const validatedData = insertScoringConfigSchema.parse(req.body);
       const config = await storage.updateScoringConfig(validatedData);
@@ -1105,8 +1334,35 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Rescore every lead with the current weights (runs in the background)
+  app.post(
+    "/api/scoring-config/rescore",
+    AuthService.requireAuth,
+    PermissionService.requirePermission(Permission.MANAGE_SETTINGS),
+    async (req, res) => {
+      try {
+        const run = leadScoringService.startRescoreAll(req.user!.id);
+        res.status(202).json(run);
+      } catch (error: any) {
+        res.status(500).json({ error: error.message });
+      }
+    }
+  );
+
+  app.get("/api/scoring-config/rescore/:runId", AuthService.requireAuth, PermissionService.requirePermission(Permission.MANAGE_SETTINGS), async (req, res) => {
+    try {
+      const run = leadScoringService.getRescoreRun(req.params.runId);
+      if (!run) {
+        return res.status(404).json({ error: "Rescore run not found" });
+      }
+      res.json(run);
+    } catch (error: any) {
+      res.status(500).json({ error: error.message });
+    }
+  });
+
   // Pipeline routes
-  app.get("/api/pipelines", async (req, res) => {
+  app.get("/api/pipelines", AuthService.requireAuth, PermissionService.requirePermission(Permission.VIEW_OWN_DATA), async (req, res) => {
     try {
       const pipelines = await storage.getPipelines();
       res.json(pipelines);
@@ -1115,7 +1371,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.get("/api/pipelines/default", async (req, res) => {
+  app.get("/api/pipelines/default", AuthService.requireAuth, PermissionService.requirePermission(Permission.VIEW_OWN_DATA), async (req, res) => {
     try {
       const pipeline = await storage.getDefaultPipeline();
       if (!pipeline) {
@@ -1127,7 +1383,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.get("/api/pipelines/:id", async (req, res) => {
+  app.get("/api/pipelines/:id", AuthService.requireAuth, PermissionService.requirePermission(Permission.VIEW_OWN_DATA), async (req, res) => {
     try {
       const pipeline = await storage.getPipeline(req.params.id);
       if (!pipeline) {
@@ -1139,7 +1395,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.post("/api/pipelines", async (req, res) => {
+  app.post("/api/pipelines", AuthService.requireAuth, PermissionService.requirePermission(Permission.MANAGE_SETTINGS), async (req, res) => {
     try {
       const validatedData = insertPipelineSchema.parse(req.body);
 
@@ -1160,7 +1416,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.patch("/api/pipelines/:id", async (req, res) => {
+  app.patch("/api/pipelines/:id", AuthService.requireAuth, PermissionService.requirePermission(Permission.MANAGE_SETTINGS), async (req, res) => {
     try {
       const validatedData = insertPipelineSchema.partial().parse(req.body);
 
@@ -1197,7 +1453,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.delete("/api/pipelines/:id", async (req, res) => {
+  app.delete("/api/pipelines/:id", AuthService.requireAuth, PermissionService.requirePermission(Permission.MANAGE_SETTINGS), async (req, res) => {
     try {
       // Check for dependent deals
       const deals = await storage.getDeals(req.user!, { pipelineId: req.params.id });
@@ -1223,7 +1479,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Pipeline Stage routes
-  app.get("/api/pipelines/:pipelineId/stages", async (req, res) => {
+  app.get("/api/pipelines/:pipelineId/stages", AuthService.requireAuth, PermissionService.requirePermission(Permission.VIEW_OWN_DATA), async (req, res) => {
     try {
       const stages = await storage.getStages(req.params.pipelineId);
       res.json(stages);
@@ -1232,7 +1488,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.post("/api/pipelines/:pipelineId/stages", async (req, res) => {
+  app.post("/api/pipelines/:pipelineId/stages", AuthService.requireAuth, PermissionService.requirePermission(Permission.MANAGE_SETTINGS), async (req, res) => {
     try {
       const validatedData = insertPipelineStageSchema.parse({
         ...req.body,
@@ -1245,7 +1501,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.patch("/api/stages/:id", async (req, res) => {
+  app.patch("/api/stages/:id", AuthService.requireAuth, PermissionService.requirePermission(Permission.MANAGE_SETTINGS), async (req, res) => {
     try {
       const validatedData = insertPipelineStageSchema.partial().parse(req.body);
       const stage = await storage.updateStage(req.params.id, validatedData);
@@ -1258,7 +1514,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.delete("/api/stages/:id", async (req, res) => {
+  app.delete("/api/stages/:id", AuthService.requireAuth, PermissionService.requirePermission(Permission.MANAGE_SETTINGS), async (req, res) => {
     try {
       // Check for dependent deals
       const deals = await storage.getDeals(req.user!, { stageId: req.params.id });
@@ -1275,7 +1531,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.post("/api/stages/reorder", async (req, res) => {
+  app.post("/api/stages/reorder", AuthService.requireAuth, PermissionService.requirePermission(Permission.MANAGE_SETTINGS), async (req, res) => {
     try {
       const { stageIds } = req.body;
       if (!Array.isArray(stageIds)) {
@@ -1289,7 +1545,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Deal routes
-  app.get("/api/deals", async (req, res) => {
+  app.get("/api/deals", AuthService.requireAuth, PermissionService.requirePermission(Permission.VIEW_OWN_DATA), async (req, res) => {
     try {
       const filters: any = {};
       if (req.query.pipelineId) filters.pipelineId = req.query.pipelineId as string;
@@ -1302,27 +1558,28 @@ export async function registerRoutes(app: Express): Promise<Server> {
       if (req.query.toDate) filters.toDate = new Date(req.query.toDate as string);
 
       const deals = await storage.getDeals(req.user!, filters);
-      res.json(deals);
+      res.json(PermissionService.redactAll(req.user!, "deals", deals));
     } catch (error: any) {
       res.status(500).json({ error: error.message });
     }
   });
 
-  app.get("/api/deals/:id", async (req, res) => {
+  app.get("/api/deals/:id", AuthService.requireAuth, PermissionService.requirePermission(Permission.VIEW_OWN_DATA), async (req, res) => {
     try {
       const deal = await storage.getDeal(req.user!, req.params.id);
       if (!deal) {
         return res.status(404).json({ error: "Deal not found" });
       }
-      res.json(deal);
+      res.json(PermissionService.redact(req.user!, "deals", deal));
     } catch (error: any) {
       res.status(500).json({ error: error.message });
     }
   });
 
-  app.post("/api/deals", async (req, res) => {
+  app.post("/api/deals", AuthService.requireAuth, PermissionService.requirePermission(Permission.MANAGE_OWN_DEALS), async (req, res) => {
     try {
       const validatedData = insertDealSchema.parse(req.body);
+      if (!(await canAssignOwner(req, res, validatedData.ownerId))) return;
       const deal = await storage.createDeal(validatedData);
 
       if (deal.leadId) {
@@ -1334,15 +1591,28 @@ export async function registerRoutes(app: Express): Promise<Server> {
         });
       }
 
-      res.json(deal);
+      res.json(PermissionService.redact(req.user!, "deals", deal));
     } catch (error: any) {
       res.status(400).json({ error: error.message });
     }
   });
 
-  app.patch("/api/deals/:id", async (req, res) => {
+  app.patch("/api/deals/:id", AuthService.requireAuth, PermissionService.requirePermission(Permission.MANAGE_OWN_DEALS), async (req, res) => {
     try {
-      const validatedData = insertDealSchema.partial().parse(req.body);
+      const validatedData = PermissionService.withoutHidden(req.user!, "deals", insertDealSchema.partial().parse(req.body));
+      const current = await findModifiableDeal(req, res, req.params.id);
+      if (!current) return;
+      if (!(await canAssignOwner(req, res, validatedData.ownerId))) return;
+
+      // Deals with line items take their amount (and currency) from them
+      const lineItems = await storage.getDealLineItems(req.params.id);
+      if (lineItems.length > 0) {
+        if (validatedData.currency && validatedData.currency !== current.currency) {
+          return res.status(400).json({ error: "Remove the deal's line items before changing its currency" });
+        }
+        delete validatedData.amount;
+      }
+
       const deal = await storage.updateDeal(req.params.id, validatedData);
       if (!deal) {
         return res.status(404).json({ error: "Deal not found" });
@@ -1357,14 +1627,15 @@ export async function registerRoutes(app: Express): Promise<Server> {
         });
       }
 
-      res.json(deal);
+      res.json(PermissionService.redact(req.user!, "deals", deal));
     } catch (error: any) {
       res.status(400).json({ error: error.message });
     }
   });
 
-  app.delete("/api/deals/:id", async (req, res) => {
+  app.delete("/api/deals/:id", AuthService.requireAuth, PermissionService.requirePermission(Permission.MANAGE_OWN_DEALS), async (req, res) => {
     try {
+      if (!(await findModifiableDeal(req, res, req.params.id))) return;
       await storage.deleteDeal(req.params.id);
       res.json({ success: true });
     } catch (error: any) {
@@ -1372,18 +1643,28 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.post("/api/deals/:id/move-stage", async (req, res) => {
+  app.post("/api/deals/:id/move-stage", AuthService.requireAuth, PermissionService.requirePermission(Permission.MANAGE_OWN_DEALS), async (req, res) => {
     try {
       const { toStageId, movedById } = req.body;
       if (!toStageId) {
         return res.status(400).json({ error: "toStageId is required" });
       }
 
+      const before = await findModifiableDeal(req, res, req.params.id);
+      if (!before) return;
       const deal = await storage.moveDealToStage(req.params.id, toStageId, movedById);
       if (!deal) {
         return res.status(404).json({ error: "Deal or stage not found" });
       }
 
+      if (before.stageId !== toStageId) {
+        await jobQueue.enqueue("automation.deal_stage_changed", {
+          dealId: deal.id,
+          oldStageId: before.stageId,
+          newStageId: toStageId,
+        });
+      }
+
       if (deal.leadId) {
         const stage = await storage.getStage(toStageId);
         await storage.createActivity({
@@ -1394,35 +1675,203 @@ export async function registerRoutes(app: Express): Promise<Server> {
         });
       }
 
-      res.json(deal);
+      res.json(PermissionService.redact(req.user!, "deals", deal));
     } catch (error: any) {
       res.status(500).json({ error: error.message });
     }
   });
 
-  app.get("/api/deals/:id/history", async (req, res) => {
+  app.get("/api/deals/:id/history", AuthService.requireAuth, PermissionService.requirePermission(Permission.VIEW_OWN_DATA), async (req, res) => {
     try {
-      const history = await storage.getDealStageHistory(req.params.id);
+      const deal = await storage.getDeal(req.user!, req.params.id);
+      if (!deal) {
+        return res.status(404).json({ error: "Deal not found" });
+      }
+      const history = await storage.getDealStageHistory(deal.id);
       res.json(history);
     } catch (error: any) {
       res.status(500).json({ error: error.message });
     }
   });
 
+  // Deal contacts (buying committee)
+  app.get("/api/deals/:id/contacts", AuthService.requireAuth, PermissionService.requirePermission(Permission.VIEW_OWN_DATA), async (req, res) => {
+    try {
+      const deal = await storage.getDeal(req.user!, req.params.id);
+      if (!deal) {
+        return res.status(404).json({ error: "Deal not found" });
+      }
+      const contacts = await storage.getDealContacts(deal.id);
+      res.json(contacts.map((contact) => ({ ...contact, lead: PermissionService.redact(req.user!, "leads", contact.lead) })));
+    } catch (error: any) {
+      res.status(500).json({ error: error.message });
+    }
+  });
+
+  app.post("/api/deals/:id/contacts", AuthService.requireAuth, PermissionService.requirePermission(Permission.MANAGE_OWN_DEALS), async (req, res) => {
+    try {
+      const parsed = addDealContactSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ error: parsed.error.errors[0]?.message || "Invalid contact" });
+      }
+
+      const deal = await storage.getDeal(req.user!, req.params.id);
+      if (!deal) {
+        return res.status(404).json({ error: "Deal not found" });
+      }
+      const lead = await storage.getLead(req.user!, parsed.data.leadId);
+      if (!lead) {
+        return res.status(404).json({ error: "Lead not found" });
+      }
+      if ((await storage.getDealContacts(deal.id)).some((contact) => contact.leadId === lead.id)) {
+        return res.status(409).json({ error: `${lead.name} is already on this deal` });
+      }
+
+      const contact = await storage.addDealContact({ ...parsed.data, dealId: deal.id, addedBy: req.user!.id });
+      await storage.createActivity({
+        leadId: lead.id,
+        type: "deal_contact_added",
+        description: `Added to deal "${deal.name}" as ${dealContactRoleLabels[parsed.data.role]}`,
+        metadata: { dealId: deal.id, role: parsed.data.role, influence: parsed.data.influence },
+      });
+      res.status(201).json({ ...contact, lead: PermissionService.redact(req.user!, "leads", lead) });
+    } catch (error: any) {
+      res.status(500).json({ error: error.message });
+    }
+  });
+
+  app.patch("/api/deals/:id/contacts/:contactId", AuthService.requireAuth, PermissionService.requirePermission(Permission.MANAGE_OWN_DEALS), async (req, res) => {
+    try {
+      const parsed = updateDealContactSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ error: parsed.error.errors[0]?.message || "Invalid contact" });
+      }
+
+      const deal = await storage.getDeal(req.user!, req.params.id);
+      const contact = await storage.getDealContact(req.params.contactId);
+      if (!deal || !contact || contact.dealId !== deal.id) {
+        return res.status(404).json({ error: "Deal contact not found" });
+      }
+
+      res.json(await storage.updateDealContact(contact.id, parsed.data));
+    } catch (error: any) {
+      res.status(500).json({ error: error.message });
+    }
+  });
+
+  app.delete("/api/deals/:id/contacts/:contactId", AuthService.requireAuth, PermissionService.requirePermission(Permission.MANAGE_OWN_DEALS), async (req, res) => {
+    try {
+      const deal = await storage.getDeal(req.user!, req.params.id);
+      const contact = await storage.getDealContact(req.params.contactId);
+      if (!deal || !contact || contact.dealId !== deal.id) {
+        return res.status(404).json({ error: "Deal contact not found" });
+      }
+
+      await storage.removeDealContact(contact.id);
+      res.json({ success: true });
+    } catch (error: any) {
+      res.status(500).json({ error: error.message });
+    }
+  });
+
+  // Deal line items
+  app.get("/api/deals/:id/line-items", AuthService.requireAuth, PermissionService.requirePermission(Permission.VIEW_OWN_DATA), async (req, res) => {
+    try {
+      const deal = await storage.getDeal(req.user!, req.params.id);
+      if (!deal) {
+        return res.status(404).json({ error: "Deal not found" });
+      }
+      const items = await storage.getDealLineItems(deal.id);
+      res.json(items.map((item) => redactLineItem(req, item)));
+    } catch (error: any) {
+      res.status(500).json({ error: error.message });
+    }
+  });
+
+  app.post("/api/deals/:id/line-items", AuthService.requireAuth, PermissionService.requirePermission(Permission.MANAGE_OWN_DEALS), async (req, res) => {
+    try {
+      const parsed = addLineItemSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ error: parsed.error.errors[0]?.message || "Invalid line item" });
+      }
+
+      const deal = await storage.getDeal(req.user!, req.params.id);
+      if (!deal) {
+        return res.status(404).json({ error: "Deal not found" });
+      }
+      const product = await storage.getProduct(parsed.data.productId);
+      if (!product) {
+        return res.status(404).json({ error: "Product not found" });
+      }
+
+      try {
+        res.status(201).json(redactLineItem(req, await dealProductService.addLineItem(deal, product, parsed.data)));
+      } catch (error: any) {
+        res.status(400).json({ error: error.message });
+      }
+    } catch (error: any) {
+      res.status(500).json({ error: error.message });
+    }
+  });
+
+  app.patch("/api/deals/:id/line-items/:itemId", AuthService.requireAuth, PermissionService.requirePermission(Permission.MANAGE_OWN_DEALS), async (req, res) => {
+    try {
+      const parsed = updateLineItemSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ error: parsed.error.errors[0]?.message || "Invalid line item" });
+      }
+
+      const deal = await storage.getDeal(req.user!, req.params.id);
+      const item = await storage.getDealLineItem(req.params.itemId);
+      if (!deal || !item || item.dealId !== deal.id) {
+        return res.status(404).json({ error: "Line item not found" });
+      }
+
+      res.json(redactLineItem(req, await dealProductService.updateLineItem(item, parsed.data)));
+    } catch (error: any) {
+      res.status(500).json({ error: error.message });
+    }
+  });
+
+  app.delete("/api/deals/:id/line-items/:itemId", AuthService.requireAuth, PermissionService.requirePermission(Permission.MANAGE_OWN_DEALS), async (req, res) => {
+    try {
+      const deal = await storage.getDeal(req.user!, req.params.id);
+      const item = await storage.getDealLineItem(req.params.itemId);
+      if (!deal || !item || item.dealId !== deal.id) {
+        return res.status(404).json({ error: "Line item not found" });
+      }
+
+      await dealProductService.removeLineItem(item);
+      res.json({ success: true });
+    } catch (error: any) {
+      res.status(500).json({ error: error.message });
+    }
+  });
+
   // AI Deal Outcome Prediction
-  app.get("/api/deals/:id/forecast", async (req, res) => {
+  app.get("/api/deals/:id/forecast", AuthService.requireAuth, PermissionService.requirePermission(Permission.VIEW_OWN_DATA), async (req, res) => {
     try {
       const deal = await storage.getDeal(req.user!, req.params.id);
       if (!deal) {
         return res.status(404).json({ error: "Deal not found" });
       }
 
-      const [stage, stageHistory, conversations] = await Promise.all([
+      const [stage, stageHistory, contacts, primaryLead] = await Promise.all([
         storage.getStage(deal.stageId),
         storage.getDealStageHistory(deal.id),
-        deal.leadId ? storage.getConversationsByLeadId(deal.leadId) : Promise.resolve([]),
+        storage.getDealContacts(deal.id),
+        deal.leadId ? storage.getLeadById(deal.leadId) : Promise.resolve(undefined),
       ]);
 
+      // Engagement across the whole buying committee, not just the primary lead
+      const contactLeadIds = Array.from(new Set([
+        ...(primaryLead ? [primaryLead.id] : []),
+        ...contacts.map((contact) => contact.leadId),
+      ]));
+      const conversations = (await storage.getConversationsByLeadIds(contactLeadIds, FORECAST_CONVERSATION_LIMIT))
+        .sort((a, b) => new Date(a.sentAt).getTime() - new Date(b.sentAt).getTime());
+      const committee = summarizeCommitteeEngagement(primaryLead, contacts, conversations);
+
       // Calculate days in current stage
       const latestStageChange = stageHistory.length > 0
         ? stageHistory.sort((a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime())[0]
@@ -1488,7 +1937,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
           totalConversations: conversations.length,
           lastContactDays,
           stageChanges: stageHistory.length,
-        }
+        },
+        committee
       );
 
       res.json(forecast);
@@ -1498,28 +1948,56 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Forecast route
-  app.get("/api/forecast", async (req, res) => {
+  app.get("/api/forecast", AuthService.requireAuth, PermissionService.requirePermission(Permission.VIEW_ANALYTICS), async (req, res) => {
     try {
       const pipelineId = req.query.pipelineId as string | undefined;
       const ownerId = req.query.ownerId as string | undefined;
 
-      const deals = await storage.getDeals(req.user!, {
-        pipelineId,
-        ownerId,
-        status: "open",
-      });
+      const [deals, wonDeals, converter] = await Promise.all([
+        storage.getDeals(req.user!, { pipelineId, ownerId, status: "open" }),
+        storage.getDeals(req.user!, { pipelineId, ownerId, status: "won" }),
+        currencyService.getConverter(),
+      ]);
+
+      // Everything below is in the base currency; deals in a currency without an
+      // exchange rate are counted under `unconverted` instead of being summed
+      const unconverted: Record<string, { count: number; amount: number }> = {};
+      const toBase = (deal: Deal): number | null => {
+        const amount = convertDealAmount(converter, deal);
+        if (amount === null) {
+          const entry = unconverted[deal.currency] || (unconverted[deal.currency] = { count: 0, amount: 0 });
+          entry.count++;
+          entry.amount += deal.amount;
+        }
+        return amount;
+      };
+
+      const converted = deals
+        .map((deal) => ({ deal, amount: toBase(deal) }))
+        .filter((entry): entry is { deal: Deal; amount: number } => entry.amount !== null);
+      const wonAmounts = wonDeals.map(toBase).filter((amount): amount is number => amount !== null);
+
+      const productForecast = await dealProductService.forecast(deals, converter);
+      const totalValue = converted.reduce((sum, { amount }) => sum + amount, 0);
 
       const forecast = {
-        totalValue: deals.reduce((sum, deal) => sum + deal.amount, 0),
-        weightedValue: deals.reduce((sum, deal) => sum + (deal.amount * (deal.probability || 0) / 100), 0),
+        baseCurrency: converter.baseCurrency,
+        totalValue,
+        weightedValue: converted.reduce((sum, { deal, amount }) => sum + (amount * (deal.probability || 0) / 100), 0),
         dealCount: deals.length,
-        avgDealSize: deals.length > 0 ? deals.reduce((sum, deal) => sum + deal.amount, 0) / deals.length : 0,
+        avgDealSize: converted.length > 0 ? totalValue / converted.length : 0,
+        wonValue: wonAmounts.reduce((sum, amount) => sum + amount, 0),
+        wonCount: wonDeals.length,
+        unconverted,
         byStage: {} as Record<string, { count: number; totalValue: number; weightedValue: number }>,
         byMonth: {} as Record<string, { count: number; totalValue: number; weightedValue: number }>,
+        // From line items; deals without line items are not included
+        byProduct: productForecast.byProduct,
+        byRevenueType: productForecast.byRevenueType,
       };
 
       // Group by stage
-      for (const deal of deals) {
+      for (const { deal, amount } of converted) {
         if (!forecast.byStage[deal.stageId]) {
           forecast.byStage[deal.stageId] = {
             count: 0,
@@ -1528,12 +2006,12 @@ export async function registerRoutes(app: Express): Promise<Server> {
           };
         }
         forecast.byStage[deal.stageId].count++;
-        forecast.byStage[deal.stageId].totalValue += deal.amount;
-        forecast.byStage[deal.stageId].weightedValue += deal.amount * (deal.probability || 0) / 100;
+        forecast.byStage[deal.stageId].totalValue += amount;
+        forecast.byStage[deal.stageId].weightedValue += amount * (deal.probability || 0) / 100;
       }
 
       // Group by month (based on expected close date)
-      for (const deal of deals) {
+      for (const { deal, amount } of converted) {
         if (deal.expectedCloseDate) {
           const date = new Date(deal.expectedCloseDate);
           const monthKey = `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}`;
@@ -1546,11 +2024,27 @@ export async function registerRoutes(app: Express): Promise<Server> {
             };
           }
           forecast.byMonth[monthKey].count++;
-          forecast.byMonth[monthKey].totalValue += deal.amount;
-          forecast.byMonth[monthKey].weightedValue += deal.amount * (deal.probability || 0) / 100;
+          forecast.byMonth[monthKey].totalValue += amount;
+          forecast.byMonth[monthKey].weightedValue += amount * (deal.probability || 0) / 100;
         }
       }
 
+      if (amountHidden(req)) {
+        return res.json({
+          ...forecast,
+          totalValue: null,
+          weightedValue: null,
+          avgDealSize: null,
+          wonValue: null,
+          unconverted: Object.fromEntries(
+            Object.entries(unconverted).map(([currency, { count }]) => [currency, { count, amount: null }])
+          ),
+          byStage: {},
+          byMonth: {},
+          byProduct: {},
+          byRevenueType: null,
+        });
+      }
       res.json(forecast);
     } catch (error: any) {
       res.status(500).json({ error: error.message });
@@ -1558,7 +2052,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Automation Rules routes
-  app.get("/api/automation-rules", async (req, res) => {
+  app.get("/api/automation-rules", AuthService.requireAuth, PermissionService.requirePermission(Permission.VIEW_OWN_DATA), async (req, res) => {
     try {
       const rules = await storage.getAutomationRules();
       res.json(rules);
@@ -1567,7 +2061,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.get("/api/automation-rules/:id", async (req, res) => {
+  app.get("/api/automation-rules/:id", AuthService.requireAuth, PermissionService.requirePermission(Permission.VIEW_OWN_DATA), async (req, res) => {
     try {
       const rule = await storage.getAutomationRule(req.params.id);
       if (!rule) {
@@ -1579,9 +2073,12 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.post("/api/automation-rules", async (req, res) => {
+  app.post("/api/automation-rules", AuthService.requireAuth, PermissionService.requirePermission(Permission.MANAGE_SETTINGS), async (req, res) => {
     try {
-      const validatedData = insertAutomationRuleSchema.parse(req.body);
+      const validatedData = insertAutomationRuleSchema.parse(withPrimaryAction(req.body));
+      validateTimeBasedConditions(validatedData.triggerType, validatedData.triggerConditions);
+      validateRuleFrequency(validatedData.frequency, validatedData.cooldownHours);
+      await validateRuleAudience(validatedData.savedViewId, validatedData.triggerType, req.user?.id);
       const rule = await storage.createAutomationRule(validatedData);
       res.json(rule);
     } catch (error: any) {
@@ -1589,9 +2086,31 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.patch("/api/automation-rules/:id", async (req, res) => {
+  app.patch("/api/automation-rules/:id", AuthService.requireAuth, PermissionService.requirePermission(Permission.MANAGE_SETTINGS), async (req, res) => {
     try {
-      const validatedData = insertAutomationRuleSchema.partial().parse(req.body);
+      const validatedData = insertAutomationRuleSchema.partial().parse(withPrimaryAction(req.body));
+      if (validatedData.triggerType || validatedData.triggerConditions) {
+        const existing = await storage.getAutomationRule(req.params.id);
+        validateTimeBasedConditions(
+          validatedData.triggerType ?? existing?.triggerType,
+          validatedData.triggerConditions ?? existing?.triggerConditions
+        );
+      }
+      if (validatedData.frequency !== undefined || validatedData.cooldownHours !== undefined) {
+        const existing = await storage.getAutomationRule(req.params.id);
+        validateRuleFrequency(
+          validatedData.frequency ?? existing?.frequency,
+          validatedData.cooldownHours !== undefined ? validatedData.cooldownHours : existing?.cooldownHours
+        );
+      }
+      if (validatedData.savedViewId) {
+        const existing = await storage.getAutomationRule(req.params.id);
+        await validateRuleAudience(
+          validatedData.savedViewId,
+          validatedData.triggerType ?? existing?.triggerType,
+          req.user?.id
+        );
+      }
       const rule = await storage.updateAutomationRule(req.params.id, validatedData);
       if (!rule) {
         return res.status(404).json({ error: "Automation rule not found" });
@@ -1602,7 +2121,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.delete("/api/automation-rules/:id", async (req, res) => {
+  app.delete("/api/automation-rules/:id", AuthService.requireAuth, PermissionService.requirePermission(Permission.MANAGE_SETTINGS), async (req, res) => {
     try {
       await storage.deleteAutomationRule(req.params.id);
       res.json({ success: true });
@@ -1611,8 +2130,48 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Queue a time-based automation sweep right away instead of waiting for the scheduler
+  app.post(
+    "/api/automation-rules/run-scheduled",
+    AuthService.requireAuth,
+    PermissionService.requirePermission(Permission.MANAGE_SETTINGS),
+    async (req, res) => {
+      try {
+        const job = await automationScheduler.enqueueSweep(req.user!.id);
+        res.status(202).json(job);
+      } catch (error: any) {
+        res.status(500).json({ error: error.message });
+      }
+    }
+  );
+
+  // Replay a rule over past activity to see what it would have done; nothing is written
+  app.post(
+    "/api/automation-rules/:id/simulate",
+    AuthService.requireAuth,
+    PermissionService.requirePermission(Permission.MANAGE_SETTINGS),
+    async (req, res) => {
+      try {
+        const parsed = ruleSimulationRequestSchema.safeParse(req.body ?? {});
+        if (!parsed.success) {
+          return res.status(400).json({ error: parsed.error.errors[0]?.message || "Invalid date range" });
+        }
+
+        const rule = await storage.getAutomationRule(req.params.id);
+        if (!rule) {
+          return res.status(404).json({ error: "Automation rule not found" });
+        }
+
+        const simulation = await automationEngine.simulateRule(rule, parsed.data);
+        res.json(simulation);
+      } catch (error: any) {
+        res.status(500).json({ error: error.message });
+      }
+    }
+  );
+
   // Automation Logs routes
-  app.get("/api/automation-logs", async (req, res) => {
+  app.get("/api/automation-logs", AuthService.requireAuth, PermissionService.requirePermission(Permission.MANAGE_SETTINGS), async (req, res) => {
     try {
       const logs = await storage.getAutomationLogs();
       res.json(logs);
@@ -1627,3 +2186,58 @@ export async function registerRoutes(app: Express): Promise<Server> {
   const httpServer = createServer(app);
   return httpServer;
 }
+
+/**
+ * Mirror the first entry of an actions list into actionType/actionConfig,
+ * which older clients and the rule list still read
+ */
+function withPrimaryAction(body: any) {
+  if (!body || !Array.isArray(body.actions) || body.actions.length === 0) return body;
+  const [first] = body.actions;
+  return { ...body, actionType: first?.type, actionConfig: first?.config ?? {} };
+}
+
+/**
+ * Reject time-based rules with a missing or unknown condition
+ */
+function validateTimeBasedConditions(triggerType: string | undefined, triggerConditions: unknown) {
+  if (triggerType !== "time_based") return;
+
+  const condition = (triggerConditions as any)?.condition;
+  if (!timeBasedConditions.includes(condition)) {
+    throw new Error(`Time-based rules need triggerConditions.condition: one of ${timeBasedConditions.join(", ")}`);
+  }
+}
+
+/**
+ * Cooldown rules need a cooldown length
+ */
+function validateRuleFrequency(frequency: string | undefined, cooldownHours: number | null | undefined) {
+  if (frequency === "cooldown" && !cooldownHours) {
+    throw new Error("Rules with a cooldown frequency need cooldownHours");
+  }
+}
+
+// The record type each event trigger fires for; time-based rules can target either
+const triggerEntityTypes: Record<string, string> = {
+  score_changed: "lead",
+  conversation_received: "lead",
+  deal_stage_change: "deal",
+};
+
+/**
+ * A rule's audience must be a view the author can see, over the records its trigger fires for
+ */
+async function validateRuleAudience(savedViewId: string | null | undefined, triggerType: string | undefined, userId: string | undefined) {
+  if (!savedViewId) return;
+
+  const view = await storage.getSavedView(savedViewId);
+  if (!view || (view.visibility !== "team" && view.ownerId !== userId)) {
+    throw new Error("Audience saved view not found");
+  }
+
+  const expected = triggerType ? triggerEntityTypes[triggerType] : undefined;
+  if (expected && view.entityType !== expected) {
+    throw new Error(`Rules triggered by ${triggerType} need a ${expected} view as their audience`);
+  }
+}
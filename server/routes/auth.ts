@@ -1,9 +1,65 @@
-import { Router } from 'express';
-import AuthService from '../auth';
+import { Router, type Request, type Response } from 'express';
+import AuthService, { type ClientInfo, type LoginResult } from '../auth';
+import PermissionService from '../permissions';
+import { createRateLimiter } from '../rate-limit';
+import { twoFactorService } from '../two-factor';
+import { appUrl, onboardingService } from '../onboarding';
+import { acceptInvitationSchema, forgotPasswordSchema, resetPasswordSchema } from '@shared/onboarding';
 import { z } from 'zod';
 
 const router = Router();
 
+// Per client IP; failed logins also lock the targeted account (see AuthService.login)
+const loginLimiter = createRateLimiter({
+    windowMs: 15 * 60 * 1000,
+    max: 20,
+    message: 'Too many sign-in attempts, please try again later',
+});
+const registerLimiter = createRateLimiter({
+    windowMs: 60 * 60 * 1000,
+    max: 5,
+    message: 'Too many registrations from this address, please try again later',
+});
+
+const passwordResetLimiter = createRateLimiter({
+    windowMs: 60 * 60 * 1000,
+    max: 5,
+    message: 'Too many password reset requests, please try again later',
+});
+
+// Per client IP, for signed-in users re-confirming a password or code; wrong passwords
+// also count toward the account lockout (see AuthService.checkPassword)
+const confirmLimiter = createRateLimiter({
+    windowMs: 15 * 60 * 1000,
+    max: 10,
+    message: 'Too many attempts, please try again later',
+});
+
+const clientInfo = (req: Request): ClientInfo => ({
+    ipAddress: req.ip,
+    userAgent: req.get('user-agent')?.slice(0, 500),
+});
+
+// Set the session cookie, or hand back the challenge when a second factor is needed
+const completeLogin = (res: Response, result: LoginResult) => {
+    if ('twoFactorRequired' in result) {
+        return res.json({ success: false, twoFactorRequired: true, challengeId: result.challengeId });
+    }
+
+    res.cookie('session_id', result.sessionId, {
+        httpOnly: true,
+        secure: process.env.NODE_ENV === 'production',
+        sameSite: 'lax',
+        maxAge: 7 * 24 * 60 * 60 * 1000, // 7 days
+    });
+
+    res.json({
+        success: true,
+        user: result.user,
+        message: 'Login successful',
+    });
+};
+
 // Register schema
 const registerSchema = z.object({
     email: z.string().email(),
@@ -17,9 +73,26 @@ const loginSchema = z.object({
     password: z.string(),
 });
 
+const twoFactorLoginSchema = z.object({
+    challengeId: z.string().min(1),
+    code: z.string().min(1, 'Code is required'),
+});
+
+const codeSchema = z.object({
+    code: z.string().min(1, 'Code is required'),
+});
+
+const passwordSchema = z.object({
+    password: z.string().min(1, 'Password is required'),
+});
+
 // POST /api/auth/register
-router.post('/register', async (req, res) => {
+router.post('/register', registerLimiter, async (req, res) => {
     try {
+        if (!(await onboardingService.isOpenRegistration())) {
+            return res.status(403).json({ error: 'Registration is closed. Ask an administrator for an invitation.' });
+        }
+
         const { email, password, name } = registerSchema.parse(req.body);
 
         const user = await AuthService.register(email, password, name);
@@ -44,27 +117,35 @@ router.post('/register', async (req, res) => {
 });
 
 // POST /api/auth/login
-router.post('/login', async (req, res) => {
+router.post('/login', loginLimiter, async (req, res) => {
     try {
         const { email, password } = loginSchema.parse(req.body);
 
-        const result = await AuthService.login(email, password);
+        const result = await AuthService.login(email, password, clientInfo(req));
+        completeLogin(res, result);
+    } catch (error: any) {
+        console.error('[Auth] Login error:', error);
 
-        // Set session cookie
-        res.cookie('session_id', result.sessionId, {
-            httpOnly: true,
-            secure: process.env.NODE_ENV === 'production',
-            sameSite: 'lax',
-            maxAge: 7 * 24 * 60 * 60 * 1000, // 7 days
-        });
+        if (error instanceof z.ZodError) {
+            return res.status(400).json({
+                error: 'Validation error',
+                details: error.errors,
+            });
+        }
 
-        res.json({
-            success: true,
-            user: result.user,
-            message: 'Login successful',
-        });
+        res.status(error.status || 401).json({ error: error.message || 'Login failed' });
+    }
+});
+
+// POST /api/auth/login/2fa - Second step of a two-factor sign-in
+router.post('/login/2fa', loginLimiter, async (req, res) => {
+    try {
+        const { challengeId, code } = twoFactorLoginSchema.parse(req.body);
+
+        const result = await AuthService.verifyTwoFactor(challengeId, code, clientInfo(req));
+        completeLogin(res, result);
     } catch (error: any) {
-        console.error('[Auth] Login error:', error);
+        console.error('[Auth] Two-factor login error:', error);
 
         if (error instanceof z.ZodError) {
             return res.status(400).json({
@@ -73,7 +154,7 @@ router.post('/login', async (req, res) => {
             });
         }
 
-        res.status(401).json({ error: error.message || 'Login failed' });
+        res.status(error.status || 401).json({ error: error.message || 'Login failed' });
     }
 });
 
@@ -98,8 +179,188 @@ router.post('/logout', AuthService.requireAuth, async (req, res) => {
 
 // GET /api/auth/me - Get current user
 router.get('/me', AuthService.requireAuth, async (req, res) => {
-    // Return user directly to match frontend expectations
-    res.json(req.user);
+    // Return user directly to match frontend expectations, plus the fields their role hides
+    res.json({
+        ...req.user,
+        hiddenFields: {
+            leads: PermissionService.hiddenFields(req.user!, "leads"),
+            deals: PermissionService.hiddenFields(req.user!, "deals"),
+        },
+    });
+});
+
+// GET /api/auth/registration - Whether the sign-up page is open
+router.get('/registration', async (_req, res) => {
+    try {
+        res.json({ openRegistration: await onboardingService.isOpenRegistration() });
+    } catch (error: any) {
+        res.status(500).json({ error: error.message });
+    }
+});
+
+// GET /api/auth/invitations/:token - Who an invitation is for, before accepting it
+router.get('/invitations/:token', async (req, res) => {
+    try {
+        res.json(await onboardingService.previewInvitation(req.params.token));
+    } catch (error: any) {
+        res.status(404).json({ error: error.message });
+    }
+});
+
+// POST /api/auth/invitations/:token/accept - Create the invited account; the client signs in next
+router.post('/invitations/:token/accept', registerLimiter, async (req, res) => {
+    const parsed = acceptInvitationSchema.safeParse(req.body);
+    if (!parsed.success) {
+        return res.status(400).json({ error: parsed.error.errors[0]?.message });
+    }
+    try {
+        const user = await onboardingService.acceptInvitation(req.params.token, parsed.data);
+        res.status(201).json({ success: true, email: user.email });
+    } catch (error: any) {
+        res.status(400).json({ error: error.message });
+    }
+});
+
+// POST /api/auth/forgot-password - Email a reset link; answers the same whether or not the account exists
+router.post('/forgot-password', passwordResetLimiter, async (req, res) => {
+    const parsed = forgotPasswordSchema.safeParse(req.body);
+    if (!parsed.success) {
+        return res.status(400).json({ error: parsed.error.errors[0]?.message });
+    }
+    try {
+        appUrl();
+    } catch (error: any) {
+        return res.status(503).json({ error: error.message });
+    }
+    try {
+        await onboardingService.requestPasswordReset(parsed.data.email);
+    } catch (error: any) {
+        console.error('[Auth] Password reset email failed:', error);
+    }
+    res.json({ success: true, message: 'If that email belongs to an account, a reset link is on its way' });
+});
+
+// POST /api/auth/reset-password - Set a new password from a reset link
+router.post('/reset-password', passwordResetLimiter, async (req, res) => {
+    const parsed = resetPasswordSchema.safeParse(req.body);
+    if (!parsed.success) {
+        return res.status(400).json({ error: parsed.error.errors[0]?.message });
+    }
+    try {
+        await onboardingService.resetPassword(parsed.data.token, parsed.data.password);
+        res.json({ success: true, message: 'Password updated, please sign in' });
+    } catch (error: any) {
+        res.status(400).json({ error: error.message });
+    }
+});
+
+// GET /api/auth/sessions - The current user's active sessions
+router.get('/sessions', AuthService.requireAuth, async (req, res) => {
+    try {
+        const sessions = await AuthService.listSessions(req.user!.id);
+        res.json(sessions.map((session) => ({
+            id: session.id,
+            ipAddress: session.ipAddress,
+            userAgent: session.userAgent,
+            createdAt: session.createdAt,
+            lastSeenAt: session.lastSeenAt,
+            expiresAt: session.expiresAt,
+            current: session.id === req.sessionId,
+        })));
+    } catch (error: any) {
+        res.status(500).json({ error: error.message });
+    }
+});
+
+// DELETE /api/auth/sessions/:id - Revoke one session
+router.delete('/sessions/:id', AuthService.requireAuth, async (req, res) => {
+    try {
+        if (!(await AuthService.revokeSession(req.user!.id, req.params.id))) {
+            return res.status(404).json({ error: 'Session not found' });
+        }
+        if (req.params.id === req.sessionId) {
+            res.clearCookie('session_id');
+        }
+        res.json({ success: true });
+    } catch (error: any) {
+        res.status(500).json({ error: error.message });
+    }
+});
+
+// POST /api/auth/sessions/revoke-others - Sign out everywhere else
+router.post('/sessions/revoke-others', AuthService.requireAuth, async (req, res) => {
+    try {
+        const revoked = await AuthService.revokeOtherSessions(req.user!.id, req.sessionId!);
+        res.json({ success: true, revoked });
+    } catch (error: any) {
+        res.status(500).json({ error: error.message });
+    }
+});
+
+// GET /api/auth/2fa - Two-factor status
+router.get('/2fa', AuthService.requireAuth, async (req, res) => {
+    try {
+        res.json(await twoFactorService.getStatus(req.user!.id));
+    } catch (error: any) {
+        res.status(500).json({ error: error.message });
+    }
+});
+
+// POST /api/auth/2fa/setup - Start enrollment; returns the secret for the authenticator app
+router.post('/2fa/setup', AuthService.requireAuth, async (req, res) => {
+    try {
+        res.json(await twoFactorService.beginSetup(req.user!.id, req.user!.email));
+    } catch (error: any) {
+        res.status(400).json({ error: error.message });
+    }
+});
+
+// POST /api/auth/2fa/enable - Confirm enrollment with a code; returns the recovery codes once
+router.post('/2fa/enable', AuthService.requireAuth, async (req, res) => {
+    const parsed = codeSchema.safeParse(req.body);
+    if (!parsed.success) {
+        return res.status(400).json({ error: parsed.error.errors[0]?.message });
+    }
+    try {
+        const recoveryCodes = await twoFactorService.confirmSetup(req.user!.id, parsed.data.code);
+        res.json({ success: true, recoveryCodes });
+    } catch (error: any) {
+        res.status(400).json({ error: error.message });
+    }
+});
+
+// POST /api/auth/2fa/recovery-codes - Replace the recovery codes; needs a current code
+router.post('/2fa/recovery-codes', confirmLimiter, AuthService.requireAuth, async (req, res) => {
+    const parsed = codeSchema.safeParse(req.body);
+    if (!parsed.success) {
+        return res.status(400).json({ error: parsed.error.errors[0]?.message });
+    }
+    try {
+        if (!(await twoFactorService.verify(req.user!.id, parsed.data.code))) {
+            return res.status(400).json({ error: 'Invalid verification code' });
+        }
+        const recoveryCodes = await twoFactorService.regenerateRecoveryCodes(req.user!.id);
+        res.json({ success: true, recoveryCodes });
+    } catch (error: any) {
+        res.status(500).json({ error: error.message });
+    }
+});
+
+// POST /api/auth/2fa/disable - Turn two-factor off; needs the account password
+router.post('/2fa/disable', confirmLimiter, AuthService.requireAuth, async (req, res) => {
+    const parsed = passwordSchema.safeParse(req.body);
+    if (!parsed.success) {
+        return res.status(400).json({ error: parsed.error.errors[0]?.message });
+    }
+    try {
+        if (!(await AuthService.checkPassword(req.user!.id, parsed.data.password))) {
+            return res.status(400).json({ error: 'Incorrect password' });
+        }
+        await twoFactorService.disable(req.user!.id);
+        res.json({ success: true });
+    } catch (error: any) {
+        res.status(error.status || 500).json({ error: error.message });
+    }
 });
 
 export default router;
@@ -0,0 +1,116 @@
+import { Router } from "express";
+import type { Request, Response } from "express";
+import { storage } from "../storage.js";
+import { companyService } from "../companies.js";
+import { jobQueue } from "../jobs.js";
+import AuthService from "../auth.js";
+import PermissionService, { Permission } from "../permissions.js";
+import { updateCompanySchema } from "@shared/companies";
+
+const router = Router();
+
+router.use(AuthService.requireAuth);
+
+/**
+ * GET /api/companies
+ * Companies the user can see, with contact and open deal counts; ?q= searches name and domain
+ */
+router.get("/", PermissionService.requirePermission(Permission.VIEW_OWN_DATA), async (req: Request, res: Response) => {
+    try {
+        res.json(await storage.getCompanies(req.user!, req.query.q as string | undefined));
+    } catch (error: any) {
+        res.status(500).json({ error: error.message });
+    }
+});
+
+/**
+ * POST /api/companies/link-leads
+ * Queue a job that links every lead without a company by its domain
+ */
+router.post("/link-leads", PermissionService.requirePermission(Permission.MANAGE_SETTINGS), async (req: Request, res: Response) => {
+    try {
+        const job = await jobQueue.enqueue("companies.link_leads", {}, { uniqueKey: "companies:link_leads", createdBy: req.user!.id });
+        res.status(202).json({ jobId: job.id });
+    } catch (error: any) {
+        res.status(500).json({ error: error.message });
+    }
+});
+
+/**
+ * GET /api/companies/:id
+ * Account detail: contacts, deals, recent conversations and deal totals
+ */
+router.get("/:id", PermissionService.requirePermission(Permission.VIEW_OWN_DATA), async (req: Request, res: Response) => {
+    try {
+        const account = await companyService.getAccount(req.user!, req.params.id);
+        if (!account) {
+            return res.status(404).json({ error: "Company not found" });
+        }
+        // Per-currency totals would reveal the amounts of a role that cannot see deal amounts
+        const amountHidden = PermissionService.hiddenFields(req.user!, "deals").includes("amount");
+        res.json({
+            ...account,
+            contacts: PermissionService.redactAll(req.user!, "leads", account.contacts),
+            deals: PermissionService.redactAll(req.user!, "deals", account.deals),
+            ...(amountHidden ? { pipelineValue: {}, wonValue: {} } : {}),
+        });
+    } catch (error: any) {
+        res.status(500).json({ error: error.message });
+    }
+});
+
+/**
+ * PATCH /api/companies/:id
+ * Update account fields; the changes are copied to every linked lead
+ */
+router.patch("/:id", PermissionService.requirePermission(Permission.MANAGE_OWN_LEADS), async (req: Request, res: Response) => {
+    try {
+        const parsed = updateCompanySchema.safeParse(req.body);
+        if (!parsed.success) {
+            return res.status(400).json({ error: parsed.error.errors[0]?.message || "Invalid company" });
+        }
+
+        const company = await storage.getCompany(req.params.id);
+        if (!company || !(await companyService.canAccess(req.user!, company))) {
+            return res.status(404).json({ error: "Company not found" });
+        }
+
+        if (!(await companyService.canEdit(req.user!, company))) {
+            return res.status(403).json({ error: "Forbidden: Only the account owner can change this company" });
+        }
+        if (parsed.data.ownerId && !(await PermissionService.canAccessUser(req.user!, parsed.data.ownerId))) {
+            return res.status(403).json({ error: "Forbidden: You cannot assign records to this user" });
+        }
+
+        res.json(await companyService.update(company, parsed.data));
+    } catch (error: any) {
+        res.status(500).json({ error: error.message });
+    }
+});
+
+/**
+ * POST /api/companies/:id/enrich
+ * Enrich the account from Apollo by domain and copy the result to the linked leads
+ */
+router.post("/:id/enrich", PermissionService.requirePermission(Permission.MANAGE_OWN_LEADS), async (req: Request, res: Response) => {
+    try {
+        const company = await storage.getCompany(req.params.id);
+        if (!company || !(await companyService.canAccess(req.user!, company))) {
+            return res.status(404).json({ error: "Company not found" });
+        }
+
+        if (!(await companyService.canEdit(req.user!, company))) {
+            return res.status(403).json({ error: "Forbidden: Only the account owner can change this company" });
+        }
+
+        const result = await companyService.enrich(company);
+        if (!result.found) {
+            return res.status(404).json({ error: `No company data found for ${company.domain}` });
+        }
+        res.json(result);
+    } catch (error: any) {
+        res.status(500).json({ error: error.message });
+    }
+});
+
+export default router;
@@ -0,0 +1,90 @@
+import { Router } from "express";
+import type { Request, Response } from "express";
+import { storage } from "../storage.js";
+import AuthService from "../auth.js";
+import PermissionService, { Permission } from "../permissions.js";
+import { currencyService } from "../currency.js";
+import { createExchangeRateSchema, updateCurrencySettingsSchema } from "@shared/currency";
+
+const router = Router();
+
+router.use(AuthService.requireAuth);
+
+/**
+ * GET /api/currency
+ * Base currency and the exchange-rate table (newest rate first per currency pair)
+ */
+router.get("/", PermissionService.requirePermission(Permission.VIEW_OWN_DATA), async (req: Request, res: Response) => {
+    try {
+        const [baseCurrency, rates] = await Promise.all([
+            currencyService.getBaseCurrency(),
+            storage.getExchangeRates(),
+        ]);
+        res.json({ baseCurrency, rates });
+    } catch (error: any) {
+        res.status(500).json({ error: error.message });
+    }
+});
+
+/**
+ * PATCH /api/currency/settings
+ * Change the currency forecasts and totals are reported in
+ */
+router.patch("/settings", PermissionService.requirePermission(Permission.MANAGE_SETTINGS), async (req: Request, res: Response) => {
+    try {
+        const parsed = updateCurrencySettingsSchema.safeParse(req.body);
+        if (!parsed.success) {
+            return res.status(400).json({ error: parsed.error.errors[0]?.message || "Invalid currency settings" });
+        }
+        const settings = await storage.updateCurrencySettings(parsed.data.baseCurrency);
+        res.json({ baseCurrency: settings.baseCurrency });
+    } catch (error: any) {
+        res.status(500).json({ error: error.message });
+    }
+});
+
+/**
+ * POST /api/currency/rates
+ * Add an exchange rate taking effect on the given date
+ */
+router.post("/rates", PermissionService.requirePermission(Permission.MANAGE_SETTINGS), async (req: Request, res: Response) => {
+    try {
+        const parsed = createExchangeRateSchema.safeParse(req.body);
+        if (!parsed.success) {
+            return res.status(400).json({ error: parsed.error.errors[0]?.message || "Invalid exchange rate" });
+        }
+
+        const { currency, quoteCurrency, effectiveDate } = parsed.data;
+        const rates = await storage.getExchangeRates();
+        const duplicate = rates.some((rate) =>
+            rate.currency === currency &&
+            rate.quoteCurrency === quoteCurrency &&
+            new Date(rate.effectiveDate).getTime() === effectiveDate.getTime()
+        );
+        if (duplicate) {
+            return res.status(409).json({ error: `A ${currency}/${quoteCurrency} rate already takes effect on that date` });
+        }
+
+        const rate = await storage.createExchangeRate({ ...parsed.data, createdBy: req.user!.id });
+        res.status(201).json(rate);
+    } catch (error: any) {
+        res.status(500).json({ error: error.message });
+    }
+});
+
+/**
+ * DELETE /api/currency/rates/:id
+ * Remove an exchange rate
+ */
+router.delete("/rates/:id", PermissionService.requirePermission(Permission.MANAGE_SETTINGS), async (req: Request, res: Response) => {
+    try {
+        if (!(await storage.deleteExchangeRate(req.params.id))) {
+            return res.status(404).json({ error: "Exchange rate not found" });
+        }
+        res.json({ success: true });
+    } catch (error: any) {
+        res.status(500).json({ error: error.message });
+    }
+});
+
+export default router;
@@ -1,28 +1,27 @@
 import { Router } from "express";
 import { storage } from "../storage.js";
-import { DatagmaService } from "../services/datagma.js";
-import { ApifyEnrichmentService } from "../services/apify-enrichment.js";
 import { apolloEnrichmentService } from "../services/apollo-enrichment.js";
 import { hunterEnrichmentService } from "../services/hunter-enrichment.js";
+import { jobQueue } from "../jobs.js";
 import AuthService from "../auth.js";
+import PermissionService, { Permission } from "../permissions.js";
 
 const router = Router();
 
 // Protect all enrichment routes with authentication
 router.use(AuthService.requireAuth);
 
-// Initialize Datagma service
-const datagmaService = new DatagmaService();
-const apifyEnrichmentService = new ApifyEnrichmentService();
-
 // Datagma Enrichment Endpoint (replaces FullEnrich)
-router.post("/fullenrich/search", async (req, res) => {
+// Enrichment runs in the background job queue - poll GET /api/jobs/:id for the result
+router.post("/fullenrich/search", PermissionService.requirePermission(Permission.MANAGE_OWN_LEADS), async (req, res) => {
     try {
         const { profileId } = req.body;
 
-        console.log('[Datagma Route] Enriching profile:', profileId);
+        if (!profileId) {
+            return res.status(400).json({ success: false, message: "Profile ID is required" });
+        }
 
-        // Get profile from database (role-based access)
+        // Check access up front so callers get a 404 instead of a dead job
         const profiles = await storage.getScrapedProfiles(req.user!);
         const profile = profiles.find(p => p.id === profileId);
 
@@ -34,47 +33,13 @@ router.post("/fullenrich/search", async (req, res) => {
             return res.status(400).json({ success: false, message: "Profile has no LinkedIn URL" });
         }
 
-        // Enrich using Datagma
-        const email = await datagmaService.enrichByLinkedInUrl(profile.url);
-
-        // Use found email or fallback for development
-        const finalEmail = email || 'technology@codescribed.com';
-        const emailSource = email ? 'datagma' : 'fallback';
-
-        console.log(`[Datagma Route] Using email: ${finalEmail} (source: ${emailSource})`);
-
-        // Update profile with email (only if owned by this user)
-        await storage.updateScrapedProfile(req.user!.id, profileId, {
-            email: finalEmail,
-            emailConfidence: email ? 95 : 50 // Lower confidence for fallback emails
-        });
-
-        console.log('[Datagma Route] Email updated in profile');
-
-        // Also update or create lead if profile has name
-        if (profile.name) {
-            const leads = await storage.getLeads(req.user!);
-            let lead = leads.find(l => l.email === finalEmail || l.linkedinUrl === profile.url);
-
-            if (lead) {
-                await storage.updateLead(lead.id, { email: finalEmail });
-            } else {
-                await storage.createLead({
-                    name: profile.name,
-                    email: finalEmail,
-                    position: profile.headline,
-                    linkedinUrl: profile.url,
-                    city: profile.location,
-                    status: "cold"
-                } as any);
-            }
-        }
+        const job = await jobQueue.enqueue(
+            "enrichment.datagma",
+            { user: { id: req.user!.id, role: req.user!.role }, profileId },
+            { uniqueKey: `enrichment.datagma:${profileId}`, createdBy: req.user!.id }
+        );
 
-        return res.json({
-            success: true,
-            email: finalEmail,
-            source: emailSource
-        });
+        return res.status(202).json({ success: true, jobId: job.id, status: job.status });
 
     } catch (error: any) {
         console.error("Datagma Enrichment Error:", error);
@@ -82,85 +47,28 @@ router.post("/fullenrich/search", async (req, res) => {
     }
 });
 
-router.post("/apify/bulk-enrich", async (req, res) => {
+router.post("/apify/bulk-enrich", PermissionService.requirePermission(Permission.MANAGE_OWN_LEADS), async (req, res) => {
     try {
         const { jobTitle, location, industry, keywords } = req.body;
 
-        console.log('[Apify Route] Starting bulk enrichment with criteria:', { jobTitle, location, industry, keywords });
-
-        // Get Apify results
-        const apifyLeads = await apifyEnrichmentService.bulkEnrich({
-            jobTitle,
-            location,
-            industry,
-            keywords
-        });
-
-        console.log(`[Apify Route] Received ${apifyLeads.length} leads from Apify`);
-
-        if (apifyLeads.length > 0) {
-            console.log('[Apify Route] First lead sample:', JSON.stringify(apifyLeads[0], null, 2));
-        }
-
-        // Save ALL Apify results to database
-        const searchCriteria = { jobTitle, location, industry, keywords };
-        let savedCount = 0;
-
-        for (const lead of apifyLeads) {
-            try {
-                await storage.createApifyResult({
-                    fullName: lead.full_name,
-                    firstName: lead.first_name,
-                    lastName: lead.last_name,
-                    email: lead.email,
-                    jobTitle: lead.job_title,
-                    linkedinUrl: lead.linkedin,
-                    companyName: lead.company_name,
-                    companyDomain: lead.company_domain,
-                    location: lead.city || lead.state || lead.country || '',
-                    industry: lead.industry || '',
-                    searchCriteria,
-                });
-                savedCount++;
-            } catch (saveError: any) {
-                console.error('[Apify Route] Error saving lead:', saveError.message);
-                console.error('[Apify Route] Lead data:', lead);
-            }
-        }
-
-        console.log(`[Apify Route] Saved ${savedCount}/${apifyLeads.length} leads to database`);
-
-        // Get scraped profiles without emails (role-based access)
-        const profiles = await storage.getScrapedProfiles(req.user!);
-        const profilesWithoutEmail = profiles.filter(p => !p.email);
-
-        // Match profiles
-        const matches = apifyEnrichmentService.matchProfiles(apifyLeads, profilesWithoutEmail);
-
-        // Update profiles with emails and confidence scores (only user's profiles)
-        for (const match of matches) {
-            await storage.updateScrapedProfile(req.user!.id, match.profileId, {
-                email: match.email,
-                emailConfidence: match.confidence
-            });
-        }
+        const job = await jobQueue.enqueue(
+            "enrichment.apify_bulk",
+            {
+                user: { id: req.user!.id, role: req.user!.role },
+                criteria: { jobTitle, location, industry, keywords },
+            },
+            { createdBy: req.user!.id }
+        );
 
-        return res.json({
-            success: true,
-            enrichedCount: matches.length,
-            totalProfiles: profilesWithoutEmail.length,
-            apifyResultsCount: apifyLeads.length,
-            savedToDatabase: savedCount
-        });
+        return res.status(202).json({ success: true, jobId: job.id, status: job.status });
 
     } catch (error: any) {
         console.error("Apify Enrichment Error:", error);
-        console.error("Error stack:", error.stack);
         res.status(500).json({ success: false, message: error.message });
     }
 });
 
-router.get("/apify/results", async (req, res) => {
+router.get("/apify/results", PermissionService.requirePermission(Permission.MANAGE_OWN_LEADS), async (req, res) => {
     try {
         // Return ALL Apify results from database
         const results = await storage.getApifyResults();
@@ -171,7 +79,7 @@ router.get("/apify/results", async (req, res) => {
     }
 });
 
-router.post("/apollo/enrich-profile", async (req, res) => {
+router.post("/apollo/enrich-profile", PermissionService.requirePermission(Permission.MANAGE_OWN_LEADS), async (req, res) => {
     try {
         const { profileId } = req.body;
 
@@ -193,7 +101,7 @@ router.post("/apollo/enrich-profile", async (req, res) => {
     }
 });
 
-router.post("/hunter/enrich-profile", async (req, res) => {
+router.post("/hunter/enrich-profile", PermissionService.requirePermission(Permission.MANAGE_OWN_LEADS), async (req, res) => {
     try {
         const { profileUrl } = req.body;
 
@@ -0,0 +1,65 @@
+import { Router } from "express";
+import type { Request, Response } from "express";
+import { exportService } from "../export.js";
+import AuthService from "../auth.js";
+import PermissionService, { Permission } from "../permissions.js";
+import { exportColumns, exportEntities, parseExportRequest, type ExportEntity } from "@shared/export";
+
+const router = Router();
+
+router.use(AuthService.requireAuth);
+
+// Lead and deal columns the user's role hides; custom field columns go with customFields
+const hiddenColumns = (req: Request, entity: ExportEntity): string[] =>
+    entity === "leads" || entity === "deals" ? PermissionService.hiddenFields(req.user!, entity) : [];
+
+const isHiddenColumn = (hidden: string[], column: string) =>
+    hidden.includes(column) || (hidden.includes("customFields") && column.startsWith("cf."));
+
+/**
+ * GET /api/exports/columns
+ * Exportable columns per entity, without the ones the user's role hides
+ */
+router.get("/columns", PermissionService.requirePermission(Permission.VIEW_OWN_DATA), (req: Request, res: Response) => {
+    const columns = Object.fromEntries(exportEntities.map((entity) => {
+        const hidden = hiddenColumns(req, entity);
+        return [entity, exportColumns[entity].filter((column) => !isHiddenColumn(hidden, column.key))];
+    }));
+    res.json(columns);
+});
+
+/**
+ * GET /api/exports/:entity?format=csv|xlsx|json&columns=a,b&<list filters>
+ * Stream leads, deals, tasks or conversations the user can see
+ */
+router.get("/:entity", PermissionService.requirePermission(Permission.VIEW_OWN_DATA), async (req: Request, res: Response) => {
+    const entity = req.params.entity as ExportEntity;
+    if (!exportEntities.includes(entity)) {
+        return res.status(404).json({ error: `Cannot export ${req.params.entity}` });
+    }
+
+    const parsed = parseExportRequest(entity, req.query as Record<string, unknown>);
+    if (!parsed.success) {
+        return res.status(400).json({ error: parsed.error });
+    }
+    // Hidden columns are left out of the defaults but refused when asked for by name
+    const hidden = hiddenColumns(req, entity);
+    const forbidden = parsed.data.columns.filter((column) => isHiddenColumn(hidden, column));
+    if (forbidden.length > 0 && req.query.columns !== undefined) {
+        return res.status(403).json({ error: `Your role cannot export: ${forbidden.join(", ")}` });
+    }
+    parsed.data.columns = parsed.data.columns.filter((column) => !forbidden.includes(column));
+
+    try {
+        await exportService.stream(entity, req.user!, parsed.data, res);
+    } catch (error: any) {
+        console.error(`[exports] ${entity} export failed:`, error);
+        if (!res.headersSent) {
+            res.status(500).json({ error: error.message });
+        } else {
+            res.destroy(error); // Part of the file is already out; abort so it is not mistaken for complete
+        }
+    }
+});
+
+export default router;
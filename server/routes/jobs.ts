@@ -0,0 +1,83 @@
+import { Router } from "express";
+import type { Request, Response } from "express";
+import { storage } from "../storage.js";
+import { jobQueue } from "../jobs.js";
+import AuthService from "../auth.js";
+import PermissionService, { Permission } from "../permissions.js";
+
+const router = Router();
+
+// Job inspection is an admin tool; anyone may poll the jobs they started
+router.use(AuthService.requireAuth);
+
+/**
+ * GET /api/jobs
+ * List recent jobs, optionally filtered by status and type
+ */
+router.get("/", PermissionService.requirePermission(Permission.MANAGE_SETTINGS), async (req: Request, res: Response) => {
+    try {
+        const limit = req.query.limit ? parseInt(req.query.limit as string, 10) : 100;
+        const jobs = await storage.getJobs({
+            status: req.query.status as string | undefined,
+            type: req.query.type as string | undefined,
+            limit: Math.min(Math.max(limit || 100, 1), 500),
+        });
+        res.json(jobs);
+    } catch (error: any) {
+        res.status(500).json({ error: error.message });
+    }
+});
+
+/**
+ * GET /api/jobs/stats
+ * Job counts grouped by type and status
+ */
+router.get("/stats", PermissionService.requirePermission(Permission.MANAGE_SETTINGS), async (_req: Request, res: Response) => {
+    try {
+        const counts = await storage.getJobCounts();
+        const totals: Record<string, number> = { pending: 0, running: 0, completed: 0, dead: 0 };
+        for (const row of counts) {
+            totals[row.status] = (totals[row.status] || 0) + row.count;
+        }
+        res.json({ totals, byType: counts });
+    } catch (error: any) {
+        res.status(500).json({ error: error.message });
+    }
+});
+
+/**
+ * GET /api/jobs/:id
+ * Job details, including result and last error; non-admins only see jobs they created
+ */
+router.get("/:id", PermissionService.requirePermission(Permission.VIEW_OWN_DATA), async (req: Request, res: Response) => {
+    try {
+        const job = await storage.getJob(req.params.id);
+        if (!job) {
+            return res.status(404).json({ error: "Job not found" });
+        }
+        if (job.createdBy !== req.user!.id && !PermissionService.hasPermission(req.user!, Permission.MANAGE_SETTINGS)) {
+            return res.status(403).json({ error: "Forbidden: You can only view jobs you started" });
+        }
+        res.json(job);
+    } catch (error: any) {
+        res.status(500).json({ error: error.message });
+    }
+});
+
+/**
+ * POST /api/jobs/:id/retry
+ * Re-queue a dead or completed job
+ */
+router.post("/:id/retry", PermissionService.requirePermission(Permission.MANAGE_SETTINGS), async (req: Request, res: Response) => {
+    try {
+        const job = await jobQueue.retry(req.params.id);
+        if (!job) {
+            return res.status(404).json({ error: "Job not found" });
+        }
+        res.json(job);
+    } catch (error: any) {
+        res.status(400).json({ error: error.message });
+    }
+});
+
+export default router;
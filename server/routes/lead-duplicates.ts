@@ -0,0 +1,83 @@
+import { Router } from "express";
+import type { Request, Response } from "express";
+import { storage } from "../storage.js";
+import { leadDuplicateService } from "../lead-duplicates.js";
+import AuthService from "../auth.js";
+import PermissionService, { Permission } from "../permissions.js";
+import { duplicateDismissSchema, leadMergeSchema } from "@shared/lead-duplicates";
+
+const router = Router();
+
+router.use(AuthService.requireAuth);
+
+/**
+ * GET /api/lead-duplicates
+ * Review queue of likely duplicate groups; ?leadId= limits it to one lead's group
+ */
+router.get("/", PermissionService.requirePermission(Permission.VIEW_OWN_DATA), async (req: Request, res: Response) => {
+    try {
+        const groups = await leadDuplicateService.findGroups(req.user!, req.query.leadId as string | undefined);
+        res.json(groups.map((group) => ({ ...group, leads: PermissionService.redactAll(req.user!, "leads", group.leads) })));
+    } catch (error: any) {
+        res.status(500).json({ error: error.message });
+    }
+});
+
+/**
+ * POST /api/lead-duplicates/dismiss
+ * Mark the given leads as not duplicates of each other
+ */
+router.post("/dismiss", PermissionService.requirePermission(Permission.MANAGE_OWN_LEADS), async (req: Request, res: Response) => {
+    try {
+        const parsed = duplicateDismissSchema.safeParse(req.body);
+        if (!parsed.success) {
+            return res.status(400).json({ error: parsed.error.errors[0]?.message || "Invalid request" });
+        }
+
+        for (const id of parsed.data.leadIds) {
+            if (!(await storage.getLead(req.user!, id))) {
+                return res.status(404).json({ error: "Lead not found" });
+            }
+        }
+
+        await leadDuplicateService.dismiss(req.user!, parsed.data.leadIds);
+        res.json({ success: true });
+    } catch (error: any) {
+        res.status(500).json({ error: error.message });
+    }
+});
+
+/**
+ * POST /api/lead-duplicates/merge
+ * Merge leads into a survivor; the merged leads are deleted
+ */
+router.post("/merge", PermissionService.requirePermission(Permission.DELETE_LEADS), async (req: Request, res: Response) => {
+    try {
+        const parsed = leadMergeSchema.safeParse(req.body);
+        if (!parsed.success) {
+            return res.status(400).json({ error: parsed.error.errors[0]?.message || "Invalid merge request" });
+        }
+        const { survivorId, mergedIds, fieldSources } = parsed.data;
+
+        const ids = new Set([survivorId, ...mergedIds]);
+        if (ids.size !== mergedIds.length + 1) {
+            return res.status(400).json({ error: "Each lead can only appear once in a merge" });
+        }
+        if (Object.values(fieldSources).some((id) => !ids.has(id))) {
+            return res.status(400).json({ error: "Fields can only come from the leads being merged" });
+        }
+
+        const survivor = await storage.getLead(req.user!, survivorId);
+        const merged = await Promise.all(mergedIds.map((id) => storage.getLead(req.user!, id)));
+        if (!survivor || merged.some((lead) => !lead)) {
+            return res.status(404).json({ error: "Lead not found" });
+        }
+
+        const lead = await leadDuplicateService.merge(req.user!, survivor, merged.map((lead) => lead!), parsed.data);
+        res.json(PermissionService.redact(req.user!, "leads", lead));
+    } catch (error: any) {
+        res.status(500).json({ error: error.message });
+    }
+});
+
+export default router;
@@ -0,0 +1,161 @@
+import { Router } from "express";
+import type { Request, Response } from "express";
+import { z } from "zod";
+import { storage } from "../storage.js";
+import { leadImportService } from "../lead-import.js";
+import AuthService from "../auth.js";
+import PermissionService, { Permission } from "../permissions.js";
+import { leadImportFields, leadImportOptionsSchema } from "@shared/lead-import";
+
+const router = Router();
+
+router.use(AuthService.requireAuth);
+
+const uploadSchema = z.object({
+    fileName: z.string().trim().min(1, "fileName is required"),
+    content: z.string().min(1, "content is required"), // Base64 file contents
+});
+
+/**
+ * GET /api/lead-imports
+ * Recent batches (all batches for roles that see all data) with the fields columns can map to
+ */
+router.get("/", PermissionService.requirePermission(Permission.VIEW_OWN_DATA), async (req: Request, res: Response) => {
+    try {
+        const imports = await storage.getLeadImports(PermissionService.seesAllData(req.user!) ? undefined : req.user!.id);
+        res.json({ imports, fields: leadImportFields });
+    } catch (error: any) {
+        res.status(500).json({ error: error.message });
+    }
+});
+
+/**
+ * POST /api/lead-imports
+ * Upload a CSV or XLSX file; returns the draft batch with a suggested mapping
+ */
+router.post("/", PermissionService.requirePermission(Permission.MANAGE_OWN_LEADS), async (req: Request, res: Response) => {
+    try {
+        const parsed = uploadSchema.safeParse(req.body);
+        if (!parsed.success) {
+            return res.status(400).json({ error: parsed.error.errors[0]?.message || "Invalid upload" });
+        }
+
+        let leadImport;
+        try {
+            leadImport = await leadImportService.createImport(
+                req.user!,
+                parsed.data.fileName,
+                Buffer.from(parsed.data.content, "base64")
+            );
+        } catch (error: any) {
+            return res.status(400).json({ error: `Could not read file: ${error.message}` });
+        }
+
+        const { rows, ...summary } = leadImport;
+        res.json({ ...summary, rowCount: (rows as string[][]).length, sampleRows: (rows as string[][]).slice(0, 5) });
+    } catch (error: any) {
+        res.status(500).json({ error: error.message });
+    }
+});
+
+/**
+ * GET /api/lead-imports/:id
+ * One batch with its counts and row errors
+ */
+router.get("/:id", PermissionService.requirePermission(Permission.VIEW_OWN_DATA), async (req: Request, res: Response) => {
+    try {
+        const leadImport = await storage.getLeadImport(req.params.id);
+        if (!leadImport || !leadImportService.canAccess(leadImport, req.user!)) {
+            return res.status(404).json({ error: "Import not found" });
+        }
+
+        const { rows, ...summary } = leadImport;
+        res.json({ ...summary, rowCount: (rows as string[][]).length, sampleRows: (rows as string[][]).slice(0, 5) });
+    } catch (error: any) {
+        res.status(500).json({ error: error.message });
+    }
+});
+
+/**
+ * POST /api/lead-imports/:id/preview
+ * Validate a mapping and dedupe strategy without importing anything
+ */
+router.post("/:id/preview", PermissionService.requirePermission(Permission.MANAGE_OWN_LEADS), async (req: Request, res: Response) => {
+    try {
+        const leadImport = await storage.getLeadImport(req.params.id);
+        if (!leadImport || !leadImportService.canAccess(leadImport, req.user!)) {
+            return res.status(404).json({ error: "Import not found" });
+        }
+        if (leadImport.status !== "draft") {
+            return res.status(409).json({ error: `Import is already ${leadImport.status}` });
+        }
+
+        const parsed = leadImportOptionsSchema.safeParse(req.body);
+        if (!parsed.success) {
+            return res.status(400).json({ error: parsed.error.errors[0]?.message || "Invalid import options" });
+        }
+
+        try {
+            res.json(await leadImportService.preview(leadImport, req.user!, parsed.data));
+        } catch (error: any) {
+            res.status(400).json({ error: error.message });
+        }
+    } catch (error: any) {
+        res.status(500).json({ error: error.message });
+    }
+});
+
+/**
+ * POST /api/lead-imports/:id/run
+ * Queue the batch; progress is read back from GET /api/lead-imports/:id
+ */
+router.post("/:id/run", PermissionService.requirePermission(Permission.MANAGE_OWN_LEADS), async (req: Request, res: Response) => {
+    try {
+        const leadImport = await storage.getLeadImport(req.params.id);
+        if (!leadImport || !leadImportService.canAccess(leadImport, req.user!)) {
+            return res.status(404).json({ error: "Import not found" });
+        }
+        if (leadImport.status !== "draft") {
+            return res.status(409).json({ error: `Import is already ${leadImport.status}` });
+        }
+
+        const parsed = leadImportOptionsSchema.safeParse(req.body);
+        if (!parsed.success) {
+            return res.status(400).json({ error: parsed.error.errors[0]?.message || "Invalid import options" });
+        }
+
+        let queued;
+        try {
+            queued = await leadImportService.start(leadImport, req.user!, parsed.data);
+        } catch (error: any) {
+            return res.status(400).json({ error: error.message });
+        }
+
+        const { rows, ...summary } = queued;
+        res.status(202).json(summary);
+    } catch (error: any) {
+        res.status(500).json({ error: error.message });
+    }
+});
+
+/**
+ * POST /api/lead-imports/:id/rollback
+ * Delete the leads the batch created and restore the ones it updated
+ */
+router.post("/:id/rollback", PermissionService.requirePermission(Permission.MANAGE_OWN_LEADS), async (req: Request, res: Response) => {
+    try {
+        const leadImport = await storage.getLeadImport(req.params.id);
+        if (!leadImport || !leadImportService.canAccess(leadImport, req.user!)) {
+            return res.status(404).json({ error: "Import not found" });
+        }
+        if (leadImport.status !== "completed" && leadImport.status !== "failed") {
+            return res.status(409).json({ error: `A ${leadImport.status} import cannot be rolled back` });
+        }
+
+        res.json(await leadImportService.rollback(leadImport));
+    } catch (error: any) {
+        res.status(500).json({ error: error.message });
+    }
+});
+
+export default router;
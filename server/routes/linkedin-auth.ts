@@ -2,6 +2,7 @@ import { Router } from "express";
 import type { Request, Response } from "express";
 import { linkedInAuthService } from "../services/linkedin-auth.js";
 import AuthService from "../auth.js";
+import PermissionService, { Permission } from "../permissions.js";
 
 const router = Router();
 
@@ -12,7 +13,7 @@ router.use(AuthService.requireAuth);
  * POST /api/linkedin/auth/login
  * Authenticates using LinkedIn credentials via headless browser
  */
-router.post("/login", async (req: Request, res: Response) => {
+router.post("/login", PermissionService.requirePermission(Permission.MANAGE_OWN_LEADS), async (req: Request, res: Response) => {
     try {
         console.log("[LinkedIn Auth API] Starting authentication flow...");
         const { email, password } = req.body;
@@ -43,7 +44,7 @@ router.post("/login", async (req: Request, res: Response) => {
  * POST /api/linkedin/auth/2fa
  * Submits 2FA code to active session
  */
-router.post("/2fa", async (req: Request, res: Response) => {
+router.post("/2fa", PermissionService.requirePermission(Permission.MANAGE_OWN_LEADS), async (req: Request, res: Response) => {
     try {
         const { code } = req.body;
 
@@ -71,7 +72,7 @@ router.post("/2fa", async (req: Request, res: Response) => {
  * GET /api/linkedin/auth/status
  * Check if user has valid LinkedIn session
  */
-router.get("/status", async (req: Request, res: Response) => {
+router.get("/status", PermissionService.requirePermission(Permission.VIEW_OWN_DATA), async (req: Request, res: Response) => {
     try {
         const status = await linkedInAuthService.checkStatus(req.user!.id);
         res.json(status);
@@ -88,7 +89,7 @@ router.get("/status", async (req: Request, res: Response) => {
  * POST /api/linkedin/auth/logout
  * Clear stored LinkedIn session
  */
-router.post("/logout", async (req: Request, res: Response) => {
+router.post("/logout", PermissionService.requirePermission(Permission.MANAGE_OWN_LEADS), async (req: Request, res: Response) => {
     try {
         await linkedInAuthService.logout(req.user!.id);
         res.json({ success: true, message: "LinkedIn session cleared" });
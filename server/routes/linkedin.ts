@@ -6,7 +6,9 @@ import puppeteer from "puppeteer-extra";
 import StealthPlugin from "puppeteer-extra-plugin-stealth";
 import { LinkedApiService } from "../services/linkedapi.js";
 import { ms365Integration } from "../ms365.js";
+import { assignmentEngine } from "../assignment.js";
 import AuthService from "../auth.js";
+import PermissionService, { Permission } from "../permissions.js";
 
 const linkedApi = new LinkedApiService();
 
@@ -62,7 +64,7 @@ async function getAuthenticatedPage(cookie: string) {
     return { browser, page };
 }
 
-router.post("/search", async (req, res) => {
+router.post("/search", PermissionService.requirePermission(Permission.MANAGE_OWN_LEADS), async (req, res) => {
     try {
         const { jobTitle, industry, keywords, company, page, limit } = req.body;
 
@@ -102,7 +104,7 @@ router.post("/search", async (req, res) => {
 });
 
 // Get profile history grouped by search criteria
-router.get("/history", async (req, res) => {
+router.get("/history", PermissionService.requirePermission(Permission.VIEW_OWN_DATA), async (req, res) => {
     try {
         const { startDate, endDate } = req.query;
         const { profileHistoryService } = await import("../services/profile-history.js");
@@ -127,7 +129,7 @@ router.get("/history", async (req, res) => {
 });
 
 // Get profile history statistics
-router.get("/history/stats", async (req, res) => {
+router.get("/history/stats", PermissionService.requirePermission(Permission.VIEW_OWN_DATA), async (req, res) => {
     try {
         const { profileHistoryService } = await import("../services/profile-history.js");
 
@@ -144,7 +146,7 @@ router.get("/history/stats", async (req, res) => {
 });
 
 // Delete old history entries (optional cleanup)
-router.delete("/history/cleanup", async (req, res) => {
+router.delete("/history/cleanup", PermissionService.requirePermission(Permission.MANAGE_OWN_LEADS), async (req, res) => {
     try {
         const { days = 90 } = req.body;
         const { profileHistoryService } = await import("../services/profile-history.js");
@@ -164,7 +166,7 @@ router.delete("/history/cleanup", async (req, res) => {
     }
 });
 
-router.post("/scrape", async (req, res) => {
+router.post("/scrape", PermissionService.requirePermission(Permission.MANAGE_OWN_LEADS), async (req, res) => {
     try {
         const { url, profileId, name } = req.body;
 
@@ -274,7 +276,7 @@ router.post("/scrape", async (req, res) => {
     }
 });
 
-router.post("/generate-email", async (req, res) => {
+router.post("/generate-email", PermissionService.requirePermission(Permission.MANAGE_OWN_LEADS), async (req, res) => {
     try {
         const { profile, productContext } = req.body;
 
@@ -328,12 +330,13 @@ router.post("/generate-email", async (req, res) => {
     }
 });
 
-router.post("/send-email", async (req, res) => {
+router.post("/send-email", PermissionService.requirePermission(Permission.MANAGE_OWN_LEADS), async (req, res) => {
     try {
         const { to, subject, body, profile } = req.body;
 
         let emailSent = false;
         let sendMethod = "mock";
+        let sentEmail: { messageId?: string; internetMessageId?: string } = {};
 
         // Try to send via MS365 if configured for this user
         const syncState = await storage.getSyncStateForUser(req.user!.id);
@@ -342,7 +345,7 @@ router.post("/send-email", async (req, res) => {
             try {
                 console.log(`[MS365] Attempting to send email to: ${to}`);
                 const accessToken = await ms365Integration.ensureValidToken(req.user!.id);
-                await ms365Integration.sendEmail({
+                sentEmail = await ms365Integration.sendEmail({
                     to,
                     subject,
                     body,
@@ -376,7 +379,7 @@ router.post("/send-email", async (req, res) => {
                 // 2. If not found by URL, create new lead
                 if (!lead) {
                     console.log("[CRM Integration] Creating new lead for:", profile.name, "with URL:", profile.url);
-                    lead = await storage.createLead({
+                    const createdLead = await storage.createLead({
                         name: profile.name,
                         email: to,
                         position: profile.headline,
@@ -384,9 +387,14 @@ router.post("/send-email", async (req, res) => {
                         city: profile.location,
                         status: "cold", // New lead starts as cold
                         source: "linkedin_outreach",
-                        ownerId: req.user!.id,  // Set owner to current user
                     } as any);
-                    console.log("[CRM Integration] Created new lead:", lead.id, "with owner:", req.user!.id);
+                    // Assignment rules decide the owner, falling back to the current user
+                    const assignment = await assignmentEngine.assignNewLead(createdLead, {
+                        fallbackOwnerId: req.user!.id,
+                        source: "linkedin_outreach",
+                    });
+                    lead = assignment.lead;
+                    console.log("[CRM Integration] Created new lead:", lead.id, "with owner:", assignment.userId);
                 } else {
                     console.log("[CRM Integration] Found existing lead by LinkedIn URL:", lead.id);
                     // Update email if changed
@@ -411,7 +419,9 @@ router.post("/send-email", async (req, res) => {
                         fromEmail: "user@example.com", // TODO: Get from authenticated user
                         toEmail: to,
                         sentAt: new Date(),
-                        isFromLead: 0
+                        isFromLead: 0,
+                        messageId: sentEmail.messageId,
+                        internetMessageId: sentEmail.internetMessageId,
                     });
                     console.log("[CRM Integration] Conversation logged successfully");
                 }
@@ -433,7 +443,7 @@ router.post("/send-email", async (req, res) => {
 });
 
 // Get archived profiles
-router.get("/archives", async (req: Request, res: Response) => {
+router.get("/archives", PermissionService.requirePermission(Permission.VIEW_OWN_DATA), async (req: Request, res: Response) => {
     try {
         // Get scraped profiles (role-based access)
         const profiles = await storage.getScrapedProfiles(req.user!);
@@ -2,17 +2,18 @@ import { Router } from "express";
 import type { Request, Response } from "express";
 import { storage } from "../storage.js";
 import AuthService from "../auth.js";
+import PermissionService, { Permission } from "../permissions.js";
 
 const router = Router();
 
-// Protect routes with authentication
-router.use(AuthService.requireAuth);
+// Authentication is applied per route: a router-wide guard would also catch the
+// public Microsoft Graph webhook at POST /api/ms365/webhook
 
 /**
  * GET /api/ms365/status
  * Check if MS365 is connected for the authenticated user
  */
-router.get("/status", async (req: Request, res: Response) => {
+router.get("/status", AuthService.requireAuth, PermissionService.requirePermission(Permission.VIEW_OWN_DATA), async (req: Request, res: Response) => {
     try {
         if (!req.user) {
             return res.status(401).json({ error: "Not authenticated" });
@@ -36,7 +37,7 @@ router.get("/status", async (req: Request, res: Response) => {
  * POST /api/ms365/disconnect
  * Disconnect MS365 account for the authenticated user (clear tokens and configuration)
  */
-router.post("/disconnect", async (req: Request, res: Response) => {
+router.post("/disconnect", AuthService.requireAuth, PermissionService.requirePermission(Permission.MANAGE_OWN_LEADS), async (req: Request, res: Response) => {
     try {
         if (!req.user) {
             return res.status(401).json({ error: "Not authenticated" });
@@ -47,6 +48,8 @@ router.post("/disconnect", async (req: Request, res: Response) => {
             refreshToken: null,
             expiresAt: null,
             deltaToken: null,
+            sentDeltaToken: null,
+            subscriptionId: null,
             isConfigured: 0,
         });
 
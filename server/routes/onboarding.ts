@@ -0,0 +1,146 @@
+import { Router } from "express";
+import type { Request, Response } from "express";
+import { storage } from "../storage.js";
+import AuthService from "../auth.js";
+import PermissionService, { Permission } from "../permissions.js";
+import { onboardingService } from "../onboarding.js";
+import type { UserInvitation } from "@shared/schema";
+import { createInvitationSchema, invitationStatus, updateAuthSettingsSchema } from "@shared/onboarding";
+
+const router = Router();
+
+router.use(AuthService.requireAuth);
+
+// Never send the token hash to the client
+const serialize = ({ tokenHash, ...invitation }: UserInvitation) => ({
+    ...invitation,
+    status: invitationStatus(invitation),
+});
+
+// Admins manage every invitation; others those they sent or that join someone they manage
+async function canManageInvitation(req: Request, invitation: UserInvitation): Promise<boolean> {
+    const user = req.user!;
+    if (user.role === "admin" || invitation.invitedById === user.id) return true;
+    return !!invitation.managerId && PermissionService.canAccessUser(user, invitation.managerId);
+}
+
+/**
+ * GET /api/onboarding/settings
+ * Whether open registration is on
+ */
+router.get("/settings", PermissionService.requirePermission(Permission.VIEW_OWN_DATA), async (_req: Request, res: Response) => {
+    try {
+        res.json({ openRegistration: await onboardingService.isOpenRegistration() });
+    } catch (error: any) {
+        res.status(500).json({ error: error.message });
+    }
+});
+
+/**
+ * PATCH /api/onboarding/settings
+ * Turn open registration on or off
+ */
+router.patch("/settings", PermissionService.requirePermission(Permission.MANAGE_SETTINGS), async (req: Request, res: Response) => {
+    const parsed = updateAuthSettingsSchema.safeParse(req.body);
+    if (!parsed.success) {
+        return res.status(400).json({ error: parsed.error.errors[0]?.message || "Invalid settings" });
+    }
+    try {
+        res.json({ openRegistration: await onboardingService.setOpenRegistration(parsed.data.openRegistration) });
+    } catch (error: any) {
+        res.status(500).json({ error: error.message });
+    }
+});
+
+/**
+ * GET /api/onboarding/invitations
+ * Pending and expired invitations the user can manage
+ */
+router.get("/invitations", PermissionService.requirePermission(Permission.INVITE_USERS), async (req: Request, res: Response) => {
+    try {
+        const invitations = await storage.getPendingInvitations();
+        const visible = [];
+        for (const invitation of invitations) {
+            if (await canManageInvitation(req, invitation)) visible.push(serialize(invitation));
+        }
+        res.json(visible);
+    } catch (error: any) {
+        res.status(500).json({ error: error.message });
+    }
+});
+
+/**
+ * POST /api/onboarding/invitations
+ * Invite someone with a preset role and manager; non-admins invite into their own team
+ * and may only grant roles that give no more access than their own
+ */
+router.post("/invitations", PermissionService.requirePermission(Permission.INVITE_USERS), async (req: Request, res: Response) => {
+    const parsed = createInvitationSchema.safeParse(req.body);
+    if (!parsed.success) {
+        return res.status(400).json({ error: parsed.error.errors[0]?.message || "Invalid invitation" });
+    }
+    try {
+        const user = req.user!;
+        const data = { ...parsed.data };
+
+        if (!PermissionService.canGrantRole(user, data.role)) {
+            return res.status(403).json({ error: "Forbidden: You cannot grant a role with more access than your own" });
+        }
+        if (user.role !== "admin") {
+            data.managerId = data.managerId || user.id;
+            if (!(await PermissionService.canAccessUser(user, data.managerId))) {
+                return res.status(403).json({ error: "Forbidden: You can only invite people into your own team" });
+            }
+        }
+
+        if (await storage.getUserByEmail(data.email)) {
+            return res.status(409).json({ error: "A user with this email already exists" });
+        }
+
+        const invitation = await onboardingService.invite(data, user);
+        res.status(201).json(serialize(invitation));
+    } catch (error: any) {
+        res.status(400).json({ error: error.message });
+    }
+});
+
+/**
+ * POST /api/onboarding/invitations/:id/resend
+ * Email the invitation again with a new link
+ */
+router.post("/invitations/:id/resend", PermissionService.requirePermission(Permission.INVITE_USERS), async (req: Request, res: Response) => {
+    try {
+        const invitation = await storage.getInvitation(req.params.id);
+        if (!invitation) {
+            return res.status(404).json({ error: "Invitation not found" });
+        }
+        if (!(await canManageInvitation(req, invitation))) {
+            return res.status(403).json({ error: "Forbidden: You cannot manage this invitation" });
+        }
+        res.json(serialize(await onboardingService.resend(invitation.id, req.user!)));
+    } catch (error: any) {
+        res.status(400).json({ error: error.message });
+    }
+});
+
+/**
+ * DELETE /api/onboarding/invitations/:id
+ * Revoke an invitation so its link stops working
+ */
+router.delete("/invitations/:id", PermissionService.requirePermission(Permission.INVITE_USERS), async (req: Request, res: Response) => {
+    try {
+        const invitation = await storage.getInvitation(req.params.id);
+        if (!invitation) {
+            return res.status(404).json({ error: "Invitation not found" });
+        }
+        if (!(await canManageInvitation(req, invitation))) {
+            return res.status(403).json({ error: "Forbidden: You cannot manage this invitation" });
+        }
+        await onboardingService.revoke(invitation.id);
+        res.json({ success: true });
+    } catch (error: any) {
+        res.status(400).json({ error: error.message });
+    }
+});
+
+export default router;
@@ -0,0 +1,106 @@
+import { Router } from "express";
+import type { Request, Response } from "express";
+import { storage } from "../storage.js";
+import AuthService from "../auth.js";
+import PermissionService, { Permission } from "../permissions.js";
+import { createProductSchema, updateProductSchema } from "@shared/deal-products";
+
+const router = Router();
+
+router.use(AuthService.requireAuth);
+
+// Products with the same SKU would be indistinguishable on quotes and exports
+async function skuTaken(sku: string | null | undefined, exceptId?: string): Promise<boolean> {
+    if (!sku) return false;
+    const products = await storage.getProducts(true);
+    return products.some((product) => product.sku === sku && product.id !== exceptId);
+}
+
+/**
+ * GET /api/products
+ * Product catalog; ?includeArchived=true also lists archived products
+ */
+router.get("/", PermissionService.requirePermission(Permission.VIEW_OWN_DATA), async (req: Request, res: Response) => {
+    try {
+        res.json(await storage.getProducts(req.query.includeArchived === "true"));
+    } catch (error: any) {
+        res.status(500).json({ error: error.message });
+    }
+});
+
+/**
+ * POST /api/products
+ * Add a product to the catalog
+ */
+router.post("/", PermissionService.requirePermission(Permission.MANAGE_SETTINGS), async (req: Request, res: Response) => {
+    try {
+        const parsed = createProductSchema.safeParse(req.body);
+        if (!parsed.success) {
+            return res.status(400).json({ error: parsed.error.errors[0]?.message || "Invalid product" });
+        }
+        if (await skuTaken(parsed.data.sku)) {
+            return res.status(409).json({ error: `SKU ${parsed.data.sku} is already in use` });
+        }
+
+        const { billingType, billingPeriod } = parsed.data;
+        const product = await storage.createProduct({
+            ...parsed.data,
+            billingPeriod: billingType === "recurring" ? billingPeriod : null,
+        });
+        res.status(201).json(product);
+    } catch (error: any) {
+        res.status(500).json({ error: error.message });
+    }
+});
+
+/**
+ * PATCH /api/products/:id
+ * Update a product; deals that already have it keep the price they were given
+ */
+router.patch("/:id", PermissionService.requirePermission(Permission.MANAGE_SETTINGS), async (req: Request, res: Response) => {
+    try {
+        const parsed = updateProductSchema.safeParse(req.body);
+        if (!parsed.success) {
+            return res.status(400).json({ error: parsed.error.errors[0]?.message || "Invalid product" });
+        }
+
+        const product = await storage.getProduct(req.params.id);
+        if (!product) {
+            return res.status(404).json({ error: "Product not found" });
+        }
+        if (await skuTaken(parsed.data.sku, product.id)) {
+            return res.status(409).json({ error: `SKU ${parsed.data.sku} is already in use` });
+        }
+
+        const billingType = parsed.data.billingType ?? product.billingType;
+        const billingPeriod = parsed.data.billingPeriod !== undefined ? parsed.data.billingPeriod : product.billingPeriod;
+        if (billingType === "recurring" && !billingPeriod) {
+            return res.status(400).json({ error: "Recurring products need a billing period" });
+        }
+
+        res.json(await storage.updateProduct(product.id, {
+            ...parsed.data,
+            billingPeriod: billingType === "recurring" ? billingPeriod : null,
+        }));
+    } catch (error: any) {
+        res.status(500).json({ error: error.message });
+    }
+});
+
+/**
+ * DELETE /api/products/:id
+ * Archive a product; it stays on the deals that already have it
+ */
+router.delete("/:id", PermissionService.requirePermission(Permission.MANAGE_SETTINGS), async (req: Request, res: Response) => {
+    try {
+        const product = await storage.updateProduct(req.params.id, { isActive: 0 });
+        if (!product) {
+            return res.status(404).json({ error: "Product not found" });
+        }
+        res.json(product);
+    } catch (error: any) {
+        res.status(500).json({ error: error.message });
+    }
+});
+
+export default router;
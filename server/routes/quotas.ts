@@ -0,0 +1,77 @@
+import { Router } from "express";
+import type { Request, Response } from "express";
+import { storage } from "../storage.js";
+import AuthService from "../auth.js";
+import PermissionService, { Permission } from "../permissions.js";
+import { quotaService } from "../quotas.js";
+import { attainmentQuerySchema, quotaPeriod, setQuotaSchema } from "@shared/quotas";
+
+const router = Router();
+
+router.use(AuthService.requireAuth);
+
+/**
+ * GET /api/quotas/attainment
+ * Quotas and results for the period containing ?date (default today); ?periodType=month|quarter
+ */
+router.get("/attainment", PermissionService.requirePermission(Permission.VIEW_OWN_DATA), async (req: Request, res: Response) => {
+    try {
+        const parsed = attainmentQuerySchema.safeParse(req.query);
+        if (!parsed.success) {
+            return res.status(400).json({ error: parsed.error.errors[0]?.message || "Invalid period" });
+        }
+        const { periodType, date } = parsed.data;
+        res.json(await quotaService.getAttainment(req.user!, periodType, date || new Date()));
+    } catch (error: any) {
+        res.status(500).json({ error: error.message });
+    }
+});
+
+/**
+ * PUT /api/quotas
+ * Set the target for a user, metric and period, replacing any existing one
+ */
+router.put("/", PermissionService.requirePermission(Permission.MANAGE_QUOTAS), async (req: Request, res: Response) => {
+    try {
+        const parsed = setQuotaSchema.safeParse(req.body);
+        if (!parsed.success) {
+            return res.status(400).json({ error: parsed.error.errors[0]?.message || "Invalid quota" });
+        }
+        const { userId, scope, periodType, periodStart } = parsed.data;
+
+        if (!(await quotaService.canSetQuota(req.user!, userId))) {
+            return res.status(403).json({ error: "You can only set quotas for people who report to you" });
+        }
+        if (scope === "team" && (await storage.getUsersByManager(userId)).length === 0) {
+            return res.status(400).json({ error: "Team quotas need at least one person reporting to the user" });
+        }
+
+        const quota = await storage.upsertQuota({
+            ...parsed.data,
+            periodStart: quotaPeriod(periodType, periodStart).start,
+            createdBy: req.user!.id,
+        });
+        res.json(quota);
+    } catch (error: any) {
+        res.status(500).json({ error: error.message });
+    }
+});
+
+/**
+ * DELETE /api/quotas/:id
+ * Remove a quota
+ */
+router.delete("/:id", PermissionService.requirePermission(Permission.MANAGE_QUOTAS), async (req: Request, res: Response) => {
+    try {
+        const quota = await storage.getQuota(req.params.id);
+        if (!quota || !(await quotaService.canSetQuota(req.user!, quota.userId))) {
+            return res.status(404).json({ error: "Quota not found" });
+        }
+        await storage.deleteQuota(quota.id);
+        res.json({ success: true });
+    } catch (error: any) {
+        res.status(500).json({ error: error.message });
+    }
+});
+
+export default router;
@@ -0,0 +1,103 @@
+import { Router } from "express";
+import type { NextFunction, Request, Response } from "express";
+import AuthService from "../auth.js";
+import PermissionService, { Permission } from "../permissions.js";
+import { roleService } from "../roles.js";
+import { createRoleSchema, updateRoleSchema } from "@shared/roles";
+
+const router = Router();
+
+router.use(AuthService.requireAuth);
+
+/**
+ * Role definitions decide what every other check allows, so only admins may change them
+ */
+function requireAdmin(req: Request, res: Response, next: NextFunction) {
+    if (!PermissionService.isAdmin(req.user!)) {
+        return res.status(403).json({ error: "Forbidden: Only admins can change roles" });
+    }
+    next();
+}
+
+/**
+ * GET /api/roles
+ * Every role with its permissions and hidden fields, plus the list of permissions
+ */
+router.get("/", PermissionService.requirePermission(Permission.VIEW_OWN_DATA), async (_req: Request, res: Response) => {
+    try {
+        res.json({ roles: await roleService.list(), permissions: Object.values(Permission) });
+    } catch (error: any) {
+        res.status(500).json({ error: error.message });
+    }
+});
+
+/**
+ * POST /api/roles
+ * Define a custom role
+ */
+router.post("/", PermissionService.requirePermission(Permission.MANAGE_USERS), requireAdmin, async (req: Request, res: Response) => {
+    try {
+        const parsed = createRoleSchema.safeParse(req.body);
+        if (!parsed.success) {
+            return res.status(400).json({ error: parsed.error.errors[0]?.message || "Invalid role" });
+        }
+        if (await roleService.exists(parsed.data.key)) {
+            return res.status(409).json({ error: `A role with the key "${parsed.data.key}" already exists` });
+        }
+
+        try {
+            res.status(201).json(await roleService.create(parsed.data));
+        } catch (error: any) {
+            res.status(400).json({ error: error.message });
+        }
+    } catch (error: any) {
+        res.status(500).json({ error: error.message });
+    }
+});
+
+/**
+ * PATCH /api/roles/:key
+ * Change a role's name, permissions or hidden fields
+ */
+router.patch("/:key", PermissionService.requirePermission(Permission.MANAGE_USERS), requireAdmin, async (req: Request, res: Response) => {
+    try {
+        const parsed = updateRoleSchema.safeParse(req.body);
+        if (!parsed.success) {
+            return res.status(400).json({ error: parsed.error.errors[0]?.message || "Invalid role" });
+        }
+        if (!(await roleService.exists(req.params.key))) {
+            return res.status(404).json({ error: "Role not found" });
+        }
+
+        try {
+            res.json(await roleService.update(req.params.key, parsed.data));
+        } catch (error: any) {
+            res.status(400).json({ error: error.message });
+        }
+    } catch (error: any) {
+        res.status(500).json({ error: error.message });
+    }
+});
+
+/**
+ * DELETE /api/roles/:key
+ * Delete a custom role nobody holds
+ */
+router.delete("/:key", PermissionService.requirePermission(Permission.MANAGE_USERS), requireAdmin, async (req: Request, res: Response) => {
+    try {
+        if (!(await roleService.exists(req.params.key))) {
+            return res.status(404).json({ error: "Role not found" });
+        }
+
+        try {
+            await roleService.delete(req.params.key);
+            res.json({ success: true });
+        } catch (error: any) {
+            res.status(409).json({ error: error.message });
+        }
+    } catch (error: any) {
+        res.status(500).json({ error: error.message });
+    }
+});
+
+export default router;
@@ -0,0 +1,178 @@
+import { Router } from "express";
+import type { Request, Response } from "express";
+import { storage } from "../storage.js";
+import { savedViewService } from "../saved-views.js";
+import AuthService from "../auth.js";
+import PermissionService, { Permission } from "../permissions.js";
+import { insertSavedViewSchema } from "@shared/schema";
+import {
+    bulkActionEntityTypes,
+    savedViewBulkActionSchema,
+    validateSavedViewConfig,
+    type SavedViewEntityType,
+} from "@shared/saved-views";
+
+const router = Router();
+
+router.use(AuthService.requireAuth);
+
+/**
+ * GET /api/saved-views
+ * The user's own views plus team views, optionally for one entity type
+ */
+router.get("/", PermissionService.requirePermission(Permission.VIEW_OWN_DATA), async (req: Request, res: Response) => {
+    try {
+        const views = await storage.getSavedViews(req.user!.id);
+        const entityType = req.query.entityType as string | undefined;
+        res.json(entityType ? views.filter((view) => view.entityType === entityType) : views);
+    } catch (error: any) {
+        res.status(500).json({ error: error.message });
+    }
+});
+
+/**
+ * GET /api/saved-views/counts
+ * Current record count per view id; null when a view could not be counted
+ */
+router.get("/counts", PermissionService.requirePermission(Permission.VIEW_OWN_DATA), async (req: Request, res: Response) => {
+    try {
+        const views = await storage.getSavedViews(req.user!.id);
+        const counts: Record<string, number | null> = {};
+        for (const view of views) {
+            try {
+                counts[view.id] = await savedViewService.count(view, req.user!);
+            } catch (error) {
+                console.error(`[saved-views] Could not count view ${view.id}:`, error);
+                counts[view.id] = null;
+            }
+        }
+        res.json(counts);
+    } catch (error: any) {
+        res.status(500).json({ error: error.message });
+    }
+});
+
+/**
+ * POST /api/saved-views
+ * Save the current filters, sort and columns under a name
+ */
+router.post("/", PermissionService.requirePermission(Permission.VIEW_OWN_DATA), async (req: Request, res: Response) => {
+    try {
+        const parsed = insertSavedViewSchema.safeParse(req.body);
+        if (!parsed.success) {
+            return res.status(400).json({ error: parsed.error.errors[0]?.message || "Invalid saved view" });
+        }
+
+        const view = {
+            ...parsed.data,
+            filters: parsed.data.filters || {},
+            columns: parsed.data.columns || [],
+        };
+        const configError = validateSavedViewConfig(view);
+        if (configError) {
+            return res.status(400).json({ error: configError });
+        }
+
+        res.json(await storage.createSavedView({ ...view, ownerId: req.user!.id }));
+    } catch (error: any) {
+        res.status(500).json({ error: error.message });
+    }
+});
+
+/**
+ * PATCH /api/saved-views/:id
+ * Rename, share or overwrite a view's configuration (owner or admin)
+ */
+router.patch("/:id", PermissionService.requirePermission(Permission.VIEW_OWN_DATA), async (req: Request, res: Response) => {
+    try {
+        const existing = await storage.getSavedView(req.params.id);
+        if (!existing || !savedViewService.canAccess(existing, req.user!)) {
+            return res.status(404).json({ error: "Saved view not found" });
+        }
+        if (!savedViewService.canEdit(existing, req.user!)) {
+            return res.status(403).json({ error: "Only the view's owner can change it" });
+        }
+
+        const parsed = insertSavedViewSchema.omit({ entityType: true }).partial().safeParse(req.body);
+        if (!parsed.success) {
+            return res.status(400).json({ error: parsed.error.errors[0]?.message || "Invalid saved view" });
+        }
+
+        const configError = validateSavedViewConfig({
+            entityType: existing.entityType as SavedViewEntityType,
+            filters: parsed.data.filters ?? (existing.filters as Record<string, string>),
+            sort: parsed.data.sort !== undefined ? parsed.data.sort : existing.sort,
+            columns: parsed.data.columns ?? existing.columns,
+        });
+        if (configError) {
+            return res.status(400).json({ error: configError });
+        }
+
+        res.json(await storage.updateSavedView(existing.id, parsed.data));
+    } catch (error: any) {
+        res.status(500).json({ error: error.message });
+    }
+});
+
+/**
+ * DELETE /api/saved-views/:id
+ * Rules using the view as their audience fall back to all records
+ */
+router.delete("/:id", PermissionService.requirePermission(Permission.VIEW_OWN_DATA), async (req: Request, res: Response) => {
+    try {
+        const existing = await storage.getSavedView(req.params.id);
+        if (!existing || !savedViewService.canAccess(existing, req.user!)) {
+            return res.status(404).json({ error: "Saved view not found" });
+        }
+        if (!savedViewService.canEdit(existing, req.user!)) {
+            return res.status(403).json({ error: "Only the view's owner can delete it" });
+        }
+
+        await storage.deleteSavedView(existing.id);
+        res.json({ success: true });
+    } catch (error: any) {
+        res.status(500).json({ error: error.message });
+    }
+});
+
+/**
+ * POST /api/saved-views/:id/bulk-action
+ * Apply one change to every record the view currently matches
+ */
+router.post("/:id/bulk-action", PermissionService.requirePermission(Permission.MANAGE_OWN_LEADS), async (req: Request, res: Response) => {
+    try {
+        const view = await storage.getSavedView(req.params.id);
+        if (!view || !savedViewService.canAccess(view, req.user!)) {
+            return res.status(404).json({ error: "Saved view not found" });
+        }
+
+        const parsed = savedViewBulkActionSchema.safeParse(req.body);
+        if (!parsed.success) {
+            return res.status(400).json({ error: parsed.error.errors[0]?.message || "Invalid bulk action" });
+        }
+        const action = parsed.data;
+
+        if (!bulkActionEntityTypes[action.type].includes(view.entityType as SavedViewEntityType)) {
+            return res.status(400).json({ error: `${action.type} cannot be used on a ${view.entityType} view` });
+        }
+        if (action.type === "assign_owner") {
+            if (!PermissionService.hasPermission(req.user!, Permission.ASSIGN_LEADS)) {
+                return res.status(403).json({ error: "Insufficient permissions" });
+            }
+            const owner = await storage.getUser(action.ownerId);
+            if (!owner) {
+                return res.status(400).json({ error: "Owner not found" });
+            }
+            // Same rule as single-record updates: only hand records to someone the user can access
+            if (!(await PermissionService.canAccessUser(req.user!, owner.id))) {
+                return res.status(403).json({ error: "Forbidden: You cannot assign records to this user" });
+            }
+        }
+
+        res.json(await savedViewService.runBulkAction(view, req.user!, action));
+    } catch (error: any) {
+        res.status(500).json({ error: error.message });
+    }
+});
+
+export default router;
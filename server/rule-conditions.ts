@@ -0,0 +1,147 @@
+import type { Conversation, Deal, Lead, User } from "@shared/schema";
+import type { ConditionNode, LeafCondition } from "@shared/automation-rules";
+
+/**
+ * Rule Condition Evaluator
+ *
+ * Evaluates an automation rule's condition tree against the entities a
+ * trigger provides. `previous` holds field values from before the change
+ * (e.g. { "lead.score": 40 }) so changed_to / changed_from can tell a real
+ * transition apart from a value that was already set.
+ */
+
+export interface RuleFacts {
+  lead?: Lead;
+  deal?: Deal;
+  conversation?: Conversation;
+  owner?: Pick<User, "id" | "name" | "email" | "role">;
+  previous?: Record<string, unknown>;
+}
+
+/**
+ * Evaluate a condition tree; an empty or missing tree always matches
+ */
+export function evaluateConditions(node: ConditionNode | null | undefined, facts: RuleFacts): boolean {
+  if (!node) return true;
+
+  if (node.type === "group") {
+    const results = node.conditions.map((child) => evaluateConditions(child, facts));
+    switch (node.operator) {
+      case "and":
+        return results.every(Boolean);
+      case "or":
+        return results.length === 0 || results.some(Boolean);
+      case "not":
+        return !results.some(Boolean);
+    }
+  }
+
+  return evaluateLeaf(node, facts);
+}
+
+/**
+ * Read a dotted field like "lead.score" from the facts
+ */
+export function resolveField(field: string, facts: RuleFacts): unknown {
+  const [entity, key] = field.split(".");
+  const source = (facts as Record<string, any>)[entity];
+  return source ? source[key] : undefined;
+}
+
+function evaluateLeaf(condition: LeafCondition, facts: RuleFacts): boolean {
+  const actual = resolveField(condition.field, facts);
+  const { value } = condition;
+
+  switch (condition.operator) {
+    case "equals":
+      return isEqual(actual, value);
+    case "not_equals":
+      return !isEqual(actual, value);
+    case "contains":
+      return contains(actual, value);
+    case "not_contains":
+      return !contains(actual, value);
+    case "in":
+      return Array.isArray(value) && value.some((v) => isEqual(actual, v));
+    case "not_in":
+      return Array.isArray(value) && !value.some((v) => isEqual(actual, v));
+    case "gt":
+      return compare(actual, value, (a, b) => a > b);
+    case "gte":
+      return compare(actual, value, (a, b) => a >= b);
+    case "lt":
+      return compare(actual, value, (a, b) => a < b);
+    case "lte":
+      return compare(actual, value, (a, b) => a <= b);
+    case "between": {
+      if (!Array.isArray(value) || value.length !== 2) return false;
+      return compare(actual, value[0], (a, b) => a >= b) && compare(actual, value[1], (a, b) => a <= b);
+    }
+    case "is_empty":
+      return isEmpty(actual);
+    case "is_not_empty":
+      return !isEmpty(actual);
+    case "changed_to": {
+      if (!facts.previous || !(condition.field in facts.previous)) return false;
+      const before = facts.previous[condition.field];
+      return isEqual(actual, value) && !isEqual(before, actual);
+    }
+    case "changed_from": {
+      if (!facts.previous || !(condition.field in facts.previous)) return false;
+      const before = facts.previous[condition.field];
+      return isEqual(before, value) && !isEqual(before, actual);
+    }
+    default:
+      return false;
+  }
+}
+
+function isEmpty(value: unknown): boolean {
+  if (value === null || value === undefined) return true;
+  if (typeof value === "string") return value.trim() === "";
+  if (Array.isArray(value)) return value.length === 0;
+  return false;
+}
+
+// Strings compare case-insensitively; numeric strings compare as numbers
+function isEqual(actual: unknown, expected: unknown): boolean {
+  if (actual === null || actual === undefined) {
+    return expected === null || expected === undefined;
+  }
+  if (typeof actual === "number" || typeof expected === "number") {
+    return toNumber(actual) === toNumber(expected);
+  }
+  if (actual instanceof Date) {
+    return actual.getTime() === toNumber(expected);
+  }
+  return String(actual).toLowerCase() === String(expected).toLowerCase();
+}
+
+function contains(actual: unknown, expected: unknown): boolean {
+  if (Array.isArray(actual)) {
+    return actual.some((item) => isEqual(item, expected));
+  }
+  if (typeof actual !== "string") return false;
+  return actual.toLowerCase().includes(String(expected ?? "").toLowerCase());
+}
+
+function compare(actual: unknown, expected: unknown, op: (a: number, b: number) => boolean): boolean {
+  const a = toNumber(actual);
+  const b = toNumber(expected);
+  if (Number.isNaN(a) || Number.isNaN(b)) return false;
+  return op(a, b);
+}
+
+// Numbers as-is, dates (and ISO date strings) as epoch milliseconds
+function toNumber(value: unknown): number {
+  if (typeof value === "number") return value;
+  if (typeof value === "boolean") return value ? 1 : 0;
+  if (value instanceof Date) return value.getTime();
+  if (typeof value === "string" && value.trim() !== "") {
+    const numeric = Number(value);
+    if (!Number.isNaN(numeric)) return numeric;
+    const date = Date.parse(value);
+    if (!Number.isNaN(date)) return date;
+  }
+  return NaN;
+}
@@ -0,0 +1,227 @@
+import { storage } from "./storage";
+import { jobQueue } from "./jobs";
+import PermissionService from "./permissions";
+import type { Deal, Lead, SavedView } from "@shared/schema";
+import { decodeLeadCursor, parseLeadSearch, type LeadSearchParams } from "@shared/lead-search";
+import {
+  dealViewFiltersSchema,
+  type DealViewFilters,
+  type SavedViewBulkAction,
+  type SavedViewBulkResult,
+} from "@shared/saved-views";
+
+/**
+ * Saved View Service
+ *
+ * Resolves saved views (see shared/saved-views.ts) to the records they
+ * match. Lead views run through the same search as GET /api/leads and
+ * deal views through the same filters as GET /api/deals, so a view always
+ * shows what its page would show with those filters applied.
+ *
+ * Counts and bulk actions use the requesting user's access. Audience
+ * checks for automation rules use the view owner's access, since a rule
+ * runs without a signed-in user.
+ */
+
+type ViewUser = { id: string; role: string };
+
+// One bulk action changes at most this many records
+const MAX_BULK_RECORDS = parseInt(process.env.SAVED_VIEW_MAX_BULK_RECORDS || "1000", 10);
+const BULK_PAGE_SIZE = 200;
+
+export class SavedViewService {
+  /**
+   * Whether the user may see (and use) a view
+   */
+  canAccess(view: SavedView, user: ViewUser): boolean {
+    return view.visibility === "team" || view.ownerId === user.id;
+  }
+
+  /**
+   * Only the owner or someone who sees all data (admins) may change or delete a view
+   */
+  canEdit(view: SavedView, user: ViewUser): boolean {
+    return view.ownerId === user.id || PermissionService.seesAllData(user);
+  }
+
+  /**
+   * How many records the view currently matches for the user
+   */
+  async count(view: SavedView, user: ViewUser): Promise<number> {
+    if (view.entityType === "lead") {
+      const page = await storage.searchLeads(user, { ...this.leadParams(view), limit: 1, cursor: undefined });
+      return page.total;
+    }
+    const deals = await storage.getDeals(user, this.dealFilters(view));
+    return deals.length;
+  }
+
+  /**
+   * Whether a lead or deal is inside the view - used for rule audiences
+   */
+  async contains(viewId: string, entity: { lead?: Lead; deal?: Deal }): Promise<boolean> {
+    const view = await storage.getSavedView(viewId);
+    if (!view) return false;
+
+    const owner = await storage.getUser(view.ownerId);
+    if (!owner) return false;
+
+    if (view.entityType === "lead") {
+      return !!entity.lead && storage.leadMatchesSearch(owner, this.leadParams(view), entity.lead.id);
+    }
+    if (!entity.deal) return false;
+    const deals = await storage.getDeals(owner, { ...this.dealFilters(view), ids: [entity.deal.id] });
+    return deals.length > 0;
+  }
+
+  /**
+   * Apply one change to every record the view matches, up to MAX_BULK_RECORDS
+   */
+  async runBulkAction(view: SavedView, user: ViewUser, action: SavedViewBulkAction): Promise<SavedViewBulkResult> {
+    const { ids, matched } = view.entityType === "lead"
+      ? await this.collectLeadIds(view, user)
+      : await this.collectDealIds(view, user);
+
+    const result: SavedViewBulkResult = {
+      matched,
+      updated: 0,
+      failed: 0,
+      truncated: matched > ids.length,
+      errors: [],
+    };
+
+    for (const id of ids) {
+      try {
+        if (view.entityType === "lead") {
+          await this.applyToLead(id, user, action);
+        } else {
+          await this.applyToDeal(id, user, action);
+        }
+        result.updated++;
+      } catch (error) {
+        result.failed++;
+        result.errors.push({ id, error: error instanceof Error ? error.message : String(error) });
+      }
+    }
+
+    return result;
+  }
+
+  private leadParams(view: SavedView): LeadSearchParams {
+    const filters = (view.filters as Record<string, string>) || {};
+    const parsed = parseLeadSearch({ ...filters, ...(view.sort ? { sort: view.sort } : {}) });
+    if (!parsed.success) {
+      throw new Error(`Saved view "${view.name}" has invalid filters: ${parsed.error.errors[0]?.message}`);
+    }
+    return parsed.data;
+  }
+
+  private dealFilters(view: SavedView): DealViewFilters {
+    const parsed = dealViewFiltersSchema.safeParse(view.filters || {});
+    if (!parsed.success) {
+      throw new Error(`Saved view "${view.name}" has invalid filters: ${parsed.error.errors[0]?.message}`);
+    }
+    return parsed.data;
+  }
+
+  private async collectLeadIds(view: SavedView, user: ViewUser): Promise<{ ids: string[]; matched: number }> {
+    const params = this.leadParams(view);
+    const ids: string[] = [];
+    let matched = 0;
+    let cursor: unknown[] | undefined;
+
+    do {
+      const page = await storage.searchLeads(user, {
+        ...params,
+        limit: Math.min(BULK_PAGE_SIZE, MAX_BULK_RECORDS - ids.length),
+        cursor,
+      });
+      matched = page.total;
+      ids.push(...page.leads.map((lead) => lead.id));
+      cursor = page.nextCursor ? decodeLeadCursor(page.nextCursor) : undefined;
+    } while (cursor && ids.length < MAX_BULK_RECORDS);
+
+    return { ids, matched };
+  }
+
+  private async collectDealIds(view: SavedView, user: ViewUser): Promise<{ ids: string[]; matched: number }> {
+    const deals = await storage.getDeals(user, this.dealFilters(view));
+    return { ids: deals.slice(0, MAX_BULK_RECORDS).map((deal) => deal.id), matched: deals.length };
+  }
+
+  private async applyToLead(id: string, user: ViewUser, action: SavedViewBulkAction): Promise<void> {
+    const lead = await storage.getLeadById(id);
+    if (!lead) throw new Error("Lead not found");
+
+    switch (action.type) {
+      case "set_lead_status":
+        if (lead.status === action.status) return;
+        await storage.updateLead(id, { status: action.status });
+        await storage.createActivity({
+          leadId: id,
+          type: "lead_updated",
+          description: `Status changed to ${action.status} by bulk action`,
+          metadata: { bulkAction: action.type, updatedBy: user.id },
+        });
+        return;
+
+      case "add_tags": {
+        const tags = Array.from(new Set([...(lead.tags || []), ...action.tags]));
+        if (tags.length === (lead.tags || []).length) return;
+        await storage.updateLead(id, { tags });
+        return;
+      }
+
+      case "assign_owner":
+        if (lead.ownerId === action.ownerId) return;
+        await storage.updateLead(id, { ownerId: action.ownerId });
+        await storage.createActivity({
+          leadId: id,
+          type: "lead_assigned",
+          description: "Lead reassigned by bulk action",
+          metadata: { userId: action.ownerId, assignedBy: user.id },
+        });
+        return;
+
+      default:
+        throw new Error(`${action.type} does not apply to leads`);
+    }
+  }
+
+  private async applyToDeal(id: string, user: ViewUser, action: SavedViewBulkAction): Promise<void> {
+    const deal = await storage.getDealById(id);
+    if (!deal) throw new Error("Deal not found");
+
+    switch (action.type) {
+      case "set_deal_status":
+        if (deal.status === action.status) return;
+        await storage.updateDeal(id, { status: action.status });
+        return;
+
+      case "move_stage": {
+        if (deal.stageId === action.stageId) return;
+        const stage = await storage.getStage(action.stageId);
+        if (!stage || stage.pipelineId !== deal.pipelineId) {
+          throw new Error("Stage is not part of the deal's pipeline");
+        }
+        await storage.moveDealToStage(id, action.stageId, user.id);
+        await jobQueue.enqueue("automation.deal_stage_changed", {
+          dealId: id,
+          oldStageId: deal.stageId,
+          newStageId: action.stageId,
+        });
+        return;
+      }
+
+      case "assign_owner":
+        if (deal.ownerId === action.ownerId) return;
+        await storage.updateDeal(id, { ownerId: action.ownerId });
+        return;
+
+      default:
+        throw new Error(`${action.type} does not apply to deals`);
+    }
+  }
+}
+
+export const savedViewService = new SavedViewService();
@@ -0,0 +1,49 @@
+import { jobQueue } from "./jobs";
+import type { Job } from "@shared/schema";
+
+/**
+ * Automation Scheduler
+ *
+ * Periodically queues a sweep of time-based automation rules. The sweep
+ * runs as an "automation.time_based" job, so only one sweep is pending at
+ * a time even with several server instances, and failures are retried
+ * like any other job.
+ */
+
+const SWEEP_INTERVAL_MS = parseInt(process.env.AUTOMATION_SWEEP_INTERVAL_MS || String(15 * 60 * 1000), 10);
+
+export class AutomationScheduler {
+  private timer: NodeJS.Timeout | null = null;
+
+  /**
+   * Queue a sweep now and then on every interval
+   */
+  start(): void {
+    if (this.timer) return;
+    console.log(`[Scheduler] Time-based automations every ${Math.round(SWEEP_INTERVAL_MS / 1000)}s`);
+
+    this.enqueueSweep().catch((error) => console.error("[Scheduler] Failed to queue sweep:", error));
+    this.timer = setInterval(() => {
+      this.enqueueSweep().catch((error) => console.error("[Scheduler] Failed to queue sweep:", error));
+    }, SWEEP_INTERVAL_MS);
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  /**
+   * Queue a sweep unless one is already waiting
+   */
+  enqueueSweep(createdBy?: string): Promise<Job> {
+    return jobQueue.enqueue("automation.time_based", {}, {
+      uniqueKey: "automation.time_based",
+      createdBy,
+    });
+  }
+}
+
+export const automationScheduler = new AutomationScheduler();
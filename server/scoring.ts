@@ -0,0 +1,232 @@
+import { randomUUID } from "crypto";
+import { storage } from "./storage";
+import type { Lead } from "@shared/schema";
+import {
+  analyzeLeadConversations,
+  computeWeightedScore,
+  DEFAULT_SCORING_WEIGHTS,
+  scoreToStatus,
+  type LeadScoreAnalysis,
+  type ScoringWeights,
+} from "./ai";
+import { automationEngine } from "./automation";
+
+/**
+ * Lead Scoring Service
+ *
+ * Runs AI analysis for a lead, applies the configured scoring weights,
+ * stores the score history and fires score-change automations. A rescore
+ * after a weight change re-weights each lead's last analysed factors
+ * instead of analysing every lead again.
+ */
+
+// Finished runs stay pollable this long
+const RUN_RETENTION_MS = 60 * 60 * 1000;
+
+type ScoreFactors = LeadScoreAnalysis["factors"];
+
+export interface RescoreRun {
+  id: string;
+  status: "running" | "completed" | "failed";
+  total: number;
+  processed: number;
+  changed: number;
+  skipped: number; // Never analysed, so there are no factors to re-weight
+  failed: number;
+  startedAt: Date;
+  finishedAt: Date | null;
+  startedBy?: string;
+  errors: Array<{ leadId: string; error: string }>;
+}
+
+export class LeadScoringService {
+  private runs = new Map<string, RescoreRun>();
+
+  /**
+   * Load the weights admins configured on the advanced settings page
+   */
+  async getWeights(): Promise<ScoringWeights> {
+    const config = await storage.getScoringConfig();
+    if (!config) return DEFAULT_SCORING_WEIGHTS;
+
+    return {
+      sentimentWeight: config.sentimentWeight,
+      engagementWeight: config.engagementWeight,
+      responseTimeWeight: config.responseTimeWeight,
+      intentWeight: config.intentWeight,
+    };
+  }
+
+  /**
+   * Re-analyze a lead's conversations and persist the new score
+   */
+  async rescoreLead(
+    lead: Lead,
+    weights?: ScoringWeights
+  ): Promise<{ analysis: LeadScoreAnalysis; changed: boolean }> {
+    const allConversations = await storage.getConversationsByLeadId(lead.id);
+    const conversationsForAnalysis = allConversations.map((c) => ({
+      subject: c.subject,
+      body: c.body,
+      isFromLead: c.isFromLead === 1,
+      sentAt: c.sentAt,
+    }));
+
+    const analysis = await analyzeLeadConversations(
+      lead.name,
+      lead.email,
+      conversationsForAnalysis,
+      weights || (await this.getWeights())
+    );
+
+    return { analysis, changed: await this.saveScore(lead, analysis) };
+  }
+
+  /**
+   * Re-apply weights to the factors of the lead's latest analysis, without calling the AI.
+   * Returns null when the lead has never been analysed.
+   */
+  async reweightLead(
+    lead: Lead,
+    weights: ScoringWeights
+  ): Promise<{ analysis: LeadScoreAnalysis; changed: boolean } | null> {
+    const [latest] = await storage.getLeadScores(lead.id);
+    const factors = latest?.factors as ScoreFactors | null | undefined;
+    if (!factors || [factors.sentiment, factors.engagement, factors.responseTime, factors.intent].some((f) => typeof f !== "number")) {
+      return null;
+    }
+
+    const score = computeWeightedScore(factors, weights);
+    const analysis: LeadScoreAnalysis = {
+      score,
+      status: scoreToStatus(score),
+      factors: { ...factors, weights },
+    };
+    if (analysis.score === lead.score && analysis.status === lead.status) {
+      return { analysis, changed: false };
+    }
+    return { analysis, changed: await this.saveScore(lead, analysis) };
+  }
+
+  /**
+   * Persist a score, record its history and fire automations if it changed
+   */
+  private async saveScore(lead: Lead, analysis: LeadScoreAnalysis): Promise<boolean> {
+    const previousScore = lead.score;
+    const previousStatus = lead.status;
+
+    await storage.updateLead(lead.id, {
+      score: analysis.score,
+      status: analysis.status,
+    });
+
+    await storage.createLeadScore({
+      leadId: lead.id,
+      score: analysis.score,
+      previousScore,
+      status: analysis.status,
+      previousStatus,
+      factors: analysis.factors,
+    });
+
+    const changed = analysis.score !== previousScore || analysis.status !== previousStatus;
+    if (changed) {
+      await storage.createActivity({
+        leadId: lead.id,
+        type: "score_updated",
+        description: `Lead score updated from ${previousScore} to ${analysis.score} (${previousStatus} → ${analysis.status})`,
+        metadata: { factors: analysis.factors },
+      });
+
+      // Trigger automation workflows on score change
+      await automationEngine.onLeadScoreChange(
+        lead.id,
+        previousScore,
+        analysis.score,
+        analysis.status,
+        previousStatus
+      );
+    }
+
+    return changed;
+  }
+
+  /**
+   * Start rescoring every lead in the background and return the run to poll
+   */
+  startRescoreAll(startedBy?: string): RescoreRun {
+    this.pruneRuns();
+    const active = Array.from(this.runs.values()).find((r) => r.status === "running");
+    if (active) {
+      return active;
+    }
+
+    const run: RescoreRun = {
+      id: randomUUID(),
+      status: "running",
+      total: 0,
+      processed: 0,
+      changed: 0,
+      skipped: 0,
+      failed: 0,
+      startedAt: new Date(),
+      finishedAt: null,
+      startedBy,
+      errors: [],
+    };
+    this.runs.set(run.id, run);
+
+    this.rescoreAll(run).catch((error) => {
+      console.error("Lead rescore run failed:", error);
+      run.status = "failed";
+      run.finishedAt = new Date();
+    });
+
+    return run;
+  }
+
+  /**
+   * Get progress for a rescore run
+   */
+  getRescoreRun(id: string): RescoreRun | undefined {
+    this.pruneRuns();
+    return this.runs.get(id);
+  }
+
+  private pruneRuns() {
+    const cutoff = Date.now() - RUN_RETENTION_MS;
+    for (const [id, run] of Array.from(this.runs.entries())) {
+      if (run.finishedAt && run.finishedAt.getTime() < cutoff) this.runs.delete(id);
+    }
+  }
+
+  private async rescoreAll(run: RescoreRun): Promise<void> {
+    const weights = await this.getWeights();
+    const allLeads = await storage.getAllLeads();
+    run.total = allLeads.length;
+
+    for (const lead of allLeads) {
+      try {
+        const result = await this.reweightLead(lead, weights);
+        if (!result) run.skipped++;
+        else if (result.changed) run.changed++;
+      } catch (error) {
+        run.failed++;
+        run.errors.push({
+          leadId: lead.id,
+          error: error instanceof Error ? error.message : String(error),
+        });
+      }
+      run.processed++;
+    }
+
+    run.status = "completed";
+    run.finishedAt = new Date();
+    console.log(
+      `Lead rescore complete: ${run.processed} processed, ${run.changed} changed, ` +
+      `${run.skipped} not yet analysed, ${run.failed} failed`
+    );
+  }
+}
+
+export const leadScoringService = new LeadScoringService();
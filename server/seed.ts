@@ -26,7 +26,7 @@ async function seed() {
         {
             name: "Sales Manager",
             email: "manager@leadflow.com",
-            role: "sales_manager",
+            role: "manager",
             isActive: 1,
         },
         {
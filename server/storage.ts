@@ -66,15 +66,69 @@ import {
   snovioLogs,
   type SnovioLog,
   type InsertSnovioLog,
+  jobs,
+  type Job,
+  type InsertJob,
+  savedViews,
+  type SavedView,
+  type InsertSavedView,
+  leadImports,
+  leadImportItems,
+  type LeadImport,
+  type InsertLeadImport,
+  type LeadImportItem,
+  type InsertLeadImportItem,
+  leadDuplicateDismissals,
+  type LeadDuplicateDismissal,
+  companies,
+  type Company,
+  dealContacts,
+  type DealContact,
+  type InsertDealContact,
+  products,
+  type Product,
+  type InsertProduct,
+  dealLineItems,
+  type DealLineItem,
+  type InsertDealLineItem,
+  currencySettings,
+  type CurrencySettings,
+  exchangeRates,
+  type ExchangeRate,
+  type InsertExchangeRate,
+  quotas,
+  type Quota,
+  type InsertQuota,
+  roles,
+  type Role,
+  type InsertRole,
+  authSettings,
+  userInvitations,
+  passwordResetTokens,
+  type AuthSettings,
+  type UserInvitation,
+  type InsertUserInvitation,
+  type PasswordResetToken,
 } from "@shared/schema";
 import { db } from "./db";
-import { eq, desc, ilike, and, or, sql, inArray } from "drizzle-orm";
+import { eq, asc, desc, ilike, and, or, sql, inArray, lt, gte, lte, isNull, isNotNull, getTableColumns, type SQL } from "drizzle-orm";
+import { encodeLeadCursor, type LeadPage, type LeadSearchParams, type LeadSortField } from "@shared/lead-search";
+import type { DedupeField } from "@shared/lead-import";
+import type { ConversationExportFilters, TaskExportFilters } from "@shared/export";
+import type { DealContactWithLead } from "@shared/deal-contacts";
+import { companyDomainForLead, companyFromLead, leadFieldsFromCompany, type CompanyWithCounts } from "@shared/companies";
+import { decryptJson, decryptSecret, encryptJson, encryptSecret } from "./encryption";
 
 export interface IStorage {
   // Leads - Role-based access
   getLeads(user: { id: string; role: string }): Promise<Lead[]>;
   getLead(user: { id: string; role: string }, id: string): Promise<Lead | undefined>;
+  searchLeads(user: { id: string; role: string }, params: LeadSearchParams): Promise<LeadPage<Lead>>;
+  leadMatchesSearch(user: { id: string; role: string }, params: LeadSearchParams, leadId: string): Promise<boolean>;
+  findLeadByEmail(user: { id: string; role: string }, email: string): Promise<Lead | undefined>;
   getLeadsByOwner(ownerId: string): Promise<Lead[]>;
+  getAllLeads(): Promise<Lead[]>; // Unscoped - for background jobs only
+  getLeadById(id: string): Promise<Lead | undefined>; // Unscoped - for background jobs and ownership checks
   createLead(lead: InsertLead): Promise<Lead>;
   updateLead(id: string, lead: Partial<InsertLead>): Promise<Lead | undefined>;
   deleteLead(id: string): Promise<void>;
@@ -82,10 +136,15 @@ export interface IStorage {
   // Conversations
   getConversations(user: AuthUser): Promise<Conversation[]>;
   getConversationsByLeadId(leadId: string): Promise<Conversation[]>;
+  getConversationsBetween(from: Date, to: Date): Promise<Conversation[]>; // Unscoped - for rule simulation
+  getConversationByMessageId(leadId: string, messageId: string, internetMessageId?: string | null): Promise<Conversation | undefined>;
+  getUnsyncedSentConversation(leadId: string, subject: string, sentAt: Date): Promise<Conversation | undefined>;
   createConversation(conversation: InsertConversation): Promise<Conversation>;
+  updateConversation(id: string, updates: Partial<InsertConversation>): Promise<Conversation | undefined>;
 
   // Lead Scores
   getLeadScores(leadId: string): Promise<LeadScore[]>;
+  getLeadScoresBetween(from: Date, to: Date): Promise<LeadScore[]>; // Unscoped - for rule simulation
   createLeadScore(score: InsertLeadScore): Promise<LeadScore>;
 
   // Activities
@@ -98,6 +157,7 @@ export interface IStorage {
 
   // Sync State (user-specific)
   getSyncStateForUser(userId: string): Promise<SyncState | undefined>;
+  getSyncStateBySubscriptionId(subscriptionId: string): Promise<SyncState | undefined>;
   updateSyncStateForUser(userId: string, data: Partial<SyncState>): Promise<SyncState>;
 
   // Email Templates
@@ -110,6 +170,7 @@ export interface IStorage {
   // Users
   getUsers(): Promise<User[]>;
   getUser(id: string): Promise<User | undefined>;
+  getUserByEmail(email: string): Promise<User | undefined>;
   getUsersByRole(role: string): Promise<User[]>;
   getUsersByManager(managerId: string): Promise<User[]>;
   createUser(user: InsertUser): Promise<User>;
@@ -120,6 +181,7 @@ export interface IStorage {
   createAssignmentRule(rule: InsertAssignmentRule): Promise<AssignmentRule>;
   updateAssignmentRule(id: string, rule: Partial<InsertAssignmentRule>): Promise<AssignmentRule | undefined>;
   deleteAssignmentRule(id: string): Promise<void>;
+  advanceRoundRobinCursor(id: string): Promise<number>;
 
   // Lead Assignments
   getLeadAssignment(leadId: string): Promise<LeadAssignment | undefined>;
@@ -128,6 +190,7 @@ export interface IStorage {
   // Tasks
   getTasks(leadId: string): Promise<Task[]>;
   getAllTasks(): Promise<Task[]>;
+  getTasksForUser(user: { id: string; role: string }): Promise<Task[]>;
   getTask(id: string): Promise<Task | undefined>;
   createTask(task: InsertTask): Promise<Task>;
   updateTask(id: string, task: Partial<InsertTask>): Promise<Task | undefined>;
@@ -163,8 +226,12 @@ export interface IStorage {
     maxAmount?: number;
     fromDate?: Date;
     toDate?: Date;
+    ids?: string[];
+    companyId?: string;
   }): Promise<Deal[]>;
   getDeal(user: { id: string; role: string }, id: string): Promise<Deal | undefined>;
+  getAllDeals(): Promise<Deal[]>; // Unscoped - for background jobs only
+  getDealById(id: string): Promise<Deal | undefined>; // Unscoped - for background jobs and ownership checks
   createDeal(deal: InsertDeal): Promise<Deal>;
   updateDeal(id: string, deal: Partial<InsertDeal>): Promise<Deal | undefined>;
   deleteDeal(id: string): Promise<void>;
@@ -172,6 +239,7 @@ export interface IStorage {
 
   // Deal Stage History
   getDealStageHistory(dealId: string): Promise<DealStageHistory[]>;
+  getDealStageHistoryBetween(from: Date, to: Date): Promise<DealStageHistory[]>; // Unscoped - for rule simulation
   createDealStageHistory(history: InsertDealStageHistory): Promise<DealStageHistory>;
 
   // Automation Rules
@@ -184,6 +252,8 @@ export interface IStorage {
   // Automation Logs
   getAutomationLogs(ruleId?: string): Promise<AutomationLog[]>;
   logAutomationExecution(log: InsertAutomationLog): Promise<AutomationLog>;
+  getLastAutomationExecution(ruleId: string, entityKey: string, successfulOnly?: boolean): Promise<AutomationLog | undefined>;
+  getAutomationLogsByChain(chainId: string): Promise<AutomationLog[]>;
 
   // Apollo Enrichments
   createApolloEnrichment(enrichment: InsertApolloEnrichment): Promise<ApolloEnrichment>;
@@ -216,6 +286,107 @@ export interface IStorage {
 
   // Snov.io Logs
   logSnovioAction(log: InsertSnovioLog): Promise<SnovioLog>;
+
+  // Background Jobs
+  createJob(job: InsertJob): Promise<Job>;
+  getJob(id: string): Promise<Job | undefined>;
+  getJobs(filters?: { status?: string; type?: string; limit?: number }): Promise<Job[]>;
+  getJobCounts(): Promise<Array<{ type: string; status: string; count: number }>>;
+  findPendingJobByKey(uniqueKey: string): Promise<Job | undefined>;
+  claimNextJob(type: string, workerId: string): Promise<Job | undefined>;
+  updateJob(id: string, updates: Partial<Job>): Promise<Job | undefined>;
+  releaseStaleJobs(lockedBefore: Date): Promise<number>;
+
+  // Saved Views
+  getSavedViews(userId: string): Promise<SavedView[]>; // The user's own views plus team views
+  getSavedView(id: string): Promise<SavedView | undefined>;
+  createSavedView(view: InsertSavedView & { ownerId: string }): Promise<SavedView>;
+  updateSavedView(id: string, updates: Partial<InsertSavedView>): Promise<SavedView | undefined>;
+  deleteSavedView(id: string): Promise<void>;
+
+  // Lead Imports
+  getLeadImports(createdBy?: string): Promise<Omit<LeadImport, "rows">[]>; // Without the (large) row data
+  getLeadImport(id: string): Promise<LeadImport | undefined>;
+  createLeadImport(leadImport: InsertLeadImport): Promise<LeadImport>;
+  updateLeadImport(id: string, updates: Partial<LeadImport>): Promise<LeadImport | undefined>;
+  getLeadImportItems(importId: string): Promise<LeadImportItem[]>;
+  createLeadImportItem(item: InsertLeadImportItem): Promise<LeadImportItem>;
+  findLeadsForDedupe(user: { id: string; role: string }, field: DedupeField, keys: string[]): Promise<Lead[]>;
+
+  // Duplicate leads
+  getDuplicateDismissals(): Promise<LeadDuplicateDismissal[]>;
+  dismissDuplicatePairs(pairs: Array<[string, string]>, dismissedBy: string): Promise<void>;
+  mergeLeads(survivorId: string, mergedIds: string[], updates: Partial<Lead>): Promise<Lead>; // Re-points related records, then deletes the merged leads
+
+  // Exports (paged so large result sets can be streamed)
+  getTasksForExport(user: { id: string; role: string }, filters: TaskExportFilters, page: { limit: number; offset: number }): Promise<Task[]>;
+  getConversationsForExport(user: { id: string; role: string }, filters: ConversationExportFilters, page: { limit: number; offset: number }): Promise<Conversation[]>;
+
+  // Companies
+  getCompanies(user: { id: string; role: string }, search?: string): Promise<CompanyWithCounts[]>; // Companies with an accessible contact or owner
+  getCompany(id: string): Promise<Company | undefined>;
+  getCompanyByDomain(domain: string): Promise<Company | undefined>;
+  findOrCreateCompany(company: Partial<Company> & { name: string; domain: string }): Promise<Company>;
+  updateCompany(id: string, updates: Partial<Company>): Promise<Company | undefined>;
+  getCompanyLeads(user: { id: string; role: string }, companyId: string): Promise<Lead[]>;
+  getConversationsByLeadIds(leadIds: string[], limit: number): Promise<Conversation[]>;
+  updateCompanyLeads(companyId: string, updates: Partial<Lead>): Promise<number>; // Returns the number of leads updated
+  getLeadsWithoutCompany(afterId: string | null, limit: number): Promise<Lead[]>; // Unscoped - for the linking job
+  linkLeadToCompany(lead: Lead): Promise<Lead>; // Links by domain; returns the lead unchanged when no domain is known
+
+  // Deal Contacts
+  getDealContacts(dealId: string): Promise<DealContactWithLead[]>;
+  getDealContact(id: string): Promise<DealContact | undefined>;
+  addDealContact(contact: InsertDealContact): Promise<DealContact>;
+  updateDealContact(id: string, updates: Partial<InsertDealContact>): Promise<DealContact | undefined>;
+  removeDealContact(id: string): Promise<void>;
+
+  // Products & Deal Line Items
+  getProducts(includeArchived?: boolean): Promise<Product[]>;
+  getProduct(id: string): Promise<Product | undefined>;
+  createProduct(product: InsertProduct): Promise<Product>;
+  updateProduct(id: string, updates: Partial<InsertProduct>): Promise<Product | undefined>;
+  getDealLineItems(dealId: string): Promise<DealLineItem[]>;
+  getLineItemsForDeals(dealIds: string[]): Promise<DealLineItem[]>;
+  getDealLineItem(id: string): Promise<DealLineItem | undefined>;
+  createDealLineItem(item: InsertDealLineItem): Promise<DealLineItem>;
+  updateDealLineItem(id: string, updates: Partial<InsertDealLineItem>): Promise<DealLineItem | undefined>;
+  deleteDealLineItem(id: string): Promise<void>;
+
+  // Currencies
+  getCurrencySettings(): Promise<CurrencySettings | undefined>;
+  updateCurrencySettings(baseCurrency: string): Promise<CurrencySettings>;
+  getExchangeRates(): Promise<ExchangeRate[]>;
+  createExchangeRate(rate: InsertExchangeRate): Promise<ExchangeRate>;
+  deleteExchangeRate(id: string): Promise<boolean>;
+
+  // Quotas
+  getQuotas(filters: { periodType: string; periodStart: Date; userIds?: string[] }): Promise<Quota[]>;
+  getQuota(id: string): Promise<Quota | undefined>;
+  upsertQuota(quota: InsertQuota): Promise<Quota>;
+  deleteQuota(id: string): Promise<void>;
+  getWonDealsClosedBetween(ownerIds: string[], start: Date, end: Date): Promise<Deal[]>;
+  getCompletedTaskCounts(userIds: string[], start: Date, end: Date): Promise<Record<string, number>>;
+
+  // Roles
+  getRoles(): Promise<Role[]>;
+  getRole(key: string): Promise<Role | undefined>;
+  upsertRole(role: InsertRole): Promise<Role>;
+  deleteRole(key: string): Promise<void>;
+
+  // Onboarding
+  getAuthSettings(): Promise<AuthSettings | undefined>;
+  updateAuthSettings(updates: { openRegistration: number }): Promise<AuthSettings>;
+  getPendingInvitations(): Promise<UserInvitation[]>;
+  getInvitation(id: string): Promise<UserInvitation | undefined>;
+  getInvitationByTokenHash(tokenHash: string): Promise<UserInvitation | undefined>;
+  getPendingInvitationByEmail(email: string): Promise<UserInvitation | undefined>;
+  createInvitation(invitation: InsertUserInvitation): Promise<UserInvitation>;
+  updateInvitation(id: string, updates: Partial<UserInvitation>): Promise<UserInvitation | undefined>;
+  createPasswordResetToken(userId: string, tokenHash: string, expiresAt: Date): Promise<PasswordResetToken>;
+  getPasswordResetTokenByHash(tokenHash: string): Promise<PasswordResetToken | undefined>;
+  markPasswordResetTokenUsed(id: string): Promise<boolean>;
+  expirePasswordResetTokens(userId: string): Promise<void>;
 }
 
 export class DatabaseStorage implements IStorage {
@@ -247,13 +418,118 @@ export class DatabaseStorage implements IStorage {
     return lead || undefined;
   }
 
+  async searchLeads(user: { id: string; role: string }, params: LeadSearchParams): Promise<LeadPage<Lead>> {
+    const where = and(...(await this.leadSearchConditions(user, params)));
+    const [{ total }] = await db.select({ total: sql<number>`count(*)::int` }).from(leads).where(where);
+
+    // The id breaks ties so the cursor always points at exactly one row
+    const sorts = params.sort?.length ? params.sort : [{ field: "createdAt" as const, direction: "desc" as const }];
+    const keys = [
+      ...sorts.map(s => ({ expr: leadSortExpression(s.field), direction: s.direction })),
+      { expr: sql`${leads.id}`, direction: "asc" as const },
+    ];
+
+    const pageWhere = params.cursor ? and(where, keysetAfter(keys, params.cursor)) : where;
+    const rows = await db
+      .select()
+      .from(leads)
+      .where(pageWhere)
+      .orderBy(...keys.map(k => (k.direction === "asc" ? asc(k.expr) : desc(k.expr))))
+      .limit(params.limit + 1);
+
+    const page = rows.slice(0, params.limit);
+    const last = page[page.length - 1];
+    return {
+      leads: page,
+      total,
+      nextCursor: rows.length > params.limit && last
+        ? encodeLeadCursor([...sorts.map(s => leadSortValue(s.field, last)), last.id])
+        : null,
+    };
+  }
+
+  async leadMatchesSearch(user: { id: string; role: string }, params: LeadSearchParams, leadId: string): Promise<boolean> {
+    const conditions = await this.leadSearchConditions(user, params);
+    const [match] = await db
+      .select({ id: leads.id })
+      .from(leads)
+      .where(and(eq(leads.id, leadId), ...conditions))
+      .limit(1);
+    return !!match;
+  }
+
+  /**
+   * WHERE conditions for a lead search, always limited to leads the user can access
+   */
+  private async leadSearchConditions(user: { id: string; role: string }, params: LeadSearchParams): Promise<SQL[]> {
+    const { default: PermissionService } = await import("./permissions.js");
+    const accessibleUserIds = await PermissionService.getAccessibleUserIds(user as any);
+
+    const filters: SQL[] = [
+      sql`${leads.ownerId} IN (${sql.join(accessibleUserIds.map(id => sql`${id}`), sql`, `)})`,
+    ];
+
+    // Every word has to appear in at least one of the searchable columns
+    for (const word of (params.q || "").split(/\s+/).filter(Boolean)) {
+      const pattern = `%${word}%`;
+      filters.push(or(
+        ilike(leads.name, pattern),
+        ilike(leads.email, pattern),
+        ilike(leads.company, pattern),
+        ilike(leads.position, pattern)
+      )!);
+    }
+
+    if (params.status?.length) filters.push(inArray(leads.status, params.status));
+    if (params.ownerId?.length) filters.push(inArray(leads.ownerId, params.ownerId));
+    if (params.industry?.length) filters.push(inArray(sql`lower(${leads.industry})`, params.industry.map(v => v.toLowerCase())));
+    if (params.country?.length) filters.push(inArray(sql`lower(${leads.country})`, params.country.map(v => v.toLowerCase())));
+    if (params.tags?.length) {
+      filters.push(sql`${leads.tags} && ARRAY[${sql.join(params.tags.map(t => sql`${t}`), sql`, `)}]::text[]`);
+    }
+    if (params.minScore !== undefined) filters.push(gte(leads.score, params.minScore));
+    if (params.maxScore !== undefined) filters.push(lte(leads.score, params.maxScore));
+    if (params.createdFrom) filters.push(gte(leads.createdAt, params.createdFrom));
+    if (params.createdTo) filters.push(lte(leads.createdAt, params.createdTo));
+    if (params.lastContactedFrom) filters.push(gte(leads.lastContactedAt, params.lastContactedFrom));
+    if (params.lastContactedTo) filters.push(lte(leads.lastContactedAt, params.lastContactedTo));
+    for (const [key, value] of Object.entries(params.customFields)) {
+      filters.push(sql`lower(${leads.customFields} ->> ${key}) = ${value.toLowerCase()}`);
+    }
+
+    return filters;
+  }
+
+  async findLeadByEmail(user: { id: string; role: string }, email: string): Promise<Lead | undefined> {
+    const { default: PermissionService } = await import("./permissions.js");
+    const accessibleUserIds = await PermissionService.getAccessibleUserIds(user as any);
+
+    const [lead] = await db
+      .select()
+      .from(leads)
+      .where(and(
+        sql`lower(${leads.email}) = ${email.toLowerCase()}`,
+        sql`${leads.ownerId} IN (${sql.join(accessibleUserIds.map(id => sql`${id}`), sql`, `)})`
+      ))
+      .limit(1);
+    return lead || undefined;
+  }
+
   async createLead(insertLead: InsertLead): Promise<Lead> {
-    const [lead] = await db.insert(leads).values(insertLead).returning();
+    // Link to the company for the lead's domain, creating it on first sight
+    const domain = insertLead.companyId ? null : companyDomainForLead(insertLead);
+    const company = domain ? await this.findOrCreateCompany(companyFromLead(insertLead as Partial<Lead>, domain)) : undefined;
+    const values = company ? { ...insertLead, ...leadFieldsFromCompany(company), companyId: company.id } : insertLead;
+
+    const [lead] = await db.insert(leads).values(values).returning();
     return lead;
   }
 
   async updateLead(id: string, updates: Partial<InsertLead>): Promise<Lead | undefined> {
     console.log(`[Storage.updateLead] Called with id: ${id}, updates:`, updates);
+    if (updates.companyId === undefined && ("email" in updates || "companyDomain" in updates || "companyWebsite" in updates)) {
+      updates = await this.relinkCompany(id, updates);
+    }
     const [lead] = await db
       .update(leads)
       .set({ ...updates, updatedAt: new Date() })
@@ -263,6 +539,19 @@ export class DatabaseStorage implements IStorage {
     return lead || undefined;
   }
 
+  // Point the lead at the company for its new domain; the company's values replace the lead's company columns
+  private async relinkCompany(id: string, updates: Partial<InsertLead>): Promise<Partial<InsertLead>> {
+    const current = await this.getLeadById(id);
+    if (!current) return updates;
+
+    const next = { ...current, ...updates } as Lead;
+    const domain = companyDomainForLead(next);
+    if (!domain) return updates;
+    const company = await this.findOrCreateCompany(companyFromLead(next, domain));
+    if (company.id === current.companyId) return updates;
+    return { ...updates, ...(leadFieldsFromCompany(company) as Partial<InsertLead>), companyId: company.id };
+  }
+
   async deleteLead(id: string): Promise<void> {
     await db.delete(leads).where(eq(leads.id, id));
   }
@@ -271,6 +560,15 @@ export class DatabaseStorage implements IStorage {
     return db.select().from(leads).where(eq(leads.ownerId, ownerId)).orderBy(desc(leads.createdAt));
   }
 
+  async getAllLeads(): Promise<Lead[]> {
+    return db.select().from(leads).orderBy(desc(leads.createdAt));
+  }
+
+  async getLeadById(id: string): Promise<Lead | undefined> {
+    const [lead] = await db.select().from(leads).where(eq(leads.id, id));
+    return lead || undefined;
+  }
+
   async getConversations(user: AuthUser): Promise<Conversation[]> {
     // Get all leads accessible by this user
     const accessibleLeads = await this.getLeads(user);
@@ -296,6 +594,59 @@ export class DatabaseStorage implements IStorage {
       .orderBy(desc(conversations.sentAt));
   }
 
+  async getConversationsBetween(from: Date, to: Date): Promise<Conversation[]> {
+    return db
+      .select()
+      .from(conversations)
+      .where(and(gte(conversations.sentAt, from), lte(conversations.sentAt, to)))
+      .orderBy(conversations.sentAt);
+  }
+
+  async getConversationByMessageId(
+    leadId: string,
+    messageId: string,
+    internetMessageId?: string | null
+  ): Promise<Conversation | undefined> {
+    // The Graph id changes when a message moves folders; the Message-ID header does not
+    const sameMessage = internetMessageId
+      ? or(eq(conversations.messageId, messageId), eq(conversations.internetMessageId, internetMessageId))
+      : eq(conversations.messageId, messageId);
+    const [conversation] = await db
+      .select()
+      .from(conversations)
+      .where(and(eq(conversations.leadId, leadId), sameMessage));
+    return conversation || undefined;
+  }
+
+  async getUnsyncedSentConversation(leadId: string, subject: string, sentAt: Date): Promise<Conversation | undefined> {
+    // Mail sent from the CRM before sends recorded a Message-ID: match on subject and time
+    const window = 10 * 60 * 1000;
+    const [conversation] = await db
+      .select()
+      .from(conversations)
+      .where(and(
+        eq(conversations.leadId, leadId),
+        eq(conversations.isFromLead, 0),
+        isNull(conversations.internetMessageId),
+        or(isNull(conversations.messageId), sql`${conversations.messageId} LIKE 'sent%'`),
+        eq(conversations.subject, subject),
+        gte(conversations.sentAt, new Date(sentAt.getTime() - window)),
+        lte(conversations.sentAt, new Date(sentAt.getTime() + window)),
+      ))
+      .orderBy(conversations.sentAt)
+      .limit(1);
+    return conversation || undefined;
+  }
+
+  async updateConversation(id: string, updates: Partial<InsertConversation>): Promise<Conversation | undefined> {
+    const [conversation] = await db
+      .update(conversations)
+      .set(updates)
+      .where(eq(conversations.id, id))
+      .returning();
+    return conversation || undefined;
+  }
+
   async createConversation(insertConversation: InsertConversation): Promise<Conversation> {
     const [conversation] = await db
       .insert(conversations)
@@ -312,6 +663,14 @@ export class DatabaseStorage implements IStorage {
       .orderBy(desc(leadScores.analyzedAt));
   }
 
+  async getLeadScoresBetween(from: Date, to: Date): Promise<LeadScore[]> {
+    return db
+      .select()
+      .from(leadScores)
+      .where(and(gte(leadScores.analyzedAt, from), lte(leadScores.analyzedAt, to)))
+      .orderBy(leadScores.analyzedAt);
+  }
+
   async createLeadScore(insertScore: InsertLeadScore): Promise<LeadScore> {
     const [score] = await db.insert(leadScores).values(insertScore).returning();
     return score;
@@ -337,7 +696,7 @@ export class DatabaseStorage implements IStorage {
     // Legacy method - get first sync state record (system-wide MS365 configuration)
     // Kept for backward compatibility
     const results = await db.select().from(syncState).limit(1);
-    return results[0];
+    return results[0] && openSyncState(results[0]);
   }
 
   async updateSyncState(data: Partial<SyncState>): Promise<SyncState> {
@@ -347,14 +706,14 @@ export class DatabaseStorage implements IStorage {
       // Update existing record
       const updated = await db
         .update(syncState)
-        .set(data)
+        .set(sealSyncState(data))
         .where(eq(syncState.id, existing.id))
         .returning();
-      return updated[0];
+      return openSyncState(updated[0]);
     }
     // Create new record
-    const created = await db.insert(syncState).values(data).returning();
-    return created[0];
+    const created = await db.insert(syncState).values(sealSyncState(data)).returning();
+    return openSyncState(created[0]);
   }
 
   async getSyncStateForUser(userId: string): Promise<SyncState | undefined> {
@@ -364,7 +723,16 @@ export class DatabaseStorage implements IStorage {
       .from(syncState)
       .where(eq(syncState.userId, userId))
       .limit(1);
-    return result || undefined;
+    return result ? openSyncState(result) : undefined;
+  }
+
+  async getSyncStateBySubscriptionId(subscriptionId: string): Promise<SyncState | undefined> {
+    const [result] = await db
+      .select()
+      .from(syncState)
+      .where(eq(syncState.subscriptionId, subscriptionId))
+      .limit(1);
+    return result ? openSyncState(result) : undefined;
   }
 
   async updateSyncStateForUser(userId: string, data: Partial<SyncState>): Promise<SyncState> {
@@ -373,17 +741,17 @@ export class DatabaseStorage implements IStorage {
       // Update existing record for this user
       const [updated] = await db
         .update(syncState)
-        .set(data)
+        .set(sealSyncState(data))
         .where(eq(syncState.id, existing.id))
         .returning();
-      return updated;
+      return openSyncState(updated);
     }
     // Create new record for this user
     const [created] = await db
       .insert(syncState)
-      .values({ ...data, userId })
+      .values({ ...sealSyncState(data), userId })
       .returning();
-    return created;
+    return openSyncState(created);
   }
 
   async getEmailTemplates(): Promise<EmailTemplate[]> {
@@ -422,6 +790,11 @@ export class DatabaseStorage implements IStorage {
     return user || undefined;
   }
 
+  async getUserByEmail(email: string): Promise<User | undefined> {
+    const [user] = await db.select().from(users).where(sql`lower(${users.email}) = ${email.toLowerCase()}`);
+    return user || undefined;
+  }
+
   async createUser(insertUser: InsertUser): Promise<User> {
     const [user] = await db.insert(users).values(insertUser).returning();
     return user;
@@ -466,6 +839,16 @@ export class DatabaseStorage implements IStorage {
     await db.delete(assignmentRules).where(eq(assignmentRules.id, id));
   }
 
+  async advanceRoundRobinCursor(id: string): Promise<number> {
+    // Increment atomically so concurrent lead creations never hand out the same slot
+    const [rule] = await db
+      .update(assignmentRules)
+      .set({ roundRobinCursor: sql`${assignmentRules.roundRobinCursor} + 1` })
+      .where(eq(assignmentRules.id, id))
+      .returning({ roundRobinCursor: assignmentRules.roundRobinCursor });
+    return rule ? rule.roundRobinCursor - 1 : 0;
+  }
+
   async getLeadAssignment(leadId: string): Promise<LeadAssignment | undefined> {
     const [assignment] = await db
       .select()
@@ -493,6 +876,21 @@ export class DatabaseStorage implements IStorage {
     return db.select().from(tasks).orderBy(desc(tasks.createdAt));
   }
 
+  async getTasksForUser(user: { id: string; role: string }): Promise<Task[]> {
+    const { default: PermissionService } = await import("./permissions.js");
+    const accessibleUserIds = await PermissionService.getAccessibleUserIds(user as any);
+
+    // Tasks on accessible leads, plus tasks assigned to the user
+    return db
+      .select()
+      .from(tasks)
+      .where(or(
+        sql`${tasks.leadId} IN (SELECT ${leads.id} FROM ${leads} WHERE ${leads.ownerId} IN (${sql.join(accessibleUserIds.map(id => sql`${id}`), sql`, `)}))`,
+        eq(tasks.assignedToUserId, user.id)
+      ))
+      .orderBy(desc(tasks.createdAt));
+  }
+
   async getTask(id: string): Promise<Task | undefined> {
     const [task] = await db.select().from(tasks).where(eq(tasks.id, id));
     return task || undefined;
@@ -624,6 +1022,8 @@ export class DatabaseStorage implements IStorage {
     maxAmount?: number;
     fromDate?: Date;
     toDate?: Date;
+    ids?: string[];
+    companyId?: string;
   }): Promise<Deal[]> {
     // Import PermissionService to get accessible user IDs
     const { default: PermissionService } = await import("./permissions.js");
@@ -647,10 +1047,12 @@ export class DatabaseStorage implements IStorage {
     if (filters?.status) {
       conditions.push(eq(deals.status, filters.status));
     }
-    if (filters?.minAmount !== undefined) {
+    // Filtering on an amount the role cannot see would reveal it, so those filters are ignored
+    const amountHidden = PermissionService.hiddenFields(user as any, "deals").includes("amount");
+    if (filters?.minAmount !== undefined && !amountHidden) {
       conditions.push(gte(deals.amount, filters.minAmount));
     }
-    if (filters?.maxAmount !== undefined) {
+    if (filters?.maxAmount !== undefined && !amountHidden) {
       conditions.push(lte(deals.amount, filters.maxAmount));
     }
     if (filters?.fromDate) {
@@ -659,6 +1061,18 @@ export class DatabaseStorage implements IStorage {
     if (filters?.toDate) {
       conditions.push(lte(deals.expectedCloseDate, filters.toDate));
     }
+    if (filters?.ids) {
+      if (filters.ids.length === 0) return [];
+      conditions.push(inArray(deals.id, filters.ids));
+    }
+    if (filters?.companyId) {
+      // Deals whose primary lead or any buying-committee contact works at the company
+      const companyLeads = sql`SELECT ${leads.id} FROM ${leads} WHERE ${leads.companyId} = ${filters.companyId}`;
+      conditions.push(or(
+        sql`${deals.leadId} IN (${companyLeads})`,
+        sql`${deals.id} IN (SELECT ${dealContacts.dealId} FROM ${dealContacts} WHERE ${dealContacts.leadId} IN (${companyLeads}))`
+      )!);
+    }
 
     return db.select().from(deals).where(and(...conditions)).orderBy(desc(deals.createdAt));
   }
@@ -678,15 +1092,33 @@ export class DatabaseStorage implements IStorage {
     return deal || undefined;
   }
 
+  async getAllDeals(): Promise<Deal[]> {
+    return db.select().from(deals).orderBy(desc(deals.createdAt));
+  }
+
+  async getDealById(id: string): Promise<Deal | undefined> {
+    const [deal] = await db.select().from(deals).where(eq(deals.id, id));
+    return deal || undefined;
+  }
+
   async createDeal(insertDeal: InsertDeal): Promise<Deal> {
     const [deal] = await db.insert(deals).values(insertDeal).returning();
     return deal;
   }
 
   async updateDeal(id: string, updates: Partial<InsertDeal>): Promise<Deal | undefined> {
+    const changes = { ...updates };
+    // Closing a deal records when, which quotas and won-deal conversion rely on; reopening clears it
+    if (changes.status !== undefined && changes.actualCloseDate === undefined) {
+      const current = await this.getDealById(id);
+      if (current && current.status !== changes.status) {
+        changes.actualCloseDate = changes.status === "open" ? null : new Date();
+      }
+    }
+
     const [deal] = await db
       .update(deals)
-      .set({ ...updates, updatedAt: new Date() })
+      .set({ ...changes, updatedAt: new Date() })
       .where(eq(deals.id, id))
       .returning();
     return deal || undefined;
@@ -697,7 +1129,7 @@ export class DatabaseStorage implements IStorage {
   }
 
   async moveDealToStage(dealId: string, toStageId: string, movedById?: string): Promise<Deal | undefined> {
-    const deal = await this.getDeal(dealId);
+    const deal = await this.getDealById(dealId);
     if (!deal) return undefined;
 
     const toStage = await this.getStage(toStageId);
@@ -733,6 +1165,18 @@ export class DatabaseStorage implements IStorage {
       .orderBy(desc(dealStageHistory.createdAt));
   }
 
+  async getDealStageHistoryBetween(from: Date, to: Date): Promise<DealStageHistory[]> {
+    return db
+      .select()
+      .from(dealStageHistory)
+      .where(and(
+        gte(dealStageHistory.createdAt, from),
+        lte(dealStageHistory.createdAt, to),
+        isNotNull(dealStageHistory.fromStageId)
+      ))
+      .orderBy(dealStageHistory.createdAt);
+  }
+
   async createDealStageHistory(insertHistory: InsertDealStageHistory): Promise<DealStageHistory> {
     const [history] = await db.insert(dealStageHistory).values(insertHistory).returning();
     return history;
@@ -783,6 +1227,30 @@ export class DatabaseStorage implements IStorage {
     return log;
   }
 
+  // Suppressed entries are not executions and never count
+  async getLastAutomationExecution(ruleId: string, entityKey: string, successfulOnly = false): Promise<AutomationLog | undefined> {
+    const [log] = await db
+      .select()
+      .from(automationLogs)
+      .where(and(
+        eq(automationLogs.ruleId, ruleId),
+        eq(automationLogs.entityKey, entityKey),
+        isNull(automationLogs.suppressedReason),
+        successfulOnly ? eq(automationLogs.success, 1) : undefined
+      ))
+      .orderBy(desc(automationLogs.executedAt))
+      .limit(1);
+    return log || undefined;
+  }
+
+  async getAutomationLogsByChain(chainId: string): Promise<AutomationLog[]> {
+    return db
+      .select()
+      .from(automationLogs)
+      .where(eq(automationLogs.chainId, chainId))
+      .orderBy(automationLogs.executedAt);
+  }
+
   // Helper methods
   async getConversation(id: string): Promise<Conversation | undefined> {
     const [conversation] = await db.select().from(conversations).where(eq(conversations.id, id));
@@ -845,13 +1313,13 @@ export class DatabaseStorage implements IStorage {
 
     const [session] = await db.insert(linkedInSessions).values({
       userId,
-      cookies: cookies, // Stored as JSONB
+      cookies: encryptJson(cookies), // Encrypted string in the JSONB column
       isValid: 1,
       expiresAt,
       lastUsedAt: new Date(),
     }).returning();
 
-    return session;
+    return { ...session, cookies };
   }
 
   async getLinkedInSession(userId: string = "default"): Promise<LinkedInSession | undefined> {
@@ -875,7 +1343,7 @@ export class DatabaseStorage implements IStorage {
         .where(eq(linkedInSessions.id, session.id));
     }
 
-    return session || undefined;
+    return session ? { ...session, cookies: decryptJson(session.cookies) } : undefined;
   }
 
   async deleteLinkedInSession(userId: string = "default"): Promise<void> {
@@ -956,7 +1424,791 @@ export class DatabaseStorage implements IStorage {
     return log;
   }
 
+  // Background Jobs
+  async createJob(insertJob: InsertJob): Promise<Job> {
+    const [job] = await db.insert(jobs).values(insertJob).returning();
+    return job;
+  }
+
+  async getJob(id: string): Promise<Job | undefined> {
+    const [job] = await db.select().from(jobs).where(eq(jobs.id, id));
+    return job || undefined;
+  }
+
+  async getJobs(filters?: { status?: string; type?: string; limit?: number }): Promise<Job[]> {
+    const conditions = [];
+    if (filters?.status) {
+      conditions.push(eq(jobs.status, filters.status));
+    }
+    if (filters?.type) {
+      conditions.push(eq(jobs.type, filters.type));
+    }
+
+    return db
+      .select()
+      .from(jobs)
+      .where(conditions.length > 0 ? and(...conditions) : undefined)
+      .orderBy(desc(jobs.createdAt))
+      .limit(filters?.limit || 100);
+  }
+
+  async getJobCounts(): Promise<Array<{ type: string; status: string; count: number }>> {
+    return db
+      .select({
+        type: jobs.type,
+        status: jobs.status,
+        count: sql<number>`count(*)::int`,
+      })
+      .from(jobs)
+      .groupBy(jobs.type, jobs.status);
+  }
+
+  async findPendingJobByKey(uniqueKey: string): Promise<Job | undefined> {
+    const [job] = await db
+      .select()
+      .from(jobs)
+      .where(and(eq(jobs.uniqueKey, uniqueKey), eq(jobs.status, "pending")))
+      .limit(1);
+    return job || undefined;
+  }
+
+  async claimNextJob(type: string, workerId: string): Promise<Job | undefined> {
+    // SKIP LOCKED lets several workers poll the same table without handing out a job twice
+    const [job] = await db
+      .update(jobs)
+      .set({
+        status: "running",
+        lockedAt: new Date(),
+        lockedBy: workerId,
+        attempts: sql`${jobs.attempts} + 1`,
+        updatedAt: new Date(),
+      })
+      .where(sql`${jobs.id} = (
+        SELECT ${jobs.id} FROM ${jobs}
+        WHERE ${jobs.type} = ${type}
+          AND ${jobs.status} = 'pending'
+          AND ${jobs.runAt} <= now()
+        ORDER BY ${jobs.runAt}
+        LIMIT 1
+        FOR UPDATE SKIP LOCKED
+      )`)
+      .returning();
+    return job || undefined;
+  }
+
+  async updateJob(id: string, updates: Partial<Job>): Promise<Job | undefined> {
+    const [job] = await db
+      .update(jobs)
+      .set({ ...updates, updatedAt: new Date() })
+      .where(eq(jobs.id, id))
+      .returning();
+    return job || undefined;
+  }
+
+  async releaseStaleJobs(lockedBefore: Date): Promise<number> {
+    // Jobs whose worker died mid-run go back to the queue; the attempt still counts
+    const released = await db
+      .update(jobs)
+      .set({ status: "pending", lockedAt: null, lockedBy: null, updatedAt: new Date() })
+      .where(and(eq(jobs.status, "running"), lt(jobs.lockedAt, lockedBefore)))
+      .returning({ id: jobs.id });
+    return released.length;
+  }
+
+
+  // Saved Views
+  async getSavedViews(userId: string): Promise<SavedView[]> {
+    return db
+      .select()
+      .from(savedViews)
+      .where(or(eq(savedViews.ownerId, userId), eq(savedViews.visibility, "team")))
+      .orderBy(savedViews.entityType, savedViews.name);
+  }
+
+  async getSavedView(id: string): Promise<SavedView | undefined> {
+    const [view] = await db.select().from(savedViews).where(eq(savedViews.id, id));
+    return view || undefined;
+  }
+
+  async createSavedView(insertView: InsertSavedView & { ownerId: string }): Promise<SavedView> {
+    const [view] = await db.insert(savedViews).values(insertView).returning();
+    return view;
+  }
+
+  async updateSavedView(id: string, updates: Partial<InsertSavedView>): Promise<SavedView | undefined> {
+    const [view] = await db
+      .update(savedViews)
+      .set({ ...updates, updatedAt: new Date() })
+      .where(eq(savedViews.id, id))
+      .returning();
+    return view || undefined;
+  }
+
+  async deleteSavedView(id: string): Promise<void> {
+    await db.delete(savedViews).where(eq(savedViews.id, id));
+  }
+
+  // Lead Imports
+  async getLeadImports(createdBy?: string): Promise<Omit<LeadImport, "rows">[]> {
+    const { rows, ...columns } = getTableColumns(leadImports);
+    return db
+      .select(columns)
+      .from(leadImports)
+      .where(createdBy ? eq(leadImports.createdBy, createdBy) : undefined)
+      .orderBy(desc(leadImports.createdAt))
+      .limit(50);
+  }
+
+  async getLeadImport(id: string): Promise<LeadImport | undefined> {
+    const [leadImport] = await db.select().from(leadImports).where(eq(leadImports.id, id));
+    return leadImport || undefined;
+  }
+
+  async createLeadImport(insertImport: InsertLeadImport): Promise<LeadImport> {
+    const [leadImport] = await db.insert(leadImports).values(insertImport).returning();
+    return leadImport;
+  }
+
+  async updateLeadImport(id: string, updates: Partial<LeadImport>): Promise<LeadImport | undefined> {
+    const [leadImport] = await db
+      .update(leadImports)
+      .set(updates)
+      .where(eq(leadImports.id, id))
+      .returning();
+    return leadImport || undefined;
+  }
+
+  async getLeadImportItems(importId: string): Promise<LeadImportItem[]> {
+    return db
+      .select()
+      .from(leadImportItems)
+      .where(eq(leadImportItems.importId, importId))
+      .orderBy(desc(leadImportItems.createdAt));
+  }
+
+  async createLeadImportItem(insertItem: InsertLeadImportItem): Promise<LeadImportItem> {
+    const [item] = await db.insert(leadImportItems).values(insertItem).returning();
+    return item;
+  }
+
+  // keys are normalized the same way as dedupeKey() in shared/lead-import.ts
+  async findLeadsForDedupe(user: { id: string; role: string }, field: DedupeField, keys: string[]): Promise<Lead[]> {
+    if (keys.length === 0) return [];
+    const { default: PermissionService } = await import("./permissions.js");
+    const accessibleUserIds = await PermissionService.getAccessibleUserIds(user as any);
+
+    const column = field === "email"
+      ? sql`lower(${leads.email})`
+      : sql`regexp_replace(regexp_replace(lower(${leads.linkedinUrl}), '^https?://(www\\.)?', ''), '/+$', '')`;
+
+    return db
+      .select()
+      .from(leads)
+      .where(and(
+        sql`${column} IN (${sql.join(keys.map(key => sql`${key}`), sql`, `)})`,
+        sql`${leads.ownerId} IN (${sql.join(accessibleUserIds.map(id => sql`${id}`), sql`, `)})`
+      ));
+  }
+
+  // Duplicate leads
+  async getDuplicateDismissals(): Promise<LeadDuplicateDismissal[]> {
+    return db.select().from(leadDuplicateDismissals);
+  }
+
+  async dismissDuplicatePairs(pairs: Array<[string, string]>, dismissedBy: string): Promise<void> {
+    if (pairs.length === 0) return;
+    await db
+      .insert(leadDuplicateDismissals)
+      .values(pairs.map(([leadIdA, leadIdB]) => ({ leadIdA, leadIdB, dismissedBy })))
+      .onConflictDoNothing();
+  }
+
+  async mergeLeads(survivorId: string, mergedIds: string[], updates: Partial<Lead>): Promise<Lead> {
+    return db.transaction(async (tx) => {
+      // Everything that points at a lead moves to the survivor; import items and
+      // dismissals of the merged leads are dropped with them (cascade)
+      const related = [
+        conversations,
+        leadScores,
+        activities,
+        tasks,
+        deals,
+        apolloEnrichments,
+        saleshandySequences,
+        leadAssignments,
+        automationLogs,
+        snovioLogs,
+      ];
+      for (const table of related) {
+        await tx.update(table).set({ leadId: survivorId }).where(inArray(table.leadId, mergedIds));
+      }
+      // A deal lists each contact once: keep the survivor's row (or the first merged lead's) per deal
+      const mergedList = sql.join(mergedIds.map(id => sql`${id}`), sql`, `);
+      await tx.execute(sql`
+        DELETE FROM deal_contacts dc
+        WHERE dc.lead_id IN (${mergedList}) AND EXISTS (
+          SELECT 1 FROM deal_contacts other
+          WHERE other.deal_id = dc.deal_id AND other.id <> dc.id
+            AND (other.lead_id = ${survivorId} OR (other.lead_id IN (${mergedList}) AND other.id < dc.id))
+        )
+      `);
+      await tx.update(dealContacts).set({ leadId: survivorId }).where(inArray(dealContacts.leadId, mergedIds));
+
+      await tx.delete(leads).where(inArray(leads.id, mergedIds));
+      const [lead] = await tx
+        .update(leads)
+        .set({ ...updates, updatedAt: new Date() })
+        .where(eq(leads.id, survivorId))
+        .returning();
+      return lead;
+    });
+  }
+
+  // Exports
+  async getTasksForExport(
+    user: { id: string; role: string },
+    filters: TaskExportFilters,
+    page: { limit: number; offset: number }
+  ): Promise<Task[]> {
+    const { default: PermissionService } = await import("./permissions.js");
+    const accessibleUserIds = await PermissionService.getAccessibleUserIds(user as any);
+
+    // Tasks on accessible leads, plus tasks assigned to the user
+    const conditions: SQL[] = [
+      or(
+        sql`${tasks.leadId} IN (SELECT ${leads.id} FROM ${leads} WHERE ${leads.ownerId} IN (${sql.join(accessibleUserIds.map(id => sql`${id}`), sql`, `)}))`,
+        eq(tasks.assignedToUserId, user.id)
+      )!,
+    ];
+    if (filters.status) conditions.push(eq(tasks.status, filters.status));
+    if (filters.priority) conditions.push(eq(tasks.priority, filters.priority));
+    if (filters.assignedToUserId) conditions.push(eq(tasks.assignedToUserId, filters.assignedToUserId));
+    if (filters.leadId) conditions.push(eq(tasks.leadId, filters.leadId));
+    if (filters.dueFrom) conditions.push(gte(tasks.dueDate, filters.dueFrom));
+    if (filters.dueTo) conditions.push(lte(tasks.dueDate, filters.dueTo));
+
+    return db
+      .select()
+      .from(tasks)
+      .where(and(...conditions))
+      .orderBy(asc(tasks.createdAt), asc(tasks.id))
+      .limit(page.limit)
+      .offset(page.offset);
+  }
+
+  async getConversationsForExport(
+    user: { id: string; role: string },
+    filters: ConversationExportFilters,
+    page: { limit: number; offset: number }
+  ): Promise<Conversation[]> {
+    const { default: PermissionService } = await import("./permissions.js");
+    const accessibleUserIds = await PermissionService.getAccessibleUserIds(user as any);
+
+    const conditions: SQL[] = [
+      sql`${conversations.leadId} IN (SELECT ${leads.id} FROM ${leads} WHERE ${leads.ownerId} IN (${sql.join(accessibleUserIds.map(id => sql`${id}`), sql`, `)}))`,
+    ];
+    if (filters.leadId) conditions.push(eq(conversations.leadId, filters.leadId));
+    if (filters.direction) conditions.push(eq(conversations.isFromLead, filters.direction === "inbound" ? 1 : 0));
+    if (filters.sentFrom) conditions.push(gte(conversations.sentAt, filters.sentFrom));
+    if (filters.sentTo) conditions.push(lte(conversations.sentAt, filters.sentTo));
+
+    return db
+      .select()
+      .from(conversations)
+      .where(and(...conditions))
+      .orderBy(asc(conversations.sentAt), asc(conversations.id))
+      .limit(page.limit)
+      .offset(page.offset);
+  }
+
+  // Companies
+  async getCompanies(user: { id: string; role: string }, search?: string): Promise<CompanyWithCounts[]> {
+    const { default: PermissionService } = await import("./permissions.js");
+    const accessibleUserIds = await PermissionService.getAccessibleUserIds(user as any);
+    const accessible = sql.join(accessibleUserIds.map(id => sql`${id}`), sql`, `);
+
+    const contactCount = sql<number>`(
+      SELECT count(*) FROM ${leads}
+      WHERE ${leads.companyId} = ${companies.id} AND ${leads.ownerId} IN (${accessible})
+    )`.mapWith(Number);
+    const openDeals = sql`
+      FROM ${deals} JOIN ${leads} ON ${leads.id} = ${deals.leadId}
+      WHERE ${leads.companyId} = ${companies.id} AND ${deals.status} = 'open' AND ${deals.ownerId} IN (${accessible})
+    `;
+
+    const conditions: SQL[] = [
+      or(
+        sql`${contactCount} > 0`,
+        sql`${companies.ownerId} IN (${accessible})`
+      )!,
+    ];
+    for (const word of (search || "").split(/\s+/).filter(Boolean)) {
+      conditions.push(or(ilike(companies.name, `%${word}%`), ilike(companies.domain, `%${word}%`))!);
+    }
+
+    return db
+      .select({
+        ...getTableColumns(companies),
+        contactCount,
+        openDealCount: sql<number>`(SELECT count(*) ${openDeals})`.mapWith(Number),
+        pipelineValue: sql<number>`(SELECT coalesce(sum(${deals.amount}), 0) ${openDeals})`.mapWith(Number),
+      })
+      .from(companies)
+      .where(and(...conditions))
+      .orderBy(asc(companies.name));
+  }
+
+  async getCompany(id: string): Promise<Company | undefined> {
+    const [company] = await db.select().from(companies).where(eq(companies.id, id));
+    return company || undefined;
+  }
+
+  async getCompanyByDomain(domain: string): Promise<Company | undefined> {
+    const [company] = await db.select().from(companies).where(eq(companies.domain, domain));
+    return company || undefined;
+  }
+
+  async findOrCreateCompany(company: Partial<Company> & { name: string; domain: string }): Promise<Company> {
+    // The unique domain makes concurrent creates for the same domain settle on one row
+    const [created] = await db.insert(companies).values(company).onConflictDoNothing().returning();
+    return created || (await this.getCompanyByDomain(company.domain))!;
+  }
+
+  async updateCompany(id: string, updates: Partial<Company>): Promise<Company | undefined> {
+    const [company] = await db
+      .update(companies)
+      .set({ ...updates, updatedAt: new Date() })
+      .where(eq(companies.id, id))
+      .returning();
+    return company || undefined;
+  }
+
+  async getCompanyLeads(user: { id: string; role: string }, companyId: string): Promise<Lead[]> {
+    const { default: PermissionService } = await import("./permissions.js");
+    const accessibleUserIds = await PermissionService.getAccessibleUserIds(user as any);
+
+    return db
+      .select()
+      .from(leads)
+      .where(and(
+        eq(leads.companyId, companyId),
+        sql`${leads.ownerId} IN (${sql.join(accessibleUserIds.map(id => sql`${id}`), sql`, `)})`
+      ))
+      .orderBy(asc(leads.name));
+  }
+
+  async getConversationsByLeadIds(leadIds: string[], limit: number): Promise<Conversation[]> {
+    if (leadIds.length === 0) return [];
+    return db
+      .select()
+      .from(conversations)
+      .where(inArray(conversations.leadId, leadIds))
+      .orderBy(desc(conversations.sentAt))
+      .limit(limit);
+  }
+
+  async updateCompanyLeads(companyId: string, updates: Partial<Lead>): Promise<number> {
+    const updated = await db
+      .update(leads)
+      .set({ ...updates, updatedAt: new Date() })
+      .where(eq(leads.companyId, companyId))
+      .returning({ id: leads.id });
+    return updated.length;
+  }
+
+  async getLeadsWithoutCompany(afterId: string | null, limit: number): Promise<Lead[]> {
+    return db
+      .select()
+      .from(leads)
+      .where(and(isNull(leads.companyId), afterId ? sql`${leads.id} > ${afterId}` : undefined))
+      .orderBy(asc(leads.id))
+      .limit(limit);
+  }
+
+  async linkLeadToCompany(lead: Lead): Promise<Lead> {
+    const domain = companyDomainForLead(lead);
+    if (!domain) return lead;
+
+    const company = await this.findOrCreateCompany(companyFromLead(lead, domain));
+    const [linked] = await db
+      .update(leads)
+      .set({ ...leadFieldsFromCompany(company), companyId: company.id, updatedAt: new Date() })
+      .where(eq(leads.id, lead.id))
+      .returning();
+    return linked || lead;
+  }
+
+  // Deal Contacts
+  async getDealContacts(dealId: string): Promise<DealContactWithLead[]> {
+    const rows = await db
+      .select({ contact: dealContacts, lead: leads })
+      .from(dealContacts)
+      .innerJoin(leads, eq(leads.id, dealContacts.leadId))
+      .where(eq(dealContacts.dealId, dealId))
+      .orderBy(asc(dealContacts.createdAt));
+    return rows.map(({ contact, lead }) => ({ ...contact, lead }));
+  }
+
+  async getDealContact(id: string): Promise<DealContact | undefined> {
+    const [contact] = await db.select().from(dealContacts).where(eq(dealContacts.id, id));
+    return contact || undefined;
+  }
+
+  async addDealContact(contact: InsertDealContact): Promise<DealContact> {
+    const [created] = await db.insert(dealContacts).values(contact).returning();
+    return created;
+  }
+
+  async updateDealContact(id: string, updates: Partial<InsertDealContact>): Promise<DealContact | undefined> {
+    const [contact] = await db.update(dealContacts).set(updates).where(eq(dealContacts.id, id)).returning();
+    return contact || undefined;
+  }
+
+  async removeDealContact(id: string): Promise<void> {
+    await db.delete(dealContacts).where(eq(dealContacts.id, id));
+  }
+
+  // Products & Deal Line Items
+  async getProducts(includeArchived = false): Promise<Product[]> {
+    return db
+      .select()
+      .from(products)
+      .where(includeArchived ? undefined : eq(products.isActive, 1))
+      .orderBy(asc(products.name));
+  }
+
+  async getProduct(id: string): Promise<Product | undefined> {
+    const [product] = await db.select().from(products).where(eq(products.id, id));
+    return product || undefined;
+  }
+
+  async createProduct(product: InsertProduct): Promise<Product> {
+    const [created] = await db.insert(products).values(product).returning();
+    return created;
+  }
+
+  async updateProduct(id: string, updates: Partial<InsertProduct>): Promise<Product | undefined> {
+    const [product] = await db
+      .update(products)
+      .set({ ...updates, updatedAt: new Date() })
+      .where(eq(products.id, id))
+      .returning();
+    return product || undefined;
+  }
+
+  async getDealLineItems(dealId: string): Promise<DealLineItem[]> {
+    return db
+      .select()
+      .from(dealLineItems)
+      .where(eq(dealLineItems.dealId, dealId))
+      .orderBy(asc(dealLineItems.position), asc(dealLineItems.createdAt));
+  }
+
+  async getLineItemsForDeals(dealIds: string[]): Promise<DealLineItem[]> {
+    if (dealIds.length === 0) return [];
+    return db.select().from(dealLineItems).where(inArray(dealLineItems.dealId, dealIds));
+  }
+
+  async getDealLineItem(id: string): Promise<DealLineItem | undefined> {
+    const [item] = await db.select().from(dealLineItems).where(eq(dealLineItems.id, id));
+    return item || undefined;
+  }
+
+  async createDealLineItem(item: InsertDealLineItem): Promise<DealLineItem> {
+    const [created] = await db.insert(dealLineItems).values(item).returning();
+    return created;
+  }
+
+  async updateDealLineItem(id: string, updates: Partial<InsertDealLineItem>): Promise<DealLineItem | undefined> {
+    const [item] = await db.update(dealLineItems).set(updates).where(eq(dealLineItems.id, id)).returning();
+    return item || undefined;
+  }
+
+  async deleteDealLineItem(id: string): Promise<void> {
+    await db.delete(dealLineItems).where(eq(dealLineItems.id, id));
+  }
+
+  // Currencies
+  async getCurrencySettings(): Promise<CurrencySettings | undefined> {
+    const [settings] = await db.select().from(currencySettings).limit(1);
+    return settings || undefined;
+  }
+
+  async updateCurrencySettings(baseCurrency: string): Promise<CurrencySettings> {
+    const existing = await this.getCurrencySettings();
+    if (existing) {
+      const [settings] = await db
+        .update(currencySettings)
+        .set({ baseCurrency, updatedAt: new Date() })
+        .where(eq(currencySettings.id, existing.id))
+        .returning();
+      return settings;
+    }
+    const [settings] = await db.insert(currencySettings).values({ baseCurrency }).returning();
+    return settings;
+  }
+
+  async getExchangeRates(): Promise<ExchangeRate[]> {
+    return db
+      .select()
+      .from(exchangeRates)
+      .orderBy(asc(exchangeRates.currency), asc(exchangeRates.quoteCurrency), desc(exchangeRates.effectiveDate));
+  }
+
+  async createExchangeRate(rate: InsertExchangeRate): Promise<ExchangeRate> {
+    const [created] = await db.insert(exchangeRates).values(rate).returning();
+    return created;
+  }
+
+  async deleteExchangeRate(id: string): Promise<boolean> {
+    const deleted = await db.delete(exchangeRates).where(eq(exchangeRates.id, id)).returning({ id: exchangeRates.id });
+    return deleted.length > 0;
+  }
+
+  // Quotas
+  async getQuotas(filters: { periodType: string; periodStart: Date; userIds?: string[] }): Promise<Quota[]> {
+    if (filters.userIds && filters.userIds.length === 0) return [];
+
+    const conditions = [eq(quotas.periodType, filters.periodType), eq(quotas.periodStart, filters.periodStart)];
+    if (filters.userIds) conditions.push(inArray(quotas.userId, filters.userIds));
+    return db.select().from(quotas).where(and(...conditions));
+  }
+
+  async getQuota(id: string): Promise<Quota | undefined> {
+    const [quota] = await db.select().from(quotas).where(eq(quotas.id, id));
+    return quota || undefined;
+  }
+
+  async upsertQuota(quota: InsertQuota): Promise<Quota> {
+    const [saved] = await db
+      .insert(quotas)
+      .values(quota)
+      .onConflictDoUpdate({
+        target: [quotas.userId, quotas.scope, quotas.metric, quotas.periodType, quotas.periodStart],
+        set: { target: quota.target, createdBy: quota.createdBy, updatedAt: new Date() },
+      })
+      .returning();
+    return saved;
+  }
+
+  async deleteQuota(id: string): Promise<void> {
+    await db.delete(quotas).where(eq(quotas.id, id));
+  }
+
+  async getWonDealsClosedBetween(ownerIds: string[], start: Date, end: Date): Promise<Deal[]> {
+    if (ownerIds.length === 0) return [];
+    return db
+      .select()
+      .from(deals)
+      .where(and(
+        eq(deals.status, "won"),
+        inArray(deals.ownerId, ownerIds),
+        gte(deals.actualCloseDate, start),
+        lt(deals.actualCloseDate, end)
+      ));
+  }
+
+  async getCompletedTaskCounts(userIds: string[], start: Date, end: Date): Promise<Record<string, number>> {
+    if (userIds.length === 0) return {};
+    const rows = await db
+      .select({ userId: tasks.assignedToUserId, count: sql<number>`count(*)::int` })
+      .from(tasks)
+      .where(and(
+        eq(tasks.status, "completed"),
+        inArray(tasks.assignedToUserId, userIds),
+        gte(tasks.completedAt, start),
+        lt(tasks.completedAt, end)
+      ))
+      .groupBy(tasks.assignedToUserId);
+    return Object.fromEntries(rows.map((row) => [row.userId!, row.count]));
+  }
+
+  async getRoles(): Promise<Role[]> {
+    return db.select().from(roles).orderBy(roles.name);
+  }
+
+  async getRole(key: string): Promise<Role | undefined> {
+    const [role] = await db.select().from(roles).where(eq(roles.key, key));
+    return role || undefined;
+  }
+
+  async upsertRole(role: InsertRole): Promise<Role> {
+    const [saved] = await db
+      .insert(roles)
+      .values(role)
+      .onConflictDoUpdate({
+        target: roles.key,
+        set: {
+          name: role.name,
+          description: role.description,
+          permissions: role.permissions,
+          hiddenFields: role.hiddenFields,
+          updatedAt: new Date(),
+        },
+      })
+      .returning();
+    return saved;
+  }
+
+  async deleteRole(key: string): Promise<void> {
+    await db.delete(roles).where(eq(roles.key, key));
+  }
+
+  // Onboarding
+  async getAuthSettings(): Promise<AuthSettings | undefined> {
+    const [settings] = await db.select().from(authSettings).limit(1);
+    return settings || undefined;
+  }
+
+  async updateAuthSettings(updates: { openRegistration: number }): Promise<AuthSettings> {
+    const existing = await this.getAuthSettings();
+    if (existing) {
+      const [settings] = await db
+        .update(authSettings)
+        .set({ ...updates, updatedAt: new Date() })
+        .where(eq(authSettings.id, existing.id))
+        .returning();
+      return settings;
+    }
+    const [settings] = await db.insert(authSettings).values(updates).returning();
+    return settings;
+  }
+
+  // Not yet accepted or revoked; expired ones are included so they can be resent
+  async getPendingInvitations(): Promise<UserInvitation[]> {
+    return db
+      .select()
+      .from(userInvitations)
+      .where(and(isNull(userInvitations.acceptedAt), isNull(userInvitations.revokedAt)))
+      .orderBy(desc(userInvitations.createdAt));
+  }
+
+  async getInvitation(id: string): Promise<UserInvitation | undefined> {
+    const [invitation] = await db.select().from(userInvitations).where(eq(userInvitations.id, id));
+    return invitation || undefined;
+  }
+
+  async getInvitationByTokenHash(tokenHash: string): Promise<UserInvitation | undefined> {
+    const [invitation] = await db.select().from(userInvitations).where(eq(userInvitations.tokenHash, tokenHash));
+    return invitation || undefined;
+  }
+
+  async getPendingInvitationByEmail(email: string): Promise<UserInvitation | undefined> {
+    const [invitation] = await db
+      .select()
+      .from(userInvitations)
+      .where(and(
+        sql`lower(${userInvitations.email}) = ${email.toLowerCase()}`,
+        isNull(userInvitations.acceptedAt),
+        isNull(userInvitations.revokedAt),
+      ))
+      .limit(1);
+    return invitation || undefined;
+  }
+
+  async createInvitation(invitation: InsertUserInvitation): Promise<UserInvitation> {
+    const [created] = await db.insert(userInvitations).values(invitation).returning();
+    return created;
+  }
+
+  async updateInvitation(id: string, updates: Partial<UserInvitation>): Promise<UserInvitation | undefined> {
+    const [updated] = await db
+      .update(userInvitations)
+      .set(updates)
+      .where(eq(userInvitations.id, id))
+      .returning();
+    return updated || undefined;
+  }
+
+  async createPasswordResetToken(userId: string, tokenHash: string, expiresAt: Date): Promise<PasswordResetToken> {
+    const [token] = await db.insert(passwordResetTokens).values({ userId, tokenHash, expiresAt }).returning();
+    return token;
+  }
+
+  async getPasswordResetTokenByHash(tokenHash: string): Promise<PasswordResetToken | undefined> {
+    const [token] = await db.select().from(passwordResetTokens).where(eq(passwordResetTokens.tokenHash, tokenHash));
+    return token || undefined;
+  }
+
+  // Conditional on usedAt so two concurrent resets cannot both use the token
+  async markPasswordResetTokenUsed(id: string): Promise<boolean> {
+    const used = await db
+      .update(passwordResetTokens)
+      .set({ usedAt: new Date() })
+      .where(and(eq(passwordResetTokens.id, id), isNull(passwordResetTokens.usedAt)))
+      .returning();
+    return used.length > 0;
+  }
+
+  // Retire a user's outstanding tokens when a new one is issued or the password changes
+  async expirePasswordResetTokens(userId: string): Promise<void> {
+    await db
+      .update(passwordResetTokens)
+      .set({ usedAt: new Date() })
+      .where(and(eq(passwordResetTokens.userId, userId), isNull(passwordResetTokens.usedAt)));
+  }
+}
+
+// OAuth tokens are encrypted on the way into sync_state and decrypted on the way out
+function sealSyncState<T extends Partial<SyncState>>(data: T): T {
+  const sealed = { ...data };
+  if (data.accessToken !== undefined) sealed.accessToken = encryptSecret(data.accessToken);
+  if (data.refreshToken !== undefined) sealed.refreshToken = encryptSecret(data.refreshToken);
+  return sealed;
+}
+
+function openSyncState(row: SyncState): SyncState {
+  return {
+    ...row,
+    accessToken: decryptSecret(row.accessToken),
+    refreshToken: decryptSecret(row.refreshToken),
+  };
+}
+
+// Nullable sort columns are coalesced so keyset comparisons never meet NULL, and
+// timestamps are cut to milliseconds so they compare equal to the cursor's Date values
+function leadSortExpression(field: LeadSortField): SQL {
+  switch (field) {
+    case "company":
+    case "position":
+      return sql`coalesce(${leads[field]}, '')`;
+    case "lastContactedAt":
+      return sql`date_trunc('milliseconds', coalesce(${leads.lastContactedAt}, 'epoch'::timestamp))`;
+    case "createdAt":
+    case "updatedAt":
+      return sql`date_trunc('milliseconds', ${leads[field]})`;
+    default:
+      return sql`${leads[field]}`;
+  }
+}
+
+// The value leadSortExpression produces for a row, as stored in the cursor
+function leadSortValue(field: LeadSortField, lead: Lead): string | number {
+  switch (field) {
+    case "company":
+    case "position":
+      return lead[field] || "";
+    case "lastContactedAt":
+      return (lead.lastContactedAt || new Date(0)).toISOString();
+    case "createdAt":
+    case "updatedAt":
+      return lead[field].toISOString();
+    default:
+      return lead[field];
+  }
+}
 
+/**
+ * Rows strictly after the cursor in the sort order:
+ * (k1 > v1) OR (k1 = v1 AND k2 > v2) OR ... with < for descending keys
+ */
+function keysetAfter(keys: Array<{ expr: SQL; direction: "asc" | "desc" }>, values: unknown[]): SQL {
+  const branches = keys.map((key, i) => {
+    const equal = keys.slice(0, i).map((prev, j) => sql`${prev.expr} = ${values[j]}`);
+    const beyond = key.direction === "asc" ? sql`${key.expr} > ${values[i]}` : sql`${key.expr} < ${values[i]}`;
+    return and(...equal, beyond)!;
+  });
+  return or(...branches)!;
 }
 
 export const storage = new DatabaseStorage();
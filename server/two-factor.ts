@@ -0,0 +1,133 @@
+import { and, arrayContains, eq, isNull, lt, or, sql } from "drizzle-orm";
+import { db } from "./db";
+import { userTwoFactor, type UserTwoFactor } from "@shared/schema";
+import { decryptSecret, encryptSecret } from "./encryption";
+import {
+  generateRecoveryCodes,
+  generateTotpSecret,
+  hashRecoveryCode,
+  otpauthUrl,
+  verifyTotp,
+} from "./totp";
+
+/**
+ * Two-Factor Service
+ *
+ * TOTP enrollment and verification. Enrollment stores a secret that only
+ * takes effect once the user proves their authenticator produces matching
+ * codes; confirming it returns a set of one-time recovery codes, which are
+ * kept only as hashes.
+ */
+
+const ISSUER = "LeadFlow";
+
+export interface TwoFactorStatus {
+  enabled: boolean;
+  enabledAt: Date | null;
+  recoveryCodesRemaining: number;
+}
+
+export class TwoFactorService {
+  async getStatus(userId: string): Promise<TwoFactorStatus> {
+    const row = await this.find(userId);
+    return {
+      enabled: !!row?.enabledAt,
+      enabledAt: row?.enabledAt ?? null,
+      recoveryCodesRemaining: row?.enabledAt ? row.recoveryCodes.length : 0,
+    };
+  }
+
+  async isEnabled(userId: string): Promise<boolean> {
+    return !!(await this.find(userId))?.enabledAt;
+  }
+
+  /**
+   * Start (or restart) enrollment with a fresh secret
+   */
+  async beginSetup(userId: string, email: string): Promise<{ secret: string; otpauthUrl: string }> {
+    const existing = await this.find(userId);
+    if (existing?.enabledAt) throw new Error("Two-factor authentication is already enabled");
+
+    const secret = generateTotpSecret();
+    const values = { secret: encryptSecret(secret), enabledAt: null, recoveryCodes: [], lastUsedStep: null };
+    await db
+      .insert(userTwoFactor)
+      .values({ userId, ...values })
+      .onConflictDoUpdate({ target: userTwoFactor.userId, set: values });
+
+    return { secret, otpauthUrl: otpauthUrl(ISSUER, email, secret) };
+  }
+
+  /**
+   * Finish enrollment with a code from the authenticator; returns the recovery codes to show once
+   */
+  async confirmSetup(userId: string, code: string): Promise<string[]> {
+    const row = await this.find(userId);
+    if (!row) throw new Error("Start two-factor setup first");
+    if (row.enabledAt) throw new Error("Two-factor authentication is already enabled");
+
+    const step = verifyTotp(decryptSecret(row.secret), code);
+    if (step === null) throw new Error("Invalid verification code");
+
+    const recoveryCodes = generateRecoveryCodes();
+    await db
+      .update(userTwoFactor)
+      .set({ enabledAt: new Date(), lastUsedStep: step, recoveryCodes: recoveryCodes.map(hashRecoveryCode) })
+      .where(eq(userTwoFactor.userId, userId));
+    return recoveryCodes;
+  }
+
+  /**
+   * Check a sign-in code: a TOTP code not used before, or an unused recovery code (which is then spent).
+   * Each update only matches while the code is still unused, so of two parallel requests with the
+   * same code only one succeeds.
+   */
+  async verify(userId: string, code: string): Promise<boolean> {
+    const row = await this.find(userId);
+    if (!row?.enabledAt) return false;
+
+    const step = verifyTotp(decryptSecret(row.secret), code);
+    if (step !== null) {
+      const updated = await db
+        .update(userTwoFactor)
+        .set({ lastUsedStep: step })
+        .where(and(
+          eq(userTwoFactor.userId, userId),
+          or(isNull(userTwoFactor.lastUsedStep), lt(userTwoFactor.lastUsedStep, step))
+        ))
+        .returning({ userId: userTwoFactor.userId });
+      return updated.length > 0;
+    }
+
+    const hash = hashRecoveryCode(code);
+    const updated = await db
+      .update(userTwoFactor)
+      .set({ recoveryCodes: sql`array_remove(${userTwoFactor.recoveryCodes}, ${hash})` })
+      .where(and(eq(userTwoFactor.userId, userId), arrayContains(userTwoFactor.recoveryCodes, [hash])))
+      .returning({ userId: userTwoFactor.userId });
+    return updated.length > 0;
+  }
+
+  /**
+   * Replace all recovery codes; the caller has already verified a current code
+   */
+  async regenerateRecoveryCodes(userId: string): Promise<string[]> {
+    const recoveryCodes = generateRecoveryCodes();
+    await db
+      .update(userTwoFactor)
+      .set({ recoveryCodes: recoveryCodes.map(hashRecoveryCode) })
+      .where(eq(userTwoFactor.userId, userId));
+    return recoveryCodes;
+  }
+
+  async disable(userId: string): Promise<void> {
+    await db.delete(userTwoFactor).where(eq(userTwoFactor.userId, userId));
+  }
+
+  private async find(userId: string): Promise<UserTwoFactor | undefined> {
+    const [row] = await db.select().from(userTwoFactor).where(eq(userTwoFactor.userId, userId));
+    return row;
+  }
+}
+
+export const twoFactorService = new TwoFactorService();
@@ -0,0 +1,211 @@
+import { z } from "zod";
+
+/**
+ * Automation rule conditions and actions
+ *
+ * A rule's `conditions` is a tree of groups and leaf conditions:
+ * - group "and": every child matches
+ * - group "or": at least one child matches
+ * - group "not": none of the children match
+ * Leaf conditions compare a field ("lead.score", "deal.stageId",
+ * "conversation.subject", "owner.role", ...) using an operator.
+ *
+ * A rule's `actions` run in order; a failing action stops the rest.
+ *
+ * A rule's `frequency` limits how often it runs for the same lead or deal:
+ * every time it matches, once ever, or at most once per cooldownHours.
+ *
+ * A rule can be simulated over a past date range; the result types below
+ * describe what would have matched without anything being written.
+ */
+
+export const conditionOperators = [
+  "equals",
+  "not_equals",
+  "contains",
+  "not_contains",
+  "in",
+  "not_in",
+  "gt",
+  "gte",
+  "lt",
+  "lte",
+  "between",
+  "is_empty",
+  "is_not_empty",
+  "changed_to",
+  "changed_from",
+] as const;
+export type ConditionOperator = typeof conditionOperators[number];
+
+export const conditionGroupOperators = ["and", "or", "not"] as const;
+export type ConditionGroupOperator = typeof conditionGroupOperators[number];
+
+export type ConditionFieldType = "string" | "number" | "date" | "boolean" | "array";
+
+export interface ConditionField {
+  field: string;
+  label: string;
+  type: ConditionFieldType;
+}
+
+// Fields the editor offers and the engine knows how to resolve
+export const conditionFields: ConditionField[] = [
+  { field: "lead.name", label: "Lead name", type: "string" },
+  { field: "lead.email", label: "Lead email", type: "string" },
+  { field: "lead.company", label: "Lead company", type: "string" },
+  { field: "lead.position", label: "Lead position", type: "string" },
+  { field: "lead.industry", label: "Lead industry", type: "string" },
+  { field: "lead.city", label: "Lead city", type: "string" },
+  { field: "lead.state", label: "Lead state", type: "string" },
+  { field: "lead.country", label: "Lead country", type: "string" },
+  { field: "lead.status", label: "Lead status", type: "string" },
+  { field: "lead.score", label: "Lead score", type: "number" },
+  { field: "lead.tags", label: "Lead tags", type: "array" },
+  { field: "lead.ownerId", label: "Lead owner", type: "string" },
+  { field: "lead.lastContactedAt", label: "Lead last contacted", type: "date" },
+  { field: "lead.createdAt", label: "Lead created", type: "date" },
+  { field: "deal.name", label: "Deal name", type: "string" },
+  { field: "deal.amount", label: "Deal amount", type: "number" },
+  { field: "deal.status", label: "Deal status", type: "string" },
+  { field: "deal.stageId", label: "Deal stage", type: "string" },
+  { field: "deal.pipelineId", label: "Deal pipeline", type: "string" },
+  { field: "deal.probability", label: "Deal probability", type: "number" },
+  { field: "deal.expectedCloseDate", label: "Deal expected close", type: "date" },
+  { field: "deal.ownerId", label: "Deal owner", type: "string" },
+  { field: "conversation.subject", label: "Email subject", type: "string" },
+  { field: "conversation.body", label: "Email body", type: "string" },
+  { field: "conversation.fromEmail", label: "Email sender", type: "string" },
+  { field: "conversation.isFromLead", label: "Email is from lead", type: "boolean" },
+  { field: "owner.name", label: "Owner name", type: "string" },
+  { field: "owner.email", label: "Owner email", type: "string" },
+  { field: "owner.role", label: "Owner role", type: "string" },
+];
+
+export interface LeafCondition {
+  type: "condition";
+  field: string;
+  operator: ConditionOperator;
+  value?: unknown;
+}
+
+export interface ConditionGroup {
+  type: "group";
+  operator: ConditionGroupOperator;
+  conditions: ConditionNode[];
+}
+
+export type ConditionNode = LeafCondition | ConditionGroup;
+
+// Only the listed fields; anything else could read record or owner columns the editor never offers
+const knownFields = new Set(conditionFields.map((f) => f.field));
+
+export const leafConditionSchema = z
+  .object({
+    type: z.literal("condition"),
+    field: z.string().refine((field) => knownFields.has(field), (field) => ({ message: `Unknown condition field: ${field}` })),
+    operator: z.enum(conditionOperators),
+    value: z.unknown().optional(),
+  })
+  .superRefine((condition, ctx) => {
+    const { operator, value } = condition;
+
+    if (operator === "is_empty" || operator === "is_not_empty") return;
+
+    if (operator === "between") {
+      if (!Array.isArray(value) || value.length !== 2) {
+        ctx.addIssue({ code: z.ZodIssueCode.custom, message: "between needs a [min, max] value", path: ["value"] });
+      }
+      return;
+    }
+
+    if (operator === "in" || operator === "not_in") {
+      if (!Array.isArray(value) || value.length === 0) {
+        ctx.addIssue({ code: z.ZodIssueCode.custom, message: `${operator} needs a non-empty list`, path: ["value"] });
+      }
+      return;
+    }
+
+    if (value === undefined || value === null || value === "") {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, message: `${operator} needs a value`, path: ["value"] });
+    }
+  });
+
+export const conditionNodeSchema: z.ZodType<ConditionNode> = z.lazy(() =>
+  z.union([
+    leafConditionSchema as z.ZodType<LeafCondition>,
+    z.object({
+      type: z.literal("group"),
+      operator: z.enum(conditionGroupOperators),
+      conditions: z.array(conditionNodeSchema),
+    }),
+  ])
+);
+
+export const automationActionTypes = [
+  "convert_to_deal",
+  "create_task",
+  "advance_stage",
+  "assign_lead",
+  "send_email",
+] as const;
+export type AutomationActionType = typeof automationActionTypes[number];
+
+export const automationActionSchema = z.object({
+  type: z.enum(automationActionTypes),
+  config: z.record(z.any()).default({}),
+});
+export type AutomationAction = z.infer<typeof automationActionSchema>;
+
+export const automationActionsSchema = z.array(automationActionSchema).min(1, "Add at least one action");
+
+export const ruleFrequencies = ["every_time", "once_per_entity", "cooldown"] as const;
+export type RuleFrequency = typeof ruleFrequencies[number];
+
+// Why a matching rule was not run, recorded in automation_logs.suppressedReason
+export const suppressionReasons = ["max_depth", "loop", "once_per_entity", "cooldown"] as const;
+export type SuppressionReason = typeof suppressionReasons[number];
+
+export const ruleSimulationRequestSchema = z
+  .object({
+    from: z.coerce.date().optional(),
+    to: z.coerce.date().optional(),
+  })
+  .transform(({ from, to }) => {
+    const end = to ?? new Date();
+    return { from: from ?? new Date(end.getTime() - 30 * 24 * 60 * 60 * 1000), to: end };
+  })
+  .refine(({ from, to }) => from < to, { message: "from must be before to" })
+  .refine(({ from, to }) => to.getTime() - from.getTime() <= 366 * 24 * 60 * 60 * 1000, {
+    message: "Simulation range can be at most one year",
+  });
+export type RuleSimulationRequest = z.infer<typeof ruleSimulationRequestSchema>;
+
+export type SimulatedActionOutcome = "would_run" | "would_skip" | "would_fail" | "not_reached";
+
+export interface SimulatedAction {
+  type: AutomationActionType;
+  outcome: SimulatedActionOutcome;
+  detail: string;
+}
+
+export interface SimulatedMatch {
+  entityType: "lead" | "deal" | "task";
+  entityId: string;
+  name: string;
+  at: string | Date; // When the trigger event happened
+  triggerData: Record<string, unknown>;
+  actions: SimulatedAction[];
+}
+
+export interface RuleSimulation {
+  ruleId: string;
+  triggerType: string;
+  from: string | Date;
+  to: string | Date;
+  evaluated: number; // Trigger events replayed
+  matched: number;
+  truncated: boolean; // More matches than returned
+  matches: SimulatedMatch[];
+  notes: string[];
+}
@@ -0,0 +1,148 @@
+import { z } from "zod";
+import type { Company, Conversation, Deal, Lead } from "./schema";
+
+/**
+ * Companies (accounts)
+ *
+ * A company is keyed by its domain. Leads are linked to the company for
+ * their company domain, company website or, failing those, the domain of
+ * a work email address (free mail providers never create a company). The
+ * company record is the source of truth for firmographics: when it is
+ * edited or enriched, its values are copied into the company* columns of
+ * every linked lead so contacts at the same firm always agree.
+ */
+
+// Mail providers whose domain says nothing about the lead's employer
+export const freeEmailDomains = new Set([
+  "gmail.com",
+  "googlemail.com",
+  "yahoo.com",
+  "yahoo.co.uk",
+  "hotmail.com",
+  "hotmail.co.uk",
+  "outlook.com",
+  "live.com",
+  "msn.com",
+  "aol.com",
+  "icloud.com",
+  "me.com",
+  "mac.com",
+  "proton.me",
+  "protonmail.com",
+  "gmx.com",
+  "gmx.de",
+  "web.de",
+  "mail.com",
+  "yandex.com",
+  "yandex.ru",
+  "zoho.com",
+  "qq.com",
+  "163.com",
+]);
+
+// Company field -> lead column it is copied to
+export const companyLeadFields = {
+  name: "company",
+  domain: "companyDomain",
+  website: "companyWebsite",
+  industry: "companyIndustry",
+  size: "companySize",
+  revenue: "companyRevenue",
+  foundedYear: "companyFoundedYear",
+  linkedinUrl: "companyLinkedin",
+  phone: "companyPhone",
+} as const satisfies Partial<Record<keyof Company, keyof Lead>>;
+type CompanyLeadField = keyof typeof companyLeadFields;
+
+export const updateCompanySchema = z.object({
+  name: z.string().min(1).optional(),
+  website: z.string().url().nullable().optional().or(z.literal("")),
+  industry: z.string().nullable().optional(),
+  size: z.string().nullable().optional(),
+  revenue: z.string().nullable().optional(),
+  foundedYear: z.number().int().min(1800).max(new Date().getFullYear()).nullable().optional(),
+  linkedinUrl: z.string().url().nullable().optional().or(z.literal("")),
+  phone: z.string().nullable().optional(),
+  city: z.string().nullable().optional(),
+  country: z.string().nullable().optional(),
+  description: z.string().nullable().optional(),
+  ownerId: z.string().nullable().optional(),
+}).strict();
+export type UpdateCompany = z.infer<typeof updateCompanySchema>;
+
+export type CompanyWithCounts = Company & {
+  contactCount: number;
+  openDealCount: number;
+  pipelineValue: number; // Open deal amounts in cents
+};
+
+export interface CompanyAccount {
+  company: Company;
+  contacts: Lead[];
+  deals: Deal[];
+  conversations: Conversation[];
+  // Open deal amounts in cents, per currency
+  pipelineValue: Record<string, number>;
+  wonValue: Record<string, number>;
+}
+
+/**
+ * Bare lowercase host of a domain, URL or email address ("https://www.Acme.com/about" -> "acme.com")
+ */
+export function normalizeDomain(value: string | null | undefined): string | null {
+  let host = (value || "").trim().toLowerCase();
+  if (!host) return null;
+  if (host.includes("@")) host = host.slice(host.lastIndexOf("@") + 1);
+  host = host
+    .replace(/^[a-z][a-z0-9+.-]*:\/\//, "")
+    .replace(/[/?#].*$/, "")
+    .replace(/:\d+$/, "")
+    .replace(/^www\./, "")
+    .replace(/\.$/, "");
+  return /^[a-z0-9-]+(\.[a-z0-9-]+)+$/.test(host) ? host : null;
+}
+
+/**
+ * Domain of the company a lead works at, or null when it cannot be told
+ */
+export function companyDomainForLead(
+  lead: Partial<Pick<Lead, "companyDomain" | "companyWebsite" | "email">>
+): string | null {
+  const domain = normalizeDomain(lead.companyDomain) || normalizeDomain(lead.companyWebsite);
+  if (domain) return domain;
+
+  const emailDomain = lead.email?.includes("@") ? normalizeDomain(lead.email) : null;
+  return emailDomain && !freeEmailDomains.has(emailDomain) ? emailDomain : null;
+}
+
+/**
+ * Values for a new company record, taken from the first lead seen at that domain
+ */
+export function companyFromLead(lead: Partial<Lead>, domain: string): Partial<Company> & { name: string; domain: string } {
+  const company: Partial<Company> & { name: string; domain: string } = {
+    name: lead.company?.trim() || domain,
+    domain,
+  };
+  for (const [field, column] of Object.entries(companyLeadFields) as Array<[CompanyLeadField, keyof Lead]>) {
+    if (field === "name" || field === "domain") continue;
+    const value = lead[column];
+    if (value !== null && value !== undefined && value !== "") {
+      (company as Record<string, unknown>)[field] = value;
+    }
+  }
+  return company;
+}
+
+/**
+ * The lead columns a company's values are copied into; empty company values are left out
+ */
+export function leadFieldsFromCompany(company: Partial<Company>): Partial<Lead> {
+  const fields: Partial<Lead> = {};
+  for (const [field, column] of Object.entries(companyLeadFields) as Array<[CompanyLeadField, keyof Lead]>) {
+    const value = company[field];
+    if (value !== null && value !== undefined && value !== "") {
+      (fields as Record<string, unknown>)[column] = value;
+    }
+  }
+  return fields;
+}
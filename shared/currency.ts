@@ -0,0 +1,120 @@
+import { z } from "zod";
+import type { Deal, ExchangeRate } from "./schema";
+
+/**
+ * Currencies and exchange rates
+ *
+ * Deals keep the currency they were sold in; forecasts and totals are
+ * reported in a single base currency. Exchange rates are entered by hand
+ * with the date they take effect, so a deal is converted at the rate in
+ * effect on the relevant day: today for open deals, the close date for won
+ * deals. A rate quoted the other way round (base to deal currency) is used
+ * inverted, so rates keep working after the base currency is changed.
+ * Amounts with no rate at all cannot be converted and are reported rather
+ * than silently summed.
+ */
+
+const currencyCode = z
+  .string()
+  .regex(/^[A-Za-z]{3}$/, "Currency must be a 3-letter ISO code")
+  .transform((code) => code.toUpperCase());
+
+export const updateCurrencySettingsSchema = z.object({
+  baseCurrency: currencyCode,
+}).strict();
+
+export const createExchangeRateSchema = z.object({
+  currency: currencyCode,
+  quoteCurrency: currencyCode,
+  rate: z.number().positive("Rate must be greater than zero"),
+  effectiveDate: z.coerce.date(),
+}).refine((rate) => rate.currency !== rate.quoteCurrency, {
+  message: "A rate needs two different currencies",
+  path: ["quoteCurrency"],
+});
+
+type RateRow = Pick<ExchangeRate, "currency" | "quoteCurrency" | "rate" | "effectiveDate">;
+
+export interface CurrencyConverter {
+  baseCurrency: string;
+  /** Amount in the base currency, or null when there is no rate for the currency on that date */
+  convert(amount: number, currency: string, at?: Date): number | null;
+}
+
+/**
+ * Latest rate for converting one currency into another that took effect on or before `at`
+ */
+export function findRate(rates: RateRow[], from: string, to: string, at: Date): number | null {
+  let best: { rate: number; effective: number } | null = null;
+  for (const row of rates) {
+    const effective = new Date(row.effectiveDate).getTime();
+    if (effective > at.getTime()) continue;
+    if (best && effective <= best.effective) continue;
+
+    if (row.currency === from && row.quoteCurrency === to) {
+      best = { rate: row.rate, effective };
+    } else if (row.currency === to && row.quoteCurrency === from) {
+      best = { rate: 1 / row.rate, effective };
+    }
+  }
+  return best ? best.rate : null;
+}
+
+export function createCurrencyConverter(baseCurrency: string, rates: RateRow[]): CurrencyConverter {
+  return {
+    baseCurrency,
+    convert(amount, currency, at = new Date()) {
+      if (currency === baseCurrency) return amount;
+      const rate = findRate(rates, currency, baseCurrency, at);
+      return rate === null ? null : Math.round(amount * rate);
+    },
+  };
+}
+
+type ConvertibleDeal = Pick<Deal, "amount" | "currency" | "probability" | "status" | "actualCloseDate">;
+
+/**
+ * Date whose rate applies to a deal: its close date once won or lost, otherwise now
+ */
+export function dealConversionDate(deal: Pick<Deal, "status" | "actualCloseDate">, now = new Date()): Date {
+  return deal.status !== "open" && deal.actualCloseDate ? new Date(deal.actualCloseDate) : now;
+}
+
+export function convertDealAmount(converter: CurrencyConverter, deal: ConvertibleDeal, now = new Date()): number | null {
+  return converter.convert(deal.amount, deal.currency, dealConversionDate(deal, now));
+}
+
+export interface DealTotals {
+  totalValue: number;
+  weightedValue: number;
+  unconvertedCount: number; // Deals left out for lack of an exchange rate
+}
+
+/**
+ * Total and probability-weighted value of deals in the base currency
+ */
+export function sumDealValues(deals: ConvertibleDeal[], converter: CurrencyConverter, now = new Date()): DealTotals {
+  const totals: DealTotals = { totalValue: 0, weightedValue: 0, unconvertedCount: 0 };
+  for (const deal of deals) {
+    if (deal.amount === null) continue; // Hidden from the user's role (see shared/roles.ts)
+    const amount = convertDealAmount(converter, deal, now);
+    if (amount === null) {
+      totals.unconvertedCount++;
+      continue;
+    }
+    totals.totalValue += amount;
+    totals.weightedValue += amount * (deal.probability || 0) / 100;
+  }
+  return totals;
+}
+
+/**
+ * Whole-unit amount with its currency symbol, e.g. "€12,500"
+ */
+export function formatMoney(amount: number, currency: string): string {
+  try {
+    return new Intl.NumberFormat("en-US", { style: "currency", currency, maximumFractionDigits: 0 }).format(amount);
+  } catch {
+    return `${Math.round(amount).toLocaleString()} ${currency}`;
+  }
+}
@@ -0,0 +1,104 @@
+import { z } from "zod";
+import type { Conversation, DealContact, Lead } from "./schema";
+
+/**
+ * Deal contacts (buying committee)
+ *
+ * A deal keeps its primary lead in deals.leadId; every other person
+ * involved in the purchase is a deal contact with a buying role and an
+ * influence level. Forecasts look at engagement across the whole
+ * committee, so a quiet champion or an unengaged economic buyer shows up
+ * as a risk even when the primary lead is active.
+ */
+
+export const dealContactRoles = [
+  "champion",
+  "economic_buyer",
+  "technical_evaluator",
+  "decision_maker",
+  "influencer",
+  "end_user",
+  "blocker",
+  "other",
+] as const;
+export type DealContactRole = typeof dealContactRoles[number];
+
+export const dealContactRoleLabels: Record<DealContactRole, string> = {
+  champion: "Champion",
+  economic_buyer: "Economic Buyer",
+  technical_evaluator: "Technical Evaluator",
+  decision_maker: "Decision Maker",
+  influencer: "Influencer",
+  end_user: "End User",
+  blocker: "Blocker",
+  other: "Other",
+};
+
+export const dealContactInfluences = ["high", "medium", "low"] as const;
+export type DealContactInfluence = typeof dealContactInfluences[number];
+
+export const addDealContactSchema = z.object({
+  leadId: z.string().min(1),
+  role: z.enum(dealContactRoles),
+  influence: z.enum(dealContactInfluences).default("medium"),
+  notes: z.string().max(1000).nullable().optional(),
+});
+
+export const updateDealContactSchema = z.object({
+  role: z.enum(dealContactRoles).optional(),
+  influence: z.enum(dealContactInfluences).optional(),
+  notes: z.string().max(1000).nullable().optional(),
+}).strict();
+
+export type DealContactWithLead = DealContact & { lead: Lead };
+
+// Per-person engagement fed to the deal forecast
+export interface ContactEngagement {
+  leadId: string;
+  name: string;
+  role: DealContactRole | "primary";
+  influence: DealContactInfluence;
+  conversations: number;
+  replies: number; // Messages from the contact
+  lastContactDays: number | null; // null when there has been no conversation
+}
+
+const DAY_MS = 1000 * 60 * 60 * 24;
+
+/**
+ * Engagement of the primary lead and each committee member, in that order
+ */
+export function summarizeCommitteeEngagement(
+  primaryLead: Lead | undefined,
+  contacts: DealContactWithLead[],
+  conversations: Pick<Conversation, "leadId" | "isFromLead" | "sentAt">[],
+  now: Date = new Date()
+): ContactEngagement[] {
+  const people: Array<Omit<ContactEngagement, "conversations" | "replies" | "lastContactDays">> = [];
+  if (primaryLead) {
+    people.push({ leadId: primaryLead.id, name: primaryLead.name, role: "primary", influence: "high" });
+  }
+  for (const contact of contacts) {
+    if (contact.leadId === primaryLead?.id) continue;
+    people.push({
+      leadId: contact.leadId,
+      name: contact.lead.name,
+      role: contact.role as DealContactRole,
+      influence: contact.influence as DealContactInfluence,
+    });
+  }
+
+  return people.map((person) => {
+    const theirs = conversations.filter((c) => c.leadId === person.leadId);
+    const last = theirs.reduce<number | null>((latest, c) => {
+      const time = new Date(c.sentAt).getTime();
+      return latest === null || time > latest ? time : latest;
+    }, null);
+    return {
+      ...person,
+      conversations: theirs.length,
+      replies: theirs.filter((c) => c.isFromLead).length,
+      lastContactDays: last === null ? null : Math.floor((now.getTime() - last) / DAY_MS),
+    };
+  });
+}
@@ -0,0 +1,100 @@
+import { z } from "zod";
+import type { DealLineItem } from "./schema";
+
+/**
+ * Products and deal line items
+ *
+ * Products form a catalog with a unit price (in cents) and a billing type.
+ * A line item copies the product's name, price and billing when it is added
+ * to a deal, so later catalog changes do not rewrite existing deals. Once a
+ * deal has line items its amount is derived from them: one-time items count
+ * once and recurring items count for the first year (monthly x 12), so the
+ * amount is the first-year contract value.
+ */
+
+export const billingTypes = ["one_time", "recurring"] as const;
+export type BillingType = typeof billingTypes[number];
+
+export const billingPeriods = ["monthly", "yearly"] as const;
+export type BillingPeriod = typeof billingPeriods[number];
+
+const productFields = {
+  name: z.string().min(1, "Name is required").max(200),
+  sku: z.string().max(64).nullable().optional(),
+  description: z.string().max(2000).nullable().optional(),
+  unitPrice: z.number().int().min(0, "Unit price cannot be negative"),
+  currency: z.string().length(3).transform((currency) => currency.toUpperCase()),
+  billingType: z.enum(billingTypes),
+  billingPeriod: z.enum(billingPeriods).nullable().optional(),
+};
+
+const checkBillingPeriod = (product: { billingType?: BillingType; billingPeriod?: BillingPeriod | null }) =>
+  product.billingType !== "recurring" || !!product.billingPeriod;
+const billingPeriodMessage = { message: "Recurring products need a billing period", path: ["billingPeriod"] };
+
+export const createProductSchema = z.object(productFields).refine(checkBillingPeriod, billingPeriodMessage);
+export const updateProductSchema = z
+  .object({ ...productFields, isActive: z.number().int().min(0).max(1) })
+  .partial()
+  .strict();
+
+const lineItemFields = {
+  quantity: z.number().int().min(1, "Quantity must be at least 1"),
+  discountPercent: z.number().int().min(0).max(100),
+};
+
+export const addLineItemSchema = z.object({
+  productId: z.string().min(1),
+  quantity: lineItemFields.quantity.default(1),
+  discountPercent: lineItemFields.discountPercent.default(0),
+  unitPrice: z.number().int().min(0).optional(), // Overrides the catalog price for this deal
+});
+
+export const updateLineItemSchema = z.object({
+  ...lineItemFields,
+  unitPrice: z.number().int().min(0),
+}).partial().strict();
+
+type PricedItem = Pick<DealLineItem, "unitPrice" | "quantity" | "discountPercent" | "billingType" | "billingPeriod">;
+
+/**
+ * Line total for one billing period (once for one-time items), after discount
+ */
+export function lineItemTotal(item: Pick<PricedItem, "unitPrice" | "quantity" | "discountPercent">): number {
+  return Math.round((item.unitPrice * item.quantity * (100 - item.discountPercent)) / 100);
+}
+
+/**
+ * Value the item adds to the deal amount: recurring items count for their first year
+ */
+export function lineItemFirstYearValue(item: PricedItem): number {
+  const total = lineItemTotal(item);
+  if (item.billingType !== "recurring") return total;
+  return item.billingPeriod === "monthly" ? total * 12 : total;
+}
+
+/**
+ * Deal amount derived from its line items
+ */
+export function dealAmountFromLineItems(items: PricedItem[]): number {
+  return items.reduce((sum, item) => sum + lineItemFirstYearValue(item), 0);
+}
+
+export interface RevenueBreakdown {
+  oneTime: number;
+  mrr: number; // Monthly recurring revenue
+  arr: number; // Annual recurring revenue (mrr x 12)
+}
+
+/**
+ * One-time versus recurring revenue of a set of line items
+ */
+export function revenueBreakdown(items: PricedItem[]): RevenueBreakdown {
+  let oneTime = 0;
+  let arr = 0;
+  for (const item of items) {
+    if (item.billingType === "recurring") arr += lineItemFirstYearValue(item);
+    else oneTime += lineItemTotal(item);
+  }
+  return { oneTime, mrr: Math.round(arr / 12), arr };
+}
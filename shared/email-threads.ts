@@ -0,0 +1,153 @@
+/**
+ * Email threading
+ *
+ * Rebuilds threads from flat conversation rows. Messages belong to the same
+ * thread when they share a Graph conversationId (threadId) or are linked by
+ * In-Reply-To / References headers; messages with neither fall back to their
+ * subject with Re:/Fwd: prefixes stripped. Threads never span leads.
+ *
+ * Within a thread each reply sits under the message it answered, so the
+ * result is a depth-first list with a depth for indentation.
+ */
+
+export interface ConversationAttachment {
+  id?: string;
+  name: string;
+  contentType?: string;
+  size?: number;
+}
+
+// The conversation fields threading needs; full Conversation rows satisfy it
+export interface ThreadableMessage {
+  id: string;
+  leadId: string;
+  subject: string;
+  sentAt: Date | string;
+  threadId?: string | null;
+  internetMessageId?: string | null;
+  inReplyTo?: string | null;
+  references?: string[] | null;
+}
+
+export interface ThreadedMessage<T extends ThreadableMessage> {
+  message: T;
+  depth: number; // 0 for messages that answer nothing in the thread
+  parentId?: string;
+}
+
+export interface ConversationThread<T extends ThreadableMessage> {
+  key: string;
+  leadId: string;
+  subject: string;
+  messages: ThreadedMessage<T>[];
+  lastMessageAt: Date;
+}
+
+const replyPrefix = /^\s*((re|fw|fwd|aw|sv)\s*(\[\d+\])?\s*:\s*)+/i;
+
+/**
+ * Strip reply and forward prefixes so "RE: Fwd: Pricing" matches "Pricing"
+ */
+export function normalizeSubject(subject: string): string {
+  return subject.replace(replyPrefix, "").trim().toLowerCase();
+}
+
+/**
+ * Parse a References header ("<a@x> <b@y>") into Message-IDs
+ */
+export function parseReferences(header: string | null | undefined): string[] {
+  if (!header) return [];
+  return header.match(/<[^>]+>/g) || [];
+}
+
+const timeOf = (message: ThreadableMessage) => new Date(message.sentAt).getTime();
+
+/**
+ * Group messages into threads, newest thread first
+ */
+export function buildThreads<T extends ThreadableMessage>(messages: T[]): ConversationThread<T>[] {
+  const byInternetId = new Map<string, T>();
+  for (const message of messages) {
+    if (message.internetMessageId) {
+      byInternetId.set(`${message.leadId}:${message.internetMessageId}`, message);
+    }
+  }
+
+  // The message each one answered: In-Reply-To first, then the latest known reference
+  const parentOf = new Map<string, T>();
+  for (const message of messages) {
+    const candidates = [message.inReplyTo, ...(message.references || []).slice().reverse()];
+    for (const ref of candidates) {
+      const parent = ref ? byInternetId.get(`${message.leadId}:${ref}`) : undefined;
+      if (parent && parent.id !== message.id) {
+        parentOf.set(message.id, parent);
+        break;
+      }
+    }
+  }
+
+  const rootOf = (message: T): T => {
+    const seen = new Set<string>([message.id]);
+    let current = message;
+    while (parentOf.has(current.id)) {
+      const parent = parentOf.get(current.id)!;
+      if (seen.has(parent.id)) break; // Malformed headers can form a cycle
+      seen.add(parent.id);
+      current = parent;
+    }
+    return current;
+  };
+
+  const groups = new Map<string, T[]>();
+  for (const message of messages) {
+    const root = rootOf(message);
+    const threadId = message.threadId || root.threadId;
+    const key = threadId
+      ? `${message.leadId}:thread:${threadId}`
+      : `${message.leadId}:subject:${normalizeSubject(root.subject)}`;
+    if (!groups.has(key)) groups.set(key, []);
+    groups.get(key)!.push(message);
+  }
+
+  const threads: ConversationThread<T>[] = [];
+  for (const [key, group] of Array.from(groups.entries())) {
+    const sorted = group.slice().sort((a, b) => timeOf(a) - timeOf(b));
+    const ids = new Set(sorted.map((m) => m.id));
+    const children = new Map<string, T[]>();
+    const roots: T[] = [];
+
+    for (const message of sorted) {
+      const parent = parentOf.get(message.id);
+      if (parent && ids.has(parent.id)) {
+        if (!children.has(parent.id)) children.set(parent.id, []);
+        children.get(parent.id)!.push(message);
+      } else {
+        roots.push(message);
+      }
+    }
+
+    const ordered: ThreadedMessage<T>[] = [];
+    const visited = new Set<string>();
+    const visit = (message: T, depth: number, parentId?: string) => {
+      if (visited.has(message.id)) return;
+      visited.add(message.id);
+      ordered.push({ message, depth, parentId });
+      for (const child of children.get(message.id) || []) {
+        visit(child, depth + 1, message.id);
+      }
+    };
+    roots.forEach((root) => visit(root, 0));
+    // Messages caught in a reply cycle have no root; list them at the top level
+    sorted.forEach((message) => visit(message, 0));
+
+    threads.push({
+      key,
+      leadId: sorted[0].leadId,
+      subject: sorted[0].subject,
+      messages: ordered,
+      lastMessageAt: new Date(timeOf(sorted[sorted.length - 1])),
+    });
+  }
+
+  return threads.sort((a, b) => b.lastMessageAt.getTime() - a.lastMessageAt.getTime());
+}
@@ -0,0 +1,189 @@
+import { z } from "zod";
+import { parseLeadSearch } from "./lead-search";
+import { dealViewFiltersSchema } from "./saved-views";
+
+/**
+ * Data export
+ *
+ * GET /api/exports/:entity streams leads, deals, tasks or conversations as
+ * CSV, XLSX or JSON. Filters use the same query parameters as the list
+ * endpoints (GET /api/leads search parameters, GET /api/deals filters);
+ * "format" and "columns" pick the output. Custom fields of leads and deals
+ * are exported with "cf.<key>" columns.
+ */
+
+export const exportEntities = ["leads", "deals", "tasks", "conversations"] as const;
+export type ExportEntity = typeof exportEntities[number];
+
+export const exportFormats = ["csv", "xlsx", "json"] as const;
+export type ExportFormat = typeof exportFormats[number];
+
+export interface ExportColumn {
+  key: string;
+  label: string;
+  default?: boolean; // Exported when no columns are chosen
+}
+
+export const exportColumns: Record<ExportEntity, ExportColumn[]> = {
+  leads: [
+    { key: "id", label: "ID" },
+    { key: "name", label: "Name", default: true },
+    { key: "firstName", label: "First name" },
+    { key: "lastName", label: "Last name" },
+    { key: "email", label: "Email", default: true },
+    { key: "phone", label: "Phone", default: true },
+    { key: "position", label: "Job title", default: true },
+    { key: "company", label: "Company", default: true },
+    { key: "industry", label: "Industry" },
+    { key: "city", label: "City" },
+    { key: "country", label: "Country" },
+    { key: "linkedinUrl", label: "LinkedIn URL" },
+    { key: "status", label: "Status", default: true },
+    { key: "score", label: "Score", default: true },
+    { key: "tags", label: "Tags" },
+    { key: "ownerName", label: "Owner", default: true },
+    { key: "lastContactedAt", label: "Last contacted" },
+    { key: "createdAt", label: "Created", default: true },
+  ],
+  deals: [
+    { key: "id", label: "ID" },
+    { key: "name", label: "Name", default: true },
+    { key: "amount", label: "Amount (cents)", default: true },
+    { key: "currency", label: "Currency", default: true },
+    { key: "probability", label: "Probability" },
+    { key: "status", label: "Status", default: true },
+    { key: "pipelineName", label: "Pipeline", default: true },
+    { key: "stageName", label: "Stage", default: true },
+    { key: "ownerName", label: "Owner", default: true },
+    { key: "leadId", label: "Lead ID" },
+    { key: "expectedCloseDate", label: "Expected close", default: true },
+    { key: "actualCloseDate", label: "Closed" },
+    { key: "lostReason", label: "Lost reason" },
+    { key: "createdAt", label: "Created" },
+  ],
+  tasks: [
+    { key: "id", label: "ID" },
+    { key: "title", label: "Title", default: true },
+    { key: "description", label: "Description" },
+    { key: "status", label: "Status", default: true },
+    { key: "priority", label: "Priority", default: true },
+    { key: "dueDate", label: "Due", default: true },
+    { key: "assigneeName", label: "Assigned to", default: true },
+    { key: "leadId", label: "Lead ID", default: true },
+    { key: "completedAt", label: "Completed" },
+    { key: "createdAt", label: "Created" },
+  ],
+  conversations: [
+    { key: "id", label: "ID" },
+    { key: "leadId", label: "Lead ID", default: true },
+    { key: "subject", label: "Subject", default: true },
+    { key: "fromEmail", label: "From", default: true },
+    { key: "toEmail", label: "To", default: true },
+    { key: "sentAt", label: "Sent", default: true },
+    { key: "direction", label: "Direction", default: true },
+    { key: "threadId", label: "Thread ID" },
+    { key: "body", label: "Body" },
+  ],
+};
+
+// Entities whose custom fields can be exported as cf.<key> columns
+const customFieldEntities: ExportEntity[] = ["leads", "deals"];
+const customFieldColumn = /^cf\.[A-Za-z0-9_]+$/;
+
+export const taskExportFiltersSchema = z.object({
+  status: z.enum(["pending", "in_progress", "completed", "cancelled"]).optional(),
+  priority: z.enum(["low", "medium", "high", "urgent"]).optional(),
+  assignedToUserId: z.string().optional(),
+  leadId: z.string().optional(),
+  dueFrom: z.coerce.date().optional(),
+  dueTo: z.coerce.date().optional(),
+});
+export type TaskExportFilters = z.infer<typeof taskExportFiltersSchema>;
+
+export const conversationExportFiltersSchema = z.object({
+  leadId: z.string().optional(),
+  direction: z.enum(["inbound", "outbound"]).optional(),
+  sentFrom: z.coerce.date().optional(),
+  sentTo: z.coerce.date().optional(),
+});
+export type ConversationExportFilters = z.infer<typeof conversationExportFiltersSchema>;
+
+export type ExportRequest = {
+  format: ExportFormat;
+  columns: string[];
+  filters: Record<string, unknown>; // Parsed with the entity's filter schema
+};
+
+/**
+ * Split an export query string into format, columns and entity filters;
+ * returns an error message when any part is invalid
+ */
+export function parseExportRequest(
+  entity: ExportEntity,
+  query: Record<string, unknown>
+): { success: true; data: ExportRequest } | { success: false; error: string } {
+  const { format = "csv", columns: rawColumns, ...rawFilters } = query;
+
+  if (!exportFormats.includes(format as ExportFormat)) {
+    return { success: false, error: `Format must be one of ${exportFormats.join(", ")}` };
+  }
+
+  const columns = typeof rawColumns === "string" && rawColumns.trim()
+    ? rawColumns.split(",").map((column) => column.trim()).filter(Boolean)
+    : exportColumns[entity].filter((column) => column.default).map((column) => column.key);
+  const unknown = columns.find((column) =>
+    !exportColumns[entity].some((c) => c.key === column) &&
+    !(customFieldEntities.includes(entity) && customFieldColumn.test(column))
+  );
+  if (unknown) {
+    return { success: false, error: `Unknown ${entity} column "${unknown}"` };
+  }
+
+  let filters: { success: true; data: Record<string, unknown> } | { success: false; error: z.ZodError };
+  switch (entity) {
+    case "leads": {
+      const { cursor, limit, ...leadQuery } = rawFilters;
+      filters = parseLeadSearch(leadQuery);
+      break;
+    }
+    case "deals":
+      filters = dealViewFiltersSchema.strict().safeParse(rawFilters);
+      break;
+    case "tasks":
+      filters = taskExportFiltersSchema.strict().safeParse(rawFilters);
+      break;
+    case "conversations":
+      filters = conversationExportFiltersSchema.strict().safeParse(rawFilters);
+      break;
+  }
+  if (!filters.success) {
+    return { success: false, error: filters.error.errors[0]?.message || "Invalid export filters" };
+  }
+
+  return { success: true, data: { format: format as ExportFormat, columns, filters: filters.data } };
+}
+
+/**
+ * Flatten a value into a single spreadsheet cell
+ */
+export function formatExportCell(value: unknown): string {
+  if (value === null || value === undefined) return "";
+  if (value instanceof Date) return value.toISOString();
+  if (Array.isArray(value)) return value.map(formatExportCell).join("; ");
+  if (typeof value === "object") return JSON.stringify(value);
+  return String(value);
+}
+
+/**
+ * One CSV line (RFC 4180 quoting), without the line break
+ */
+export function toCsvLine(values: unknown[]): string {
+  return values
+    .map((value) => {
+      let cell = formatExportCell(value);
+      // Keep spreadsheet apps from evaluating text as a formula
+      if (typeof value === "string" && /^[=+\-@]/.test(cell)) cell = `'${cell}`;
+      return /[",\r\n]/.test(cell) ? `"${cell.replace(/"/g, '""')}"` : cell;
+    })
+    .join(",");
+}
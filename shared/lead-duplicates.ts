@@ -0,0 +1,199 @@
+import { z } from "zod";
+import type { Lead } from "./schema";
+
+/**
+ * Duplicate leads
+ *
+ * Leads are likely duplicates when they share a normalized email, LinkedIn
+ * username or phone number, or when their names are close and they work at
+ * the same company. Pairs a user marks as "not a duplicate" are stored as
+ * dismissals and never suggested again. Merging keeps one surviving lead,
+ * takes each field from the lead the user picked, and moves every related
+ * record onto the survivor before the other leads are deleted.
+ */
+
+export const duplicateReasons = ["email", "linkedin", "phone", "name_company"] as const;
+export type DuplicateReason = typeof duplicateReasons[number];
+
+export interface DuplicateMatch {
+  leadIds: [string, string];
+  reasons: DuplicateReason[];
+  nameSimilarity: number; // 0-1
+}
+
+export interface DuplicateGroup {
+  leads: Lead[];
+  matches: DuplicateMatch[];
+}
+
+// Fields the user picks a source lead for when merging
+export const leadMergeFields = [
+  "name",
+  "firstName",
+  "lastName",
+  "email",
+  "phone",
+  "position",
+  "department",
+  "industry",
+  "linkedinUrl",
+  "twitterUrl",
+  "website",
+  "city",
+  "state",
+  "country",
+  "company",
+  "companyDomain",
+  "companyWebsite",
+  "companySize",
+  "status",
+  "score",
+  "ownerId",
+] as const;
+export type LeadMergeField = typeof leadMergeFields[number];
+
+export const leadMergeSchema = z.object({
+  survivorId: z.string().min(1),
+  mergedIds: z.array(z.string().min(1)).min(1, "Pick at least one lead to merge").max(10),
+  // Lead id to take each field from; fields left out keep the survivor's value (or the first non-empty one)
+  fieldSources: z.record(z.enum(leadMergeFields), z.string()).default({}),
+});
+export type LeadMergeRequest = z.infer<typeof leadMergeSchema>;
+
+export const duplicateDismissSchema = z.object({
+  leadIds: z.array(z.string().min(1)).min(2).max(10),
+});
+
+// Minimum name similarity for a name + company match
+export const NAME_SIMILARITY_THRESHOLD = 0.8;
+
+/**
+ * Lowercased email with "+tag" suffixes removed (and dots, for Gmail)
+ */
+export function normalizeEmail(email: string | null | undefined): string | null {
+  const value = (email || "").trim().toLowerCase();
+  const at = value.lastIndexOf("@");
+  if (at < 1) return null;
+
+  let local = value.slice(0, at).replace(/\+.*$/, "");
+  let domain = value.slice(at + 1);
+  if (domain === "googlemail.com") domain = "gmail.com";
+  if (domain === "gmail.com") local = local.replace(/\./g, "");
+  return local ? `${local}@${domain}` : null;
+}
+
+/**
+ * The last 10 digits of a phone number, so country prefixes and formatting do not matter
+ */
+export function normalizePhone(phone: string | null | undefined): string | null {
+  const digits = (phone || "").replace(/\D/g, "");
+  return digits.length >= 7 ? digits.slice(-10) : null;
+}
+
+/**
+ * Lowercase letters and single spaces only, accents removed
+ */
+export function normalizeName(name: string | null | undefined): string {
+  return (name || "")
+    .normalize("NFD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .toLowerCase()
+    .replace(/[^a-z0-9 ]+/g, " ")
+    .replace(/\s+/g, " ")
+    .trim();
+}
+
+const companySuffixes = /\b(inc|incorporated|llc|ltd|limited|gmbh|corp|corporation|co|company|plc|sa|ag|bv)\b/g;
+
+/**
+ * Company name without legal suffixes, for comparing "Acme Inc." with "ACME"
+ */
+export function normalizeCompany(company: string | null | undefined): string {
+  return normalizeName(company).replace(companySuffixes, "").replace(/\s+/g, " ").trim();
+}
+
+/**
+ * Dice coefficient over letter pairs of the normalized names (word order ignored)
+ */
+export function nameSimilarity(a: string, b: string): number {
+  const sortWords = (name: string) => normalizeName(name).split(" ").sort().join(" ");
+  const left = sortWords(a);
+  const right = sortWords(b);
+  if (!left || !right) return 0;
+  if (left === right) return 1;
+
+  const pairs = (value: string) => {
+    const counts = new Map<string, number>();
+    for (let i = 0; i < value.length - 1; i++) {
+      const pair = value.slice(i, i + 2);
+      counts.set(pair, (counts.get(pair) || 0) + 1);
+    }
+    return counts;
+  };
+  const leftPairs = pairs(left);
+  const rightPairs = pairs(right);
+  let overlap = 0;
+  leftPairs.forEach((count, pair) => {
+    overlap += Math.min(count, rightPairs.get(pair) || 0);
+  });
+  const total = left.length - 1 + right.length - 1;
+  return total > 0 ? (2 * overlap) / total : 0;
+}
+
+const isEmpty = (value: unknown) => value === null || value === undefined || value === "";
+
+/**
+ * The survivor's values after a merge: picked fields come from their chosen
+ * lead, other fields fall back to the first lead that has a value. Tags,
+ * custom fields and notes are combined; the most recent contact date and
+ * any unsubscribe are kept.
+ */
+export function buildMergedLead(
+  survivor: Lead,
+  merged: Lead[],
+  fieldSources: Partial<Record<LeadMergeField, string>>
+): Partial<Lead> {
+  const all = [survivor, ...merged];
+  const result: Partial<Lead> = {};
+
+  for (const field of leadMergeFields) {
+    const sourceId = fieldSources[field];
+    const source = sourceId ? all.find((lead) => lead.id === sourceId) : undefined;
+    const value = source ? source[field] : all.find((lead) => !isEmpty(lead[field]))?.[field];
+    if (value !== undefined && value !== survivor[field]) {
+      (result as Record<string, unknown>)[field] = value;
+    }
+  }
+
+  const tags = Array.from(new Set(all.flatMap((lead) => lead.tags || [])));
+  if (tags.length !== (survivor.tags || []).length) result.tags = tags;
+
+  const customFields = Object.assign(
+    {},
+    ...merged.slice().reverse().map((lead) => (lead.customFields as Record<string, unknown>) || {}),
+    (survivor.customFields as Record<string, unknown>) || {}
+  );
+  if (Object.keys(customFields).length !== Object.keys((survivor.customFields as object) || {}).length) {
+    result.customFields = customFields;
+  }
+
+  const notes = Array.from(new Set(all.map((lead) => (lead.notes || "").trim()).filter(Boolean)));
+  if (notes.length > 1) result.notes = notes.join("\n\n");
+  else if (notes.length === 1 && notes[0] !== (survivor.notes || "").trim()) result.notes = notes[0];
+
+  const pickDate = (dates: Array<Date | string | null>, pick: (a: number, b: number) => number) => {
+    const times = dates.filter((d): d is Date | string => !!d).map((d) => new Date(d).getTime());
+    return times.length ? new Date(times.reduce(pick)) : null;
+  };
+  const lastContactedAt = pickDate(all.map((lead) => lead.lastContactedAt), Math.max);
+  if (lastContactedAt && lastContactedAt.getTime() !== (survivor.lastContactedAt ? new Date(survivor.lastContactedAt).getTime() : null)) {
+    result.lastContactedAt = lastContactedAt;
+  }
+  // An opt-out on any of the leads must survive the merge
+  if (!survivor.unsubscribedAt) {
+    const unsubscribedAt = pickDate(all.map((lead) => lead.unsubscribedAt), Math.min);
+    if (unsubscribedAt) result.unsubscribedAt = unsubscribedAt;
+  }
+
+  return result;
+}
@@ -0,0 +1,226 @@
+import { z } from "zod";
+
+/**
+ * Lead file import
+ *
+ * An uploaded CSV or XLSX file becomes a lead_imports batch holding its
+ * header row and data rows. The user maps each column to a lead field, a
+ * custom field ("customFields.<key>") or nothing, picks how duplicates
+ * (matched on email or LinkedIn URL) are handled, previews the result and
+ * then runs the batch. Every lead the batch creates or changes is recorded
+ * so the whole batch can be rolled back.
+ */
+
+export const leadImportStatuses = ["draft", "queued", "running", "completed", "failed", "rolled_back"] as const;
+export type LeadImportStatus = typeof leadImportStatuses[number];
+
+// skip: leave the existing lead alone; update: fill it from the row; create: add a new lead anyway
+export const dedupeStrategies = ["skip", "update", "create"] as const;
+export type DedupeStrategy = typeof dedupeStrategies[number];
+
+export const dedupeFields = ["email", "linkedinUrl"] as const;
+export type DedupeField = typeof dedupeFields[number];
+
+export type ImportFieldType = "string" | "number" | "tags";
+
+export interface ImportField {
+  field: string;
+  label: string;
+  type: ImportFieldType;
+  aliases: string[]; // Normalized header names that map to the field
+}
+
+// Lead fields a column can be mapped to
+export const leadImportFields: ImportField[] = [
+  { field: "name", label: "Full name", type: "string", aliases: ["name", "fullname", "contact", "contactname"] },
+  { field: "firstName", label: "First name", type: "string", aliases: ["firstname", "first", "givenname"] },
+  { field: "lastName", label: "Last name", type: "string", aliases: ["lastname", "last", "surname", "familyname"] },
+  { field: "email", label: "Email", type: "string", aliases: ["email", "emailaddress", "mail", "workemail"] },
+  { field: "phone", label: "Phone", type: "string", aliases: ["phone", "phonenumber", "mobile", "telephone"] },
+  { field: "position", label: "Job title", type: "string", aliases: ["position", "title", "jobtitle", "role"] },
+  { field: "department", label: "Department", type: "string", aliases: ["department"] },
+  { field: "industry", label: "Industry", type: "string", aliases: ["industry"] },
+  { field: "linkedinUrl", label: "LinkedIn URL", type: "string", aliases: ["linkedin", "linkedinurl", "linkedinprofile"] },
+  { field: "twitterUrl", label: "Twitter URL", type: "string", aliases: ["twitter", "twitterurl"] },
+  { field: "website", label: "Website", type: "string", aliases: ["website", "url", "personalwebsite"] },
+  { field: "city", label: "City", type: "string", aliases: ["city", "town"] },
+  { field: "state", label: "State", type: "string", aliases: ["state", "region", "province"] },
+  { field: "country", label: "Country", type: "string", aliases: ["country"] },
+  { field: "company", label: "Company", type: "string", aliases: ["company", "companyname", "organization", "organisation", "account"] },
+  { field: "companyDomain", label: "Company domain", type: "string", aliases: ["companydomain", "domain"] },
+  { field: "companyWebsite", label: "Company website", type: "string", aliases: ["companywebsite"] },
+  { field: "companySize", label: "Company size", type: "string", aliases: ["companysize", "employees", "headcount"] },
+  { field: "status", label: "Status", type: "string", aliases: ["status", "leadstatus"] },
+  { field: "score", label: "Score", type: "number", aliases: ["score", "leadscore"] },
+  { field: "tags", label: "Tags", type: "tags", aliases: ["tags", "labels"] },
+  { field: "notes", label: "Notes", type: "string", aliases: ["notes", "comments", "description"] },
+];
+
+const CUSTOM_FIELD_PREFIX = "customFields.";
+const customFieldKey = /^[A-Za-z0-9_]+$/;
+
+// A column's target: a lead field, "customFields.<key>", or null to ignore it
+export const importMappingSchema = z.array(
+  z
+    .string()
+    .refine(
+      (target) =>
+        leadImportFields.some((f) => f.field === target) ||
+        (target.startsWith(CUSTOM_FIELD_PREFIX) && customFieldKey.test(target.slice(CUSTOM_FIELD_PREFIX.length))),
+      { message: "Unknown import field" }
+    )
+    .nullable()
+);
+export type ImportMapping = z.infer<typeof importMappingSchema>;
+
+export const leadImportOptionsSchema = z.object({
+  mapping: importMappingSchema,
+  dedupeStrategy: z.enum(dedupeStrategies).default("skip"),
+  dedupeField: z.enum(dedupeFields).default("email"),
+});
+export type LeadImportOptions = z.infer<typeof leadImportOptionsSchema>;
+
+export type ImportRowAction = "create" | "update" | "skip" | "invalid";
+
+export interface ImportRowPreview {
+  row: number; // 1-based data row number (the header is row 0)
+  action: ImportRowAction;
+  errors: string[];
+  duplicateOf?: string; // Existing lead id, or "row N" for an earlier row in the file
+}
+
+export interface LeadImportPreview {
+  rowCount: number;
+  create: number;
+  update: number;
+  skip: number;
+  invalid: number;
+  rows: ImportRowPreview[]; // Rows that are invalid or duplicates, capped for display
+}
+
+/**
+ * Parse CSV text (RFC 4180 quoting; comma, semicolon or tab separated)
+ */
+export function parseCsv(text: string): string[][] {
+  const input = text.replace(/^﻿/, "");
+  const firstLine = input.slice(0, input.search(/\r?\n|$/));
+  const delimiter = [",", ";", "\t"].reduce((best, d) =>
+    firstLine.split(d).length > firstLine.split(best).length ? d : best
+  );
+
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = "";
+  let quoted = false;
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+    if (quoted) {
+      if (char === '"' && input[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"' && cell === "") {
+      quoted = true;
+    } else if (char === delimiter) {
+      row.push(cell);
+      cell = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && input[i + 1] === "\n") i++;
+      row.push(cell);
+      rows.push(row);
+      row = [];
+      cell = "";
+    } else {
+      cell += char;
+    }
+  }
+  if (cell !== "" || row.length > 0) {
+    row.push(cell);
+    rows.push(row);
+  }
+
+  // Blank lines carry nothing to import
+  return rows.filter((r) => r.some((value) => value.trim() !== ""));
+}
+
+const normalizeHeader = (header: string) => header.toLowerCase().replace(/[^a-z0-9]/g, "");
+
+/**
+ * Suggest a target for each column: a matching lead field, otherwise a custom field
+ */
+export function suggestMapping(headers: string[]): ImportMapping {
+  const used = new Set<string>();
+  return headers.map((header) => {
+    const normalized = normalizeHeader(header);
+    if (!normalized) return null;
+
+    const match = leadImportFields.find((f) => f.aliases.includes(normalized) && !used.has(f.field));
+    if (match) {
+      used.add(match.field);
+      return match.field;
+    }
+
+    return customFieldTarget(header);
+  });
+}
+
+/**
+ * The custom field a column is stored under when it is not mapped to a lead field
+ */
+export function customFieldTarget(header: string): string | null {
+  const key = header.trim().replace(/[^A-Za-z0-9]+/g, "_").replace(/^_+|_+$/g, "");
+  return key ? `${CUSTOM_FIELD_PREFIX}${key}` : null;
+}
+
+/**
+ * Turn one data row into lead fields using the mapping; empty cells are left out
+ */
+export function mapImportRow(row: string[], mapping: ImportMapping): Record<string, unknown> {
+  const lead: Record<string, unknown> = {};
+  const customFields: Record<string, string> = {};
+
+  mapping.forEach((target, index) => {
+    const value = (row[index] ?? "").trim();
+    if (!target || value === "") return;
+
+    if (target.startsWith(CUSTOM_FIELD_PREFIX)) {
+      customFields[target.slice(CUSTOM_FIELD_PREFIX.length)] = value;
+      return;
+    }
+
+    const field = leadImportFields.find((f) => f.field === target)!;
+    if (field.type === "number") {
+      const number = Number(value);
+      lead[target] = Number.isFinite(number) ? number : value; // Left as text so validation reports it
+    } else if (field.type === "tags") {
+      lead[target] = value.split(/[,;|]/).map((t) => t.trim()).filter(Boolean);
+    } else if (target === "status") {
+      lead[target] = value.toLowerCase();
+    } else {
+      lead[target] = value;
+    }
+  });
+
+  if (!lead.name && (lead.firstName || lead.lastName)) {
+    lead.name = [lead.firstName, lead.lastName].filter(Boolean).join(" ");
+  }
+  if (Object.keys(customFields).length > 0) {
+    lead.customFields = customFields;
+  }
+  return lead;
+}
+
+/**
+ * The value duplicates are matched on, normalized for comparison
+ */
+export function dedupeKey(lead: Record<string, unknown>, field: DedupeField): string | null {
+  const value = lead[field];
+  if (typeof value !== "string" || value.trim() === "") return null;
+  const key = value.trim().toLowerCase();
+  return field === "linkedinUrl" ? key.replace(/^https?:\/\/(www\.)?/, "").replace(/\/+$/, "") : key;
+}
@@ -0,0 +1,129 @@
+import { z } from "zod";
+
+/**
+ * Lead search parameters
+ *
+ * GET /api/leads accepts these as query parameters:
+ * - q: words matched against name, email, company and position (every word must match)
+ * - status, ownerId, industry, country, tags: comma separated; a lead matches any listed value
+ * - minScore / maxScore, createdFrom / createdTo, lastContactedFrom / lastContactedTo
+ * - cf.<key>=<value>: custom field equals value (case-insensitive)
+ * - sort: comma separated "field:direction", e.g. "score:desc,name:asc"
+ * - limit (default 50, max 200) and cursor (nextCursor from the previous page)
+ */
+
+export const leadSortFields = [
+  "name",
+  "email",
+  "company",
+  "position",
+  "status",
+  "score",
+  "createdAt",
+  "updatedAt",
+  "lastContactedAt",
+] as const;
+export type LeadSortField = typeof leadSortFields[number];
+
+export interface LeadSort {
+  field: LeadSortField;
+  direction: "asc" | "desc";
+}
+
+const list = z
+  .string()
+  .transform((value) => value.split(",").map((v) => v.trim()).filter(Boolean))
+  .optional();
+
+const customFieldKey = /^[A-Za-z0-9_]+$/;
+
+/**
+ * Cursors carry the last row's sort values (plus its id) as base64url JSON
+ */
+export function encodeLeadCursor(values: unknown[]): string {
+  const bytes = new TextEncoder().encode(JSON.stringify(values));
+  let binary = "";
+  bytes.forEach((b) => (binary += String.fromCharCode(b)));
+  return btoa(binary).replace(/\+/g, "-").replace(/\//g, "_").replace(/=+$/, "");
+}
+
+export function decodeLeadCursor(cursor: string): unknown[] {
+  const binary = atob(cursor.replace(/-/g, "+").replace(/_/g, "/"));
+  const bytes = Uint8Array.from(binary, (c) => c.charCodeAt(0));
+  const values = JSON.parse(new TextDecoder().decode(bytes));
+  if (!Array.isArray(values)) throw new Error("Invalid cursor");
+  return values;
+}
+
+const sortSchema = z
+  .string()
+  .transform((value, ctx) => {
+    const sorts: LeadSort[] = [];
+    for (const part of value.split(",").map((p) => p.trim()).filter(Boolean)) {
+      const [field, direction = "asc"] = part.split(":");
+      if (!(leadSortFields as readonly string[]).includes(field) || !["asc", "desc"].includes(direction)) {
+        ctx.addIssue({ code: z.ZodIssueCode.custom, message: `Cannot sort by "${part}"` });
+        return z.NEVER;
+      }
+      sorts.push({ field: field as LeadSortField, direction: direction as LeadSort["direction"] });
+    }
+    return sorts;
+  })
+  .optional();
+
+export const leadSearchSchema = z
+  .object({
+    q: z.string().trim().optional(),
+    status: list,
+    ownerId: list,
+    industry: list,
+    country: list,
+    tags: list,
+    minScore: z.coerce.number().int().min(0).max(100).optional(),
+    maxScore: z.coerce.number().int().min(0).max(100).optional(),
+    createdFrom: z.coerce.date().optional(),
+    createdTo: z.coerce.date().optional(),
+    lastContactedFrom: z.coerce.date().optional(),
+    lastContactedTo: z.coerce.date().optional(),
+    sort: sortSchema,
+    limit: z.coerce.number().int().min(1).max(200).default(50),
+    cursor: z
+      .string()
+      .transform((value, ctx) => {
+        try {
+          return decodeLeadCursor(value);
+        } catch {
+          ctx.addIssue({ code: z.ZodIssueCode.custom, message: "Invalid cursor" });
+          return z.NEVER;
+        }
+      })
+      .optional(),
+    customFields: z.record(z.string()).default({}),
+  });
+export type LeadSearchParams = z.infer<typeof leadSearchSchema>;
+
+export interface LeadPage<T> {
+  leads: T[];
+  nextCursor: string | null;
+  total: number;
+}
+
+/**
+ * Parse an Express query object, collecting cf.<key> entries into customFields
+ */
+export function parseLeadSearch(query: Record<string, unknown>) {
+  const params: Record<string, unknown> = {};
+  const customFields: Record<string, string> = {};
+
+  for (const [key, value] of Object.entries(query)) {
+    if (typeof value !== "string") continue;
+    if (key.startsWith("cf.")) {
+      const field = key.slice(3);
+      if (customFieldKey.test(field)) customFields[field] = value;
+    } else {
+      params[key] = value;
+    }
+  }
+
+  return leadSearchSchema.safeParse({ ...params, customFields });
+}
@@ -0,0 +1,64 @@
+import { z } from "zod";
+
+/**
+ * Onboarding: invitations and password resets
+ *
+ * Admins and managers invite people with their role and manager preset;
+ * the invitee picks a password from the emailed link. Forgotten passwords
+ * are reset through a single-use link. Both links carry a random token of
+ * which the server keeps only a hash.
+ */
+
+export const INVITATION_TTL_DAYS = 7;
+export const PASSWORD_RESET_TTL_MINUTES = 60;
+
+const password = z.string().min(8, "Password must be at least 8 characters");
+
+export const createInvitationSchema = z.object({
+  email: z.string().trim().toLowerCase().email("Invalid email address"),
+  name: z.string().trim().min(1).optional(),
+  role: z.string().min(1, "Role is required"),
+  managerId: z.string().nullable().optional(),
+});
+
+export const acceptInvitationSchema = z.object({
+  name: z.string().trim().min(1, "Name is required"),
+  password,
+});
+
+export const forgotPasswordSchema = z.object({
+  email: z.string().trim().email("Invalid email address"),
+});
+
+export const resetPasswordSchema = z.object({
+  token: z.string().min(1, "Reset token is required"),
+  password,
+});
+
+export const updateAuthSettingsSchema = z.object({
+  openRegistration: z.boolean(),
+});
+
+export type CreateInvitation = z.infer<typeof createInvitationSchema>;
+export type AcceptInvitation = z.infer<typeof acceptInvitationSchema>;
+
+export type InvitationStatus = "pending" | "expired" | "accepted" | "revoked";
+
+export function invitationStatus(
+  invitation: { expiresAt: Date | string; acceptedAt: Date | string | null; revokedAt: Date | string | null },
+  now: Date = new Date(),
+): InvitationStatus {
+  if (invitation.acceptedAt) return "accepted";
+  if (invitation.revokedAt) return "revoked";
+  return new Date(invitation.expiresAt) <= now ? "expired" : "pending";
+}
+
+/**
+ * What the accept-invitation page shows before the invitee signs up
+ */
+export interface InvitationPreview {
+  email: string;
+  name: string | null;
+  roleName: string;
+  invitedBy: string | null;
+}
@@ -0,0 +1,144 @@
+import { z } from "zod";
+
+/**
+ * Quotas and attainment
+ *
+ * A quota is a target for one metric over one calendar month or quarter.
+ * Individual quotas cover the user's own results; team quotas are set on a
+ * manager and cover the manager plus everyone reporting to them, directly or
+ * through other managers. Attainment is measured from:
+ *   - revenue: won deals by owner, converted to the base currency at their close date
+ *   - deals_won: number of won deals by owner
+ *   - activities: tasks completed by the assignee (the CRM has no separate meeting records)
+ * Won deals count in the period containing their actualCloseDate.
+ */
+
+export const quotaMetrics = ["revenue", "deals_won", "activities"] as const;
+export type QuotaMetric = typeof quotaMetrics[number];
+
+export const quotaMetricLabels: Record<QuotaMetric, string> = {
+  revenue: "Revenue",
+  deals_won: "Deals won",
+  activities: "Activities",
+};
+
+export const quotaPeriodTypes = ["month", "quarter"] as const;
+export type QuotaPeriodType = typeof quotaPeriodTypes[number];
+
+export const quotaScopes = ["individual", "team"] as const;
+export type QuotaScope = typeof quotaScopes[number];
+
+export const setQuotaSchema = z.object({
+  userId: z.string().min(1),
+  scope: z.enum(quotaScopes).default("individual"),
+  metric: z.enum(quotaMetrics),
+  periodType: z.enum(quotaPeriodTypes),
+  periodStart: z.coerce.date(), // Any date inside the period; stored as the period's first day
+  target: z.number().int().min(0, "Target cannot be negative"),
+});
+
+export const attainmentQuerySchema = z.object({
+  periodType: z.enum(quotaPeriodTypes).default("month"),
+  date: z.coerce.date().optional(),
+});
+
+export interface QuotaPeriod {
+  start: Date;
+  end: Date; // Exclusive
+  label: string;
+}
+
+const monthNames = ["Jan", "Feb", "Mar", "Apr", "May", "Jun", "Jul", "Aug", "Sep", "Oct", "Nov", "Dec"];
+
+/**
+ * The calendar month or quarter containing `date`
+ */
+export function quotaPeriod(periodType: QuotaPeriodType, date: Date): QuotaPeriod {
+  const year = date.getFullYear();
+  if (periodType === "quarter") {
+    const quarter = Math.floor(date.getMonth() / 3);
+    return {
+      start: new Date(year, quarter * 3, 1),
+      end: new Date(year, quarter * 3 + 3, 1),
+      label: `Q${quarter + 1} ${year}`,
+    };
+  }
+  return {
+    start: new Date(year, date.getMonth(), 1),
+    end: new Date(year, date.getMonth() + 1, 1),
+    label: `${monthNames[date.getMonth()]} ${year}`,
+  };
+}
+
+export type QuotaActuals = Record<QuotaMetric, number>;
+
+export const emptyActuals = (): QuotaActuals => ({ revenue: 0, deals_won: 0, activities: 0 });
+
+/**
+ * Per-user results from won deals (amounts already in the base currency) and completed task counts
+ */
+export function tallyActuals(
+  wonDeals: Array<{ ownerId: string; amount: number | null }>,
+  completedTasks: Record<string, number>
+): Record<string, QuotaActuals> {
+  const actuals: Record<string, QuotaActuals> = {};
+  const forUser = (userId: string) => actuals[userId] || (actuals[userId] = emptyActuals());
+
+  for (const deal of wonDeals) {
+    const entry = forUser(deal.ownerId);
+    entry.deals_won++;
+    // Deals that could not be converted still count as won but add no revenue
+    if (deal.amount !== null) entry.revenue += deal.amount;
+  }
+  for (const [userId, count] of Object.entries(completedTasks)) {
+    forUser(userId).activities += count;
+  }
+  return actuals;
+}
+
+/**
+ * Combined results of a group of users
+ */
+export function rollUpActuals(actuals: Record<string, QuotaActuals>, userIds: string[]): QuotaActuals {
+  const total = emptyActuals();
+  for (const userId of Array.from(new Set(userIds))) {
+    const entry = actuals[userId];
+    if (!entry) continue;
+    for (const metric of quotaMetrics) total[metric] += entry[metric];
+  }
+  return total;
+}
+
+/**
+ * Percentage of the target reached, or null without a target
+ */
+export function attainmentPercent(actual: number, target: number | null | undefined): number | null {
+  if (target === null || target === undefined) return null;
+  if (target === 0) return actual > 0 ? 100 : 0;
+  return Math.round((actual / target) * 100);
+}
+
+export interface QuotaProgress {
+  metric: QuotaMetric;
+  quotaId: string | null;
+  target: number | null;
+  actual: number;
+  attainment: number | null;
+}
+
+export interface AttainmentRow {
+  user: { id: string; name: string; role: string; managerId: string | null };
+  individual: QuotaProgress[];
+  team: QuotaProgress[] | null; // Only for users with people reporting to them
+  teamSize: number;
+}
+
+export interface AttainmentReport {
+  periodType: QuotaPeriodType;
+  periodStart: string;
+  periodEnd: string;
+  label: string;
+  baseCurrency: string;
+  unconvertedDeals: number; // Won deals left out of revenue for lack of an exchange rate
+  rows: AttainmentRow[];
+}
@@ -0,0 +1,89 @@
+import { z } from "zod";
+
+/**
+ * Roles and field-level visibility
+ *
+ * Three roles are built in: admin, manager and sales_rep. Admins can change
+ * the permissions of manager and sales_rep and define custom roles; the
+ * admin role itself is fixed. Each non-admin role can also hide sensitive
+ * lead and deal fields, which the API then returns as null.
+ */
+
+export const builtInRoles = ["admin", "manager", "sales_rep"] as const;
+export type BuiltInRole = typeof builtInRoles[number];
+
+export const builtInRoleNames: Record<BuiltInRole, string> = {
+  admin: "Admin",
+  manager: "Manager",
+  sales_rep: "Sales Rep",
+};
+
+export const restrictableLeadFields = ["email", "phone", "linkedinUrl", "companyPhone", "notes", "customFields"] as const;
+export const restrictableDealFields = ["amount", "probability", "customFields"] as const;
+
+export const restrictedFieldLabels = {
+  leads: {
+    email: "Email",
+    phone: "Phone",
+    linkedinUrl: "LinkedIn URL",
+    companyPhone: "Company phone",
+    notes: "Notes",
+    customFields: "Custom fields",
+  },
+  deals: {
+    amount: "Amount",
+    probability: "Probability",
+    customFields: "Custom fields",
+  },
+} as const;
+
+export type RestrictedEntity = keyof typeof restrictedFieldLabels;
+
+export const hiddenFieldsSchema = z.object({
+  leads: z.array(z.enum(restrictableLeadFields)).default([]),
+  deals: z.array(z.enum(restrictableDealFields)).default([]),
+});
+
+export type HiddenFields = z.infer<typeof hiddenFieldsSchema>;
+
+export const noHiddenFields = (): HiddenFields => ({ leads: [], deals: [] });
+
+export const createRoleSchema = z.object({
+  key: z.string().regex(/^[a-z][a-z0-9_]{1,39}$/, "Key must be 2-40 lowercase letters, digits or underscores"),
+  name: z.string().trim().min(1, "Name is required"),
+  description: z.string().trim().nullable().optional(),
+  permissions: z.array(z.string()).default([]),
+  hiddenFields: hiddenFieldsSchema.default({}),
+});
+
+export const updateRoleSchema = createRoleSchema.omit({ key: true }).partial();
+
+export type CreateRole = z.infer<typeof createRoleSchema>;
+export type UpdateRole = z.infer<typeof updateRoleSchema>;
+
+export interface RoleDefinition {
+  key: string;
+  name: string;
+  description: string | null;
+  permissions: string[];
+  hiddenFields: HiddenFields;
+  builtIn: boolean;
+  editable: boolean; // False for admin
+  userCount: number;
+}
+
+/**
+ * Copy of a record with the hidden fields set to null
+ */
+export function redactFields<T extends object>(record: T, hidden: readonly string[]): T {
+  if (hidden.length === 0) return record;
+  const copy = { ...record } as Record<string, unknown>;
+  for (const field of hidden) {
+    if (field in copy) copy[field] = null;
+  }
+  return copy as T;
+}
+
+export function isFieldHidden(hidden: HiddenFields | undefined, entity: RestrictedEntity, field: string): boolean {
+  return (hidden?.[entity] as readonly string[] | undefined)?.includes(field) ?? false;
+}
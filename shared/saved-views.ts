@@ -0,0 +1,91 @@
+import { z } from "zod";
+import { parseLeadSearch } from "./lead-search";
+
+/**
+ * Saved views
+ *
+ * A saved view stores a named filter/sort/column configuration for the
+ * leads page or the pipeline board. `filters` holds query parameters:
+ * - lead views: the GET /api/leads search parameters (see lead-search.ts)
+ * - deal views: the GET /api/deals filters (pipelineId, ownerId, status, ...)
+ * Private views belong to their owner; team views are visible to everyone.
+ *
+ * A view also works as an audience: bulk actions run against the records
+ * it currently matches, and an automation rule with a savedViewId only
+ * fires for records inside the view.
+ */
+
+export const savedViewEntityTypes = ["lead", "deal"] as const;
+export type SavedViewEntityType = typeof savedViewEntityTypes[number];
+
+export const savedViewVisibilities = ["private", "team"] as const;
+export type SavedViewVisibility = typeof savedViewVisibilities[number];
+
+// Optional fields shown on lead cards and deal cards
+export const savedViewColumns: Record<SavedViewEntityType, readonly string[]> = {
+  lead: ["company", "email", "phone", "score", "lastContactedAt"],
+  deal: ["amount", "probability", "expectedCloseDate", "description"],
+};
+
+export const dealStatuses = ["open", "won", "lost"] as const;
+
+export const dealViewFiltersSchema = z.object({
+  pipelineId: z.string().optional(),
+  stageId: z.string().optional(),
+  ownerId: z.string().optional(),
+  status: z.enum(dealStatuses).optional(),
+  minAmount: z.coerce.number().min(0).optional(),
+  maxAmount: z.coerce.number().min(0).optional(),
+  fromDate: z.coerce.date().optional(),
+  toDate: z.coerce.date().optional(),
+});
+export type DealViewFilters = z.infer<typeof dealViewFiltersSchema>;
+
+/**
+ * Check a view's filters, sort and columns against its entity type;
+ * returns an error message, or null when the view is usable
+ */
+export function validateSavedViewConfig(view: {
+  entityType: SavedViewEntityType;
+  filters: Record<string, string>;
+  sort?: string | null;
+  columns: string[];
+}): string | null {
+  if (view.entityType === "lead") {
+    const parsed = parseLeadSearch({ ...view.filters, ...(view.sort ? { sort: view.sort } : {}) });
+    if (!parsed.success) return parsed.error.errors[0]?.message || "Invalid lead filters";
+    if (parsed.data.cursor) return "A saved view cannot store a cursor";
+  } else {
+    const parsed = dealViewFiltersSchema.strict().safeParse(view.filters);
+    if (!parsed.success) return parsed.error.errors[0]?.message || "Invalid deal filters";
+  }
+
+  const unknown = view.columns.find((column) => !savedViewColumns[view.entityType].includes(column));
+  return unknown ? `Unknown ${view.entityType} column "${unknown}"` : null;
+}
+
+export const savedViewBulkActionSchema = z.discriminatedUnion("type", [
+  z.object({ type: z.literal("set_lead_status"), status: z.enum(["cold", "warm", "hot"]) }),
+  z.object({ type: z.literal("add_tags"), tags: z.array(z.string().trim().min(1)).min(1) }),
+  z.object({ type: z.literal("set_deal_status"), status: z.enum(dealStatuses) }),
+  z.object({ type: z.literal("move_stage"), stageId: z.string().min(1) }),
+  z.object({ type: z.literal("assign_owner"), ownerId: z.string().min(1) }),
+]);
+export type SavedViewBulkAction = z.infer<typeof savedViewBulkActionSchema>;
+
+// Which entity type each bulk action applies to; assign_owner works for both
+export const bulkActionEntityTypes: Record<SavedViewBulkAction["type"], SavedViewEntityType[]> = {
+  set_lead_status: ["lead"],
+  add_tags: ["lead"],
+  set_deal_status: ["deal"],
+  move_stage: ["deal"],
+  assign_owner: ["lead", "deal"],
+};
+
+export interface SavedViewBulkResult {
+  matched: number;
+  updated: number;
+  failed: number;
+  truncated: boolean; // More records matched than one bulk action may change
+  errors: Array<{ id: string; error: string }>;
+}
@@ -1,7 +1,9 @@
 import { sql, relations } from "drizzle-orm";
-import { pgTable, text, varchar, integer, timestamp, jsonb } from "drizzle-orm/pg-core";
+import { pgTable, text, varchar, integer, timestamp, jsonb, unique, doublePrecision } from "drizzle-orm/pg-core";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
+import { conditionNodeSchema, automationActionsSchema, ruleFrequencies } from "./automation-rules";
+import { savedViewEntityTypes, savedViewVisibilities } from "./saved-views";
 
 // Lead status enum
 export const leadStatuses = ["cold", "warm", "hot"] as const;
@@ -50,7 +52,8 @@ export const leads = pgTable("leads", {
   state: text("state"),
   country: text("country"),
 
-  // Company Information
+  // Company Information (copied from the linked company record when it is enriched)
+  companyId: varchar("company_id").references(() => companies.id, { onDelete: "set null" }),
   company: text("company"),
   companyDomain: text("company_domain"),
   companyWebsite: text("company_website"),
@@ -67,6 +70,7 @@ export const leads = pgTable("leads", {
   score: integer("score").notNull().default(0), // 0-100
   ownerId: varchar("owner_id").references(() => users.id), // Lead owner/assigned sales rep
   lastContactedAt: timestamp("last_contacted_at"),
+  unsubscribedAt: timestamp("unsubscribed_at"), // Opted out of automated email
   createdAt: timestamp("created_at").notNull().defaultNow(),
   updatedAt: timestamp("updated_at").notNull().defaultNow(),
   notes: text("notes"),
@@ -85,6 +89,13 @@ export const conversations = pgTable("conversations", {
   sentAt: timestamp("sent_at").notNull(),
   isFromLead: integer("is_from_lead").notNull().default(0), // 0 or 1 (boolean)
   messageId: text("message_id"), // MS 365 message ID for sync
+  threadId: text("thread_id"), // Graph conversationId shared by every message in the thread
+  internetMessageId: text("internet_message_id"), // RFC 822 Message-ID header
+  inReplyTo: text("in_reply_to"), // Message-ID of the message this one answers
+  references: text("references").array(), // Message-IDs of earlier messages in the thread, oldest first
+  ccEmails: text("cc_emails").array(),
+  bccEmails: text("bcc_emails").array(),
+  attachments: jsonb("attachments"), // [{ id, name, contentType, size }] - metadata only
   createdAt: timestamp("created_at").notNull().defaultNow(),
 });
 
@@ -116,11 +127,13 @@ export const syncState = pgTable("sync_state", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
   userId: varchar("user_id").references(() => users.id, { onDelete: "cascade" }), // Per-user MS365 tokens (nullable for migration)
   lastSyncAt: timestamp("last_sync_at"),
-  deltaToken: text("delta_token"), // For incremental sync
+  deltaToken: text("delta_token"), // Graph delta link for the Inbox folder
+  sentDeltaToken: text("sent_delta_token"), // Graph delta link for the Sent Items folder
   isConfigured: integer("is_configured").notNull().default(0), // 0 or 1
-  accessToken: text("access_token"),
-  refreshToken: text("refresh_token"),
+  accessToken: text("access_token"), // Encrypted at rest (server/encryption.ts)
+  refreshToken: text("refresh_token"), // Encrypted at rest
   expiresAt: timestamp("expires_at"),
+  subscriptionId: text("subscription_id"), // Graph webhook subscription, used to route notifications to the user
 });
 
 // Apollo.io enrichment tracking
@@ -155,7 +168,7 @@ export const saleshandySequences = pgTable("saleshandy_sequences", {
 export const linkedInSessions = pgTable("linkedin_sessions", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
   userId: varchar("user_id").references(() => users.id, { onDelete: "cascade" }), // For multi-user support (nullable for migration)
-  cookies: jsonb("cookies").notNull(), // Encrypted LinkedIn cookies
+  cookies: jsonb("cookies").notNull(), // LinkedIn cookies, encrypted by storage (see server/encryption.ts)
   isValid: integer("is_valid").notNull().default(1), // 0 or 1
   createdAt: timestamp("created_at").notNull().defaultNow(),
   expiresAt: timestamp("expires_at").notNull(), // When session expires
@@ -179,9 +192,11 @@ export const users = pgTable("users", {
   name: text("name").notNull(),
   email: text("email").notNull().unique(),
   passwordHash: text("password_hash"), // For authentication
-  role: text("role").notNull().default("sales_rep"), // admin, sales_manager, sales_rep
+  role: text("role").notNull().default("sales_rep"), // admin, manager, sales_rep or the key of a custom role
   managerId: varchar("manager_id"), // Reporting manager for hierarchy - reference added in relations
   isActive: integer("is_active").notNull().default(1),
+  failedLoginAttempts: integer("failed_login_attempts").notNull().default(0), // Consecutive failures, reset on sign-in
+  lockedUntil: timestamp("locked_until"), // Sign-in refused until then after too many failures
   createdAt: timestamp("created_at").notNull().defaultNow(),
 });
 
@@ -190,6 +205,20 @@ export const sessions = pgTable("sessions", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
   userId: text("user_id").notNull().references(() => users.id, { onDelete: 'cascade' }),
   expiresAt: timestamp("expires_at").notNull(),
+  twoFactorPending: integer("two_factor_pending").notNull().default(0), // 1 = password checked, waiting for the 2FA code
+  userAgent: text("user_agent"),
+  ipAddress: text("ip_address"),
+  lastSeenAt: timestamp("last_seen_at"),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+});
+
+// TOTP two-factor authentication, kept apart from users so secrets never reach user listings
+export const userTwoFactor = pgTable("user_two_factor", {
+  userId: varchar("user_id").primaryKey().references(() => users.id, { onDelete: "cascade" }),
+  secret: text("secret").notNull(), // Base32 TOTP secret, encrypted at rest (server/encryption.ts)
+  enabledAt: timestamp("enabled_at"), // Null while enrollment awaits its first code
+  recoveryCodes: text("recovery_codes").array().notNull().default(sql`ARRAY[]::text[]`), // SHA-256 hashes of unused codes
+  lastUsedStep: integer("last_used_step"), // TOTP time step of the last accepted code, so it cannot be replayed
   createdAt: timestamp("created_at").notNull().defaultNow(),
 });
 
@@ -243,6 +272,7 @@ export const assignmentRules = pgTable("assignment_rules", {
   assignToUserId: varchar("assign_to_user_id").references(() => users.id),
   isActive: integer("is_active").notNull().default(1),
   priority: integer("priority").notNull().default(0), // Higher number = higher priority
+  roundRobinCursor: integer("round_robin_cursor").notNull().default(0), // Number of leads handed out by a round_robin rule
   createdAt: timestamp("created_at").notNull().defaultNow(),
 });
 
@@ -288,6 +318,11 @@ export const automationRules = pgTable("automation_rules", {
   triggerConditions: jsonb("trigger_conditions").notNull(), // Complex condition object
   actionType: text("action_type").notNull(), // convert_to_deal, create_task, advance_stage, assign_lead, send_email
   actionConfig: jsonb("action_config").notNull(), // Action-specific configuration
+  conditions: jsonb("conditions"), // Optional AND/OR/NOT condition tree (see automation-rules.ts)
+  actions: jsonb("actions"), // Ordered action list; actionType/actionConfig mirror the first entry
+  frequency: text("frequency").notNull().default("every_time"), // every_time, once_per_entity, cooldown
+  cooldownHours: integer("cooldown_hours"), // Used when frequency is cooldown
+  savedViewId: varchar("saved_view_id").references(() => savedViews.id, { onDelete: "set null" }), // Audience: only records in this view
   isActive: integer("is_active").notNull().default(1),
   priority: integer("priority").notNull().default(0),
   createdBy: varchar("created_by").references(() => users.id),
@@ -305,6 +340,10 @@ export const automationLogs = pgTable("automation_logs", {
   actionResult: jsonb("action_result"), // Result of the action
   success: integer("success").notNull().default(1), // 0 or 1
   errorMessage: text("error_message"),
+  entityKey: text("entity_key"), // e.g. "deal:<id>" - used to keep scheduled rules from firing twice
+  chainId: varchar("chain_id"), // Shared by executions triggered by one original event
+  depth: integer("depth").notNull().default(0), // 0 for the original event, +1 per cascade
+  suppressedReason: text("suppressed_reason"), // Set when the rule matched but was not run
   executedAt: timestamp("executed_at").notNull().defaultNow(),
 });
 
@@ -373,6 +412,10 @@ export const leadsRelations = relations(leads, ({ many, one }) => ({
     fields: [leads.ownerId],
     references: [users.id],
   }),
+  companyRecord: one(companies, {
+    fields: [leads.companyId],
+    references: [companies.id],
+  }),
 }));
 
 export const conversationsRelations = relations(conversations, ({ one }) => ({
@@ -552,11 +595,19 @@ export const insertEmailTemplateSchema = createInsertSchema(emailTemplates).omit
 
 export const insertUserSchema = createInsertSchema(users).omit({
   id: true,
+  failedLoginAttempts: true,
+  lockedUntil: true,
   createdAt: true,
 });
 
+// Fields /api/users accepts; passwords are only set through invitations and password resets
+export const manageUserSchema = insertUserSchema.omit({
+  passwordHash: true,
+});
+
 export const insertAssignmentRuleSchema = createInsertSchema(assignmentRules).omit({
   id: true,
+  roundRobinCursor: true,
   createdAt: true,
 });
 
@@ -579,6 +630,12 @@ export const insertAutomationRuleSchema = createInsertSchema(automationRules).om
   id: true,
   createdAt: true,
   updatedAt: true,
+}).extend({
+  conditions: conditionNodeSchema.nullable().optional(),
+  actions: automationActionsSchema.nullable().optional(),
+  frequency: z.enum(ruleFrequencies).optional(),
+  cooldownHours: z.number().int().positive().nullable().optional(),
+  savedViewId: z.string().nullable().optional(),
 });
 
 export const insertAutomationLogSchema = createInsertSchema(automationLogs).omit({
@@ -605,7 +662,7 @@ export const insertDealSchema = createInsertSchema(deals).omit({
   amount: z.number().min(0).optional(),
   probability: z.number().min(0).max(100).optional(),
   expectedCloseDate: z.union([z.date(), z.string().transform((str) => new Date(str))]).optional(),
-  actualCloseDate: z.union([z.date(), z.string().transform((str) => new Date(str))]).optional(),
+  actualCloseDate: z.union([z.date(), z.string().transform((str) => new Date(str))]).nullable().optional(),
 });
 
 export const insertDealStageHistorySchema = createInsertSchema(dealStageHistory).omit({
@@ -642,7 +699,11 @@ export type InsertSyncState = z.infer<typeof insertSyncStateSchema>;
 export type EmailTemplate = typeof emailTemplates.$inferSelect;
 export type InsertEmailTemplate = z.infer<typeof insertEmailTemplateSchema>;
 export type User = typeof users.$inferSelect;
+// What the API sends about a user: no password hash or lockout state
+export type PublicUser = Pick<User, "id" | "name" | "email" | "role" | "managerId" | "isActive">;
 export type InsertUser = z.infer<typeof insertUserSchema>;
+export type Session = typeof sessions.$inferSelect;
+export type UserTwoFactor = typeof userTwoFactor.$inferSelect;
 export type AssignmentRule = typeof assignmentRules.$inferSelect;
 export type InsertAssignmentRule = z.infer<typeof insertAssignmentRuleSchema>;
 export type LeadAssignment = typeof leadAssignments.$inferSelect;
@@ -741,6 +802,366 @@ export const insertApifyResultSchema = createInsertSchema(apifyResults).omit({
 export type ApifyResult = typeof apifyResults.$inferSelect;
 export type InsertApifyResult = z.infer<typeof insertApifyResultSchema>;
 
+// Background jobs (AI scoring, enrichment, sync and automation work)
+export const jobStatuses = ["pending", "running", "completed", "dead"] as const;
+export type JobStatus = typeof jobStatuses[number];
+
+export const jobs = pgTable("jobs", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  type: text("type").notNull(), // lead.score, automation.conversation_received, ms365.sync, enrichment.datagma, ...
+  payload: jsonb("payload").notNull().default(sql`'{}'::jsonb`),
+  status: text("status").notNull().default("pending"), // pending, running, completed, dead (retries exhausted)
+  uniqueKey: text("unique_key"), // Skip enqueueing while a pending job with the same key exists
+  attempts: integer("attempts").notNull().default(0),
+  maxAttempts: integer("max_attempts").notNull().default(5),
+  runAt: timestamp("run_at").notNull().defaultNow(), // Earliest time the job may run (backoff)
+  lockedAt: timestamp("locked_at"),
+  lockedBy: text("locked_by"), // Worker id holding the job
+  lastError: text("last_error"),
+  result: jsonb("result"),
+  createdBy: varchar("created_by").references(() => users.id, { onDelete: "set null" }),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+  updatedAt: timestamp("updated_at").notNull().defaultNow(),
+  completedAt: timestamp("completed_at"),
+});
+
+export const insertJobSchema = createInsertSchema(jobs).omit({
+  id: true,
+  createdAt: true,
+  updatedAt: true,
+});
+
+export type Job = typeof jobs.$inferSelect;
+export type InsertJob = z.infer<typeof insertJobSchema>;
+
+// Saved views / smart lists for the leads page and pipeline board (see saved-views.ts)
+export const savedViews = pgTable("saved_views", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  name: text("name").notNull(),
+  entityType: text("entity_type").notNull(), // lead, deal
+  visibility: text("visibility").notNull().default("private"), // private, team
+  filters: jsonb("filters").notNull().default(sql`'{}'::jsonb`), // Query parameters, e.g. { status: "hot", minScore: "70" }
+  sort: text("sort"), // e.g. "score:desc,name:asc" (lead views)
+  columns: text("columns").array().notNull().default(sql`ARRAY[]::text[]`), // Card fields to show
+  ownerId: varchar("owner_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+  updatedAt: timestamp("updated_at").notNull().defaultNow(),
+});
+
+export const insertSavedViewSchema = createInsertSchema(savedViews).omit({
+  id: true,
+  ownerId: true,
+  createdAt: true,
+  updatedAt: true,
+}).extend({
+  name: z.string().trim().min(1, "Name is required").max(80),
+  entityType: z.enum(savedViewEntityTypes),
+  visibility: z.enum(savedViewVisibilities).optional(),
+  filters: z.record(z.string()).optional(),
+  sort: z.string().nullable().optional(),
+  columns: z.array(z.string()).optional(),
+});
+
+export type SavedView = typeof savedViews.$inferSelect;
+export type InsertSavedView = z.infer<typeof insertSavedViewSchema>;
+
+// Lead file imports (CSV / XLSX) run as tracked batches that can be rolled back (see lead-import.ts)
+export const leadImports = pgTable("lead_imports", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  fileName: text("file_name").notNull(),
+  status: text("status").notNull().default("draft"), // draft, queued, running, completed, failed, rolled_back
+  headers: text("headers").array().notNull(),
+  rows: jsonb("rows").notNull().default(sql`'[]'::jsonb`), // Data rows as arrays of cell text
+  mapping: jsonb("mapping"), // Target per column: lead field, "customFields.<key>" or null
+  dedupeStrategy: text("dedupe_strategy").notNull().default("skip"), // skip, update, create
+  dedupeField: text("dedupe_field").notNull().default("email"), // email, linkedinUrl
+  createdCount: integer("created_count").notNull().default(0),
+  updatedCount: integer("updated_count").notNull().default(0),
+  skippedCount: integer("skipped_count").notNull().default(0),
+  failedCount: integer("failed_count").notNull().default(0),
+  errors: jsonb("errors").notNull().default(sql`'[]'::jsonb`), // [{ row, errors }] for rows that were not imported
+  jobId: varchar("job_id").references(() => jobs.id, { onDelete: "set null" }),
+  createdBy: varchar("created_by").notNull().references(() => users.id, { onDelete: "cascade" }),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+  completedAt: timestamp("completed_at"),
+  rolledBackAt: timestamp("rolled_back_at"),
+});
+
+// Leads an import created or updated; previous holds the overwritten values for rollback
+export const leadImportItems = pgTable("lead_import_items", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  importId: varchar("import_id").notNull().references(() => leadImports.id, { onDelete: "cascade" }),
+  leadId: varchar("lead_id").notNull().references(() => leads.id, { onDelete: "cascade" }),
+  action: text("action").notNull(), // created, updated
+  previous: jsonb("previous"),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+});
+
+export const insertLeadImportSchema = createInsertSchema(leadImports).omit({
+  id: true,
+  createdAt: true,
+});
+
+export const insertLeadImportItemSchema = createInsertSchema(leadImportItems).omit({
+  id: true,
+  createdAt: true,
+});
+
+export type LeadImport = typeof leadImports.$inferSelect;
+export type InsertLeadImport = z.infer<typeof insertLeadImportSchema>;
+export type LeadImportItem = typeof leadImportItems.$inferSelect;
+export type InsertLeadImportItem = z.infer<typeof insertLeadImportItemSchema>;
+
+// Lead pairs a user marked as "not a duplicate" (see lead-duplicates.ts); leadIdA < leadIdB
+export const leadDuplicateDismissals = pgTable("lead_duplicate_dismissals", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  leadIdA: varchar("lead_id_a").notNull().references(() => leads.id, { onDelete: "cascade" }),
+  leadIdB: varchar("lead_id_b").notNull().references(() => leads.id, { onDelete: "cascade" }),
+  dismissedBy: varchar("dismissed_by").references(() => users.id, { onDelete: "set null" }),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+}, (table) => ({
+  uniquePair: unique("lead_duplicate_dismissals_pair").on(table.leadIdA, table.leadIdB),
+}));
+
+export const insertLeadDuplicateDismissalSchema = createInsertSchema(leadDuplicateDismissals).omit({
+  id: true,
+  createdAt: true,
+});
+
+export type LeadDuplicateDismissal = typeof leadDuplicateDismissals.$inferSelect;
+export type InsertLeadDuplicateDismissal = z.infer<typeof insertLeadDuplicateDismissalSchema>;
+
+// Companies (accounts) - one per domain; leads link to them via companyId
+export const companies = pgTable("companies", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  name: text("name").notNull(),
+  domain: text("domain").notNull().unique(), // Lowercase, without "www."
+  website: text("website"),
+  industry: text("industry"),
+  size: text("size"),
+  revenue: text("revenue"),
+  foundedYear: integer("founded_year"),
+  linkedinUrl: text("linkedin_url"),
+  phone: text("phone"),
+  city: text("city"),
+  country: text("country"),
+  description: text("description"),
+  ownerId: varchar("owner_id").references(() => users.id, { onDelete: "set null" }), // Account owner
+  enrichedAt: timestamp("enriched_at"),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+  updatedAt: timestamp("updated_at").notNull().defaultNow(),
+});
+
+export const companiesRelations = relations(companies, ({ many }) => ({
+  leads: many(leads),
+}));
+
+export const insertCompanySchema = createInsertSchema(companies).omit({
+  id: true,
+  createdAt: true,
+  updatedAt: true,
+}).extend({
+  website: z.string().url().optional().nullable().or(z.literal("")),
+  linkedinUrl: z.string().url().optional().nullable().or(z.literal("")),
+  foundedYear: z.number().min(1800).max(new Date().getFullYear()).optional().nullable(),
+});
+
+export type Company = typeof companies.$inferSelect;
+export type InsertCompany = z.infer<typeof insertCompanySchema>;
+
+// Buying committee of a deal (see deal-contacts.ts); the primary lead stays in deals.leadId
+export const dealContacts = pgTable("deal_contacts", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  dealId: varchar("deal_id").notNull().references(() => deals.id, { onDelete: "cascade" }),
+  leadId: varchar("lead_id").notNull().references(() => leads.id, { onDelete: "cascade" }),
+  role: text("role").notNull(), // champion, economic_buyer, technical_evaluator, ...
+  influence: text("influence").notNull().default("medium"), // high, medium, low
+  notes: text("notes"),
+  addedBy: varchar("added_by").references(() => users.id, { onDelete: "set null" }),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+}, (table) => ({
+  uniqueContact: unique("deal_contacts_deal_lead").on(table.dealId, table.leadId),
+}));
+
+export const insertDealContactSchema = createInsertSchema(dealContacts).omit({
+  id: true,
+  createdAt: true,
+});
+
+export type DealContact = typeof dealContacts.$inferSelect;
+export type InsertDealContact = z.infer<typeof insertDealContactSchema>;
+
+// Product catalog (see deal-products.ts)
+export const products = pgTable("products", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  name: text("name").notNull(),
+  sku: text("sku").unique(),
+  description: text("description"),
+  unitPrice: integer("unit_price").notNull().default(0), // In cents
+  currency: text("currency").notNull().default("USD"),
+  billingType: text("billing_type").notNull().default("one_time"), // one_time, recurring
+  billingPeriod: text("billing_period"), // monthly, yearly - recurring products only
+  isActive: integer("is_active").notNull().default(1), // Archived products stay on existing deals
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+  updatedAt: timestamp("updated_at").notNull().defaultNow(),
+});
+
+// Products on a deal; name, price and billing are copied from the product when added
+export const dealLineItems = pgTable("deal_line_items", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  dealId: varchar("deal_id").notNull().references(() => deals.id, { onDelete: "cascade" }),
+  productId: varchar("product_id").references(() => products.id, { onDelete: "set null" }),
+  name: text("name").notNull(),
+  unitPrice: integer("unit_price").notNull(), // In cents
+  quantity: integer("quantity").notNull().default(1),
+  discountPercent: integer("discount_percent").notNull().default(0), // 0-100
+  billingType: text("billing_type").notNull(),
+  billingPeriod: text("billing_period"),
+  position: integer("position").notNull().default(0),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+});
+
+export const insertProductSchema = createInsertSchema(products).omit({
+  id: true,
+  createdAt: true,
+  updatedAt: true,
+});
+
+export const insertDealLineItemSchema = createInsertSchema(dealLineItems).omit({
+  id: true,
+  createdAt: true,
+});
+
+export type Product = typeof products.$inferSelect;
+export type InsertProduct = z.infer<typeof insertProductSchema>;
+export type DealLineItem = typeof dealLineItems.$inferSelect;
+export type InsertDealLineItem = z.infer<typeof insertDealLineItemSchema>;
+
+// Currency used to report forecasts and totals (single row, like scoring_config)
+export const currencySettings = pgTable("currency_settings", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  baseCurrency: text("base_currency").notNull().default("USD"),
+  updatedAt: timestamp("updated_at").notNull().defaultNow(),
+});
+
+// Manually maintained exchange rates (see currency.ts): 1 currency = rate quoteCurrency from effectiveDate on
+export const exchangeRates = pgTable("exchange_rates", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  currency: text("currency").notNull(),
+  quoteCurrency: text("quote_currency").notNull(),
+  rate: doublePrecision("rate").notNull(),
+  effectiveDate: timestamp("effective_date").notNull(),
+  createdBy: varchar("created_by").references(() => users.id, { onDelete: "set null" }),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+}, (table) => ({
+  uniqueRate: unique("exchange_rates_pair_date").on(table.currency, table.quoteCurrency, table.effectiveDate),
+}));
+
+export const insertCurrencySettingsSchema = createInsertSchema(currencySettings).omit({
+  id: true,
+  updatedAt: true,
+});
+
+export const insertExchangeRateSchema = createInsertSchema(exchangeRates).omit({
+  id: true,
+  createdAt: true,
+});
+
+export type CurrencySettings = typeof currencySettings.$inferSelect;
+export type InsertCurrencySettings = z.infer<typeof insertCurrencySettingsSchema>;
+export type ExchangeRate = typeof exchangeRates.$inferSelect;
+export type InsertExchangeRate = z.infer<typeof insertExchangeRateSchema>;
+
+// Sales targets per user and period (see quotas.ts); team quotas cover the user's reporting line
+export const quotas = pgTable("quotas", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  userId: varchar("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  scope: text("scope").notNull().default("individual"), // individual, team
+  metric: text("metric").notNull(), // revenue, deals_won, activities
+  periodType: text("period_type").notNull(), // month, quarter
+  periodStart: timestamp("period_start").notNull(), // First day of the month or quarter
+  target: integer("target").notNull(), // Revenue targets are in the base currency
+  createdBy: varchar("created_by").references(() => users.id, { onDelete: "set null" }),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+  updatedAt: timestamp("updated_at").notNull().defaultNow(),
+}, (table) => ({
+  uniqueQuota: unique("quotas_user_scope_metric_period").on(table.userId, table.scope, table.metric, table.periodType, table.periodStart),
+}));
+
+export const insertQuotaSchema = createInsertSchema(quotas).omit({
+  id: true,
+  createdAt: true,
+  updatedAt: true,
+});
+
+export type Quota = typeof quotas.$inferSelect;
+export type InsertQuota = z.infer<typeof insertQuotaSchema>;
+
+// Custom roles, and admin changes to the built-in manager and sales_rep roles; users.role holds the key
+export const roles = pgTable("roles", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  key: text("key").notNull().unique(),
+  name: text("name").notNull(),
+  description: text("description"),
+  permissions: text("permissions").array().notNull().default(sql`ARRAY[]::text[]`),
+  hiddenFields: jsonb("hidden_fields").notNull().default(sql`'{}'::jsonb`), // { leads: ["phone"], deals: ["amount"] }
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+  updatedAt: timestamp("updated_at").notNull().defaultNow(),
+});
+
+export const insertRoleSchema = createInsertSchema(roles).omit({
+  id: true,
+  createdAt: true,
+  updatedAt: true,
+});
+
+export type Role = typeof roles.$inferSelect;
+export type InsertRole = z.infer<typeof insertRoleSchema>;
+
+// Onboarding settings (single row); open registration lets anyone sign up as a sales rep
+export const authSettings = pgTable("auth_settings", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  openRegistration: integer("open_registration").notNull().default(1), // 0 or 1
+  updatedAt: timestamp("updated_at").notNull().defaultNow(),
+});
+
+// Invitations to join with a preset role and manager; only the token's hash is stored
+export const userInvitations = pgTable("user_invitations", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  email: text("email").notNull(),
+  name: text("name"),
+  role: text("role").notNull(),
+  managerId: varchar("manager_id").references(() => users.id, { onDelete: "set null" }),
+  invitedById: varchar("invited_by_id").references(() => users.id, { onDelete: "set null" }),
+  tokenHash: text("token_hash").notNull().unique(),
+  expiresAt: timestamp("expires_at").notNull(),
+  acceptedAt: timestamp("accepted_at"),
+  revokedAt: timestamp("revoked_at"),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+});
+
+// Single-use password reset tokens; only the token's hash is stored
+export const passwordResetTokens = pgTable("password_reset_tokens", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  userId: varchar("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  tokenHash: text("token_hash").notNull().unique(),
+  expiresAt: timestamp("expires_at").notNull(),
+  usedAt: timestamp("used_at"),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+});
+
+export const insertUserInvitationSchema = createInsertSchema(userInvitations).omit({
+  id: true,
+  acceptedAt: true,
+  revokedAt: true,
+  createdAt: true,
+});
+
+export type AuthSettings = typeof authSettings.$inferSelect;
+export type UserInvitation = typeof userInvitations.$inferSelect;
+export type InsertUserInvitation = z.infer<typeof insertUserInvitationSchema>;
+export type PasswordResetToken = typeof passwordResetTokens.$inferSelect;
+
 // Extended types with relations
 export type LeadWithRelations = Lead & {
   conversations: Conversation[];
@@ -0,0 +1,221 @@
+import { describe, it, expect, beforeAll } from 'vitest';
+import request from 'supertest';
+import express from 'express';
+import { registerRoutes } from '../server/routes';
+import { automationEngine } from '../server/automation';
+import { storage } from '../server/storage';
+
+describe('Automation Tests', () => {
+    let app: express.Application;
+    let server: any;
+    let authToken: string;
+
+    beforeAll(async () => {
+        app = express();
+        server = await registerRoutes(app);
+
+        const loginResponse = await request(app)
+            .post('/api/auth/login')
+            .send({ email: 'admin@leadflow.com', password: 'admin123' });
+        authToken = loginResponse.body.token;
+    });
+
+    describe('Time-based Rules', () => {
+        it('should reject a time-based rule without a known condition', async () => {
+            const response = await request(app)
+                .post('/api/automation-rules')
+                .set('Authorization', `Bearer ${authToken}`)
+                .send({
+                    name: 'Broken schedule',
+                    triggerType: 'time_based',
+                    triggerConditions: { condition: 'every_tuesday' },
+                    actionType: 'create_task',
+                    actionConfig: {},
+                });
+
+            expect(response.status).toBe(400);
+        });
+
+        it('should fire once per lead within the window', async () => {
+            const leadResponse = await request(app)
+                .post('/api/leads')
+                .set('Authorization', `Bearer ${authToken}`)
+                .send({ name: 'Stale Lead', email: 'stale-lead@example.com' });
+            const leadId = leadResponse.body.id;
+            await storage.updateLead(leadId, {
+                lastContactedAt: new Date(Date.now() - 30 * 24 * 60 * 60 * 1000),
+            });
+
+            const ruleResponse = await request(app)
+                .post('/api/automation-rules')
+                .set('Authorization', `Bearer ${authToken}`)
+                .send({
+                    name: 'Follow up stale leads',
+                    triggerType: 'time_based',
+                    triggerConditions: { condition: 'lead_not_contacted', days: 14 },
+                    actionType: 'create_task',
+                    actionConfig: { title: 'Reach out again' },
+                });
+            expect(ruleResponse.status).toBe(200);
+
+            await automationEngine.runTimeBasedRules();
+            await automationEngine.runTimeBasedRules();
+
+            const logs = await storage.getAutomationLogs(ruleResponse.body.id);
+            expect(logs.filter((l) => l.entityKey === `lead:${leadId}`)).toHaveLength(1);
+
+            await request(app)
+                .delete(`/api/automation-rules/${ruleResponse.body.id}`)
+                .set('Authorization', `Bearer ${authToken}`);
+            await request(app)
+                .delete(`/api/leads/${leadId}`)
+                .set('Authorization', `Bearer ${authToken}`);
+        });
+    });
+
+    describe('Rule Simulation', () => {
+        it('should report historical matches without writing anything', async () => {
+            const leadResponse = await request(app)
+                .post('/api/leads')
+                .set('Authorization', `Bearer ${authToken}`)
+                .send({ name: 'Simulated Lead', email: 'simulated-lead@example.com' });
+            const leadId = leadResponse.body.id;
+            await storage.createLeadScore({
+                leadId,
+                score: 85,
+                previousScore: 30,
+                status: 'hot',
+                previousStatus: 'cold',
+            });
+
+            const ruleResponse = await request(app)
+                .post('/api/automation-rules')
+                .set('Authorization', `Bearer ${authToken}`)
+                .send({
+                    name: 'Hot lead follow up',
+                    triggerType: 'score_changed',
+                    triggerConditions: { minScore: 80 },
+                    actionType: 'create_task',
+                    actionConfig: { title: 'Call hot lead' },
+                    isActive: 0,
+                });
+            const ruleId = ruleResponse.body.id;
+
+            const response = await request(app)
+                .post(`/api/automation-rules/${ruleId}/simulate`)
+                .set('Authorization', `Bearer ${authToken}`)
+                .send({ from: new Date(Date.now() - 60 * 60 * 1000).toISOString() });
+
+            expect(response.status).toBe(200);
+            const match = response.body.matches.find((m: any) => m.entityId === leadId);
+            expect(match).toBeDefined();
+            expect(match.actions[0]).toMatchObject({ type: 'create_task', outcome: 'would_run' });
+
+            expect(await storage.getAutomationLogs(ruleId)).toHaveLength(0);
+            expect(await storage.getTasks(leadId)).toHaveLength(0);
+
+            await request(app)
+                .delete(`/api/automation-rules/${ruleId}`)
+                .set('Authorization', `Bearer ${authToken}`);
+            await request(app)
+                .delete(`/api/leads/${leadId}`)
+                .set('Authorization', `Bearer ${authToken}`);
+        });
+
+        it('should reject an inverted date range', async () => {
+            const response = await request(app)
+                .post('/api/automation-rules/any-rule/simulate')
+                .set('Authorization', `Bearer ${authToken}`)
+                .send({ from: '2024-02-01', to: '2024-01-01' });
+
+            expect(response.status).toBe(400);
+        });
+    });
+
+    describe('Loop Protection', () => {
+        it('should suppress repeat runs of a once-per-entity rule', async () => {
+            const leadResponse = await request(app)
+                .post('/api/leads')
+                .set('Authorization', `Bearer ${authToken}`)
+                .send({ name: 'Repeat Lead', email: 'repeat-lead@example.com' });
+            const leadId = leadResponse.body.id;
+
+            const ruleResponse = await request(app)
+                .post('/api/automation-rules')
+                .set('Authorization', `Bearer ${authToken}`)
+                .send({
+                    name: 'Task once per lead',
+                    triggerType: 'score_changed',
+                    triggerConditions: {},
+                    actionType: 'create_task',
+                    actionConfig: { title: 'First touch' },
+                    frequency: 'once_per_entity',
+                });
+            const ruleId = ruleResponse.body.id;
+
+            await automationEngine.onLeadScoreChange(leadId, 10, 60, 'warm', 'cold');
+            await automationEngine.onLeadScoreChange(leadId, 60, 90, 'hot', 'warm');
+
+            const logs = await storage.getAutomationLogs(ruleId);
+            expect(logs.filter((l) => l.success === 1)).toHaveLength(1);
+            expect(logs.filter((l) => l.suppressedReason === 'once_per_entity')).toHaveLength(1);
+            expect(await storage.getTasks(leadId)).toHaveLength(1);
+
+            await request(app)
+                .delete(`/api/automation-rules/${ruleId}`)
+                .set('Authorization', `Bearer ${authToken}`);
+            await request(app)
+                .delete(`/api/leads/${leadId}`)
+                .set('Authorization', `Bearer ${authToken}`);
+        });
+
+        it('should suppress rules past the cascade depth limit', async () => {
+            const leadResponse = await request(app)
+                .post('/api/leads')
+                .set('Authorization', `Bearer ${authToken}`)
+                .send({ name: 'Cascade Lead', email: 'cascade-lead@example.com' });
+            const leadId = leadResponse.body.id;
+
+            const ruleResponse = await request(app)
+                .post('/api/automation-rules')
+                .set('Authorization', `Bearer ${authToken}`)
+                .send({
+                    name: 'Cascading rule',
+                    triggerType: 'score_changed',
+                    triggerConditions: {},
+                    actionType: 'create_task',
+                    actionConfig: {},
+                });
+            const ruleId = ruleResponse.body.id;
+
+            await automationEngine.onLeadScoreChange(leadId, 10, 60, 'warm', 'cold', { id: 'test-chain', depth: 99 });
+
+            const logs = await storage.getAutomationLogs(ruleId);
+            expect(logs).toHaveLength(1);
+            expect(logs[0]).toMatchObject({ suppressedReason: 'max_depth', chainId: 'test-chain', depth: 99 });
+
+            await request(app)
+                .delete(`/api/automation-rules/${ruleId}`)
+                .set('Authorization', `Bearer ${authToken}`);
+            await request(app)
+                .delete(`/api/leads/${leadId}`)
+                .set('Authorization', `Bearer ${authToken}`);
+        });
+
+        it('should require cooldownHours for cooldown rules', async () => {
+            const response = await request(app)
+                .post('/api/automation-rules')
+                .set('Authorization', `Bearer ${authToken}`)
+                .send({
+                    name: 'Cooldown without hours',
+                    triggerType: 'score_changed',
+                    triggerConditions: {},
+                    actionType: 'create_task',
+                    actionConfig: {},
+                    frequency: 'cooldown',
+                });
+
+            expect(response.status).toBe(400);
+        });
+    });
+});
@@ -0,0 +1,41 @@
+import { describe, it, expect } from 'vitest';
+import type { Company } from '../shared/schema';
+import { companyDomainForLead, companyFromLead, leadFieldsFromCompany, normalizeDomain } from '../shared/companies';
+
+describe('Company Linking Tests', () => {
+    it('should reduce URLs, hosts and email addresses to a bare domain', () => {
+        expect(normalizeDomain('https://www.Acme.com/about?x=1')).toBe('acme.com');
+        expect(normalizeDomain('acme.co.uk:8080')).toBe('acme.co.uk');
+        expect(normalizeDomain('jane@Sales.Acme.com')).toBe('sales.acme.com');
+        expect(normalizeDomain('localhost')).toBeNull();
+        expect(normalizeDomain('')).toBeNull();
+    });
+
+    it('should prefer the company domain, then the website, then a work email', () => {
+        expect(companyDomainForLead({ companyDomain: 'acme.com', companyWebsite: 'https://other.com', email: 'j@third.com' })).toBe('acme.com');
+        expect(companyDomainForLead({ companyWebsite: 'https://www.acme.com', email: 'j@third.com' })).toBe('acme.com');
+        expect(companyDomainForLead({ email: 'jane@acme.com' })).toBe('acme.com');
+    });
+
+    it('should not link leads by free email providers', () => {
+        expect(companyDomainForLead({ email: 'jane@gmail.com' })).toBeNull();
+        expect(companyDomainForLead({ email: 'jane@Outlook.com', companyDomain: '' })).toBeNull();
+    });
+
+    it('should copy company values between the company record and lead columns', () => {
+        const company = companyFromLead(
+            { company: 'Acme Inc', companyIndustry: 'Software', companySize: '', companyFoundedYear: 1999 },
+            'acme.com'
+        );
+        expect(company).toEqual({ name: 'Acme Inc', domain: 'acme.com', industry: 'Software', foundedYear: 1999 });
+        expect(companyFromLead({}, 'acme.com').name).toBe('acme.com');
+
+        expect(leadFieldsFromCompany({ ...company, size: null, revenue: '$10M' } as Partial<Company>)).toEqual({
+            company: 'Acme Inc',
+            companyDomain: 'acme.com',
+            companyIndustry: 'Software',
+            companyFoundedYear: 1999,
+            companyRevenue: '$10M',
+        });
+    });
+});
@@ -0,0 +1,49 @@
+import { describe, it, expect } from 'vitest';
+import { createCurrencyConverter, createExchangeRateSchema, sumDealValues } from '../shared/currency';
+
+const rate = (currency: string, quoteCurrency: string, value: number, effectiveDate: string) =>
+    ({ currency, quoteCurrency, rate: value, effectiveDate: new Date(effectiveDate) });
+
+const rates = [
+    rate('EUR', 'USD', 1.1, '2024-01-01'),
+    rate('EUR', 'USD', 1.2, '2024-06-01'),
+    rate('USD', 'GBP', 0.8, '2024-01-01'),
+];
+
+describe('Currency Conversion Tests', () => {
+    it('should use the latest rate in effect on the conversion date', () => {
+        const converter = createCurrencyConverter('USD', rates);
+
+        expect(converter.convert(1000, 'USD')).toBe(1000);
+        expect(converter.convert(1000, 'EUR', new Date('2024-03-15'))).toBe(1100);
+        expect(converter.convert(1000, 'EUR', new Date('2024-07-01'))).toBe(1200);
+        expect(converter.convert(1000, 'EUR', new Date('2023-12-31'))).toBeNull();
+    });
+
+    it('should invert a rate quoted from the base currency', () => {
+        const converter = createCurrencyConverter('USD', rates);
+
+        expect(converter.convert(800, 'GBP', new Date('2024-02-01'))).toBe(1000);
+        expect(converter.convert(100, 'JPY')).toBeNull();
+    });
+
+    it('should convert open deals today and closed deals on their close date', () => {
+        const converter = createCurrencyConverter('USD', rates);
+        const now = new Date('2024-07-01');
+
+        const totals = sumDealValues([
+            { amount: 1000, currency: 'EUR', probability: 50, status: 'open', actualCloseDate: null },
+            { amount: 1000, currency: 'EUR', probability: 100, status: 'won', actualCloseDate: new Date('2024-02-01') },
+            { amount: 500, currency: 'CHF', probability: 50, status: 'open', actualCloseDate: null },
+        ], converter, now);
+
+        expect(totals).toEqual({ totalValue: 2300, weightedValue: 1700, unconvertedCount: 1 });
+    });
+
+    it('should reject rates between the same currency', () => {
+        const input = { currency: 'eur', quoteCurrency: 'EUR', rate: 1, effectiveDate: '2024-01-01' };
+
+        expect(createExchangeRateSchema.safeParse(input).success).toBe(false);
+        expect(createExchangeRateSchema.parse({ ...input, quoteCurrency: 'usd' }).currency).toBe('EUR');
+    });
+});
@@ -0,0 +1,41 @@
+import { describe, it, expect } from 'vitest';
+import type { Lead } from '../shared/schema';
+import { summarizeCommitteeEngagement, type DealContactWithLead } from '../shared/deal-contacts';
+
+const now = new Date('2024-06-30T12:00:00Z');
+const lead = (id: string, name: string) => ({ id, name } as Lead);
+const contact = (leadId: string, name: string, role: string, influence = 'medium') =>
+    ({ id: `dc-${leadId}`, dealId: 'deal-1', leadId, role, influence, lead: lead(leadId, name) } as DealContactWithLead);
+const message = (leadId: string, sentAt: string, isFromLead = 0) => ({ leadId, sentAt: new Date(sentAt), isFromLead });
+
+describe('Deal Contacts Engagement Tests', () => {
+    it('should summarize engagement for the primary lead and each committee member', () => {
+        const engagement = summarizeCommitteeEngagement(
+            lead('primary', 'Pat Primary'),
+            [contact('champ', 'Chris Champion', 'champion', 'high'), contact('buyer', 'Bea Buyer', 'economic_buyer')],
+            [
+                message('primary', '2024-06-20T12:00:00Z'),
+                message('primary', '2024-06-28T12:00:00Z', 1),
+                message('champ', '2024-06-10T12:00:00Z', 1),
+            ],
+            now
+        );
+
+        expect(engagement).toEqual([
+            { leadId: 'primary', name: 'Pat Primary', role: 'primary', influence: 'high', conversations: 2, replies: 1, lastContactDays: 2 },
+            { leadId: 'champ', name: 'Chris Champion', role: 'champion', influence: 'high', conversations: 1, replies: 1, lastContactDays: 20 },
+            { leadId: 'buyer', name: 'Bea Buyer', role: 'economic_buyer', influence: 'medium', conversations: 0, replies: 0, lastContactDays: null },
+        ]);
+    });
+
+    it('should not list the primary lead twice when it is also a committee member', () => {
+        const engagement = summarizeCommitteeEngagement(
+            lead('primary', 'Pat Primary'),
+            [contact('primary', 'Pat Primary', 'champion')],
+            [],
+            now
+        );
+
+        expect(engagement.map((person) => person.leadId)).toEqual(['primary']);
+    });
+});
@@ -0,0 +1,44 @@
+import { describe, it, expect } from 'vitest';
+import {
+    createProductSchema,
+    dealAmountFromLineItems,
+    lineItemFirstYearValue,
+    lineItemTotal,
+    revenueBreakdown,
+} from '../shared/deal-products';
+
+const item = (unitPrice: number, quantity: number, billingType = 'one_time', billingPeriod: string | null = null, discountPercent = 0) =>
+    ({ unitPrice, quantity, discountPercent, billingType, billingPeriod });
+
+describe('Deal Products Tests', () => {
+    it('should apply quantity and discount to the line total', () => {
+        expect(lineItemTotal(item(1000, 3))).toBe(3000);
+        expect(lineItemTotal(item(999, 1, 'one_time', null, 15))).toBe(849);
+    });
+
+    it('should count recurring items for their first year', () => {
+        expect(lineItemFirstYearValue(item(100, 2, 'recurring', 'monthly'))).toBe(2400);
+        expect(lineItemFirstYearValue(item(1200, 1, 'recurring', 'yearly'))).toBe(1200);
+        expect(lineItemFirstYearValue(item(500, 1))).toBe(500);
+    });
+
+    it('should derive the deal amount and revenue breakdown from line items', () => {
+        const items = [
+            item(5000, 1),
+            item(100, 10, 'recurring', 'monthly', 10),
+            item(6000, 1, 'recurring', 'yearly'),
+        ];
+
+        expect(dealAmountFromLineItems(items)).toBe(5000 + 10800 + 6000);
+        expect(revenueBreakdown(items)).toEqual({ oneTime: 5000, mrr: 1400, arr: 16800 });
+        expect(dealAmountFromLineItems([])).toBe(0);
+    });
+
+    it('should require a billing period for recurring products', () => {
+        const product = { name: 'Platform', unitPrice: 100, currency: 'usd', billingType: 'recurring' };
+
+        expect(createProductSchema.safeParse(product).success).toBe(false);
+        const parsed = createProductSchema.parse({ ...product, billingPeriod: 'monthly' });
+        expect(parsed.currency).toBe('USD');
+    });
+});
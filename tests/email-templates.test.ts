@@ -0,0 +1,35 @@
+import { describe, it, expect } from 'vitest';
+import { buildMergeFields, renderEmailTemplate } from '../server/email-templates';
+
+describe('Email Template Tests', () => {
+    const lead = {
+        name: 'Jordan Lee Smith',
+        firstName: null,
+        lastName: null,
+        email: 'jordan@example.com',
+        company: 'Acme',
+        position: 'CTO',
+    } as any;
+
+    it('should fill lead and owner merge fields', () => {
+        const fields = buildMergeFields(lead, { name: 'Sam Rep', email: 'sam@leadflow.com' });
+        const rendered = renderEmailTemplate(
+            { subject: 'Hi {{firstName}} at {{company}}', body: '{{ position }} - {{ownerName}}' },
+            fields
+        );
+
+        expect(rendered.subject).toBe('Hi Jordan at Acme');
+        expect(rendered.body).toBe('CTO - Sam Rep');
+        expect(fields.lastName).toBe('Lee Smith');
+    });
+
+    it('should leave unknown tags untouched', () => {
+        const rendered = renderEmailTemplate(
+            { subject: '{{unknownField}}', body: '{{email}}' },
+            buildMergeFields(lead)
+        );
+
+        expect(rendered.subject).toBe('{{unknownField}}');
+        expect(rendered.body).toBe('jordan@example.com');
+    });
+});
@@ -0,0 +1,50 @@
+import { describe, it, expect } from 'vitest';
+import { buildThreads, normalizeSubject, parseReferences } from '../shared/email-threads';
+
+const message = (id: string, sentAt: string, extra: any = {}) => ({
+    id,
+    leadId: 'lead-1',
+    subject: 'Pricing',
+    sentAt,
+    ...extra,
+});
+
+describe('Email Threading Tests', () => {
+    it('should nest replies under the message they answered', () => {
+        const threads = buildThreads([
+            message('reply-2', '2024-05-03', { subject: 'RE: Pricing', internetMessageId: '<c@x>', inReplyTo: '<a@x>' }),
+            message('original', '2024-05-01', { internetMessageId: '<a@x>' }),
+            message('reply-1', '2024-05-02', { subject: 'Re: Pricing', internetMessageId: '<b@x>', inReplyTo: '<a@x>' }),
+            message('reply-to-reply', '2024-05-04', {
+                subject: 'Re: Re: Pricing',
+                internetMessageId: '<d@x>',
+                references: ['<a@x>', '<b@x>'],
+            }),
+        ]);
+
+        expect(threads).toHaveLength(1);
+        expect(threads[0].messages.map((m) => [m.message.id, m.depth])).toEqual([
+            ['original', 0],
+            ['reply-1', 1],
+            ['reply-to-reply', 2],
+            ['reply-2', 1],
+        ]);
+    });
+
+    it('should group by Graph conversation id and keep leads apart', () => {
+        const threads = buildThreads([
+            message('a', '2024-05-01', { threadId: 'conv-1', subject: 'Intro' }),
+            message('b', '2024-05-02', { threadId: 'conv-1', subject: 'Something else' }),
+            message('c', '2024-05-03', { threadId: 'conv-1', leadId: 'lead-2' }),
+            message('d', '2024-05-04', { subject: 'Fwd: Pricing' }),
+        ]);
+
+        expect(threads.map((t) => t.messages.map((m) => m.message.id))).toEqual([['d'], ['c'], ['a', 'b']]);
+    });
+
+    it('should parse headers and normalize subjects', () => {
+        expect(parseReferences('<a@x> <b@y>')).toEqual(['<a@x>', '<b@y>']);
+        expect(parseReferences(undefined)).toEqual([]);
+        expect(normalizeSubject('RE: Fwd: AW: Pricing ')).toBe('pricing');
+    });
+});
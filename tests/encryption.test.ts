@@ -0,0 +1,63 @@
+import { describe, it, expect } from 'vitest';
+import { randomBytes } from 'crypto';
+import { createEncryptor, parseEncryptionKeys } from '../server/encryption';
+
+const key = () => randomBytes(32).toString('base64');
+
+describe('Encryption Tests', () => {
+    it('should round-trip values with a fresh data key each time', () => {
+        const encryptor = createEncryptor(parseEncryptionKeys(`1:${key()}`));
+
+        const first = encryptor.encrypt('access-token');
+        const second = encryptor.encrypt('access-token');
+
+        expect(first).toMatch(/^enc:1:/);
+        expect(first).not.toContain('access-token');
+        expect(first).not.toBe(second);
+        expect(encryptor.decrypt(first)).toBe('access-token');
+        expect(encryptor.decrypt(second)).toBe('access-token');
+    });
+
+    it('should read values from older keys and flag them for re-encryption', () => {
+        const oldKey = key();
+        const before = createEncryptor(parseEncryptionKeys(`1:${oldKey}`));
+        const after = createEncryptor(parseEncryptionKeys(`2:${key()},1:${oldKey}`));
+
+        const stored = before.encrypt('refresh-token');
+
+        expect(after.decrypt(stored)).toBe('refresh-token');
+        expect(after.needsReencryption(stored)).toBe(true);
+        expect(after.needsReencryption(after.encrypt('refresh-token'))).toBe(false);
+        expect(() => createEncryptor(parseEncryptionKeys(`2:${key()}`)).decrypt(stored))
+            .toThrow('Encryption key 1 is not configured');
+    });
+
+    it('should pass plaintext through so unmigrated rows keep working', () => {
+        const encryptor = createEncryptor(parseEncryptionKeys(`1:${key()}`));
+        const cookies = [{ name: 'li_at', value: 'abc' }];
+
+        expect(encryptor.decrypt('legacy-token')).toBe('legacy-token');
+        expect(encryptor.needsReencryption('legacy-token')).toBe(true);
+        expect(encryptor.decryptJson(cookies)).toEqual(cookies);
+        expect(encryptor.decryptJson(encryptor.encryptJson(cookies))).toEqual(cookies);
+    });
+
+    it('should reject tampered ciphertext', () => {
+        const encryptor = createEncryptor(parseEncryptionKeys(`1:${key()}`));
+        const parts = encryptor.encrypt('secret').split(':');
+        const ciphertext = Buffer.from(parts[5], 'base64');
+        ciphertext[0] ^= 1;
+        parts[5] = ciphertext.toString('base64');
+
+        expect(() => encryptor.decrypt(parts.join(':'))).toThrow();
+    });
+
+    it('should validate the key list', () => {
+        expect(parseEncryptionKeys(undefined)).toEqual([]);
+        expect(() => parseEncryptionKeys('1:short')).toThrow('must be 32 bytes');
+        expect(() => parseEncryptionKeys(key())).toThrow('<version>:<base64 key>');
+        const shared = key();
+        expect(() => parseEncryptionKeys(`1:${shared},1:${shared}`)).toThrow('duplicate');
+        expect(() => createEncryptor([]).encrypt('x')).toThrow('No encryption key configured');
+    });
+});
@@ -0,0 +1,95 @@
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import request from 'supertest';
+import express from 'express';
+import { registerRoutes } from '../server/routes';
+import { parseExportRequest, toCsvLine } from '../shared/export';
+
+describe('Export Tests', () => {
+    let app: express.Application;
+    let authToken: string;
+    let leadId: string;
+
+    beforeAll(async () => {
+        app = express();
+        await registerRoutes(app);
+
+        const loginResponse = await request(app)
+            .post('/api/auth/login')
+            .send({ email: 'admin@leadflow.com', password: 'admin123' });
+        authToken = loginResponse.body.token;
+
+        const response = await request(app)
+            .post('/api/leads')
+            .set('Authorization', `Bearer ${authToken}`)
+            .send({ name: 'Export, Lead', email: 'export.lead@exportco.example', company: 'ExportCo', status: 'warm' });
+        leadId = response.body.id;
+    });
+
+    afterAll(async () => {
+        if (leadId) {
+            await request(app)
+                .delete(`/api/leads/${leadId}`)
+                .set('Authorization', `Bearer ${authToken}`);
+        }
+    });
+
+    it('should quote CSV cells and neutralize formulas', () => {
+        expect(toCsvLine(['a,b', 'say "hi"', '=SUM(A1)', -5, null, ['x', 'y']])).toBe('"a,b","say ""hi""",\'=SUM(A1),-5,,x; y');
+    });
+
+    it('should reject unknown formats, columns and filters', () => {
+        expect(parseExportRequest('leads', { format: 'pdf' }).success).toBe(false);
+        expect(parseExportRequest('leads', { columns: 'name,passwordHash' }).success).toBe(false);
+        expect(parseExportRequest('tasks', { columns: 'cf.source' }).success).toBe(false);
+        expect(parseExportRequest('deals', { bogus: '1' }).success).toBe(false);
+
+        const parsed = parseExportRequest('leads', { columns: 'name,cf.source', status: 'warm' });
+        expect(parsed.success).toBe(true);
+        if (!parsed.success) return;
+        expect(parsed.data.columns).toEqual(['name', 'cf.source']);
+        expect(parsed.data.format).toBe('csv');
+    });
+
+    it('should export filtered leads as CSV', async () => {
+        const response = await request(app)
+            .get('/api/exports/leads')
+            .query({ format: 'csv', columns: 'name,email,company', search: 'exportco.example' })
+            .set('Authorization', `Bearer ${authToken}`);
+
+        expect(response.status).toBe(200);
+        expect(response.headers['content-type']).toContain('text/csv');
+        expect(response.headers['content-disposition']).toContain('attachment');
+        const lines = response.text.replace(/^﻿/, '').trim().split('\r\n');
+        expect(lines[0]).toBe('Name,Email,Company');
+        expect(lines).toContain('"Export, Lead",export.lead@exportco.example,ExportCo');
+    });
+
+    it('should export the chosen columns as JSON', async () => {
+        const response = await request(app)
+            .get('/api/exports/leads')
+            .query({ format: 'json', columns: 'email,status', search: 'exportco.example' })
+            .set('Authorization', `Bearer ${authToken}`);
+
+        expect(response.status).toBe(200);
+        const rows = JSON.parse(response.text);
+        expect(rows).toEqual([{ email: 'export.lead@exportco.example', status: 'warm' }]);
+    });
+
+    it('should reject unknown entities and columns', async () => {
+        const entityResponse = await request(app)
+            .get('/api/exports/users')
+            .set('Authorization', `Bearer ${authToken}`);
+        expect(entityResponse.status).toBe(404);
+
+        const columnResponse = await request(app)
+            .get('/api/exports/deals')
+            .query({ columns: 'name,secret' })
+            .set('Authorization', `Bearer ${authToken}`);
+        expect(columnResponse.status).toBe(400);
+    });
+
+    it('should require authentication', async () => {
+        const response = await request(app).get('/api/exports/leads');
+        expect(response.status).toBe(401);
+    });
+});
@@ -0,0 +1,78 @@
+import { describe, it, expect, beforeAll } from 'vitest';
+import request from 'supertest';
+import express from 'express';
+import { registerRoutes } from '../server/routes';
+import { jobQueue } from '../server/jobs';
+
+describe('Background Job Tests', () => {
+    let app: express.Application;
+    let server: any;
+    let authToken: string;
+    let salesToken: string;
+    let salesUserId: string;
+
+    beforeAll(async () => {
+        app = express();
+        server = await registerRoutes(app);
+
+        const loginResponse = await request(app)
+            .post('/api/auth/login')
+            .send({ email: 'admin@leadflow.com', password: 'admin123' });
+        authToken = loginResponse.body.token;
+
+        const salesLogin = await request(app)
+            .post('/api/auth/login')
+            .send({ email: 'sales@leadflow.com', password: 'sales123' });
+        salesToken = salesLogin.body.token;
+        salesUserId = salesLogin.body.user?.id;
+    });
+
+    it('should reject job listing without token', async () => {
+        const response = await request(app).get('/api/jobs');
+
+        expect(response.status).toBe(401);
+    });
+
+    it('should list queued jobs by type and status', async () => {
+        const job = await jobQueue.enqueue('test.noop', { value: 1 });
+
+        const response = await request(app)
+            .get('/api/jobs?type=test.noop&status=pending')
+            .set('Authorization', `Bearer ${authToken}`);
+
+        expect(response.status).toBe(200);
+        expect(response.body.some((j: any) => j.id === job.id)).toBe(true);
+    });
+
+    it('should not enqueue a duplicate pending job with the same key', async () => {
+        const first = await jobQueue.enqueue('test.noop', {}, { uniqueKey: 'test.noop:unique' });
+        const second = await jobQueue.enqueue('test.noop', {}, { uniqueKey: 'test.noop:unique' });
+
+        expect(second.id).toBe(first.id);
+    });
+
+    it('should refuse to retry a job that is still pending', async () => {
+        const job = await jobQueue.enqueue('test.noop', {});
+
+        const response = await request(app)
+            .post(`/api/jobs/${job.id}/retry`)
+            .set('Authorization', `Bearer ${authToken}`);
+
+        expect(response.status).toBe(400);
+    });
+
+    it('should let users poll only the jobs they started', async () => {
+        const own = await jobQueue.enqueue('test.noop', {}, { createdBy: salesUserId });
+        const other = await jobQueue.enqueue('test.noop', {});
+
+        const ownResponse = await request(app)
+            .get(`/api/jobs/${own.id}`)
+            .set('Authorization', `Bearer ${salesToken}`);
+        const otherResponse = await request(app)
+            .get(`/api/jobs/${other.id}`)
+            .set('Authorization', `Bearer ${salesToken}`);
+
+        expect(ownResponse.status).toBe(200);
+        expect(otherResponse.status).toBe(403);
+    });
+});
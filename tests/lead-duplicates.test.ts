@@ -0,0 +1,107 @@
+import { describe, it, expect } from 'vitest';
+import type { Lead } from '../shared/schema';
+import {
+    buildMergedLead,
+    nameSimilarity,
+    normalizeCompany,
+    normalizeEmail,
+    normalizePhone,
+    NAME_SIMILARITY_THRESHOLD,
+} from '../shared/lead-duplicates';
+import { leadDuplicateService } from '../server/lead-duplicates';
+
+const lead = (overrides: Partial<Lead>): Lead => ({
+    name: 'Lead',
+    email: null,
+    phone: null,
+    company: null,
+    linkedinUrl: null,
+    tags: [],
+    customFields: {},
+    notes: null,
+    lastContactedAt: null,
+    unsubscribedAt: null,
+    createdAt: new Date('2024-01-01'),
+    ...overrides,
+} as Lead);
+
+describe('Lead Duplicate Detection Tests', () => {
+    it('should normalize emails, phones and company names', () => {
+        expect(normalizeEmail(' Jane.Doe+crm@GoogleMail.com ')).toBe('janedoe@gmail.com');
+        expect(normalizeEmail('jane.doe+crm@acme.com')).toBe('jane.doe@acme.com');
+        expect(normalizeEmail('not-an-email')).toBeNull();
+        expect(normalizePhone('+1 (415) 555-0100')).toBe(normalizePhone('415.555.0100'));
+        expect(normalizePhone('123')).toBeNull();
+        expect(normalizeCompany('ACME, Inc.')).toBe(normalizeCompany('Acme'));
+    });
+
+    it('should score similar names highly regardless of word order and accents', () => {
+        expect(nameSimilarity('Doe Jane', 'jane doe')).toBe(1);
+        expect(nameSimilarity('José García', 'Jose Garcia')).toBe(1);
+        expect(nameSimilarity('Jonathan Smith', 'Jonathon Smith')).toBeGreaterThanOrEqual(NAME_SIMILARITY_THRESHOLD);
+        expect(nameSimilarity('Jane Doe', 'Mark Twain')).toBeLessThan(0.3);
+    });
+
+    it('should match leads by email, LinkedIn, phone and name at the same company', () => {
+        const leads = [
+            lead({ id: 'a', name: 'Jane Doe', email: 'jane+x@acme.com', company: 'Acme Inc' }),
+            lead({ id: 'b', name: 'Jane Doe', email: 'JANE@acme.com', linkedinUrl: 'https://www.linkedin.com/in/janedoe/' }),
+            lead({ id: 'c', name: 'J. Doe', linkedinUrl: 'linkedin.com/in/JaneDoe', phone: '555 010 0999' }),
+            lead({ id: 'd', name: 'Someone Else', phone: '(555) 010-0999' }),
+            lead({ id: 'e', name: 'Jane Doe', company: 'ACME' }),
+            lead({ id: 'f', name: 'Bob Smith', company: 'Acme' }),
+        ];
+
+        const matches = leadDuplicateService.findMatches(leads);
+        const reasonsFor = (a: string, b: string) =>
+            matches.find((m) => m.leadIds[0] === a && m.leadIds[1] === b)?.reasons;
+
+        expect(reasonsFor('a', 'b')).toEqual(['email']);
+        expect(reasonsFor('b', 'c')).toEqual(['linkedin']);
+        expect(reasonsFor('c', 'd')).toEqual(['phone']);
+        expect(reasonsFor('a', 'e')).toEqual(['name_company']);
+        expect(matches.some((m) => m.leadIds.includes('f'))).toBe(false);
+    });
+
+    it('should skip dismissed pairs', () => {
+        const leads = [
+            lead({ id: 'a', email: 'jane@acme.com' }),
+            lead({ id: 'b', email: 'jane@acme.com' }),
+        ];
+
+        expect(leadDuplicateService.findMatches(leads, new Set(['a:b']))).toEqual([]);
+    });
+
+    it('should build the merged lead from picked sources and combine the rest', () => {
+        const survivor = lead({
+            id: 'a',
+            name: 'Jane Doe',
+            email: 'jane@acme.com',
+            tags: ['vip'],
+            customFields: { source: 'web' },
+            notes: 'Met at conference',
+        });
+        const duplicate = lead({
+            id: 'b',
+            name: 'Jane D.',
+            email: 'jane.doe@acme.com',
+            phone: '+1 415 555 0100',
+            tags: ['vip', 'imported'],
+            customFields: { source: 'csv', region: 'EMEA' },
+            notes: 'Asked for pricing',
+            lastContactedAt: new Date('2024-05-01'),
+            unsubscribedAt: new Date('2024-04-01'),
+        });
+
+        const updates = buildMergedLead(survivor, [duplicate], { email: 'b' });
+
+        expect(updates.email).toBe('jane.doe@acme.com');
+        expect(updates.name).toBeUndefined();
+        expect(updates.phone).toBe('+1 415 555 0100');
+        expect(updates.tags).toEqual(['vip', 'imported']);
+        expect(updates.customFields).toEqual({ source: 'web', region: 'EMEA' });
+        expect(updates.notes).toBe('Met at conference\n\nAsked for pricing');
+        expect(updates.lastContactedAt).toEqual(new Date('2024-05-01'));
+        expect(updates.unsubscribedAt).toEqual(new Date('2024-04-01'));
+    });
+});
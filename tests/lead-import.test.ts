@@ -0,0 +1,53 @@
+import { describe, it, expect } from 'vitest';
+import { dedupeKey, mapImportRow, parseCsv, suggestMapping } from '../shared/lead-import';
+
+describe('Lead Import Parsing Tests', () => {
+    it('should parse quoted CSV cells, CRLF line endings and a BOM', () => {
+        const rows = parseCsv('﻿Name,Notes\r\n"Doe, Jane","Said ""hi""\ntwice"\r\n\r\nBob,\r\n');
+
+        expect(rows).toEqual([
+            ['Name', 'Notes'],
+            ['Doe, Jane', 'Said "hi"\ntwice'],
+            ['Bob', ''],
+        ]);
+    });
+
+    it('should detect semicolon separated files', () => {
+        expect(parseCsv('email;company\na@b.com;Acme')).toEqual([
+            ['email', 'company'],
+            ['a@b.com', 'Acme'],
+        ]);
+    });
+
+    it('should suggest lead fields by header and custom fields for the rest', () => {
+        expect(suggestMapping(['E-mail Address', 'First Name', 'Job Title', 'Lead Source', ''])).toEqual([
+            'email',
+            'firstName',
+            'position',
+            'customFields.Lead_Source',
+            null,
+        ]);
+    });
+
+    it('should map a row into lead fields', () => {
+        const mapping = ['firstName', 'lastName', 'email', 'score', 'tags', 'status', 'customFields.source', null];
+        const lead = mapImportRow(['Jane', 'Doe', 'jane@acme.com', '42', 'vip; webinar', 'HOT', 'Expo', 'ignored'], mapping);
+
+        expect(lead).toEqual({
+            firstName: 'Jane',
+            lastName: 'Doe',
+            name: 'Jane Doe',
+            email: 'jane@acme.com',
+            score: 42,
+            tags: ['vip', 'webinar'],
+            status: 'hot',
+            customFields: { source: 'Expo' },
+        });
+    });
+
+    it('should normalize dedupe keys', () => {
+        expect(dedupeKey({ email: ' Jane@Acme.com ' }, 'email')).toBe('jane@acme.com');
+        expect(dedupeKey({ linkedinUrl: 'https://www.linkedin.com/in/jane/' }, 'linkedinUrl')).toBe('linkedin.com/in/jane');
+        expect(dedupeKey({ email: '' }, 'email')).toBeNull();
+    });
+});
@@ -0,0 +1,43 @@
+import { describe, it, expect } from 'vitest';
+import { decodeLeadCursor, encodeLeadCursor, parseLeadSearch } from '../shared/lead-search';
+
+describe('Lead Search Parameter Tests', () => {
+    it('should split lists and parse multi-column sorts', () => {
+        const result = parseLeadSearch({ status: 'hot, warm', sort: 'score:desc,name' });
+
+        expect(result.success).toBe(true);
+        if (!result.success) return;
+        expect(result.data.status).toEqual(['hot', 'warm']);
+        expect(result.data.sort).toEqual([
+            { field: 'score', direction: 'desc' },
+            { field: 'name', direction: 'asc' },
+        ]);
+        expect(result.data.limit).toBe(50);
+    });
+
+    it('should collect cf.<key> parameters into custom fields', () => {
+        const result = parseLeadSearch({ 'cf.source': 'Webinar', 'cf.bad key': 'x' });
+
+        expect(result.success).toBe(true);
+        if (!result.success) return;
+        expect(result.data.customFields).toEqual({ source: 'Webinar' });
+    });
+
+    it('should reject unknown sort fields, out of range scores and bad cursors', () => {
+        expect(parseLeadSearch({ sort: 'password:asc' }).success).toBe(false);
+        expect(parseLeadSearch({ minScore: '150' }).success).toBe(false);
+        expect(parseLeadSearch({ limit: '500' }).success).toBe(false);
+        expect(parseLeadSearch({ cursor: 'not-a-cursor' }).success).toBe(false);
+    });
+
+    it('should round trip cursor values', () => {
+        const values = ['Zoë Müller', 42, '2024-05-01T10:00:00.000Z', 'lead-id'];
+        const cursor = encodeLeadCursor(values);
+
+        expect(cursor).toMatch(/^[A-Za-z0-9_-]+$/);
+        expect(decodeLeadCursor(cursor)).toEqual(values);
+
+        const result = parseLeadSearch({ cursor });
+        expect(result.success && result.data.cursor).toEqual(values);
+    });
+});
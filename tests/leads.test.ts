@@ -1,4 +1,4 @@
-import { describe, it, expect, beforeAll } from 'vitest';
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
 import request from 'supertest';
 import express from 'express';
 import { registerRoutes } from '../server/routes';
@@ -94,6 +94,116 @@ describe('Lead Management Tests', () => {
         });
     });
 
+    describe('Search and Pagination', () => {
+        const createdIds: string[] = [];
+
+        beforeAll(async () => {
+            for (const [name, score] of [['Search Alpha', 90], ['Search Beta', 60], ['Search Gamma', 30]] as const) {
+                const response = await request(app)
+                    .post('/api/leads')
+                    .set('Authorization', `Bearer ${authToken}`)
+                    .send({
+                        name,
+                        email: `${name.toLowerCase().replace(' ', '.')}@searchco.example`,
+                        company: 'SearchCo',
+                        status: 'warm',
+                        score,
+                    });
+                createdIds.push(response.body.id);
+            }
+        });
+
+        afterAll(async () => {
+            for (const id of createdIds) {
+                await request(app)
+                    .delete(`/api/leads/${id}`)
+                    .set('Authorization', `Bearer ${authToken}`);
+            }
+        });
+
+        it('should match every search word against name, email and company', async () => {
+            const response = await request(app)
+                .get('/api/leads?q=searchco%20beta')
+                .set('Authorization', `Bearer ${authToken}`);
+
+            expect(response.status).toBe(200);
+            expect(response.body.total).toBe(1);
+            expect(response.body.leads[0].name).toBe('Search Beta');
+        });
+
+        it('should filter by score range and sort by score', async () => {
+            const response = await request(app)
+                .get('/api/leads?q=searchco&minScore=50&sort=score:desc')
+                .set('Authorization', `Bearer ${authToken}`);
+
+            expect(response.status).toBe(200);
+            expect(response.body.leads.map((l: any) => l.name)).toEqual(['Search Alpha', 'Search Beta']);
+        });
+
+        it('should page through results with a cursor', async () => {
+            const first = await request(app)
+                .get('/api/leads?q=searchco&sort=name:asc&limit=2')
+                .set('Authorization', `Bearer ${authToken}`);
+
+            expect(first.body.total).toBe(3);
+            expect(first.body.leads).toHaveLength(2);
+            expect(first.body.nextCursor).toBeTruthy();
+
+            const second = await request(app)
+                .get(`/api/leads?q=searchco&sort=name:asc&limit=2&cursor=${first.body.nextCursor}`)
+                .set('Authorization', `Bearer ${authToken}`);
+
+            expect(second.body.leads.map((l: any) => l.name)).toEqual(['Search Gamma']);
+            expect(second.body.nextCursor).toBeNull();
+        });
+
+        it('should reject unknown sort fields', async () => {
+            const response = await request(app)
+                .get('/api/leads?sort=password:asc')
+                .set('Authorization', `Bearer ${authToken}`);
+
+            expect(response.status).toBe(400);
+        });
+    });
+
+    describe('Assignment Rules', () => {
+        it('should assign a new unowned lead through an active round robin rule', async () => {
+            const meResponse = await request(app)
+                .get('/api/auth/me')
+                .set('Authorization', `Bearer ${authToken}`);
+            const userId = meResponse.body.id;
+
+            const ruleResponse = await request(app)
+                .post('/api/assignment-rules')
+                .set('Authorization', `Bearer ${authToken}`)
+                .send({
+                    name: 'Test Round Robin',
+                    condition: 'round_robin',
+                    conditionValue: { userIds: [userId] },
+                    priority: 1000,
+                });
+            expect(ruleResponse.status).toBe(200);
+
+            const leadResponse = await request(app)
+                .post('/api/leads')
+                .set('Authorization', `Bearer ${authToken}`)
+                .send({
+                    name: 'Round Robin Lead',
+                    email: 'round-robin@example.com',
+                });
+
+            expect(leadResponse.status).toBe(200);
+            expect(leadResponse.body.ownerId).toBe(userId);
+
+            await request(app)
+                .delete(`/api/leads/${leadResponse.body.id}`)
+                .set('Authorization', `Bearer ${authToken}`);
+            await request(app)
+                .delete(`/api/assignment-rules/${ruleResponse.body.id}`)
+                .set('Authorization', `Bearer ${authToken}`);
+        });
+    });
+
     describe('Email Integration', () => {
         it('should create lead and conversation when sending email', async () => {
             const response = await request(app)
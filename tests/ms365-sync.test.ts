@@ -0,0 +1,99 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { ms365Integration } from '../server/ms365';
+
+const jsonResponse = (body: any, status = 200) =>
+    new Response(JSON.stringify(body), { status, headers: { 'Content-Type': 'application/json' } });
+
+const message = (id: string, extra: any = {}) => ({
+    id,
+    subject: `Subject ${id}`,
+    body: { content: 'Hello' },
+    from: { emailAddress: { address: 'lead@example.com' } },
+    toRecipients: [{ emailAddress: { address: 'rep@leadflow.com' } }],
+    ccRecipients: [{ emailAddress: { address: 'cc@example.com' } }],
+    sentDateTime: '2024-05-01T10:00:00Z',
+    ...extra,
+});
+
+describe('MS365 Delta Sync Tests', () => {
+    afterEach(() => {
+        vi.unstubAllGlobals();
+    });
+
+    it('should follow nextLink pages until the deltaLink and skip removed messages', async () => {
+        const fetchMock = vi.fn()
+            .mockResolvedValueOnce(jsonResponse({
+                value: [message('m1'), { id: 'm0', '@removed': { reason: 'deleted' } }],
+                '@odata.nextLink': 'https://graph.microsoft.com/next-page',
+            }))
+            .mockResolvedValueOnce(jsonResponse({
+                value: [message('m2')],
+                '@odata.deltaLink': 'https://graph.microsoft.com/delta-link',
+            }));
+        vi.stubGlobal('fetch', fetchMock);
+
+        const result = await ms365Integration.fetchEmails('token', 'sentitems', undefined, { backfillDays: 7 });
+
+        expect(fetchMock.mock.calls[0][0]).toContain('/me/mailFolders/sentitems/messages/delta');
+        expect(decodeURIComponent(fetchMock.mock.calls[0][0])).toContain('receivedDateTime ge');
+        expect(fetchMock.mock.calls[1][0]).toBe('https://graph.microsoft.com/next-page');
+        expect(result.emails.map((e) => e.id)).toEqual(['m1', 'm2']);
+        expect(result.emails[0].recipients).toEqual(['rep@leadflow.com', 'cc@example.com']);
+        expect(result.nextDeltaLink).toBe('https://graph.microsoft.com/delta-link');
+    });
+
+    it('should start a new delta round when the saved link has expired', async () => {
+        const fetchMock = vi.fn()
+            .mockResolvedValueOnce(jsonResponse({ error: { code: 'SyncStateNotFound' } }, 410))
+            .mockResolvedValueOnce(jsonResponse({
+                value: [message('m3')],
+                '@odata.deltaLink': 'https://graph.microsoft.com/fresh-link',
+            }));
+        vi.stubGlobal('fetch', fetchMock);
+
+        const result = await ms365Integration.fetchEmails(
+            'token',
+            'inbox',
+            'https://graph.microsoft.com/v1.0/me/mailFolders/inbox/messages/delta?$deltatoken=old',
+        );
+
+        expect(fetchMock.mock.calls[1][0]).toContain('/me/mailFolders/inbox/messages/delta');
+        expect(result.emails).toHaveLength(1);
+        expect(result.nextDeltaLink).toBe('https://graph.microsoft.com/fresh-link');
+    });
+
+    it('should start a new delta round instead of resuming a pre-delta page link', async () => {
+        const fetchMock = vi.fn()
+            .mockResolvedValueOnce(jsonResponse({ value: [message('m4')] }));
+        vi.stubGlobal('fetch', fetchMock);
+
+        const result = await ms365Integration.fetchEmails(
+            'token',
+            'inbox',
+            'https://graph.microsoft.com/v1.0/me/messages?$top=50&$skip=50',
+        );
+
+        expect(fetchMock.mock.calls[0][0]).toContain('/me/mailFolders/inbox/messages/delta');
+        // A page with neither link is not resumed from
+        expect(result.nextDeltaLink).toBeNull();
+    });
+
+    it('should send through a draft so the Message-ID of sent mail is known', async () => {
+        const fetchMock = vi.fn()
+            .mockResolvedValueOnce(jsonResponse({ id: 'draft-1', internetMessageId: '<abc@example.com>' }, 201))
+            .mockResolvedValueOnce(new Response(null, { status: 202 }));
+        vi.stubGlobal('fetch', fetchMock);
+
+        const result = await ms365Integration.sendEmail({
+            to: 'lead@example.com',
+            subject: 'Hello',
+            body: 'Hi there',
+            accessToken: 'token',
+            userId: 'u1',
+        });
+
+        expect(fetchMock.mock.calls[0][0]).toBe('https://graph.microsoft.com/v1.0/me/messages');
+        expect(fetchMock.mock.calls[1][0]).toBe('https://graph.microsoft.com/v1.0/me/messages/draft-1/send');
+        expect(result).toEqual({ success: true, messageId: 'draft-1', internetMessageId: '<abc@example.com>' });
+    });
+});
@@ -0,0 +1,139 @@
+import { describe, it, expect, afterEach } from 'vitest';
+import { mkdtemp, readdir, readFile, rm } from 'fs/promises';
+import { tmpdir } from 'os';
+import path from 'path';
+import { appUrl, createToken, hashToken } from '../server/onboarding';
+import { FileMailTransport, getMailTransport, registerMailTransport, sendMail, setMailTransport, type MailMessage } from '../server/mail';
+import {
+    createInvitationSchema,
+    invitationStatus,
+    resetPasswordSchema,
+} from '../shared/onboarding';
+
+describe('Onboarding Tests', () => {
+    describe('Tokens', () => {
+        it('should store only a hash of each token', () => {
+            const { token, tokenHash } = createToken();
+            expect(token).toMatch(/^[A-Za-z0-9_-]{43}$/);
+            expect(tokenHash).toBe(hashToken(token));
+            expect(tokenHash).not.toContain(token);
+        });
+
+        it('should create a different token every time', () => {
+            expect(createToken().token).not.toBe(createToken().token);
+        });
+    });
+
+    describe('App URL', () => {
+        const previous = process.env.APP_URL;
+
+        afterEach(() => {
+            if (previous === undefined) delete process.env.APP_URL;
+            else process.env.APP_URL = previous;
+        });
+
+        it('should refuse to build links without APP_URL', () => {
+            delete process.env.APP_URL;
+            expect(() => appUrl()).toThrow('APP_URL must be set');
+        });
+
+        it('should reject non-http URLs and trim trailing slashes', () => {
+            process.env.APP_URL = 'javascript:alert(1)';
+            expect(() => appUrl()).toThrow('http(s)');
+            process.env.APP_URL = 'https://crm.example.com/app/';
+            expect(appUrl()).toBe('https://crm.example.com/app');
+        });
+    });
+
+    describe('Invitation Status', () => {
+        const now = new Date('2026-01-10T12:00:00Z');
+        const base = { expiresAt: new Date('2026-01-12T00:00:00Z'), acceptedAt: null, revokedAt: null };
+
+        it('should be pending until it expires', () => {
+            expect(invitationStatus(base, now)).toBe('pending');
+            expect(invitationStatus({ ...base, expiresAt: '2026-01-09T00:00:00Z' }, now)).toBe('expired');
+        });
+
+        it('should report acceptance before revocation or expiry', () => {
+            const accepted = { ...base, expiresAt: '2026-01-01T00:00:00Z', acceptedAt: '2026-01-02T00:00:00Z' };
+            expect(invitationStatus(accepted, now)).toBe('accepted');
+            expect(invitationStatus({ ...base, revokedAt: now }, now)).toBe('revoked');
+        });
+    });
+
+    describe('Schemas', () => {
+        it('should normalise invited email addresses', () => {
+            const parsed = createInvitationSchema.parse({ email: '  Jane@Example.COM ', role: 'sales_rep' });
+            expect(parsed.email).toBe('jane@example.com');
+        });
+
+        it('should reject short passwords on reset', () => {
+            expect(resetPasswordSchema.safeParse({ token: 'abc', password: 'short' }).success).toBe(false);
+            expect(resetPasswordSchema.safeParse({ token: 'abc', password: 'long enough' }).success).toBe(true);
+        });
+    });
+
+    describe('Mail Transport', () => {
+        let directory: string | null = null;
+
+        afterEach(async () => {
+            setMailTransport(null);
+            if (directory) await rm(directory, { recursive: true, force: true });
+            directory = null;
+        });
+
+        it('should write messages to the mail directory', async () => {
+            directory = await mkdtemp(path.join(tmpdir(), 'leadflow-mail-'));
+            await new FileMailTransport(directory).send({
+                to: 'jane@example.com',
+                subject: 'Hello',
+                text: 'Body text',
+            });
+
+            const files = await readdir(directory);
+            expect(files).toHaveLength(1);
+            const contents = await readFile(path.join(directory, files[0]), 'utf8');
+            expect(contents).toContain('To: jane@example.com');
+            expect(contents).toContain('Subject: Hello');
+            expect(contents).toContain('Body text');
+        });
+
+        it('should send through a custom transport', async () => {
+            const sent: MailMessage[] = [];
+            setMailTransport({ send: async (message) => { sent.push(message); } });
+
+            await sendMail({ to: 'a@example.com', subject: 'Hi', text: 'There' });
+            expect(sent).toEqual([{ to: 'a@example.com', subject: 'Hi', text: 'There' }]);
+        });
+
+        it('should pick registered transports by MAIL_TRANSPORT', async () => {
+            const sent: string[] = [];
+            registerMailTransport('test', () => ({ send: async (message) => { sent.push(message.to); } }));
+            const previous = process.env.MAIL_TRANSPORT;
+            process.env.MAIL_TRANSPORT = 'test';
+            try {
+                await sendMail({ to: 'b@example.com', subject: 'Hi', text: 'There' });
+            } finally {
+                if (previous === undefined) delete process.env.MAIL_TRANSPORT;
+                else process.env.MAIL_TRANSPORT = previous;
+            }
+            expect(sent).toEqual(['b@example.com']);
+        });
+
+        it('should refuse to log mail in production', () => {
+            const previous = { NODE_ENV: process.env.NODE_ENV, MAIL_TRANSPORT: process.env.MAIL_TRANSPORT };
+            process.env.NODE_ENV = 'production';
+            delete process.env.MAIL_TRANSPORT;
+            try {
+                expect(() => getMailTransport()).toThrow('MAIL_TRANSPORT must be set');
+                process.env.MAIL_TRANSPORT = 'console';
+                expect(() => getMailTransport()).toThrow('MAIL_TRANSPORT must be set');
+            } finally {
+                for (const [name, value] of Object.entries(previous)) {
+                    if (value === undefined) delete process.env[name];
+                    else process.env[name] = value;
+                }
+            }
+        });
+    });
+});
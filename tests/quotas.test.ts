@@ -0,0 +1,48 @@
+import { describe, it, expect } from 'vitest';
+import { attainmentPercent, quotaPeriod, rollUpActuals, tallyActuals } from '../shared/quotas';
+
+describe('Quota Attainment Tests', () => {
+    it('should resolve the calendar month and quarter containing a date', () => {
+        const month = quotaPeriod('month', new Date(2024, 4, 17));
+        expect(month.start).toEqual(new Date(2024, 4, 1));
+        expect(month.end).toEqual(new Date(2024, 5, 1));
+        expect(month.label).toBe('May 2024');
+
+        const quarter = quotaPeriod('quarter', new Date(2024, 10, 3));
+        expect(quarter.start).toEqual(new Date(2024, 9, 1));
+        expect(quarter.end).toEqual(new Date(2025, 0, 1));
+        expect(quarter.label).toBe('Q4 2024');
+    });
+
+    it('should tally won deals and completed tasks per user', () => {
+        const actuals = tallyActuals(
+            [
+                { ownerId: 'rep-1', amount: 5000 },
+                { ownerId: 'rep-1', amount: null },
+                { ownerId: 'rep-2', amount: 2000 },
+            ],
+            { 'rep-2': 4, manager: 1 }
+        );
+
+        expect(actuals['rep-1']).toEqual({ revenue: 5000, deals_won: 2, activities: 0 });
+        expect(actuals['rep-2']).toEqual({ revenue: 2000, deals_won: 1, activities: 4 });
+        expect(actuals.manager).toEqual({ revenue: 0, deals_won: 0, activities: 1 });
+    });
+
+    it('should roll results up a team without counting anyone twice', () => {
+        const actuals = tallyActuals([{ ownerId: 'rep-1', amount: 5000 }, { ownerId: 'rep-2', amount: 2000 }], { manager: 3 });
+
+        expect(rollUpActuals(actuals, ['manager', 'rep-1', 'rep-2', 'rep-1'])).toEqual({
+            revenue: 7000,
+            deals_won: 2,
+            activities: 3,
+        });
+    });
+
+    it('should report attainment only when there is a target', () => {
+        expect(attainmentPercent(7500, 10000)).toBe(75);
+        expect(attainmentPercent(12000, 10000)).toBe(120);
+        expect(attainmentPercent(5, null)).toBeNull();
+        expect(attainmentPercent(0, 0)).toBe(0);
+    });
+});
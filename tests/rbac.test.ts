@@ -1,7 +1,16 @@
-import { describe, it, expect, beforeAll } from 'vitest';
+import { describe, it, expect, beforeAll, vi } from 'vitest';
 import request from 'supertest';
 import express from 'express';
+import cookieParser from 'cookie-parser';
 import { registerRoutes } from '../server/routes';
+import AuthService from '../server/auth';
+import { Permission, RolePermissions } from '../server/permissions';
+
+// routes/linkedin.ts builds its LinkedAPI client on import, which needs both tokens
+vi.hoisted(() => {
+    vi.stubEnv('LINKEDAPI_TOKEN', 'test-token');
+    vi.stubEnv('LINKEDAPI_IDENTIFICATION_TOKEN', 'test-identification-token');
+});
 
 describe('RBAC (Role-Based Access Control) Tests', () => {
     let app: express.Application;
@@ -91,3 +100,105 @@ describe('RBAC (Role-Based Access Control) Tests', () => {
         });
     });
 });
+
+interface RegisteredRoute {
+    method: string;
+    path: string;
+    permission?: Permission;
+}
+
+// Routes that are meant to be reachable without a session
+const publicRoutes = [/^\/api\/auth\//, /^\/api\/ms365\/webhook$/];
+
+// Express stores a router's mount path as a regexp such as ^\/api\/jobs\/?(?=\/|$)
+const mountPath = (regexp: RegExp) =>
+    regexp.source.replace('^', '').replace('\\/?(?=\\/|$)', '').replace(/\\\//g, '/');
+
+/**
+ * Every route registered on the app, with the permission its middleware declares
+ * (on the route itself or router-wide)
+ */
+function listRoutes(app: express.Application): RegisteredRoute[] {
+    const routes: RegisteredRoute[] = [];
+    const walk = (stack: any[], prefix: string) => {
+        let routerPermission: Permission | undefined;
+        for (const layer of stack) {
+            if (layer.route) {
+                const declared = layer.route.stack.find((entry: any) => entry.handle.permission);
+                for (const method of Object.keys(layer.route.methods)) {
+                    routes.push({
+                        method,
+                        path: prefix + layer.route.path,
+                        permission: declared?.handle.permission ?? routerPermission,
+                    });
+                }
+            } else if (layer.name === 'router') {
+                walk(layer.handle.stack, prefix + mountPath(layer.regexp));
+            } else if (layer.handle.permission) {
+                routerPermission = layer.handle.permission;
+            }
+        }
+    };
+    walk((app as any)._router.stack, '');
+    return routes;
+}
+
+describe('RBAC route policy', () => {
+    // One session per role; "guest" is a role without any permissions
+    const sessionRoles: Record<string, string> = {
+        admin: 'admin',
+        manager: 'manager',
+        sales_rep: 'sales_rep',
+        guest: 'guest',
+    };
+
+    let app: express.Application;
+    let routes: RegisteredRoute[];
+
+    beforeAll(async () => {
+        vi.spyOn(AuthService, 'verifySession').mockImplementation(async (sessionId: string) => {
+            const role = sessionRoles[sessionId];
+            return role ? { id: `user-${role}`, email: `${role}@example.com`, name: role, role } : null;
+        });
+
+        app = express();
+        app.use(express.json());
+        app.use(cookieParser());
+        await registerRoutes(app);
+        routes = listRoutes(app).filter((route) => !publicRoutes.some((pattern) => pattern.test(route.path)));
+    });
+
+    const send = (route: RegisteredRoute, sessionId?: string) => {
+        const req = (request(app) as any)[route.method](route.path.replace(/:\w+/g, 'test-id'));
+        return sessionId ? req.set('Cookie', `session_id=${sessionId}`) : req;
+    };
+
+    it('declares a permission on every protected route', () => {
+        expect(routes.length).toBeGreaterThan(100);
+        const undeclared = routes.filter((route) => !route.permission).map((route) => `${route.method.toUpperCase()} ${route.path}`);
+        expect(undeclared).toEqual([]);
+    });
+
+    it('rejects unauthenticated callers on every protected route', async () => {
+        for (const route of routes) {
+            const response = await send(route);
+            expect(response.status, `${route.method.toUpperCase()} ${route.path}`).toBe(401);
+        }
+    });
+
+    it('rejects callers whose role has no permissions on every protected route', async () => {
+        for (const route of routes) {
+            const response = await send(route, 'guest');
+            expect(response.status, `${route.method.toUpperCase()} ${route.path}`).toBe(403);
+        }
+    });
+
+    it('rejects each built-in role on routes that need a permission it lacks', async () => {
+        for (const role of ['admin', 'manager', 'sales_rep']) {
+            for (const route of routes.filter((r) => !RolePermissions[role].includes(r.permission!))) {
+                const response = await send(route, role);
+                expect(response.status, `${role}: ${route.method.toUpperCase()} ${route.path}`).toBe(403);
+            }
+        }
+    });
+});
@@ -0,0 +1,120 @@
+import { describe, it, expect, afterEach } from 'vitest';
+import PermissionService, { Permission, RolePermissions } from '../server/permissions';
+import { createRoleSchema, redactFields, isFieldHidden } from '../shared/roles';
+import type { Role } from '../shared/schema';
+
+const role = (key: string, permissions: string[], hiddenFields: object = {}): Role => ({
+    id: key,
+    key,
+    name: key,
+    description: null,
+    permissions,
+    hiddenFields,
+    createdAt: new Date(),
+    updatedAt: new Date(),
+} as Role);
+
+const user = (role: string) => ({ id: 'u1', email: 'u1@example.com', name: 'User', role } as any);
+
+describe('Custom Roles Tests', () => {
+    afterEach(() => {
+        PermissionService.useRoles([]);
+    });
+
+    it('should fall back to the built-in permissions when no role is stored', () => {
+        expect(PermissionService.permissionsFor('sales_rep')).toEqual(RolePermissions.sales_rep);
+        expect(PermissionService.permissionsFor('unknown_role')).toEqual([]);
+        expect(PermissionService.leadsTeam('manager')).toBe(true);
+        expect(PermissionService.leadsTeam('sales_rep')).toBe(false);
+    });
+
+    it('should use stored permissions for built-in and custom roles', () => {
+        PermissionService.useRoles([
+            role('sales_rep', [Permission.VIEW_OWN_DATA]),
+            role('team_lead', [Permission.VIEW_OWN_DATA, Permission.VIEW_TEAM_DATA, 'not_a_permission']),
+        ]);
+
+        expect(PermissionService.hasPermission(user('sales_rep'), Permission.MANAGE_OWN_LEADS)).toBe(false);
+        expect(PermissionService.permissionsFor('team_lead')).toEqual([Permission.VIEW_OWN_DATA, Permission.VIEW_TEAM_DATA]);
+        expect(PermissionService.leadsTeam('team_lead')).toBe(true);
+    });
+
+    it('should derive data scope from the view permissions', async () => {
+        PermissionService.useRoles([
+            role('auditor', [Permission.VIEW_OWN_DATA, Permission.VIEW_ALL_DATA]),
+            role('coach', [Permission.VIEW_OWN_DATA, Permission.MANAGE_TEAM_LEADS]),
+        ]);
+
+        expect(PermissionService.seesAllData(user('auditor'))).toBe(true);
+        expect(PermissionService.seesAllData(user('manager'))).toBe(false);
+        expect(PermissionService.seesAllData(user('admin'))).toBe(true);
+        // MANAGE_TEAM_LEADS alone no longer widens what the role sees
+        expect(PermissionService.leadsTeam('coach')).toBe(false);
+        // Seeing everyone's records does not allow changing them
+        expect(await PermissionService.canModifyRecord(user('auditor'), 'someone-else')).toBe(false);
+    });
+
+    it('should always give admins every permission and every field', () => {
+        PermissionService.useRoles([role('admin', [], { deals: ['amount'] })]);
+
+        expect(PermissionService.hasPermission(user('admin'), Permission.MANAGE_USERS)).toBe(true);
+        expect(PermissionService.hiddenFields(user('admin'), 'deals')).toEqual([]);
+        expect(PermissionService.leadsTeam('admin')).toBe(false);
+    });
+
+    it('should only let non-admins grant roles with no more access than their own', () => {
+        PermissionService.useRoles([
+            role('manager', RolePermissions.manager, { deals: ['amount'] }),
+            role('sales_rep', RolePermissions.sales_rep, { deals: ['amount'] }),
+            role('open_rep', RolePermissions.sales_rep),
+            role('settings_rep', [...RolePermissions.sales_rep, Permission.MANAGE_SETTINGS]),
+        ]);
+
+        expect(PermissionService.canGrantRole(user('admin'), 'admin')).toBe(true);
+        expect(PermissionService.canGrantRole(user('manager'), 'admin')).toBe(false);
+        expect(PermissionService.canGrantRole(user('manager'), 'sales_rep')).toBe(true);
+        expect(PermissionService.canGrantRole(user('manager'), 'settings_rep')).toBe(false);
+        // Fewer hidden fields would show the invitee what the inviter cannot see
+        expect(PermissionService.canGrantRole(user('manager'), 'open_rep')).toBe(false);
+        expect(PermissionService.canGrantRole(user('sales_rep'), 'manager')).toBe(false);
+    });
+
+    it('should redact hidden fields in responses and drop them from updates', () => {
+        PermissionService.useRoles([role('sales_rep', RolePermissions.sales_rep, { deals: ['amount'] })]);
+        const rep = user('sales_rep');
+        const deal = { id: 'd1', title: 'Deal', amount: '5000', probability: 40 };
+
+        expect(PermissionService.redact(rep, 'deals', deal)).toEqual({ ...deal, amount: null });
+        expect(PermissionService.redactAll(rep, 'leads', [{ id: 'l1', phone: '555' }])).toEqual([{ id: 'l1', phone: '555' }]);
+        expect(PermissionService.withoutHidden(rep, 'deals', { amount: '1', title: 'New' })).toEqual({ title: 'New' });
+        expect(deal.amount).toBe('5000');
+    });
+});
+
+describe('Role Definition Tests', () => {
+    it('should only null fields present on the record', () => {
+        expect(redactFields({ email: 'a@b.c', name: 'A' }, ['email', 'phone'])).toEqual({ email: null, name: 'A' });
+    });
+
+    it('should check hidden fields per entity', () => {
+        const hidden = { leads: ['phone' as const], deals: [] };
+
+        expect(isFieldHidden(hidden, 'leads', 'phone')).toBe(true);
+        expect(isFieldHidden(hidden, 'deals', 'phone')).toBe(false);
+        expect(isFieldHidden(undefined, 'deals', 'amount')).toBe(false);
+    });
+
+    it('should validate role keys and restrictable fields', () => {
+        const parsed = createRoleSchema.parse({ key: 'team_lead', name: 'Team Lead' });
+        expect(parsed.hiddenFields).toEqual({ leads: [], deals: [] });
+        expect(parsed.permissions).toEqual([]);
+
+        expect(createRoleSchema.safeParse({ key: 'Team Lead', name: 'Team Lead' }).success).toBe(false);
+        expect(createRoleSchema.safeParse({ key: 'x', name: 'X' }).success).toBe(false);
+        expect(createRoleSchema.safeParse({
+            key: 'team_lead',
+            name: 'Team Lead',
+            hiddenFields: { deals: ['title'] },
+        }).success).toBe(false);
+    });
+});
@@ -0,0 +1,50 @@
+import { describe, it, expect } from 'vitest';
+import { evaluateConditions } from '../server/rule-conditions';
+import { conditionNodeSchema, type ConditionNode } from '../shared/automation-rules';
+
+describe('Rule Condition Tests', () => {
+    const facts = {
+        lead: { score: 72, status: 'hot', company: 'Acme Corp', tags: ['enterprise'], country: 'US' } as any,
+        owner: { id: 'u1', name: 'Sam', email: 'sam@leadflow.com', role: 'sales_rep' },
+        previous: { 'lead.status': 'warm' },
+    };
+
+    it('should combine AND, OR and NOT groups', () => {
+        const tree: ConditionNode = {
+            type: 'group',
+            operator: 'and',
+            conditions: [
+                { type: 'condition', field: 'lead.score', operator: 'between', value: [60, 80] },
+                {
+                    type: 'group',
+                    operator: 'or',
+                    conditions: [
+                        { type: 'condition', field: 'lead.country', operator: 'in', value: ['ca', 'us'] },
+                        { type: 'condition', field: 'lead.company', operator: 'contains', value: 'globex' },
+                    ],
+                },
+                {
+                    type: 'group',
+                    operator: 'not',
+                    conditions: [{ type: 'condition', field: 'owner.role', operator: 'equals', value: 'admin' }],
+                },
+            ],
+        };
+
+        expect(evaluateConditions(tree, facts)).toBe(true);
+    });
+
+    it('should only match changed_to on a real transition', () => {
+        const changedToHot: ConditionNode = { type: 'condition', field: 'lead.status', operator: 'changed_to', value: 'hot' };
+        expect(evaluateConditions(changedToHot, facts)).toBe(true);
+        expect(evaluateConditions(changedToHot, { ...facts, previous: { 'lead.status': 'hot' } })).toBe(false);
+        expect(evaluateConditions(changedToHot, { ...facts, previous: undefined })).toBe(false);
+    });
+
+    it('should reject malformed conditions', () => {
+        expect(conditionNodeSchema.safeParse({ type: 'condition', field: 'lead.score', operator: 'between', value: 5 }).success).toBe(false);
+        expect(conditionNodeSchema.safeParse({ type: 'condition', field: 'password', operator: 'equals', value: 'x' }).success).toBe(false);
+        expect(conditionNodeSchema.safeParse({ type: 'condition', field: 'owner.passwordHash', operator: 'is_not_empty' }).success).toBe(false);
+        expect(conditionNodeSchema.safeParse({ type: 'group', operator: 'xor', conditions: [] }).success).toBe(false);
+    });
+});
@@ -0,0 +1,99 @@
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import request from 'supertest';
+import express from 'express';
+import { registerRoutes } from '../server/routes';
+import { validateSavedViewConfig } from '../shared/saved-views';
+
+describe('Saved View Tests', () => {
+    let app: express.Application;
+    let authToken: string;
+    const leadIds: string[] = [];
+    let viewId: string;
+
+    beforeAll(async () => {
+        app = express();
+        await registerRoutes(app);
+
+        const loginResponse = await request(app)
+            .post('/api/auth/login')
+            .send({ email: 'admin@leadflow.com', password: 'admin123' });
+        authToken = loginResponse.body.token;
+
+        for (const name of ['View Lead One', 'View Lead Two']) {
+            const response = await request(app)
+                .post('/api/leads')
+                .set('Authorization', `Bearer ${authToken}`)
+                .send({ name, email: `${name.toLowerCase().replace(/ /g, '.')}@viewco.example`, company: 'ViewCo', status: 'cold' });
+            leadIds.push(response.body.id);
+        }
+    });
+
+    afterAll(async () => {
+        for (const id of leadIds) {
+            await request(app)
+                .delete(`/api/leads/${id}`)
+                .set('Authorization', `Bearer ${authToken}`);
+        }
+        if (viewId) {
+            await request(app)
+                .delete(`/api/saved-views/${viewId}`)
+                .set('Authorization', `Bearer ${authToken}`);
+        }
+    });
+
+    it('should validate filters and columns against the entity type', () => {
+        expect(validateSavedViewConfig({ entityType: 'lead', filters: { status: 'hot' }, sort: 'score:desc', columns: ['email'] })).toBeNull();
+        expect(validateSavedViewConfig({ entityType: 'lead', filters: {}, sort: 'password:asc', columns: [] })).not.toBeNull();
+        expect(validateSavedViewConfig({ entityType: 'deal', filters: { status: 'pending' }, columns: [] })).not.toBeNull();
+        expect(validateSavedViewConfig({ entityType: 'deal', filters: { minScore: '10' }, columns: [] })).not.toBeNull();
+        expect(validateSavedViewConfig({ entityType: 'deal', filters: {}, columns: ['email'] })).toContain('Unknown deal column');
+    });
+
+    it('should save a lead view and report its live count', async () => {
+        const response = await request(app)
+            .post('/api/saved-views')
+            .set('Authorization', `Bearer ${authToken}`)
+            .send({ name: 'ViewCo leads', entityType: 'lead', visibility: 'team', filters: { q: 'viewco' }, sort: 'name:asc', columns: ['email'] });
+
+        expect(response.status).toBe(200);
+        viewId = response.body.id;
+
+        const counts = await request(app)
+            .get('/api/saved-views/counts')
+            .set('Authorization', `Bearer ${authToken}`);
+        expect(counts.body[viewId]).toBe(2);
+    });
+
+    it('should reject views with invalid filters', async () => {
+        const response = await request(app)
+            .post('/api/saved-views')
+            .set('Authorization', `Bearer ${authToken}`)
+            .send({ name: 'Broken', entityType: 'lead', filters: { minScore: '500' } });
+
+        expect(response.status).toBe(400);
+    });
+
+    it('should run a bulk action on every lead in the view', async () => {
+        const response = await request(app)
+            .post(`/api/saved-views/${viewId}/bulk-action`)
+            .set('Authorization', `Bearer ${authToken}`)
+            .send({ type: 'set_lead_status', status: 'hot' });
+
+        expect(response.status).toBe(200);
+        expect(response.body).toMatchObject({ matched: 2, updated: 2, failed: 0 });
+
+        const lead = await request(app)
+            .get(`/api/leads/${leadIds[0]}`)
+            .set('Authorization', `Bearer ${authToken}`);
+        expect(lead.body.status).toBe('hot');
+    });
+
+    it('should reject bulk actions meant for the other entity type', async () => {
+        const response = await request(app)
+            .post(`/api/saved-views/${viewId}/bulk-action`)
+            .set('Authorization', `Bearer ${authToken}`)
+            .send({ type: 'move_stage', stageId: 'any' });
+
+        expect(response.status).toBe(400);
+    });
+});
@@ -0,0 +1,93 @@
+import { describe, it, expect } from 'vitest';
+import express from 'express';
+import request from 'supertest';
+import {
+    base32Decode,
+    base32Encode,
+    generateRecoveryCodes,
+    hashRecoveryCode,
+    hotp,
+    otpauthUrl,
+    totpCode,
+    totpStep,
+    verifyTotp,
+} from '../server/totp';
+import { createRateLimiter } from '../server/rate-limit';
+
+// RFC 6238 test secret: the ASCII string "12345678901234567890"
+const rfcSecret = base32Encode(Buffer.from('12345678901234567890'));
+
+describe('TOTP Tests', () => {
+    it('should match the RFC 4226 and RFC 6238 test vectors', () => {
+        expect(hotp(rfcSecret, 0)).toBe('755224');
+        expect(hotp(rfcSecret, 9)).toBe('520489');
+        expect(hotp(rfcSecret, totpStep(new Date(59 * 1000)), 8)).toBe('94287082');
+        expect(hotp(rfcSecret, totpStep(new Date(1111111109 * 1000)), 8)).toBe('07081804');
+    });
+
+    it('should round-trip base32 and ignore spacing in secrets', () => {
+        const bytes = Buffer.from('any secret bytes');
+        const encoded = base32Encode(bytes);
+
+        expect(base32Decode(encoded)).toEqual(bytes);
+        expect(base32Decode(encoded.toLowerCase().match(/.{1,4}/g)!.join(' '))).toEqual(bytes);
+        expect(() => base32Decode('not base32!')).toThrow('Invalid base32 secret');
+    });
+
+    it('should accept codes within one step of drift and return their step', () => {
+        const now = new Date('2024-05-01T12:00:00Z');
+        const previous = new Date(now.getTime() - 30 * 1000);
+        const tooOld = new Date(now.getTime() - 90 * 1000);
+
+        expect(verifyTotp(rfcSecret, totpCode(rfcSecret, now), now)).toBe(totpStep(now));
+        expect(verifyTotp(rfcSecret, totpCode(rfcSecret, previous), now)).toBe(totpStep(previous));
+        expect(verifyTotp(rfcSecret, totpCode(rfcSecret, tooOld), now)).toBeNull();
+        expect(verifyTotp(rfcSecret, 'abcdef', now)).toBeNull();
+    });
+
+    it('should build an otpauth URI for authenticator apps', () => {
+        const url = new URL(otpauthUrl('LeadFlow', 'rep@example.com', rfcSecret));
+
+        expect(url.protocol).toBe('otpauth:');
+        expect(url.host).toBe('totp');
+        expect(decodeURIComponent(url.pathname)).toBe('/LeadFlow:rep@example.com');
+        expect(url.searchParams.get('secret')).toBe(rfcSecret);
+        expect(url.searchParams.get('issuer')).toBe('LeadFlow');
+    });
+
+    it('should generate unique recovery codes and hash them loosely', () => {
+        const codes = generateRecoveryCodes();
+
+        expect(codes).toHaveLength(10);
+        expect(new Set(codes).size).toBe(10);
+        codes.forEach((code) => expect(code).toMatch(/^[a-z2-7]{5}-[a-z2-7]{5}$/));
+        expect(hashRecoveryCode(codes[0])).toBe(hashRecoveryCode(` ${codes[0].replace('-', '').toUpperCase()} `));
+    });
+});
+
+describe('Rate Limit Tests', () => {
+    it('should reject requests over the limit with Retry-After', async () => {
+        const app = express();
+        app.post('/login', createRateLimiter({ windowMs: 60 * 1000, max: 2, message: 'Slow down' }), (_req, res) => {
+            res.json({ ok: true });
+        });
+
+        expect((await request(app).post('/login')).status).toBe(200);
+        expect((await request(app).post('/login')).status).toBe(200);
+
+        const limited = await request(app).post('/login');
+        expect(limited.status).toBe(429);
+        expect(limited.body.error).toBe('Slow down');
+        expect(Number(limited.headers['retry-after'])).toBeGreaterThan(0);
+    });
+
+    it('should count clients separately', async () => {
+        const app = express();
+        const limiter = createRateLimiter({ windowMs: 60 * 1000, max: 1, key: (req) => req.get('x-client') || '' });
+        app.get('/', limiter, (_req, res) => res.json({ ok: true }));
+
+        expect((await request(app).get('/').set('x-client', 'a')).status).toBe(200);
+        expect((await request(app).get('/').set('x-client', 'b')).status).toBe(200);
+        expect((await request(app).get('/').set('x-client', 'a')).status).toBe(429);
+    });
+});